@@ -0,0 +1,55 @@
+#!/usr/bin/env bun
+
+// measures how closely the LLM turn judge agrees with the human-labeled calibration set
+// usage: TURN_JUDGE_BASE_URL=... TURN_JUDGE_MODEL=... TURN_JUDGE_API_KEY=... \
+//   bun ./scripts/calibrate-turn-judge.ts [--min-kappa 0.6]
+// point it at the OpenAI-compatible endpoint and model the server judges with
+
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { generateText, type LanguageModel } from 'ai';
+
+import { measureTurnJudgeAgreement } from '../src/pi-extensions/turn-grading-calibration.js';
+import { createTurnJudge } from '../src/pi-extensions/turn-grading.js';
+
+const args = new Map<string, string>();
+for (let index = 2; index < process.argv.length; index += 2) {
+  const key = process.argv[index];
+  const value = process.argv[index + 1];
+  if (!key?.startsWith('--') || !value)
+    throw new Error('Invalid calibration arguments');
+  args.set(key.slice(2), value);
+}
+
+const requiredEnv = (name: string): string => {
+  const value = process.env[name]?.trim();
+  if (!value) throw new Error(`${name} is not present`);
+  return value;
+};
+
+const baseURL = requiredEnv('TURN_JUDGE_BASE_URL');
+const modelId = requiredEnv('TURN_JUDGE_MODEL');
+const apiKey = requiredEnv('TURN_JUDGE_API_KEY');
+const provider = createOpenAICompatible({ name: 'turn-judge', baseURL, apiKey });
+
+const judge = createTurnJudge({
+  model: provider(modelId),
+  generateText: ({ model, prompt, temperature, maxTokens }) =>
+    generateText({
+      model: model as LanguageModel,
+      prompt,
+      temperature,
+      maxOutputTokens: maxTokens,
+    }),
+});
+
+const report = await measureTurnJudgeAgreement(judge);
+
+process.stdout.write(`${JSON.stringify({ model: modelId, ...report }, null, 2)}\n`);
+
+const minKappa = args.has('min-kappa') ? Number(args.get('min-kappa')) : null;
+if (minKappa !== null && (report.judgeErrors > 0 || report.judge.kappa < minKappa)) {
+  process.stderr.write(
+    `judge agreement below threshold: kappa ${report.judge.kappa} < ${minKappa}, ${report.judgeErrors} error(s)\n`,
+  );
+  process.exit(1);
+}
@@ -0,0 +1,268 @@
+// test: cron parsing, timezone/DST next-run times and the leased scheduler
+// run: node --experimental-strip-types packages/agent/src/automation/__tests__/scheduler.test.ts
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { nextCronRun, parseCronSchedule } from '../cron.ts';
+import { parseCron } from '../trigger.service.ts';
+import { createInMemoryScheduleStore } from '../schedule.store.ts';
+import { createAutomationScheduler } from '../scheduler.service.ts';
+import type { Automation } from '../automation.types.ts';
+
+const next = (cron: string, after: string, timezone = 'UTC') =>
+  nextCronRun(parseCronSchedule(cron), new Date(after), timezone)?.toISOString();
+
+// fake clock the tests move by hand
+const createClock = (start: string) => {
+  let now = new Date(start);
+
+  return {
+    now: () => now,
+    set: (iso: string) => {
+      now = new Date(iso);
+    },
+  };
+};
+
+const automation = (overrides: Partial<Automation> = {}): Automation => ({
+  id: 'auto-1',
+  name: 'Morning pipeline review',
+  enabled: true,
+  skillId: 'pipeline-review',
+  trigger: { type: 'schedule', cron: '0 9 * * *', timezone: 'America/New_York' },
+  inputOverrides: {},
+  notifyOn: 'none',
+  userId: 'user-1',
+  workspaceId: 'ws-1',
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('parseCronSchedule', () => {
+  it('expands lists, ranges, steps, names and macros', () => {
+    const schedule = parseCronSchedule('*/20 9-17/4 1,15 jan-mar mon-fri');
+
+    assert.deepEqual(schedule.minutes, [0, 20, 40]);
+    assert.deepEqual(schedule.hours, [9, 13, 17]);
+    assert.deepEqual([...schedule.daysOfMonth], [1, 15]);
+    assert.deepEqual([...schedule.months], [1, 2, 3]);
+    assert.deepEqual([...schedule.daysOfWeek], [1, 2, 3, 4, 5]);
+    assert.deepEqual(parseCronSchedule('@daily').hours, [0]);
+    assert.deepEqual([...parseCronSchedule('0 0 * * 7').daysOfWeek], [0]);
+  });
+
+  it('rejects malformed expressions through parseCron', () => {
+    assert.deepEqual(parseCron('0 9 * *'), { valid: false, error: 'expected 5 fields, got 4' });
+    assert.deepEqual(parseCron('0 24 * * *'), { valid: false, error: 'invalid hour field: 24' });
+    assert.equal(parseCron('5/0 * * * *').valid, false);
+    assert.equal(parseCron('0 9 * * mon').valid, true);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    assert.equal(next('*/15 * * * *', '2025-03-03T10:15:00Z'), '2025-03-03T10:30:00.000Z');
+    assert.equal(next('0 9 * * 1', '2025-03-03T09:00:00Z'), '2025-03-10T09:00:00.000Z');
+  });
+
+  it('fires on either day field when both are restricted', () => {
+    // the 13th of June 2025 is a Friday, the 2nd is a Monday
+    assert.equal(next('0 0 13 * 1', '2025-06-01T00:00:00Z'), '2025-06-02T00:00:00.000Z');
+  });
+
+  it('evaluates wall-clock times in the trigger timezone', () => {
+    assert.equal(
+      next('0 9 * * *', '2025-01-15T15:00:00Z', 'America/New_York'),
+      '2025-01-16T14:00:00.000Z',
+    );
+    assert.equal(
+      next('0 9 * * *', '2025-07-15T15:00:00Z', 'America/New_York'),
+      '2025-07-16T13:00:00.000Z',
+    );
+  });
+
+  it('moves times skipped by spring-forward past the gap', () => {
+    // 2:30 does not exist in New York on 9 March 2025
+    assert.equal(
+      next('30 2 * * *', '2025-03-09T05:00:00Z', 'America/New_York'),
+      '2025-03-09T07:30:00.000Z',
+    );
+  });
+
+  it('fires once for times repeated by fall-back', () => {
+    // 1:30 happens twice in New York on 2 November 2025
+    assert.equal(
+      next('30 1 * * *', '2025-11-02T04:00:00Z', 'America/New_York'),
+      '2025-11-02T05:30:00.000Z',
+    );
+    assert.equal(
+      next('30 1 * * *', '2025-11-02T05:30:00Z', 'America/New_York'),
+      '2025-11-03T06:30:00.000Z',
+    );
+  });
+
+  it('keeps firing through the repeated hour for wildcard hours', () => {
+    // 1:00-1:59 happens twice in New York on 1 November 2026
+    assert.equal(
+      next('*/15 * * * *', '2026-11-01T05:45:00Z', 'America/New_York'),
+      '2026-11-01T06:00:00.000Z',
+    );
+    assert.equal(
+      next('*/15 * * * *', '2026-11-01T06:10:00Z', 'America/New_York'),
+      '2026-11-01T06:15:00.000Z',
+    );
+    assert.equal(
+      next('30 */1 * * *', '2026-11-01T05:30:00Z', 'America/New_York'),
+      '2026-11-01T06:30:00.000Z',
+    );
+    assert.equal(
+      next('30 1 * * *', '2026-11-01T04:00:00Z', 'America/New_York'),
+      '2026-11-01T05:30:00.000Z',
+    );
+  });
+
+  it('returns null for dates that never exist', () => {
+    assert.equal(next('0 0 30 2 *', '2025-01-01T00:00:00Z'), undefined);
+  });
+});
+
+describe('createAutomationScheduler', () => {
+  it('fires due runs, records the outcome and schedules the next one', async () => {
+    const clock = createClock('2025-01-15T12:00:00Z');
+    const store = createInMemoryScheduleStore();
+    const runs: string[] = [];
+    const scheduler = createAutomationScheduler({
+      store,
+      clock,
+      workerId: 'worker-a',
+      run: async (_automation, { scheduledFor }) => {
+        runs.push(scheduledFor.toISOString());
+
+        return 'success';
+      },
+    });
+
+    assert.equal((await scheduler.schedule(automation()))?.toISOString(), '2025-01-15T14:00:00.000Z');
+    assert.deepEqual(await scheduler.tick(), { succeeded: [], failed: [], skipped: [] });
+
+    clock.set('2025-01-15T14:00:30Z');
+    assert.deepEqual((await scheduler.tick()).succeeded, ['auto-1']);
+    assert.deepEqual(runs, ['2025-01-15T14:00:00.000Z']);
+
+    const entry = store.get('auto-1');
+    assert.equal(entry?.nextRunAt.toISOString(), '2025-01-16T14:00:00.000Z');
+    assert.equal(entry?.automation.lastRunStatus, 'success');
+    assert.equal(entry?.automation.lastRunAt?.toISOString(), '2025-01-15T14:00:30.000Z');
+  });
+
+  it('lets only one worker claim a due run until its lease expires', async () => {
+    const clock = createClock('2025-01-15T13:59:00Z');
+    const store = createInMemoryScheduleStore();
+    const releases: Array<() => void> = [];
+    const run = async () => {
+      await new Promise<void>((resolve) => {
+        releases.push(resolve);
+      });
+
+      return 'success' as const;
+    };
+    const workerA = createAutomationScheduler({ store, clock, run, workerId: 'worker-a', leaseMs: 60_000 });
+    const workerB = createAutomationScheduler({ store, clock, run, workerId: 'worker-b', leaseMs: 60_000 });
+
+    await workerA.schedule(automation());
+    clock.set('2025-01-15T14:00:00Z');
+
+    const firstTick = workerA.tick();
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.deepEqual(await workerB.tick(), { succeeded: [], failed: [], skipped: [] });
+
+    // worker A stalls past its lease, so worker B takes the run over
+    clock.set('2025-01-15T14:01:00Z');
+    const secondTick = workerB.tick();
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(releases.length, 2);
+
+    releases[1]();
+    assert.deepEqual(await secondTick, { succeeded: ['auto-1'], failed: [], skipped: [] });
+
+    // worker A finishes late but no longer holds the lease
+    releases[0]();
+    assert.deepEqual(await firstTick, { succeeded: [], failed: [], skipped: [] });
+  });
+
+  it('skips runs beyond maxRunsPerDay until the local day changes', async () => {
+    const clock = createClock('2025-01-15T04:50:00Z');
+    const store = createInMemoryScheduleStore();
+    const scheduler = createAutomationScheduler({
+      store,
+      clock,
+      workerId: 'worker-a',
+      run: async () => 'success',
+    });
+
+    await scheduler.schedule(
+      automation({
+        maxRunsPerDay: 2,
+        trigger: { type: 'schedule', cron: '0 * * * *', timezone: 'America/New_York' },
+      }),
+    );
+
+    const statuses: string[] = [];
+
+    // 00:00 through 03:00 New York time
+    for (const iso of [
+      '2025-01-15T05:00:00Z',
+      '2025-01-15T06:00:00Z',
+      '2025-01-15T07:00:00Z',
+      '2025-01-15T08:00:00Z',
+    ]) {
+      clock.set(iso);
+      const result = await scheduler.tick();
+      statuses.push(result.succeeded.length ? 'success' : result.skipped.length ? 'skipped' : 'none');
+    }
+
+    assert.deepEqual(statuses, ['success', 'success', 'skipped', 'skipped']);
+    assert.equal(store.get('auto-1')?.automation.lastRunStatus, 'skipped');
+
+    await scheduler.schedule(
+      automation({
+        maxRunsPerDay: 2,
+        trigger: { type: 'schedule', cron: '0 0 * * *', timezone: 'America/New_York' },
+      }),
+    );
+    clock.set('2025-01-16T05:00:00Z');
+    assert.deepEqual((await scheduler.tick()).succeeded, ['auto-1']);
+  });
+
+  it('records failures, fires a missed run once and unschedules disabled automations', async () => {
+    const clock = createClock('2025-01-15T12:00:00Z');
+    const store = createInMemoryScheduleStore();
+    const errors: string[] = [];
+    let runs = 0;
+    const scheduler = createAutomationScheduler({
+      store,
+      clock,
+      workerId: 'worker-a',
+      onError: (automationId) => errors.push(automationId),
+      run: async () => {
+        runs += 1;
+        throw new Error('skill crashed');
+      },
+    });
+
+    await scheduler.schedule(automation());
+
+    // no worker ticked for three days
+    clock.set('2025-01-18T12:00:00Z');
+    assert.deepEqual((await scheduler.tick()).failed, ['auto-1']);
+    assert.equal(runs, 1);
+    assert.deepEqual(errors, ['auto-1']);
+    assert.equal(store.get('auto-1')?.automation.lastRunStatus, 'failure');
+    assert.equal(store.get('auto-1')?.nextRunAt.toISOString(), '2025-01-18T14:00:00.000Z');
+
+    assert.equal(await scheduler.schedule(automation({ enabled: false })), null);
+    assert.equal(store.get('auto-1'), undefined);
+  });
+});
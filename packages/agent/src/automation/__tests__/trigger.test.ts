@@ -0,0 +1,224 @@
+// test: nested condition groups, trigger operators and the condition validator
+// run: node --experimental-strip-types packages/agent/src/automation/__tests__/trigger.test.ts
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  evaluateCondition,
+  evaluateConditionGroup,
+  matchEventTrigger,
+  validateConditionGroup,
+  validateTriggerConfig,
+} from '../trigger.service.ts';
+import type { ConditionGroup, CrmEvent } from '../automation.types.ts';
+
+const payload = {
+  amount: 12000,
+  'owner.id': 'flat-owner',
+  deal: {
+    stage: { name: 'Negotiation' },
+    tags: ['enterprise', 'renewal'],
+    lastActivityAt: '2025-03-01T00:00:00Z',
+  },
+};
+
+const now = new Date('2025-03-10T00:00:00Z');
+
+describe('evaluateCondition', () => {
+  it('reads dotted paths and prefers an exact flat key', () => {
+    assert.equal(evaluateCondition({ field: 'deal.stage.name', operator: 'eq', value: 'Negotiation' }, payload), true);
+    assert.equal(evaluateCondition({ field: 'owner.id', operator: 'eq', value: 'flat-owner' }, payload), true);
+    assert.equal(evaluateCondition({ field: 'deal.stage.name.first', operator: 'exists' }, payload), false);
+  });
+
+  it('supports in, exists, matches and list contains', () => {
+    assert.equal(
+      evaluateCondition({ field: 'deal.stage.name', operator: 'in', value: ['Proposal', 'Negotiation'] }, payload),
+      true,
+    );
+    assert.equal(evaluateCondition({ field: 'amount', operator: 'not_in', value: [100, '12000'] }, payload), false);
+    assert.equal(evaluateCondition({ field: 'deal.closedAt', operator: 'not_exists' }, payload), true);
+    assert.equal(evaluateCondition({ field: 'deal.stage.name', operator: 'matches', value: '^Neg' }, payload), true);
+    assert.equal(evaluateCondition({ field: 'deal.tags', operator: 'contains', value: 'renewal' }, payload), true);
+  });
+
+  it('compares dates relative to the reference time', () => {
+    const condition = { field: 'deal.lastActivityAt', operator: 'older_than', value: '7d' } as const;
+
+    assert.equal(evaluateCondition(condition, payload, { now }), true);
+    assert.equal(evaluateCondition({ ...condition, operator: 'newer_than' }, payload, { now }), false);
+    assert.equal(evaluateCondition(condition, payload), false);
+  });
+
+  it('detects a field changing from or to a value', () => {
+    const previous = { deal: { stage: { name: 'Proposal' } } };
+
+    assert.equal(
+      evaluateCondition({ field: 'deal.stage.name', operator: 'changed_to', value: 'Negotiation' }, payload, { previous }),
+      true,
+    );
+    assert.equal(
+      evaluateCondition({ field: 'deal.stage.name', operator: 'changed_from', value: 'Proposal' }, payload, { previous }),
+      true,
+    );
+    assert.equal(
+      evaluateCondition({ field: 'deal.stage.name', operator: 'changed_to', value: 'Negotiation' }, payload, {
+        previous: payload,
+      }),
+      false,
+    );
+  });
+});
+
+describe('evaluateConditionGroup', () => {
+  it('evaluates nested groups', () => {
+    // amount > 10000 and (stage is Closed Won or tagged enterprise)
+    const group: ConditionGroup = {
+      operator: 'and',
+      conditions: [
+        { field: 'amount', operator: 'gt', value: 10000 },
+        {
+          operator: 'or',
+          conditions: [
+            { field: 'deal.stage.name', operator: 'eq', value: 'Closed Won' },
+            { field: 'deal.tags', operator: 'contains', value: 'enterprise' },
+          ],
+        },
+      ],
+    };
+
+    assert.equal(evaluateConditionGroup(group, payload), true);
+    assert.equal(evaluateConditionGroup(group, { ...payload, deal: { tags: [] } }), false);
+  });
+
+  it('passes the previous payload and event time through event triggers', () => {
+    const event: CrmEvent = {
+      type: 'deal_stage_changed',
+      payload,
+      previousPayload: { deal: { stage: { name: 'Proposal' } } },
+      timestamp: now,
+      userId: 'user-1',
+      workspaceId: 'ws-1',
+    };
+
+    assert.equal(
+      matchEventTrigger(
+        {
+          type: 'event',
+          event: 'deal_stage_changed',
+          conditions: {
+            operator: 'and',
+            conditions: [
+              { field: 'deal.stage.name', operator: 'changed_to', value: 'Negotiation' },
+              { field: 'deal.lastActivityAt', operator: 'older_than', value: '1w' },
+            ],
+          },
+        },
+        event,
+      ),
+      true,
+    );
+  });
+});
+
+describe('validateConditionGroup', () => {
+  it('accepts a well-formed tree', () => {
+    assert.deepEqual(
+      validateConditionGroup({
+        operator: 'or',
+        conditions: [
+          { field: 'deal.closedAt', operator: 'exists' },
+          { operator: 'and', conditions: [{ field: 'amount', operator: 'in', value: [1, 2] }] },
+        ],
+      }),
+      { valid: true, errors: [] },
+    );
+  });
+
+  it('names each malformed node', () => {
+    const result = validateConditionGroup({
+      operator: 'and',
+      conditions: [
+        { field: 'deal..stage', operator: 'eq', value: 'x' },
+        { field: 'amount', operator: 'between' as 'eq', value: 1 },
+        {
+          operator: 'or',
+          conditions: [
+            { field: 'name', operator: 'matches', value: '(' },
+            { field: 'createdAt', operator: 'older_than', value: 'a week' },
+            { operator: 'and', conditions: [] },
+          ],
+        },
+        { field: 'stage', operator: 'in', value: 'Proposal' },
+      ],
+    });
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, [
+      'conditions.conditions[0]: field must be a non-empty dotted path',
+      'conditions.conditions[1]: unknown operator between',
+      'conditions.conditions[2].conditions[0]: invalid regular expression (',
+      'conditions.conditions[2].conditions[1]: older_than needs a duration such as 30m, 12h, 7d or 2w',
+      'conditions.conditions[2].conditions[2]: nested group has no conditions',
+      'conditions.conditions[3]: in needs a non-empty list of values',
+    ]);
+  });
+
+  it('caps the length of matches patterns', () => {
+    const pattern = 'a'.repeat(257);
+    const result = validateConditionGroup({
+      operator: 'and',
+      conditions: [{ field: 'name', operator: 'matches', value: pattern }],
+    });
+
+    assert.deepEqual(result.errors, [
+      'conditions.conditions[0]: regular expression is longer than 256 characters',
+    ]);
+    assert.equal(evaluateCondition({ field: 'name', operator: 'matches', value: pattern }, { name: pattern }), false);
+    assert.equal(
+      evaluateCondition({ field: 'name', operator: 'matches', value: pattern.slice(1) }, { name: pattern }),
+      true,
+    );
+  });
+
+  it('refuses patterns that repeat a repeated group', () => {
+    const nested = ['^(a+)+$', '(\\w+\\s?)*x', '((ab)*c)+', '(a+){2,}'];
+    const safe = ['^(ab)+$', 'a+b*', '(foo|bar)+', '[(a+)]+', '\\(a+\\)+', '(a+)?b'];
+
+    for (const value of nested) {
+      const result = validateConditionGroup({
+        operator: 'and',
+        conditions: [{ field: 'name', operator: 'matches', value }],
+      });
+
+      assert.deepEqual(result.errors, [
+        'conditions.conditions[0]: regular expression repeats a repeated group, such as (a+)+',
+      ]);
+      assert.equal(evaluateCondition({ field: 'name', operator: 'matches', value }, { name: 'aaaa' }), false);
+    }
+
+    for (const value of safe) {
+      const result = validateConditionGroup({
+        operator: 'and',
+        conditions: [{ field: 'name', operator: 'matches', value }],
+      });
+
+      assert.deepEqual(result.errors, [], value);
+    }
+  });
+
+  it('rejects trees nested too deeply and bad schedule triggers', () => {
+    let group: ConditionGroup = { operator: 'and', conditions: [{ field: 'a', operator: 'exists' }] };
+
+    for (let depth = 0; depth < 5; depth++) {
+      group = { operator: 'and', conditions: [group] };
+    }
+
+    assert.equal(validateConditionGroup(group).valid, false);
+    assert.deepEqual(validateTriggerConfig({ type: 'schedule', cron: '0 9 * *', timezone: 'Mars/Olympus' }), {
+      valid: false,
+      errors: ['cron: expected 5 fields, got 4', 'timezone: unknown timezone Mars/Olympus'],
+    });
+  });
+});
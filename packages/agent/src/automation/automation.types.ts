@@ -1,20 +1,49 @@
+export type ConditionOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'not_contains'
+  | 'in'
+  | 'not_in'
+  | 'exists'
+  | 'not_exists'
+  | 'changed_from'
+  | 'changed_to'
+  | 'matches'
+  | 'older_than'
+  | 'newer_than';
+
+export type ConditionValue = string | number | boolean;
+
 export type Condition = {
+  // dotted path into the payload, e.g. "deal.stage.name"
   field: string;
-  operator:
-    | 'eq'
-    | 'neq'
-    | 'gt'
-    | 'gte'
-    | 'lt'
-    | 'lte'
-    | 'contains'
-    | 'not_contains';
-  value: string | number | boolean;
+  operator: ConditionOperator;
+  // a list for in/not_in, a regex source for matches, a duration such as
+  // "7d" for older_than/newer_than, and omitted for exists/not_exists
+  value?: ConditionValue | ConditionValue[];
 };
 
 export type ConditionGroup = {
   operator: 'and' | 'or';
-  conditions: Condition[];
+  conditions: Array<Condition | ConditionGroup>;
+};
+
+// what a condition is evaluated against besides the payload itself
+export type ConditionContext = {
+  // payload before the change, for changed_from/changed_to
+  previous?: Record<string, unknown>;
+  // reference time for older_than/newer_than
+  now?: Date;
+};
+
+export type ValidationResult = {
+  valid: boolean;
+  errors: string[];
 };
 
 export type TriggerConfig =
@@ -60,6 +89,8 @@ export type CrmEventType =
 export type CrmEvent = {
   type: CrmEventType;
   payload: Record<string, unknown>;
+  // payload before the change, for update events
+  previousPayload?: Record<string, unknown>;
   timestamp: Date;
   userId: string;
   workspaceId: string;
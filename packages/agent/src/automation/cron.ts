@@ -0,0 +1,319 @@
+// NOTE: standard five-field cron (minute hour day-of-month month day-of-week)
+// with lists, ranges, steps, month and weekday names, and the @daily-style
+// macros. Wall-clock times are evaluated in the automation's IANA timezone.
+
+export type CronSchedule = {
+  expression: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // a fixed hour fires once on fall-back day; wildcard and step hours fire in
+  // both passes through the repeated hour, as cron does
+  hourRestricted: boolean;
+  // when both day fields are restricted, cron fires if either one matches
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+};
+
+type CronField = {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+};
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  {
+    name: 'day of week',
+    min: 0,
+    max: 7,
+    names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'],
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// a Feb 29 schedule can go eight years without firing (2096 -> 2104)
+const SEARCH_DAYS = 366 * 8;
+
+function parseCronValue(token: string, field: CronField): number {
+  const named = field.names?.indexOf(token.toLowerCase()) ?? -1;
+
+  if (named >= 0) {
+    return named + field.min;
+  }
+
+  if (!/^\d+$/.test(token)) {
+    return Number.NaN;
+  }
+
+  return Number(token);
+}
+
+function parseCronField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => new Error(`invalid ${field.name} field: ${text}`);
+
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+
+    if (extra !== undefined || !range) {
+      throw invalid();
+    }
+
+    const step = stepText === undefined ? 1 : /^\d+$/.test(stepText) ? Number(stepText) : 0;
+
+    if (step < 1) {
+      throw invalid();
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const bounds = range.split('-');
+
+      if (bounds.length !== 2) {
+        throw invalid();
+      }
+
+      start = parseCronValue(bounds[0], field);
+      end = parseCronValue(bounds[1], field);
+    } else {
+      start = parseCronValue(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : field.max;
+    }
+
+    if (Number.isNaN(start) || Number.isNaN(end) || start < field.min || end > field.max || start > end) {
+      throw invalid();
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a cron expression, throwing an Error that names the offending field
+ * when it is invalid.
+ */
+export function parseCronSchedule(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index]),
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    minutes: [...minutes].sort((a, b) => a - b),
+    hours: [...hours].sort((a, b) => a - b),
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    hourRestricted: !fields[1].startsWith('*'),
+    dayOfMonthRestricted: !fields[2].startsWith('*'),
+    dayOfWeekRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+// --- timezone handling ---
+
+type WallTime = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    formatterFor(timezone);
+
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function wallTimeAt(instant: number, timezone: string): WallTime {
+  const parts: Record<string, number> = {};
+
+  for (const part of formatterFor(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function offsetAt(instant: number, timezone: string): number {
+  const wall = wallTimeAt(instant, timezone);
+  const wallMs = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+
+  return wallMs - Math.floor(instant / 1000) * 1000;
+}
+
+// NOTE: a wall time repeated when clocks go back resolves to both of its
+// occurrences, earliest first; one skipped when clocks go forward is moved
+// later by the gap
+function resolveWallTime(wallMs: number, timezone: string): { instants: number[]; shifted: boolean } {
+  const offsetBefore = offsetAt(wallMs - DAY_MS, timezone);
+  const offsetAfter = offsetAt(wallMs + DAY_MS, timezone);
+  const candidates = [...new Set([wallMs - offsetBefore, wallMs - offsetAfter])]
+    .filter((instant) => offsetAt(instant, timezone) === wallMs - instant)
+    .sort((a, b) => a - b);
+
+  if (candidates.length === 0) {
+    return { instants: [wallMs - offsetBefore], shifted: true };
+  }
+
+  return { instants: candidates, shifted: false };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Returns the first instant strictly after `after` at which the schedule
+ * fires in `timezone`, or null when the expression can never fire.
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date, timezone: string): Date | null {
+  const afterMs = after.getTime();
+  const start = wallTimeAt(afterMs, timezone);
+  // the offset can drop later on the first day, so wall times are only ruled
+  // out against the smaller of its offsets
+  const lowestOffset = Math.min(offsetAt(afterMs, timezone), offsetAt(afterMs + DAY_MS, timezone));
+
+  for (let offset = 0; offset <= SEARCH_DAYS; offset++) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+
+    if (!matchesDay(schedule, date)) {
+      continue;
+    }
+
+    // times moved out of a DST gap, and second passes through a repeated
+    // hour, can land after later wall times that day
+    let best: number | null = null;
+
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const wallMs = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), hour, minute);
+
+        if (offset === 0 && wallMs - lowestOffset <= afterMs) {
+          continue;
+        }
+
+        const { instants, shifted } = resolveWallTime(wallMs, timezone);
+        const instant = (schedule.hourRestricted ? instants.slice(0, 1) : instants).find(
+          (candidate) => candidate > afterMs,
+        );
+
+        if (instant === undefined) {
+          continue;
+        }
+
+        best = best === null ? instant : Math.min(instant, best);
+
+        if (!shifted && instants.length === 1) {
+          return new Date(best);
+        }
+      }
+    }
+
+    if (best !== null) {
+      return new Date(best);
+    }
+  }
+
+  return null;
+}
+
+// calendar date of an instant in the timezone, used to count runs per day
+export function localDateKey(instant: Date, timezone: string): string {
+  const wall = wallTimeAt(instant.getTime(), timezone);
+
+  return `${wall.year}-${String(wall.month).padStart(2, '0')}-${String(wall.day).padStart(2, '0')}`;
+}
@@ -4,6 +4,10 @@ export type {
   TriggerConfig,
   ConditionGroup,
   Condition,
+  ConditionOperator,
+  ConditionValue,
+  ConditionContext,
+  ValidationResult,
   CrmEventType,
   CrmEvent,
   TriggerEvalResult,
@@ -17,4 +21,27 @@ export {
   findMatchingAutomations,
   buildDebounceKey,
   parseCron,
+  getFieldValue,
+  validateConditionGroup,
+  validateTriggerConfig,
 } from './trigger.service.js';
+
+export type { CronSchedule } from './cron.js';
+export { parseCronSchedule, nextCronRun, isValidTimezone, localDateKey } from './cron.js';
+
+export type {
+  ScheduleStore,
+  ScheduledRun,
+  ScheduledRunStatus,
+  CompleteScheduledRunInput,
+} from './schedule.store.js';
+export { createInMemoryScheduleStore } from './schedule.store.js';
+
+export type {
+  AutomationRunner,
+  AutomationScheduler,
+  AutomationSchedulerOptions,
+  SchedulerClock,
+  SchedulerTickResult,
+} from './scheduler.service.js';
+export { createAutomationScheduler } from './scheduler.service.js';
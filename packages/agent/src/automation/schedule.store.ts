@@ -0,0 +1,136 @@
+import type { Automation } from './automation.types.js';
+
+export type ScheduledRunStatus = NonNullable<Automation['lastRunStatus']>;
+
+export type ScheduledRun = {
+  automation: Automation;
+  scheduledFor: Date;
+  // local calendar day the run counter belongs to, in the trigger's timezone
+  runDay: string | null;
+  runsOnDay: number;
+};
+
+export type CompleteScheduledRunInput = {
+  automationId: string;
+  workerId: string;
+  status: ScheduledRunStatus;
+  finishedAt: Date;
+  nextRunAt: Date | null;
+  runDay: string;
+  runsOnDay: number;
+};
+
+// NOTE: implementations must persist next-run times and leases so a restarted
+// or second worker picks up where the first stopped
+export type ScheduleStore = {
+  // stores the automation's next run, or removes it from the schedule when null
+  schedule: (automation: Automation, nextRunAt: Date | null) => Promise<void>;
+
+  // leases up to `limit` runs due at `now` that are unleased or whose lease
+  // expired; the claim must be atomic so two workers never hold the same run
+  claimDue: (input: {
+    now: Date;
+    workerId: string;
+    leaseUntil: Date;
+    limit: number;
+  }) => Promise<ScheduledRun[]>;
+
+  // records the outcome and next run and releases the lease; false when the
+  // worker no longer holds it
+  completeRun: (input: CompleteScheduledRunInput) => Promise<boolean>;
+};
+
+type ScheduleEntry = {
+  automation: Automation;
+  nextRunAt: Date;
+  leaseOwner: string | null;
+  leaseExpiresAt: Date | null;
+  runDay: string | null;
+  runsOnDay: number;
+};
+
+/**
+ * Single-process ScheduleStore for tests and local development. Entries live
+ * in memory, so schedules do not survive a restart.
+ */
+export function createInMemoryScheduleStore(): ScheduleStore & {
+  get: (automationId: string) => Readonly<ScheduleEntry> | undefined;
+} {
+  const entries = new Map<string, ScheduleEntry>();
+
+  return {
+    get: (automationId) => entries.get(automationId),
+
+    schedule: async (automation, nextRunAt) => {
+      if (!nextRunAt) {
+        entries.delete(automation.id);
+
+        return;
+      }
+
+      const existing = entries.get(automation.id);
+
+      entries.set(automation.id, {
+        automation,
+        nextRunAt,
+        leaseOwner: existing?.leaseOwner ?? null,
+        leaseExpiresAt: existing?.leaseExpiresAt ?? null,
+        runDay: existing?.runDay ?? null,
+        runsOnDay: existing?.runsOnDay ?? 0,
+      });
+    },
+
+    claimDue: async ({ now, workerId, leaseUntil, limit }) => {
+      const due = [...entries.values()]
+        .filter(
+          (entry) =>
+            entry.nextRunAt <= now && (!entry.leaseExpiresAt || entry.leaseExpiresAt <= now),
+        )
+        .sort((a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime())
+        .slice(0, limit);
+
+      return due.map((entry) => {
+        entry.leaseOwner = workerId;
+        entry.leaseExpiresAt = leaseUntil;
+
+        return {
+          automation: entry.automation,
+          scheduledFor: entry.nextRunAt,
+          runDay: entry.runDay,
+          runsOnDay: entry.runsOnDay,
+        };
+      });
+    },
+
+    completeRun: async (input) => {
+      const entry = entries.get(input.automationId);
+
+      if (!entry || entry.leaseOwner !== input.workerId) {
+        return false;
+      }
+
+      const automation: Automation = {
+        ...entry.automation,
+        lastRunAt: input.finishedAt,
+        lastRunStatus: input.status,
+      };
+
+      if (!input.nextRunAt) {
+        entries.delete(input.automationId);
+
+        return true;
+      }
+
+      entries.set(input.automationId, {
+        automation,
+        nextRunAt: input.nextRunAt,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        runDay: input.runDay,
+        runsOnDay: input.runsOnDay,
+      });
+
+      return true;
+    },
+  };
+}
@@ -0,0 +1,190 @@
+import type { Automation } from './automation.types.js';
+import { isValidTimezone, localDateKey, nextCronRun, parseCronSchedule } from './cron.js';
+import type { ScheduledRun, ScheduledRunStatus, ScheduleStore } from './schedule.store.js';
+
+export type AutomationRunner = (
+  automation: Automation,
+  context: { scheduledFor: Date },
+) => Promise<'success' | 'failure'>;
+
+export type SchedulerClock = {
+  now: () => Date;
+};
+
+export type AutomationSchedulerOptions = {
+  store: ScheduleStore;
+  run: AutomationRunner;
+  // identifies this worker's leases; must be unique per process
+  workerId: string;
+  clock?: SchedulerClock;
+  // a run still going when its lease expires may be claimed again
+  leaseMs?: number;
+  batchSize?: number;
+  onError?: (automationId: string, err: unknown) => void;
+};
+
+export type SchedulerTickResult = {
+  succeeded: string[];
+  failed: string[];
+  skipped: string[];
+};
+
+export type AutomationScheduler = {
+  schedule: (automation: Automation) => Promise<Date | null>;
+  tick: () => Promise<SchedulerTickResult>;
+  start: (intervalMs?: number) => () => void;
+};
+
+const DEFAULT_LEASE_MS = 15 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_INTERVAL_MS = 30 * 1000;
+
+const systemClock: SchedulerClock = { now: () => new Date() };
+
+function nextRunFor(automation: Automation, after: Date): Date | null {
+  if (!automation.enabled || automation.trigger.type !== 'schedule') {
+    return null;
+  }
+
+  const { cron, timezone } = automation.trigger;
+
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`invalid timezone: ${timezone}`);
+  }
+
+  return nextCronRun(parseCronSchedule(cron), after, timezone);
+}
+
+/**
+ * Fires schedule-triggered automations. Next-run times and leases live in the
+ * ScheduleStore, so any number of workers can tick against the same store and
+ * each due run fires once. A run missed while no worker was ticking fires once
+ * when picked up; the missed occurrences in between are not replayed.
+ */
+export function createAutomationScheduler(options: AutomationSchedulerOptions): AutomationScheduler {
+  const clock = options.clock ?? systemClock;
+  const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  const reportError = (automationId: string, err: unknown): void => {
+    options.onError?.(automationId, err);
+  };
+
+  const fire = async (claim: ScheduledRun, now: Date): Promise<ScheduledRunStatus | null> => {
+    const { automation } = claim;
+    let nextRunAt: Date | null;
+
+    try {
+      nextRunAt = nextRunFor(automation, now);
+    } catch (err) {
+      // the stored cron or timezone became invalid; stop scheduling it
+      reportError(automation.id, err);
+      await options.store.schedule(automation, null);
+
+      return null;
+    }
+
+    if (automation.trigger.type !== 'schedule' || !automation.enabled) {
+      await options.store.schedule(automation, null);
+
+      return null;
+    }
+
+    const runDay = localDateKey(claim.scheduledFor, automation.trigger.timezone);
+    let runsOnDay = claim.runDay === runDay ? claim.runsOnDay : 0;
+    let status: ScheduledRunStatus;
+
+    if (automation.maxRunsPerDay !== undefined && runsOnDay >= automation.maxRunsPerDay) {
+      status = 'skipped';
+    } else {
+      runsOnDay += 1;
+
+      try {
+        status = await options.run(automation, { scheduledFor: claim.scheduledFor });
+      } catch (err) {
+        reportError(automation.id, err);
+        status = 'failure';
+      }
+    }
+
+    const completed = await options.store.completeRun({
+      automationId: automation.id,
+      workerId: options.workerId,
+      status,
+      finishedAt: clock.now(),
+      nextRunAt,
+      runDay,
+      runsOnDay,
+    });
+
+    return completed ? status : null;
+  };
+
+  const tick = async (): Promise<SchedulerTickResult> => {
+    const now = clock.now();
+    const claims = await options.store.claimDue({
+      now,
+      workerId: options.workerId,
+      leaseUntil: new Date(now.getTime() + leaseMs),
+      limit: batchSize,
+    });
+    const result: SchedulerTickResult = { succeeded: [], failed: [], skipped: [] };
+
+    await Promise.all(
+      claims.map(async (claim) => {
+        try {
+          const status = await fire(claim, now);
+
+          if (status === 'success') result.succeeded.push(claim.automation.id);
+          if (status === 'failure') result.failed.push(claim.automation.id);
+          if (status === 'skipped') result.skipped.push(claim.automation.id);
+        } catch (err) {
+          // the lease expires and another tick retries the run
+          reportError(claim.automation.id, err);
+        }
+      }),
+    );
+
+    return result;
+  };
+
+  return {
+    // call whenever an automation is created, edited, enabled or disabled
+    schedule: async (automation) => {
+      const nextRunAt = nextRunFor(automation, clock.now());
+
+      await options.store.schedule(automation, nextRunAt);
+
+      return nextRunAt;
+    },
+
+    tick,
+
+    start: (intervalMs = DEFAULT_INTERVAL_MS) => {
+      let stopped = false;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const loop = async (): Promise<void> => {
+        try {
+          await tick();
+        } catch (err) {
+          reportError('*', err);
+        }
+
+        if (!stopped) {
+          timer = setTimeout(() => void loop(), intervalMs);
+        }
+      };
+
+      void loop();
+
+      return () => {
+        stopped = true;
+
+        if (timer) {
+          clearTimeout(timer);
+        }
+      };
+    },
+  };
+}
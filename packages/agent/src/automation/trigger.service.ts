@@ -1,43 +1,253 @@
 import type {
   Automation,
   Condition,
+  ConditionContext,
   ConditionGroup,
+  ConditionOperator,
+  ConditionValue,
   CrmEvent,
   TriggerConfig,
+  ValidationResult,
 } from './automation.types.js';
+import { isValidTimezone, parseCronSchedule } from './cron.js';
 
 // NOTE: all functions are pure — no side effects, no I/O
 
+const DURATION_PATTERN = /^(\d+)\s*(m|h|d|w)$/;
+
+const DURATION_UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const MAX_GROUP_DEPTH = 5;
+
+// matches patterns come from users; bound their size and compile each once
+const MAX_PATTERN_LENGTH = 256;
+const MAX_CACHED_PATTERNS = 500;
+
+// null caches a pattern that failed to compile
+const compiledPatterns = new Map<string, RegExp | null>();
+
+const isConditionGroup = (node: Condition | ConditionGroup): node is ConditionGroup =>
+  'conditions' in node;
+
+const isMissing = (value: unknown): boolean => value === undefined || value === null;
+
+// NOTE: an exact key wins over a dotted path so flat payloads keep working
+export function getFieldValue(payload: Record<string, unknown>, field: string): unknown {
+  if (field in payload) {
+    return payload[field];
+  }
+
+  let current: unknown = payload;
+
+  for (const segment of field.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+// NOTE: coerce to number for comparisons when both sides look numeric
+function looselyEqual(fieldValue: unknown, value: unknown): boolean {
+  if (isMissing(fieldValue) || isMissing(value)) {
+    return false;
+  }
+
+  const numField = Number(fieldValue);
+  const numValue = Number(value);
+
+  if (!Number.isNaN(numField) && !Number.isNaN(numValue)) {
+    return numField === numValue;
+  }
+
+  return String(fieldValue) === String(value);
+}
+
+function parseDuration(value: unknown): number | null {
+  const match = typeof value === 'string' ? DURATION_PATTERN.exec(value.trim()) : null;
+
+  return match ? Number(match[1]) * DURATION_UNIT_MS[match[2]] : null;
+}
+
+function toTimestamp(value: unknown): number | null {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const time = new Date(value).getTime();
+
+  return Number.isNaN(time) ? null : time;
+}
+
+// a repeated group that repeats something itself, like (a+)+ or (\w*,)*, can
+// backtrack exponentially on a near-miss; escapes and character classes are
+// skipped so [+]* or \(a+\)* are not flagged
+function hasNestedQuantifier(pattern: string): boolean {
+  // per open group: whether it contains a repeating quantifier
+  const groups: boolean[] = [];
+  let inClass = false;
+  let closedRepeats = false;
+
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+
+    if (char === '\\') {
+      index += 1;
+      closedRepeats = false;
+      continue;
+    }
+
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+
+    const quantifier =
+      char === '*' || char === '+' || (char === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(index)));
+
+    if (quantifier) {
+      if (closedRepeats) {
+        return true;
+      }
+
+      if (groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    }
+
+    closedRepeats = false;
+
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      closedRepeats = groups.pop() ?? false;
+
+      if (closedRepeats && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    }
+  }
+
+  return false;
+}
+
+function compilePattern(pattern: string): RegExp | null {
+  const cached = compiledPatterns.get(pattern);
+
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let compiled: RegExp | null;
+
+  try {
+    compiled = hasNestedQuantifier(pattern) ? null : new RegExp(pattern);
+  } catch {
+    compiled = null;
+  }
+
+  if (compiledPatterns.size >= MAX_CACHED_PATTERNS) {
+    // Map keeps insertion order, so this evicts the oldest pattern
+    compiledPatterns.delete(compiledPatterns.keys().next().value as string);
+  }
+  compiledPatterns.set(pattern, compiled);
+
+  return compiled;
+}
+
+function matchesPattern(fieldValue: unknown, pattern: unknown): boolean {
+  // stored conditions may predate the length cap, so it is enforced here too
+  if (typeof pattern !== 'string' || pattern.length > MAX_PATTERN_LENGTH) {
+    return false;
+  }
+
+  return compilePattern(pattern)?.test(String(fieldValue)) ?? false;
+}
+
 export function evaluateCondition(
   condition: Condition,
   payload: Record<string, unknown>,
+  context: ConditionContext = {},
 ): boolean {
-  const fieldValue = payload[condition.field];
+  const { operator, value } = condition;
+  const fieldValue = getFieldValue(payload, condition.field);
 
-  if (fieldValue === undefined || fieldValue === null) {
-    return false;
+  if (operator === 'exists' || operator === 'not_exists') {
+    return (operator === 'exists') !== isMissing(fieldValue);
   }
 
-  const { operator, value } = condition;
+  if (operator === 'changed_from' || operator === 'changed_to') {
+    if (!context.previous) {
+      return false;
+    }
+
+    const previousValue = getFieldValue(context.previous, condition.field);
+    const [matched, other] =
+      operator === 'changed_from' ? [previousValue, fieldValue] : [fieldValue, previousValue];
+
+    // the field must actually have changed, not merely hold the value
+    return looselyEqual(matched, value) && !looselyEqual(other, value);
+  }
+
+  if (isMissing(fieldValue)) {
+    return false;
+  }
 
   if (operator === 'contains' || operator === 'not_contains') {
-    const strField = String(fieldValue);
-    const strValue = String(value);
-    const has = strField.includes(strValue);
+    const has = Array.isArray(fieldValue)
+      ? fieldValue.some((item) => looselyEqual(item, value))
+      : String(fieldValue).includes(String(value));
 
     return operator === 'contains' ? has : !has;
   }
 
-  // NOTE: coerce to number for numeric comparisons when both sides look numeric
+  if (operator === 'in' || operator === 'not_in') {
+    const candidates = Array.isArray(value) ? value : [];
+    const found = candidates.some((candidate) => looselyEqual(fieldValue, candidate));
+
+    return operator === 'in' ? found : !found;
+  }
+
+  if (operator === 'matches') {
+    return matchesPattern(fieldValue, value);
+  }
+
+  if (operator === 'older_than' || operator === 'newer_than') {
+    const duration = parseDuration(value);
+    const time = toTimestamp(fieldValue);
+
+    if (duration === null || time === null || !context.now) {
+      return false;
+    }
+
+    const age = context.now.getTime() - time;
+
+    return operator === 'older_than' ? age > duration : age < duration;
+  }
+
   const numField = Number(fieldValue);
   const numValue = Number(value);
   const useNumeric = !Number.isNaN(numField) && !Number.isNaN(numValue);
 
   switch (operator) {
     case 'eq':
-      return useNumeric ? numField === numValue : String(fieldValue) === String(value);
+      return looselyEqual(fieldValue, value);
     case 'neq':
-      return useNumeric ? numField !== numValue : String(fieldValue) !== String(value);
+      return !looselyEqual(fieldValue, value);
     case 'gt':
       return useNumeric && numField > numValue;
     case 'gte':
@@ -54,18 +264,29 @@ export function evaluateCondition(
 export function evaluateConditionGroup(
   group: ConditionGroup,
   payload: Record<string, unknown>,
+  context: ConditionContext = {},
 ): boolean {
   if (group.conditions.length === 0) {
     return true;
   }
 
+  const evaluate = (node: Condition | ConditionGroup): boolean =>
+    isConditionGroup(node)
+      ? evaluateConditionGroup(node, payload, context)
+      : evaluateCondition(node, payload, context);
+
   if (group.operator === 'and') {
-    return group.conditions.every((c) => evaluateCondition(c, payload));
+    return group.conditions.every(evaluate);
   }
 
-  return group.conditions.some((c) => evaluateCondition(c, payload));
+  return group.conditions.some(evaluate);
 }
 
+const eventContext = (event: CrmEvent): ConditionContext => ({
+  previous: event.previousPayload,
+  now: event.timestamp,
+});
+
 export function matchEventTrigger(
   trigger: TriggerConfig,
   event: CrmEvent,
@@ -79,7 +300,7 @@ export function matchEventTrigger(
   }
 
   if (trigger.conditions) {
-    return evaluateConditionGroup(trigger.conditions, event.payload);
+    return evaluateConditionGroup(trigger.conditions, event.payload, eventContext(event));
   }
 
   return true;
@@ -97,7 +318,7 @@ export function matchConditionalTrigger(
     return false;
   }
 
-  return evaluateConditionGroup(trigger.conditions, event.payload);
+  return evaluateConditionGroup(trigger.conditions, event.payload, eventContext(event));
 }
 
 export function findMatchingAutomations(
@@ -120,85 +341,164 @@ export function buildDebounceKey(
   return `trigger:debounce:${automationId}:${eventType}`;
 }
 
-// NOTE: basic cron validation — checks field count and value ranges, not a full parser
-const CRON_FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
-  { name: 'minute', min: 0, max: 59 },
-  { name: 'hour', min: 0, max: 23 },
-  { name: 'day of month', min: 1, max: 31 },
-  { name: 'month', min: 1, max: 12 },
-  { name: 'day of week', min: 0, max: 7 },
-];
+export function parseCron(
+  expression: string,
+): { valid: boolean; description?: string; error?: string } {
+  try {
+    const schedule = parseCronSchedule(expression);
 
-function isValidCronField(
-  field: string,
-  min: number,
-  max: number,
-): boolean {
-  if (field === '*') {
-    return true;
+    return { valid: true, description: schedule.expression };
+  } catch (err) {
+    return { valid: false, error: err instanceof Error ? err.message : String(err) };
   }
+}
 
-  // handle step: */5 or 1-10/2
-  const [range, step] = field.split('/');
-
-  if (step !== undefined) {
-    const stepNum = Number(step);
+const CONDITION_OPERATORS: ReadonlySet<ConditionOperator> = new Set<ConditionOperator>([
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'contains',
+  'not_contains',
+  'in',
+  'not_in',
+  'exists',
+  'not_exists',
+  'changed_from',
+  'changed_to',
+  'matches',
+  'older_than',
+  'newer_than',
+]);
+
+const isScalar = (value: unknown): value is ConditionValue =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+function validateCondition(condition: Condition, path: string, errors: string[]): void {
+  const { field, operator, value } = condition as Partial<Condition>;
+
+  if (typeof field !== 'string' || field.trim() === '' || field.split('.').some((segment) => segment === '')) {
+    errors.push(`${path}: field must be a non-empty dotted path`);
+  }
 
-    if (Number.isNaN(stepNum) || stepNum < 1) {
-      return false;
-    }
+  if (!operator || !CONDITION_OPERATORS.has(operator)) {
+    errors.push(`${path}: unknown operator ${String(operator)}`);
 
-    if (range === '*') {
-      return true;
-    }
+    return;
   }
 
-  const rangeToCheck = range ?? field;
+  switch (operator) {
+    case 'exists':
+    case 'not_exists':
+      if (value !== undefined) {
+        errors.push(`${path}: ${operator} takes no value`);
+      }
+      return;
+    case 'in':
+    case 'not_in':
+      if (!Array.isArray(value) || value.length === 0 || !value.every(isScalar)) {
+        errors.push(`${path}: ${operator} needs a non-empty list of values`);
+      }
+      return;
+    case 'matches':
+      if (typeof value !== 'string') {
+        errors.push(`${path}: matches needs a regular expression string`);
+        return;
+      }
+      if (value.length > MAX_PATTERN_LENGTH) {
+        errors.push(`${path}: regular expression is longer than ${MAX_PATTERN_LENGTH} characters`);
+        return;
+      }
+      if (hasNestedQuantifier(value)) {
+        errors.push(`${path}: regular expression repeats a repeated group, such as (a+)+`);
+        return;
+      }
+      if (!compilePattern(value)) {
+        errors.push(`${path}: invalid regular expression ${value}`);
+      }
+      return;
+    case 'older_than':
+    case 'newer_than':
+      if (parseDuration(value) === null) {
+        errors.push(`${path}: ${operator} needs a duration such as 30m, 12h, 7d or 2w`);
+      }
+      return;
+    default:
+      if (!isScalar(value)) {
+        errors.push(`${path}: ${operator} needs a single value`);
+      }
+  }
+}
 
-  // handle comma-separated: 1,5,10
-  const parts = rangeToCheck.split(',');
+function validateGroup(group: ConditionGroup, path: string, depth: number, errors: string[]): void {
+  if (depth > MAX_GROUP_DEPTH) {
+    errors.push(`${path}: groups nest deeper than ${MAX_GROUP_DEPTH} levels`);
 
-  for (const part of parts) {
-    // handle range: 1-5
-    if (part.includes('-')) {
-      const [startStr, endStr] = part.split('-');
-      const start = Number(startStr);
-      const end = Number(endStr);
+    return;
+  }
 
-      if (Number.isNaN(start) || Number.isNaN(end) || start < min || end > max || start > end) {
-        return false;
-      }
+  if (group.operator !== 'and' && group.operator !== 'or') {
+    errors.push(`${path}: group operator must be and or or`);
+  }
 
-      continue;
-    }
+  if (!Array.isArray(group.conditions)) {
+    errors.push(`${path}: conditions must be a list`);
 
-    const num = Number(part);
+    return;
+  }
 
-    if (Number.isNaN(num) || num < min || num > max) {
-      return false;
-    }
+  // an empty top-level group means "always"; an empty nested one is a mistake
+  if (depth > 1 && group.conditions.length === 0) {
+    errors.push(`${path}: nested group has no conditions`);
   }
 
-  return true;
+  group.conditions.forEach((node, index) => {
+    const nodePath = `${path}.conditions[${index}]`;
+
+    if (node === null || typeof node !== 'object') {
+      errors.push(`${nodePath}: expected a condition or group`);
+    } else if (isConditionGroup(node)) {
+      validateGroup(node, nodePath, depth + 1, errors);
+    } else {
+      validateCondition(node, nodePath, errors);
+    }
+  });
 }
 
-export function parseCron(
-  expression: string,
-): { valid: boolean; description?: string; error?: string } {
-  const trimmed = expression.trim();
-  const fields = trimmed.split(/\s+/);
+/**
+ * Checks a condition tree before it is saved: known operators, values shaped
+ * for each operator, compilable regular expressions, parseable durations and
+ * at most five levels of nesting. Errors name the offending node.
+ */
+export function validateConditionGroup(group: ConditionGroup): ValidationResult {
+  const errors: string[] = [];
 
-  if (fields.length !== 5) {
-    return { valid: false, error: `expected 5 fields, got ${fields.length}` };
-  }
+  validateGroup(group, 'conditions', 1, errors);
+
+  return { valid: errors.length === 0, errors };
+}
+
+export function validateTriggerConfig(trigger: TriggerConfig): ValidationResult {
+  if (trigger.type === 'schedule') {
+    const errors: string[] = [];
+    const cron = parseCron(trigger.cron);
 
-  for (let i = 0; i < fields.length; i++) {
-    const range = CRON_FIELD_RANGES[i];
+    if (!cron.valid) {
+      errors.push(`cron: ${cron.error}`);
+    }
 
-    if (!isValidCronField(fields[i], range.min, range.max)) {
-      return { valid: false, error: `invalid ${range.name} field: ${fields[i]}` };
+    if (!isValidTimezone(trigger.timezone)) {
+      errors.push(`timezone: unknown timezone ${trigger.timezone}`);
     }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  if (typeof trigger.event !== 'string' || trigger.event === '') {
+    return { valid: false, errors: ['event: event type is required'] };
   }
 
-  return { valid: true, description: trimmed };
+  return trigger.conditions ? validateConditionGroup(trigger.conditions) : { valid: true, errors: [] };
 }
@@ -0,0 +1,163 @@
+// test: skill eval scoring, side-by-side version comparison and the promotion gate
+// run: node --experimental-strip-types packages/agent/src/evals/__tests__/skill-eval.test.ts
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  diffEvalOutputs,
+  evaluateSkillEvalGate,
+  runSkillEvalComparison,
+  scoreEvalCase,
+} from '../skill-eval.service.ts';
+import type { SkillEvalCheck, SkillEvalSuite } from '../skill-eval.types.ts';
+
+const suite: SkillEvalSuite = {
+  skillId: 'skill-1',
+  cases: [
+    {
+      id: 'case-hot',
+      name: 'hot lead',
+      input: { notes: 'wants a demo next week' },
+      expectedOutput: { stage: 'demo', priority: 'high' },
+    },
+    {
+      id: 'case-cold',
+      name: 'cold lead',
+      input: { notes: 'not interested' },
+      checks: [
+        { type: 'equals', path: 'stage', value: 'lost' },
+        { type: 'contains', path: 'summary', value: 'not interested' },
+      ],
+    },
+  ],
+};
+
+// baseline gets every case right; the candidate loses the hot lead's priority
+const baseline = async (input: Record<string, unknown>) =>
+  input.notes === 'not interested'
+    ? { success: true, output: { stage: 'lost', summary: 'Contact is not interested' } }
+    : { success: true, output: { stage: 'demo', priority: 'high' } };
+
+const candidate = async (input: Record<string, unknown>) =>
+  input.notes === 'not interested'
+    ? { success: true, output: { stage: 'lost', summary: 'Contact is NOT interested' } }
+    : { success: true, output: { stage: 'demo', priority: 'low' } };
+
+describe('scoreEvalCase', () => {
+  it('weights expected-output leaves, checks and rubric grades', async () => {
+    const run = await scoreEvalCase(
+      {
+        id: 'c',
+        name: 'c',
+        input: {},
+        expectedOutput: { stage: 'demo', contact: { name: 'Ada' } },
+        checks: [
+          { type: 'present', path: 'summary' },
+          { type: 'rubric', criterion: 'is concise', weight: 2 },
+        ],
+      },
+      { success: true, output: { stage: 'demo', contact: { name: 'Bob' } } },
+      async () => 0.75,
+    );
+
+    // (0.5 + 0 + 0.75 * 2) / 4
+    assert.equal(run.score, 0.5);
+    assert.deepEqual(
+      run.checks.map((check) => check.label),
+      ['expected output', 'summary is present', 'rubric: is concise'],
+    );
+  });
+
+  it('scores a failed run as zero', async () => {
+    assert.deepEqual(await scoreEvalCase(suite.cases[0], { success: false, error: 'bad json' }), {
+      error: 'bad json',
+      score: 0,
+      checks: [],
+    });
+  });
+
+  it('rejects unknown check types and invalid weights', async () => {
+    const output = { success: true, output: { stage: 'demo' } };
+    const unknownType = { type: 'startsWith', path: 'stage', value: 'de' } as unknown as SkillEvalCheck;
+    const badWeight = { type: 'present', path: 'stage', weight: 'heavy' } as unknown as SkillEvalCheck;
+
+    await assert.rejects(
+      scoreEvalCase({ ...suite.cases[0], checks: [unknownType] }, output),
+      /unknown eval check type startsWith/,
+    );
+    await assert.rejects(
+      scoreEvalCase({ ...suite.cases[0], checks: [badWeight] }, output),
+      /weight must be a non-negative number/,
+    );
+  });
+});
+
+describe('runSkillEvalComparison', () => {
+  it('reports scores, regressions and output differences per case', async () => {
+    const report = await runSkillEvalComparison({
+      suite,
+      baseline: { version: 3, execute: baseline },
+      candidate: { version: 4, execute: candidate },
+    });
+
+    assert.equal(report.baselineScore, 1);
+    assert.equal(report.candidateScore, 0.75);
+    assert.deepEqual(report.regressedCaseIds, ['case-hot']);
+    assert.deepEqual(report.improvedCaseIds, []);
+    assert.deepEqual(report.cases[0].outputChanges, [{ path: 'priority', baseline: 'high', candidate: 'low' }]);
+    assert.deepEqual(report.cases[1].outputChanges, [
+      { path: 'summary', baseline: 'Contact is not interested', candidate: 'Contact is NOT interested' },
+    ]);
+  });
+
+  it('treats a thrown executor error as a failed case', async () => {
+    const report = await runSkillEvalComparison({
+      suite,
+      baseline: { version: 1, execute: baseline },
+      candidate: {
+        version: 2,
+        execute: async () => {
+          throw new Error('provider down');
+        },
+      },
+    });
+
+    assert.equal(report.candidateScore, 0);
+    assert.equal(report.cases[0].candidate.error, 'provider down');
+  });
+});
+
+describe('evaluateSkillEvalGate', () => {
+  it('blocks versions that regress past the allowed drop or below the floor', async () => {
+    const report = await runSkillEvalComparison({
+      suite,
+      baseline: { version: 3, execute: baseline },
+      candidate: { version: 4, execute: candidate },
+    });
+
+    assert.deepEqual(evaluateSkillEvalGate(report, { maxScoreDrop: 0.25 }), { allowed: true });
+    assert.deepEqual(evaluateSkillEvalGate(report, { maxScoreDrop: 0.1 }), {
+      allowed: false,
+      reason: 'v4 scored 0.750 against 1.000 for v3',
+    });
+    assert.equal(evaluateSkillEvalGate(report, { maxScoreDrop: 1, minScore: 0.8 }).allowed, false);
+  });
+
+  it('blocks reports with a non-finite score', async () => {
+    const report = await runSkillEvalComparison({
+      suite,
+      baseline: { version: 3, execute: baseline },
+      candidate: { version: 4, execute: candidate },
+    });
+
+    assert.deepEqual(evaluateSkillEvalGate({ ...report, candidateScore: NaN }, { maxScoreDrop: 1 }), {
+      allowed: false,
+      reason: 'eval report has an invalid score',
+    });
+  });
+
+  it('diffs whole text outputs under a single path', () => {
+    assert.deepEqual(diffEvalOutputs('a', 'b'), [{ path: 'output', baseline: 'a', candidate: 'b' }]);
+  });
+});
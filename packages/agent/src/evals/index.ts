@@ -0,0 +1,21 @@
+export type {
+  SkillEvalCheck,
+  SkillEvalCase,
+  SkillEvalGate,
+  SkillEvalSuite,
+  SkillEvalExecutor,
+  SkillEvalGrader,
+  SkillEvalCheckResult,
+  SkillEvalCaseRun,
+  SkillEvalOutputChange,
+  SkillEvalCaseDiff,
+  SkillEvalReport,
+  SkillEvalGateResult,
+} from './skill-eval.types.js';
+
+export {
+  scoreEvalCase,
+  diffEvalOutputs,
+  runSkillEvalComparison,
+  evaluateSkillEvalGate,
+} from './skill-eval.service.js';
@@ -0,0 +1,276 @@
+import type { SkillInput, SkillResult } from '../skill-executor.js';
+import type {
+  SkillEvalCase,
+  SkillEvalCaseDiff,
+  SkillEvalCaseRun,
+  SkillEvalCheck,
+  SkillEvalCheckResult,
+  SkillEvalExecutor,
+  SkillEvalGate,
+  SkillEvalGateResult,
+  SkillEvalGrader,
+  SkillEvalOutputChange,
+  SkillEvalReport,
+  SkillEvalSuite,
+} from './skill-eval.types.js';
+
+// NOTE: scores are fractions from 0 to 1; a case whose skill run fails scores 0
+
+// score changes smaller than this are noise from rubric grading
+const SCORE_EPSILON = 0.001;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const getPath = (value: unknown, path: string): unknown => {
+  let current = value;
+
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+};
+
+const asText = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value ?? null);
+
+const sameValue = (a: unknown, b: unknown): boolean => asText(a) === asText(b);
+
+// leaf values of a JSON value keyed by dotted path; arrays count as leaves
+const flattenLeaves = (value: unknown, prefix = ''): Map<string, unknown> => {
+  const leaves = new Map<string, unknown>();
+
+  if (!isObject(value)) {
+    leaves.set(prefix, value);
+
+    return leaves;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    for (const [path, leaf] of flattenLeaves(child, prefix ? `${prefix}.${key}` : key)) {
+      leaves.set(path, leaf);
+    }
+  }
+
+  return leaves;
+};
+
+const checkLabel = (check: SkillEvalCheck): string => {
+  switch (check.type) {
+    case 'equals':
+      return `${check.path} equals ${asText(check.value)}`;
+    case 'contains':
+      return `${check.path ?? 'output'} contains ${check.value}`;
+    case 'matches':
+      return `${check.path ?? 'output'} matches ${check.pattern}`;
+    case 'present':
+      return `${check.path} is present`;
+    case 'rubric':
+      return `rubric: ${check.criterion}`;
+  }
+};
+
+const scoreCheck = async (
+  check: SkillEvalCheck,
+  input: SkillInput,
+  output: unknown,
+  grade?: SkillEvalGrader,
+): Promise<number> => {
+  const target = 'path' in check && check.path ? getPath(output, check.path) : output;
+
+  switch (check.type) {
+    case 'equals':
+      return sameValue(target, check.value) ? 1 : 0;
+    case 'contains':
+      return asText(target).toLowerCase().includes(check.value.toLowerCase()) ? 1 : 0;
+    case 'matches':
+      try {
+        return new RegExp(check.pattern).test(asText(target)) ? 1 : 0;
+      } catch {
+        return 0;
+      }
+    case 'present':
+      return target === undefined || target === null || target === '' ? 0 : 1;
+    case 'rubric': {
+      if (!grade) {
+        throw new Error('rubric checks need a grader');
+      }
+
+      const score = await grade({ criterion: check.criterion, input, output });
+
+      return Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : 0;
+    }
+    default:
+      // stored suites are JSON, so the union is not enforced at runtime
+      throw new Error(`unknown eval check type ${asText((check as { type?: unknown }).type)}`);
+  }
+};
+
+/**
+ * Scores one skill run against a case: the expected output counts as one
+ * check worth the fraction of its leaves reproduced, and each explicit check
+ * adds its own weight (default 1). Cases with no checks score 1 on success.
+ */
+export async function scoreEvalCase(
+  testCase: SkillEvalCase,
+  result: SkillResult,
+  grade?: SkillEvalGrader,
+): Promise<SkillEvalCaseRun> {
+  if (!result.success) {
+    return { error: result.error ?? 'skill execution failed', score: 0, checks: [] };
+  }
+
+  const checks: SkillEvalCheckResult[] = [];
+
+  if (testCase.expectedOutput) {
+    const expected = flattenLeaves(testCase.expectedOutput);
+    let matched = 0;
+
+    for (const [path, value] of expected) {
+      if (sameValue(getPath(result.output, path), value)) {
+        matched += 1;
+      }
+    }
+
+    checks.push({
+      label: 'expected output',
+      score: expected.size === 0 ? 1 : matched / expected.size,
+      weight: 1,
+    });
+  }
+
+  for (const check of testCase.checks ?? []) {
+    const weight = check.weight ?? 1;
+
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`eval check weight must be a non-negative number, got ${asText(weight)}`);
+    }
+
+    checks.push({
+      label: checkLabel(check),
+      score: await scoreCheck(check, testCase.input, result.output, grade),
+      weight,
+    });
+  }
+
+  const totalWeight = checks.reduce((sum, check) => sum + check.weight, 0);
+  const score =
+    totalWeight === 0
+      ? 1
+      : checks.reduce((sum, check) => sum + check.score * check.weight, 0) / totalWeight;
+
+  return { output: result.output, score, checks };
+}
+
+export function diffEvalOutputs(baseline: unknown, candidate: unknown): SkillEvalOutputChange[] {
+  const before = flattenLeaves(baseline);
+  const after = flattenLeaves(candidate);
+  const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+
+  return paths
+    .filter((path) => !sameValue(before.get(path), after.get(path)))
+    .map((path) => ({
+      path: path || 'output',
+      baseline: before.get(path),
+      candidate: after.get(path),
+    }));
+}
+
+const runCase = async (
+  testCase: SkillEvalCase,
+  execute: SkillEvalExecutor,
+  grade?: SkillEvalGrader,
+): Promise<SkillEvalCaseRun> => {
+  let result: SkillResult;
+
+  try {
+    result = await execute(testCase.input);
+  } catch (err) {
+    result = { success: false, error: err instanceof Error ? err.message : String(err) };
+  }
+
+  return scoreEvalCase(testCase, result, grade);
+};
+
+const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Runs every case of the suite against two skill versions side by side and
+ * reports per-case outputs, scores and output differences.
+ */
+export async function runSkillEvalComparison(input: {
+  suite: SkillEvalSuite;
+  baseline: { version: number; execute: SkillEvalExecutor };
+  candidate: { version: number; execute: SkillEvalExecutor };
+  grade?: SkillEvalGrader;
+}): Promise<SkillEvalReport> {
+  const { suite, baseline, candidate, grade } = input;
+  const cases: SkillEvalCaseDiff[] = [];
+
+  // cases run one at a time so a large suite does not flood the provider
+  for (const testCase of suite.cases) {
+    const [baselineRun, candidateRun] = await Promise.all([
+      runCase(testCase, baseline.execute, grade),
+      runCase(testCase, candidate.execute, grade),
+    ]);
+
+    cases.push({
+      caseId: testCase.id,
+      name: testCase.name,
+      baseline: baselineRun,
+      candidate: candidateRun,
+      scoreDelta: candidateRun.score - baselineRun.score,
+      outputChanges: diffEvalOutputs(baselineRun.output, candidateRun.output),
+    });
+  }
+
+  const baselineScore = mean(cases.map((diff) => diff.baseline.score));
+  const candidateScore = mean(cases.map((diff) => diff.candidate.score));
+
+  return {
+    skillId: suite.skillId,
+    baselineVersion: baseline.version,
+    candidateVersion: candidate.version,
+    baselineScore,
+    candidateScore,
+    scoreDelta: candidateScore - baselineScore,
+    cases,
+    regressedCaseIds: cases.filter((diff) => diff.scoreDelta < -SCORE_EPSILON).map((diff) => diff.caseId),
+    improvedCaseIds: cases.filter((diff) => diff.scoreDelta > SCORE_EPSILON).map((diff) => diff.caseId),
+  };
+}
+
+export function evaluateSkillEvalGate(report: SkillEvalReport, gate: SkillEvalGate): SkillEvalGateResult {
+  if (report.cases.length === 0) {
+    return { allowed: false, reason: 'eval suite has no cases' };
+  }
+
+  // a NaN score would slip past every comparison below
+  if (!Number.isFinite(report.candidateScore) || !Number.isFinite(report.baselineScore)) {
+    return { allowed: false, reason: 'eval report has an invalid score' };
+  }
+
+  if (gate.minScore !== undefined && report.candidateScore < gate.minScore) {
+    return {
+      allowed: false,
+      reason: `v${report.candidateVersion} scored ${report.candidateScore.toFixed(3)}, below the minimum ${gate.minScore}`,
+    };
+  }
+
+  const drop = report.baselineScore - report.candidateScore;
+
+  if (drop > gate.maxScoreDrop + SCORE_EPSILON) {
+    return {
+      allowed: false,
+      reason: `v${report.candidateVersion} scored ${report.candidateScore.toFixed(3)} against ${report.baselineScore.toFixed(3)} for v${report.baselineVersion}`,
+    };
+  }
+
+  return { allowed: true };
+}
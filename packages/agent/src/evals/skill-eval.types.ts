@@ -0,0 +1,86 @@
+import type { SkillInput, SkillResult } from '../skill-executor.js';
+
+// a single assertion about a skill's output; `path` is a dotted path into a
+// JSON output and is omitted to check the whole output as text
+export type SkillEvalCheck =
+  | { type: 'equals'; path: string; value: unknown; weight?: number }
+  | { type: 'contains'; path?: string; value: string; weight?: number }
+  | { type: 'matches'; path?: string; pattern: string; weight?: number }
+  | { type: 'present'; path: string; weight?: number }
+  // graded by a model against the criterion, 0 to 1
+  | { type: 'rubric'; criterion: string; weight?: number };
+
+export type SkillEvalCase = {
+  id: string;
+  name: string;
+  input: SkillInput;
+  // every leaf of the expected output must appear at the same path
+  expectedOutput?: Record<string, unknown>;
+  checks?: SkillEvalCheck[];
+};
+
+export type SkillEvalGate = {
+  // largest suite score drop still allowed, 0 to 1
+  maxScoreDrop: number;
+  // absolute floor for the candidate's suite score
+  minScore?: number;
+};
+
+export type SkillEvalSuite = {
+  skillId: string;
+  cases: SkillEvalCase[];
+  gate?: SkillEvalGate;
+};
+
+export type SkillEvalExecutor = (input: SkillInput) => Promise<SkillResult>;
+
+export type SkillEvalGrader = (input: {
+  criterion: string;
+  input: SkillInput;
+  output: unknown;
+}) => Promise<number>;
+
+export type SkillEvalCheckResult = {
+  label: string;
+  score: number;
+  weight: number;
+};
+
+export type SkillEvalCaseRun = {
+  output?: unknown;
+  error?: string;
+  score: number;
+  checks: SkillEvalCheckResult[];
+};
+
+export type SkillEvalOutputChange = {
+  path: string;
+  baseline: unknown;
+  candidate: unknown;
+};
+
+export type SkillEvalCaseDiff = {
+  caseId: string;
+  name: string;
+  baseline: SkillEvalCaseRun;
+  candidate: SkillEvalCaseRun;
+  scoreDelta: number;
+  outputChanges: SkillEvalOutputChange[];
+};
+
+export type SkillEvalReport = {
+  skillId: string;
+  baselineVersion: number;
+  candidateVersion: number;
+  baselineScore: number;
+  candidateScore: number;
+  scoreDelta: number;
+  cases: SkillEvalCaseDiff[];
+  regressedCaseIds: string[];
+  improvedCaseIds: string[];
+};
+
+export type SkillEvalGateResult = {
+  allowed: boolean;
+  reason?: string;
+};
@@ -33,6 +33,21 @@ export type {
 
 // sandbox
 export { SandboxService } from './sandbox.js';
+export {
+  createE2bSandboxBackend,
+  createLocalSandboxBackend,
+  buildLocalSandboxCommand,
+} from './sandbox-backends/index.js';
+export type {
+  SandboxBackend,
+  SandboxCommandResult,
+  SandboxFileEntry,
+  SandboxInstance,
+  LocalSandboxIsolation,
+  LocalSandboxMounts,
+  LocalSandboxOptions,
+  LocalSandboxSpawn,
+} from './sandbox-backends/index.js';
 
 // crm
 export { CrmClient, createCrmTools } from './crm/index.js';
@@ -128,9 +143,23 @@ export type {
   TriggerConfig,
   ConditionGroup,
   Condition,
+  ConditionOperator,
+  ConditionValue,
+  ConditionContext,
+  ValidationResult,
   CrmEventType,
   CrmEvent,
   TriggerEvalResult,
+  CronSchedule,
+  ScheduleStore,
+  ScheduledRun,
+  ScheduledRunStatus,
+  CompleteScheduledRunInput,
+  AutomationRunner,
+  AutomationScheduler,
+  AutomationSchedulerOptions,
+  SchedulerClock,
+  SchedulerTickResult,
 } from './automation/index.js';
 
 export {
@@ -141,6 +170,15 @@ export {
   findMatchingAutomations,
   buildDebounceKey,
   parseCron,
+  getFieldValue,
+  validateConditionGroup,
+  validateTriggerConfig,
+  parseCronSchedule,
+  nextCronRun,
+  isValidTimezone,
+  localDateKey,
+  createInMemoryScheduleStore,
+  createAutomationScheduler,
 } from './automation/index.js';
 
 
@@ -158,6 +196,12 @@ export {
   createCoachingLifecycle,
   createPreferenceInference,
   createTurnGrading,
+  createTurnJudge,
+  evaluateTurnHeuristic,
+  TURN_GRADING_RUBRIC,
+  TURN_PASS_SCORE,
+  measureTurnJudgeAgreement,
+  TURN_CALIBRATION_SET,
   createUsageTracking,
 } from './pi-extensions/index.js';
 export type {
@@ -180,6 +224,14 @@ export type {
   AfterTurnExtension,
   ToolCallSummary,
   TurnEvaluation,
+  GradableTurn,
+  TurnGradingOptions,
+  TurnJudge,
+  TurnJudgeOptions,
+  GraderAgreement,
+  TurnCalibrationCase,
+  TurnCalibrationReport,
+  TurnCalibrationResult,
   UsageStore,
   UsageRecord,
 } from './pi-extensions/index.js';
@@ -199,6 +251,28 @@ export { createCoachingSchemas } from './schemas/coaching.js';
 export { executeSkill } from './skill-executor.js';
 export type { SkillExecutorOptions, SkillInput, SkillResult } from './skill-executor.js';
 
+// skill evals (regression suites gating version promotion)
+export type {
+  SkillEvalCheck,
+  SkillEvalCase,
+  SkillEvalGate,
+  SkillEvalSuite,
+  SkillEvalExecutor,
+  SkillEvalGrader,
+  SkillEvalCheckResult,
+  SkillEvalCaseRun,
+  SkillEvalOutputChange,
+  SkillEvalCaseDiff,
+  SkillEvalReport,
+  SkillEvalGateResult,
+} from './evals/index.js';
+export {
+  scoreEvalCase,
+  diffEvalOutputs,
+  runSkillEvalComparison,
+  evaluateSkillEvalGate,
+} from './evals/index.js';
+
 // types
 export type {
   AgentMessage,
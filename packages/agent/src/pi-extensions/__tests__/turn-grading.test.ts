@@ -0,0 +1,146 @@
+// test: heuristic and judged turn grading, stored scores and judge calibration agreement
+// run: node --experimental-strip-types packages/agent/src/pi-extensions/__tests__/turn-grading.test.ts
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createTurnGrading, createTurnJudge, evaluateTurnHeuristic } from '../turn-grading.ts';
+import type { TurnJudge } from '../turn-grading.ts';
+import { measureTurnJudgeAgreement, TURN_CALIBRATION_SET } from '../turn-grading-calibration.ts';
+import type { AfterTurnEvent } from '../after-turn.types.ts';
+import type { CreateExecutionInput, ExecutionStore } from '../../types.ts';
+
+const createStore = () => {
+  const created: CreateExecutionInput[] = [];
+  const store: ExecutionStore = {
+    create: async (input) => {
+      created.push(input);
+      return { ...input, id: `exec-${created.length}`, createdAt: new Date() };
+    },
+    complete: async () => undefined,
+    list: async () => [],
+    get: async () => null,
+  };
+
+  return { store, created };
+};
+
+const event = (overrides: Partial<AfterTurnEvent> = {}): AfterTurnEvent => ({
+  messages: [],
+  userMessage: 'How much is the Globex deal?',
+  assistantMessage: 'Globex is worth $120,000.',
+  toolCalls: [{ name: 'search_opportunities', args: { query: 'Globex' }, result: [{ amount: 12000 }] }],
+  injectedMemoryIds: [],
+  metadata: { userId: 'u1', workspaceId: 'w1', conversationId: 'c1' },
+  ...overrides,
+});
+
+describe('evaluateTurnHeuristic', () => {
+  it('penalizes tool errors and empty responses', () => {
+    assert.equal(evaluateTurnHeuristic(event()).score, 100);
+    assert.equal(
+      evaluateTurnHeuristic(event({ assistantMessage: '', toolCalls: [{ name: 'x', args: {}, error: 'boom' }] })).score,
+      20,
+    );
+  });
+});
+
+describe('createTurnJudge', () => {
+  it('sends the rubric and tool results, and parses a fenced JSON grade', async () => {
+    let prompt = '';
+    const judge = createTurnJudge({
+      model: 'judge-model',
+      generateText: async (params) => {
+        prompt = params.prompt;
+        return { text: '```json\n{"score": 14.6, "comment": "amount contradicts the tool result"}\n```' };
+      },
+    });
+
+    const grade = await judge(event());
+
+    assert.deepEqual(grade, { score: 15, comment: 'amount contradicts the tool result' });
+    assert.match(prompt, /## Rubric/);
+    assert.match(prompt, /search_opportunities\(\{"query":"Globex"\}\) result: \[\{"amount":12000\}\]/);
+  });
+
+  it('rejects replies without a numeric score', async () => {
+    const judge = createTurnJudge({
+      model: 'judge-model',
+      generateText: async () => ({ text: '{"comment": "looks fine"}' }),
+    });
+
+    await assert.rejects(judge(event()), /judge returned no score/);
+  });
+});
+
+describe('createTurnGrading', () => {
+  it('stores only the heuristic score without a judge', async () => {
+    const { store, created } = createStore();
+
+    await createTurnGrading(store).afterTurn(event());
+
+    assert.equal(created[0]!.status, 'completed');
+    assert.equal(created[0]!.output!.grader, 'heuristic');
+    assert.equal(created[0]!.output!.score, 100);
+    assert.equal(created[0]!.output!.judged, undefined);
+  });
+
+  it('stores both scores and lets the judged score drive status', async () => {
+    const { store, created } = createStore();
+    const judge: TurnJudge = async () => ({ score: 15, comment: 'hallucinated amount' });
+
+    await createTurnGrading(store, { judge }).afterTurn(event());
+
+    assert.equal(created[0]!.status, 'failed');
+    assert.deepEqual(created[0]!.output, {
+      score: 15,
+      comment: 'hallucinated amount',
+      grader: 'judge',
+      heuristic: { score: 100, comment: '1 tool(s) used successfully' },
+      judged: { score: 15, comment: 'hallucinated amount' },
+    });
+  });
+
+  it('falls back to the heuristic when the judge fails', async () => {
+    const { store, created } = createStore();
+    const judge: TurnJudge = async () => {
+      throw new Error('rate limited');
+    };
+
+    await createTurnGrading(store, { judge }).afterTurn(event());
+
+    assert.equal(created[0]!.status, 'completed');
+    assert.equal(created[0]!.output!.grader, 'heuristic');
+    assert.equal(created[0]!.output!.judgeError, 'rate limited');
+  });
+});
+
+describe('measureTurnJudgeAgreement', () => {
+  it('reports perfect agreement for a judge that echoes the labels', async () => {
+    const labels = new Map(TURN_CALIBRATION_SET.map((c) => [c.turn, c.humanScore]));
+    const oracle: TurnJudge = async (turn) => ({ score: labels.get(turn as never) ?? 0, comment: '' });
+
+    const report = await measureTurnJudgeAgreement(oracle);
+
+    assert.equal(report.cases, TURN_CALIBRATION_SET.length);
+    assert.deepEqual(report.judge, { meanAbsoluteError: 0, passAgreement: 1, kappa: 1 });
+    // the set is built around turns the heuristic misjudges
+    assert.ok(report.heuristic.kappa < 0.5);
+  });
+
+  it('counts judge failures separately from disagreement', async () => {
+    let calls = 0;
+    const flaky: TurnJudge = async () => {
+      calls += 1;
+      if (calls === 1) throw new Error('timeout');
+      return { score: 100, comment: '' };
+    };
+
+    const report = await measureTurnJudgeAgreement(flaky, TURN_CALIBRATION_SET.slice(0, 3));
+
+    assert.equal(report.judged, 2);
+    assert.equal(report.judgeErrors, 1);
+    assert.equal(report.results[0]!.error, 'timeout');
+    assert.equal(report.judge.passAgreement, 0.5);
+  });
+});
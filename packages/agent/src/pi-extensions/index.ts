@@ -39,7 +39,26 @@ export type { CoachingLifecycle, RecentlyEndedCall } from './coaching-lifecycle.
 // after-turn extensions
 export type { AfterTurnEvent, AfterTurnExtension, ToolCallSummary } from './after-turn.types.js';
 export { createPreferenceInference } from './preference-inference.js';
-export { createTurnGrading } from './turn-grading.js';
-export type { TurnEvaluation } from './turn-grading.js';
+export {
+  createTurnGrading,
+  createTurnJudge,
+  evaluateTurnHeuristic,
+  TURN_GRADING_RUBRIC,
+  TURN_PASS_SCORE,
+} from './turn-grading.js';
+export type {
+  GradableTurn,
+  TurnEvaluation,
+  TurnGradingOptions,
+  TurnJudge,
+  TurnJudgeOptions,
+} from './turn-grading.js';
+export { measureTurnJudgeAgreement, TURN_CALIBRATION_SET } from './turn-grading-calibration.js';
+export type {
+  GraderAgreement,
+  TurnCalibrationCase,
+  TurnCalibrationReport,
+  TurnCalibrationResult,
+} from './turn-grading-calibration.js';
 export { createUsageTracking } from './usage-tracking.js';
 export type { UsageStore, UsageRecord } from './usage-tracking.js';
@@ -0,0 +1,282 @@
+// labeled calibration set for the turn judge
+// each turn was scored 0-100 by a human reviewer against TURN_GRADING_RUBRIC;
+// measureTurnJudgeAgreement compares the judge (and the heuristic, as a baseline) to those labels
+
+import {
+  evaluateTurnHeuristic,
+  TURN_PASS_SCORE,
+  type GradableTurn,
+  type TurnJudge,
+} from './turn-grading.js';
+
+export type TurnCalibrationCase = {
+  id: string;
+  turn: GradableTurn;
+  humanScore: number;
+  // why the reviewer scored it this way
+  note: string;
+};
+
+export type TurnCalibrationResult = {
+  id: string;
+  humanScore: number;
+  heuristicScore: number;
+  judgedScore: number | null;
+  error?: string;
+};
+
+export type GraderAgreement = {
+  // mean |grader - human| over graded cases, in score points
+  meanAbsoluteError: number;
+  // share of cases where grader and human agree on pass/fail
+  passAgreement: number;
+  // Cohen's kappa on pass/fail; 1 is perfect, 0 is chance
+  kappa: number;
+};
+
+export type TurnCalibrationReport = {
+  cases: number;
+  judged: number;
+  judgeErrors: number;
+  judge: GraderAgreement;
+  heuristic: GraderAgreement;
+  results: TurnCalibrationResult[];
+};
+
+export const TURN_CALIBRATION_SET: TurnCalibrationCase[] = [
+  {
+    id: 'lookup-complete',
+    turn: {
+      userMessage: 'What stage is the Acme deal in?',
+      assistantMessage: 'The Acme Corp deal is in Negotiation, worth $48,000, with a close date of March 14.',
+      toolCalls: [
+        {
+          name: 'search_opportunities',
+          args: { query: 'Acme' },
+          result: [{ name: 'Acme Corp', stage: 'NEGOTIATION', amount: 48000, closeDate: '2026-03-14' }],
+        },
+      ],
+    },
+    humanScore: 95,
+    note: 'correct tool, answer matches the result',
+  },
+  {
+    id: 'small-talk',
+    turn: {
+      userMessage: 'thanks, that helps',
+      assistantMessage: "You're welcome! Let me know if you want me to prep anything for the Acme call.",
+      toolCalls: [],
+    },
+    humanScore: 90,
+    note: 'no action needed, polite and relevant',
+  },
+  {
+    id: 'hallucinated-amount',
+    turn: {
+      userMessage: 'How much is the Globex opportunity worth?',
+      assistantMessage: 'The Globex opportunity is worth $120,000 and is expected to close next week.',
+      toolCalls: [
+        {
+          name: 'search_opportunities',
+          args: { query: 'Globex' },
+          result: [{ name: 'Globex', stage: 'DISCOVERY', amount: 12000, closeDate: null }],
+        },
+      ],
+    },
+    humanScore: 15,
+    note: 'amount and close date contradict the tool result',
+  },
+  {
+    id: 'no-lookup-guess',
+    turn: {
+      userMessage: 'When did I last talk to Dana Ruiz?',
+      assistantMessage: 'You last spoke with Dana Ruiz about two weeks ago.',
+      toolCalls: [],
+    },
+    humanScore: 20,
+    note: 'answers from nowhere instead of checking call history',
+  },
+  {
+    id: 'recovered-tool-error',
+    turn: {
+      userMessage: 'Log a note on the Initech deal: sent revised pricing.',
+      assistantMessage: 'Done — I added the note "sent revised pricing" to the Initech deal.',
+      toolCalls: [
+        { name: 'create_note', args: { opportunityId: 'initech' }, error: 'opportunity not found' },
+        { name: 'search_opportunities', args: { query: 'Initech' }, result: [{ id: 'opp_91', name: 'Initech' }] },
+        { name: 'create_note', args: { opportunityId: 'opp_91', body: 'sent revised pricing' }, result: { id: 'n_7' } },
+      ],
+    },
+    humanScore: 85,
+    note: 'first call failed but the agent looked up the id and finished the task',
+  },
+  {
+    id: 'unrecovered-tool-error',
+    turn: {
+      userMessage: 'Schedule a follow-up call with Hooli for Friday at 2pm.',
+      assistantMessage: 'I scheduled the follow-up with Hooli for Friday at 2pm.',
+      toolCalls: [
+        {
+          name: 'create_task',
+          args: { title: 'Follow-up call with Hooli', due: 'Friday 2pm' },
+          error: 'invalid due date',
+        },
+      ],
+    },
+    humanScore: 10,
+    note: 'claims success after the only tool call failed',
+  },
+  {
+    id: 'honest-tool-failure',
+    turn: {
+      userMessage: 'Pull the latest call transcript for Vandelay.',
+      assistantMessage:
+        "I couldn't load the Vandelay transcript — the transcript service returned an error. " +
+        'Want me to try again in a minute?',
+      toolCalls: [{ name: 'get_call_transcript', args: { company: 'Vandelay' }, error: 'upstream timeout' }],
+    },
+    humanScore: 60,
+    note: 'task not done, but the failure is reported honestly with a next step',
+  },
+  {
+    id: 'empty-response',
+    turn: {
+      userMessage: 'Draft a follow-up email to the Umbrella team.',
+      assistantMessage: '',
+      toolCalls: [],
+    },
+    humanScore: 0,
+    note: 'no answer',
+  },
+  {
+    id: 'wrong-record',
+    turn: {
+      userMessage: 'Update the Stark Industries deal to Closed Won.',
+      assistantMessage: 'Updated the Stark Logistics deal to Closed Won.',
+      toolCalls: [
+        {
+          name: 'update_opportunity',
+          args: { id: 'opp_stark_logistics', stage: 'CLOSED_WON' },
+          result: { id: 'opp_stark_logistics', name: 'Stark Logistics', stage: 'CLOSED_WON' },
+        },
+      ],
+    },
+    humanScore: 25,
+    note: 'changed a different deal than the one asked for',
+  },
+  {
+    id: 'partial-summary',
+    turn: {
+      userMessage: 'Summarize my pipeline: total value and the deals closing this month.',
+      assistantMessage: 'Your open pipeline totals $310,000 across 9 deals.',
+      toolCalls: [
+        {
+          name: 'get_pipeline_summary',
+          args: {},
+          result: { total: 310000, count: 9, closingThisMonth: ['Acme Corp', 'Wayne Enterprises'] },
+        },
+      ],
+    },
+    humanScore: 55,
+    note: 'answers half the question although the data was available',
+  },
+  {
+    id: 'email-draft',
+    turn: {
+      userMessage: 'Write a short follow-up to Priya after today’s demo.',
+      assistantMessage:
+        'Hi Priya, thanks for your time on today’s demo. As promised, I’ll send over the security overview ' +
+        'and pricing by Thursday. Would a 20-minute call next Tuesday work to walk through questions? Best, Sam',
+      toolCalls: [],
+    },
+    humanScore: 88,
+    note: 'clear, short and actionable',
+  },
+  {
+    id: 'verbose-but-correct',
+    turn: {
+      userMessage: 'Is the Wayne Enterprises deal assigned to me?',
+      assistantMessage:
+        'Yes. The Wayne Enterprises deal is assigned to you. It is currently in Proposal. Deals in Proposal ' +
+        'usually need a pricing review. Pricing reviews are handled by finance. Finance can be reached on Slack. ' +
+        'Let me know if you want me to do anything else with this deal or any other deal.',
+      toolCalls: [
+        {
+          name: 'search_opportunities',
+          args: { query: 'Wayne Enterprises' },
+          result: [{ name: 'Wayne Enterprises', owner: 'me', stage: 'PROPOSAL' }],
+        },
+      ],
+    },
+    humanScore: 72,
+    note: 'correct, but padded with unrequested filler',
+  },
+];
+
+const passes = (score: number) => score >= TURN_PASS_SCORE;
+
+const agreement = (pairs: Array<{ grader: number; human: number }>): GraderAgreement => {
+  if (pairs.length === 0) {
+    return { meanAbsoluteError: 0, passAgreement: 0, kappa: 0 };
+  }
+
+  const n = pairs.length;
+  const meanAbsoluteError = pairs.reduce((sum, p) => sum + Math.abs(p.grader - p.human), 0) / n;
+  const observed = pairs.filter((p) => passes(p.grader) === passes(p.human)).length / n;
+
+  const graderPass = pairs.filter((p) => passes(p.grader)).length / n;
+  const humanPass = pairs.filter((p) => passes(p.human)).length / n;
+  const expected = graderPass * humanPass + (1 - graderPass) * (1 - humanPass);
+
+  // both sides constant: kappa is undefined, report agreement as all-or-nothing
+  const kappa = expected === 1 ? (observed === 1 ? 1 : 0) : (observed - expected) / (1 - expected);
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  return {
+    meanAbsoluteError: round(meanAbsoluteError),
+    passAgreement: round(observed),
+    kappa: round(kappa),
+  };
+};
+
+// cases are judged one at a time to stay under provider rate limits
+export const measureTurnJudgeAgreement = async (
+  judge: TurnJudge,
+  cases: TurnCalibrationCase[] = TURN_CALIBRATION_SET,
+): Promise<TurnCalibrationReport> => {
+  const results: TurnCalibrationResult[] = [];
+
+  for (const calibrationCase of cases) {
+    const heuristicScore = evaluateTurnHeuristic(calibrationCase.turn).score;
+
+    try {
+      const judged = await judge(calibrationCase.turn);
+      results.push({
+        id: calibrationCase.id,
+        humanScore: calibrationCase.humanScore,
+        heuristicScore,
+        judgedScore: judged.score,
+      });
+    } catch (err: unknown) {
+      results.push({
+        id: calibrationCase.id,
+        humanScore: calibrationCase.humanScore,
+        heuristicScore,
+        judgedScore: null,
+        error: err instanceof Error ? err.message : 'unknown judge error',
+      });
+    }
+  }
+
+  const judgedResults = results.filter((r) => r.judgedScore !== null);
+
+  return {
+    cases: results.length,
+    judged: judgedResults.length,
+    judgeErrors: results.length - judgedResults.length,
+    judge: agreement(judgedResults.map((r) => ({ grader: r.judgedScore ?? 0, human: r.humanScore }))),
+    heuristic: agreement(results.map((r) => ({ grader: r.heuristicScore, human: r.humanScore }))),
+    results,
+  };
+};
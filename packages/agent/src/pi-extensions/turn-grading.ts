@@ -1,6 +1,7 @@
 // turn grading extension for pi-agent-core
-// evaluates each agent turn with a heuristic score 0-100
-// inspired by Twenty's agent-turn-grader.service.ts fallback evaluation
+// evaluates each agent turn with a heuristic score 0-100, and optionally with
+// an LLM judge grading against a rubric
+// inspired by Twenty's agent-turn-grader.service.ts
 
 import { Logger } from '@consuelo/logger';
 import type { CreateExecutionInput, ExecutionStore } from '../types.js';
@@ -8,14 +9,48 @@ import type { AfterTurnExtension, AfterTurnEvent } from './after-turn.types.js';
 
 const logger = new Logger('agent:turn-grading');
 
+// turns scoring below this are stored as failed
+export const TURN_PASS_SCORE = 70;
+
 export type TurnEvaluation = {
   score: number;
   comment: string;
 };
 
+// the parts of a turn the graders look at
+export type GradableTurn = Pick<AfterTurnEvent, 'userMessage' | 'assistantMessage' | 'toolCalls'>;
+
+export type TurnJudge = (turn: GradableTurn) => Promise<TurnEvaluation>;
+
+export type TurnJudgeOptions = {
+  generateText: (params: {
+    model: unknown;
+    prompt: string;
+    temperature?: number;
+    maxTokens?: number;
+  }) => Promise<{ text: string }>;
+  model: unknown;
+  rubric?: string;
+};
+
+export type TurnGradingOptions = {
+  // when set, turns are judged and the judged score drives the stored status
+  judge?: TurnJudge;
+};
+
+export const TURN_GRADING_RUBRIC = `\
+1. Task completion: did the agent do what the user asked, or clearly explain why it could not?
+2. Tool usage: were the right tools called with sensible arguments, and were failures recovered from?
+3. Accuracy: does the response only claim what the tool results support?
+4. Response quality: is the reply clear, concise and useful to a sales rep?
+
+Score 90-100 for a complete, accurate answer; 70-89 for a useful answer with minor gaps;
+40-69 for a partial answer or an unrecovered tool failure; 0-39 for no answer, a wrong answer
+or claims the tool results contradict.`;
+
 // heuristic evaluation — no LLM call, runs synchronously
-const evaluateTurn = (event: AfterTurnEvent): TurnEvaluation => {
-  const { assistantMessage, toolCalls } = event;
+export const evaluateTurnHeuristic = (turn: GradableTurn): TurnEvaluation => {
+  const { assistantMessage, toolCalls } = turn;
   const errors = toolCalls.filter((t) => t.error);
 
   let score = 100;
@@ -44,20 +79,95 @@ const evaluateTurn = (event: AfterTurnEvent): TurnEvaluation => {
   };
 };
 
+const stripCodeFences = (text: string): string =>
+  text.replace(/^```(?:json)?\s*\n?/i, '').replace(/\n?```\s*$/i, '').trim();
+
+const describeTurn = (turn: GradableTurn): string => {
+  const tools = turn.toolCalls.map((t) => {
+    const outcome = t.error ? `FAILED: ${t.error}` : `result: ${JSON.stringify(t.result ?? null)}`;
+    return `- ${t.name}(${JSON.stringify(t.args)}) ${outcome}`;
+  });
+
+  return [
+    `## User request\n\n${turn.userMessage || '(no text)'}`,
+    `## Agent response\n\n${turn.assistantMessage || '(no text response)'}`,
+    ...(tools.length > 0 ? [`## Tool calls\n\n${tools.join('\n')}`] : []),
+  ].join('\n\n');
+};
+
+// grades a turn with the caller's model; throws when the reply is not a valid grade
+export const createTurnJudge = (options: TurnJudgeOptions): TurnJudge => async (turn) => {
+  const prompt = `You are grading one turn of an AI sales assistant against a rubric.
+
+## Rubric
+
+${options.rubric ?? TURN_GRADING_RUBRIC}
+
+${describeTurn(turn)}
+
+Respond ONLY with valid JSON in this exact format:
+{"score": <number from 0 to 100>, "comment": "<one sentence, max 200 characters>"}`;
+
+  const { text } = await options.generateText({
+    model: options.model,
+    prompt,
+    temperature: 0,
+    maxTokens: 300,
+  });
+
+  const parsed = JSON.parse(stripCodeFences(text)) as { score?: unknown; comment?: unknown };
+  const score = Number(parsed.score);
+
+  if (!Number.isFinite(score)) {
+    throw new Error(`judge returned no score: ${text.slice(0, 200)}`);
+  }
+
+  return {
+    score: Math.max(0, Math.min(100, Math.round(score))),
+    comment: typeof parsed.comment === 'string' ? parsed.comment.slice(0, 500) : 'judged',
+  };
+};
+
 export const createTurnGrading = (
   executionStore: ExecutionStore,
+  options: TurnGradingOptions = {},
 ): AfterTurnExtension => ({
   name: 'turn-grading',
 
   afterTurn: async (event: AfterTurnEvent): Promise<void> => {
     try {
-      const evaluation = evaluateTurn(event);
+      const heuristic = evaluateTurnHeuristic(event);
+      let judged: TurnEvaluation | undefined;
+      let judgeError: string | undefined;
+
+      if (options.judge) {
+        try {
+          judged = await options.judge(event);
+        } catch (err: unknown) {
+          // a failed judge call falls back to the heuristic score
+          judgeError = err instanceof Error ? err.message : 'unknown judge error';
+          logger.warn(`turn judge failed: ${judgeError}`, {
+            conversationId: event.metadata.conversationId,
+          });
+        }
+      }
+
+      const evaluation = judged ?? heuristic;
 
+      // score/comment stay top-level for existing readers; both graders are kept
+      // side by side so dashboards can compare them
       const input: CreateExecutionInput = {
         conversationId: event.metadata.conversationId,
         type: 'llm_response',
-        status: evaluation.score >= 70 ? 'completed' : 'failed',
-        output: { score: evaluation.score, comment: evaluation.comment },
+        status: evaluation.score >= TURN_PASS_SCORE ? 'completed' : 'failed',
+        output: {
+          score: evaluation.score,
+          comment: evaluation.comment,
+          grader: judged ? 'judge' : 'heuristic',
+          heuristic,
+          ...(judged ? { judged } : {}),
+          ...(judgeError ? { judgeError } : {}),
+        },
       };
 
       await executionStore.create(input);
@@ -0,0 +1,240 @@
+// test: local sandbox backend command building, path jail, timeouts and SandboxService artifacts
+// run: node --experimental-strip-types packages/agent/src/sandbox-backends/__tests__/local.test.ts
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import { existsSync } from 'node:fs';
+import { mkdtemp, readFile, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { PassThrough } from 'node:stream';
+
+import { buildLocalSandboxCommand, createLocalSandboxBackend } from '../local.ts';
+import type { LocalSandboxSpawn } from '../local.ts';
+import { SandboxService } from '../../sandbox.ts';
+
+const mounts = { dataDir: '/w/data', outputDir: '/w/output', codeDir: '/w/sandbox' };
+
+type SpawnCall = { command: string; args: string[]; env: Record<string, string | undefined> };
+
+// fake spawn; `behave` drives the child once it is listening
+const createFakeSpawn = (
+  behave: (call: SpawnCall, child: { stdout: PassThrough; stderr: PassThrough; close: (code: number) => void }) => void,
+) => {
+  const calls: SpawnCall[] = [];
+  const killed: string[] = [];
+
+  const spawnProcess: LocalSandboxSpawn = (command, args, options) => {
+    const call = { command, args, env: options.env };
+    calls.push(call);
+
+    const emitter = new EventEmitter();
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    const child = Object.assign(emitter, {
+      stdout,
+      stderr,
+      kill: (signal?: NodeJS.Signals) => {
+        killed.push(signal ?? 'SIGTERM');
+        return true;
+      },
+    });
+
+    setImmediate(() =>
+      behave(call, { stdout, stderr, close: (code) => setImmediate(() => emitter.emit('close', code)) }),
+    );
+
+    return child;
+  };
+
+  return { spawnProcess, calls, killed };
+};
+
+const hostMount = (call: SpawnCall, sandboxDir: string): string => {
+  if (call.command === 'bwrap') {
+    return call.args[call.args.indexOf(sandboxDir) - 1]!;
+  }
+
+  const volume = call.args.find((arg) => arg.includes(`:${sandboxDir}:`))!;
+  return volume.slice(0, volume.indexOf(`:${sandboxDir}:`));
+};
+
+describe('buildLocalSandboxCommand', () => {
+  it('runs containers without network, capabilities or a writable root', () => {
+    const { command, args } = buildLocalSandboxCommand({
+      options: { isolation: 'container', memoryMb: 256, cpus: 0.5 },
+      image: 'consuelo-agent',
+      containerName: 'sb-1',
+      language: 'python',
+      timeoutMs: 10_000,
+      envNames: ['CRM_TOKEN'],
+      mounts,
+    });
+
+    assert.equal(command, 'docker');
+    const joined = args.join(' ');
+    assert.match(joined, /--network none/);
+    assert.match(joined, /--memory 256m --memory-swap 256m --cpus 0\.5/);
+    assert.match(joined, /--read-only/);
+    assert.match(joined, /--cap-drop ALL/);
+    assert.match(joined, /--volume \/w\/data:\/data:rw --volume \/w\/output:\/output:rw/);
+    assert.match(joined, /--volume \/w\/sandbox:\/sandbox:ro/);
+    assert.match(joined, /--env CRM_TOKEN consuelo-agent python3 \/sandbox\/main\.py$/);
+  });
+
+  it('enables the network and runtime only when asked', () => {
+    const { command, args } = buildLocalSandboxCommand({
+      options: { isolation: 'container', containerRuntime: 'podman', network: true },
+      image: 'img',
+      containerName: 'sb-2',
+      language: 'javascript',
+      timeoutMs: 10_000,
+      envNames: [],
+      mounts,
+    });
+
+    assert.equal(command, 'podman');
+    assert.match(args.join(' '), /--network bridge/);
+    assert.deepEqual(args.slice(-3), ['node', '--max-old-space-size=512', '/sandbox/main.js']);
+  });
+
+  it('jails bubblewrap runs with unshared namespaces and ulimits', () => {
+    const { command, args } = buildLocalSandboxCommand({
+      options: { isolation: 'bubblewrap', memoryMb: 128 },
+      image: 'unused',
+      containerName: 'unused',
+      language: 'python',
+      timeoutMs: 2_500,
+      envNames: [],
+      mounts,
+    });
+
+    assert.equal(command, 'bwrap');
+    const joined = args.join(' ');
+    assert.match(joined, /--unshare-all/);
+    assert.doesNotMatch(joined, /--share-net/);
+    assert.match(joined, /--bind \/w\/data \/data --bind \/w\/output \/output --ro-bind \/w\/sandbox \/sandbox/);
+    assert.match(joined, /ulimit -v 131072; ulimit -t 3;/);
+    assert.deepEqual(args.slice(-2), ['python3', '/sandbox/main.py']);
+  });
+});
+
+describe('createLocalSandboxBackend', () => {
+  it('maps /data and /output onto the workspace and rejects other paths', async () => {
+    const { spawnProcess } = createFakeSpawn((_, child) => child.close(0));
+    const backend = createLocalSandboxBackend({ isolation: 'container', spawnProcess });
+    const sandbox = await backend.create({ template: 'consuelo-agent', envs: {}, timeoutMs: 1_000 });
+
+    await sandbox.writeFile('/data/context.json', '{"a":1}');
+    assert.equal(new TextDecoder().decode(await sandbox.readFile('/data/context.json')), '{"a":1}');
+
+    await assert.rejects(sandbox.writeFile('/etc/passwd', 'x'), /outside \/data and \/output/);
+    await assert.rejects(sandbox.writeFile('/data/../../etc/passwd', 'x'), /outside \/data and \/output/);
+    await assert.rejects(sandbox.readFile('/outputs/secret'), /outside \/data and \/output/);
+
+    await sandbox.kill();
+  });
+
+  it('refuses symlinks planted in the mounts by sandboxed code', async () => {
+    const host = await mkdtemp(path.join(tmpdir(), 'consuelo-host-'));
+    const hostFile = path.join(host, 'secret.json');
+    await writeFile(hostFile, '{"secret":true}');
+
+    const { spawnProcess } = createFakeSpawn(async (call, child) => {
+      // what os.symlink inside the jail leaves behind in the host workspace
+      const dataDir = hostMount(call, '/data');
+      await symlink(hostFile, path.join(dataDir, 'context.json'));
+      await symlink(host, path.join(dataDir, 'linked'));
+      await symlink(hostFile, path.join(hostMount(call, '/output'), 'report.csv'));
+      child.close(0);
+    });
+    const backend = createLocalSandboxBackend({ isolation: 'container', spawnProcess });
+    const sandbox = await backend.create({ template: 'consuelo-agent', envs: {}, timeoutMs: 1_000 });
+    await sandbox.writeFile('/output/kept/done.txt', 'ok');
+    await sandbox.run({ language: 'python', code: 'pass', timeoutMs: 1_000 });
+
+    await assert.rejects(sandbox.writeFile('/data/context.json', '{"overwritten":true}'));
+    await assert.rejects(sandbox.writeFile('/data/linked/secret.json', '{"overwritten":true}'));
+    await assert.rejects(sandbox.readFile('/output/report.csv'));
+    await assert.rejects(sandbox.listFiles('/data/linked'));
+    assert.deepEqual(await sandbox.listFiles('/output'), [{ name: 'kept', type: 'dir' }]);
+    assert.equal(await readFile(hostFile, 'utf8'), '{"secret":true}');
+
+    await sandbox.kill();
+    await rm(host, { recursive: true, force: true });
+  });
+
+  it('resolves non-zero exits and keeps sandbox envs out of argv', async () => {
+    const { spawnProcess, calls } = createFakeSpawn((_, child) => {
+      child.stderr.write('boom\n');
+      child.close(2);
+    });
+    const backend = createLocalSandboxBackend({ isolation: 'bubblewrap', spawnProcess });
+    const sandbox = await backend.create({ template: 't', envs: { CRM_TOKEN: 'secret' }, timeoutMs: 1_000 });
+
+    const result = await sandbox.run({ language: 'python', code: 'raise SystemExit(2)', timeoutMs: 1_000 });
+
+    assert.deepEqual(result, { stdout: '', stderr: 'boom\n', exitCode: 2 });
+    assert.equal(calls[0]!.env.CRM_TOKEN, 'secret');
+    assert.equal(calls[0]!.env.HOME, '/tmp');
+    assert.ok(!calls[0]!.args.some((arg) => arg.includes('secret')));
+
+    await sandbox.kill();
+  });
+
+  it('kills the process and its container on timeout', async () => {
+    const { spawnProcess, calls, killed } = createFakeSpawn(() => undefined);
+    const backend = createLocalSandboxBackend({ isolation: 'container', spawnProcess });
+    const sandbox = await backend.create({ template: 'consuelo-agent', envs: {}, timeoutMs: 1_000 });
+
+    await assert.rejects(
+      sandbox.run({ language: 'javascript', code: 'for(;;){}', timeoutMs: 20 }),
+      /timed out after 20ms/,
+    );
+
+    assert.deepEqual(killed, ['SIGKILL']);
+    const name = calls[0]!.args[calls[0]!.args.indexOf('--name') + 1];
+    assert.deepEqual(calls[1]!.args, ['kill', name]);
+
+    await sandbox.kill();
+  });
+});
+
+describe('SandboxService with the local backend', () => {
+  it('returns output artifacts and removes the workspace afterwards', async () => {
+    let workspace = '';
+    const { spawnProcess } = createFakeSpawn(async (call, child) => {
+      const dataDir = hostMount(call, '/data');
+      const outputDir = hostMount(call, '/output');
+      workspace = path.dirname(dataDir);
+
+      const context = JSON.parse(await readFile(path.join(dataDir, 'context.json'), 'utf8'));
+      await writeFile(path.join(outputDir, 'report.csv'), `name\n${context.name}\n`);
+      child.stdout.write('done\n');
+      child.close(0);
+    });
+
+    const service = new SandboxService(
+      'consuelo-agent',
+      createLocalSandboxBackend({ isolation: 'container', spawnProcess }),
+    );
+    const seen: string[] = [];
+
+    const result = await service.execute({
+      language: 'python',
+      code: 'print("done")',
+      contextData: { name: 'Acme' },
+      onStdout: (line) => seen.push(line),
+    });
+
+    assert.equal(result.exitCode, 0);
+    assert.equal(result.stdout, 'done\n');
+    assert.deepEqual(seen, ['done\n']);
+    assert.equal(result.artifacts.length, 1);
+    assert.equal(result.artifacts[0]!.path, 'report.csv');
+    assert.equal(result.artifacts[0]!.mimeType, 'text/csv');
+    assert.equal(result.artifacts[0]!.data.toString(), 'name\nAcme\n');
+    assert.ok(!existsSync(workspace));
+  });
+});
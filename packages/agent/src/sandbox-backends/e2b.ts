@@ -0,0 +1,67 @@
+import type { SandboxBackend, SandboxCommandResult, SandboxFileEntry } from './types.js';
+
+const shellEscape = (code: string): string =>
+  "'" + code.replace(/'/g, "'\\''") + "'";
+
+// e2b throws CommandExitError for non-zero exits; it carries the full result
+const isCommandExit = (err: unknown): err is SandboxCommandResult =>
+  typeof err === 'object' &&
+  err !== null &&
+  'exitCode' in err &&
+  'stdout' in err &&
+  'stderr' in err;
+
+// hosted sandboxes; `template` is the e2b template built from e2b.Dockerfile
+export const createE2bSandboxBackend = (): SandboxBackend => ({
+  name: 'e2b',
+
+  create: async ({ template, envs, timeoutMs }) => {
+    const { Sandbox } = await import('e2b');
+    const sandbox = await Sandbox.create(template, { envs, timeoutMs });
+
+    return {
+      writeFile: async (path, content) => {
+        await sandbox.files.write(path, content);
+      },
+
+      run: async ({ language, code, timeoutMs: commandTimeoutMs, onStdout, onStderr }) => {
+        const command =
+          language === 'python'
+            ? `python3 -c ${shellEscape(code)}`
+            : `node -e ${shellEscape(code)}`;
+
+        try {
+          const process = await sandbox.commands.run(command, {
+            timeoutMs: commandTimeoutMs,
+            onStdout,
+            onStderr,
+          });
+
+          return { stdout: process.stdout, stderr: process.stderr, exitCode: process.exitCode };
+        } catch (err: unknown) {
+          if (isCommandExit(err)) {
+            return { stdout: err.stdout, stderr: err.stderr, exitCode: err.exitCode };
+          }
+
+          throw err;
+        }
+      },
+
+      listFiles: async (dir) => {
+        const entries: SandboxFileEntry[] = [];
+
+        for (const entry of await sandbox.files.list(dir)) {
+          entries.push({ name: entry.name, type: entry.type === 'file' ? 'file' : 'dir' });
+        }
+
+        return entries;
+      },
+
+      readFile: (path) => sandbox.files.read(path, { format: 'bytes' }),
+
+      kill: async () => {
+        await sandbox.kill();
+      },
+    };
+  },
+});
@@ -0,0 +1,14 @@
+export { createE2bSandboxBackend } from './e2b.js';
+export { createLocalSandboxBackend, buildLocalSandboxCommand } from './local.js';
+export type {
+  LocalSandboxIsolation,
+  LocalSandboxMounts,
+  LocalSandboxOptions,
+  LocalSandboxSpawn,
+} from './local.js';
+export type {
+  SandboxBackend,
+  SandboxCommandResult,
+  SandboxFileEntry,
+  SandboxInstance,
+} from './types.js';
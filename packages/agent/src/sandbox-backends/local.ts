@@ -0,0 +1,429 @@
+import { spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { constants } from 'node:fs';
+import { lstat, mkdir, mkdtemp, open, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import type { SandboxLanguage } from '../types.js';
+import type {
+  SandboxBackend,
+  SandboxCommandResult,
+  SandboxFileEntry,
+  SandboxInstance,
+} from './types.js';
+
+// container: docker or podman running the image built from e2b.Dockerfile
+// bubblewrap: host python3/node inside bwrap namespaces (Linux only)
+export type LocalSandboxIsolation = 'container' | 'bubblewrap';
+
+type SpawnedProcess = {
+  stdout: NodeJS.ReadableStream | null;
+  stderr: NodeJS.ReadableStream | null;
+  kill: (signal?: NodeJS.Signals) => boolean;
+  on(event: 'close', listener: (code: number | null) => void): unknown;
+  on(event: 'error', listener: (err: Error) => void): unknown;
+};
+
+export type LocalSandboxSpawn = (
+  command: string,
+  args: string[],
+  options: { env: Record<string, string | undefined> },
+) => SpawnedProcess;
+
+export type LocalSandboxOptions = {
+  isolation: LocalSandboxIsolation;
+  // container image; defaults to the service template name
+  image?: string;
+  containerRuntime?: 'docker' | 'podman';
+  memoryMb?: number;
+  cpus?: number;
+  // network is off unless explicitly enabled
+  network?: boolean;
+  // host directory holding per-sandbox workspaces
+  workRoot?: string;
+  spawnProcess?: LocalSandboxSpawn;
+};
+
+export type LocalSandboxMounts = {
+  dataDir: string;
+  outputDir: string;
+  codeDir: string;
+};
+
+const DEFAULT_MEMORY_MB = 512;
+const DEFAULT_CPUS = 1;
+const PIDS_LIMIT = 256;
+const SANDBOX_PATH = '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin';
+
+// only these sandbox paths exist on the host side
+const MOUNT_POINTS = ['/data', '/output'] as const;
+
+const SCRIPT_NAMES: Record<SandboxLanguage, string> = {
+  python: 'main.py',
+  javascript: 'main.js',
+};
+
+const interpreterArgs = (language: SandboxLanguage, memoryMb: number): string[] =>
+  language === 'python'
+    ? ['python3', `/sandbox/${SCRIPT_NAMES.python}`]
+    : ['node', `--max-old-space-size=${memoryMb}`, `/sandbox/${SCRIPT_NAMES.javascript}`];
+
+/**
+ * Builds the isolation command for one run. Both modes mount /data and
+ * /output read-write, the script read-only at /sandbox, and a private /tmp;
+ * nothing else from the host is writable.
+ */
+export function buildLocalSandboxCommand(input: {
+  options: LocalSandboxOptions;
+  image: string;
+  containerName: string;
+  language: SandboxLanguage;
+  timeoutMs: number;
+  envNames: string[];
+  mounts: LocalSandboxMounts;
+}): { command: string; args: string[] } {
+  const { options, mounts, language } = input;
+  const memoryMb = options.memoryMb ?? DEFAULT_MEMORY_MB;
+  const interpreter = interpreterArgs(language, memoryMb);
+
+  if (options.isolation === 'container') {
+    return {
+      command: options.containerRuntime ?? 'docker',
+      args: [
+        'run',
+        '--rm',
+        '--name',
+        input.containerName,
+        '--network',
+        options.network ? 'bridge' : 'none',
+        '--memory',
+        `${memoryMb}m`,
+        '--memory-swap',
+        `${memoryMb}m`,
+        '--cpus',
+        String(options.cpus ?? DEFAULT_CPUS),
+        '--pids-limit',
+        String(PIDS_LIMIT),
+        '--read-only',
+        '--cap-drop',
+        'ALL',
+        '--security-opt',
+        'no-new-privileges',
+        '--tmpfs',
+        '/tmp:rw,size=64m',
+        '--volume',
+        `${mounts.dataDir}:/data:rw`,
+        '--volume',
+        `${mounts.outputDir}:/output:rw`,
+        '--volume',
+        `${mounts.codeDir}:/sandbox:ro`,
+        '--workdir',
+        '/tmp',
+        // values come from the runtime's own environment, never argv
+        ...input.envNames.flatMap((name) => ['--env', name]),
+        input.image,
+        ...interpreter,
+      ],
+    };
+  }
+
+  // NOTE: bwrap has no cgroup limits, so memory is capped per process with
+  // ulimit (V8's heap flag for node, whose address space reservation trips
+  // ulimit -v) and CPU time is capped at the run timeout
+  const cpuSeconds = Math.max(1, Math.ceil(input.timeoutMs / 1000));
+  const limits =
+    language === 'python'
+      ? `ulimit -v ${memoryMb * 1024}; ulimit -t ${cpuSeconds}; ulimit -u ${PIDS_LIMIT}`
+      : `ulimit -t ${cpuSeconds}; ulimit -u ${PIDS_LIMIT}`;
+
+  return {
+    command: 'bwrap',
+    args: [
+      '--ro-bind',
+      '/usr',
+      '/usr',
+      '--ro-bind-try',
+      '/bin',
+      '/bin',
+      '--ro-bind-try',
+      '/lib',
+      '/lib',
+      '--ro-bind-try',
+      '/lib64',
+      '/lib64',
+      '--ro-bind-try',
+      '/etc/alternatives',
+      '/etc/alternatives',
+      '--ro-bind-try',
+      '/etc/ssl',
+      '/etc/ssl',
+      ...(options.network ? ['--ro-bind-try', '/etc/resolv.conf', '/etc/resolv.conf'] : []),
+      '--proc',
+      '/proc',
+      '--dev',
+      '/dev',
+      '--tmpfs',
+      '/tmp',
+      '--bind',
+      mounts.dataDir,
+      '/data',
+      '--bind',
+      mounts.outputDir,
+      '/output',
+      '--ro-bind',
+      mounts.codeDir,
+      '/sandbox',
+      '--chdir',
+      '/tmp',
+      '--unshare-all',
+      ...(options.network ? ['--share-net'] : []),
+      '--die-with-parent',
+      '--new-session',
+      '/bin/sh',
+      '-c',
+      `${limits}; exec "$0" "$@"`,
+      ...interpreter,
+    ],
+  };
+}
+
+// maps a sandbox path onto the host workspace, refusing anything that would
+// land outside the /data and /output mounts
+const hostPath = (root: string, sandboxPath: string): { mountDir: string; segments: string[] } => {
+  const normalized = path.posix.normalize(sandboxPath);
+
+  for (const mount of MOUNT_POINTS) {
+    if (normalized === mount || normalized.startsWith(`${mount}/`)) {
+      return {
+        mountDir: path.join(root, mount.slice(1)),
+        segments: normalized.slice(mount.length).split('/').filter(Boolean),
+      };
+    }
+  }
+
+  throw new Error(`sandbox path outside /data and /output: ${sandboxPath}`);
+};
+
+const isMissing = (err: unknown): boolean => (err as NodeJS.ErrnoException).code === 'ENOENT';
+
+// the mounts are writable from inside the jail, so sandboxed code can plant
+// symlinks there; every directory on the way must be a real directory
+// (lstat never follows links) or the host side would follow them out
+const resolveHostDir = async (
+  root: string,
+  sandboxPath: string,
+  options: { create: boolean },
+): Promise<string> => {
+  const { mountDir, segments } = hostPath(root, sandboxPath);
+  let current = mountDir;
+
+  for (const segment of ['', ...segments]) {
+    current = segment ? path.join(current, segment) : current;
+
+    try {
+      if (!(await lstat(current)).isDirectory()) {
+        throw new Error(`sandbox path is not a directory: ${sandboxPath}`);
+      }
+    } catch (err) {
+      if (!options.create || !isMissing(err)) throw err;
+      // non-recursive, so a link planted in the meantime fails with EEXIST
+      await mkdir(current);
+    }
+  }
+
+  return current;
+};
+
+// the file itself is opened with O_NOFOLLOW, so a symlink in its place fails
+const resolveHostFile = async (
+  root: string,
+  sandboxPath: string,
+  options: { create: boolean },
+): Promise<string> => {
+  const { segments } = hostPath(root, sandboxPath);
+  const name = segments.pop();
+
+  if (!name) {
+    throw new Error(`sandbox path is not a file: ${sandboxPath}`);
+  }
+
+  const dir = await resolveHostDir(root, path.posix.dirname(path.posix.normalize(sandboxPath)), options);
+
+  return path.join(dir, name);
+};
+
+const runProcess = (
+  spawnProcess: LocalSandboxSpawn,
+  input: {
+    command: string;
+    args: string[];
+    env: Record<string, string | undefined>;
+    timeoutMs: number;
+    onStdout?: (line: string) => void;
+    onStderr?: (line: string) => void;
+    onTimeout: () => void;
+  },
+): Promise<SandboxCommandResult> =>
+  new Promise((resolve, reject) => {
+    const child = spawnProcess(input.command, input.args, { env: input.env });
+    let stdout = '';
+    let stderr = '';
+    let settled = false;
+
+    const finish = (action: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      action();
+    };
+
+    const timer = setTimeout(() => {
+      input.onTimeout();
+      child.kill('SIGKILL');
+      finish(() => reject(new Error(`sandbox command timed out after ${input.timeoutMs}ms`)));
+    }, input.timeoutMs);
+
+    child.stdout?.on('data', (chunk: Buffer | string) => {
+      const text = chunk.toString();
+      stdout += text;
+      input.onStdout?.(text);
+    });
+    child.stderr?.on('data', (chunk: Buffer | string) => {
+      const text = chunk.toString();
+      stderr += text;
+      input.onStderr?.(text);
+    });
+    child.on('error', (err) => finish(() => reject(err)));
+    child.on('close', (code) => finish(() => resolve({ stdout, stderr, exitCode: code ?? 1 })));
+  });
+
+/**
+ * Runs skills on this machine instead of e2b. Each sandbox is a temporary
+ * workspace whose data and output directories are mounted at /data and
+ * /output; every run executes in a fresh container or bubblewrap jail with
+ * the network off unless `network` is set.
+ */
+export const createLocalSandboxBackend = (options: LocalSandboxOptions): SandboxBackend => {
+  const spawnProcess: LocalSandboxSpawn =
+    options.spawnProcess ??
+    ((command, args, spawnOptions) =>
+      spawn(command, args, { env: spawnOptions.env, stdio: ['ignore', 'pipe', 'pipe'] }));
+
+  return {
+    name: `local-${options.isolation}`,
+
+    create: async ({ template, envs }) => {
+      const root = await mkdtemp(path.join(options.workRoot ?? tmpdir(), 'consuelo-sandbox-'));
+      const mounts: LocalSandboxMounts = {
+        dataDir: path.join(root, 'data'),
+        outputDir: path.join(root, 'output'),
+        codeDir: path.join(root, 'sandbox'),
+      };
+
+      await Promise.all(Object.values(mounts).map((dir) => mkdir(dir, { recursive: true })));
+
+      const running = new Set<string>();
+      const containerRuntime = options.containerRuntime ?? 'docker';
+
+      const stopContainer = (name: string) => {
+        if (options.isolation !== 'container') return;
+        const stopper = spawnProcess(containerRuntime, ['kill', name], {
+          env: process.env,
+        });
+        stopper.on('error', () => undefined);
+      };
+
+      const instance: SandboxInstance = {
+        writeFile: async (sandboxPath, content) => {
+          const target = await resolveHostFile(root, sandboxPath, { create: true });
+          const file = await open(
+            target,
+            constants.O_WRONLY | constants.O_CREAT | constants.O_TRUNC | constants.O_NOFOLLOW,
+          );
+
+          try {
+            await file.writeFile(content);
+          } finally {
+            await file.close();
+          }
+        },
+
+        run: async ({ language, code, timeoutMs, onStdout, onStderr }) => {
+          await writeFile(path.join(mounts.codeDir, SCRIPT_NAMES[language]), code);
+
+          const containerName = `consuelo-sandbox-${randomUUID()}`;
+          const { command, args } = buildLocalSandboxCommand({
+            options,
+            image: options.image ?? template,
+            containerName,
+            language,
+            timeoutMs,
+            envNames: Object.keys(envs),
+            mounts,
+          });
+
+          // bwrap passes its environment straight through, so it gets only
+          // the sandbox envs; the container CLI keeps the host's to reach
+          // its daemon and forwards just the named sandbox envs
+          const env =
+            options.isolation === 'container'
+              ? { ...process.env, ...envs }
+              : { PATH: SANDBOX_PATH, HOME: '/tmp', ...envs };
+
+          running.add(containerName);
+
+          try {
+            return await runProcess(spawnProcess, {
+              command,
+              args,
+              env,
+              timeoutMs,
+              onStdout,
+              onStderr,
+              onTimeout: () => stopContainer(containerName),
+            });
+          } finally {
+            running.delete(containerName);
+          }
+        },
+
+        listFiles: async (dir) => {
+          const entries = await readdir(await resolveHostDir(root, dir, { create: false }), {
+            withFileTypes: true,
+          });
+
+          // symlinks, sockets and devices are neither listed nor followed
+          return entries.flatMap((entry): SandboxFileEntry[] => {
+            if (entry.isFile()) return [{ name: entry.name, type: 'file' }];
+            if (entry.isDirectory()) return [{ name: entry.name, type: 'dir' }];
+            return [];
+          });
+        },
+
+        readFile: async (sandboxPath) => {
+          const target = await resolveHostFile(root, sandboxPath, { create: false });
+          const file = await open(target, constants.O_RDONLY | constants.O_NOFOLLOW);
+
+          try {
+            if (!(await file.stat()).isFile()) {
+              throw new Error(`sandbox path is not a file: ${sandboxPath}`);
+            }
+            return new Uint8Array(await file.readFile());
+          } finally {
+            await file.close();
+          }
+        },
+
+        kill: async () => {
+          for (const name of running) {
+            stopContainer(name);
+          }
+          await rm(root, { recursive: true, force: true });
+        },
+      };
+
+      return instance;
+    },
+  };
+};
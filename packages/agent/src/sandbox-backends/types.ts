@@ -0,0 +1,37 @@
+import type { SandboxLanguage } from '../types.js';
+
+export type SandboxFileEntry = {
+  name: string;
+  type: 'file' | 'dir';
+};
+
+export type SandboxCommandResult = {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+};
+
+// one running sandbox; paths are absolute inside it (/data, /output)
+export type SandboxInstance = {
+  writeFile: (path: string, content: string) => Promise<void>;
+  // resolves with non-zero exit codes too; rejects on timeout or backend failure
+  run: (input: {
+    language: SandboxLanguage;
+    code: string;
+    timeoutMs: number;
+    onStdout?: (line: string) => void;
+    onStderr?: (line: string) => void;
+  }) => Promise<SandboxCommandResult>;
+  listFiles: (dir: string) => Promise<SandboxFileEntry[]>;
+  readFile: (path: string) => Promise<Uint8Array>;
+  kill: () => Promise<void>;
+};
+
+export type SandboxBackend = {
+  name: string;
+  create: (input: {
+    template: string;
+    envs: Record<string, string>;
+    timeoutMs: number;
+  }) => Promise<SandboxInstance>;
+};
@@ -3,6 +3,8 @@ import type {
   SandboxArtifact,
   SandboxExecuteOptions,
 } from './types.js';
+import { createE2bSandboxBackend } from './sandbox-backends/e2b.js';
+import type { SandboxBackend, SandboxInstance } from './sandbox-backends/types.js';
 
 const DEFAULT_TIMEOUT_MS = 30_000;
 const DEFAULT_TEMPLATE = 'consuelo-agent';
@@ -11,49 +13,42 @@ const DATA_DIR = '/data';
 const SANDBOX_TTL_MS = 5 * 60 * 1000; // 5 min idle before cleanup
 
 type PoolEntry = {
-  sandbox: Awaited<ReturnType<typeof createSandbox>>;
+  sandbox: SandboxInstance;
   userId: string;
   lastUsed: number;
   envsHash: string;
 };
 
-// lazy sandbox creation helper for type inference
-const createSandbox = async (template: string, envs: Record<string, string>, timeoutMs: number) => {
-  const { Sandbox } = await import('e2b');
-  return Sandbox.create(template, { envs, timeoutMs });
-};
-
 export class SandboxService {
   private template: string;
+  private backend: SandboxBackend;
   private pool: Map<string, PoolEntry> = new Map();
   private pending: Map<string, Promise<PoolEntry['sandbox']>> = new Map();
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
 
-  constructor(template = DEFAULT_TEMPLATE) {
+  // backend defaults to hosted e2b; see sandbox-backends/local.ts for offline runs
+  constructor(template = DEFAULT_TEMPLATE, backend: SandboxBackend = createE2bSandboxBackend()) {
     this.template = template;
+    this.backend = backend;
   }
 
   async execute(options: SandboxExecuteOptions & { userId?: string }): Promise<SandboxResult> {
     const sandbox = options.userId
       ? await this.getOrCreate(options.userId, options.envVars ?? {}, options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
-      : await createSandbox(this.template, options.envVars ?? {}, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      : await this.createSandbox(options.envVars ?? {}, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
 
     try {
       // inject context data into sandbox filesystem
       if (options.contextData) {
-        await sandbox.files.write(
+        await sandbox.writeFile(
           `${DATA_DIR}/context.json`,
           JSON.stringify(options.contextData),
         );
       }
 
-      // build execution command
-      const command =
-        options.language === 'python'
-          ? `python3 -c ${shellEscape(options.code)}`
-          : `node -e ${shellEscape(options.code)}`;
-
-      const process = await sandbox.commands.run(command, {
+      const process = await sandbox.run({
+        language: options.language,
+        code: options.code,
         timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
         onStdout: options.onStdout,
         onStderr: options.onStderr,
@@ -112,7 +107,7 @@ export class SandboxService {
     const inflight = this.pending.get(userId);
     if (inflight) return inflight;
 
-    const promise = createSandbox(this.template, envs, timeoutMs);
+    const promise = this.createSandbox(envs, timeoutMs);
     this.pending.set(userId, promise);
 
     try {
@@ -125,6 +120,10 @@ export class SandboxService {
     }
   }
 
+  private createSandbox(envs: Record<string, string>, timeoutMs: number): Promise<SandboxInstance> {
+    return this.backend.create({ template: this.template, envs, timeoutMs });
+  }
+
   private startCleanup() {
     if (this.cleanupTimer) return;
     this.cleanupTimer = setInterval(() => {
@@ -153,18 +152,14 @@ export class SandboxService {
     this.pool.clear();
   }
 
-  private async collectArtifacts(
-    sandbox: Awaited<ReturnType<typeof createSandbox>>,
-  ): Promise<SandboxArtifact[]> {
+  private async collectArtifacts(sandbox: SandboxInstance): Promise<SandboxArtifact[]> {
     try {
-      const entries = await sandbox.files.list(OUTPUT_DIR);
+      const entries = await sandbox.listFiles(OUTPUT_DIR);
       const artifacts: SandboxArtifact[] = [];
 
       for (const entry of entries) {
         if (entry.type === 'file') {
-          const data = await sandbox.files.read(`${OUTPUT_DIR}/${entry.name}`, {
-            format: 'bytes',
-          });
+          const data = await sandbox.readFile(`${OUTPUT_DIR}/${entry.name}`);
           artifacts.push({
             path: entry.name,
             mimeType: guessMimeType(entry.name),
@@ -181,9 +176,6 @@ export class SandboxService {
   }
 }
 
-const shellEscape = (code: string): string =>
-  "'" + code.replace(/'/g, "'\\''") + "'";
-
 const MIME_TYPES: Record<string, string> = {
   png: 'image/png',
   jpg: 'image/jpeg',
@@ -25,6 +25,7 @@ const jestConfig = {
     '^@consuelo/dialer$': '<rootDir>/../../packages/dialer/src/index.ts',
     '^@consuelo/contacts$': '<rootDir>/../../packages/contacts/src/index.ts',
     '^@consuelo/coaching$': '<rootDir>/../../packages/coaching/src/index.ts',
+    '^@consuelo/agent$': '<rootDir>/../../packages/agent/src/index.ts',
   },
   moduleFileExtensions: ['js', 'json', 'ts'],
   modulePathIgnorePatterns: ['<rootDir>/dist'],
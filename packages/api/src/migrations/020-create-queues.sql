@@ -0,0 +1,15 @@
+-- 020: contacts Queues (PostgresStorageProvider in @consuelo/contacts); created
+-- here so 021's membership index and 028's priority entries have a table to alter
+
+CREATE TABLE IF NOT EXISTS queues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  -- JSON text arrays, read back with JSON.parse and cast to jsonb for lookups
+  contact_ids TEXT NOT NULL DEFAULT '[]',
+  ordering VARCHAR(32) NOT NULL DEFAULT 'sequential',
+  current_index INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(32) NOT NULL DEFAULT 'idle',
+  results TEXT NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,17 @@
+-- 021: lookup indexes for contact deduplication on import and merge
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- exact matches on normalized phone and lowercase email, scoped to the workspace
+CREATE INDEX IF NOT EXISTS idx_contacts_workspace_phone
+  ON contacts (workspace_id, phone);
+CREATE INDEX IF NOT EXISTS idx_contacts_workspace_email_lower
+  ON contacts (workspace_id, lower(email));
+
+-- fuzzy name candidates via the pg_trgm `%` operator
+CREATE INDEX IF NOT EXISTS idx_contacts_name_trgm
+  ON contacts USING gin (lower(name) gin_trgm_ops);
+
+-- queue membership lookups (`contact_ids::jsonb ? $1`) when repointing merged contacts
+CREATE INDEX IF NOT EXISTS idx_queues_contact_ids
+  ON queues USING gin ((contact_ids::jsonb));
@@ -0,0 +1,10 @@
+-- 022: saved column mappings for deterministic CSV/XLSX contact import,
+-- keyed by the normalized header row so the same export layout maps itself
+
+CREATE TABLE IF NOT EXISTS contact_import_mappings (
+  workspace_id UUID NOT NULL,
+  signature TEXT NOT NULL,
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, signature)
+);
@@ -0,0 +1,47 @@
+-- 023: inbound call routing — ring groups, per-number routing, sticky reps
+
+CREATE TABLE IF NOT EXISTS inbound_ring_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id VARCHAR(255) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  strategy VARCHAR(16) NOT NULL DEFAULT 'simultaneous' CHECK (strategy IN ('simultaneous', 'round_robin')),
+  member_user_ids TEXT[] NOT NULL DEFAULT '{}',
+  next_member_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbound_ring_groups_workspace
+  ON inbound_ring_groups (workspace_id);
+
+-- numbers without a ring group fall back to team round-robin
+ALTER TABLE workspace_phone_numbers
+ADD COLUMN IF NOT EXISTS ring_group_id UUID REFERENCES inbound_ring_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workspace_phone_numbers_active_number
+  ON workspace_phone_numbers (phone_number) WHERE status = 'active';
+
+-- inbound_routing: { greeting, whisper, ringTimeoutSeconds }
+ALTER TABLE workspace_settings
+ADD COLUMN IF NOT EXISTS inbound_routing JSONB NOT NULL DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS inbound_round_robin_cursor INTEGER NOT NULL DEFAULT 0;
+
+-- rep behind the most recent attempt, so callbacks reach the rep who dialed
+ALTER TABLE contact_attempt_ledger
+ADD COLUMN IF NOT EXISTS last_user_id TEXT;
+
+UPDATE contact_attempt_ledger ledger
+SET last_user_id = latest.user_id
+FROM (
+  SELECT DISTINCT ON (cq.workspace_id, qi.contact_id)
+    cq.workspace_id,
+    qi.contact_id,
+    cq.user_id
+  FROM queue_items qi
+  JOIN call_queues cq ON cq.id = qi.queue_id
+  WHERE qi.last_attempt_at IS NOT NULL
+  ORDER BY cq.workspace_id, qi.contact_id, qi.last_attempt_at DESC
+) latest
+WHERE ledger.workspace_id = latest.workspace_id
+  AND ledger.contact_id = latest.contact_id
+  AND ledger.last_user_id IS NULL;
@@ -0,0 +1,24 @@
+-- 024: two-way SMS threaded per contact, with contact-level STOP suppression
+
+CREATE TABLE IF NOT EXISTS sms_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL,
+  contact_id UUID,
+  call_id VARCHAR(64),
+  user_id VARCHAR(255),
+  direction VARCHAR(16) NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  "from" VARCHAR(32) NOT NULL,
+  "to" VARCHAR(32) NOT NULL,
+  body TEXT NOT NULL,
+  status VARCHAR(32) NOT NULL DEFAULT 'queued',
+  provider_message_sid VARCHAR(64) UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_thread
+  ON sms_messages (workspace_id, contact_id, created_at);
+
+-- set by an inbound STOP, cleared by START; outbound sends are refused while set
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS sms_opted_out_at TIMESTAMPTZ;
@@ -0,0 +1,21 @@
+-- 025: caller ID reputation — per-number daily outcomes, scores and rest periods
+
+CREATE TABLE IF NOT EXISTS caller_id_daily_stats (
+  workspace_id UUID NOT NULL,
+  phone_number VARCHAR(32) NOT NULL,
+  day DATE NOT NULL DEFAULT CURRENT_DATE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  answered INTEGER NOT NULL DEFAULT 0,
+  short_hangups INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (workspace_id, phone_number, day)
+);
+
+-- score/flags are recomputed after every completed outbound leg
+ALTER TABLE workspace_phone_numbers
+ADD COLUMN IF NOT EXISTS reputation_score INTEGER NOT NULL DEFAULT 100,
+ADD COLUMN IF NOT EXISTS reputation_flags TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS rested_until TIMESTAMPTZ;
+
+-- caller_id_reputation: partial ReputationThresholds overriding the defaults
+ALTER TABLE workspace_settings
+ADD COLUMN IF NOT EXISTS caller_id_reputation JSONB NOT NULL DEFAULT '{}'::jsonb;
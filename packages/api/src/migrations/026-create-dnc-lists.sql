@@ -0,0 +1,34 @@
+-- 026: dial compliance — imported do-not-call lists and contact-local calling hours
+
+-- both lists are per workspace: national registry access is licensed per
+-- subscriber, and each workspace imports its own download
+CREATE TABLE IF NOT EXISTS dnc_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL,
+  list_source VARCHAR(16) NOT NULL CHECK (list_source IN ('workspace', 'national')),
+  file_name VARCHAR(255),
+  parsed_count INTEGER NOT NULL DEFAULT 0,
+  added_count INTEGER NOT NULL DEFAULT 0,
+  imported_by VARCHAR(255),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dnc_imports_workspace
+  ON dnc_imports (workspace_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS dnc_numbers (
+  workspace_id UUID NOT NULL,
+  list_source VARCHAR(16) NOT NULL CHECK (list_source IN ('workspace', 'national')),
+  phone_number VARCHAR(32) NOT NULL,
+  import_id UUID REFERENCES dnc_imports(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, list_source, phone_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dnc_numbers_lookup
+  ON dnc_numbers (workspace_id, phone_number);
+
+-- dial_compliance: { startHour, endHour, fallbackTimezone } overriding the
+-- 8am-9pm contact-local default
+ALTER TABLE workspace_settings
+ADD COLUMN IF NOT EXISTS dial_compliance JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,32 @@
+-- 027: parallel abandon-rate governor — daily live-answer/abandon counts per
+-- campaign and the line-count cuts made to stay under the ceiling
+
+-- '' is the workspace default for groups dialed without a campaign segment
+CREATE TABLE IF NOT EXISTS parallel_abandon_daily (
+  workspace_id UUID NOT NULL,
+  campaign_segment VARCHAR(255) NOT NULL DEFAULT '',
+  day DATE NOT NULL DEFAULT CURRENT_DATE,
+  human_answers INTEGER NOT NULL DEFAULT 0,
+  abandoned_calls INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (workspace_id, campaign_segment, day)
+);
+
+CREATE TABLE IF NOT EXISTS parallel_governor_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL,
+  campaign_segment VARCHAR(255) NOT NULL DEFAULT '',
+  action VARCHAR(16) NOT NULL CHECK (action IN ('reduced', 'single-line')),
+  profile_id VARCHAR(32) NOT NULL,
+  fanout_before INTEGER NOT NULL,
+  fanout_after INTEGER NOT NULL,
+  abandon_rate NUMERIC(7, 6),
+  ceiling NUMERIC(7, 6) NOT NULL,
+  window_days INTEGER NOT NULL,
+  human_answers INTEGER NOT NULL,
+  abandoned_calls INTEGER NOT NULL,
+  unavailable BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_parallel_governor_decisions_workspace
+  ON parallel_governor_decisions (workspace_id, created_at DESC);
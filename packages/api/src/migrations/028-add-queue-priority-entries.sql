@@ -0,0 +1,4 @@
+-- 028: per-contact priority entries for contacts Queues, keyed by contact id
+-- ({ "<contactId>": { factors, score, ... } }); merged in place by patchQueueEntry
+
+ALTER TABLE queues ADD COLUMN IF NOT EXISTS entries JSONB NOT NULL DEFAULT '{}'::jsonb;
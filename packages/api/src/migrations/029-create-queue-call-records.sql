@@ -0,0 +1,19 @@
+-- 029: persisted call attempts behind contacts QueueStatsService
+-- (per-queue, per-agent, hourly and workspace-wide stats)
+
+CREATE TABLE IF NOT EXISTS queue_call_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID,
+  queue_id TEXT NOT NULL,
+  agent_id TEXT,
+  answered BOOLEAN NOT NULL,
+  duration_seconds INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_call_records_queue_created
+  ON queue_call_records (queue_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_queue_call_records_agent
+  ON queue_call_records (agent_id);
+CREATE INDEX IF NOT EXISTS idx_queue_call_records_workspace_created
+  ON queue_call_records (workspace_id, created_at);
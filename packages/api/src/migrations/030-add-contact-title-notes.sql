@@ -0,0 +1,4 @@
+-- 030: title and notes mapped by the contacts document and CSV import
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS title VARCHAR(255);
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS notes TEXT;
@@ -0,0 +1,225 @@
+// Caller ID reputation route tests
+// Tests the admin health report, threshold settings and manual rest periods
+
+import type { RouteDefinition } from '../index';
+import type { ApiRequest } from '../../types';
+import {
+  createAuthenticatedRequest,
+  executeHandler,
+} from '../../testing/routeTestHelper';
+
+// ---- module mocks (hoisted by jest) ----
+
+/* eslint-disable no-var */
+var mockQuery: jest.Mock;
+var mockGetReputationReport: jest.Mock;
+/* eslint-enable no-var */
+
+jest.mock('../../shared/db', () => {
+  mockQuery = jest.fn();
+  return {
+    getSharedPool: jest.fn().mockResolvedValue({ query: mockQuery }),
+  };
+});
+
+jest.mock('../../services/caller-id-reputation', () => {
+  const actual = jest.requireActual('../../services/caller-id-reputation');
+  mockGetReputationReport = jest.fn();
+  return { ...actual, getReputationReport: mockGetReputationReport };
+});
+
+jest.mock('@sentry/node', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('@consuelo/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+// ---- import after mocks ----
+
+import { callerIdReputationRoutes } from '../caller-id-reputation';
+
+// ---- helpers ----
+
+type Route = RouteDefinition;
+let routes: Route[];
+
+const findRoute = (method: string, path: string): Route => {
+  const r = routes.find((rt) => rt.method === method && rt.path === path);
+  if (!r) throw new Error(`Route not found: ${method} ${path}`);
+  return r;
+};
+
+const exec = (route: Route, req?: Partial<ApiRequest>) =>
+  executeHandler(route.handler, req);
+
+const errorCode = (body: unknown) =>
+  (body as { error: { code: string } }).error.code;
+
+const asRole = (role: string) =>
+  mockQuery.mockResolvedValueOnce({ rows: [{ role }] });
+
+// ---- setup ----
+
+beforeAll(() => {
+  routes = callerIdReputationRoutes();
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('GET /v1/phone-numbers/reputation', () => {
+  it('returns the workspace report', async () => {
+    const report = { thresholds: { restHours: 48 }, numbers: [] };
+    mockGetReputationReport.mockResolvedValueOnce(report);
+    const res = await exec(
+      findRoute('GET', '/v1/phone-numbers/reputation'),
+      createAuthenticatedRequest(),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual(report);
+    expect(mockGetReputationReport).toHaveBeenCalledWith(
+      { query: mockQuery },
+      'ws-test-001',
+    );
+  });
+});
+
+describe('PUT /v1/phone-numbers/reputation/settings', () => {
+  const route = () => findRoute('PUT', '/v1/phone-numbers/reputation/settings');
+
+  it('saves overrides and returns the merged thresholds', async () => {
+    asRole('admin');
+    mockQuery.mockResolvedValueOnce({
+      rows: [{ thresholds: { maxDailyAttempts: 60 } }],
+    });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({ body: { maxDailyAttempts: 60 } }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({
+      thresholds: expect.objectContaining({
+        maxDailyAttempts: 60,
+        restHours: 48,
+      }),
+    });
+    expect(mockQuery).toHaveBeenLastCalledWith(expect.any(String), [
+      'ws-test-001',
+      JSON.stringify({ maxDailyAttempts: 60 }),
+    ]);
+  });
+
+  it('rejects rates above 1', async () => {
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({ body: { minAnswerRate: 8 } }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_SETTINGS');
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('forbids members from changing thresholds', async () => {
+    asRole('member');
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({ body: { restHours: 12 } }),
+    );
+
+    expect(res.statusCode).toBe(403);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('POST /v1/phone-numbers/:sid/rest', () => {
+  const route = () => findRoute('POST', '/v1/phone-numbers/:sid/rest');
+
+  it('rests a workspace number for the requested hours', async () => {
+    asRole('owner');
+    mockQuery.mockResolvedValueOnce({
+      rows: [
+        {
+          phone_number: '+14155550999',
+          rested_until: '2026-03-02T12:00:00.000Z',
+        },
+      ],
+    });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { sid: 'PN-1' },
+        body: { hours: 24 },
+      }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({
+      phoneNumber: '+14155550999',
+      restedUntil: '2026-03-02T12:00:00.000Z',
+    });
+    expect(mockQuery).toHaveBeenLastCalledWith(expect.any(String), [
+      24,
+      'ws-test-001',
+      'PN-1',
+    ]);
+  });
+
+  it('rejects rest periods longer than 30 days', async () => {
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { sid: 'PN-1' },
+        body: { hours: 24 * 31 },
+      }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_REST');
+  });
+
+  it('returns 404 for numbers outside the workspace', async () => {
+    asRole('admin');
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({ params: { sid: 'PN-other' }, body: {} }),
+    );
+
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('DELETE /v1/phone-numbers/:sid/rest', () => {
+  it('ends the rest period immediately', async () => {
+    asRole('admin');
+    mockQuery.mockResolvedValueOnce({
+      rows: [
+        {
+          phone_number: '+14155550999',
+          rested_until: '2026-03-01T09:30:00.000Z',
+        },
+      ],
+    });
+    const res = await exec(
+      findRoute('DELETE', '/v1/phone-numbers/:sid/rest'),
+      createAuthenticatedRequest({ params: { sid: 'PN-1' } }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(mockQuery).toHaveBeenLastCalledWith(expect.any(String), [
+      'ws-test-001',
+      'PN-1',
+    ]);
+  });
+});
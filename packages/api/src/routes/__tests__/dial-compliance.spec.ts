@@ -0,0 +1,222 @@
+// Dial compliance route tests
+// Tests calling-hours settings, DNC list imports and number removal
+
+import type { RouteDefinition } from '../index';
+import type { ApiRequest } from '../../types';
+import {
+  createAuthenticatedRequest,
+  executeHandler,
+} from '../../testing/routeTestHelper';
+
+// ---- module mocks (hoisted by jest) ----
+
+/* eslint-disable no-var */
+var mockQuery: jest.Mock;
+/* eslint-enable no-var */
+
+jest.mock('../../shared/db', () => {
+  mockQuery = jest.fn();
+  return {
+    getSharedPool: jest.fn().mockResolvedValue({ query: mockQuery }),
+  };
+});
+
+jest.mock('@sentry/node', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('@consuelo/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+// ---- import after mocks ----
+
+import { dialComplianceRoutes } from '../dial-compliance';
+
+// ---- helpers ----
+
+type Route = RouteDefinition;
+let routes: Route[];
+
+const findRoute = (method: string, path: string): Route => {
+  const r = routes.find((rt) => rt.method === method && rt.path === path);
+  if (!r) throw new Error(`Route not found: ${method} ${path}`);
+  return r;
+};
+
+const exec = (route: Route, req?: Partial<ApiRequest>) =>
+  executeHandler(route.handler, req);
+
+const errorCode = (body: unknown) =>
+  (body as { error: { code: string } }).error.code;
+
+const asRole = (role: string) =>
+  mockQuery.mockResolvedValueOnce({ rows: [{ role }] });
+
+// ---- setup ----
+
+beforeAll(() => {
+  routes = dialComplianceRoutes();
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('PUT /v1/compliance/settings', () => {
+  const route = () => findRoute('PUT', '/v1/compliance/settings');
+
+  it('saves the calling window and returns the resolved policy', async () => {
+    asRole('owner');
+    mockQuery.mockResolvedValueOnce({
+      rows: [{ policy: { startHour: 9, fallbackTimezone: 'America/Denver' } }],
+    });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        body: { startHour: 9, fallbackTimezone: 'America/Denver' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({
+      policy: {
+        callingWindow: { startHour: 9, endHour: 21 },
+        fallbackTimezone: 'America/Denver',
+      },
+    });
+    expect(mockQuery.mock.calls[1][1]).toEqual([
+      'ws-test-001',
+      JSON.stringify({ startHour: 9, fallbackTimezone: 'America/Denver' }),
+    ]);
+  });
+
+  it('rejects a window that ends before it starts', async () => {
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({ body: { startHour: 10, endHour: 9 } }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_SETTINGS');
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for reps', async () => {
+    asRole('member');
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({ body: { endHour: 20 } }),
+    );
+
+    expect(res.statusCode).toBe(403);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('POST /v1/compliance/dnc-imports', () => {
+  const route = () => findRoute('POST', '/v1/compliance/dnc-imports');
+
+  it('imports a registry download into the national list', async () => {
+    asRole('admin');
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ id: 'import-1' }] })
+      .mockResolvedValueOnce({ rows: [{ added: 2 }] })
+      .mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'import-1',
+            list_source: 'national',
+            file_name: 'CA.txt',
+            parsed_count: 2,
+            added_count: 2,
+            imported_by: 'user-test-001',
+            created_at: '2026-03-16T17:30:00.000Z',
+          },
+        ],
+      });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        body: {
+          list: 'national',
+          fileName: 'CA.txt',
+          content: '415,5550100\n415,5550101\n',
+        },
+      }),
+    );
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toMatchObject({
+      import: { id: 'import-1', listSource: 'national', addedCount: 2 },
+    });
+  });
+
+  it('rejects an unknown list', async () => {
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        body: { list: 'state', content: '4155550100' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_IMPORT');
+  });
+
+  it('rejects a file without phone numbers', async () => {
+    asRole('admin');
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        body: { list: 'workspace', content: 'name\nAda\n' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_IMPORT');
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('DELETE /v1/compliance/dnc/:phone', () => {
+  const route = () => findRoute('DELETE', '/v1/compliance/dnc/:phone');
+
+  it('removes the normalized number from the workspace list', async () => {
+    asRole('admin');
+    mockQuery.mockResolvedValueOnce({
+      rows: [{ phone_number: '+14155550100' }],
+    });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({ params: { phone: '4155550100' } }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(mockQuery.mock.calls[1][1]).toEqual([
+      'ws-test-001',
+      'workspace',
+      '+14155550100',
+    ]);
+  });
+
+  it('returns 404 when the number is not listed', async () => {
+    asRole('admin');
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { phone: '4155550100' },
+        query: { list: 'national' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(404);
+    expect(mockQuery.mock.calls[1][1]?.[1]).toBe('national');
+  });
+});
@@ -0,0 +1,480 @@
+// Inbound routing route tests
+// Tests the Twilio inbound webhooks and the /v1/inbound-routing settings
+
+import type { RouteDefinition } from '../index';
+import type { ApiRequest } from '../../types';
+import {
+  createAuthenticatedRequest,
+  executeHandler,
+} from '../../testing/routeTestHelper';
+
+// ---- module mocks (hoisted by jest) ----
+
+/* eslint-disable no-var */
+var mockQuery: jest.Mock;
+var mockResolveInboundRoute: jest.Mock;
+var mockRecordInboundCall: jest.Mock;
+var mockValidateTwilioSignature: jest.Mock;
+/* eslint-enable no-var */
+
+jest.mock('../../shared/db', () => {
+  mockQuery = jest.fn();
+  return {
+    getSharedPool: jest.fn().mockResolvedValue({ query: mockQuery }),
+  };
+});
+
+jest.mock('../../services/inbound-routing', () => {
+  const actual = jest.requireActual('../../services/inbound-routing');
+  mockResolveInboundRoute = jest.fn();
+  mockRecordInboundCall = jest.fn();
+  return {
+    ...actual,
+    resolveInboundRoute: mockResolveInboundRoute,
+    recordInboundCall: mockRecordInboundCall,
+  };
+});
+
+jest.mock('../voice', () => {
+  mockValidateTwilioSignature = jest.fn(async () => true);
+  return { validateTwilioSignature: mockValidateTwilioSignature };
+});
+
+jest.mock('@sentry/node', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('@consuelo/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+// ---- import after mocks ----
+
+import { inboundRoutes } from '../inbound-routing';
+
+// ---- helpers ----
+
+type Route = RouteDefinition;
+let routes: Route[];
+
+const findRoute = (method: string, path: string): Route => {
+  const r = routes.find((rt) => rt.method === method && rt.path === path);
+  if (!r) throw new Error(`Route not found: ${method} ${path}`);
+  return r;
+};
+
+const exec = (route: Route, req?: Partial<ApiRequest>) =>
+  executeHandler(route.handler, req);
+
+const twilioReq = (overrides?: Partial<ApiRequest>): Partial<ApiRequest> => ({
+  auth: undefined,
+  method: 'POST',
+  headers: { 'x-twilio-signature': 'valid-sig' },
+  ...overrides,
+});
+
+const errorCode = (body: unknown) =>
+  (body as { error: { code: string } }).error.code;
+
+// ---- setup ----
+
+beforeAll(() => {
+  routes = inboundRoutes();
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  process.env.API_BASE_URL = 'https://api.test';
+});
+
+describe('POST /v1/voice/inbound', () => {
+  const route = () => findRoute('POST', '/v1/voice/inbound');
+
+  it('rings the resolved reps and points the dial action at missed-call capture', async () => {
+    mockResolveInboundRoute.mockResolvedValueOnce({
+      workspaceId: 'ws-1',
+      contactId: 'contact-1',
+      userIds: ['rep-1'],
+      source: 'last_rep',
+      greeting: null,
+      whisper: null,
+      ringTimeoutSeconds: 20,
+    });
+    const res = await exec(
+      route(),
+      twilioReq({
+        body: { To: '+15550000001', From: '+15550000002', CallSid: 'CA-1' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.contentType).toBe('text/xml');
+    expect(res.rawBody).toContain('<Client>user_rep-1</Client>');
+    expect(res.rawBody).toContain(
+      'action="https://api.test/v1/voice/inbound/dial-status?workspaceId=ws-1&amp;contactId=contact-1&amp;assigneeId=rep-1&amp;source=last_rep"',
+    );
+    expect(mockResolveInboundRoute).toHaveBeenCalledWith(
+      { query: mockQuery },
+      { to: '+15550000001', from: '+15550000002' },
+    );
+  });
+
+  it('rejects calls to numbers no workspace owns', async () => {
+    mockResolveInboundRoute.mockResolvedValueOnce(null);
+    const res = await exec(
+      route(),
+      twilioReq({ body: { To: '+15550000001', From: '+15550000002' } }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.rawBody).toContain('<Reject />');
+  });
+
+  it('refuses unsigned requests before routing', async () => {
+    mockValidateTwilioSignature.mockImplementationOnce(async (_req, res) => {
+      res.status(401).json({ error: { code: 'UNAUTHORIZED' } });
+      return false;
+    });
+    const res = await exec(route(), twilioReq({ body: {} }));
+
+    expect(res.statusCode).toBe(401);
+    expect(mockResolveInboundRoute).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /v1/voice/inbound/dial-status', () => {
+  const route = () => findRoute('POST', '/v1/voice/inbound/dial-status');
+
+  it('records the missed call against the contact and hangs up', async () => {
+    mockRecordInboundCall.mockResolvedValueOnce({
+      callId: 'call-1',
+      missed: true,
+      callbackTaskId: 'task-1',
+    });
+    const res = await exec(
+      route(),
+      twilioReq({
+        query: {
+          workspaceId: 'ws-1',
+          contactId: 'contact-1',
+          assigneeId: 'rep-1',
+        },
+        body: {
+          CallSid: 'CA-1',
+          From: '+15550000002',
+          To: '+15550000001',
+          DialCallStatus: 'no-answer',
+        },
+      }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.rawBody).toContain('<Hangup />');
+    expect(mockRecordInboundCall).toHaveBeenCalledWith(
+      { query: mockQuery },
+      {
+        workspaceId: 'ws-1',
+        contactId: 'contact-1',
+        assigneeId: 'rep-1',
+        callSid: 'CA-1',
+        from: '+15550000002',
+        to: '+15550000001',
+        dialStatus: 'no-answer',
+        durationSeconds: 0,
+      },
+    );
+  });
+
+  it('rings the next tier when the last rep does not answer', async () => {
+    mockResolveInboundRoute.mockResolvedValueOnce({
+      workspaceId: 'ws-1',
+      contactId: 'contact-1',
+      userIds: ['rep-2', 'rep-3'],
+      source: 'ring_group',
+      greeting: 'Thanks for calling',
+      whisper: null,
+      ringTimeoutSeconds: 20,
+    });
+    const res = await exec(
+      route(),
+      twilioReq({
+        query: {
+          workspaceId: 'ws-1',
+          contactId: 'contact-1',
+          assigneeId: 'rep-1',
+          source: 'last_rep',
+        },
+        body: {
+          CallSid: 'CA-1',
+          From: '+15550000002',
+          To: '+15550000001',
+          DialCallStatus: 'no-answer',
+        },
+      }),
+    );
+
+    expect(mockResolveInboundRoute).toHaveBeenCalledWith(
+      { query: mockQuery },
+      { to: '+15550000001', from: '+15550000002', skipLastRep: 'rep-1' },
+    );
+    expect(res.rawBody).toContain('<Client>user_rep-2</Client>');
+    expect(res.rawBody).toContain('<Client>user_rep-3</Client>');
+    expect(res.rawBody).not.toContain('<Say>');
+    expect(res.rawBody).not.toContain('source=last_rep');
+    expect(mockRecordInboundCall).not.toHaveBeenCalled();
+  });
+
+  it('records the miss when nobody else can take a last-rep call', async () => {
+    mockResolveInboundRoute.mockResolvedValueOnce({
+      workspaceId: 'ws-1',
+      contactId: 'contact-1',
+      userIds: [],
+      source: null,
+      greeting: null,
+      whisper: null,
+      ringTimeoutSeconds: 20,
+    });
+    mockRecordInboundCall.mockResolvedValueOnce({
+      callId: 'call-1',
+      missed: true,
+      callbackTaskId: 'task-1',
+    });
+    const res = await exec(
+      route(),
+      twilioReq({
+        query: {
+          workspaceId: 'ws-1',
+          contactId: 'contact-1',
+          assigneeId: 'rep-1',
+          source: 'last_rep',
+        },
+        body: { CallSid: 'CA-1', DialCallStatus: 'busy' },
+      }),
+    );
+
+    expect(res.rawBody).toContain('<Hangup />');
+    expect(mockRecordInboundCall.mock.calls[0]?.[1]).toMatchObject({
+      assigneeId: 'rep-1',
+      dialStatus: 'busy',
+    });
+  });
+
+  it('treats a redirect without a dial as missed', async () => {
+    mockRecordInboundCall.mockResolvedValueOnce({
+      callId: 'call-1',
+      missed: true,
+      callbackTaskId: null,
+    });
+    await exec(
+      route(),
+      twilioReq({
+        query: { workspaceId: 'ws-1' },
+        body: { CallSid: 'CA-1', From: '+15550000002', To: '+15550000001' },
+      }),
+    );
+
+    expect(mockRecordInboundCall.mock.calls[0]?.[1]).toMatchObject({
+      contactId: null,
+      assigneeId: null,
+      dialStatus: 'no-answer',
+    });
+  });
+
+  it('still hangs up cleanly when recording fails', async () => {
+    mockRecordInboundCall.mockRejectedValueOnce(new Error('db down'));
+    const res = await exec(
+      route(),
+      twilioReq({
+        query: { workspaceId: 'ws-1' },
+        body: { CallSid: 'CA-1', DialCallStatus: 'busy' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.rawBody).toContain('<Hangup />');
+  });
+});
+
+describe('POST /v1/voice/inbound/whisper', () => {
+  it('plays the workspace whisper to the answering rep', async () => {
+    mockQuery.mockResolvedValueOnce({
+      rows: [{ whisper: 'Inbound callback' }],
+    });
+    const res = await exec(
+      findRoute('POST', '/v1/voice/inbound/whisper'),
+      twilioReq({ query: { workspaceId: 'ws-1' } }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.rawBody).toContain('<Say>Inbound callback</Say>');
+  });
+});
+
+describe('PUT /v1/inbound-routing/settings', () => {
+  const route = () => findRoute('PUT', '/v1/inbound-routing/settings');
+
+  it('saves the greeting, whisper and ring timeout', async () => {
+    const settings = {
+      greeting: 'Thanks for calling',
+      whisper: 'Callback',
+      ringTimeoutSeconds: 25,
+    };
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ role: 'admin' }] })
+      .mockResolvedValueOnce({ rows: [{ inbound_routing: settings }] });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({ body: settings }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ settings });
+    expect(mockQuery).toHaveBeenCalledWith(expect.any(String), [
+      'ws-test-001',
+      JSON.stringify(settings),
+    ]);
+  });
+
+  it('rejects ring timeouts outside 5-60 seconds', async () => {
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({ body: { ringTimeoutSeconds: 120 } }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_SETTINGS');
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('refuses callers who are not an owner or admin', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ role: 'member' }] });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({ body: { greeting: 'Hi' } }),
+    );
+
+    expect(res.statusCode).toBe(403);
+    expect(errorCode(res.body)).toBe('FORBIDDEN');
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('POST /v1/inbound-routing/ring-groups', () => {
+  const route = () => findRoute('POST', '/v1/inbound-routing/ring-groups');
+
+  it('creates a ring group of active workspace members', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ role: 'owner' }] })
+      .mockResolvedValueOnce({
+        rows: [{ user_id: 'rep-1' }, { user_id: 'rep-2' }],
+      })
+      .mockResolvedValueOnce({ rows: [{ id: 'rg-1' }] });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        body: {
+          name: 'Closers',
+          strategy: 'round_robin',
+          memberUserIds: ['rep-1', 'rep-2', 'rep-1'],
+        },
+      }),
+    );
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toEqual({ ringGroup: { id: 'rg-1' } });
+    expect(mockQuery).toHaveBeenLastCalledWith(expect.any(String), [
+      'ws-test-001',
+      'Closers',
+      'round_robin',
+      ['rep-1', 'rep-2'],
+    ]);
+  });
+
+  it('rejects members outside the workspace', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ role: 'admin' }] })
+      .mockResolvedValueOnce({ rows: [{ user_id: 'rep-1' }] });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        body: { name: 'Closers', memberUserIds: ['rep-1', 'outsider'] },
+      }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_RING_GROUP');
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects unknown strategies', async () => {
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        body: { name: 'Closers', strategy: 'random', memberUserIds: ['rep-1'] },
+      }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_RING_GROUP');
+  });
+});
+
+describe('PUT /v1/inbound-routing/numbers/:sid', () => {
+  const route = () => findRoute('PUT', '/v1/inbound-routing/numbers/:sid');
+
+  it('assigns a ring group to a workspace number', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ role: 'admin' }] });
+    mockQuery.mockResolvedValueOnce({
+      rows: [{ twilio_sid: 'PN-1', ring_group_id: 'rg-1' }],
+    });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { sid: 'PN-1' },
+        body: { ringGroupId: 'rg-1' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(mockQuery).toHaveBeenCalledWith(expect.any(String), [
+      'rg-1',
+      'ws-test-001',
+      'PN-1',
+    ]);
+  });
+
+  it('returns 404 when the number or ring group is not in the workspace', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ role: 'admin' }] })
+      .mockResolvedValueOnce({ rows: [] });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { sid: 'PN-other' },
+        body: { ringGroupId: null },
+      }),
+    );
+
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('DELETE /v1/inbound-routing/ring-groups/:id', () => {
+  const route = () => findRoute('DELETE', '/v1/inbound-routing/ring-groups/:id');
+
+  it('refuses callers who are not an owner or admin', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({ params: { id: 'rg-1' } }),
+    );
+
+    expect(res.statusCode).toBe(403);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
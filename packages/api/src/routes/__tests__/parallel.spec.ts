@@ -18,11 +18,17 @@ const mockDialerInstance = {
     getReleasableNumbers: jest.fn(),
     computeTelemetry: jest.fn(),
     markTelemetryEmitted: jest.fn(),
+    markTelemetryEmittedIfAbsent: jest.fn(),
     generateCustomerTwiml: jest.fn(),
     terminateGroup: jest.fn(),
   },
+  progressive: {
+    handleGroupUpdate: jest.fn(),
+  },
 };
 
+const mockRecordTelemetry = jest.fn();
+
 const mockLockServiceInstance = {
   acquireLock: jest.fn(),
   releaseLock: jest.fn(),
@@ -31,6 +37,21 @@ const mockLockServiceInstance = {
 };
 
 jest.mock('@consuelo/dialer', () => ({
+  AbandonRateGovernor: class {
+    recordTelemetry(...args: unknown[]) {
+      return mockRecordTelemetry(...args);
+    }
+  },
+  DialerComplianceError: class extends Error {
+    readonly code: string;
+    readonly denials: unknown[];
+
+    constructor(input: { code: string; message: string; denials: unknown[] }) {
+      super(input.message);
+      this.code = input.code;
+      this.denials = input.denials;
+    }
+  },
   ParallelStrategyResolver: class {
     async resolve(input: { profileId?: string }) {
       const profiles = {
@@ -72,6 +93,37 @@ jest.mock('../../shared/dialer.js', () => ({
   sharedCallerIdLockService: jest.fn(),
 }));
 
+const mockQueuesQuery = jest.fn();
+const mockFilesQuery = jest.fn();
+
+jest.mock('../../shared/db.js', () => ({
+  getSharedPool: jest.fn(async () => ({ query: mockQueuesQuery })),
+  getFilesPool: jest.fn(async () => ({ query: mockFilesQuery })),
+}));
+
+jest.mock('../../services/storage.js', () => ({
+  StorageService: class {
+    async getDownloadUrl(key: string) {
+      return `https://storage.test/${key}?signed=1`;
+    }
+  },
+}));
+
+jest.mock('../../services/abandon-rate.js', () => ({
+  abandonRateConfigFromEnv: jest.fn(() => ({
+    ceiling: 0.03,
+    windowDays: 30,
+    approachRatio: 0.8,
+  })),
+  createAbandonRateStore: jest.fn(() => ({})),
+  getAbandonRateReport: jest.fn(),
+  resolveSafeHarbor: jest.fn(async () => undefined),
+}));
+
+jest.mock('../voice.js', () => ({
+  validateTwilioSignature: jest.fn(async () => true),
+}));
+
 jest.mock('@sentry/node', () => ({
   captureException: jest.fn(),
 }));
@@ -85,12 +137,18 @@ jest.mock('@consuelo/logger', () => ({
   }),
 }));
 
+import { DialerComplianceError } from '@consuelo/dialer';
+import type { ComplianceDenial } from '@consuelo/dialer';
 import { parallelRoutes } from '../parallel';
 import {
   getDialerForWorkspace,
   sharedCallerIdLockService,
   sharedDialer,
 } from '../../shared/dialer.js';
+import {
+  getAbandonRateReport,
+  resolveSafeHarbor,
+} from '../../services/abandon-rate.js';
 
 const mockDialer = mockDialerInstance;
 const mockLockService = mockLockServiceInstance;
@@ -154,6 +212,8 @@ describe('POST /v1/calls/parallel', () => {
     });
     mockLockService.acquireLock.mockResolvedValue(true);
     mockLockService.releaseLockByNumber.mockResolvedValue(true);
+    mockQueuesQuery.mockResolvedValue({ rows: [] });
+    mockFilesQuery.mockResolvedValue({ rows: [] });
   });
 
   it('locks duplicate resolved caller ids once for a single parallel batch', async () => {
@@ -193,6 +253,39 @@ describe('POST /v1/calls/parallel', () => {
     );
   });
 
+  it('returns 403 and releases locks when any leg fails the compliance gate', async () => {
+    const denials: ComplianceDenial[] = [
+      {
+        phone: '+15552222222',
+        contactId: 'contact-2',
+        reasons: ['NATIONAL_DNC'],
+        timezone: null,
+      },
+    ];
+    mockDialer.parallel.initiateGroup.mockRejectedValueOnce(
+      new DialerComplianceError({
+        code: 'NATIONAL_DNC',
+        message: '+15552222222 is on the national DNC list',
+        denials,
+        retryable: false,
+      }),
+    );
+
+    const res = await exec(route(), { body: defaultParallelBody });
+
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toEqual({
+      error: {
+        code: 'NATIONAL_DNC',
+        message: '+15552222222 is on the national DNC list',
+        denials,
+      },
+    });
+    expect(mockLockService.releaseLockByNumber).toHaveBeenCalledWith(
+      '+15554444444',
+    );
+  });
+
   it('returns 409 and releases earlier locks when a distinct caller id is busy', async () => {
     mockDialer.resolveCallerId
       .mockResolvedValueOnce({ callerIdNumber: '+15554444444' })
@@ -215,4 +308,368 @@ describe('POST /v1/calls/parallel', () => {
     );
     expect(mockDialer.parallel.initiateGroup).not.toHaveBeenCalled();
   });
+
+  it("passes the queue's safe-harbor message to the group", async () => {
+    (resolveSafeHarbor as jest.Mock).mockResolvedValueOnce({
+      text: 'Sorry we missed you.',
+    });
+
+    const res = await exec(route(), { body: defaultParallelBody });
+
+    expect(res.statusCode).toBe(201);
+    expect(resolveSafeHarbor).toHaveBeenCalledWith(expect.anything(), {
+      workspaceId: 'ws-test-001',
+      queueId: 'queue-test-001',
+    });
+    expect(mockDialer.parallel.initiateGroup).toHaveBeenCalledWith(
+      expect.objectContaining({
+        safeHarbor: { text: 'Sorry we missed you.' },
+      }),
+    );
+  });
+
+  it('dials without a safe-harbor message when none is configured', async () => {
+    const res = await exec(route(), { body: defaultParallelBody });
+
+    expect(res.statusCode).toBe(201);
+    expect(
+      mockDialer.parallel.initiateGroup.mock.calls[0][0],
+    ).not.toHaveProperty('safeHarbor');
+  });
+});
+
+describe('GET /v1/calls/parallel/abandon-rate', () => {
+  const route = () => findRoute('GET', '/v1/calls/parallel/abandon-rate');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("reports the workspace's campaign rates and governor decisions", async () => {
+    const report = {
+      ceiling: 0.03,
+      windowDays: 30,
+      campaigns: [
+        {
+          campaignSegment: 'renewals',
+          humanAnswers: 200,
+          abandonedCalls: 5,
+          abandonRate: 0.025,
+        },
+      ],
+      decisions: [],
+    };
+    (getAbandonRateReport as jest.Mock).mockResolvedValueOnce(report);
+
+    const res = await exec(route(), {
+      query: { campaignSegment: 'renewals' },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual(report);
+    expect(getAbandonRateReport).toHaveBeenCalledWith(
+      expect.anything(),
+      'ws-test-001',
+      expect.objectContaining({ campaignSegment: 'renewals' }),
+    );
+  });
+
+  it('returns 500 when the report cannot be loaded', async () => {
+    (getAbandonRateReport as jest.Mock).mockRejectedValueOnce(
+      new Error('db down'),
+    );
+
+    const res = await exec(route());
+
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toMatchObject({
+      error: { code: 'ABANDON_RATE_FAILED' },
+    });
+  });
+});
+
+describe('voicemail drop on parallel dials', () => {
+  const route = () => findRoute('POST', '/v1/calls/parallel');
+  const greeting = {
+    id: 'greeting-1',
+    storage_key: 'ws-test-001/voicemail-greetings/1__intro.mp3',
+    mime_type: 'audio/mpeg',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDialer.listNumbers.mockResolvedValue([
+      {
+        phoneNumber: '+15554444444',
+        areaCode: '555',
+        isPrimary: true,
+        isActive: true,
+      },
+    ]);
+    mockDialer.resolveCallerId.mockResolvedValue({
+      callerIdNumber: '+15554444444',
+    });
+    mockDialer.parallel.initiateGroup.mockResolvedValue({
+      groupId: 'pg-test-001',
+      calls: [],
+    });
+    mockLockService.acquireLock.mockResolvedValue(true);
+    mockQueuesQuery.mockResolvedValue({ rows: [] });
+    mockFilesQuery.mockResolvedValue({ rows: [] });
+  });
+
+  it("drops the queue's default greeting with a presigned recording url", async () => {
+    mockQueuesQuery.mockResolvedValueOnce({
+      rows: [{ greeting_id: 'greeting-1' }],
+    });
+    mockFilesQuery.mockResolvedValueOnce({ rows: [greeting] });
+
+    const res = await exec(route(), { body: defaultParallelBody });
+
+    expect(res.statusCode).toBe(201);
+    expect(mockQueuesQuery).toHaveBeenCalledWith(expect.any(String), [
+      'queue-test-001',
+      'ws-test-001',
+    ]);
+    expect(mockFilesQuery).toHaveBeenCalledWith(expect.any(String), [
+      'greeting-1',
+      'ws-test-001',
+      'voicemail-greetings',
+    ]);
+    expect(mockDialer.parallel.initiateGroup).toHaveBeenCalledWith(
+      expect.objectContaining({
+        voicemailDrop: {
+          greetingId: 'greeting-1',
+          recordingUrl:
+            'https://storage.test/ws-test-001/voicemail-greetings/1__intro.mp3?signed=1',
+        },
+      }),
+    );
+  });
+
+  it('lets a per-call greeting override the queue default', async () => {
+    mockFilesQuery.mockResolvedValueOnce({
+      rows: [{ ...greeting, id: 'greeting-2' }],
+    });
+
+    const res = await exec(route(), {
+      body: { ...defaultParallelBody, voicemailGreetingId: 'greeting-2' },
+    });
+
+    expect(res.statusCode).toBe(201);
+    expect(mockQueuesQuery).not.toHaveBeenCalled();
+    expect(mockDialer.parallel.initiateGroup).toHaveBeenCalledWith(
+      expect.objectContaining({
+        voicemailDrop: expect.objectContaining({ greetingId: 'greeting-2' }),
+      }),
+    );
+  });
+
+  it('dials without a drop when the queue has no greeting', async () => {
+    const res = await exec(route(), { body: defaultParallelBody });
+
+    expect(res.statusCode).toBe(201);
+    expect(mockFilesQuery).not.toHaveBeenCalled();
+    expect(
+      mockDialer.parallel.initiateGroup.mock.calls[0][0],
+    ).not.toHaveProperty('voicemailDrop');
+  });
+
+  it('rejects an unknown per-call greeting before locking caller ids', async () => {
+    const res = await exec(route(), {
+      body: { ...defaultParallelBody, voicemailGreetingId: 'missing' },
+    });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({
+      error: {
+        code: 'INVALID_VOICEMAIL_GREETING',
+        message: 'Voicemail greeting not found',
+      },
+    });
+    expect(mockLockService.acquireLock).not.toHaveBeenCalled();
+    expect(mockDialer.parallel.initiateGroup).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /v1/calls/parallel/customer-twiml', () => {
+  const route = () => findRoute('POST', '/v1/calls/parallel/customer-twiml');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDialer.parallel.generateCustomerTwiml.mockResolvedValue(
+      '<?xml version="1.0" encoding="UTF-8"?><Response><Play>https://storage.test/intro.mp3</Play><Hangup /></Response>',
+    );
+  });
+
+  it('records the message-end AMD result before choosing the TwiML', async () => {
+    const res = await exec(route(), {
+      body: {
+        CallSid: 'CA_first',
+        CallStatus: 'in-progress',
+        AnsweredBy: 'machine_end_beep',
+      },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.rawBody).toContain('<Play>');
+    expect(mockDialer.parallel.handleStatusCallback).toHaveBeenCalledWith(
+      'CA_first',
+      'in-progress',
+      'machine_end_beep',
+    );
+    expect(
+      mockDialer.parallel.handleStatusCallback.mock.invocationCallOrder[0],
+    ).toBeLessThan(
+      mockDialer.parallel.generateCustomerTwiml.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('serves TwiML without a callback when no AMD result is attached', async () => {
+    const res = await exec(route(), { body: { CallSid: 'CA_first' } });
+
+    expect(res.statusCode).toBe(200);
+    expect(mockDialer.parallel.handleStatusCallback).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /v1/calls/parallel/status-callback', () => {
+  const route = () => findRoute('POST', '/v1/calls/parallel/status-callback');
+
+  const groupWith = (profileId: string, status: string) => ({
+    groupId: 'pg-test-001',
+    status,
+    profile: { id: profileId },
+    telemetryEmittedAt: '2026-07-23T12:00:00.000Z',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDialer.parallel.getGroupIdForCall.mockResolvedValue('pg-test-001');
+    mockDialer.parallel.getReleasableNumbers.mockReturnValue([]);
+  });
+
+  it('moves a progressive session on when its dial goes unanswered', async () => {
+    mockDialer.parallel.getGroup.mockResolvedValue(
+      groupWith('progressive', 'completed'),
+    );
+
+    const res = await exec(route(), {
+      body: { CallSid: 'CA_first', CallStatus: 'no-answer' },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(mockDialer.progressive.handleGroupUpdate).toHaveBeenCalledWith(
+      'pg-test-001',
+    );
+  });
+
+  it('leaves parallel groups and live progressive calls alone', async () => {
+    mockDialer.parallel.getGroup.mockResolvedValueOnce(
+      groupWith('balanced', 'completed'),
+    );
+    mockDialer.parallel.getGroup.mockResolvedValueOnce(
+      groupWith('progressive', 'connected'),
+    );
+
+    await exec(route(), {
+      body: { CallSid: 'CA_first', CallStatus: 'no-answer' },
+    });
+    await exec(route(), {
+      body: { CallSid: 'CA_first', CallStatus: 'in-progress' },
+    });
+
+    expect(mockDialer.progressive.handleGroupUpdate).not.toHaveBeenCalled();
+  });
+
+  it('still acknowledges the callback when the progressive advance fails', async () => {
+    mockDialer.parallel.getGroup.mockResolvedValue(
+      groupWith('progressive', 'failed'),
+    );
+    mockDialer.progressive.handleGroupUpdate.mockRejectedValueOnce(
+      new Error('queue unavailable'),
+    );
+
+    const res = await exec(route(), {
+      body: { CallSid: 'CA_first', CallStatus: 'failed' },
+    });
+
+    expect(res.statusCode).toBe(200);
+  });
+
+  describe('abandon-rate telemetry', () => {
+    const completedGroup = {
+      ...groupWith('balanced', 'completed'),
+      telemetryEmittedAt: undefined,
+      workspaceId: 'ws-test-001',
+      queueId: 'queue-test-001',
+      campaignSegment: 'renewals',
+    };
+    const telemetry = {
+      winnerRate: 1,
+      wastedLegs: 1,
+      connectLatencyMs: 2400,
+      humanAnswers: 2,
+      abandonedLegs: 1,
+    };
+
+    beforeEach(() => {
+      mockDialer.parallel.computeTelemetry.mockReturnValue(telemetry);
+      mockDialer.parallel.markTelemetryEmittedIfAbsent.mockResolvedValue(true);
+      mockRecordTelemetry.mockResolvedValue(undefined);
+    });
+
+    it('feeds a completed group into the governor once', async () => {
+      mockDialer.parallel.getGroup.mockResolvedValue(completedGroup);
+
+      await exec(route(), {
+        body: { CallSid: 'CA_second', CallStatus: 'completed' },
+      });
+
+      expect(mockRecordTelemetry).toHaveBeenCalledWith(
+        { workspaceId: 'ws-test-001', campaignSegment: 'renewals' },
+        telemetry,
+      );
+    });
+
+    it('waits for completion before counting a connected group', async () => {
+      mockDialer.parallel.getGroup.mockResolvedValue({
+        ...completedGroup,
+        status: 'connected',
+      });
+
+      await exec(route(), {
+        body: { CallSid: 'CA_first', CallStatus: 'in-progress' },
+      });
+
+      expect(
+        mockDialer.parallel.markTelemetryEmittedIfAbsent,
+      ).not.toHaveBeenCalled();
+      expect(mockRecordTelemetry).not.toHaveBeenCalled();
+    });
+
+    it('skips a group another callback already counted', async () => {
+      mockDialer.parallel.getGroup.mockResolvedValue(completedGroup);
+      mockDialer.parallel.markTelemetryEmittedIfAbsent.mockResolvedValue(
+        false,
+      );
+
+      await exec(route(), {
+        body: { CallSid: 'CA_second', CallStatus: 'completed' },
+      });
+
+      expect(mockRecordTelemetry).not.toHaveBeenCalled();
+    });
+
+    it('still acknowledges the callback when recording fails', async () => {
+      mockDialer.parallel.getGroup.mockResolvedValue(completedGroup);
+      mockRecordTelemetry.mockRejectedValueOnce(new Error('db down'));
+
+      const res = await exec(route(), {
+        body: { CallSid: 'CA_second', CallStatus: 'completed' },
+      });
+
+      expect(res.statusCode).toBe(200);
+    });
+  });
 });
@@ -0,0 +1,283 @@
+import type { RouteDefinition } from '../index';
+import type { ApiRequest } from '../../types';
+import {
+  createAuthenticatedRequest,
+  executeHandler,
+} from '../../testing/routeTestHelper';
+
+/* eslint-disable no-var */
+var mockQuery: jest.Mock;
+var mockSettle: jest.Mock;
+/* eslint-enable no-var */
+
+const mockProgressive = {
+  start: jest.fn(),
+  get: jest.fn(),
+  submitDisposition: jest.fn(),
+  pause: jest.fn(),
+  resume: jest.fn(),
+  end: jest.fn(),
+  advance: jest.fn(),
+};
+
+jest.mock('@consuelo/dialer', () => {
+  class TaggedError extends Error {
+    readonly code: string;
+
+    constructor(input: { code: string; message: string }) {
+      super(input.message);
+      this.code = input.code;
+    }
+  }
+  return {
+    MAX_WRAP_UP_SECONDS: 600,
+    DialerNotFoundError: class extends TaggedError {},
+    DialerConflictError: class extends TaggedError {},
+    DialerComplianceError: class extends TaggedError {},
+  };
+});
+
+jest.mock('../../shared/db', () => {
+  mockQuery = jest.fn();
+  return {
+    getSharedPool: jest.fn().mockResolvedValue({ query: mockQuery }),
+  };
+});
+
+jest.mock('../../shared/dialer.js', () => ({
+  getDialerForWorkspace: jest.fn(async () => ({
+    progressive: mockProgressive,
+  })),
+}));
+
+jest.mock('../../services/progressive-dialing.js', () => {
+  mockSettle = jest.fn();
+  return { settleProgressiveTarget: mockSettle };
+});
+
+jest.mock('@sentry/node', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('@consuelo/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+import { DialerConflictError, DialerNotFoundError } from '@consuelo/dialer';
+import { progressiveRoutes } from '../progressive';
+
+const findRoute = (method: string, path: string): RouteDefinition => {
+  const route = progressiveRoutes().find(
+    (entry) => entry.method === method && entry.path === path,
+  );
+  if (route === undefined) {
+    throw new Error(`Route not found: ${method} ${path}`);
+  }
+  return route;
+};
+
+const exec = (route: RouteDefinition, request?: Partial<ApiRequest>) =>
+  executeHandler(route.handler, request);
+
+const session = (overrides: Record<string, unknown> = {}) => ({
+  sessionId: 'session-1',
+  workspaceId: 'ws-test-001',
+  userId: 'user-test-001',
+  queueId: 'queue-1',
+  status: 'dialing',
+  paused: false,
+  wrapUpSeconds: 30,
+  currentGroupId: 'pg-1',
+  currentTarget: {
+    contactId: 'contact-1',
+    phone: '+15551111111',
+    queueItemId: 'item-1',
+  },
+  dialedCount: 1,
+  skippedCount: 0,
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('POST /v1/calls/progressive', () => {
+  const route = () => findRoute('POST', '/v1/calls/progressive');
+
+  it('starts a session on a workspace queue through the parallel callbacks', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ id: 'queue-1' }] });
+    mockProgressive.start.mockResolvedValueOnce(session());
+
+    const res = await exec(route(), {
+      body: { queueId: 'queue-1', wrapUpSeconds: 45 },
+    });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toEqual({ session: session() });
+    expect(mockProgressive.start).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workspaceId: 'ws-test-001',
+        userId: 'user-test-001',
+        queueId: 'queue-1',
+        wrapUpSeconds: 45,
+        statusCallbackUrl: expect.stringContaining(
+          '/v1/calls/parallel/status-callback',
+        ),
+      }),
+    );
+  });
+
+  it('rejects a wrap-up outside the allowed range', async () => {
+    const res = await exec(route(), {
+      body: { queueId: 'queue-1', wrapUpSeconds: 601 },
+    });
+
+    expect(res.statusCode).toBe(400);
+    expect(mockProgressive.start).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for a queue in another workspace', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+
+    const res = await exec(route(), { body: { queueId: 'queue-other' } });
+
+    expect(res.statusCode).toBe(404);
+    expect(mockProgressive.start).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /v1/calls/progressive/:sessionId', () => {
+  const route = () => findRoute('GET', '/v1/calls/progressive/:sessionId');
+
+  it('returns 404 for an unknown session', async () => {
+    mockProgressive.get.mockResolvedValueOnce(null);
+
+    const res = await exec(route(), { params: { sessionId: 'missing' } });
+
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('POST /v1/calls/progressive/:sessionId/disposition', () => {
+  const route = () =>
+    findRoute('POST', '/v1/calls/progressive/:sessionId/disposition');
+
+  it('settles the called queue item before starting wrap-up', async () => {
+    mockProgressive.get.mockResolvedValueOnce(session());
+    mockSettle.mockResolvedValueOnce({ decision: { shouldRetry: true } });
+    mockProgressive.submitDisposition.mockResolvedValueOnce(
+      session({ status: 'wrap-up', currentGroupId: null }),
+    );
+
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { sessionId: 'session-1' },
+        body: { outcome: 'no_answer', callId: 'call-1' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({
+      session: { status: 'wrap-up' },
+      retryScheduled: true,
+    });
+    expect(mockSettle).toHaveBeenCalledWith(expect.anything(), {
+      workspaceId: 'ws-test-001',
+      queueId: 'queue-1',
+      queueItemId: 'item-1',
+      outcome: { outcome: 'no_answer', callId: 'call-1', isHighPriority: false },
+    });
+    expect(mockSettle.mock.invocationCallOrder[0]).toBeLessThan(
+      mockProgressive.submitDisposition.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('requires an outcome', async () => {
+    const res = await exec(route(), {
+      params: { sessionId: 'session-1' },
+      body: {},
+    });
+
+    expect(res.statusCode).toBe(400);
+    expect(mockProgressive.submitDisposition).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when no call is in progress', async () => {
+    mockProgressive.get.mockResolvedValueOnce(
+      session({ status: 'wrap-up', currentGroupId: null }),
+    );
+    mockProgressive.submitDisposition.mockRejectedValueOnce(
+      new DialerConflictError({
+        code: 'PROGRESSIVE_NOT_ON_CALL',
+        message: 'No progressive call is in progress',
+        retryable: false,
+      }),
+    );
+
+    const res = await exec(route(), {
+      params: { sessionId: 'session-1' },
+      body: { outcome: 'answered' },
+    });
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body).toMatchObject({
+      error: { code: 'PROGRESSIVE_NOT_ON_CALL' },
+    });
+    expect(mockSettle).not.toHaveBeenCalled();
+  });
+});
+
+describe('pause, resume and end', () => {
+  it('pauses the session while the rep is away', async () => {
+    mockProgressive.pause.mockResolvedValueOnce(session({ paused: true }));
+
+    const res = await exec(
+      findRoute('POST', '/v1/calls/progressive/:sessionId/pause'),
+      { params: { sessionId: 'session-1' } },
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(mockProgressive.pause).toHaveBeenCalledWith(
+      'session-1',
+      'ws-test-001',
+    );
+  });
+
+  it('maps an unknown session to 404 on resume', async () => {
+    mockProgressive.resume.mockRejectedValueOnce(
+      new DialerNotFoundError({
+        code: 'PROGRESSIVE_SESSION_NOT_FOUND',
+        message: 'Progressive session not found',
+        retryable: false,
+      }),
+    );
+
+    const res = await exec(
+      findRoute('POST', '/v1/calls/progressive/:sessionId/resume'),
+      { params: { sessionId: 'missing' } },
+    );
+
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('ends the session', async () => {
+    mockProgressive.end.mockResolvedValueOnce(
+      session({ status: 'ended', endedReason: 'stopped' }),
+    );
+
+    const res = await exec(
+      findRoute('DELETE', '/v1/calls/progressive/:sessionId'),
+      { params: { sessionId: 'session-1' } },
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ session: { status: 'ended' } });
+  });
+});
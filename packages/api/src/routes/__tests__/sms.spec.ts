@@ -0,0 +1,351 @@
+// SMS route tests
+// Tests per-contact threads, sending through a fake messaging provider, and
+// the signed inbound/status webhooks
+
+import { InMemoryMessagingProvider } from '@consuelo/dialer';
+import type { RouteDefinition } from '../index';
+import type { ApiRequest } from '../../types';
+import {
+  createAuthenticatedRequest,
+  executeHandler,
+} from '../../testing/routeTestHelper';
+
+// ---- module mocks (hoisted by jest) ----
+
+/* eslint-disable no-var */
+var mockQuery: jest.Mock;
+var mockResolveCallerId: jest.Mock;
+var mockValidateTwilioSignature: jest.Mock;
+var mockRecordInboundMessage: jest.Mock;
+/* eslint-enable no-var */
+
+const mockMessaging = new InMemoryMessagingProvider();
+
+jest.mock('../../shared/db', () => {
+  mockQuery = jest.fn();
+  return {
+    getSharedPool: jest.fn().mockResolvedValue({ query: mockQuery }),
+  };
+});
+
+jest.mock('../../shared/dialer', () => {
+  mockResolveCallerId = jest.fn();
+  return {
+    getDialerForWorkspace: jest.fn(async () => ({
+      resolveCallerId: mockResolveCallerId,
+      sendMessage: (options: never) => mockMessaging.sendMessage(options),
+    })),
+  };
+});
+
+jest.mock('../../services/sms', () => {
+  const actual = jest.requireActual('../../services/sms');
+  mockRecordInboundMessage = jest.fn();
+  return { ...actual, recordInboundMessage: mockRecordInboundMessage };
+});
+
+jest.mock('../voice', () => {
+  mockValidateTwilioSignature = jest.fn(async () => true);
+  return { validateTwilioSignature: mockValidateTwilioSignature };
+});
+
+jest.mock('@sentry/node', () => ({
+  captureException: jest.fn(),
+  captureMessage: jest.fn(),
+}));
+
+jest.mock('@consuelo/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+// ---- import after mocks ----
+
+import { smsRoutes } from '../sms';
+
+// ---- helpers ----
+
+type Route = RouteDefinition;
+let routes: Route[];
+
+const findRoute = (method: string, path: string): Route => {
+  const r = routes.find((rt) => rt.method === method && rt.path === path);
+  if (!r) throw new Error(`Route not found: ${method} ${path}`);
+  return r;
+};
+
+const exec = (route: Route, req?: Partial<ApiRequest>) =>
+  executeHandler(route.handler, req);
+
+const twilioReq = (overrides?: Partial<ApiRequest>): Partial<ApiRequest> => ({
+  auth: undefined,
+  method: 'POST',
+  headers: { 'x-twilio-signature': 'valid-sig' },
+  ...overrides,
+});
+
+const errorCode = (body: unknown) =>
+  (body as { error: { code: string } }).error.code;
+
+const contact = (overrides: Record<string, unknown> = {}) => ({
+  rows: [
+    {
+      id: 'contact-1',
+      phone: '+14155550100',
+      sms_opted_out_at: null,
+      ...overrides,
+    },
+  ],
+});
+
+// ---- setup ----
+
+beforeAll(() => {
+  routes = smsRoutes();
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockMessaging.sent.length = 0;
+  process.env.API_BASE_URL = 'https://api.test';
+});
+
+describe('GET /v1/contacts/:id/messages', () => {
+  it('returns the contact thread scoped to the workspace', async () => {
+    const thread = [{ id: 'sms-1', direction: 'inbound', body: 'Hi' }];
+    mockQuery.mockResolvedValueOnce({ rows: thread });
+    const res = await exec(
+      findRoute('GET', '/v1/contacts/:id/messages'),
+      createAuthenticatedRequest({ params: { id: 'contact-1' } }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ messages: thread });
+    expect(mockQuery).toHaveBeenCalledWith(expect.any(String), [
+      'ws-test-001',
+      'contact-1',
+    ]);
+  });
+});
+
+describe('POST /v1/contacts/:id/messages', () => {
+  const route = () => findRoute('POST', '/v1/contacts/:id/messages');
+
+  it('sends from a local-presence number and records it on the call session', async () => {
+    mockQuery
+      .mockResolvedValueOnce(contact())
+      .mockResolvedValueOnce({
+        rows: [{ phone_number: '+14155550999', area_code: '415' }],
+      })
+      .mockResolvedValueOnce({ rows: [{ id: 'sms-1', status: 'queued' }] });
+    mockResolveCallerId.mockResolvedValueOnce({
+      callerIdNumber: '+14155550999',
+      selectionMethod: 'local_presence',
+    });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { id: 'contact-1' },
+        body: { body: ' Following up on our call ', callId: 'call-1' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toEqual({ message: { id: 'sms-1', status: 'queued' } });
+    expect(mockMessaging.sent).toEqual([
+      {
+        to: '+14155550100',
+        from: '+14155550999',
+        body: 'Following up on our call',
+        statusCallbackUrl: 'https://api.test/v1/webhooks/sms-status',
+        messageSid: 'SM-memory-1',
+      },
+    ]);
+    expect(mockQuery).toHaveBeenLastCalledWith(expect.any(String), [
+      'ws-test-001',
+      'contact-1',
+      'call-1',
+      'user-test-001',
+      '+14155550999',
+      '+14155550100',
+      'Following up on our call',
+      'queued',
+      'SM-memory-1',
+    ]);
+  });
+
+  it('sends from the rep caller ID when it is a workspace number', async () => {
+    mockQuery
+      .mockResolvedValueOnce(contact())
+      .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] })
+      .mockResolvedValueOnce({ rows: [{ id: 'sms-1' }] });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { id: 'contact-1' },
+        body: { body: 'Hi', from: '+15550000001' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(201);
+    expect(mockMessaging.sent[0]?.from).toBe('+15550000001');
+    expect(mockResolveCallerId).not.toHaveBeenCalled();
+  });
+
+  it('rejects a sender the workspace does not own', async () => {
+    mockQuery
+      .mockResolvedValueOnce(contact())
+      .mockResolvedValueOnce({ rows: [] });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { id: 'contact-1' },
+        body: { body: 'Hi', from: '+15550009999' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_SENDER');
+    expect(mockMessaging.sent).toHaveLength(0);
+  });
+
+  it('refuses to text a contact who replied STOP', async () => {
+    mockQuery.mockResolvedValueOnce(
+      contact({ sms_opted_out_at: '2026-01-01T00:00:00Z' }),
+    );
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { id: 'contact-1' },
+        body: { body: 'Hi' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(409);
+    expect(errorCode(res.body)).toBe('CONTACT_OPTED_OUT');
+    expect(mockMessaging.sent).toHaveLength(0);
+  });
+
+  it('returns 502 without recording when the provider rejects the send', async () => {
+    mockMessaging.failNext('Carrier violation');
+    mockQuery
+      .mockResolvedValueOnce(contact())
+      .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { id: 'contact-1' },
+        body: { body: 'Hi', from: '+15550000001' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(502);
+    expect(errorCode(res.body)).toBe('SMS_SEND_FAILED');
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects empty bodies', async () => {
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { id: 'contact-1' },
+        body: { body: '   ' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_MESSAGE');
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for contacts outside the workspace', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    const res = await exec(
+      route(),
+      createAuthenticatedRequest({
+        params: { id: 'contact-other' },
+        body: { body: 'Hi' },
+      }),
+    );
+
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('POST /v1/webhooks/sms', () => {
+  const route = () => findRoute('POST', '/v1/webhooks/sms');
+
+  it('stores the inbound text and answers with empty TwiML', async () => {
+    mockRecordInboundMessage.mockResolvedValueOnce({
+      workspaceId: 'ws-1',
+      contactId: 'contact-1',
+      keyword: 'opt_out',
+      duplicate: false,
+    });
+    const res = await exec(
+      route(),
+      twilioReq({
+        body: {
+          MessageSid: 'SM-in-1',
+          From: '+14155550100',
+          To: '+15550000001',
+          Body: 'STOP',
+        },
+      }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.contentType).toBe('text/xml');
+    expect(res.rawBody).toContain('<Response></Response>');
+    expect(mockRecordInboundMessage).toHaveBeenCalledWith(
+      { query: mockQuery },
+      {
+        messageSid: 'SM-in-1',
+        from: '+14155550100',
+        to: '+15550000001',
+        body: 'STOP',
+      },
+    );
+  });
+
+  it('refuses unsigned requests before storing anything', async () => {
+    mockValidateTwilioSignature.mockImplementationOnce(async (_req, res) => {
+      res.status(401).json({ error: { code: 'UNAUTHORIZED' } });
+      return false;
+    });
+    const res = await exec(route(), twilioReq({ body: {} }));
+
+    expect(res.statusCode).toBe(401);
+    expect(mockRecordInboundMessage).not.toHaveBeenCalled();
+  });
+
+  it('rejects payloads without a message sid', async () => {
+    const res = await exec(
+      route(),
+      twilioReq({ body: { From: '+14155550100', To: '+15550000001' } }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_REQUEST');
+  });
+});
+
+describe('POST /v1/webhooks/sms-status', () => {
+  it('updates the delivery status by provider message sid', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    const res = await exec(
+      findRoute('POST', '/v1/webhooks/sms-status'),
+      twilioReq({ body: { MessageSid: 'SM-1', MessageStatus: 'delivered' } }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(mockQuery).toHaveBeenCalledWith(expect.any(String), [
+      'delivered',
+      'SM-1',
+    ]);
+  });
+});
@@ -37,6 +37,7 @@ jest.mock('../../services/redis', () => ({
 const mockDialerInstance = {
   getToken: jest.fn(),
   resolveCallerId: jest.fn(),
+  checkCompliance: jest.fn().mockResolvedValue(null),
   generateConferenceTwiml: jest.fn().mockReturnValue('<Response><Conference>conf</Conference></Response>'),
   addCustomerToConference: jest.fn().mockResolvedValue({ callSid: 'CA-cust-001' }),
   listNumbers: jest.fn().mockResolvedValue([]),
@@ -100,6 +101,18 @@ jest.mock('../../services/workspace-phone-numbers', () => ({
   releaseWorkspacePhoneNumber: jest.fn(),
 }));
 
+jest.mock('../../services/caller-id-reputation', () => ({
+  loadNumberHealth: jest.fn().mockResolvedValue({
+    health: new Map(),
+    reputation: {},
+  }),
+  recordCallerIdOutcome: jest.fn().mockResolvedValue(null),
+}));
+
+jest.mock('../../shared/db', () => ({
+  getSharedPool: jest.fn().mockResolvedValue({ query: jest.fn() }),
+}));
+
 jest.mock('../../services/phone-number-addons', () => ({
   createPhoneNumberAddonCheckout: jest.fn(),
 }));
@@ -135,6 +148,10 @@ import {
   recordProvisionedPhoneNumber,
   releaseWorkspacePhoneNumber,
 } from '../../services/workspace-phone-numbers';
+import {
+  loadNumberHealth,
+  recordCallerIdOutcome,
+} from '../../services/caller-id-reputation';
 import { createPhoneNumberAddonCheckout } from '../../services/phone-number-addons';
 import { recommendPhoneNumbers } from '../../services/phone-number-recommendations';
 
@@ -623,6 +640,31 @@ describe('POST /v1/voice/preflight', () => {
     expect((res.body as { error: { code: string } }).error.code).toBe('INVALID_REQUEST');
   });
 
+  it('returns 403 without a caller ID when the number is on a DNC list', async () => {
+    mockDialer.checkCompliance.mockResolvedValueOnce({
+      phone: '+14155551212',
+      contactId: 'contact-001',
+      reasons: ['WORKSPACE_DNC'],
+      timezone: 'America/Los_Angeles',
+    });
+
+    const res = await exec(
+      route(),
+      authReq({ body: { to: '+14155551212', contactId: 'contact-001' } }),
+    );
+
+    expect(res.statusCode).toBe(403);
+    expect((res.body as { error: { code: string } }).error.code).toBe('WORKSPACE_DNC');
+    expect(mockDialer.checkCompliance).toHaveBeenCalledWith({
+      to: '+14155551212',
+      userId: 'user-test-001',
+      workspaceId: 'ws-test-001',
+      contactId: 'contact-001',
+    });
+    expect(mockDialer.resolveCallerId).not.toHaveBeenCalled();
+    expect(mockLockService.acquireLock).not.toHaveBeenCalled();
+  });
+
   it('returns 409 when caller ID is locked', async () => {
     mockLockService.acquireLock.mockResolvedValueOnce(false);
     const res = await exec(route(), authReq({ body: { callerId: '+15551234567' } }));
@@ -650,6 +692,51 @@ describe('POST /v1/voice/preflight', () => {
     expect(mockLockService.acquireLock).toHaveBeenCalledTimes(2);
   });
 
+  it('passes number health and workspace thresholds into local presence', async () => {
+    const number = {
+      phoneNumber: '+15551234567',
+      areaCode: '555',
+      isPrimary: true,
+      isActive: true,
+    };
+    const health = {
+      attempts: 40,
+      answered: 1,
+      shortHangups: 0,
+      attemptsToday: 12,
+      restedUntil: null,
+    };
+    mockWorkspacePhoneNumbers.listWorkspacePhoneNumbers.mockResolvedValueOnce([
+      number,
+    ]);
+    (loadNumberHealth as jest.Mock).mockResolvedValueOnce({
+      health: new Map([['+15551234567', health]]),
+      reputation: { maxDailyAttempts: 60 },
+    });
+    mockDialer.resolveCallerId.mockResolvedValueOnce({
+      callerIdNumber: '+15551234567',
+      selectionMethod: 'primary_fallback',
+      localMatch: false,
+      proximityMatch: false,
+      isPrimary: true,
+    });
+    mockLockService.acquireLock.mockResolvedValueOnce(true);
+
+    await exec(
+      route(),
+      authReq({ body: { to: '+14155551212', localPresence: true } }),
+    );
+
+    expect(mockDialer.resolveCallerId).toHaveBeenCalledWith(
+      expect.objectContaining({ localPresence: true }),
+      {
+        numbers: [{ ...number, health }],
+        primaryNumber: { ...number, health },
+        reputation: { maxDailyAttempts: 60 },
+      },
+    );
+  });
+
   it('falls back to raw dialer numbers when workspace number hydration fails', async () => {
     mockWorkspacePhoneNumbers.listWorkspacePhoneNumbers.mockRejectedValueOnce(
       new Error('relation \"workspace_phone_numbers\" does not exist'),
@@ -825,6 +912,24 @@ describe('POST /v1/voice/twiml', () => {
     await exec(route(), req);
     expect(mockDialer.addCustomerToConference).not.toHaveBeenCalled();
   });
+
+  it('redirects prospects calling a workspace number to inbound routing', async () => {
+    const req = {
+      auth: undefined,
+      method: 'POST',
+      path: '/v1/voice/twiml',
+      headers: {
+        'x-twilio-signature': 'valid-sig',
+        'x-forwarded-proto': 'https',
+        host: 'api.example.com',
+      },
+      body: { To: '+15551234567', From: '+15559876543', Caller: '+15559876543', CallSid: 'CA-003' },
+    } as Partial<ApiRequest>;
+    const res = await exec(route(), req);
+    expect(res.rawBody).toContain('<Redirect method="POST">/v1/voice/inbound</Redirect>');
+    expect(mockRedis.setConferenceName).not.toHaveBeenCalled();
+    expect(mockDialer.addCustomerToConference).not.toHaveBeenCalled();
+  });
 });
 
 // ============================================================
@@ -1402,6 +1507,60 @@ describe('POST /v1/webhooks/status', () => {
     expect(mockRedis.setCallStatus).toHaveBeenCalledWith('conf-abc123', 'in-progress');
   });
 
+  it('counts finished customer legs toward the caller ID reputation', async () => {
+    const req = {
+      auth: undefined,
+      method: 'POST',
+      path: '/v1/webhooks/status',
+      headers: {
+        'x-twilio-signature': 'valid-sig',
+        'x-forwarded-proto': 'https',
+        host: 'api.example.com',
+      },
+      body: {
+        CallSid: 'CA-cust-001',
+        CallStatus: 'completed',
+        CallDuration: '4',
+        From: '+15551234567',
+        To: '+14155551212',
+      },
+    } as Partial<ApiRequest>;
+    const res = await exec(route(), req);
+
+    expect(res.statusCode).toBe(200);
+    expect(recordCallerIdOutcome).toHaveBeenCalledWith(expect.anything(), {
+      phoneNumber: '+15551234567',
+      callStatus: 'completed',
+      durationSeconds: 4,
+    });
+  });
+
+  it('does not score agent client legs or in-progress updates', async () => {
+    const req = (body: Record<string, string>) =>
+      ({
+        auth: undefined,
+        method: 'POST',
+        path: '/v1/webhooks/status',
+        headers: {
+          'x-twilio-signature': 'valid-sig',
+          'x-forwarded-proto': 'https',
+          host: 'api.example.com',
+        },
+        body,
+      }) as Partial<ApiRequest>;
+
+    await exec(
+      route(),
+      req({ CallSid: 'CA-1', CallStatus: 'completed', From: 'client:user_1' }),
+    );
+    await exec(
+      route(),
+      req({ CallSid: 'CA-2', CallStatus: 'ringing', From: '+15551234567' }),
+    );
+
+    expect(recordCallerIdOutcome).not.toHaveBeenCalled();
+  });
+
   it('returns 401 for missing twilio signature', async () => {
     const req = {
       auth: undefined,
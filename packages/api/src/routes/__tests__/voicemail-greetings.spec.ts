@@ -0,0 +1,184 @@
+// Voicemail greeting route tests
+// Tests 3 routes: POST /v1/voicemail-greetings/upload-url, POST /v1/voicemail-greetings, GET /v1/voicemail-greetings
+
+import type { RouteDefinition } from '../index';
+import type { ApiRequest } from '../../types';
+import {
+  createAuthenticatedRequest,
+  executeHandler,
+} from '../../testing/routeTestHelper';
+
+// ---- module mocks (hoisted by jest) ----
+
+/* eslint-disable no-var */
+var mockQuery: jest.Mock;
+var mockGetUploadUrl: jest.Mock;
+/* eslint-enable no-var */
+
+jest.mock('../../shared/db', () => {
+  mockQuery = jest.fn();
+  return {
+    getFilesPool: jest.fn().mockResolvedValue({ query: mockQuery }),
+  };
+});
+
+jest.mock('../../services/storage', () => {
+  mockGetUploadUrl = jest.fn();
+  return {
+    StorageService: class {
+      getUploadUrl = mockGetUploadUrl;
+    },
+  };
+});
+
+jest.mock('@sentry/node', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('@consuelo/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+// ---- import after mocks ----
+
+import { voicemailGreetingRoutes } from '../voicemail-greetings';
+
+// ---- helpers ----
+
+type Route = RouteDefinition;
+let routes: Route[];
+
+const findRoute = (method: string, path: string): Route => {
+  const r = routes.find((rt) => rt.method === method && rt.path === path);
+  if (!r) throw new Error(`Route not found: ${method} ${path}`);
+  return r;
+};
+
+const exec = (route: Route, req?: Partial<ApiRequest>) =>
+  executeHandler(route.handler, req);
+
+const authReq = (overrides?: Partial<ApiRequest>) =>
+  ({ ...createAuthenticatedRequest(overrides) });
+
+const errorCode = (body: unknown) =>
+  (body as { error: { code: string } }).error.code;
+
+// ---- setup ----
+
+beforeAll(() => {
+  routes = voicemailGreetingRoutes();
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('POST /v1/voicemail-greetings/upload-url', () => {
+  const route = () => findRoute('POST', '/v1/voicemail-greetings/upload-url');
+
+  it('issues an upload url under the workspace greeting folder', async () => {
+    mockGetUploadUrl.mockResolvedValueOnce('https://storage.test/upload');
+    const res = await exec(
+      route(),
+      authReq({
+        body: { name: 'intro greeting.mp3', mimeType: 'audio/mpeg', size: 1024 },
+      }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    const body = res.body as { uploadUrl: string; storageKey: string };
+    expect(body.uploadUrl).toBe('https://storage.test/upload');
+    expect(body.storageKey).toMatch(
+      /^ws-test-001\/voicemail-greetings\/\d+__intro_greeting\.mp3$/,
+    );
+    expect(mockGetUploadUrl).toHaveBeenCalledWith(body.storageKey, 'audio/mpeg');
+  });
+
+  it('rejects formats Twilio cannot play', async () => {
+    const res = await exec(
+      route(),
+      authReq({ body: { name: 'intro.mp4', mimeType: 'video/mp4' } }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_GREETING');
+    expect(mockGetUploadUrl).not.toHaveBeenCalled();
+  });
+
+  it('rejects greetings over the size limit', async () => {
+    const res = await exec(
+      route(),
+      authReq({
+        body: { name: 'long.wav', mimeType: 'audio/wav', size: 6 * 1024 * 1024 },
+      }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_GREETING');
+  });
+});
+
+describe('POST /v1/voicemail-greetings', () => {
+  const route = () => findRoute('POST', '/v1/voicemail-greetings');
+  const body = {
+    name: 'intro.mp3',
+    mimeType: 'audio/mpeg',
+    size: 1024,
+    storageKey: 'ws-test-001/voicemail-greetings/1__intro.mp3',
+  };
+
+  it('registers the uploaded greeting in the greeting folder', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ id: 'greeting-1' }] });
+    const res = await exec(route(), authReq({ body }));
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toEqual({ greeting: { id: 'greeting-1' } });
+    expect(mockQuery).toHaveBeenCalledWith(expect.any(String), [
+      'ws-test-001',
+      'intro.mp3',
+      'audio/mpeg',
+      1024,
+      'ws-test-001/voicemail-greetings/1__intro.mp3',
+      'voicemail-greetings',
+      'user-test-001',
+    ]);
+  });
+
+  it("refuses storage keys outside the workspace's greeting folder", async () => {
+    const res = await exec(
+      route(),
+      authReq({
+        body: {
+          ...body,
+          storageKey: 'ws-other/voicemail-greetings/1__intro.mp3',
+        },
+      }),
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(errorCode(res.body)).toBe('INVALID_GREETING');
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /v1/voicemail-greetings', () => {
+  it('lists only greetings from the workspace greeting folder', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ id: 'greeting-1' }] });
+    const res = await exec(
+      findRoute('GET', '/v1/voicemail-greetings'),
+      authReq(),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ greetings: [{ id: 'greeting-1' }] });
+    expect(mockQuery).toHaveBeenCalledWith(expect.any(String), [
+      'ws-test-001',
+      'voicemail-greetings',
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import * as Sentry from '@sentry/node';
+import {
+  getReputationReport,
+  parseReputationOverrides,
+  saveReputationThresholds,
+  setNumberRest,
+} from '../services/caller-id-reputation.js';
+import { errorHandler } from '../middleware/error-handler.js';
+import { requireAuth } from '../middleware/requireAuth.js';
+import { getSharedPool } from '../shared/db.js';
+import type { RouteDefinition } from './index.js';
+import { createLogger } from '@consuelo/logger';
+const logger = createLogger('api:audit');
+
+const MAX_REST_HOURS = 24 * 30;
+
+// -- SQL constants (parameterized, never template literals) ------------------
+
+const SQL_CALLER_ROLE =
+  'SELECT role FROM workspace_members WHERE workspace_id = $1 AND user_id = $2';
+
+type Pool = Awaited<ReturnType<typeof getSharedPool>>;
+
+// settings and manual rests change how the whole team dials — owner/admin only
+const requireAdmin = async (
+  db: Pool,
+  auth: { userId: string; workspaceId: string },
+  res: Parameters<RouteDefinition['handler']>[1],
+): Promise<boolean> => {
+  const { rows } = await db.query(SQL_CALLER_ROLE, [
+    auth.workspaceId,
+    auth.userId,
+  ]);
+  const role = (rows[0] as { role?: string } | undefined)?.role;
+  if (role === 'owner' || role === 'admin') return true;
+  res.status(403).json({
+    error: { code: 'FORBIDDEN', message: 'Insufficient permissions' },
+  });
+  return false;
+};
+
+const isRate = (value: number | undefined) => value === undefined || value <= 1;
+
+/**
+ * Caller ID reputation routes — per-number health report, workspace
+ * thresholds, and manual rest periods for numbers that look flagged.
+ */
+export const callerIdReputationRoutes = (): RouteDefinition[] => [
+  {
+    method: 'GET',
+    path: '/v1/phone-numbers/reputation',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      try {
+        const db = await getSharedPool();
+        res.status(200).json(await getReputationReport(db, auth.workspaceId));
+      } catch (err: unknown) {
+        Sentry.captureException(err);
+        const message =
+          err instanceof Error ? err.message : 'Failed to load reputation';
+        res.status(500).json({ error: { code: 'DB_ERROR', message } });
+      }
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/v1/phone-numbers/reputation/settings',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const overrides = parseReputationOverrides(req.body ?? {});
+      if (
+        !overrides ||
+        !isRate(overrides.minAnswerRate) ||
+        !isRate(overrides.maxShortHangupRate)
+      ) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_SETTINGS',
+            message: 'Thresholds must be positive numbers and rates at most 1',
+          },
+        });
+        return;
+      }
+
+      const db = await getSharedPool();
+      if (!(await requireAdmin(db, auth, res))) return;
+
+      const thresholds = await saveReputationThresholds(
+        db,
+        auth.workspaceId,
+        overrides,
+      );
+      res.status(200).json({ thresholds });
+      logger.info('caller_id_reputation.settings_updated', {
+        action: 'caller_id_reputation.settings_updated',
+        userId: auth.userId,
+        outcome: 'success',
+      });
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/v1/phone-numbers/:sid/rest',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const { hours = 48 } = (req.body ?? {}) as { hours?: number };
+      if (!Number.isInteger(hours) || hours < 1 || hours > MAX_REST_HOURS) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_REST',
+            message: `hours must be a whole number from 1 to ${MAX_REST_HOURS}`,
+          },
+        });
+        return;
+      }
+
+      const db = await getSharedPool();
+      if (!(await requireAdmin(db, auth, res))) return;
+
+      const rest = await setNumberRest(
+        db,
+        auth.workspaceId,
+        req.params?.sid ?? '',
+        hours,
+      );
+      if (!rest) {
+        res.status(404).json({
+          error: { code: 'NOT_FOUND', message: 'Phone number not found' },
+        });
+        return;
+      }
+      res.status(200).json(rest);
+      logger.info('caller_id_reputation.rested', {
+        action: 'caller_id_reputation.rested',
+        userId: auth.userId,
+        outcome: 'success',
+      });
+    }),
+  },
+  {
+    method: 'DELETE',
+    path: '/v1/phone-numbers/:sid/rest',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const db = await getSharedPool();
+      if (!(await requireAdmin(db, auth, res))) return;
+
+      const rest = await setNumberRest(
+        db,
+        auth.workspaceId,
+        req.params?.sid ?? '',
+        null,
+      );
+      if (!rest) {
+        res.status(404).json({
+          error: { code: 'NOT_FOUND', message: 'Phone number not found' },
+        });
+        return;
+      }
+      res.status(200).json(rest);
+      logger.info('caller_id_reputation.rest_ended', {
+        action: 'caller_id_reputation.rest_ended',
+        userId: auth.userId,
+        outcome: 'success',
+      });
+    }),
+  },
+];
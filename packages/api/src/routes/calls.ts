@@ -42,6 +42,7 @@ interface CallBody {
   to: string;
   from?: string;
   userId?: string;
+  contactId?: string;
   statusCallbackUrl?: string;
 }
 
@@ -55,6 +56,7 @@ interface CallbackBody {
 type Disposition =
   | 'connected'
   | 'voicemail'
+  | 'voicemail_dropped'
   | 'no-answer'
   | 'busy'
   | 'follow-up'
@@ -63,6 +65,7 @@ type Disposition =
 const VALID_DISPOSITIONS: ReadonlySet<string> = new Set<Disposition>([
   'connected',
   'voicemail',
+  'voicemail_dropped',
   'no-answer',
   'busy',
   'follow-up',
@@ -156,9 +159,28 @@ export const callRoutes = (): RouteDefinition[] => {
             to: body.to,
             from: body.from ?? '',
             userId: req.auth?.userId ?? '',
+            workspaceId: req.auth?.workspaceId,
+            contactId: body.contactId,
             statusCallbackUrl: body.statusCallbackUrl,
           });
 
+          if (result.denial) {
+            res.status(403).json({
+              error: {
+                code: result.denial.reasons[0],
+                message: result.error ?? 'Call not permitted',
+                denials: [result.denial],
+              },
+            });
+            (await getCallsLogger()).info('call.compliance_denied', {
+              action: 'call.compliance_denied',
+              userId: req.auth?.userId ?? 'anonymous',
+              reasons: result.denial.reasons,
+              outcome: 'denied',
+            });
+            return;
+          }
+
           if (!result.success) {
             res.status(500).json({
               error: {
@@ -881,7 +903,7 @@ export const callRoutes = (): RouteDefinition[] => {
             error: {
               code: 'INVALID_REQUEST',
               message:
-                'Invalid outcome. Valid: connected, voicemail, no-answer, busy, follow-up, not-interested',
+                'Invalid outcome. Valid: connected, voicemail, voicemail_dropped, no-answer, busy, follow-up, not-interested',
             },
           });
           return;
@@ -66,6 +66,10 @@ interface TranscriptEntry {
   text: string;
   timestamp: number;
   confidence: number;
+  // media-stream offsets of the transcribed chunk, so timing metrics resolve
+  // to the transcription interval rather than the word
+  startMs?: number;
+  endMs?: number;
 }
 
 interface TalkingPoints {
@@ -133,6 +137,8 @@ type RuntimeTranscriptRow = {
 
 const LLM_TIMEOUT_MS = 30_000;
 const TRANSCRIBE_INTERVAL_MS = 3_000;
+// Twilio media frames carry 20ms of audio
+const MEDIA_FRAME_MS = 20;
 const MIN_COACHING_REFRESH_INTERVAL_MS = 5_000;
 const MIN_TRANSCRIPT_WORDS_FOR_COACHING = 8;
 const MIN_NEW_WORDS_FOR_REFRESH = 20;
@@ -1142,6 +1148,10 @@ export const setupCoachingWebSocket = async (
         inbound: [],
         outbound: [],
       };
+      const audioWindows: Record<
+        'inbound' | 'outbound',
+        { startMs: number; endMs: number } | null
+      > = { inbound: null, outbound: null };
 
       const getEntryCounter = (nextCallId: string): number => {
         const current = entryCountersByCall.get(nextCallId) ?? 0;
@@ -1171,6 +1181,8 @@ export const setupCoachingWebSocket = async (
 
         const chunks = buffer.splice(0);
         const combined = Buffer.concat(chunks);
+        const chunkWindow = audioWindows[track];
+        audioWindows[track] = null;
 
         try {
           const groqClient = await getGroqChatClient();
@@ -1204,6 +1216,9 @@ export const setupCoachingWebSocket = async (
             text: transcription.text.trim(),
             timestamp: Date.now(),
             confidence: 0.9,
+            ...(chunkWindow
+              ? { startMs: chunkWindow.startMs, endMs: chunkWindow.endMs }
+              : {}),
           };
           await appendTranscriptEntry(
             currentCallId,
@@ -1295,6 +1310,13 @@ export const setupCoachingWebSocket = async (
             audioBuffers[track].push(
               Buffer.from(payload.media.payload, 'base64'),
             );
+            const frameMs = Number(payload.media.timestamp);
+            if (Number.isFinite(frameMs)) {
+              audioWindows[track] = {
+                startMs: audioWindows[track]?.startMs ?? frameMs,
+                endMs: frameMs + MEDIA_FRAME_MS,
+              };
+            }
           }
         } catch (err: unknown) {
           routeLogger.error('[Coaching] dropped malformed media frame', {
@@ -115,16 +115,20 @@ export const contactRoutes = (): RouteDefinition[] => {
         const body = parsed.data;
 
         const groqApiKey = process.env.GROQ_API_KEY ?? '';
-        const created = await contacts.importDocument(
+        const summary = await contacts.importDocument(
           body.content,
           groqApiKey,
           req.auth?.userId,
         );
-        res.status(200).json({ imported: created.length, contacts: created });
+        res.status(200).json({
+          imported: summary.contacts.length,
+          contacts: summary.contacts,
+          errors: summary.errors,
+        });
         logger.info('contact.imported', {
           action: 'contact.imported',
           userId: req.auth?.userId ?? 'anonymous',
-          count: created.length,
+          count: summary.contacts.length,
           outcome: 'success',
         });
       }),
@@ -0,0 +1,223 @@
+import * as Sentry from '@sentry/node';
+import type { DncListSource } from '@consuelo/dialer';
+import {
+  DNC_LIST_SOURCES,
+  getCompliancePolicy,
+  importDncList,
+  listDncImports,
+  parseCompliancePolicy,
+  removeDncNumber,
+  saveCompliancePolicy,
+} from '../services/dial-compliance.js';
+import { errorHandler } from '../middleware/error-handler.js';
+import { requireAuth } from '../middleware/requireAuth.js';
+import { getSharedPool } from '../shared/db.js';
+import type { RouteDefinition } from './index.js';
+import { createLogger } from '@consuelo/logger';
+const logger = createLogger('api:audit');
+
+// -- SQL constants (parameterized, never template literals) ------------------
+
+const SQL_CALLER_ROLE =
+  'SELECT role FROM workspace_members WHERE workspace_id = $1 AND user_id = $2';
+
+type Pool = Awaited<ReturnType<typeof getSharedPool>>;
+
+// DNC lists and calling hours gate every rep's dials — owner/admin only
+const requireAdmin = async (
+  db: Pool,
+  auth: { userId: string; workspaceId: string },
+  res: Parameters<RouteDefinition['handler']>[1],
+): Promise<boolean> => {
+  const { rows } = await db.query(SQL_CALLER_ROLE, [
+    auth.workspaceId,
+    auth.userId,
+  ]);
+  const role = (rows[0] as { role?: string } | undefined)?.role;
+  if (role === 'owner' || role === 'admin') return true;
+  res.status(403).json({
+    error: { code: 'FORBIDDEN', message: 'Insufficient permissions' },
+  });
+  return false;
+};
+
+const isListSource = (value: unknown): value is DncListSource =>
+  typeof value === 'string' &&
+  DNC_LIST_SOURCES.includes(value as DncListSource);
+
+/**
+ * Dial compliance routes — workspace calling hours, DNC list imports and
+ * removals for the compliance gate every dial passes through.
+ */
+export const dialComplianceRoutes = (): RouteDefinition[] => [
+  {
+    method: 'GET',
+    path: '/v1/compliance/settings',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      try {
+        const db = await getSharedPool();
+        const policy = await getCompliancePolicy(db, auth.workspaceId);
+        res.status(200).json({ policy });
+      } catch (err: unknown) {
+        Sentry.captureException(err);
+        const message =
+          err instanceof Error ? err.message : 'Failed to load settings';
+        res.status(500).json({ error: { code: 'DB_ERROR', message } });
+      }
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/v1/compliance/settings',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const overrides = parseCompliancePolicy(req.body ?? {});
+      if (!overrides) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_SETTINGS',
+            message:
+              'Hours must be whole numbers from 0 to 24 with startHour before endHour, and fallbackTimezone a valid IANA zone',
+          },
+        });
+        return;
+      }
+
+      const db = await getSharedPool();
+      if (!(await requireAdmin(db, auth, res))) return;
+
+      const policy = await saveCompliancePolicy(
+        db,
+        auth.workspaceId,
+        overrides,
+      );
+      res.status(200).json({ policy });
+      logger.info('dial_compliance.settings_updated', {
+        action: 'dial_compliance.settings_updated',
+        userId: auth.userId,
+        outcome: 'success',
+      });
+    }),
+  },
+  {
+    method: 'GET',
+    path: '/v1/compliance/dnc-imports',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      try {
+        const db = await getSharedPool();
+        const imports = await listDncImports(db, auth.workspaceId);
+        res.status(200).json({ imports });
+      } catch (err: unknown) {
+        Sentry.captureException(err);
+        const message =
+          err instanceof Error ? err.message : 'Failed to load imports';
+        res.status(500).json({ error: { code: 'DB_ERROR', message } });
+      }
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/v1/compliance/dnc-imports',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const { list, fileName, content } = (req.body ?? {}) as {
+        list?: unknown;
+        fileName?: unknown;
+        content?: unknown;
+      };
+      if (
+        !isListSource(list) ||
+        typeof content !== 'string' ||
+        !content.trim()
+      ) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_IMPORT',
+            message:
+              'list must be "workspace" or "national" and content the file text',
+          },
+        });
+        return;
+      }
+
+      const db = await getSharedPool();
+      if (!(await requireAdmin(db, auth, res))) return;
+
+      const entry = await importDncList(db, {
+        workspaceId: auth.workspaceId,
+        userId: auth.userId,
+        source: list,
+        fileName: typeof fileName === 'string' ? fileName : null,
+        content,
+      });
+      if (!entry) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_IMPORT',
+            message: 'No phone numbers found in the file',
+          },
+        });
+        return;
+      }
+      res.status(201).json({ import: entry });
+      logger.info('dial_compliance.dnc_imported', {
+        action: 'dial_compliance.dnc_imported',
+        userId: auth.userId,
+        list,
+        added: entry.addedCount,
+        outcome: 'success',
+      });
+    }),
+  },
+  {
+    method: 'DELETE',
+    path: '/v1/compliance/dnc/:phone',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const source = req.query?.list ?? 'workspace';
+      if (!isListSource(source)) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_LIST',
+            message: 'list must be "workspace" or "national"',
+          },
+        });
+        return;
+      }
+
+      const db = await getSharedPool();
+      if (!(await requireAdmin(db, auth, res))) return;
+
+      const removed = await removeDncNumber(db, {
+        workspaceId: auth.workspaceId,
+        source,
+        phone: req.params?.phone ?? '',
+      });
+      if (!removed) {
+        res.status(404).json({
+          error: { code: 'NOT_FOUND', message: 'Number is not on that list' },
+        });
+        return;
+      }
+      res.status(200).json({ deleted: true });
+      logger.info('dial_compliance.dnc_removed', {
+        action: 'dial_compliance.dnc_removed',
+        userId: auth.userId,
+        list: source,
+        outcome: 'success',
+      });
+    }),
+  },
+];
@@ -0,0 +1,469 @@
+import * as Sentry from '@sentry/node';
+import {
+  INBOUND_RING_GROUP_STRATEGIES,
+  buildInboundTwiml,
+  buildWhisperTwiml,
+  getInboundWhisper,
+  recordInboundCall,
+  resolveInboundRoute,
+  shouldRerouteInbound,
+  type InboundRoutingSettings,
+} from '../services/inbound-routing.js';
+import { errorHandler } from '../middleware/error-handler.js';
+import { requireAuth } from '../middleware/requireAuth.js';
+import { getSharedPool } from '../shared/db.js';
+import type { ApiResponse } from '../types.js';
+import type { RouteDefinition } from './index.js';
+import { validateTwilioSignature } from './voice.js';
+import { createLogger } from '@consuelo/logger';
+const logger = createLogger('api:audit');
+
+const MAX_PROMPT_LENGTH = 500;
+const MIN_RING_TIMEOUT_SECONDS = 5;
+const MAX_RING_TIMEOUT_SECONDS = 60;
+
+const HANGUP_TWIML =
+  '<?xml version="1.0" encoding="UTF-8"?><Response><Hangup /></Response>';
+
+const REJECT_TWIML =
+  '<?xml version="1.0" encoding="UTF-8"?><Response><Reject /></Response>';
+
+interface CreateRingGroupBody {
+  name?: string;
+  strategy?: string;
+  memberUserIds?: string[];
+}
+
+// -- SQL constants (parameterized, never template literals) ------------------
+
+const SQL_CALLER_ROLE =
+  'SELECT role FROM workspace_members WHERE workspace_id = $1 AND user_id = $2';
+
+const SQL_GET_SETTINGS =
+  'SELECT inbound_routing FROM workspace_settings WHERE workspace_id = $1';
+
+const SQL_UPSERT_SETTINGS =
+  'INSERT INTO workspace_settings (workspace_id, inbound_routing) VALUES ($1, $2) ON CONFLICT (workspace_id) DO UPDATE SET inbound_routing = $2, updated_at = NOW() RETURNING inbound_routing';
+
+const SQL_LIST_RING_GROUPS =
+  'SELECT id, name, strategy, member_user_ids, created_at, updated_at FROM inbound_ring_groups WHERE workspace_id = $1 ORDER BY created_at';
+
+const SQL_WORKSPACE_MEMBERS =
+  "SELECT user_id::text AS user_id FROM workspace_members WHERE workspace_id = $1 AND status = 'active' AND user_id::text = ANY($2::text[])";
+
+const SQL_CREATE_RING_GROUP =
+  'INSERT INTO inbound_ring_groups (workspace_id, name, strategy, member_user_ids) VALUES ($1, $2, $3, $4) RETURNING id, name, strategy, member_user_ids, created_at, updated_at';
+
+const SQL_DELETE_RING_GROUP =
+  'DELETE FROM inbound_ring_groups WHERE id::text = $1 AND workspace_id = $2 RETURNING id';
+
+const SQL_ASSIGN_RING_GROUP =
+  "UPDATE workspace_phone_numbers SET ring_group_id = $1::uuid, updated_at = NOW() WHERE workspace_id::text = $2 AND twilio_sid = $3 AND status = 'active' AND ($1::uuid IS NULL OR EXISTS (SELECT 1 FROM inbound_ring_groups WHERE id = $1::uuid AND workspace_id = $2)) RETURNING twilio_sid, phone_number, ring_group_id";
+
+type Pool = Awaited<ReturnType<typeof getSharedPool>>;
+
+// greetings and ring groups decide who answers for the whole team — owner/admin only
+const requireAdmin = async (
+  db: Pool,
+  auth: { userId: string; workspaceId: string },
+  res: ApiResponse,
+): Promise<boolean> => {
+  const { rows } = await db.query(SQL_CALLER_ROLE, [
+    auth.workspaceId,
+    auth.userId,
+  ]);
+  const role = (rows[0] as { role?: string } | undefined)?.role;
+  if (role === 'owner' || role === 'admin') return true;
+  res.status(403).json({
+    error: { code: 'FORBIDDEN', message: 'Insufficient permissions' },
+  });
+  return false;
+};
+
+const invalidSettings = (body: InboundRoutingSettings): string | null => {
+  for (const key of ['greeting', 'whisper'] as const) {
+    const value = body[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || value.length > MAX_PROMPT_LENGTH) {
+      return `"${key}" must be text of at most ${MAX_PROMPT_LENGTH} characters`;
+    }
+  }
+  const timeout = body.ringTimeoutSeconds;
+  if (
+    timeout !== undefined &&
+    (!Number.isInteger(timeout) ||
+      timeout < MIN_RING_TIMEOUT_SECONDS ||
+      timeout > MAX_RING_TIMEOUT_SECONDS)
+  ) {
+    return `"ringTimeoutSeconds" must be between ${MIN_RING_TIMEOUT_SECONDS} and ${MAX_RING_TIMEOUT_SECONDS}`;
+  }
+  return null;
+};
+
+const inboundUrls = () => {
+  const baseUrl = process.env.API_BASE_URL ?? '';
+  return {
+    dialStatus: `${baseUrl}/v1/voice/inbound/dial-status`,
+    whisper: `${baseUrl}/v1/voice/inbound/whisper`,
+  };
+};
+
+const sendTwiml = (res: ApiResponse, twiml: string) => {
+  res.type('text/xml').status(200).send(twiml);
+};
+
+const dbError = (res: ApiResponse, err: unknown, fallback: string) => {
+  Sentry.captureException(err);
+  const message = err instanceof Error ? err.message : fallback;
+  res.status(500).json({ error: { code: 'DB_ERROR', message } });
+};
+
+/**
+ * Inbound calling — Twilio webhooks for calls to workspace numbers plus the
+ * /v1/inbound-routing settings that decide who rings.
+ */
+export const inboundRoutes = (): RouteDefinition[] => [
+  {
+    method: 'POST',
+    path: '/v1/voice/inbound',
+    auth: false,
+    handler: errorHandler(async (req, res) => {
+      if (!(await validateTwilioSignature(req, res))) return;
+      const body = req.body as Record<string, string> | undefined;
+      const to = body?.To ?? '';
+      const from = body?.From ?? '';
+
+      try {
+        const db = await getSharedPool();
+        const route = await resolveInboundRoute(db, { to, from });
+        if (!route) {
+          sendTwiml(res, REJECT_TWIML);
+          return;
+        }
+
+        sendTwiml(res, buildInboundTwiml(route, inboundUrls()));
+        logger.info('inbound_call.routed', {
+          action: 'inbound_call.routed',
+          workspaceId: route.workspaceId,
+          source: route.source ?? 'unavailable',
+          ringing: route.userIds.length,
+          outcome: 'success',
+        });
+      } catch (err: unknown) {
+        Sentry.captureException(
+          err instanceof Error ? err : new Error(String(err)),
+          { extra: { context: 'inbound_route', callSid: body?.CallSid } },
+        );
+        const message =
+          err instanceof Error ? err.message : 'Inbound routing failed';
+        res
+          .status(500)
+          .json({ error: { code: 'INBOUND_ROUTING_FAILED', message } });
+      }
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/v1/voice/inbound/whisper',
+    auth: false,
+    handler: errorHandler(async (req, res) => {
+      if (!(await validateTwilioSignature(req, res))) return;
+      const workspaceId = req.query?.workspaceId ?? '';
+
+      try {
+        const db = await getSharedPool();
+        sendTwiml(
+          res,
+          buildWhisperTwiml(
+            workspaceId ? await getInboundWhisper(db, workspaceId) : null,
+          ),
+        );
+      } catch (err: unknown) {
+        // a missing whisper must not keep the rep from the caller
+        Sentry.captureException(err);
+        sendTwiml(res, buildWhisperTwiml(null));
+      }
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/v1/voice/inbound/dial-status',
+    auth: false,
+    handler: errorHandler(async (req, res) => {
+      if (!(await validateTwilioSignature(req, res))) return;
+      const body = req.body as Record<string, string> | undefined;
+      const workspaceId = req.query?.workspaceId;
+      const callSid = body?.CallSid;
+
+      if (!workspaceId || !callSid) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Missing workspaceId or CallSid',
+          },
+        });
+        return;
+      }
+
+      // redirected here without a <Dial> when nobody was available to ring
+      const dialStatus = body?.DialCallStatus ?? 'no-answer';
+      const assigneeId = req.query?.assigneeId;
+      if (assigneeId && shouldRerouteInbound(req.query?.source, dialStatus)) {
+        try {
+          const db = await getSharedPool();
+          const route = await resolveInboundRoute(db, {
+            to: body?.To ?? '',
+            from: body?.From ?? '',
+            skipLastRep: assigneeId,
+          });
+          if (route && route.userIds.length > 0) {
+            // the caller already heard the greeting on the first leg
+            sendTwiml(
+              res,
+              buildInboundTwiml({ ...route, greeting: null }, inboundUrls()),
+            );
+            logger.info('inbound_call.rerouted', {
+              action: 'inbound_call.rerouted',
+              workspaceId,
+              source: route.source ?? 'unavailable',
+              ringing: route.userIds.length,
+              outcome: 'success',
+            });
+            return;
+          }
+        } catch (err: unknown) {
+          // fall through and record the miss rather than drop the caller
+          Sentry.captureException(
+            err instanceof Error ? err : new Error(String(err)),
+            { extra: { context: 'inbound_reroute', callSid, dialStatus } },
+          );
+        }
+      }
+
+      try {
+        const db = await getSharedPool();
+        const recorded = await recordInboundCall(db, {
+          workspaceId,
+          contactId: req.query?.contactId ?? null,
+          assigneeId: req.query?.assigneeId ?? null,
+          callSid,
+          from: body?.From ?? '',
+          to: body?.To ?? '',
+          dialStatus,
+          durationSeconds: Number(body?.DialCallDuration ?? 0) || 0,
+        });
+        logger.info('inbound_call.recorded', {
+          action: 'inbound_call.recorded',
+          workspaceId,
+          missed: recorded.missed,
+          callbackTask: recorded.callbackTaskId !== null,
+          outcome: 'success',
+        });
+      } catch (err: unknown) {
+        Sentry.captureException(
+          err instanceof Error ? err : new Error(String(err)),
+          { extra: { context: 'inbound_dial_status', callSid, dialStatus } },
+        );
+      }
+
+      sendTwiml(res, HANGUP_TWIML);
+    }),
+  },
+
+  // --- settings ---
+
+  {
+    method: 'GET',
+    path: '/v1/inbound-routing',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      try {
+        const db = await getSharedPool();
+        const [settings, ringGroups] = await Promise.all([
+          db.query(SQL_GET_SETTINGS, [auth.workspaceId]),
+          db.query(SQL_LIST_RING_GROUPS, [auth.workspaceId]),
+        ]);
+        res.status(200).json({
+          settings: settings.rows[0]?.inbound_routing ?? {},
+          ringGroups: ringGroups.rows,
+        });
+      } catch (err: unknown) {
+        dbError(res, err, 'Failed to load inbound routing');
+      }
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/v1/inbound-routing/settings',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const body = (req.body ?? {}) as InboundRoutingSettings;
+      const invalid = invalidSettings(body);
+      if (invalid !== null) {
+        res
+          .status(400)
+          .json({ error: { code: 'INVALID_SETTINGS', message: invalid } });
+        return;
+      }
+
+      const settings: InboundRoutingSettings = {
+        greeting: body.greeting,
+        whisper: body.whisper,
+        ringTimeoutSeconds: body.ringTimeoutSeconds,
+      };
+      try {
+        const db = await getSharedPool();
+        if (!(await requireAdmin(db, auth, res))) return;
+        const { rows } = await db.query(SQL_UPSERT_SETTINGS, [
+          auth.workspaceId,
+          JSON.stringify(settings),
+        ]);
+        res.status(200).json({ settings: rows[0]?.inbound_routing ?? {} });
+        logger.info('inbound_routing.settings_updated', {
+          action: 'inbound_routing.settings_updated',
+          userId: auth.userId,
+          outcome: 'success',
+        });
+      } catch (err: unknown) {
+        dbError(res, err, 'Failed to save inbound routing');
+      }
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/v1/inbound-routing/ring-groups',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const body = (req.body ?? {}) as CreateRingGroupBody;
+      const strategy = body.strategy ?? 'simultaneous';
+      const memberUserIds = [...new Set(body.memberUserIds ?? [])];
+      if (
+        !body.name?.trim() ||
+        !INBOUND_RING_GROUP_STRATEGIES.has(strategy) ||
+        memberUserIds.length === 0
+      ) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_RING_GROUP',
+            message:
+              'A ring group needs a name, at least one member and a strategy of simultaneous or round_robin',
+          },
+        });
+        return;
+      }
+
+      try {
+        const db = await getSharedPool();
+        if (!(await requireAdmin(db, auth, res))) return;
+        const members = await db.query(SQL_WORKSPACE_MEMBERS, [
+          auth.workspaceId,
+          memberUserIds,
+        ]);
+        if (members.rows.length !== memberUserIds.length) {
+          res.status(400).json({
+            error: {
+              code: 'INVALID_RING_GROUP',
+              message: 'Every member must be an active workspace member',
+            },
+          });
+          return;
+        }
+
+        const { rows } = await db.query(SQL_CREATE_RING_GROUP, [
+          auth.workspaceId,
+          body.name.trim(),
+          strategy,
+          memberUserIds,
+        ]);
+        res.status(201).json({ ringGroup: rows[0] });
+        logger.info('inbound_routing.ring_group_created', {
+          action: 'inbound_routing.ring_group_created',
+          userId: auth.userId,
+          outcome: 'success',
+        });
+      } catch (err: unknown) {
+        dbError(res, err, 'Failed to create ring group');
+      }
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/v1/inbound-routing/numbers/:sid',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const { ringGroupId } = (req.body ?? {}) as {
+        ringGroupId?: string | null;
+      };
+      if (ringGroupId !== null && typeof ringGroupId !== 'string') {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_REQUEST',
+            message: '"ringGroupId" must be a ring group id or null',
+          },
+        });
+        return;
+      }
+
+      try {
+        const db = await getSharedPool();
+        if (!(await requireAdmin(db, auth, res))) return;
+        const { rows } = await db.query(SQL_ASSIGN_RING_GROUP, [
+          ringGroupId,
+          auth.workspaceId,
+          req.params?.sid,
+        ]);
+        if (rows.length === 0) {
+          res.status(404).json({
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Phone number or ring group not found',
+            },
+          });
+          return;
+        }
+        res.status(200).json({ phoneNumber: rows[0] });
+      } catch (err: unknown) {
+        dbError(res, err, 'Failed to assign ring group');
+      }
+    }),
+  },
+  {
+    method: 'DELETE',
+    path: '/v1/inbound-routing/ring-groups/:id',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      try {
+        const db = await getSharedPool();
+        if (!(await requireAdmin(db, auth, res))) return;
+        const { rows } = await db.query(SQL_DELETE_RING_GROUP, [
+          req.params?.id,
+          auth.workspaceId,
+        ]);
+        if (rows.length === 0) {
+          res.status(404).json({
+            error: { code: 'NOT_FOUND', message: 'Ring group not found' },
+          });
+          return;
+        }
+        res.status(200).json({ deleted: true });
+        logger.info('inbound_routing.ring_group_deleted', {
+          action: 'inbound_routing.ring_group_deleted',
+          userId: auth.userId,
+          outcome: 'success',
+        });
+      } catch (err: unknown) {
+        dbError(res, err, 'Failed to delete ring group');
+      }
+    }),
+  },
+];
@@ -20,6 +20,7 @@ import { knowledgeRoutes } from './knowledge.js';
 import { localPresenceRoutes } from './local-presence.js';
 import { parallelRoutes } from './parallel.js';
 import { preferencesRoutes } from './preferences.js';
+import { progressiveRoutes } from './progressive.js';
 import { queueRoutes } from './queues.js';
 import { voiceRoutes } from './voice.js';
 import { workspaceRoutes } from './workspace.js';
@@ -29,6 +30,11 @@ import { discordAuthRoutes } from './discord-auth.js';
 import { subscriptionRoutes } from './subscription.js';
 import { stripeWebhookRoutes } from './webhooks/stripe.js';
 import { numberPacksRoutes } from './number-packs.js';
+import { voicemailGreetingRoutes } from './voicemail-greetings.js';
+import { inboundRoutes } from './inbound-routing.js';
+import { smsRoutes } from './sms.js';
+import { callerIdReputationRoutes } from './caller-id-reputation.js';
+import { dialComplianceRoutes } from './dial-compliance.js';
 export {
   analyticsRoutes,
   assistantRoutes,
@@ -41,6 +47,7 @@ export {
   localPresenceRoutes,
   parallelRoutes,
   preferencesRoutes,
+  progressiveRoutes,
   queueRoutes,
   voiceRoutes,
   workspaceRoutes,
@@ -49,6 +56,11 @@ export {
   subscriptionRoutes,
   stripeWebhookRoutes,
   numberPacksRoutes,
+  voicemailGreetingRoutes,
+  inboundRoutes,
+  smsRoutes,
+  callerIdReputationRoutes,
+  dialComplianceRoutes,
 };
 export { setupCoachingWebSocket, broadcastTranscript } from './coaching.js';
 
@@ -97,9 +109,15 @@ export const allRoutes = (): RouteDefinition[] => [
   ...knowledgeRoutes(),
   ...localPresenceRoutes(),
   ...parallelRoutes(),
+  ...progressiveRoutes(),
+  ...voicemailGreetingRoutes(),
   ...preferencesRoutes(),
   ...queueRoutes(),
   ...voiceRoutes(),
+  ...inboundRoutes(),
+  ...smsRoutes(),
+  ...callerIdReputationRoutes(),
+  ...dialComplianceRoutes(),
   ...analyticsRoutes(),
   ...workspaceRoutes(),
   ...ghlRoutes(),
@@ -1,4 +1,6 @@
 import {
+  AbandonRateGovernor,
+  DialerComplianceError,
   ParallelStrategyResolver,
   type ParallelDialResult,
   type ParallelGroup,
@@ -15,6 +17,15 @@ import {
   sharedCallerIdLockService,
   getDialerForWorkspace,
 } from '../shared/dialer.js';
+import { getFilesPool, getSharedPool } from '../shared/db.js';
+import { StorageService } from '../services/storage.js';
+import { resolveVoicemailDrop } from '../services/voicemail-greetings.js';
+import {
+  abandonRateConfigFromEnv,
+  createAbandonRateStore,
+  getAbandonRateReport,
+  resolveSafeHarbor,
+} from '../services/abandon-rate.js';
 // lazy-loaded logger (matches other route files)
 let _logger: {
   info: (message: string, meta?: Record<string, unknown>) => void;
@@ -46,9 +57,17 @@ const inMemoryPosteriorStore: PosteriorStore = {
     return;
   },
 };
-const strategyResolver = new ParallelStrategyResolver(inMemoryPosteriorStore, {
-  sample: (alpha, beta) => alpha / (alpha + beta),
-});
+const abandonConfig = abandonRateConfigFromEnv();
+const abandonGovernor = new AbandonRateGovernor(
+  createAbandonRateStore(getSharedPool),
+  abandonConfig,
+);
+const strategyResolver = new ParallelStrategyResolver(
+  inMemoryPosteriorStore,
+  { sample: (alpha, beta) => alpha / (alpha + beta) },
+  abandonGovernor,
+);
+const greetingStorage = new StorageService();
 
 interface ParallelDialBody {
   customerNumbers: string[];
@@ -57,6 +76,8 @@ interface ParallelDialBody {
   profileId?: ProfileKey;
   campaignSegment?: string;
   recentAnswerRate?: number;
+  /** Overrides the queue's default voicemail greeting for this dial */
+  voicemailGreetingId?: string;
 }
 
 const isProfileKey = (value: unknown): value is ProfileKey =>
@@ -140,6 +161,30 @@ export const parallelRoutes = (): RouteDefinition[] => [
           return;
         }
 
+        const voicemailDrop = await resolveVoicemailDrop(
+          { queues: await getSharedPool(), files: await getFilesPool() },
+          greetingStorage,
+          {
+            workspaceId,
+            queueId: body.queueId,
+            greetingId: body.voicemailGreetingId,
+          },
+        );
+        if (body.voicemailGreetingId && !voicemailDrop) {
+          respondWithError(
+            res,
+            400,
+            'INVALID_VOICEMAIL_GREETING',
+            'Voicemail greeting not found',
+            { context: 'parallel_dial_voicemail_greeting' },
+          );
+          return;
+        }
+        const safeHarbor = await resolveSafeHarbor(await getSharedPool(), {
+          workspaceId,
+          queueId: body.queueId,
+        });
+
         const accountNumbers = await dialer.listNumbers();
         const pool: NumberPool = {
           numbers: accountNumbers,
@@ -206,6 +251,8 @@ export const parallelRoutes = (): RouteDefinition[] => [
             customerTwimlUrl: `${baseUrl}/v1/calls/parallel/customer-twiml`,
             profile: strategy.profile,
             campaignSegment: body.campaignSegment,
+            ...(voicemailDrop ? { voicemailDrop } : {}),
+            ...(safeHarbor ? { safeHarbor } : {}),
           });
         } catch (err: unknown) {
           for (const acquiredFromNumber of acquiredFromNumbers) {
@@ -221,8 +268,39 @@ export const parallelRoutes = (): RouteDefinition[] => [
           outcome: 'success',
           profileId: strategy.profile.id,
           strategyReason: strategy.reason,
+          voicemailGreetingId: voicemailDrop?.greetingId ?? null,
         });
+        if (strategy.governor && strategy.governor.action !== 'none') {
+          (await getLogger())?.info('parallel.governor', {
+            action: 'parallel.governor',
+            userId,
+            queueId: body.queueId,
+            campaignSegment: body.campaignSegment ?? null,
+            governorAction: strategy.governor.action,
+            fanoutBefore: strategy.governor.fanoutBefore,
+            fanoutAfter: strategy.governor.fanoutAfter,
+            abandonRate: strategy.governor.abandonRate,
+            unavailable: strategy.governor.unavailable === true,
+          });
+        }
       } catch (err: unknown) {
+        // the whole batch is refused when any leg fails calling hours or DNC
+        if (err instanceof DialerComplianceError) {
+          res.status(403).json({
+            error: {
+              code: err.code,
+              message: err.message,
+              denials: err.denials,
+            },
+          });
+          (await getLogger())?.info('parallel.compliance_denied', {
+            action: 'parallel.compliance_denied',
+            userId,
+            reasons: err.denials.flatMap((denial) => denial.reasons),
+            outcome: 'denied',
+          });
+          return;
+        }
         Sentry.captureException(
           err instanceof Error ? err : new Error(String(err)),
           {
@@ -289,6 +367,7 @@ export const parallelRoutes = (): RouteDefinition[] => [
           ...result,
           profile: strategy.profile,
           strategyReason: strategy.reason,
+          governor: strategy.governor ?? null,
         });
       } catch (err: unknown) {
         Sentry.captureException(
@@ -306,6 +385,48 @@ export const parallelRoutes = (): RouteDefinition[] => [
     }),
   },
 
+  {
+    method: 'GET',
+    path: '/v1/calls/parallel/abandon-rate',
+    handler: errorHandler(async (req, res) => {
+      const workspaceId = req.auth?.workspaceId;
+      if (!workspaceId) {
+        respondWithError(res, 401, 'UNAUTHORIZED', 'Auth required', {
+          context: 'parallel_abandon_rate_auth',
+        });
+        return;
+      }
+
+      try {
+        const query = req.query ?? {};
+        const report = await getAbandonRateReport(
+          await getSharedPool(),
+          workspaceId,
+          {
+            config: abandonConfig,
+            campaignSegment:
+              typeof query.campaignSegment === 'string'
+                ? query.campaignSegment
+                : undefined,
+          },
+        );
+        res.status(200).json(report);
+      } catch (err: unknown) {
+        Sentry.captureException(
+          err instanceof Error ? err : new Error(String(err)),
+          {
+            extra: { context: 'parallel_abandon_rate' },
+          },
+        );
+        const message =
+          err instanceof Error ? err.message : 'Abandon rate report failed';
+        respondWithError(res, 500, 'ABANDON_RATE_FAILED', message, {
+          context: 'parallel_abandon_rate_response',
+        });
+      }
+    }),
+  },
+
   {
     method: 'POST',
     path: '/v1/calls/parallel/status-callback',
@@ -347,20 +468,57 @@ export const parallelRoutes = (): RouteDefinition[] => [
             for (const num of releasable) {
               await getLockService().releaseLockByNumber(num);
             }
+          }
 
-            if (!group.telemetryEmittedAt) {
-              const telemetry =
-                getLegacyDialer().parallel.computeTelemetry(group);
-              (await getLogger())?.info('parallel.telemetry', {
-                action: 'parallel.telemetry',
-                groupId,
-                queueId: group.queueId,
-                profileId: group.profile.id,
-                winnerRate: telemetry.winnerRate,
-                wastedLegs: telemetry.wastedLegs,
-                connectLatencyMs: telemetry.connectLatencyMs,
+          // abandons land after the winner connects, so count at completion
+          if (
+            group?.status === 'completed' &&
+            !group.telemetryEmittedAt &&
+            (await getLegacyDialer().parallel.markTelemetryEmittedIfAbsent(
+              groupId,
+            ))
+          ) {
+            const telemetry =
+              getLegacyDialer().parallel.computeTelemetry(group);
+            (await getLogger())?.info('parallel.telemetry', {
+              action: 'parallel.telemetry',
+              groupId,
+              queueId: group.queueId,
+              profileId: group.profile.id,
+              winnerRate: telemetry.winnerRate,
+              wastedLegs: telemetry.wastedLegs,
+              connectLatencyMs: telemetry.connectLatencyMs,
+              humanAnswers: telemetry.humanAnswers,
+              abandonedLegs: telemetry.abandonedLegs,
+            });
+            if (group.profile.id !== 'progressive') {
+              try {
+                await abandonGovernor.recordTelemetry(
+                  {
+                    workspaceId: group.workspaceId,
+                    campaignSegment: group.campaignSegment,
+                  },
+                  telemetry,
+                );
+              } catch (err: unknown) {
+                Sentry.captureException(err, {
+                  extra: { context: 'parallel_abandon_record', groupId },
+                });
+              }
+            }
+          }
+
+          // an unanswered progressive dial moves on to the next contact
+          if (
+            group?.profile.id === 'progressive' &&
+            (group.status === 'completed' || group.status === 'failed')
+          ) {
+            try {
+              await getLegacyDialer().progressive.handleGroupUpdate(groupId);
+            } catch (err: unknown) {
+              Sentry.captureException(err, {
+                extra: { context: 'progressive_group_update', groupId },
               });
-              await getLegacyDialer().parallel.markTelemetryEmitted(groupId);
             }
           }
         }
@@ -399,6 +557,14 @@ export const parallelRoutes = (): RouteDefinition[] => [
       }
 
       try {
+        // synchronous AMD reports the answer (and message end) on this fetch
+        if (body?.AnsweredBy) {
+          await getLegacyDialer().parallel.handleStatusCallback(
+            callSid,
+            body.CallStatus ?? 'in-progress',
+            body.AnsweredBy,
+          );
+        }
         const twiml =
           await getLegacyDialer().parallel.generateCustomerTwiml(callSid);
         if (!twiml) {
@@ -482,6 +648,7 @@ export const parallelRoutes = (): RouteDefinition[] => [
               position: number;
               status: string;
               amdResult?: string;
+              outcome?: string;
               contactId?: string;
             }) => ({
               callSid: c.callSid,
@@ -489,6 +656,7 @@ export const parallelRoutes = (): RouteDefinition[] => [
               position: c.position,
               status: c.status,
               amdResult: c.amdResult,
+              outcome: c.outcome,
               contactId: c.contactId,
             }),
           ),
@@ -0,0 +1,321 @@
+import * as Sentry from '@sentry/node';
+import {
+  DialerComplianceError,
+  DialerConflictError,
+  DialerNotFoundError,
+  MAX_WRAP_UP_SECONDS,
+} from '@consuelo/dialer';
+import { errorHandler } from '../middleware/error-handler.js';
+import { requireAuth } from '../middleware/requireAuth.js';
+import { settleProgressiveTarget } from '../services/progressive-dialing.js';
+import { getSharedPool } from '../shared/db.js';
+import { getDialerForWorkspace } from '../shared/dialer.js';
+import type { ApiResponse } from '../types.js';
+import type { RouteDefinition } from './index.js';
+import { createLogger } from '@consuelo/logger';
+const logger = createLogger('api:audit');
+
+// -- SQL constants (parameterized, never template literals) ------------------
+
+const SQL_GET_QUEUE =
+  'SELECT id FROM call_queues WHERE id = $1 AND workspace_id = $2';
+
+interface StartProgressiveBody {
+  queueId?: unknown;
+  wrapUpSeconds?: unknown;
+  campaignSegment?: unknown;
+}
+
+interface DispositionBody {
+  outcome?: unknown;
+  callId?: unknown;
+  isHighPriority?: unknown;
+  localTimezone?: unknown;
+}
+
+const isWrapUpSeconds = (value: unknown): value is number =>
+  typeof value === 'number' &&
+  Number.isInteger(value) &&
+  value >= 0 &&
+  value <= MAX_WRAP_UP_SECONDS;
+
+// typed dialer failures map to client errors; anything else is a 500
+const respondWithDialerError = (
+  res: ApiResponse,
+  err: unknown,
+  context: string,
+): void => {
+  if (err instanceof DialerNotFoundError) {
+    res.status(404).json({ error: { code: err.code, message: err.message } });
+    return;
+  }
+  if (err instanceof DialerConflictError) {
+    res.status(409).json({ error: { code: err.code, message: err.message } });
+    return;
+  }
+  if (err instanceof DialerComplianceError) {
+    res.status(403).json({
+      error: { code: err.code, message: err.message, denials: err.denials },
+    });
+    return;
+  }
+  Sentry.captureException(err, { extra: { context } });
+  const message = err instanceof Error ? err.message : 'Progressive dial failed';
+  res.status(500).json({ error: { code: 'PROGRESSIVE_FAILED', message } });
+};
+
+/**
+ * Progressive dialing routes — one rep works a queue a call at a time, with
+ * a wrap-up timer after each disposition and a pause while the rep is away.
+ */
+export const progressiveRoutes = (): RouteDefinition[] => [
+  // --- literal routes first (ROUTE_ORDER) ---
+  {
+    method: 'POST',
+    path: '/v1/calls/progressive',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const body = (req.body ?? {}) as StartProgressiveBody;
+      if (
+        typeof body.queueId !== 'string' ||
+        !body.queueId ||
+        (body.wrapUpSeconds !== undefined &&
+          !isWrapUpSeconds(body.wrapUpSeconds))
+      ) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_REQUEST',
+            message: `Requires a queueId; wrapUpSeconds must be a whole number from 0 to ${MAX_WRAP_UP_SECONDS}`,
+          },
+        });
+        return;
+      }
+
+      const db = await getSharedPool();
+      const { rows } = await db.query(SQL_GET_QUEUE, [
+        body.queueId,
+        auth.workspaceId,
+      ]);
+      if (rows.length === 0) {
+        res
+          .status(404)
+          .json({ error: { code: 'NOT_FOUND', message: 'Queue not found' } });
+        return;
+      }
+
+      try {
+        const dialer = await getDialerForWorkspace(auth.workspaceId);
+        const baseUrl = process.env.API_BASE_URL ?? '';
+        const session = await dialer.progressive.start({
+          workspaceId: auth.workspaceId,
+          userId: auth.userId,
+          queueId: body.queueId,
+          ...(isWrapUpSeconds(body.wrapUpSeconds)
+            ? { wrapUpSeconds: body.wrapUpSeconds }
+            : {}),
+          ...(typeof body.campaignSegment === 'string'
+            ? { campaignSegment: body.campaignSegment }
+            : {}),
+          // progressive legs report through the parallel callbacks
+          statusCallbackUrl: `${baseUrl}/v1/calls/parallel/status-callback`,
+          customerTwimlUrl: `${baseUrl}/v1/calls/parallel/customer-twiml`,
+        });
+        res.status(201).json({ session });
+        logger.info('progressive.started', {
+          action: 'progressive.started',
+          userId: auth.userId,
+          sessionId: session.sessionId,
+          wrapUpSeconds: session.wrapUpSeconds,
+          outcome: 'success',
+        });
+      } catch (err: unknown) {
+        respondWithDialerError(res, err, 'progressive_start');
+      }
+    }),
+  },
+  {
+    method: 'GET',
+    path: '/v1/calls/progressive/:sessionId',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      try {
+        const dialer = await getDialerForWorkspace(auth.workspaceId);
+        const session = await dialer.progressive.get(
+          req.params?.sessionId ?? '',
+          auth.workspaceId,
+        );
+        if (!session) {
+          res.status(404).json({
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Progressive session not found',
+            },
+          });
+          return;
+        }
+        res.status(200).json({ session });
+      } catch (err: unknown) {
+        respondWithDialerError(res, err, 'progressive_get');
+      }
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/v1/calls/progressive/:sessionId/disposition',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const body = (req.body ?? {}) as DispositionBody;
+      if (typeof body.outcome !== 'string' || !body.outcome) {
+        res.status(400).json({
+          error: { code: 'INVALID_REQUEST', message: 'Requires an outcome' },
+        });
+        return;
+      }
+
+      const sessionId = req.params?.sessionId ?? '';
+      try {
+        const dialer = await getDialerForWorkspace(auth.workspaceId);
+        const current = await dialer.progressive.get(
+          sessionId,
+          auth.workspaceId,
+        );
+        const queueItemId = current?.currentTarget?.queueItemId;
+        // settle the called item before wrap-up can claim the next one
+        const settled =
+          current?.status === 'dialing' && queueItemId
+            ? await settleProgressiveTarget(await getSharedPool(), {
+                workspaceId: auth.workspaceId,
+                queueId: current.queueId,
+                queueItemId,
+                outcome: {
+                  outcome: body.outcome,
+                  ...(typeof body.callId === 'string'
+                    ? { callId: body.callId }
+                    : {}),
+                  isHighPriority: body.isHighPriority === true,
+                  ...(typeof body.localTimezone === 'string'
+                    ? { localTimezone: body.localTimezone }
+                    : {}),
+                },
+              })
+            : null;
+
+        const session = await dialer.progressive.submitDisposition(
+          sessionId,
+          auth.workspaceId,
+        );
+        res.status(200).json({
+          session,
+          retryScheduled: settled?.decision.shouldRetry ?? false,
+        });
+        logger.info('progressive.disposition', {
+          action: 'progressive.disposition',
+          userId: auth.userId,
+          sessionId,
+          callOutcome: body.outcome,
+          outcome: 'success',
+        });
+      } catch (err: unknown) {
+        respondWithDialerError(res, err, 'progressive_disposition');
+      }
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/v1/calls/progressive/:sessionId/pause',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      try {
+        const dialer = await getDialerForWorkspace(auth.workspaceId);
+        const session = await dialer.progressive.pause(
+          req.params?.sessionId ?? '',
+          auth.workspaceId,
+        );
+        res.status(200).json({ session });
+      } catch (err: unknown) {
+        respondWithDialerError(res, err, 'progressive_pause');
+      }
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/v1/calls/progressive/:sessionId/resume',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      try {
+        const dialer = await getDialerForWorkspace(auth.workspaceId);
+        const session = await dialer.progressive.resume(
+          req.params?.sessionId ?? '',
+          auth.workspaceId,
+        );
+        res.status(200).json({ session });
+      } catch (err: unknown) {
+        respondWithDialerError(res, err, 'progressive_resume');
+      }
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/v1/calls/progressive/:sessionId/advance',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const sessionId = req.params?.sessionId ?? '';
+      try {
+        const dialer = await getDialerForWorkspace(auth.workspaceId);
+        // wrap-up timers live in one process; clients nudge from any other
+        if (!(await dialer.progressive.get(sessionId, auth.workspaceId))) {
+          res.status(404).json({
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Progressive session not found',
+            },
+          });
+          return;
+        }
+        const session = await dialer.progressive.advance(sessionId);
+        res.status(200).json({ session });
+      } catch (err: unknown) {
+        respondWithDialerError(res, err, 'progressive_advance');
+      }
+    }),
+  },
+  {
+    method: 'DELETE',
+    path: '/v1/calls/progressive/:sessionId',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const sessionId = req.params?.sessionId ?? '';
+      try {
+        const dialer = await getDialerForWorkspace(auth.workspaceId);
+        const session = await dialer.progressive.end(
+          sessionId,
+          auth.workspaceId,
+        );
+        res.status(200).json({ session });
+        logger.info('progressive.ended', {
+          action: 'progressive.ended',
+          userId: auth.userId,
+          sessionId,
+          dialed: session.dialedCount,
+          outcome: 'success',
+        });
+      } catch (err: unknown) {
+        respondWithDialerError(res, err, 'progressive_end');
+      }
+    }),
+  },
+];
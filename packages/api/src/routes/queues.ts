@@ -2,7 +2,7 @@ import { errorHandler } from '../middleware/error-handler.js';
 import { requireAuth } from '../middleware/requireAuth.js';
 import type { RouteDefinition } from './index.js';
 import { getSharedPool } from '../shared/db.js';
-import { evaluateRetryPolicy } from '../services/retry-policy.js';
+import { settleQueueItem } from '../services/queue-outcomes.js';
 type Logger = {
   info: (message: string, meta?: Record<string, unknown>) => void;
   error: (message: string, meta?: Record<string, unknown>) => void;
@@ -98,15 +98,6 @@ const SQL_GET_CALLING_ITEM =
 const SQL_NEXT_PENDING =
   'SELECT * FROM queue_items WHERE queue_id = $1 AND status = $2 ORDER BY position ASC LIMIT 1';
 
-const SQL_UPDATE_ITEM_FOR_RETRY =
-  'UPDATE queue_items SET status = $1, call_outcome = $2, retry_strategy = $3, retry_scheduled_at = $4, retry_reason = $5 WHERE id = $6 RETURNING *';
-
-const SQL_UPDATE_ITEM_COMPLETED =
-  'UPDATE queue_items SET status = $1, call_outcome = $2, retry_strategy = $3, retry_scheduled_at = $4, retry_reason = $5 WHERE id = $6 RETURNING *';
-
-const SQL_UPDATE_CALL_RETRY_META =
-  'UPDATE calls SET retry_strategy = $1, retry_scheduled_at = $2, retry_reason = $3, updated_at = NOW() WHERE id = $4';
-
 const SQL_QUEUE_STATS =
   'SELECT status, call_outcome, call_duration_seconds FROM queue_items WHERE queue_id = $1';
 
@@ -185,7 +176,7 @@ const SQL_UPDATE_ITEM_CALLING_AND_LEDGER = `
     RETURNING id, queue_id, contact_id, last_attempt_at
   ),
   queue_context AS (
-    SELECT queue_item_update.contact_id, queue_item_update.last_attempt_at, cq.workspace_id
+    SELECT queue_item_update.contact_id, queue_item_update.last_attempt_at, cq.workspace_id, cq.user_id
     FROM queue_item_update
     JOIN call_queues cq ON cq.id = queue_item_update.queue_id
   )
@@ -193,6 +184,7 @@ const SQL_UPDATE_ITEM_CALLING_AND_LEDGER = `
     workspace_id,
     contact_id,
     last_attempt_at,
+    last_user_id,
     attempts_total,
     attempts_today,
     attempts_this_week,
@@ -204,6 +196,7 @@ const SQL_UPDATE_ITEM_CALLING_AND_LEDGER = `
     queue_context.workspace_id,
     queue_context.contact_id,
     queue_context.last_attempt_at,
+    queue_context.user_id,
     1,
     1,
     1,
@@ -214,6 +207,7 @@ const SQL_UPDATE_ITEM_CALLING_AND_LEDGER = `
   ON CONFLICT (workspace_id, contact_id) DO UPDATE
   SET
     last_attempt_at = EXCLUDED.last_attempt_at,
+    last_user_id = EXCLUDED.last_user_id,
     attempts_total = contact_attempt_ledger.attempts_total + 1,
     attempts_today = CASE
       WHEN contact_attempt_ledger.day_window_start = date_trunc('day', NOW())
@@ -614,87 +608,40 @@ export const queueRoutes = (): RouteDefinition[] => {
           const currentItem = currentItemResult.rows[0] ?? null;
 
           if (currentItem !== null) {
-            const attemptsUsed = Number(currentItem.attempts ?? 0);
             const queueSettings = check.rows[0].settings as
               | Record<string, unknown>
               | null;
-            const attemptCapSetting =
-              queueSettings !== null &&
-              typeof queueSettings.retryAttemptCap === 'number' &&
-              queueSettings.retryAttemptCap > 0
-                ? queueSettings.retryAttemptCap
-                : 2;
-
-            const retryDecision = evaluateRetryPolicy({
-              outcome,
-              isHighPriority: body?.isHighPriority === true,
-              attemptsUsed,
-              attemptCap: attemptCapSetting,
-              localTimezone: body?.localTimezone ?? 'America/New_York',
+            const { decision, item } = await settleQueueItem(client, {
+              queueId: req.params?.id ?? '',
+              settings: queueSettings,
+              item: currentItem,
+              outcome: {
+                outcome,
+                callId: body?.callId,
+                isHighPriority: body?.isHighPriority,
+                localTimezone: body?.localTimezone,
+              },
             });
 
-            if (retryDecision.shouldRetry) {
-              const { rows: retriedRows } = await client.query(
-                SQL_UPDATE_ITEM_FOR_RETRY,
-                [
-                  'pending',
-                  outcome,
-                  retryDecision.retryStrategy,
-                  retryDecision.retryScheduledAt,
-                  retryDecision.retryReason,
-                  currentItem.id,
-                ],
-              );
-
-              if (body?.callId) {
-                await client.query(SQL_UPDATE_CALL_RETRY_META, [
-                  retryDecision.retryStrategy,
-                  retryDecision.retryScheduledAt,
-                  retryDecision.retryReason,
-                  body.callId,
-                ]);
-              }
-
+            if (decision.shouldRetry) {
               await client.query('COMMIT');
               res.status(200).json({
                 retryScheduled: true,
-                retryStrategy: retryDecision.retryStrategy,
-                retryScheduledAt: retryDecision.retryScheduledAt,
-                retryReason: retryDecision.retryReason,
-                currentItem: retriedRows[0] ?? null,
+                retryStrategy: decision.retryStrategy,
+                retryScheduledAt: decision.retryScheduledAt,
+                retryReason: decision.retryReason,
+                currentItem: item,
               });
               (await getLogger()).info('queue.retry_scheduled', {
                 action: 'queue.retry_scheduled',
                 queueId: req.params?.id ?? null,
                 queueItemId: currentItem.id,
                 outcome,
-                retryReason: retryDecision.retryReason,
-                retryScheduledAt: retryDecision.retryScheduledAt,
+                retryReason: decision.retryReason,
+                retryScheduledAt: decision.retryScheduledAt,
               });
               return;
             }
-
-            await client.query(SQL_UPDATE_ITEM_COMPLETED, [
-              'completed',
-              outcome,
-              retryDecision.retryStrategy,
-              retryDecision.retryScheduledAt,
-              retryDecision.retryReason,
-              currentItem.id,
-            ]);
-            await client.query(
-              'UPDATE call_queues SET completed_contacts = completed_contacts + 1, updated_at = NOW() WHERE id = $1',
-              [req.params?.id],
-            );
-
-            if (body?.callId) {
-              await client.query(SQL_UPDATE_CALL_RETRY_META, [
-                retryDecision.retryStrategy,
-                retryDecision.retryScheduledAt,
-                retryDecision.retryReason,
-                body.callId,
-              ]);
-            }
           }
 
           const selection = await selectNextCallableItem(client, req.params?.id ?? '');
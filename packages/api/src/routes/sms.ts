@@ -0,0 +1,264 @@
+import * as Sentry from '@sentry/node';
+import {
+  SMS_MAX_LENGTH,
+  findSmsContact,
+  isWorkspaceNumber,
+  listSenderNumbers,
+  recordInboundMessage,
+  recordOutboundMessage,
+  updateMessageStatus,
+} from '../services/sms.js';
+import { errorHandler } from '../middleware/error-handler.js';
+import { requireAuth } from '../middleware/requireAuth.js';
+import { getSharedPool } from '../shared/db.js';
+import { getDialerForWorkspace } from '../shared/dialer.js';
+import type { RouteDefinition } from './index.js';
+import { validateTwilioSignature } from './voice.js';
+import { createLogger } from '@consuelo/logger';
+const logger = createLogger('api:audit');
+
+const EMPTY_TWIML =
+  '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+interface SendMessageBody {
+  body?: string;
+  from?: string;
+  callId?: string;
+}
+
+// -- SQL constants (parameterized, never template literals) ------------------
+
+const SQL_LIST_THREAD =
+  'SELECT id, contact_id, call_id, user_id, direction, "from", "to", body, status, created_at FROM sms_messages WHERE workspace_id::text = $1 AND contact_id::text = $2 ORDER BY created_at ASC LIMIT 500';
+
+/**
+ * SMS routes — per-contact threads, sending from the rep's caller ID or a
+ * local-presence number, and the signed Twilio inbound and status webhooks.
+ */
+export const smsRoutes = (): RouteDefinition[] => [
+  {
+    method: 'GET',
+    path: '/v1/contacts/:id/messages',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      try {
+        const db = await getSharedPool();
+        const { rows } = await db.query(SQL_LIST_THREAD, [
+          auth.workspaceId,
+          req.params?.id,
+        ]);
+        res.status(200).json({ messages: rows });
+      } catch (err: unknown) {
+        Sentry.captureException(err);
+        const message =
+          err instanceof Error ? err.message : 'Failed to list messages';
+        res.status(500).json({ error: { code: 'DB_ERROR', message } });
+      }
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/v1/contacts/:id/messages',
+    handler: errorHandler(async (req, res) => {
+      const auth = requireAuth(req, res);
+      if (!auth) return;
+
+      const body = (req.body ?? {}) as SendMessageBody;
+      const text = body.body?.trim() ?? '';
+      if (!text || text.length > SMS_MAX_LENGTH) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_MESSAGE',
+            message: `Message body must be 1-${SMS_MAX_LENGTH} characters`,
+          },
+        });
+        return;
+      }
+
+      const db = await getSharedPool();
+      const contact = await findSmsContact(
+        db,
+        auth.workspaceId,
+        req.params?.id ?? '',
+      );
+      if (!contact) {
+        res.status(404).json({
+          error: { code: 'CONTACT_NOT_FOUND', message: 'Contact not found' },
+        });
+        return;
+      }
+      if (!contact.phone) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_MESSAGE',
+            message: 'Contact has no phone number',
+          },
+        });
+        return;
+      }
+      if (contact.sms_opted_out_at) {
+        res.status(409).json({
+          error: {
+            code: 'CONTACT_OPTED_OUT',
+            message: 'Contact replied STOP and has opted out of SMS',
+          },
+        });
+        return;
+      }
+
+      // an explicit sender must be one of the workspace's own numbers
+      if (
+        body.from &&
+        !(await isWorkspaceNumber(db, auth.workspaceId, body.from))
+      ) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_SENDER',
+            message: 'Sender is not an active workspace number',
+          },
+        });
+        return;
+      }
+
+      const dialer = await getDialerForWorkspace(auth.workspaceId);
+      const from =
+        body.from ??
+        (
+          await dialer.resolveCallerId(
+            { to: contact.phone, from: '', localPresence: true },
+            await listSenderNumbers(db, auth.workspaceId),
+          )
+        ).callerIdNumber;
+      if (!from) {
+        res.status(400).json({
+          error: {
+            code: 'NO_CALLER_ID_AVAILABLE',
+            message: 'No workspace number available to send from',
+          },
+        });
+        return;
+      }
+
+      const result = await dialer.sendMessage({
+        to: contact.phone,
+        from,
+        body: text,
+        statusCallbackUrl: process.env.API_BASE_URL
+          ? `${process.env.API_BASE_URL}/v1/webhooks/sms-status`
+          : undefined,
+      });
+      if (!result.success) {
+        Sentry.captureMessage('sms.send_failed', {
+          level: 'warning',
+          extra: { workspaceId: auth.workspaceId, error: result.error },
+        });
+        res.status(502).json({
+          error: {
+            code: 'SMS_SEND_FAILED',
+            message: result.error ?? 'Provider rejected the message',
+          },
+        });
+        return;
+      }
+
+      const message = await recordOutboundMessage(db, {
+        workspaceId: auth.workspaceId,
+        contactId: contact.id,
+        callId: body.callId ?? null,
+        userId: auth.userId,
+        from,
+        to: contact.phone,
+        body: text,
+        status: result.status ?? 'queued',
+        messageSid: result.messageSid ?? null,
+      });
+      res.status(201).json({ message });
+      logger.info('sms.sent', {
+        action: 'sms.sent',
+        userId: auth.userId,
+        outcome: 'success',
+      });
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/v1/webhooks/sms',
+    auth: false,
+    handler: errorHandler(async (req, res) => {
+      if (!(await validateTwilioSignature(req, res))) return;
+      const body = req.body as Record<string, string> | undefined;
+      const messageSid = body?.MessageSid;
+
+      if (!messageSid || !body?.From || !body?.To) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Missing MessageSid, From or To',
+          },
+        });
+        return;
+      }
+
+      try {
+        const db = await getSharedPool();
+        const inbound = await recordInboundMessage(db, {
+          messageSid,
+          from: body.From,
+          to: body.To,
+          body: body.Body ?? '',
+        });
+        if (inbound?.keyword) {
+          logger.info('sms.opt_keyword', {
+            action: `sms.${inbound.keyword}`,
+            workspaceId: inbound.workspaceId,
+            outcome: 'success',
+          });
+        }
+      } catch (err: unknown) {
+        Sentry.captureException(
+          err instanceof Error ? err : new Error(String(err)),
+          { extra: { context: 'sms_inbound', messageSid } },
+        );
+        const message =
+          err instanceof Error ? err.message : 'Failed to store message';
+        res.status(500).json({ error: { code: 'DB_ERROR', message } });
+        return;
+      }
+
+      // carriers send the STOP/START confirmation themselves; no auto-reply
+      res.type('text/xml').status(200).send(EMPTY_TWIML);
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/v1/webhooks/sms-status',
+    auth: false,
+    handler: errorHandler(async (req, res) => {
+      if (!(await validateTwilioSignature(req, res))) return;
+      const body = req.body as Record<string, string> | undefined;
+
+      if (!body?.MessageSid || !body?.MessageStatus) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Missing MessageSid or MessageStatus',
+          },
+        });
+        return;
+      }
+
+      try {
+        const db = await getSharedPool();
+        await updateMessageStatus(db, body.MessageSid, body.MessageStatus);
+        res.status(200).json({ received: true });
+      } catch (err: unknown) {
+        Sentry.captureException(err);
+        const message =
+          err instanceof Error ? err.message : 'Failed to update status';
+        res.status(500).json({ error: { code: 'DB_ERROR', message } });
+      }
+    }),
+  },
+];
@@ -37,6 +37,11 @@ import {
   type WorkspacePhoneNumber,
   type WorkspacePhoneNumberOwnershipType,
 } from '../services/workspace-phone-numbers.js';
+import {
+  loadNumberHealth,
+  recordCallerIdOutcome,
+} from '../services/caller-id-reputation.js';
+import { getSharedPool } from '../shared/db.js';
 type Logger = {
   info: (message: string, meta?: Record<string, unknown>) => void;
   error: (message: string, meta?: Record<string, unknown>) => void;
@@ -180,6 +185,31 @@ const mapPhoneNumberToResponse = (
   return mapRawPhoneNumberToResponse(number as PhoneNumber, primarySid);
 };
 
+// reputation is advisory — missing stats must never block caller ID selection
+const attachNumberHealth = async (
+  workspaceId: string,
+  numbers: WorkspacePhoneNumber[],
+) => {
+  try {
+    const { health, reputation } = await loadNumberHealth(
+      await getSharedPool(),
+      workspaceId,
+    );
+    return {
+      numbers: numbers.map((number) => ({
+        ...number,
+        health: health.get(number.phoneNumber),
+      })),
+      reputation,
+    };
+  } catch (err: unknown) {
+    Sentry.captureException(err, {
+      extra: { context: 'voice.buildWorkspaceNumberPool.health', workspaceId },
+    });
+    return { numbers, reputation: undefined };
+  }
+};
+
 const buildWorkspaceNumberPool = async (
   workspaceId: string,
   options?: { allowRawFallback?: boolean },
@@ -196,10 +226,9 @@ const buildWorkspaceNumberPool = async (
   }
 
   try {
-    const workspaceNumbers = await listWorkspacePhoneNumbers(
+    const { numbers: workspaceNumbers, reputation } = await attachNumberHealth(
       workspaceId,
-      numbers,
-      primarySid,
+      await listWorkspacePhoneNumbers(workspaceId, numbers, primarySid),
     );
 
     return {
@@ -210,6 +239,7 @@ const buildWorkspaceNumberPool = async (
         primaryNumber:
           workspaceNumbers.find((number) => number.isPrimary) ??
           workspaceNumbers[0],
+        reputation,
       },
     };
   } catch (err: unknown) {
@@ -598,8 +628,12 @@ export const voiceRoutes = (): RouteDefinition[] => [
         }
 
         const dialer = await getDialerForWorkspace(workspaceId);
+        // prospects calling the number back go through inbound routing
         const voiceUrl = process.env.API_BASE_URL
-          ? `${process.env.API_BASE_URL}/v1/voice/twiml`
+          ? `${process.env.API_BASE_URL}/v1/voice/inbound`
+          : undefined;
+        const smsUrl = process.env.API_BASE_URL
+          ? `${process.env.API_BASE_URL}/v1/webhooks/sms`
           : undefined;
 
         const result = await dialer.provisionNumber({
@@ -607,6 +641,7 @@ export const voiceRoutes = (): RouteDefinition[] => [
           phoneNumber: body.phoneNumber,
           friendlyName: body.friendlyName,
           voiceUrl,
+          smsUrl,
         });
 
         if (!result.success) {
@@ -872,6 +907,7 @@ export const voiceRoutes = (): RouteDefinition[] => [
             to?: string;
             localPresence?: boolean;
             callSid?: string;
+            contactId?: string;
           }
         | undefined;
       const callerId = body?.callerId;
@@ -914,6 +950,34 @@ export const voiceRoutes = (): RouteDefinition[] => [
       });
 
       try {
+        // browser calls dial straight from the client, so the compliance gate
+        // runs here before a caller ID is handed out
+        if (to) {
+          preflightStage = 'check_compliance';
+          const dialer = await getDialerForWorkspace(workspaceId);
+          const denial = await dialer.checkCompliance({
+            to,
+            userId,
+            workspaceId,
+            contactId: body?.contactId,
+          });
+          if (denial) {
+            preflightLogger.warn('voice.preflight.compliance_denied', {
+              ...preflightLogContext,
+              reasons: denial.reasons,
+              stage: preflightStage,
+            });
+            res.status(403).json({
+              error: {
+                code: denial.reasons[0],
+                message: 'Call not permitted by compliance rules',
+                denials: [denial],
+              },
+            });
+            return;
+          }
+        }
+
         preflightStage = callerId && !localPresence ? 'manual_caller_id' : 'build_number_pool';
         const resolvedCallerId =
           callerId && !localPresence
@@ -1173,6 +1237,19 @@ export const voiceRoutes = (): RouteDefinition[] => [
       const to = body?.To ?? '';
       const from = body?.From ?? '';
       const callSid = body?.CallSid ?? '';
+
+      // numbers provisioned before inbound routing still point here; a PSTN
+      // caller (not a browser client) is a prospect calling back
+      if (body?.Caller && !body.Caller.startsWith('client:')) {
+        res
+          .type('text/xml')
+          .status(200)
+          .send(
+            '<?xml version="1.0" encoding="UTF-8"?><Response><Redirect method="POST">/v1/voice/inbound</Redirect></Response>',
+          );
+        return;
+      }
+
       const conferenceName = `conf-${randomUUID()}`;
 
       try {
@@ -2500,6 +2577,36 @@ export const voiceRoutes = (): RouteDefinition[] => [
         }
       }
 
+      // customer legs count toward the caller ID's reputation
+      const from = body?.From;
+      if (
+        from &&
+        !from.startsWith('client:') &&
+        (FAILURE_STATUSES.has(callStatus) || callStatus === 'completed')
+      ) {
+        try {
+          const outcome = await recordCallerIdOutcome(await getSharedPool(), {
+            phoneNumber: from,
+            callStatus,
+            durationSeconds: Number(body?.CallDuration ?? 0) || 0,
+          });
+          if (outcome?.reputation.flagged) {
+            const logger = await getLogger();
+            logger.warn('caller_id.flagged', {
+              workspaceId: outcome.workspaceId,
+              phoneNumber: from,
+              score: outcome.reputation.score,
+              flags: outcome.reputation.flags,
+              restedUntil: outcome.restedUntil,
+            });
+          }
+        } catch (err: unknown) {
+          Sentry.captureException(err, {
+            extra: { context: 'webhooks.status.caller_id_reputation', callSid },
+          });
+        }
+      }
+
       // Check if this is an agent call ending (check callerIdMap)
       // Release lock on both failure and normal completion
       const callerId = callerIdMap.get(callSid);
@@ -0,0 +1,173 @@
+import * as Sentry from '@sentry/node';
+import { StorageService } from '../services/storage.js';
+import {
+  VOICEMAIL_GREETING_FOLDER,
+  VOICEMAIL_GREETING_MIME_TYPES,
+  voicemailGreetingKeyPrefix,
+} from '../services/voicemail-greetings.js';
+import { errorHandler } from '../middleware/error-handler.js';
+import { requireAuth } from '../middleware/requireAuth.js';
+import { getFilesPool } from '../shared/db.js';
+import type { RouteDefinition } from './index.js';
+import { createLogger } from '@consuelo/logger';
+const logger = createLogger('api:audit');
+
+// Twilio fetches the whole file before playing it; keep greetings short
+const MAX_GREETING_SIZE = 5 * 1024 * 1024;
+
+interface GreetingUploadBody {
+  name?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+interface CreateGreetingBody extends GreetingUploadBody {
+  storageKey?: string;
+}
+
+// -- SQL constants (parameterized, never template literals) ------------------
+
+const SQL_CREATE_GREETING =
+  'INSERT INTO files (workspace_id, name, mime_type, size, storage_key, folder, uploaded_by) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id, name, mime_type, size, created_at';
+
+const SQL_LIST_GREETINGS =
+  'SELECT id, name, mime_type, size, uploaded_by, created_at FROM files WHERE workspace_id = $1 AND folder = $2 ORDER BY created_at DESC';
+
+const invalidGreeting = (body: GreetingUploadBody): string | null => {
+  if (!body.name || !body.mimeType) return 'Missing "name" or "mimeType"';
+  if (!VOICEMAIL_GREETING_MIME_TYPES.has(body.mimeType)) {
+    return 'Greetings must be audio/mpeg or audio/wav';
+  }
+  if (body.size && body.size > MAX_GREETING_SIZE) {
+    return 'Greeting exceeds 5MB limit';
+  }
+  return null;
+};
+
+/**
+ * /v1/voicemail-greetings routes — pre-recorded voicemail drops. Uploads go
+ * straight to storage; greetings are deleted through DELETE /v1/files/:id.
+ */
+export const voicemailGreetingRoutes = (): RouteDefinition[] => {
+  const storage = new StorageService();
+
+  return [
+    // literal routes before param routes (ROUTE_ORDER rule)
+    {
+      method: 'POST',
+      path: '/v1/voicemail-greetings/upload-url',
+      handler: errorHandler(async (req, res) => {
+        const auth = requireAuth(req, res);
+        if (!auth) return;
+
+        const body = (req.body ?? {}) as GreetingUploadBody;
+        const invalid = invalidGreeting(body);
+        if (invalid !== null) {
+          res
+            .status(400)
+            .json({ error: { code: 'INVALID_GREETING', message: invalid } });
+          return;
+        }
+
+        const sanitized = body.name!.replace(/[^a-zA-Z0-9._-]/g, '_');
+        const storageKey = `${voicemailGreetingKeyPrefix(auth.workspaceId)}${Date.now()}__${sanitized}`;
+
+        try {
+          const uploadUrl = await storage.getUploadUrl(
+            storageKey,
+            body.mimeType!,
+          );
+          res.status(200).json({ uploadUrl, storageKey });
+        } catch (err: unknown) {
+          const message =
+            err instanceof Error
+              ? err.message
+              : 'Failed to generate upload URL';
+          res.status(500).json({ error: { code: 'STORAGE_ERROR', message } });
+        }
+      }),
+    },
+    {
+      method: 'POST',
+      path: '/v1/voicemail-greetings',
+      handler: errorHandler(async (req, res) => {
+        const auth = requireAuth(req, res);
+        if (!auth) return;
+
+        const body = (req.body ?? {}) as CreateGreetingBody;
+        const invalid =
+          invalidGreeting(body) ??
+          (!body.size || !body.storageKey
+            ? 'Missing required fields: size, storageKey'
+            : null);
+        if (invalid !== null) {
+          res
+            .status(400)
+            .json({ error: { code: 'INVALID_GREETING', message: invalid } });
+          return;
+        }
+
+        // only keys minted by upload-url for this workspace may be registered
+        if (
+          !body.storageKey!.startsWith(
+            voicemailGreetingKeyPrefix(auth.workspaceId),
+          )
+        ) {
+          res.status(400).json({
+            error: {
+              code: 'INVALID_GREETING',
+              message: 'storageKey was not issued for this workspace',
+            },
+          });
+          return;
+        }
+
+        try {
+          const db = await getFilesPool();
+          const result = await db.query(SQL_CREATE_GREETING, [
+            auth.workspaceId,
+            body.name,
+            body.mimeType,
+            body.size,
+            body.storageKey,
+            VOICEMAIL_GREETING_FOLDER,
+            auth.userId,
+          ]);
+          res.status(201).json({ greeting: result.rows[0] });
+          logger.info('voicemail_greeting.created', {
+            action: 'voicemail_greeting.created',
+            userId: auth.userId,
+            outcome: 'success',
+          });
+        } catch (err: unknown) {
+          Sentry.captureException(err);
+          const message =
+            err instanceof Error ? err.message : 'Failed to create greeting';
+          res.status(500).json({ error: { code: 'DB_ERROR', message } });
+        }
+      }),
+    },
+    {
+      method: 'GET',
+      path: '/v1/voicemail-greetings',
+      handler: errorHandler(async (req, res) => {
+        const auth = requireAuth(req, res);
+        if (!auth) return;
+
+        try {
+          const db = await getFilesPool();
+          const result = await db.query(SQL_LIST_GREETINGS, [
+            auth.workspaceId,
+            VOICEMAIL_GREETING_FOLDER,
+          ]);
+          res.status(200).json({ greetings: result.rows });
+        } catch (err: unknown) {
+          Sentry.captureException(err);
+          const message =
+            err instanceof Error ? err.message : 'Failed to list greetings';
+          res.status(500).json({ error: { code: 'DB_ERROR', message } });
+        }
+      }),
+    },
+  ];
+};
@@ -0,0 +1,167 @@
+import {
+  abandonRateConfigFromEnv,
+  createAbandonRateStore,
+  getAbandonRateReport,
+  resolveSafeHarbor,
+} from './abandon-rate';
+
+type Rows = Record<string, unknown>[];
+
+// answers queries in order
+const createDb = (answers: Rows[]) => {
+  const pending = [...answers];
+  return {
+    query: jest.fn(async (_text: string, _values?: unknown[]) => ({
+      rows: (pending.shift() ?? []) as never[],
+    })),
+  };
+};
+
+describe('abandonRateConfigFromEnv', () => {
+  it('reads the ceiling and window from the environment', () => {
+    expect(
+      abandonRateConfigFromEnv({
+        PARALLEL_ABANDON_CEILING: '0.02',
+        PARALLEL_ABANDON_WINDOW_DAYS: '14',
+      }),
+    ).toEqual({ ceiling: 0.02, windowDays: 14, approachRatio: 0.8 });
+  });
+
+  it('falls back to the defaults for invalid values', () => {
+    expect(
+      abandonRateConfigFromEnv({
+        PARALLEL_ABANDON_CEILING: '3',
+        PARALLEL_ABANDON_WINDOW_DAYS: 'monthly',
+      }),
+    ).toEqual({ ceiling: 0.03, windowDays: 30, approachRatio: 0.8 });
+  });
+});
+
+describe('createAbandonRateStore', () => {
+  it('adds counts to the campaign day, keying no campaign as blank', async () => {
+    const db = createDb([]);
+    const store = createAbandonRateStore(async () => db);
+
+    await store.recordCalls(
+      { workspaceId: 'ws-1' },
+      { humanAnswers: 2, abandonedCalls: 1 },
+      '2026-10-19T15:00:00.000Z',
+    );
+
+    expect(db.query).toHaveBeenCalledWith(
+      expect.stringContaining('ON CONFLICT'),
+      ['ws-1', '', '2026-10-19T15:00:00.000Z', 2, 1],
+    );
+  });
+
+  it('sums the window for one campaign', async () => {
+    const db = createDb([[{ human_answers: 120, abandoned_calls: 3 }]]);
+    const store = createAbandonRateStore(async () => db);
+
+    const window = await store.loadWindow(
+      { workspaceId: 'ws-1', campaignSegment: 'renewals' },
+      '2026-09-19T00:00:00.000Z',
+    );
+
+    expect(window).toEqual({ humanAnswers: 120, abandonedCalls: 3 });
+    expect(db.query.mock.calls[0][1]).toEqual([
+      'ws-1',
+      'renewals',
+      '2026-09-19T00:00:00.000Z',
+    ]);
+  });
+});
+
+describe('getAbandonRateReport', () => {
+  it('reports per-campaign rates and recent decisions', async () => {
+    const db = createDb([
+      [
+        { campaign_segment: '', human_answers: 0, abandoned_calls: 0 },
+        { campaign_segment: 'renewals', human_answers: 100, abandoned_calls: 4 },
+      ],
+      [
+        {
+          id: 'decision-1',
+          campaign_segment: 'renewals',
+          action: 'single-line',
+          profile_id: 'balanced',
+          fanout_before: 3,
+          fanout_after: 1,
+          abandon_rate: '0.04',
+          ceiling: '0.03',
+          human_answers: 100,
+          abandoned_calls: 4,
+          unavailable: false,
+          created_at: '2026-10-18T12:00:00.000Z',
+        },
+      ],
+    ]);
+
+    const report = await getAbandonRateReport(db, 'ws-1', {
+      config: { ceiling: 0.03, windowDays: 30, approachRatio: 0.8 },
+      now: new Date('2026-10-19T00:00:00.000Z'),
+    });
+
+    expect(report.campaigns).toEqual([
+      {
+        campaignSegment: null,
+        humanAnswers: 0,
+        abandonedCalls: 0,
+        abandonRate: null,
+      },
+      {
+        campaignSegment: 'renewals',
+        humanAnswers: 100,
+        abandonedCalls: 4,
+        abandonRate: 0.04,
+      },
+    ]);
+    expect(report.decisions[0]).toMatchObject({
+      action: 'single-line',
+      fanoutAfter: 1,
+      abandonRate: 0.04,
+      ceiling: 0.03,
+    });
+    expect(db.query.mock.calls[0][1]).toEqual([
+      'ws-1',
+      '2026-09-19T00:00:00.000Z',
+      null,
+    ]);
+  });
+});
+
+describe('resolveSafeHarbor', () => {
+  const original = process.env.PARALLEL_SAFE_HARBOR_MESSAGE;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.PARALLEL_SAFE_HARBOR_MESSAGE;
+    else process.env.PARALLEL_SAFE_HARBOR_MESSAGE = original;
+  });
+
+  it("prefers the queue's message", async () => {
+    process.env.PARALLEL_SAFE_HARBOR_MESSAGE = 'Default message.';
+    const db = createDb([[{ message: 'Queue message.' }]]);
+
+    await expect(
+      resolveSafeHarbor(db, { workspaceId: 'ws-1', queueId: 'queue-1' }),
+    ).resolves.toEqual({ text: 'Queue message.' });
+  });
+
+  it('falls back to the environment, then to none', async () => {
+    process.env.PARALLEL_SAFE_HARBOR_MESSAGE = 'Default message.';
+    await expect(
+      resolveSafeHarbor(createDb([[{ message: null }]]), {
+        workspaceId: 'ws-1',
+        queueId: 'queue-1',
+      }),
+    ).resolves.toEqual({ text: 'Default message.' });
+
+    delete process.env.PARALLEL_SAFE_HARBOR_MESSAGE;
+    await expect(
+      resolveSafeHarbor(createDb([[]]), {
+        workspaceId: 'ws-1',
+        queueId: 'queue-1',
+      }),
+    ).resolves.toBeUndefined();
+  });
+});
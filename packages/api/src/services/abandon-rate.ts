@@ -0,0 +1,239 @@
+// Abandon rate — daily live-answer and abandon counts per campaign behind the
+// parallel dialer's governor, its throttling decisions, and the safe-harbor
+// message read to abandoned calls.
+
+import {
+  abandonRate,
+  abandonWindowStart,
+  DEFAULT_ABANDON_RATE_CONFIG,
+  type AbandonRateAction,
+  type AbandonRateGovernorConfig,
+  type AbandonRateStore,
+  type SafeHarborMessage,
+} from '@consuelo/dialer';
+
+type DatabaseClient = {
+  query<TRecord extends Record<string, unknown> = Record<string, unknown>>(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: TRecord[] }>;
+};
+
+type CampaignRow = {
+  campaign_segment: string;
+  human_answers: number;
+  abandoned_calls: number;
+};
+
+type DecisionRow = {
+  id: string;
+  campaign_segment: string;
+  action: Exclude<AbandonRateAction, 'none'>;
+  profile_id: string;
+  fanout_before: number;
+  fanout_after: number;
+  abandon_rate: string | null;
+  ceiling: string;
+  human_answers: number;
+  abandoned_calls: number;
+  unavailable: boolean;
+  created_at: string;
+};
+
+export type CampaignAbandonRate = {
+  campaignSegment: string | null;
+  humanAnswers: number;
+  abandonedCalls: number;
+  abandonRate: number | null;
+};
+
+export type GovernorDecisionReport = {
+  id: string;
+  campaignSegment: string | null;
+  action: Exclude<AbandonRateAction, 'none'>;
+  profileId: string;
+  fanoutBefore: number;
+  fanoutAfter: number;
+  abandonRate: number | null;
+  ceiling: number;
+  humanAnswers: number;
+  abandonedCalls: number;
+  unavailable: boolean;
+  decidedAt: string;
+};
+
+export type AbandonRateReport = {
+  ceiling: number;
+  windowDays: number;
+  campaigns: CampaignAbandonRate[];
+  decisions: GovernorDecisionReport[];
+};
+
+const SQL_RECORD_CALLS =
+  'INSERT INTO parallel_abandon_daily (workspace_id, campaign_segment, day, human_answers, abandoned_calls) VALUES ($1, $2, $3::date, $4, $5) ON CONFLICT (workspace_id, campaign_segment, day) DO UPDATE SET human_answers = parallel_abandon_daily.human_answers + EXCLUDED.human_answers, abandoned_calls = parallel_abandon_daily.abandoned_calls + EXCLUDED.abandoned_calls';
+
+const SQL_LOAD_WINDOW =
+  'SELECT COALESCE(SUM(human_answers), 0)::int AS human_answers, COALESCE(SUM(abandoned_calls), 0)::int AS abandoned_calls FROM parallel_abandon_daily WHERE workspace_id::text = $1 AND campaign_segment = $2 AND day >= $3::date';
+
+const SQL_RECORD_DECISION =
+  'INSERT INTO parallel_governor_decisions (workspace_id, campaign_segment, action, profile_id, fanout_before, fanout_after, abandon_rate, ceiling, window_days, human_answers, abandoned_calls, unavailable, created_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)';
+
+const SQL_LIST_CAMPAIGNS =
+  'SELECT campaign_segment, SUM(human_answers)::int AS human_answers, SUM(abandoned_calls)::int AS abandoned_calls FROM parallel_abandon_daily WHERE workspace_id::text = $1 AND day >= $2::date AND ($3::text IS NULL OR campaign_segment = $3) GROUP BY campaign_segment ORDER BY campaign_segment ASC';
+
+const SQL_LIST_DECISIONS =
+  'SELECT id, campaign_segment, action, profile_id, fanout_before, fanout_after, abandon_rate, ceiling, human_answers, abandoned_calls, unavailable, created_at FROM parallel_governor_decisions WHERE workspace_id::text = $1 AND created_at >= $2 AND ($3::text IS NULL OR campaign_segment = $3) ORDER BY created_at DESC LIMIT 100';
+
+const SQL_GET_QUEUE_SAFE_HARBOR =
+  "SELECT settings->>'safeHarborMessage' AS message FROM call_queues WHERE id = $1 AND workspace_id = $2";
+
+const segmentKey = (campaignSegment: string | undefined | null): string =>
+  campaignSegment ?? '';
+
+const isFraction = (value: number): boolean =>
+  Number.isFinite(value) && value > 0 && value < 1;
+
+/**
+ * Governor settings from PARALLEL_ABANDON_CEILING (a fraction, e.g. 0.03)
+ * and PARALLEL_ABANDON_WINDOW_DAYS; invalid values fall back to the defaults.
+ */
+export const abandonRateConfigFromEnv = (
+  env: Record<string, string | undefined> = process.env,
+): AbandonRateGovernorConfig => {
+  const ceiling = Number(env.PARALLEL_ABANDON_CEILING);
+  const windowDays = Number(env.PARALLEL_ABANDON_WINDOW_DAYS);
+  return {
+    ...DEFAULT_ABANDON_RATE_CONFIG,
+    ...(isFraction(ceiling) ? { ceiling } : {}),
+    ...(Number.isInteger(windowDays) && windowDays > 0 ? { windowDays } : {}),
+  };
+};
+
+/** Postgres-backed store for the dialer's abandon-rate governor */
+export const createAbandonRateStore = (
+  getDb: () => Promise<DatabaseClient>,
+): AbandonRateStore => ({
+  recordCalls: async (scope, counts, occurredAt) => {
+    const db = await getDb();
+    await db.query(SQL_RECORD_CALLS, [
+      scope.workspaceId,
+      segmentKey(scope.campaignSegment),
+      occurredAt,
+      counts.humanAnswers,
+      counts.abandonedCalls,
+    ]);
+  },
+
+  loadWindow: async (scope, since) => {
+    const db = await getDb();
+    const { rows } = await db.query<{
+      human_answers: number;
+      abandoned_calls: number;
+    }>(SQL_LOAD_WINDOW, [
+      scope.workspaceId,
+      segmentKey(scope.campaignSegment),
+      since,
+    ]);
+    return {
+      humanAnswers: rows[0]?.human_answers ?? 0,
+      abandonedCalls: rows[0]?.abandoned_calls ?? 0,
+    };
+  },
+
+  recordDecision: async (decision) => {
+    const db = await getDb();
+    await db.query(SQL_RECORD_DECISION, [
+      decision.workspaceId,
+      segmentKey(decision.campaignSegment),
+      decision.action,
+      decision.profileId,
+      decision.fanoutBefore,
+      decision.fanoutAfter,
+      decision.abandonRate,
+      decision.ceiling,
+      decision.windowDays,
+      decision.humanAnswers,
+      decision.abandonedCalls,
+      decision.unavailable === true,
+      decision.decidedAt,
+    ]);
+  },
+});
+
+/** Per-campaign rates over the governor's window and its recent decisions */
+export const getAbandonRateReport = async (
+  db: DatabaseClient,
+  workspaceId: string,
+  options: {
+    config: AbandonRateGovernorConfig;
+    campaignSegment?: string;
+    now?: Date;
+  },
+): Promise<AbandonRateReport> => {
+  const { config } = options;
+  const since = abandonWindowStart(
+    options.now ?? new Date(),
+    config.windowDays,
+  );
+  const segment =
+    options.campaignSegment === undefined
+      ? null
+      : segmentKey(options.campaignSegment);
+
+  const { rows: campaigns } = await db.query<CampaignRow>(
+    SQL_LIST_CAMPAIGNS,
+    [workspaceId, since, segment],
+  );
+  const { rows: decisions } = await db.query<DecisionRow>(
+    SQL_LIST_DECISIONS,
+    [workspaceId, since, segment],
+  );
+
+  return {
+    ceiling: config.ceiling,
+    windowDays: config.windowDays,
+    campaigns: campaigns.map((row) => ({
+      campaignSegment: row.campaign_segment || null,
+      humanAnswers: row.human_answers,
+      abandonedCalls: row.abandoned_calls,
+      abandonRate: abandonRate({
+        humanAnswers: row.human_answers,
+        abandonedCalls: row.abandoned_calls,
+      }),
+    })),
+    decisions: decisions.map((row) => ({
+      id: row.id,
+      campaignSegment: row.campaign_segment || null,
+      action: row.action,
+      profileId: row.profile_id,
+      fanoutBefore: row.fanout_before,
+      fanoutAfter: row.fanout_after,
+      abandonRate: row.abandon_rate === null ? null : Number(row.abandon_rate),
+      ceiling: Number(row.ceiling),
+      humanAnswers: row.human_answers,
+      abandonedCalls: row.abandoned_calls,
+      unavailable: row.unavailable,
+      decidedAt: new Date(row.created_at).toISOString(),
+    })),
+  };
+};
+
+/**
+ * Message read to calls abandoned on this queue: the queue's
+ * `safeHarborMessage` setting, else PARALLEL_SAFE_HARBOR_MESSAGE.
+ */
+export const resolveSafeHarbor = async (
+  db: DatabaseClient,
+  input: { workspaceId: string; queueId: string },
+): Promise<SafeHarborMessage | undefined> => {
+  const { rows } = await db.query<{ message: string | null }>(
+    SQL_GET_QUEUE_SAFE_HARBOR,
+    [input.queueId, input.workspaceId],
+  );
+  const text = (
+    rows[0]?.message ??
+    process.env.PARALLEL_SAFE_HARBOR_MESSAGE ??
+    ''
+  ).trim();
+  return text ? { text } : undefined;
+};
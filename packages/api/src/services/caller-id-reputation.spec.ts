@@ -0,0 +1,167 @@
+import {
+  getReputationReport,
+  parseReputationOverrides,
+  recordCallerIdOutcome,
+} from './caller-id-reputation';
+
+type Rows = Record<string, unknown>[];
+
+// answers each query by the first table/column fragment it mentions
+const createDb = (answers: Array<[fragment: string, rows: Rows]>) => {
+  const query = jest.fn(async (text: string, _values?: unknown[]) => {
+    const match = answers.find(([fragment]) => text.includes(fragment));
+    return { rows: (match?.[1] ?? []) as never[] };
+  });
+  return { query };
+};
+
+const healthRow = (overrides: Record<string, unknown> = {}) => ({
+  phone_number: '+14155550999',
+  twilio_sid: 'PN-1',
+  rested_until: null,
+  attempts: 50,
+  answered: 12,
+  short_hangups: 1,
+  attempts_today: 20,
+  ...overrides,
+});
+
+const sqlFor = (db: ReturnType<typeof createDb>, fragment: string) =>
+  db.query.mock.calls.find(([text]) => text.includes(fragment));
+
+describe('recordCallerIdOutcome', () => {
+  it('counts a short answered call against the number and keeps it in use', async () => {
+    const db = createDb([
+      [
+        'LEFT JOIN workspace_settings',
+        [{ workspace_id: 'ws-1', thresholds: { shortCallSeconds: 10 } }],
+      ],
+      [
+        'FROM workspace_phone_numbers n LEFT JOIN caller_id_daily_stats',
+        [healthRow()],
+      ],
+      ['UPDATE workspace_phone_numbers', [{ rested_until: null }]],
+    ]);
+
+    const result = await recordCallerIdOutcome(db, {
+      phoneNumber: '+14155550999',
+      callStatus: 'completed',
+      durationSeconds: 8,
+    });
+
+    expect(result).toMatchObject({
+      workspaceId: 'ws-1',
+      reputation: { flagged: false, flags: [] },
+      restedUntil: null,
+    });
+    expect(sqlFor(db, 'INSERT INTO caller_id_daily_stats')?.[1]).toEqual([
+      'ws-1',
+      '+14155550999',
+      1,
+      1,
+    ]);
+  });
+
+  it('starts a rest period once the number looks spam-labelled', async () => {
+    const db = createDb([
+      [
+        'LEFT JOIN workspace_settings',
+        [{ workspace_id: 'ws-1', thresholds: {} }],
+      ],
+      [
+        'FROM workspace_phone_numbers n LEFT JOIN caller_id_daily_stats',
+        [healthRow({ attempts: 80, answered: 2, short_hangups: 0 })],
+      ],
+      [
+        'UPDATE workspace_phone_numbers',
+        [{ rested_until: '2026-03-03T12:00:00.000Z' }],
+      ],
+    ]);
+
+    const result = await recordCallerIdOutcome(db, {
+      phoneNumber: '+14155550999',
+      callStatus: 'no-answer',
+      durationSeconds: 0,
+    });
+
+    expect(result?.reputation.flags).toEqual(['low_answer_rate']);
+    expect(result?.restedUntil).toBe('2026-03-03T12:00:00.000Z');
+    const [, values] = sqlFor(db, 'UPDATE workspace_phone_numbers') ?? [];
+    expect(values).toEqual([
+      result?.reputation.score,
+      ['low_answer_rate'],
+      true,
+      48,
+      'ws-1',
+      '+14155550999',
+    ]);
+    expect(sqlFor(db, 'INSERT INTO caller_id_daily_stats')?.[1]).toEqual([
+      'ws-1',
+      '+14155550999',
+      0,
+      0,
+    ]);
+  });
+
+  it('ignores numbers that are not active workspace numbers', async () => {
+    const db = createDb([]);
+
+    await expect(
+      recordCallerIdOutcome(db, {
+        phoneNumber: '+14155550999',
+        callStatus: 'completed',
+        durationSeconds: 30,
+      }),
+    ).resolves.toBeNull();
+    expect(db.query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getReputationReport', () => {
+  it('scores each number live with the workspace thresholds', async () => {
+    const db = createDb([
+      [
+        'FROM workspace_phone_numbers n',
+        [
+          healthRow(),
+          healthRow({
+            phone_number: '+12125550999',
+            twilio_sid: 'PN-2',
+            rested_until: '2999-01-01T00:00:00.000Z',
+            attempts_today: 0,
+          }),
+        ],
+      ],
+      [
+        'caller_id_reputation AS thresholds',
+        [{ thresholds: { maxDailyAttempts: 20 } }],
+      ],
+    ]);
+
+    const report = await getReputationReport(db, 'ws-1');
+
+    expect(report.thresholds.maxDailyAttempts).toBe(20);
+    expect(report.numbers[0]).toMatchObject({
+      phoneNumber: '+14155550999',
+      sid: 'PN-1',
+      flags: ['daily_limit'],
+      flagged: false,
+      resting: false,
+    });
+    expect(report.numbers[1]).toMatchObject({ sid: 'PN-2', resting: true });
+  });
+});
+
+describe('parseReputationOverrides', () => {
+  it('keeps known positive numbers and drops unknown keys', () => {
+    expect(
+      parseReputationOverrides({ restHours: 24, minAnswerRate: 0.1, foo: 1 }),
+    ).toEqual({ restHours: 24, minAnswerRate: 0.1 });
+  });
+
+  it('rejects non-positive or non-numeric values', () => {
+    expect(parseReputationOverrides({ restHours: 0 })).toBeNull();
+    expect(parseReputationOverrides({ restHours: '24' })).toBeNull();
+    expect(parseReputationOverrides([])).toBeNull();
+  });
+});
@@ -0,0 +1,256 @@
+// Caller ID reputation — per-number daily outcomes feed a score that local
+// presence uses to skip resting numbers and de-prioritize flagged ones.
+
+import {
+  DEFAULT_REPUTATION_THRESHOLDS,
+  isNumberResting,
+  scoreNumberHealth,
+  type NumberHealth,
+  type NumberReputation,
+  type ReputationThresholds,
+} from '@consuelo/dialer';
+
+type DatabaseClient = {
+  query<TRecord extends Record<string, unknown> = Record<string, unknown>>(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: TRecord[] }>;
+};
+
+type NumberHealthRow = {
+  phone_number: string;
+  twilio_sid: string;
+  rested_until: string | null;
+  attempts: number;
+  answered: number;
+  short_hangups: number;
+  attempts_today: number;
+};
+
+export type NumberReputationReport = NumberReputation & {
+  phoneNumber: string;
+  sid: string;
+  health: NumberHealth;
+  resting: boolean;
+};
+
+const THRESHOLD_KEYS = Object.keys(DEFAULT_REPUTATION_THRESHOLDS);
+
+const SQL_FIND_NUMBER =
+  "SELECT n.workspace_id::text AS workspace_id, COALESCE(s.caller_id_reputation, '{}'::jsonb) AS thresholds FROM workspace_phone_numbers n LEFT JOIN workspace_settings s ON s.workspace_id = n.workspace_id::text WHERE n.phone_number = $1 AND n.status = 'active' LIMIT 1";
+
+const SQL_GET_THRESHOLDS =
+  'SELECT caller_id_reputation AS thresholds FROM workspace_settings WHERE workspace_id = $1';
+
+const SQL_RECORD_OUTCOME =
+  'INSERT INTO caller_id_daily_stats (workspace_id, phone_number, day, attempts, answered, short_hangups) VALUES ($1, $2, CURRENT_DATE, 1, $3, $4) ON CONFLICT (workspace_id, phone_number, day) DO UPDATE SET attempts = caller_id_daily_stats.attempts + 1, answered = caller_id_daily_stats.answered + EXCLUDED.answered, short_hangups = caller_id_daily_stats.short_hangups + EXCLUDED.short_hangups';
+
+// 7-day window; stats from before a rest period ends are not held against it
+const SQL_LIST_HEALTH =
+  "SELECT n.phone_number, n.twilio_sid, n.rested_until, COALESCE(SUM(d.attempts) FILTER (WHERE n.rested_until IS NULL OR d.day >= n.rested_until::date), 0)::int AS attempts, COALESCE(SUM(d.answered) FILTER (WHERE n.rested_until IS NULL OR d.day >= n.rested_until::date), 0)::int AS answered, COALESCE(SUM(d.short_hangups) FILTER (WHERE n.rested_until IS NULL OR d.day >= n.rested_until::date), 0)::int AS short_hangups, COALESCE(SUM(d.attempts) FILTER (WHERE d.day = CURRENT_DATE), 0)::int AS attempts_today FROM workspace_phone_numbers n LEFT JOIN caller_id_daily_stats d ON d.workspace_id = n.workspace_id AND d.phone_number = n.phone_number AND d.day >= CURRENT_DATE - 6 WHERE n.workspace_id::text = $1 AND n.status = 'active' AND ($2::text IS NULL OR n.phone_number = $2) GROUP BY n.phone_number, n.twilio_sid, n.rested_until, n.created_at ORDER BY n.created_at ASC";
+
+// a flagged number starts resting unless it is already mid-rest
+const SQL_SAVE_REPUTATION =
+  'UPDATE workspace_phone_numbers SET reputation_score = $1, reputation_flags = $2, rested_until = CASE WHEN $3::boolean AND (rested_until IS NULL OR rested_until <= NOW()) THEN NOW() + make_interval(hours => $4::int) ELSE rested_until END, updated_at = NOW() WHERE workspace_id::text = $5 AND phone_number = $6 RETURNING rested_until';
+
+const SQL_SET_REST =
+  "UPDATE workspace_phone_numbers SET rested_until = NOW() + make_interval(hours => $1::int), updated_at = NOW() WHERE workspace_id::text = $2 AND twilio_sid = $3 AND status = 'active' RETURNING phone_number, rested_until";
+
+// ending a rest now (rather than clearing it) also resets the stats window
+const SQL_END_REST =
+  "UPDATE workspace_phone_numbers SET rested_until = NOW(), updated_at = NOW() WHERE workspace_id::text = $1 AND twilio_sid = $2 AND status = 'active' RETURNING phone_number, rested_until";
+
+const SQL_SAVE_THRESHOLDS =
+  'INSERT INTO workspace_settings (workspace_id, caller_id_reputation) VALUES ($1, $2::jsonb) ON CONFLICT (workspace_id) DO UPDATE SET caller_id_reputation = EXCLUDED.caller_id_reputation, updated_at = NOW() RETURNING caller_id_reputation AS thresholds';
+
+/**
+ * Parses stored or submitted overrides, keeping only known positive numbers.
+ * Returns null when any provided key is not a positive number.
+ */
+export const parseReputationOverrides = (
+  raw: unknown,
+): Partial<ReputationThresholds> | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const overrides: Record<string, number> = {};
+  for (const key of THRESHOLD_KEYS) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      return null;
+    }
+    overrides[key] = value;
+  }
+  return overrides as Partial<ReputationThresholds>;
+};
+
+const resolveThresholds = (raw: unknown): ReputationThresholds => ({
+  ...DEFAULT_REPUTATION_THRESHOLDS,
+  ...parseReputationOverrides(raw),
+});
+
+const toHealth = (row: NumberHealthRow): NumberHealth => ({
+  attempts: row.attempts,
+  answered: row.answered,
+  shortHangups: row.short_hangups,
+  attemptsToday: row.attempts_today,
+  restedUntil: row.rested_until
+    ? new Date(row.rested_until).toISOString()
+    : null,
+});
+
+const listHealthRows = async (
+  db: DatabaseClient,
+  workspaceId: string,
+  phoneNumber: string | null,
+) => {
+  const { rows } = await db.query<NumberHealthRow>(SQL_LIST_HEALTH, [
+    workspaceId,
+    phoneNumber,
+  ]);
+  return rows;
+};
+
+/**
+ * Counts one finished outbound leg against its caller ID, rescores the number
+ * and starts a rest period when it now looks flagged. Returns null when the
+ * number is not an active workspace number.
+ */
+export const recordCallerIdOutcome = async (
+  db: DatabaseClient,
+  input: { phoneNumber: string; callStatus: string; durationSeconds: number },
+): Promise<{
+  workspaceId: string;
+  reputation: NumberReputation;
+  restedUntil: string | null;
+} | null> => {
+  const { rows } = await db.query<{
+    workspace_id: string;
+    thresholds: unknown;
+  }>(SQL_FIND_NUMBER, [input.phoneNumber]);
+  const number = rows[0];
+  if (!number) return null;
+
+  const thresholds = resolveThresholds(number.thresholds);
+  const answered =
+    input.callStatus === 'completed' && input.durationSeconds > 0;
+  const shortHangup =
+    answered && input.durationSeconds < thresholds.shortCallSeconds;
+  await db.query(SQL_RECORD_OUTCOME, [
+    number.workspace_id,
+    input.phoneNumber,
+    answered ? 1 : 0,
+    shortHangup ? 1 : 0,
+  ]);
+
+  const [row] = await listHealthRows(
+    db,
+    number.workspace_id,
+    input.phoneNumber,
+  );
+  const reputation = scoreNumberHealth(
+    row
+      ? toHealth(row)
+      : { attempts: 0, answered: 0, shortHangups: 0, attemptsToday: 0 },
+    thresholds,
+  );
+  const saved = await db.query<{ rested_until: string | null }>(
+    SQL_SAVE_REPUTATION,
+    [
+      reputation.score,
+      reputation.flags,
+      reputation.flagged,
+      Math.round(thresholds.restHours),
+      number.workspace_id,
+      input.phoneNumber,
+    ],
+  );
+  const restedUntil = saved.rows[0]?.rested_until ?? null;
+
+  return {
+    workspaceId: number.workspace_id,
+    reputation,
+    restedUntil: restedUntil ? new Date(restedUntil).toISOString() : null,
+  };
+};
+
+/** Health per phone number plus workspace overrides, for a NumberPool */
+export const loadNumberHealth = async (
+  db: DatabaseClient,
+  workspaceId: string,
+): Promise<{
+  health: Map<string, NumberHealth>;
+  reputation: Partial<ReputationThresholds>;
+}> => {
+  const [rows, settings] = await Promise.all([
+    listHealthRows(db, workspaceId, null),
+    db.query<{ thresholds: unknown }>(SQL_GET_THRESHOLDS, [workspaceId]),
+  ]);
+  return {
+    health: new Map(rows.map((row) => [row.phone_number, toHealth(row)])),
+    reputation: parseReputationOverrides(settings.rows[0]?.thresholds) ?? {},
+  };
+};
+
+/** Admin report: live reputation for every active workspace number */
+export const getReputationReport = async (
+  db: DatabaseClient,
+  workspaceId: string,
+): Promise<{
+  thresholds: ReputationThresholds;
+  numbers: NumberReputationReport[];
+}> => {
+  const [rows, settings] = await Promise.all([
+    listHealthRows(db, workspaceId, null),
+    db.query<{ thresholds: unknown }>(SQL_GET_THRESHOLDS, [workspaceId]),
+  ]);
+  const thresholds = resolveThresholds(settings.rows[0]?.thresholds);
+  const now = new Date();
+
+  return {
+    thresholds,
+    numbers: rows.map((row) => {
+      const numberHealth = toHealth(row);
+      return {
+        phoneNumber: row.phone_number,
+        sid: row.twilio_sid,
+        health: numberHealth,
+        resting: isNumberResting(numberHealth, now),
+        ...scoreNumberHealth(numberHealth, thresholds),
+      };
+    }),
+  };
+};
+
+export const saveReputationThresholds = async (
+  db: DatabaseClient,
+  workspaceId: string,
+  overrides: Partial<ReputationThresholds>,
+): Promise<ReputationThresholds> => {
+  const { rows } = await db.query<{ thresholds: unknown }>(
+    SQL_SAVE_THRESHOLDS,
+    [workspaceId, JSON.stringify(overrides)],
+  );
+  return resolveThresholds(rows[0]?.thresholds);
+};
+
+/** Rests a number for `hours`, or ends its rest when `hours` is null */
+export const setNumberRest = async (
+  db: DatabaseClient,
+  workspaceId: string,
+  sid: string,
+  hours: number | null,
+): Promise<{ phoneNumber: string; restedUntil: string } | null> => {
+  const { rows } = await db.query<{
+    phone_number: string;
+    rested_until: string;
+  }>(
+    hours === null ? SQL_END_REST : SQL_SET_REST,
+    hours === null ? [workspaceId, sid] : [hours, workspaceId, sid],
+  );
+  const row = rows[0];
+  if (!row) return null;
+  return {
+    phoneNumber: row.phone_number,
+    restedUntil: new Date(row.rested_until).toISOString(),
+  };
+};
@@ -0,0 +1,171 @@
+import {
+  createComplianceStore,
+  importDncList,
+  parseCompliancePolicy,
+} from './dial-compliance';
+
+type Rows = Record<string, unknown>[];
+
+// answers each query by the first table/column fragment it mentions
+const createDb = (answers: Array<[fragment: string, rows: Rows]>) => {
+  const query = jest.fn(async (text: string, _values?: unknown[]) => {
+    const match = answers.find(([fragment]) => text.includes(fragment));
+    return { rows: (match?.[1] ?? []) as never[] };
+  });
+  return { query };
+};
+
+const sqlFor = (db: ReturnType<typeof createDb>, fragment: string) =>
+  db.query.mock.calls.find(([text]) => text.includes(fragment));
+
+describe('parseCompliancePolicy', () => {
+  it('keeps valid hours and zones', () => {
+    expect(
+      parseCompliancePolicy({
+        startHour: 9,
+        endHour: 20,
+        fallbackTimezone: 'America/Chicago',
+      }),
+    ).toEqual({ startHour: 9, endHour: 20, fallbackTimezone: 'America/Chicago' });
+  });
+
+  it('rejects empty windows, fractional hours and unknown zones', () => {
+    expect(parseCompliancePolicy({ startHour: 21 })).toBeNull();
+    expect(parseCompliancePolicy({ endHour: 20.5 })).toBeNull();
+    expect(parseCompliancePolicy({ fallbackTimezone: 'Mars/Base' })).toBeNull();
+  });
+});
+
+describe('createComplianceStore', () => {
+  it('fills the stored policy over the 8am-9pm default', async () => {
+    const db = createDb([
+      ['FROM workspace_settings', [{ policy: { endHour: 20 } }]],
+    ]);
+    const store = createComplianceStore(async () => db);
+
+    await expect(store.getPolicy('ws-1')).resolves.toEqual({
+      callingWindow: { startHour: 8, endHour: 20 },
+      fallbackTimezone: null,
+    });
+  });
+
+  it('looks up listings by E.164 and answers with the numbers given', async () => {
+    const db = createDb([
+      [
+        'FROM dnc_numbers',
+        [
+          { phone_number: '+14155550100', list_source: 'workspace' },
+          { phone_number: '+14155550100', list_source: 'national' },
+        ],
+      ],
+    ]);
+    const store = createComplianceStore(async () => db);
+
+    const listings = await store.findDncListings('ws-1', [
+      '(415) 555-0100',
+      '+12125550100',
+    ]);
+
+    expect(sqlFor(db, 'FROM dnc_numbers')?.[1]).toEqual([
+      'ws-1',
+      ['+14155550100', '+12125550100'],
+    ]);
+    expect([...listings]).toEqual([
+      ['(415) 555-0100', ['workspace', 'national']],
+    ]);
+  });
+
+  it('suppresses blocked contacts by id or by number', async () => {
+    const db = createDb([
+      [
+        'FROM contacts',
+        [
+          { id: 'contact-1', phone: null },
+          { id: 'contact-9', phone: '4155550199' },
+        ],
+      ],
+    ]);
+    const store = createComplianceStore(async () => db);
+
+    const suppressed = await store.findSuppressedPhones('ws-1', [
+      { phone: '+12125550100', contactId: 'contact-1' },
+      { phone: '+14155550199' },
+      { phone: '+13105550100', contactId: 'contact-2' },
+    ]);
+
+    expect([...suppressed]).toEqual(['+12125550100', '+14155550199']);
+  });
+
+  it('skips lookups for calls made outside a workspace', async () => {
+    const db = createDb([]);
+    const store = createComplianceStore(async () => db);
+
+    await store.findDncListings('', ['+14155550100']);
+    await store.findSuppressedPhones('', [{ phone: '+14155550100' }]);
+
+    expect(db.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('importDncList', () => {
+  it('records the import and counts only newly listed numbers', async () => {
+    const db = createDb([
+      ['INSERT INTO dnc_imports', [{ id: 'import-1' }]],
+      ['INSERT INTO dnc_numbers', [{ added: 1 }]],
+      [
+        'UPDATE dnc_imports',
+        [
+          {
+            id: 'import-1',
+            list_source: 'national',
+            file_name: 'registry.txt',
+            parsed_count: 2,
+            added_count: 1,
+            imported_by: 'user-1',
+            created_at: '2026-03-16T17:30:00.000Z',
+          },
+        ],
+      ],
+    ]);
+
+    const entry = await importDncList(db, {
+      workspaceId: 'ws-1',
+      userId: 'user-1',
+      source: 'national',
+      fileName: 'registry.txt',
+      content: '415,5550100\n212,5550100\n',
+    });
+
+    expect(sqlFor(db, 'INSERT INTO dnc_numbers')?.[1]).toEqual([
+      'ws-1',
+      'national',
+      ['+14155550100', '+12125550100'],
+      'import-1',
+    ]);
+    expect(sqlFor(db, 'UPDATE dnc_imports')?.[1]).toEqual([1, 'import-1']);
+    expect(entry).toEqual({
+      id: 'import-1',
+      listSource: 'national',
+      fileName: 'registry.txt',
+      parsedCount: 2,
+      addedCount: 1,
+      importedBy: 'user-1',
+      createdAt: '2026-03-16T17:30:00.000Z',
+    });
+  });
+
+  it('records nothing when the file has no numbers', async () => {
+    const db = createDb([]);
+
+    await expect(
+      importDncList(db, {
+        workspaceId: 'ws-1',
+        userId: 'user-1',
+        source: 'workspace',
+        fileName: null,
+        content: 'name,email\nAda,ada@example.com\n',
+      }),
+    ).resolves.toBeNull();
+    expect(db.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,316 @@
+// Dial compliance — contact-local calling hours, imported DNC lists and
+// per-contact suppression, backing the dialer's compliance gate.
+
+import {
+  DEFAULT_CALLING_WINDOW,
+  DEFAULT_COMPLIANCE_POLICY,
+  normalizeDialNumber,
+  parseDncFile,
+  type CompliancePolicy,
+  type ComplianceStore,
+  type ComplianceTarget,
+  type DncListSource,
+} from '@consuelo/dialer';
+
+type DatabaseClient = {
+  query<TRecord extends Record<string, unknown> = Record<string, unknown>>(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: TRecord[] }>;
+};
+
+export type CompliancePolicyOverrides = {
+  startHour?: number;
+  endHour?: number;
+  fallbackTimezone?: string | null;
+};
+
+export type DncImport = {
+  id: string;
+  listSource: DncListSource;
+  fileName: string | null;
+  parsedCount: number;
+  addedCount: number;
+  importedBy: string | null;
+  createdAt: string;
+};
+
+type DncImportRow = {
+  id: string;
+  list_source: DncListSource;
+  file_name: string | null;
+  parsed_count: number;
+  added_count: number;
+  imported_by: string | null;
+  created_at: string;
+};
+
+export const DNC_LIST_SOURCES: readonly DncListSource[] = [
+  'workspace',
+  'national',
+];
+
+// keeps each insert's text[] parameter well under the bind size limit
+const IMPORT_CHUNK_SIZE = 5_000;
+
+// matches the statuses queue selection already skips
+const SQL_FIND_SUPPRESSED =
+  "SELECT id::text AS id, phone FROM contacts WHERE workspace_id::text = $1 AND COALESCE(dnc_status, 'allowed') IN ('blocked', 'do_not_call', 'dnc') AND (id::text = ANY($2::text[]) OR phone = ANY($3::text[]))";
+
+const SQL_FIND_DNC_LISTINGS =
+  'SELECT phone_number, list_source FROM dnc_numbers WHERE workspace_id::text = $1 AND phone_number = ANY($2::text[])';
+
+const SQL_GET_POLICY =
+  'SELECT dial_compliance AS policy FROM workspace_settings WHERE workspace_id = $1';
+
+const SQL_SAVE_POLICY =
+  'INSERT INTO workspace_settings (workspace_id, dial_compliance) VALUES ($1, $2::jsonb) ON CONFLICT (workspace_id) DO UPDATE SET dial_compliance = EXCLUDED.dial_compliance, updated_at = NOW() RETURNING dial_compliance AS policy';
+
+const SQL_CREATE_IMPORT =
+  'INSERT INTO dnc_imports (workspace_id, list_source, file_name, parsed_count, imported_by) VALUES ($1, $2, $3, $4, $5) RETURNING id';
+
+const SQL_INSERT_NUMBERS =
+  'WITH inserted AS (INSERT INTO dnc_numbers (workspace_id, list_source, phone_number, import_id) SELECT $1::uuid, $2, number, $4 FROM unnest($3::text[]) AS number ON CONFLICT DO NOTHING RETURNING 1) SELECT COUNT(*)::int AS added FROM inserted';
+
+const SQL_FINISH_IMPORT =
+  'UPDATE dnc_imports SET added_count = $1 WHERE id = $2 RETURNING id, list_source, file_name, parsed_count, added_count, imported_by, created_at';
+
+const SQL_LIST_IMPORTS =
+  'SELECT id, list_source, file_name, parsed_count, added_count, imported_by, created_at FROM dnc_imports WHERE workspace_id::text = $1 ORDER BY created_at DESC LIMIT 50';
+
+const SQL_REMOVE_NUMBER =
+  'DELETE FROM dnc_numbers WHERE workspace_id::text = $1 AND list_source = $2 AND phone_number = $3 RETURNING phone_number';
+
+const isHour = (value: unknown): value is number =>
+  typeof value === 'number' &&
+  Number.isInteger(value) &&
+  value >= 0 &&
+  value <= 24;
+
+const isTimezone = (value: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Parses stored or submitted overrides. Returns null when an hour is not a
+ * whole number from 0 to 24, the window is empty, or the zone is unknown.
+ */
+export const parseCompliancePolicy = (
+  raw: unknown,
+): CompliancePolicyOverrides | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const { startHour, endHour, fallbackTimezone } = raw as Record<
+    string,
+    unknown
+  >;
+  const overrides: CompliancePolicyOverrides = {};
+
+  if (startHour !== undefined) {
+    if (!isHour(startHour)) return null;
+    overrides.startHour = startHour;
+  }
+  if (endHour !== undefined) {
+    if (!isHour(endHour)) return null;
+    overrides.endHour = endHour;
+  }
+  if (fallbackTimezone !== undefined && fallbackTimezone !== null) {
+    if (typeof fallbackTimezone !== 'string' || !isTimezone(fallbackTimezone)) {
+      return null;
+    }
+    overrides.fallbackTimezone = fallbackTimezone;
+  } else if (fallbackTimezone === null) {
+    overrides.fallbackTimezone = null;
+  }
+
+  const start = overrides.startHour ?? DEFAULT_CALLING_WINDOW.startHour;
+  const end = overrides.endHour ?? DEFAULT_CALLING_WINDOW.endHour;
+  return start < end ? overrides : null;
+};
+
+const resolvePolicy = (raw: unknown): CompliancePolicy => {
+  const overrides = parseCompliancePolicy(raw) ?? {};
+  return {
+    callingWindow: {
+      startHour: overrides.startHour ?? DEFAULT_CALLING_WINDOW.startHour,
+      endHour: overrides.endHour ?? DEFAULT_CALLING_WINDOW.endHour,
+    },
+    fallbackTimezone:
+      overrides.fallbackTimezone ?? DEFAULT_COMPLIANCE_POLICY.fallbackTimezone,
+  };
+};
+
+const toImport = (row: DncImportRow): DncImport => ({
+  id: row.id,
+  listSource: row.list_source,
+  fileName: row.file_name,
+  parsedCount: row.parsed_count,
+  addedCount: row.added_count,
+  importedBy: row.imported_by,
+  createdAt: new Date(row.created_at).toISOString(),
+});
+
+export const getCompliancePolicy = async (
+  db: DatabaseClient,
+  workspaceId: string,
+): Promise<CompliancePolicy> => {
+  const { rows } = await db.query<{ policy: unknown }>(SQL_GET_POLICY, [
+    workspaceId,
+  ]);
+  return resolvePolicy(rows[0]?.policy);
+};
+
+export const saveCompliancePolicy = async (
+  db: DatabaseClient,
+  workspaceId: string,
+  overrides: CompliancePolicyOverrides,
+): Promise<CompliancePolicy> => {
+  const { rows } = await db.query<{ policy: unknown }>(SQL_SAVE_POLICY, [
+    workspaceId,
+    JSON.stringify(overrides),
+  ]);
+  return resolvePolicy(rows[0]?.policy);
+};
+
+/**
+ * Adds every number in an uploaded DNC file to one of the workspace's lists.
+ * Numbers already on that list are counted as parsed but not added. Returns
+ * null, recording nothing, when the file holds no phone numbers.
+ */
+export const importDncList = async (
+  db: DatabaseClient,
+  input: {
+    workspaceId: string;
+    userId: string;
+    source: DncListSource;
+    fileName: string | null;
+    content: string;
+  },
+): Promise<DncImport | null> => {
+  const numbers = parseDncFile(input.content);
+  if (numbers.length === 0) return null;
+
+  const { rows: created } = await db.query<{ id: string }>(SQL_CREATE_IMPORT, [
+    input.workspaceId,
+    input.source,
+    input.fileName,
+    numbers.length,
+    input.userId,
+  ]);
+  const importId = created[0].id;
+
+  let added = 0;
+  for (let i = 0; i < numbers.length; i += IMPORT_CHUNK_SIZE) {
+    const { rows } = await db.query<{ added: number }>(SQL_INSERT_NUMBERS, [
+      input.workspaceId,
+      input.source,
+      numbers.slice(i, i + IMPORT_CHUNK_SIZE),
+      importId,
+    ]);
+    added += rows[0]?.added ?? 0;
+  }
+
+  const { rows } = await db.query<DncImportRow>(SQL_FINISH_IMPORT, [
+    added,
+    importId,
+  ]);
+  return toImport(rows[0]);
+};
+
+export const listDncImports = async (
+  db: DatabaseClient,
+  workspaceId: string,
+): Promise<DncImport[]> => {
+  const { rows } = await db.query<DncImportRow>(SQL_LIST_IMPORTS, [
+    workspaceId,
+  ]);
+  return rows.map(toImport);
+};
+
+/** Removes one number from a list; false when it was not on it */
+export const removeDncNumber = async (
+  db: DatabaseClient,
+  input: { workspaceId: string; source: DncListSource; phone: string },
+): Promise<boolean> => {
+  const { rows } = await db.query(SQL_REMOVE_NUMBER, [
+    input.workspaceId,
+    input.source,
+    normalizeDialNumber(input.phone) ?? input.phone,
+  ]);
+  return rows.length > 0;
+};
+
+/**
+ * Postgres-backed store for the dialer's compliance gate. Lookups key on
+ * E.164 numbers but answer with the phone strings the dialer passed in.
+ */
+export const createComplianceStore = (
+  getDb: () => Promise<DatabaseClient>,
+): ComplianceStore => ({
+  getPolicy: async (workspaceId) =>
+    getCompliancePolicy(await getDb(), workspaceId),
+
+  findDncListings: async (workspaceId, phones) => {
+    const listings = new Map<string, DncListSource[]>();
+    const byNumber = new Map<string, string[]>();
+    for (const phone of phones) {
+      const normalized = normalizeDialNumber(phone);
+      if (!normalized) continue;
+      byNumber.set(normalized, [...(byNumber.get(normalized) ?? []), phone]);
+    }
+    if (!workspaceId || byNumber.size === 0) return listings;
+
+    const db = await getDb();
+    const { rows } = await db.query<{
+      phone_number: string;
+      list_source: DncListSource;
+    }>(SQL_FIND_DNC_LISTINGS, [workspaceId, [...byNumber.keys()]]);
+    for (const row of rows) {
+      for (const phone of byNumber.get(row.phone_number) ?? []) {
+        listings.set(phone, [...(listings.get(phone) ?? []), row.list_source]);
+      }
+    }
+    return listings;
+  },
+
+  findSuppressedPhones: async (workspaceId, targets: ComplianceTarget[]) => {
+    if (!workspaceId || targets.length === 0) return new Set<string>();
+
+    const contactIds = targets.flatMap((target) =>
+      target.contactId ? [target.contactId] : [],
+    );
+    const phones = targets.flatMap((target) => {
+      const normalized = normalizeDialNumber(target.phone);
+      return normalized && normalized !== target.phone
+        ? [target.phone, normalized]
+        : [target.phone];
+    });
+
+    const db = await getDb();
+    const { rows } = await db.query<{ id: string; phone: string | null }>(
+      SQL_FIND_SUPPRESSED,
+      [workspaceId, contactIds, phones],
+    );
+    const ids = new Set(rows.map((row) => row.id));
+    const numbers = new Set(
+      rows.flatMap((row) => {
+        const normalized = row.phone ? normalizeDialNumber(row.phone) : null;
+        return normalized ? [normalized] : [];
+      }),
+    );
+
+    return new Set(
+      targets
+        .filter(
+          (target) =>
+            (!!target.contactId && ids.has(target.contactId)) ||
+            numbers.has(normalizeDialNumber(target.phone) ?? target.phone),
+        )
+        .map((target) => target.phone),
+    );
+  },
+});
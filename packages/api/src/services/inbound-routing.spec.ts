@@ -0,0 +1,277 @@
+import {
+  buildInboundTwiml,
+  recordInboundCall,
+  resolveInboundRoute,
+  type InboundRoute,
+} from './inbound-routing';
+
+type Rows = Record<string, unknown>[];
+
+// answers each query by the first table/column fragment it mentions
+const createDb = (answers: Array<[fragment: string, rows: Rows]>) => {
+  const query = jest.fn(async (text: string, _values?: unknown[]) => {
+    const match = answers.find(([fragment]) => text.includes(fragment));
+    return { rows: (match?.[1] ?? []) as never[] };
+  });
+  return { query };
+};
+
+const number = (overrides: Record<string, unknown> = {}): Rows => [
+  {
+    workspace_id: 'ws-1',
+    ring_group_id: null,
+    inbound_routing: { greeting: 'Thanks for calling', whisper: 'Callback' },
+    ...overrides,
+  },
+];
+
+const sqlCalls = (db: ReturnType<typeof createDb>) =>
+  db.query.mock.calls.map(([text]) => text);
+
+describe('resolveInboundRoute', () => {
+  it('rings the rep who last dialed the contact before any fallback', async () => {
+    const db = createDb([
+      ['FROM workspace_phone_numbers', number({ ring_group_id: 'rg-1' })],
+      ['FROM contacts', [{ id: 'contact-1' }]],
+      ['FROM contact_attempt_ledger', [{ last_user_id: 'rep-1' }]],
+    ]);
+
+    const route = await resolveInboundRoute(db, {
+      to: '+15550000001',
+      from: '+15550000002',
+    });
+
+    expect(route).toEqual({
+      workspaceId: 'ws-1',
+      contactId: 'contact-1',
+      userIds: ['rep-1'],
+      source: 'last_rep',
+      greeting: 'Thanks for calling',
+      whisper: 'Callback',
+      ringTimeoutSeconds: 20,
+    });
+    expect(
+      sqlCalls(db).some((text) => text.includes('inbound_ring_groups')),
+    ).toBe(false);
+  });
+
+  it('falls back to the next round-robin member of the number ring group', async () => {
+    const db = createDb([
+      ['FROM workspace_phone_numbers', number({ ring_group_id: 'rg-1' })],
+      ['FROM contacts', []],
+      [
+        'FROM inbound_ring_groups',
+        [{ strategy: 'round_robin', member_user_ids: ['rep-1', 'rep-2'] }],
+      ],
+      ['UPDATE inbound_ring_groups', [{ cursor: 3 }]],
+    ]);
+
+    const route = await resolveInboundRoute(db, {
+      to: '+15550000001',
+      from: '+15550000009',
+    });
+
+    expect(route).toMatchObject({
+      contactId: null,
+      userIds: ['rep-2'],
+      source: 'ring_group',
+    });
+  });
+
+  it('rings every member of a simultaneous ring group without advancing a cursor', async () => {
+    const db = createDb([
+      ['FROM workspace_phone_numbers', number({ ring_group_id: 'rg-1' })],
+      [
+        'FROM inbound_ring_groups',
+        [{ strategy: 'simultaneous', member_user_ids: ['rep-1', 'rep-2'] }],
+      ],
+    ]);
+
+    const route = await resolveInboundRoute(db, {
+      to: '+15550000001',
+      from: '',
+    });
+
+    expect(route).toMatchObject({
+      userIds: ['rep-1', 'rep-2'],
+      source: 'ring_group',
+    });
+    expect(
+      sqlCalls(db).some((text) =>
+        text.startsWith('UPDATE inbound_ring_groups'),
+      ),
+    ).toBe(false);
+  });
+
+  it('uses team round-robin when the number has no ring group', async () => {
+    const db = createDb([
+      ['FROM workspace_phone_numbers', number()],
+      [
+        'FROM workspace_members',
+        [{ user_id: 'rep-1' }, { user_id: 'rep-2' }, { user_id: 'rep-3' }],
+      ],
+      ['inbound_round_robin_cursor', [{ cursor: 4 }]],
+    ]);
+
+    const route = await resolveInboundRoute(db, {
+      to: '+15550000001',
+      from: '+15550000009',
+    });
+
+    expect(route).toMatchObject({ userIds: ['rep-2'], source: 'round_robin' });
+  });
+
+  it('skips the last rep and leaves them out of the fallback tiers', async () => {
+    const db = createDb([
+      ['FROM workspace_phone_numbers', number({ ring_group_id: 'rg-1' })],
+      ['FROM contacts', [{ id: 'contact-1' }]],
+      [
+        'FROM inbound_ring_groups',
+        [{ strategy: 'simultaneous', member_user_ids: ['rep-1', 'rep-2'] }],
+      ],
+    ]);
+
+    const route = await resolveInboundRoute(db, {
+      to: '+15550000001',
+      from: '+15550000002',
+      skipLastRep: 'rep-1',
+    });
+
+    expect(route).toMatchObject({ userIds: ['rep-2'], source: 'ring_group' });
+    expect(
+      sqlCalls(db).some((text) => text.includes('contact_attempt_ledger')),
+    ).toBe(false);
+  });
+
+  it('returns a route with nobody to ring when the workspace has no active reps', async () => {
+    const db = createDb([['FROM workspace_phone_numbers', number()]]);
+
+    const route = await resolveInboundRoute(db, {
+      to: '+15550000001',
+      from: '+15550000009',
+    });
+
+    expect(route).toMatchObject({ userIds: [], source: null });
+  });
+
+  it('returns null for numbers no workspace owns', async () => {
+    const db = createDb([]);
+
+    await expect(
+      resolveInboundRoute(db, { to: '+15550000001', from: '+15550000009' }),
+    ).resolves.toBeNull();
+  });
+});
+
+describe('recordInboundCall', () => {
+  const input = {
+    workspaceId: 'ws-1',
+    contactId: 'contact-1',
+    assigneeId: 'rep-1',
+    callSid: 'CA-in-1',
+    from: '+15550000002',
+    to: '+15550000001',
+    durationSeconds: 0,
+  };
+
+  it('logs a missed call and a callback task assigned to the routed rep', async () => {
+    const db = createDb([
+      ['INSERT INTO calls', [{ id: 'call-1' }]],
+      ['INSERT INTO contact_follow_ups', [{ id: 'task-1' }]],
+    ]);
+
+    const result = await recordInboundCall(db, {
+      ...input,
+      dialStatus: 'no-answer',
+    });
+
+    expect(result).toEqual({
+      callId: 'call-1',
+      missed: true,
+      callbackTaskId: 'task-1',
+    });
+    expect(db.query.mock.calls[0]?.[1]).toEqual([
+      'ws-1',
+      'CA-in-1',
+      'contact-1',
+      'no-answer',
+      'missed',
+      '+15550000002',
+      '+15550000001',
+      0,
+    ]);
+    expect(db.query.mock.calls[1]?.[1]).toEqual([
+      'contact-1',
+      'Missed inbound call from +15550000002 — call back',
+      'CA-in-1',
+      'rep-1',
+      'ws-1',
+    ]);
+  });
+
+  it('records answered calls without creating a callback task', async () => {
+    const db = createDb([['INSERT INTO calls', [{ id: 'call-1' }]]]);
+
+    const result = await recordInboundCall(db, {
+      ...input,
+      dialStatus: 'completed',
+      durationSeconds: 95,
+    });
+
+    expect(result).toEqual({
+      callId: 'call-1',
+      missed: false,
+      callbackTaskId: null,
+    });
+    expect(db.query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('buildInboundTwiml', () => {
+  const route: InboundRoute = {
+    workspaceId: 'ws-1',
+    contactId: 'contact-1',
+    userIds: ['rep-1', 'rep-2'],
+    source: 'ring_group',
+    greeting: 'Thanks for calling Acme & Co',
+    whisper: 'Callback',
+    ringTimeoutSeconds: 25,
+  };
+  const urls = {
+    dialStatus: 'https://api.test/v1/voice/inbound/dial-status',
+    whisper: 'https://api.test/v1/voice/inbound/whisper',
+  };
+
+  it('plays the greeting then rings every routed rep with the whisper', () => {
+    const twiml = buildInboundTwiml(route, urls);
+
+    expect(twiml).toContain('<Say>Thanks for calling Acme &amp; Co</Say>');
+    expect(twiml).toContain(
+      '<Dial timeout="25" action="https://api.test/v1/voice/inbound/dial-status?workspaceId=ws-1&amp;contactId=contact-1&amp;assigneeId=rep-1" method="POST">',
+    );
+    expect(twiml).toContain(
+      '<Client url="https://api.test/v1/voice/inbound/whisper?workspaceId=ws-1" method="POST">user_rep-2</Client>',
+    );
+  });
+
+  it('tags last-rep dials so a miss can fall through to the next tier', () => {
+    const twiml = buildInboundTwiml(
+      { ...route, userIds: ['rep-1'], source: 'last_rep' },
+      urls,
+    );
+
+    expect(twiml).toContain('assigneeId=rep-1&amp;source=last_rep"');
+  });
+
+  it('sends the caller straight to missed-call capture when nobody can ring', () => {
+    const twiml = buildInboundTwiml(
+      { ...route, userIds: [], source: null, greeting: null, whisper: null },
+      urls,
+    );
+
+    expect(twiml).not.toContain('<Dial');
+    expect(twiml).toContain(
+      '<Redirect method="POST">https://api.test/v1/voice/inbound/dial-status?workspaceId=ws-1&amp;contactId=contact-1</Redirect>',
+    );
+  });
+});
@@ -0,0 +1,321 @@
+// Inbound routing — prospects calling back on a workspace number reach the
+// rep who last dialed them, then the number's ring group, then the team in
+// round-robin order. Unanswered calls become callback tasks on the contact.
+
+type DatabaseClient = {
+  query<TRecord extends Record<string, unknown> = Record<string, unknown>>(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: TRecord[] }>;
+};
+
+export type InboundRingGroupStrategy = 'simultaneous' | 'round_robin';
+
+export type InboundRouteSource = 'last_rep' | 'ring_group' | 'round_robin';
+
+export type InboundRoutingSettings = {
+  greeting?: string;
+  whisper?: string;
+  ringTimeoutSeconds?: number;
+};
+
+export type InboundRoute = {
+  workspaceId: string;
+  contactId: string | null;
+  userIds: string[];
+  source: InboundRouteSource | null;
+  greeting: string | null;
+  whisper: string | null;
+  ringTimeoutSeconds: number;
+};
+
+export const INBOUND_RING_GROUP_STRATEGIES: ReadonlySet<string> =
+  new Set<InboundRingGroupStrategy>(['simultaneous', 'round_robin']);
+
+export const DEFAULT_RING_TIMEOUT_SECONDS = 20;
+
+// Dial outcomes Twilio reports when no rep picked up
+const MISSED_DIAL_STATUSES = new Set([
+  'no-answer',
+  'busy',
+  'failed',
+  'canceled',
+]);
+
+const SQL_FIND_INBOUND_NUMBER =
+  "SELECT wpn.workspace_id::text AS workspace_id, wpn.ring_group_id::text AS ring_group_id, ws.inbound_routing FROM workspace_phone_numbers wpn LEFT JOIN workspace_settings ws ON ws.workspace_id = wpn.workspace_id::text WHERE wpn.phone_number = $1 AND wpn.status = 'active' LIMIT 1";
+
+const SQL_FIND_CONTACT_BY_PHONE =
+  'SELECT id::text AS id FROM contacts WHERE workspace_id::text = $1 AND phone = $2 ORDER BY updated_at DESC LIMIT 1';
+
+const SQL_LAST_REP =
+  "SELECT ledger.last_user_id FROM contact_attempt_ledger ledger JOIN workspace_members wm ON wm.workspace_id = ledger.workspace_id AND wm.user_id::text = ledger.last_user_id AND wm.status = 'active' WHERE ledger.workspace_id = $1 AND ledger.contact_id = $2";
+
+// members keep their configured order; inactive members are skipped
+const SQL_GET_RING_GROUP =
+  "SELECT rg.strategy, ARRAY(SELECT g.member FROM unnest(rg.member_user_ids) WITH ORDINALITY AS g(member, ord) WHERE EXISTS (SELECT 1 FROM workspace_members wm WHERE wm.workspace_id = rg.workspace_id AND wm.user_id::text = g.member AND wm.status = 'active') ORDER BY g.ord) AS member_user_ids FROM inbound_ring_groups rg WHERE rg.id::text = $1 AND rg.workspace_id = $2";
+
+const SQL_ADVANCE_RING_GROUP =
+  'UPDATE inbound_ring_groups SET next_member_index = next_member_index + 1, updated_at = NOW() WHERE id::text = $1 RETURNING next_member_index - 1 AS cursor';
+
+const SQL_ACTIVE_TEAM =
+  "SELECT user_id::text AS user_id FROM workspace_members WHERE workspace_id = $1 AND status = 'active' AND user_id IS NOT NULL ORDER BY created_at, id";
+
+const SQL_ADVANCE_TEAM =
+  'INSERT INTO workspace_settings (workspace_id, inbound_round_robin_cursor) VALUES ($1, 1) ON CONFLICT (workspace_id) DO UPDATE SET inbound_round_robin_cursor = workspace_settings.inbound_round_robin_cursor + 1, updated_at = NOW() RETURNING inbound_round_robin_cursor - 1 AS cursor';
+
+const SQL_GET_WHISPER =
+  "SELECT inbound_routing->>'whisper' AS whisper FROM workspace_settings WHERE workspace_id = $1";
+
+const SQL_INSERT_INBOUND_CALL =
+  "INSERT INTO calls (workspace_id, call_sid, contact_id, direction, status, outcome, \"from\", \"to\", duration_seconds, start_time, end_time) VALUES ($1, $2, $3, 'inbound', $4, $5, $6, $7, $8, NOW() - $8 * INTERVAL '1 second', NOW()) RETURNING id";
+
+const SQL_INSERT_CALLBACK_TASK =
+  'INSERT INTO contact_follow_ups (contact_id, scheduled_at, note, call_id, created_by, workspace_id) VALUES ($1, NOW(), $2, $3, $4, $5) RETURNING id';
+
+const pickRoundRobin = (members: string[], cursor: number): string[] =>
+  members.length === 0 ? [] : [members[cursor % members.length]!];
+
+const resolveRingGroup = async (
+  db: DatabaseClient,
+  workspaceId: string,
+  ringGroupId: string,
+  excludeUserId: string | undefined,
+): Promise<string[]> => {
+  const { rows } = await db.query<{
+    strategy: InboundRingGroupStrategy;
+    member_user_ids: string[];
+  }>(SQL_GET_RING_GROUP, [ringGroupId, workspaceId]);
+  const group = rows[0];
+  const members = (group?.member_user_ids ?? []).filter(
+    (member) => member !== excludeUserId,
+  );
+  if (!group || members.length === 0) return [];
+  if (group.strategy === 'simultaneous') return members;
+
+  const advanced = await db.query<{ cursor: number }>(SQL_ADVANCE_RING_GROUP, [
+    ringGroupId,
+  ]);
+  return pickRoundRobin(members, advanced.rows[0]?.cursor ?? 0);
+};
+
+const resolveTeamRoundRobin = async (
+  db: DatabaseClient,
+  workspaceId: string,
+  excludeUserId: string | undefined,
+): Promise<string[]> => {
+  const { rows } = await db.query<{ user_id: string }>(SQL_ACTIVE_TEAM, [
+    workspaceId,
+  ]);
+  const members = rows
+    .map((row) => row.user_id)
+    .filter((member) => member !== excludeUserId);
+  if (members.length === 0) return [];
+
+  const advanced = await db.query<{ cursor: number }>(SQL_ADVANCE_TEAM, [
+    workspaceId,
+  ]);
+  return pickRoundRobin(members, advanced.rows[0]?.cursor ?? 0);
+};
+
+/**
+ * Resolves who should ring for a call to `to` from `from`. Returns null when
+ * `to` is not an active workspace number. A route with no `userIds` means
+ * nobody is available and the call goes straight to missed-call capture.
+ * `skipLastRep` re-routes after the last rep didn't answer: that rep is left
+ * out and the ring group or team rings instead.
+ */
+export const resolveInboundRoute = async (
+  db: DatabaseClient,
+  input: { to: string; from: string; skipLastRep?: string },
+): Promise<InboundRoute | null> => {
+  const { rows } = await db.query<{
+    workspace_id: string;
+    ring_group_id: string | null;
+    inbound_routing: InboundRoutingSettings | null;
+  }>(SQL_FIND_INBOUND_NUMBER, [input.to]);
+  const number = rows[0];
+  if (!number) return null;
+
+  const workspaceId = number.workspace_id;
+  const settings = number.inbound_routing ?? {};
+  const route: InboundRoute = {
+    workspaceId,
+    contactId: null,
+    userIds: [],
+    source: null,
+    greeting: settings.greeting?.trim() || null,
+    whisper: settings.whisper?.trim() || null,
+    ringTimeoutSeconds:
+      settings.ringTimeoutSeconds ?? DEFAULT_RING_TIMEOUT_SECONDS,
+  };
+
+  if (input.from) {
+    const contacts = await db.query<{ id: string }>(
+      SQL_FIND_CONTACT_BY_PHONE,
+      [workspaceId, input.from],
+    );
+    route.contactId = contacts.rows[0]?.id ?? null;
+  }
+
+  if (route.contactId && !input.skipLastRep) {
+    const lastRep = await db.query<{ last_user_id: string | null }>(
+      SQL_LAST_REP,
+      [workspaceId, route.contactId],
+    );
+    const userId = lastRep.rows[0]?.last_user_id;
+    if (userId) return { ...route, userIds: [userId], source: 'last_rep' };
+  }
+
+  if (number.ring_group_id) {
+    const userIds = await resolveRingGroup(
+      db,
+      workspaceId,
+      number.ring_group_id,
+      input.skipLastRep,
+    );
+    if (userIds.length > 0) return { ...route, userIds, source: 'ring_group' };
+  }
+
+  const userIds = await resolveTeamRoundRobin(
+    db,
+    workspaceId,
+    input.skipLastRep,
+  );
+  return userIds.length > 0
+    ? { ...route, userIds, source: 'round_robin' }
+    : route;
+};
+
+export const getInboundWhisper = async (
+  db: DatabaseClient,
+  workspaceId: string,
+): Promise<string | null> => {
+  const { rows } = await db.query<{ whisper: string | null }>(
+    SQL_GET_WHISPER,
+    [workspaceId],
+  );
+  return rows[0]?.whisper?.trim() || null;
+};
+
+export const isMissedDialStatus = (dialStatus: string): boolean =>
+  MISSED_DIAL_STATUSES.has(dialStatus);
+
+// only a last-rep dial falls through to another tier; the others are final
+export const shouldRerouteInbound = (
+  source: string | undefined,
+  dialStatus: string,
+): boolean => source === 'last_rep' && isMissedDialStatus(dialStatus);
+
+/**
+ * Writes the call session record for a finished inbound call. Missed calls
+ * from a known contact also get a callback task assigned to the routed rep.
+ */
+export const recordInboundCall = async (
+  db: DatabaseClient,
+  input: {
+    workspaceId: string;
+    contactId: string | null;
+    assigneeId: string | null;
+    callSid: string;
+    from: string;
+    to: string;
+    dialStatus: string;
+    durationSeconds: number;
+  },
+): Promise<{
+  callId: string;
+  missed: boolean;
+  callbackTaskId: string | null;
+}> => {
+  const missed = isMissedDialStatus(input.dialStatus);
+  const call = await db.query<{ id: string }>(SQL_INSERT_INBOUND_CALL, [
+    input.workspaceId,
+    input.callSid,
+    input.contactId,
+    input.dialStatus,
+    missed ? 'missed' : 'connected',
+    input.from,
+    input.to,
+    input.durationSeconds,
+  ]);
+  const callId = call.rows[0]!.id;
+  if (!missed || !input.contactId) {
+    return { callId, missed, callbackTaskId: null };
+  }
+
+  const task = await db.query<{ id: string }>(SQL_INSERT_CALLBACK_TASK, [
+    input.contactId,
+    `Missed inbound call from ${input.from} — call back`,
+    input.callSid,
+    input.assigneeId ?? 'inbound-routing',
+    input.workspaceId,
+  ]);
+  return { callId, missed, callbackTaskId: task.rows[0]?.id ?? null };
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const withQuery = (url: string, params: Record<string, string | null>) => {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) search.set(key, value);
+  }
+  const query = search.toString();
+  return query ? `${url}?${query}` : url;
+};
+
+/**
+ * TwiML for the caller: the greeting, then every routed rep's browser client
+ * rings at once. The dial action records the outcome, or re-routes a missed
+ * last-rep dial; the whisper URL plays to the rep who answers before the
+ * caller is bridged.
+ */
+export const buildInboundTwiml = (
+  route: InboundRoute,
+  urls: { dialStatus: string; whisper: string },
+): string => {
+  const parts = ['<?xml version="1.0" encoding="UTF-8"?>', '<Response>'];
+  if (route.greeting) parts.push(`<Say>${escapeXml(route.greeting)}</Say>`);
+
+  const action = withQuery(urls.dialStatus, {
+    workspaceId: route.workspaceId,
+    contactId: route.contactId,
+    assigneeId: route.userIds[0] ?? null,
+    source: route.source === 'last_rep' ? route.source : null,
+  });
+  if (route.userIds.length === 0) {
+    parts.push(`<Redirect method="POST">${escapeXml(action)}</Redirect>`);
+  } else {
+    const whisperUrl = route.whisper
+      ? withQuery(urls.whisper, { workspaceId: route.workspaceId })
+      : null;
+    const clientAttributes = whisperUrl
+      ? ` url="${escapeXml(whisperUrl)}" method="POST"`
+      : '';
+    parts.push(
+      `<Dial timeout="${route.ringTimeoutSeconds}" action="${escapeXml(action)}" method="POST">`,
+      ...route.userIds.map(
+        (userId) =>
+          `<Client${clientAttributes}>user_${escapeXml(userId)}</Client>`,
+      ),
+      '</Dial>',
+    );
+  }
+  parts.push('</Response>');
+  return parts.join('');
+};
+
+export const buildWhisperTwiml = (whisper: string | null): string =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Response>',
+    whisper ? `<Say>${escapeXml(whisper)}</Say>` : '',
+    '</Response>',
+  ].join('');
@@ -0,0 +1,151 @@
+const mockQuery = jest.fn();
+const mockChat = jest.fn();
+
+jest.mock('@sentry/node', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('@consuelo/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+jest.mock('../shared/db.js', () => ({
+  getSharedPool: jest.fn().mockResolvedValue({
+    query: (...args: unknown[]) => mockQuery(...args),
+  }),
+}));
+
+jest.mock('@consuelo/agent', () => ({
+  AgentService: jest.fn().mockImplementation(() => ({
+    chat: (...args: unknown[]) => mockChat(...args),
+  })),
+  createCoachingLifecycle: jest.fn(),
+  createCoachingSchemas: jest.fn().mockResolvedValue({
+    PostCallAnalysisResultSchema: { parse: (value: unknown) => value },
+  }),
+  createTranscriptContext: jest.fn(),
+}));
+
+import { generatePostCallAnalysis } from './post-call-analysis';
+
+const modelResult = {
+  analytics: {
+    key_moments: [],
+    sentiment: {
+      overall: 'positive',
+      customer: 'curious',
+      agent: 'calm',
+      trend: 'stable',
+    },
+    performance: {
+      talk_ratio: 0.6,
+      response_time_avg: 1.2,
+      objection_handling_score: 0.8,
+    },
+  },
+  summary: 'Customer asked for pricing',
+  outcome: 'interested',
+  next_steps: ['Send pricing'],
+};
+
+const entry = (
+  id: string,
+  speaker: 'agent' | 'customer',
+  text: string,
+  startMs: number,
+  endMs: number,
+) => ({
+  id,
+  speaker,
+  text,
+  timestamp: 1_000 + endMs,
+  confidence: 0.9,
+  startMs,
+  endMs,
+});
+
+describe('generatePostCallAnalysis', () => {
+  beforeEach(() => {
+    mockChat.mockImplementation(async function* () {
+      yield { type: 'text_delta', text: JSON.stringify(modelResult) };
+      yield { type: 'usage', inputTokens: 100, outputTokens: 40 };
+    });
+  });
+
+  it('persists conversation metrics measured from the transcript timing', async () => {
+    mockQuery
+      .mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'call-1',
+            call_sid: 'CA-1',
+            workspace_id: 'ws-1',
+            transcript: [
+              entry('e1', 'agent', 'Is now a good time?', 0, 3_000),
+              // starts a second before the rep finishes
+              entry('e2', 'customer', 'Sure, what is it?', 2_000, 5_000),
+              // four seconds of silence before the rep picks up again
+              entry('e3', 'agent', 'We cover storm damage.', 9_000, 12_000),
+            ],
+            analysis: null,
+            outcome: 'answered',
+            start_time: '2026-10-19T09:00:00.000Z',
+            end_time: '2026-10-19T09:00:12.000Z',
+            contact_name: 'Ada',
+          },
+        ],
+      })
+      .mockResolvedValueOnce({ rows: [{ id: 'call-1' }] });
+
+    const { analysis } = await generatePostCallAnalysis('call-1', 'ws-1');
+
+    const [sql, params] = mockQuery.mock.calls[1] as [string, unknown[]];
+    const persisted = JSON.parse(params[0] as string);
+    expect(sql).toContain('UPDATE calls SET analysis');
+    expect(persisted.conversationMetrics).toMatchObject({
+      rep_talk_ms: 6_000,
+      customer_talk_ms: 3_000,
+      interruptions: { by_rep: 0, by_customer: 1 },
+      dead_air: { count: 1, total_ms: 4_000, longest_ms: 4_000 },
+      questions: { rep: 1, customer: 1 },
+    });
+    expect(analysis.conversationMetrics).toEqual(persisted.conversationMetrics);
+
+    const [{ messages }] = mockChat.mock.calls[0] as [
+      { messages: Array<{ content: string }> },
+    ];
+    expect(messages[0].content).toContain('MEASURED CONVERSATION METRICS');
+  });
+
+  it('leaves timing metrics empty for transcripts without chunk offsets', async () => {
+    mockQuery
+      .mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'call-2',
+            call_sid: 'CA-2',
+            workspace_id: 'ws-1',
+            transcript: [
+              { id: 'e1', speaker: 'agent', text: 'Hello?', timestamp: 1_000 },
+            ],
+            analysis: null,
+          },
+        ],
+      })
+      .mockResolvedValueOnce({ rows: [{ id: 'call-2' }] });
+
+    const { analysis } = await generatePostCallAnalysis('call-2', 'ws-1');
+
+    expect(analysis.conversationMetrics).toMatchObject({
+      talk_ratio: null,
+      interruptions: null,
+      dead_air: null,
+      questions: { rep: 1, customer: 0 },
+    });
+  });
+});
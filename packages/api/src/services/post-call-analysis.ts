@@ -9,6 +9,11 @@ import {
   type PiSession,
   type PiStreamEvent,
 } from '@consuelo/agent';
+import {
+  formatConversationMetrics,
+  measureConversation,
+  type ConversationMetrics,
+} from '@consuelo/coaching';
 import { createLogger } from '@consuelo/logger';
 
 import { getSharedPool } from '../shared/db.js';
@@ -74,6 +79,8 @@ type PersistedTranscriptEntry = {
   text: string;
   timestamp: number;
   confidence: number;
+  startMs?: number;
+  endMs?: number;
 };
 
 type PersistedCallAnalytics = {
@@ -107,6 +114,8 @@ type PersistedCallAnalytics = {
   modelUsed: string;
   latencyMs: number;
   createdAt: string;
+  // measured from transcript timing; absent on analyses stored before it existed
+  conversationMetrics?: ConversationMetrics;
 };
 
 type CallAnalysisContextRow = {
@@ -186,9 +195,36 @@ const coerceTranscriptEntry = (
     return null;
   }
 
-  return { id, speaker, text, timestamp, confidence };
+  const timed =
+    typeof value.startMs === 'number' &&
+    typeof value.endMs === 'number' &&
+    value.endMs >= value.startMs;
+
+  return {
+    id,
+    speaker,
+    text,
+    timestamp,
+    confidence,
+    ...(timed
+      ? { startMs: value.startMs as number, endMs: value.endMs as number }
+      : {}),
+  };
 };
 
+// entries written before chunk timing was recorded only count questions
+const measureTranscript = (
+  entries: PersistedTranscriptEntry[],
+): ConversationMetrics =>
+  measureConversation(
+    entries.map((entry) => ({
+      role: entry.speaker === 'customer' ? 'customer' : 'sales_rep',
+      content: entry.text,
+      startMs: entry.startMs ?? null,
+      endMs: entry.endMs ?? null,
+    })),
+  );
+
 const clampPercentage = (value: number): number => {
   const normalized = value <= 1 ? value * 100 : value;
   return Math.max(0, Math.min(100, Math.round(normalized)));
@@ -259,6 +295,8 @@ const normalizeOutcome = (value: string): PersistedCallAnalytics['outcome'] => {
       return value;
     case 'connected':
       return 'interested';
+    case 'voicemail_dropped':
+      return 'voicemail';
     case 'follow-up':
     case 'follow_up':
       return 'callback_scheduled';
@@ -466,6 +504,7 @@ const toPersistedCallAnalytics = (
   result: ValidatedPostCallAnalysisResult,
   usage: { input: number; output: number },
   latencyMs: number,
+  conversationMetrics: ConversationMetrics,
 ): PersistedCallAnalytics => {
   const createdAt = new Date().toISOString();
   const agentScore = clampPercentage(result.analytics.performance.talk_ratio);
@@ -496,6 +535,7 @@ const toPersistedCallAnalytics = (
     modelUsed: POST_CALL_MODEL,
     latencyMs,
     createdAt,
+    conversationMetrics,
   };
 };
 
@@ -519,6 +559,7 @@ const generateFreshCallAnalysis = async (
       ? row.call_sid
       : callId;
   const durationSeconds = deriveDurationSeconds(row);
+  const conversationMetrics = measureTranscript(transcriptEntries);
   const startedAt = Date.now();
   const agent = await buildPostCallAgent(
     normalizedCallId,
@@ -535,8 +576,7 @@ const generateFreshCallAnalysis = async (
     messages: [
       {
         role: 'user' as const,
-        content:
-          'run the post-call analysis for the recently ended call and return only valid json.',
+        content: `run the post-call analysis for the recently ended call and return only valid json.\n\n${formatConversationMetrics(conversationMetrics)}`,
       },
     ],
     conversationId: `post-call-analysis-${normalizedCallId}`,
@@ -562,6 +602,7 @@ const generateFreshCallAnalysis = async (
     result,
     usage,
     Date.now() - startedAt,
+    conversationMetrics,
   );
 };
 
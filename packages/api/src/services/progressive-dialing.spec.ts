@@ -0,0 +1,133 @@
+import {
+  createProgressiveTargetSource,
+  settleProgressiveTarget,
+} from './progressive-dialing';
+
+type Rows = Record<string, unknown>[];
+
+// answers queries in order; the transaction statements answer empty
+const createDb = (answers: Rows[]) => {
+  const pending = [...answers];
+  const query = jest.fn(async (text: string, _values?: unknown[]) => {
+    if (['BEGIN', 'COMMIT', 'ROLLBACK'].includes(text)) return { rows: [] };
+    return { rows: (pending.shift() ?? []) as never[] };
+  });
+  const release = jest.fn();
+  return {
+    query,
+    release,
+    connect: jest.fn(async () => ({ query, release })),
+  };
+};
+
+const sqlCalls = (db: ReturnType<typeof createDb>) =>
+  db.query.mock.calls.map(([text]) => text);
+
+const dialer = {
+  listNumbers: jest.fn(async () => [
+    { phoneNumber: '+15550000001', areaCode: '555', isActive: true },
+    { phoneNumber: '+15550000002', areaCode: '555', isActive: true },
+    { phoneNumber: '+15550000003', areaCode: '555', isActive: false },
+  ]),
+  resolveCallerId: jest.fn(async () => ({ callerIdNumber: '+15550000002' })),
+};
+
+describe('createProgressiveTargetSource', () => {
+  it('claims the next queued contact and skips ones without a phone', async () => {
+    const db = createDb([
+      [{ id: 'item-1', contact_id: 'contact-1' }],
+      [{ id: 'item-1' }],
+      [{ phone: null }],
+      [],
+      [],
+      [{ id: 'item-2', contact_id: 'contact-2' }],
+      [{ id: 'item-2' }],
+      [{ phone: '+15551111111' }],
+    ]);
+    const source = createProgressiveTargetSource(async () => db, dialer);
+
+    const target = await source.nextTarget({
+      workspaceId: 'ws-1',
+      userId: 'user-1',
+      queueId: 'queue-1',
+    });
+
+    expect(target).toEqual({
+      contactId: 'contact-2',
+      phone: '+15551111111',
+      queueItemId: 'item-2',
+    });
+    expect(db.query).toHaveBeenCalledWith(
+      expect.stringContaining('skip_reason'),
+      ['no_phone', 'item-1'],
+    );
+    expect(sqlCalls(db).slice(-1)[0]).toBe('COMMIT');
+    expect(db.release).toHaveBeenCalled();
+  });
+
+  it('returns null once the queue has nothing eligible', async () => {
+    const db = createDb([[]]);
+    const source = createProgressiveTargetSource(async () => db, dialer);
+
+    await expect(
+      source.nextTarget({
+        workspaceId: 'ws-1',
+        userId: 'user-1',
+        queueId: 'queue-1',
+      }),
+    ).resolves.toBeNull();
+  });
+
+  it('puts the local-presence pick ahead of the other active numbers', async () => {
+    const source = createProgressiveTargetSource(
+      async () => createDb([]),
+      dialer,
+    );
+
+    const callerIds = await source.resolveCallerIds({
+      workspaceId: 'ws-1',
+      userId: 'user-1',
+      target: { contactId: 'contact-1', phone: '+15551111111' },
+    });
+
+    expect(callerIds).toEqual(['+15550000002', '+15550000001']);
+  });
+});
+
+describe('settleProgressiveTarget', () => {
+  it('does nothing when the item is no longer being called', async () => {
+    const db = createDb([[{ settings: null }], []]);
+
+    const result = await settleProgressiveTarget(db, {
+      workspaceId: 'ws-1',
+      queueId: 'queue-1',
+      queueItemId: 'item-1',
+      outcome: { outcome: 'answered' },
+    });
+
+    expect(result).toBeNull();
+    expect(sqlCalls(db).some((text) => text.startsWith('UPDATE'))).toBe(false);
+  });
+
+  it('completes an answered item and counts it on the queue', async () => {
+    const db = createDb([
+      [{ settings: null }],
+      [{ id: 'item-1', attempts: 1 }],
+      [{ id: 'item-1', status: 'completed' }],
+    ]);
+
+    const result = await settleProgressiveTarget(db, {
+      workspaceId: 'ws-1',
+      queueId: 'queue-1',
+      queueItemId: 'item-1',
+      outcome: { outcome: 'answered' },
+    });
+
+    expect(result?.decision.shouldRetry).toBe(false);
+    expect(
+      sqlCalls(db).some((text) =>
+        text.includes('completed_contacts = completed_contacts + 1'),
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,176 @@
+// Progressive dialing — feeds a queue to the dialer's progressive sessions
+// one contact at a time and settles each called item with the rep's outcome.
+
+import type {
+  NumberPool,
+  PhoneNumber,
+  ProgressiveTarget,
+  ProgressiveTargetSource,
+  ResolveCallerIdResult,
+} from '@consuelo/dialer';
+import { settleQueueItem, type QueueOutcome } from './queue-outcomes.js';
+import { selectNextQueueItem } from './queue-selection.js';
+
+type DatabaseClient = {
+  query<TRecord extends Record<string, unknown> = Record<string, unknown>>(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: TRecord[] }>;
+};
+
+type TransactionalDatabase = DatabaseClient & {
+  connect(): Promise<DatabaseClient & { release(): void }>;
+};
+
+// the slice of Dialer used to pick caller IDs
+type CallerIdResolver = {
+  listNumbers(): Promise<PhoneNumber[]>;
+  resolveCallerId(
+    options: { to: string; from: string; localPresence: boolean },
+    numberPool?: NumberPool,
+  ): Promise<ResolveCallerIdResult>;
+};
+
+const SQL_CLAIM_ITEM =
+  "UPDATE queue_items SET status = 'calling', attempts = attempts + 1, last_attempt_at = NOW() WHERE id = $1 AND status = 'pending' RETURNING id";
+
+const SQL_CONTACT_PHONE =
+  'SELECT phone FROM contacts WHERE id::text = $1 AND workspace_id::text = $2';
+
+const SQL_SKIP_ITEM =
+  "UPDATE queue_items SET status = 'skipped', skip_reason = $1 WHERE id = $2";
+
+const SQL_INCREMENT_SKIPPED =
+  'UPDATE call_queues SET skipped_contacts = skipped_contacts + 1, updated_at = NOW() WHERE id = $1';
+
+const SQL_GET_QUEUE_SETTINGS =
+  'SELECT settings FROM call_queues WHERE id = $1 AND workspace_id = $2';
+
+const SQL_GET_CALLING_ITEM =
+  "SELECT * FROM queue_items WHERE id = $1 AND queue_id = $2 AND status = 'calling'";
+
+// bounds one claim when a run of queued contacts has no phone number
+const MAX_PHONELESS_ITEMS = 25;
+
+const inTransaction = async <T>(
+  db: TransactionalDatabase,
+  run: (client: DatabaseClient) => Promise<T>,
+): Promise<T> => {
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await run(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (err: unknown) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+const skipItem = async (
+  client: DatabaseClient,
+  queueId: string,
+  itemId: string,
+  reason: string,
+): Promise<void> => {
+  await client.query(SQL_SKIP_ITEM, [reason, itemId]);
+  await client.query(SQL_INCREMENT_SKIPPED, [queueId]);
+};
+
+/**
+ * Queue-backed target source for progressive sessions. Contacts come from
+ * the same eligibility ranking as queue selection and are claimed as
+ * 'calling'; contacts the compliance gate refuses are skipped with the
+ * refusal reasons. Caller IDs put the local-presence pick first.
+ */
+export const createProgressiveTargetSource = (
+  getDb: () => Promise<TransactionalDatabase>,
+  dialer: CallerIdResolver,
+): ProgressiveTargetSource => ({
+  nextTarget: async ({ workspaceId, queueId }) =>
+    inTransaction(await getDb(), async (client) => {
+      for (let skipped = 0; skipped < MAX_PHONELESS_ITEMS; skipped += 1) {
+        const item = await selectNextQueueItem(client, queueId);
+        if (!item) return null;
+
+        const itemId = String(item.id);
+        const { rows: claimed } = await client.query(SQL_CLAIM_ITEM, [itemId]);
+        if (claimed.length === 0) return null;
+
+        const contactId = String(item.contact_id);
+        const { rows } = await client.query<{ phone: string | null }>(
+          SQL_CONTACT_PHONE,
+          [contactId, workspaceId],
+        );
+        const phone = rows[0]?.phone;
+        if (phone) {
+          const target: ProgressiveTarget = {
+            contactId,
+            phone,
+            queueItemId: itemId,
+          };
+          return target;
+        }
+        await skipItem(client, queueId, itemId, 'no_phone');
+      }
+      return null;
+    }),
+
+  skipTarget: async ({ queueId, target, reasons }) => {
+    if (!target.queueItemId) return;
+    const db = await getDb();
+    await skipItem(db, queueId, target.queueItemId, reasons.join(','));
+  },
+
+  resolveCallerIds: async ({ target }) => {
+    const numbers = await dialer.listNumbers();
+    const resolution = await dialer.resolveCallerId(
+      { to: target.phone, from: '', localPresence: true },
+      { numbers, primaryNumber: numbers[0] },
+    );
+    return Array.from(
+      new Set([
+        ...(resolution.callerIdNumber ? [resolution.callerIdNumber] : []),
+        ...numbers
+          .filter((number) => number.isActive)
+          .map((number) => number.phoneNumber),
+      ]),
+    );
+  },
+});
+
+/**
+ * Records the rep's outcome on the queue item a progressive session called.
+ * Returns null when the item is no longer being called.
+ */
+export const settleProgressiveTarget = async (
+  db: TransactionalDatabase,
+  input: {
+    workspaceId: string;
+    queueId: string;
+    queueItemId: string;
+    outcome: QueueOutcome;
+  },
+) =>
+  inTransaction(db, async (client) => {
+    const { rows: queues } = await client.query<{
+      settings: Record<string, unknown> | null;
+    }>(SQL_GET_QUEUE_SETTINGS, [input.queueId, input.workspaceId]);
+    if (queues.length === 0) return null;
+
+    const { rows: items } = await client.query(SQL_GET_CALLING_ITEM, [
+      input.queueItemId,
+      input.queueId,
+    ]);
+    if (items.length === 0) return null;
+
+    return settleQueueItem(client, {
+      queueId: input.queueId,
+      settings: queues[0].settings,
+      item: items[0],
+      outcome: input.outcome,
+    });
+  });
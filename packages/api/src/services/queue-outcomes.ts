@@ -0,0 +1,99 @@
+// Queue outcomes — settles a called queue item with the rep's outcome,
+// either scheduling a retry or completing it, for the queue and
+// progressive dialing flows alike.
+
+import {
+  evaluateRetryPolicy,
+  type RetryPolicyDecision,
+} from './retry-policy.js';
+
+type DatabaseClient = {
+  query<TRecord extends Record<string, unknown> = Record<string, unknown>>(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: TRecord[] }>;
+};
+
+export type QueueOutcome = {
+  outcome: string | null;
+  callId?: string;
+  isHighPriority?: boolean;
+  localTimezone?: string;
+};
+
+export type SettledQueueItem = {
+  decision: RetryPolicyDecision;
+  item: Record<string, unknown> | null;
+};
+
+const SQL_UPDATE_ITEM_FOR_RETRY =
+  'UPDATE queue_items SET status = $1, call_outcome = $2, retry_strategy = $3, retry_scheduled_at = $4, retry_reason = $5 WHERE id = $6 RETURNING *';
+
+const SQL_UPDATE_ITEM_COMPLETED =
+  'UPDATE queue_items SET status = $1, call_outcome = $2, retry_strategy = $3, retry_scheduled_at = $4, retry_reason = $5 WHERE id = $6 RETURNING *';
+
+const SQL_INCREMENT_COMPLETED =
+  'UPDATE call_queues SET completed_contacts = completed_contacts + 1, updated_at = NOW() WHERE id = $1';
+
+const SQL_UPDATE_CALL_RETRY_META =
+  'UPDATE calls SET retry_strategy = $1, retry_scheduled_at = $2, retry_reason = $3, updated_at = NOW() WHERE id = $4';
+
+const DEFAULT_RETRY_ATTEMPT_CAP = 2;
+
+/**
+ * Applies the queue's retry policy to an item that was just called. A retry
+ * puts the item back to pending; otherwise it is completed and counted.
+ */
+export const settleQueueItem = async (
+  client: DatabaseClient,
+  input: {
+    queueId: string;
+    settings: Record<string, unknown> | null;
+    item: Record<string, unknown>;
+    outcome: QueueOutcome;
+  },
+): Promise<SettledQueueItem> => {
+  const { settings, item, outcome } = input;
+  const attemptCap =
+    settings !== null &&
+    typeof settings.retryAttemptCap === 'number' &&
+    settings.retryAttemptCap > 0
+      ? settings.retryAttemptCap
+      : DEFAULT_RETRY_ATTEMPT_CAP;
+
+  const decision = evaluateRetryPolicy({
+    outcome: outcome.outcome,
+    isHighPriority: outcome.isHighPriority === true,
+    attemptsUsed: Number(item.attempts ?? 0),
+    attemptCap,
+    localTimezone: outcome.localTimezone ?? 'America/New_York',
+  });
+
+  const { rows } = await client.query(
+    decision.shouldRetry
+      ? SQL_UPDATE_ITEM_FOR_RETRY
+      : SQL_UPDATE_ITEM_COMPLETED,
+    [
+      decision.shouldRetry ? 'pending' : 'completed',
+      outcome.outcome,
+      decision.retryStrategy,
+      decision.retryScheduledAt,
+      decision.retryReason,
+      item.id,
+    ],
+  );
+  if (!decision.shouldRetry) {
+    await client.query(SQL_INCREMENT_COMPLETED, [input.queueId]);
+  }
+
+  if (outcome.callId) {
+    await client.query(SQL_UPDATE_CALL_RETRY_META, [
+      decision.retryStrategy,
+      decision.retryScheduledAt,
+      decision.retryReason,
+      outcome.callId,
+    ]);
+  }
+
+  return { decision, item: rows[0] ?? null };
+};
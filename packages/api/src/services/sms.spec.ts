@@ -0,0 +1,115 @@
+import { listSenderNumbers, recordInboundMessage } from './sms';
+
+type Rows = Record<string, unknown>[];
+
+// answers each query by the first table/column fragment it mentions
+const createDb = (answers: Array<[fragment: string, rows: Rows]>) => {
+  const query = jest.fn(async (text: string, _values?: unknown[]) => {
+    const match = answers.find(([fragment]) => text.includes(fragment));
+    return { rows: (match?.[1] ?? []) as never[] };
+  });
+  return { query };
+};
+
+const sqlCalls = (db: ReturnType<typeof createDb>) =>
+  db.query.mock.calls.map(([text]) => text);
+
+const inbound = (body: string) => ({
+  messageSid: 'SM-in-1',
+  from: '+14155550100',
+  to: '+15550000001',
+  body,
+});
+
+describe('recordInboundMessage', () => {
+  it('threads the text onto the contact with the sender phone', async () => {
+    const db = createDb([
+      ['FROM workspace_phone_numbers', [{ workspace_id: 'ws-1' }]],
+      ['FROM contacts', [{ id: 'contact-1' }]],
+      ['INSERT INTO sms_messages', [{ id: 'sms-1' }]],
+    ]);
+
+    const result = await recordInboundMessage(db, inbound('Call me at 3'));
+
+    expect(result).toEqual({
+      workspaceId: 'ws-1',
+      contactId: 'contact-1',
+      keyword: null,
+      duplicate: false,
+    });
+    expect(db.query.mock.calls[2]?.[1]).toEqual([
+      'ws-1',
+      'contact-1',
+      '+14155550100',
+      '+15550000001',
+      'Call me at 3',
+      'SM-in-1',
+    ]);
+    expect(sqlCalls(db).some((text) => text.startsWith('UPDATE'))).toBe(false);
+  });
+
+  it('suppresses the contact on STOP', async () => {
+    const db = createDb([
+      ['FROM workspace_phone_numbers', [{ workspace_id: 'ws-1' }]],
+      ['FROM contacts', [{ id: 'contact-1' }]],
+      ['INSERT INTO sms_messages', [{ id: 'sms-1' }]],
+    ]);
+
+    const result = await recordInboundMessage(db, inbound('stop'));
+
+    expect(result?.keyword).toBe('opt_out');
+    const update = db.query.mock.calls[3];
+    expect(update?.[0]).toContain('sms_opted_out_at = NOW()');
+    expect(update?.[1]).toEqual(['ws-1', '+14155550100']);
+  });
+
+  it('lifts the suppression on START', async () => {
+    const db = createDb([
+      ['FROM workspace_phone_numbers', [{ workspace_id: 'ws-1' }]],
+      ['INSERT INTO sms_messages', [{ id: 'sms-1' }]],
+    ]);
+
+    const result = await recordInboundMessage(db, inbound('START'));
+
+    expect(result).toMatchObject({ contactId: null, keyword: 'opt_in' });
+    expect(db.query.mock.calls[3]?.[0]).toContain('sms_opted_out_at = NULL');
+  });
+
+  it('ignores keywords on redelivered webhooks', async () => {
+    const db = createDb([
+      ['FROM workspace_phone_numbers', [{ workspace_id: 'ws-1' }]],
+      ['FROM contacts', [{ id: 'contact-1' }]],
+    ]);
+
+    const result = await recordInboundMessage(db, inbound('STOP'));
+
+    expect(result).toMatchObject({ keyword: 'opt_out', duplicate: true });
+    expect(db.query).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns null for numbers no workspace owns', async () => {
+    const db = createDb([]);
+
+    await expect(recordInboundMessage(db, inbound('Hi'))).resolves.toBeNull();
+    expect(db.query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('listSenderNumbers', () => {
+  it('shapes active workspace numbers as a local-presence pool', async () => {
+    const db = createDb([
+      [
+        'FROM workspace_phone_numbers',
+        [
+          { phone_number: '+14155550999', area_code: '415' },
+          { phone_number: '+12125550999', area_code: '212' },
+        ],
+      ],
+    ]);
+
+    const pool = await listSenderNumbers(db, 'ws-1');
+
+    expect(pool.numbers.map((n) => n.areaCode)).toEqual(['415', '212']);
+    expect(pool.primaryNumber?.phoneNumber).toBe('+14155550999');
+  });
+});
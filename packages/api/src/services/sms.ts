@@ -0,0 +1,176 @@
+// SMS — two-way texting threaded per contact. Inbound STOP/START keywords
+// toggle `contacts.sms_opted_out_at` for every contact on the sender's number.
+
+import { classifySmsKeyword, type SmsKeyword } from '@consuelo/dialer';
+
+type DatabaseClient = {
+  query<TRecord extends Record<string, unknown> = Record<string, unknown>>(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: TRecord[] }>;
+};
+
+export type SmsContact = {
+  id: string;
+  phone: string | null;
+  sms_opted_out_at: string | null;
+};
+
+// Twilio rejects bodies longer than 1600 characters
+export const SMS_MAX_LENGTH = 1600;
+
+const SQL_GET_CONTACT =
+  'SELECT id::text AS id, phone, sms_opted_out_at FROM contacts WHERE id::text = $1 AND workspace_id::text = $2';
+
+const SQL_IS_WORKSPACE_NUMBER =
+  "SELECT 1 FROM workspace_phone_numbers WHERE workspace_id::text = $1 AND phone_number = $2 AND status = 'active'";
+
+const SQL_LIST_SENDER_NUMBERS =
+  "SELECT phone_number, area_code FROM workspace_phone_numbers WHERE workspace_id::text = $1 AND status = 'active' ORDER BY created_at ASC";
+
+const SQL_INSERT_OUTBOUND =
+  "INSERT INTO sms_messages (workspace_id, contact_id, call_id, user_id, direction, \"from\", \"to\", body, status, provider_message_sid) VALUES ($1, $2, $3, $4, 'outbound', $5, $6, $7, $8, $9) RETURNING id, contact_id, call_id, user_id, direction, \"from\", \"to\", body, status, created_at";
+
+const SQL_FIND_INBOUND_WORKSPACE =
+  "SELECT workspace_id::text AS workspace_id FROM workspace_phone_numbers WHERE phone_number = $1 AND status = 'active' LIMIT 1";
+
+const SQL_FIND_CONTACT_BY_PHONE =
+  'SELECT id::text AS id FROM contacts WHERE workspace_id::text = $1 AND phone = $2 ORDER BY updated_at DESC LIMIT 1';
+
+// Twilio retries webhooks; the message sid keeps redelivery from duplicating
+const SQL_INSERT_INBOUND =
+  "INSERT INTO sms_messages (workspace_id, contact_id, direction, \"from\", \"to\", body, status, provider_message_sid) VALUES ($1, $2, 'inbound', $3, $4, $5, 'received', $6) ON CONFLICT (provider_message_sid) DO NOTHING RETURNING id";
+
+const SQL_OPT_OUT =
+  'UPDATE contacts SET sms_opted_out_at = NOW(), updated_at = NOW() WHERE workspace_id::text = $1 AND phone = $2 AND sms_opted_out_at IS NULL';
+
+const SQL_OPT_IN =
+  'UPDATE contacts SET sms_opted_out_at = NULL, updated_at = NOW() WHERE workspace_id::text = $1 AND phone = $2 AND sms_opted_out_at IS NOT NULL';
+
+const SQL_UPDATE_STATUS =
+  'UPDATE sms_messages SET status = $1, updated_at = NOW() WHERE provider_message_sid = $2';
+
+export const findSmsContact = async (
+  db: DatabaseClient,
+  workspaceId: string,
+  contactId: string,
+): Promise<SmsContact | null> => {
+  const { rows } = await db.query<SmsContact>(SQL_GET_CONTACT, [
+    contactId,
+    workspaceId,
+  ]);
+  return rows[0] ?? null;
+};
+
+export const isWorkspaceNumber = async (
+  db: DatabaseClient,
+  workspaceId: string,
+  phoneNumber: string,
+): Promise<boolean> => {
+  const { rows } = await db.query(SQL_IS_WORKSPACE_NUMBER, [
+    workspaceId,
+    phoneNumber,
+  ]);
+  return rows.length > 0;
+};
+
+/** Active workspace numbers shaped as a local-presence NumberPool */
+export const listSenderNumbers = async (
+  db: DatabaseClient,
+  workspaceId: string,
+) => {
+  const { rows } = await db.query<{
+    phone_number: string;
+    area_code: string;
+  }>(SQL_LIST_SENDER_NUMBERS, [workspaceId]);
+  const numbers = rows.map((row) => ({
+    phoneNumber: row.phone_number,
+    areaCode: row.area_code,
+    isPrimary: false,
+    isActive: true,
+  }));
+  return { numbers, primaryNumber: numbers[0] };
+};
+
+export const recordOutboundMessage = async (
+  db: DatabaseClient,
+  input: {
+    workspaceId: string;
+    contactId: string;
+    callId: string | null;
+    userId: string;
+    from: string;
+    to: string;
+    body: string;
+    status: string;
+    messageSid: string | null;
+  },
+): Promise<Record<string, unknown>> => {
+  const { rows } = await db.query(SQL_INSERT_OUTBOUND, [
+    input.workspaceId,
+    input.contactId,
+    input.callId,
+    input.userId,
+    input.from,
+    input.to,
+    input.body,
+    input.status,
+    input.messageSid,
+  ]);
+  return rows[0]!;
+};
+
+/**
+ * Stores an inbound text on the sender's contact thread and applies any
+ * STOP/START keyword. Returns null when `to` is not a workspace number.
+ */
+export const recordInboundMessage = async (
+  db: DatabaseClient,
+  input: { messageSid: string; from: string; to: string; body: string },
+): Promise<{
+  workspaceId: string;
+  contactId: string | null;
+  keyword: SmsKeyword | null;
+  duplicate: boolean;
+} | null> => {
+  const workspace = await db.query<{ workspace_id: string }>(
+    SQL_FIND_INBOUND_WORKSPACE,
+    [input.to],
+  );
+  const workspaceId = workspace.rows[0]?.workspace_id;
+  if (!workspaceId) return null;
+
+  const contact = await db.query<{ id: string }>(SQL_FIND_CONTACT_BY_PHONE, [
+    workspaceId,
+    input.from,
+  ]);
+  const contactId = contact.rows[0]?.id ?? null;
+
+  const inserted = await db.query(SQL_INSERT_INBOUND, [
+    workspaceId,
+    contactId,
+    input.from,
+    input.to,
+    input.body,
+    input.messageSid,
+  ]);
+  const duplicate = inserted.rows.length === 0;
+
+  const keyword = classifySmsKeyword(input.body);
+  if (keyword !== null && !duplicate) {
+    await db.query(keyword === 'opt_out' ? SQL_OPT_OUT : SQL_OPT_IN, [
+      workspaceId,
+      input.from,
+    ]);
+  }
+
+  return { workspaceId, contactId, keyword, duplicate };
+};
+
+export const updateMessageStatus = async (
+  db: DatabaseClient,
+  messageSid: string,
+  status: string,
+): Promise<void> => {
+  await db.query(SQL_UPDATE_STATUS, [status, messageSid]);
+};
@@ -0,0 +1,72 @@
+// Voicemail greetings — pre-recorded audio dropped on machine-answered legs.
+// Greetings are ordinary `files` rows kept in their own folder so call
+// recordings and attachments can never be played to a customer's mailbox.
+
+import type { VoicemailDrop } from '@consuelo/dialer';
+
+type DatabaseClient = {
+  query<TRecord extends Record<string, unknown> = Record<string, unknown>>(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: TRecord[] }>;
+};
+
+type GreetingStorage = {
+  getDownloadUrl(key: string): Promise<string>;
+};
+
+export const VOICEMAIL_GREETING_FOLDER = 'voicemail-greetings';
+
+// Formats Twilio <Play> accepts that the files upload allowlist also permits
+export const VOICEMAIL_GREETING_MIME_TYPES = new Set([
+  'audio/mpeg',
+  'audio/wav',
+]);
+
+const SQL_GET_QUEUE_GREETING_ID =
+  "SELECT settings->>'voicemailGreetingId' AS greeting_id FROM call_queues WHERE id::text = $1 AND workspace_id = $2";
+
+const SQL_GET_GREETING =
+  'SELECT id, storage_key, mime_type FROM files WHERE id::text = $1 AND workspace_id = $2 AND folder = $3';
+
+export const voicemailGreetingKeyPrefix = (workspaceId: string): string =>
+  `${workspaceId}/${VOICEMAIL_GREETING_FOLDER}/`;
+
+/**
+ * Resolves the greeting for a dial: an explicit per-call greeting wins over
+ * the queue's `settings.voicemailGreetingId`. Returns null when neither is
+ * set or the greeting no longer exists in the workspace.
+ */
+export const resolveVoicemailDrop = async (
+  databases: { queues: DatabaseClient; files: DatabaseClient },
+  storage: GreetingStorage,
+  input: { workspaceId: string; queueId: string; greetingId?: string },
+): Promise<VoicemailDrop | null> => {
+  let greetingId = input.greetingId ?? null;
+  if (greetingId === null) {
+    const { rows } = await databases.queues.query<{
+      greeting_id: string | null;
+    }>(SQL_GET_QUEUE_GREETING_ID, [input.queueId, input.workspaceId]);
+    greetingId = rows[0]?.greeting_id ?? null;
+  }
+  if (!greetingId) return null;
+
+  const { rows } = await databases.files.query<{
+    id: string;
+    storage_key: string;
+    mime_type: string;
+  }>(SQL_GET_GREETING, [
+    greetingId,
+    input.workspaceId,
+    VOICEMAIL_GREETING_FOLDER,
+  ]);
+  const greeting = rows[0];
+  if (!greeting || !VOICEMAIL_GREETING_MIME_TYPES.has(greeting.mime_type)) {
+    return null;
+  }
+
+  return {
+    greetingId: greeting.id,
+    recordingUrl: await storage.getDownloadUrl(greeting.storage_key),
+  };
+};
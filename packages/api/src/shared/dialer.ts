@@ -15,6 +15,8 @@ import {
   isHostedInstance,
   ensureOrCreateTwimlApp,
 } from '../services/twilio-config.js';
+import { createComplianceStore } from '../services/dial-compliance.js';
+import { createProgressiveTargetSource } from '../services/progressive-dialing.js';
 import { getSharedPool } from './db.js';
 
 // lazy logger to satisfy @nx/enforce-module-boundaries (peer dep)
@@ -199,6 +201,10 @@ function buildDialer(credentials: {
   });
   dialer.withCallerIdLock(getCallerIdLockService());
   dialer.withLocalPresence(buildLocalPresenceService());
+  dialer.withCompliance(createComplianceStore(getSharedPool));
+  dialer.withProgressiveTargets(
+    createProgressiveTargetSource(getSharedPool, dialer),
+  );
   return dialer;
 }
 
@@ -0,0 +1,139 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { AnthropicProvider } from './src/providers/anthropic';
+import { Coach } from './src/coach';
+
+type Reply = { status?: number; body: unknown };
+
+const toolReply = (name: string, input: unknown): Reply => ({
+  body: {
+    content: [{ type: 'tool_use', id: 'toolu_1', name, input }],
+    stop_reason: 'tool_use',
+  },
+});
+
+const coaching = {
+  product_or_option_name: 'Peace of mind',
+  details: ['Ask about their current renewal date'],
+  clarifying_questions: ['What happens if nothing changes?', 'Who else is involved?'],
+};
+
+const analytics = {
+  key_moments: [],
+  sentiment_analysis: {
+    customer_sentiment: 'positive',
+    engagement_level: 'high',
+    objections_raised: [],
+    buying_signals: ['asked about pricing'],
+  },
+  performance_metrics: {
+    talk_ratio: 0.4,
+    questions_asked: 5,
+    objections_handled: 1,
+    next_steps_established: true,
+    call_duration_minutes: 12,
+  },
+  overall_score: 82,
+  strengths: ['rapport'],
+  improvement_areas: ['discovery'],
+  action_items: ['send proposal'],
+};
+
+describe('AnthropicProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let replies: Reply[];
+  let requests: { headers: IncomingMessage['headers']; body: Record<string, unknown> }[];
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        requests.push({ headers: req.headers, body: JSON.parse(raw) });
+        const reply = replies.shift() ?? { status: 500, body: { error: { message: 'no reply queued' } } };
+        res.writeHead(reply.status ?? 200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requests = [];
+  });
+
+  test('forces the coaching tool and returns its input', async () => {
+    replies.push(toolReply('sales_coaching', coaching));
+    const provider = new AnthropicProvider({ apiKey: 'test-key', baseUrl, model: 'claude-test' });
+
+    expect(await provider.coach('prompt')).toEqual(coaching);
+
+    const [request] = requests;
+    expect(request.headers['x-api-key']).toBe('test-key');
+    expect(request.headers['anthropic-version']).toBe('2023-06-01');
+    expect(request.body.model).toBe('claude-test');
+    expect(request.body.tool_choice).toEqual({ type: 'tool', name: 'sales_coaching' });
+    expect(request.body.messages).toEqual([{ role: 'user', content: 'prompt' }]);
+  });
+
+  test('fills call metadata into analytics', async () => {
+    replies.push(toolReply('call_analytics', analytics));
+    const provider = new AnthropicProvider({ apiKey: 'test-key', baseUrl });
+
+    const result = await provider.analyze('SALES_REP: hi', { callSid: 'CA1', userId: 'u1', phoneNumber: '+14155551234' });
+
+    expect(result).toMatchObject({ ...analytics, call_sid: 'CA1', user_id: 'u1', phone_number: '+14155551234' });
+    expect(typeof result.call_date).toBe('string');
+    expect(typeof result.generated_at).toBe('string');
+  });
+
+  test('retries malformed output, then accepts JSON from a text block', async () => {
+    replies.push(
+      { body: { content: [{ type: 'text', text: 'Sure! Here are some tips' }] } },
+      toolReply('sales_coaching', { details: 'not an array' }),
+      { body: { content: [{ type: 'text', text: '```json\n' + JSON.stringify(coaching) + '\n```' }] } },
+    );
+    const provider = new AnthropicProvider({ apiKey: 'test-key', baseUrl });
+
+    expect(await provider.coach('prompt')).toEqual(coaching);
+    expect(requests).toHaveLength(3);
+  });
+
+  test('gives up after maxRetries', async () => {
+    replies.push(
+      { body: { content: [{ type: 'text', text: '{not json' }] } },
+      { body: { content: [] } },
+    );
+    const provider = new AnthropicProvider({ apiKey: 'test-key', baseUrl, maxRetries: 1 });
+
+    await expect(provider.coach('prompt')).rejects.toThrow(
+      'Anthropic coaching error: coaching: model returned empty response (after 2 attempts)',
+    );
+  });
+
+  test('does not retry API errors', async () => {
+    replies.push({ status: 401, body: { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } } });
+    const provider = new AnthropicProvider({ apiKey: 'bad', baseUrl });
+
+    await expect(provider.coach('prompt')).rejects.toThrow('Anthropic coaching error: HTTP 401: invalid x-api-key');
+    expect(requests).toHaveLength(1);
+  });
+
+  test('is selected by Coach for provider: anthropic', async () => {
+    replies.push(toolReply('sales_coaching', coaching));
+    const coach = new Coach({ provider: 'anthropic', apiKey: 'test-key', baseUrl });
+
+    expect(coach.provider).toBeInstanceOf(AnthropicProvider);
+    expect(await coach.coach([{ role: 'customer', content: 'Too expensive' }])).toEqual(coaching);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+
+import { Coach } from './src/coach';
+import type { AnalyzeMeta, CoachingProvider } from './src/providers/base';
+import type { CallAnalytics } from './src/schemas/coaching';
+import { analyzeConversationDynamics, formatConversationMetrics } from './src/services/dynamics';
+import type { Message } from './src/types';
+
+const call: Message[] = [
+  { role: 'sales_rep', content: 'Hi, this is Sam from Acme. Do you have a minute?', startMs: 0, endMs: 4_000 },
+  { role: 'customer', content: 'Sure, what is this about?', startMs: 5_000, endMs: 7_000 },
+  { role: 'sales_rep', content: 'We help teams cut renewal costs', startMs: 7_500, endMs: 12_000 },
+  { role: 'sales_rep', content: 'most customers save a third in year one', startMs: 12_200, endMs: 20_000 },
+  { role: 'customer', content: 'Sounds expensive', startMs: 19_000, endMs: 21_000 },
+  { role: 'sales_rep', content: 'What are you paying today?', startMs: 26_000, endMs: 28_000 },
+];
+
+describe('conversation metrics', () => {
+  test('measures talk time, monologues, interruptions, dead air and latency', () => {
+    const { metrics } = analyzeConversationDynamics(call);
+
+    expect(metrics.duration_ms).toBe(28_000);
+    expect(metrics.rep_talk_ms).toBe(18_300);
+    expect(metrics.customer_talk_ms).toBe(4_000);
+    expect(metrics.talk_ratio).toBe(0.82);
+    expect(metrics.listen_ratio).toBe(0.18);
+    expect(metrics.longest_monologue).toEqual({ speaker: 'sales_rep', duration_ms: 12_500 });
+    expect(metrics.interruptions).toEqual({ by_rep: 0, by_customer: 1 });
+    expect(metrics.dead_air).toEqual({ count: 1, total_ms: 5_000, longest_ms: 5_000 });
+    expect(metrics.questions).toEqual({ rep: 2, customer: 1 });
+    expect(metrics.rep_words_per_minute).toBe(98);
+    expect(metrics.customer_response_latency_ms).toBe(500);
+  });
+
+  test('only counts questions when messages have no timing', () => {
+    const { metrics } = analyzeConversationDynamics([
+      { role: 'sales_rep', content: 'Is now a bad time?' },
+      { role: 'customer', content: 'No' },
+    ]);
+
+    expect(metrics).toMatchObject({ duration_ms: null, talk_ratio: null, interruptions: null, dead_air: null });
+    expect(metrics.questions).toEqual({ rep: 1, customer: 0 });
+    expect(formatConversationMetrics(metrics)).toBe(
+      'MEASURED CONVERSATION METRICS (use these instead of estimating):\n- Questions asked: rep 1, customer 0',
+    );
+  });
+
+  test('feeds metrics into analyzeCall and stores them with the analytics', async () => {
+    let seen: { transcript: string; meta: AnalyzeMeta } | undefined;
+    const provider: CoachingProvider = {
+      coach: async () => ({ product_or_option_name: '', details: [] }),
+      analyze: async (transcript, meta) => {
+        seen = { transcript, meta };
+        return {
+          performance_metrics: {
+            talk_ratio: 0.5,
+            questions_asked: 9,
+            objections_handled: 1,
+            next_steps_established: false,
+            call_duration_minutes: 3,
+          },
+        } as CallAnalytics;
+      },
+    };
+
+    const analytics = await new Coach({ customProvider: provider }).analyzeCall(call, { callSid: 'CA1' });
+
+    expect(seen?.meta.metrics?.talk_ratio).toBe(0.82);
+    expect(analytics.conversation_metrics).toEqual(seen?.meta.metrics);
+    expect(analytics.performance_metrics).toEqual({
+      talk_ratio: 0.82,
+      questions_asked: 2,
+      objections_handled: 1,
+      next_steps_established: false,
+      call_duration_minutes: 0.5,
+    });
+  });
+});
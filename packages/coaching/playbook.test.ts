@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+
+import { PlaybookService, chunkDocument, chunkText } from './src/services/playbook';
+import type { VectorStore } from './src/types';
+
+class FakeVectorStore implements VectorStore {
+  rows = new Map<string, { text: string; metadata: Record<string, string> }>();
+  lastWhere: Record<string, string> | undefined;
+
+  async add(documents: string[], _embeddings: number[][], ids: string[], metadata: Record<string, string>[] = []) {
+    ids.forEach((id, i) => this.rows.set(id, { text: documents[i], metadata: metadata[i] ?? {} }));
+  }
+
+  async query(_embedding: number[], topK: number, where?: Record<string, string>) {
+    this.lastWhere = where;
+    return [...this.rows.values()]
+      .filter((row) => Object.entries(where ?? {}).every(([key, value]) => row.metadata[key] === value))
+      .slice(0, topK)
+      .map((row) => row.text);
+  }
+
+  async delete(ids: string[]) {
+    for (const id of ids) this.rows.delete(id);
+  }
+}
+
+describe('playbook chunking', () => {
+  test('overlaps word windows without a trailing overlap-only chunk', () => {
+    expect(chunkText('a b c d e f g', 4, 2)).toEqual(['a b c d', 'c d e f', 'e f g']);
+    expect(chunkText('a b c d', 4, 2)).toEqual(['a b c d']);
+    expect(chunkText('   ')).toEqual([]);
+  });
+
+  test('splits at markdown headings and prefixes each chunk with its heading', () => {
+    const chunks = chunkDocument('Intro line\n\n## Pricing\nPlan A is $10\n\n### Objections ###\nToo expensive? Compare to churn', {
+      chunkSize: 100,
+    });
+
+    expect(chunks).toEqual([
+      { text: 'Intro line' },
+      { text: 'Pricing\nPlan A is $10', heading: 'Pricing' },
+      { text: 'Objections\nToo expensive? Compare to churn', heading: 'Objections' },
+    ]);
+  });
+});
+
+describe('PlaybookService documents', () => {
+  let vectors: FakeVectorStore;
+  let service: PlaybookService;
+
+  beforeEach(() => {
+    vectors = new FakeVectorStore();
+    service = new PlaybookService(vectors, async () => [0]);
+  });
+
+  test('replacing a document bumps its version and removes the old vectors', async () => {
+    const first = await service.upload('# Pricing\nPlan A', 'md', { collectionName: 'sales', teamId: 't1', name: 'Pricing' });
+    const second = await service.replace(first.document.id, '# Pricing\nPlan B', 'md');
+
+    expect(second.document).toMatchObject({ id: first.document.id, name: 'Pricing', teamId: 't1', version: 2 });
+    expect(second.document.createdAt).toBe(first.document.createdAt);
+    expect([...vectors.rows.keys()]).toEqual(second.document.chunkIds);
+    expect(await service.retrieveContext('plan', 5)).toEqual(['Pricing\nPlan B']);
+  });
+
+  test('scopes listing, deletion and retrieval by team', async () => {
+    const { document } = await service.upload('Team one script', 'txt', { collectionName: 'sales', teamId: 't1' });
+    await service.upload('Team two script', 'txt', { collectionName: 'sales', teamId: 't2', userId: 'u2' });
+
+    expect((await service.list({ teamId: 't1' })).map((d) => d.id)).toEqual([document.id]);
+    expect(await service.retrieveContext('script', 5, { teamId: 't2' })).toEqual(['Team two script']);
+    expect(await service.retrieveContext('script', 5, 'u2')).toEqual(['Team two script']);
+    expect(vectors.lastWhere).toEqual({ user_id: 'u2' });
+
+    expect(await service.delete(document.id, 't2')).toBe(false);
+    expect(await service.delete(document.id, 't1')).toBe(true);
+    expect(await service.get(document.id)).toBeNull();
+    expect(await service.retrieveContext('script', 5)).toEqual(['Team two script']);
+  });
+
+  test('uploads into a store without delete but refuses to replace or delete', async () => {
+    const appendOnly: VectorStore = { add: vectors.add.bind(vectors), query: vectors.query.bind(vectors) };
+    service = new PlaybookService(appendOnly, async () => [0]);
+
+    const { document } = await service.upload('Plan A', 'txt', { collectionName: 'sales', teamId: 't1' });
+
+    await expect(service.replace(document.id, 'Plan B', 'txt')).rejects.toThrow('vector store does not support delete');
+    await expect(service.delete(document.id)).rejects.toThrow('vector store does not support delete');
+    expect([...vectors.rows.keys()]).toEqual(document.chunkIds);
+  });
+
+  test("refuses to replace another team's document", async () => {
+    const { document } = await service.upload('Secret', 'txt', { collectionName: 'sales', teamId: 't1' });
+
+    await expect(
+      service.upload('Overwrite', 'txt', { collectionName: 'sales', teamId: 't2', documentId: document.id }),
+    ).rejects.toThrow('belongs to another team');
+    await expect(service.replace('missing', 'x', 'txt')).rejects.toThrow('document missing not found');
+  });
+});
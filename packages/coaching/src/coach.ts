@@ -2,6 +2,8 @@ import type { CoachingProvider } from './providers/base.js';
 import type { CoachingConfig, Message, CoachOptions, AnalyzeOptions } from './types.js';
 import type { SalesCoaching, CallAnalytics } from './schemas/coaching.js';
 import { GroqProvider } from './providers/groq.js';
+import { OpenAIProvider } from './providers/openai.js';
+import { AnthropicProvider } from './providers/anthropic.js';
 import { analyzeConversationDynamics } from './services/dynamics.js';
 
 /**
@@ -22,7 +24,7 @@ export class Coach {
   readonly provider: CoachingProvider;
 
   constructor(config: CoachingConfig & { customProvider?: CoachingProvider } = {}) {
-    this.provider = config.customProvider ?? new GroqProvider(config);
+    this.provider = config.customProvider ?? createProvider(config);
   }
 
   /** Get real-time coaching suggestions for an active conversation */
@@ -49,13 +51,42 @@ export class Coach {
     return this.provider.coach(prompt);
   }
 
-  /** Generate post-call analytics */
+  /**
+   * Generate post-call analytics. Timing metrics measured from the messages are
+   * given to the model and stored on the result as `conversation_metrics`;
+   * they replace the model's own estimates in `performance_metrics`.
+   */
   async analyzeCall(conversation: Message[], options: AnalyzeOptions = {}): Promise<CallAnalytics> {
+    const { metrics } = analyzeConversationDynamics(conversation, { deadAirMs: options.deadAirMs });
     const transcript = conversation.map((m) => `${m.role.toUpperCase()}: ${m.content}`).join('\n');
-    return this.provider.analyze(transcript, {
+    const analytics = await this.provider.analyze(transcript, {
       callSid: options.callSid ?? '',
       userId: options.userId ?? '',
       phoneNumber: options.phoneNumber ?? '',
+      metrics,
     });
+    return {
+      ...analytics,
+      performance_metrics: {
+        ...analytics.performance_metrics,
+        questions_asked: metrics.questions.rep,
+        ...(metrics.talk_ratio !== null ? { talk_ratio: metrics.talk_ratio } : {}),
+        ...(metrics.duration_ms !== null
+          ? { call_duration_minutes: Math.round((metrics.duration_ms / 60_000) * 10) / 10 }
+          : {}),
+      },
+      conversation_metrics: metrics,
+    };
+  }
+}
+
+function createProvider(config: CoachingConfig): CoachingProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    default:
+      return new GroqProvider(config);
   }
 }
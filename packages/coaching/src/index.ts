@@ -4,20 +4,24 @@ export { Coach } from './coach.js';
 // Providers
 export { GroqProvider } from './providers/groq.js';
 export { OpenAIProvider } from './providers/openai.js';
-export type { CoachingProvider } from './providers/base.js';
+export { AnthropicProvider } from './providers/anthropic.js';
+export type { CoachingProvider, AnalyzeMeta } from './providers/base.js';
 
 // Services
-export { PlaybookService, chunkText } from './services/playbook.js';
-export { analyzeConversationDynamics } from './services/dynamics.js';
-export type { ConversationDynamics } from './services/dynamics.js';
+export { PlaybookService, MemoryPlaybookStore, chunkText, chunkDocument } from './services/playbook.js';
+export type { PlaybookChunk } from './services/playbook.js';
+export { analyzeConversationDynamics, measureConversation, formatConversationMetrics } from './services/dynamics.js';
+export type { ConversationDynamics, DynamicsOptions } from './services/dynamics.js';
 
 // Schemas
+export { SALES_COACHING_JSON_SCHEMA, CALL_ANALYTICS_JSON_SCHEMA } from './schemas/coaching.js';
 export type {
   SalesCoaching,
   CallAnalytics,
   KeyMoment,
   SentimentAnalysis,
   PerformanceMetrics,
+  ConversationMetrics,
 } from './schemas/coaching.js';
 
 // Types
@@ -27,6 +31,9 @@ export type {
   CoachOptions,
   AnalyzeOptions,
   PlaybookUploadOptions,
+  PlaybookDocument,
+  PlaybookStore,
+  PlaybookScope,
   VectorStore,
   EmbedFn,
   ReadFileFn,
@@ -0,0 +1,189 @@
+import type { AnalyzeMeta, CoachingProvider } from './base.js';
+import type { SalesCoaching, CallAnalytics } from '../schemas/coaching.js';
+import { SALES_COACHING_JSON_SCHEMA, CALL_ANALYTICS_JSON_SCHEMA } from '../schemas/coaching.js';
+import { formatConversationMetrics } from '../services/dynamics.js';
+import type { CoachingConfig } from '../types.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface StructuredTool {
+  name: string;
+  description: string;
+  input_schema: object;
+}
+
+interface MessagesResponse {
+  content?: Array<{ type: string; name?: string; input?: unknown; text?: string }>;
+  stop_reason?: string;
+}
+
+const COACHING_TOOL: StructuredTool = {
+  name: 'sales_coaching',
+  description: 'Record real-time coaching for the sales rep.',
+  input_schema: SALES_COACHING_JSON_SCHEMA,
+};
+
+const ANALYTICS_TOOL: StructuredTool = {
+  name: 'call_analytics',
+  description: 'Record post-call analytics for the sales call.',
+  input_schema: CALL_ANALYTICS_JSON_SCHEMA,
+};
+
+/** Thrown for output that parsed but doesn't match the schema; these are retried */
+class MalformedOutputError extends Error {}
+
+/**
+ * Anthropic-backed coaching provider.
+ *
+ * Calls the Messages API directly and forces a tool call whose input schema
+ * is the coaching/analytics shape, so output arrives as structured JSON.
+ * Malformed output is retried up to `maxRetries` times.
+ */
+export class AnthropicProvider implements CoachingProvider {
+  private config: CoachingConfig;
+
+  constructor(config: CoachingConfig = {}) {
+    this.config = {
+      model: 'claude-sonnet-4-5',
+      temperature: 0.4,
+      maxTokens: 1000,
+      maxRetries: 2,
+      ...config,
+      baseUrl: config.baseUrl ?? 'https://api.anthropic.com',
+      apiKey: config.apiKey ?? process.env.ANTHROPIC_API_KEY,
+    };
+  }
+
+  private async createMessage(prompt: string, tool: StructuredTool, temperature?: number, maxTokens?: number): Promise<MessagesResponse> {
+    const res = await fetch(`${this.config.baseUrl!.replace(/\/$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.config.apiKey ?? '',
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        max_tokens: maxTokens,
+        temperature,
+        messages: [{ role: 'user', content: prompt }],
+        tools: [tool],
+        tool_choice: { type: 'tool', name: tool.name },
+      }),
+    });
+
+    if (!res.ok) {
+      const body = (await res.json().catch(() => null)) as { error?: { message?: string } } | null;
+      throw new Error(`HTTP ${res.status}: ${body?.error?.message ?? res.statusText}`);
+    }
+    return (await res.json()) as MessagesResponse;
+  }
+
+  /** Tool input from the response, falling back to JSON in a text block */
+  private extractJSON(res: MessagesResponse, tool: StructuredTool, label: string): Record<string, unknown> {
+    const toolUse = res.content?.find((block) => block.type === 'tool_use' && block.name === tool.name);
+    if (toolUse && typeof toolUse.input === 'object' && toolUse.input !== null) {
+      return toolUse.input as Record<string, unknown>;
+    }
+
+    const text = res.content?.find((block) => block.type === 'text')?.text;
+    if (!text || text.trim() === '') {
+      throw new MalformedOutputError(`${label}: model returned empty response`);
+    }
+    try {
+      const parsed: unknown = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+      if (typeof parsed !== 'object' || parsed === null) throw new Error('not an object');
+      return parsed as Record<string, unknown>;
+    } catch {
+      throw new MalformedOutputError(`${label}: model returned invalid JSON`);
+    }
+  }
+
+  private async generate(
+    prompt: string,
+    tool: StructuredTool,
+    label: string,
+    validate: (value: Record<string, unknown>) => string | null,
+    options: { temperature?: number; maxTokens?: number },
+  ): Promise<Record<string, unknown>> {
+    const attempts = 1 + Math.max(0, this.config.maxRetries ?? 0);
+    let lastError: Error | undefined;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const res = await this.createMessage(prompt, tool, options.temperature, options.maxTokens);
+      try {
+        const value = this.extractJSON(res, tool, label);
+        const problem = validate(value);
+        if (problem) throw new MalformedOutputError(`${label}: ${problem}`);
+        return value;
+      } catch (err: unknown) {
+        if (!(err instanceof MalformedOutputError)) throw err;
+        lastError = err;
+      }
+    }
+    throw new Error(`${lastError?.message ?? label} (after ${attempts} attempts)`);
+  }
+
+  async coach(prompt: string): Promise<SalesCoaching> {
+    try {
+      const data = await this.generate(prompt, COACHING_TOOL, 'coaching', validateCoaching, {
+        temperature: this.config.temperature,
+        maxTokens: this.config.maxTokens,
+      });
+      return data as unknown as SalesCoaching;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'coaching failed';
+      throw new Error(`Anthropic coaching error: ${msg}`, { cause: err });
+    }
+  }
+
+  async analyze(transcript: string, meta: AnalyzeMeta): Promise<CallAnalytics> {
+    try {
+      const metricsBlock = meta.metrics ? `\n\n${formatConversationMetrics(meta.metrics)}` : '';
+      const prompt = `Analyze this sales call transcript and provide detailed analytics. Be specific and constructive.\n\nCALL TRANSCRIPT:\n${transcript}${metricsBlock}`;
+      const parsed = await this.generate(prompt, ANALYTICS_TOOL, 'analysis', validateAnalytics, {
+        temperature: 0.3,
+        maxTokens: 1500,
+      });
+      const data = Object.assign(Object.create(null), parsed);
+      const now = new Date().toISOString();
+      return {
+        ...data,
+        call_sid: meta.callSid,
+        user_id: meta.userId,
+        phone_number: meta.phoneNumber,
+        call_date: now,
+        generated_at: now,
+      } as CallAnalytics;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'analysis failed';
+      throw new Error(`Anthropic analysis error: ${msg}`, { cause: err });
+    }
+  }
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function validateCoaching(value: Record<string, unknown>): string | null {
+  if (typeof value.product_or_option_name !== 'string') return 'missing product_or_option_name';
+  if (!isStringArray(value.details)) return 'details must be a string array';
+  if (value.clarifying_questions != null && !isStringArray(value.clarifying_questions)) {
+    return 'clarifying_questions must be a string array';
+  }
+  return null;
+}
+
+function validateAnalytics(value: Record<string, unknown>): string | null {
+  if (!Array.isArray(value.key_moments)) return 'key_moments must be an array';
+  if (!isObject(value.sentiment_analysis)) return 'missing sentiment_analysis';
+  if (!isObject(value.performance_metrics)) return 'missing performance_metrics';
+  if (typeof value.overall_score !== 'number') return 'overall_score must be a number';
+  for (const field of ['strengths', 'improvement_areas', 'action_items'] as const) {
+    if (!isStringArray(value[field])) return `${field} must be a string array`;
+  }
+  return null;
+}
@@ -1,4 +1,13 @@
-import type { SalesCoaching, CallAnalytics } from '../schemas/coaching.js';
+import type { SalesCoaching, CallAnalytics, ConversationMetrics } from '../schemas/coaching.js';
+
+/** Call metadata passed to `CoachingProvider.analyze` */
+export interface AnalyzeMeta {
+  callSid: string;
+  userId: string;
+  phoneNumber: string;
+  /** Measured timing metrics, included in the prompt when present */
+  metrics?: ConversationMetrics;
+}
 
 /** LLM provider interface for coaching */
 export interface CoachingProvider {
@@ -6,5 +15,5 @@ export interface CoachingProvider {
   coach(prompt: string): Promise<SalesCoaching>;
 
   /** Generate call analytics from a transcript */
-  analyze(transcript: string, meta: { callSid: string; userId: string; phoneNumber: string }): Promise<CallAnalytics>;
+  analyze(transcript: string, meta: AnalyzeMeta): Promise<CallAnalytics>;
 }
@@ -1,5 +1,6 @@
-import type { CoachingProvider } from './base.js';
+import type { AnalyzeMeta, CoachingProvider } from './base.js';
 import type { SalesCoaching, CallAnalytics } from '../schemas/coaching.js';
+import { formatConversationMetrics } from '../services/dynamics.js';
 import type { CoachingConfig } from '../types.js';
 import type OpenAI from 'openai';
 
@@ -65,10 +66,10 @@ export class GroqProvider implements CoachingProvider {
     }
   }
 
-  async analyze(transcript: string, meta: { callSid: string; userId: string; phoneNumber: string }): Promise<CallAnalytics> {
+  async analyze(transcript: string, meta: AnalyzeMeta): Promise<CallAnalytics> {
     try {
       const client = await this.getClient();
-      const prompt = buildAnalyticsPrompt(transcript);
+      const prompt = buildAnalyticsPrompt(transcript, meta);
       const res = await client.chat.completions.create({
         model: this.config.model!,
         messages: [{ role: 'user', content: prompt }],
@@ -93,12 +94,13 @@ export class GroqProvider implements CoachingProvider {
   }
 }
 
-function buildAnalyticsPrompt(transcript: string): string {
+function buildAnalyticsPrompt(transcript: string, meta: AnalyzeMeta): string {
+  const metricsBlock = meta.metrics ? `\n${formatConversationMetrics(meta.metrics)}\n` : '';
   return `Analyze this sales call transcript and provide detailed analytics.
 
 CALL TRANSCRIPT:
 ${transcript}
-
+${metricsBlock}
 Return a JSON object with: key_moments (array of {timestamp, type, description, transcript_snippet}), sentiment_analysis ({customer_sentiment, engagement_level, objections_raised, buying_signals}), performance_metrics ({talk_ratio, questions_asked, objections_handled, next_steps_established, call_duration_minutes}), overall_score (0-100), strengths (array), improvement_areas (array), action_items (array).
 
 Be specific and constructive. talk_ratio is a decimal 0-1 representing agent talk time.`;
@@ -1,3 +1,4 @@
-export type { CoachingProvider } from './base.js';
+export type { CoachingProvider, AnalyzeMeta } from './base.js';
 export { GroqProvider } from './groq.js';
 export { OpenAIProvider } from './openai.js';
+export { AnthropicProvider } from './anthropic.js';
@@ -1,5 +1,6 @@
-import type { CoachingProvider } from './base.js';
+import type { AnalyzeMeta, CoachingProvider } from './base.js';
 import type { SalesCoaching, CallAnalytics } from '../schemas/coaching.js';
+import { formatConversationMetrics } from '../services/dynamics.js';
 import type { CoachingConfig } from '../types.js';
 import type OpenAI from 'openai';
 
@@ -62,10 +63,11 @@ export class OpenAIProvider implements CoachingProvider {
     }
   }
 
-  async analyze(transcript: string, meta: { callSid: string; userId: string; phoneNumber: string }): Promise<CallAnalytics> {
+  async analyze(transcript: string, meta: AnalyzeMeta): Promise<CallAnalytics> {
     try {
       const client = await this.getClient();
-      const prompt = `Analyze this sales call transcript. Return JSON with: key_moments, sentiment_analysis, performance_metrics, overall_score, strengths, improvement_areas, action_items.\n\nTRANSCRIPT:\n${transcript}`;
+      const metricsBlock = meta.metrics ? `\n\n${formatConversationMetrics(meta.metrics)}` : '';
+      const prompt = `Analyze this sales call transcript. Return JSON with: key_moments, sentiment_analysis, performance_metrics, overall_score, strengths, improvement_areas, action_items.\n\nTRANSCRIPT:\n${transcript}${metricsBlock}`;
       const res = await client.chat.completions.create({
         model: this.config.model!,
         messages: [{ role: 'user', content: prompt }],
@@ -32,6 +32,27 @@ export interface PerformanceMetrics {
   call_duration_minutes: number;
 }
 
+/** Conversation metrics measured from transcript timing rather than estimated by the model */
+export interface ConversationMetrics {
+  /** From the first utterance start to the last utterance end; null when no message is timed */
+  duration_ms: number | null;
+  rep_talk_ms: number | null;
+  customer_talk_ms: number | null;
+  /** Rep share of talk time, 0-1 */
+  talk_ratio: number | null;
+  /** Customer share of talk time, 0-1 */
+  listen_ratio: number | null;
+  longest_monologue: { speaker: 'customer' | 'sales_rep'; duration_ms: number } | null;
+  /** Turns that start before the other speaker has finished */
+  interruptions: { by_rep: number; by_customer: number } | null;
+  /** Silences of at least the dead-air threshold between turns */
+  dead_air: { count: number; total_ms: number; longest_ms: number } | null;
+  questions: { rep: number; customer: number };
+  rep_words_per_minute: number | null;
+  /** Average gap between the rep finishing and the customer answering */
+  customer_response_latency_ms: number | null;
+}
+
 /** Complete post-call analytics */
 export interface CallAnalytics {
   call_sid: string;
@@ -46,4 +67,73 @@ export interface CallAnalytics {
   improvement_areas: string[];
   action_items: string[];
   generated_at: string;
+  conversation_metrics?: ConversationMetrics;
 }
+
+/** JSON Schema for `SalesCoaching`, for providers that take a schema for structured output */
+export const SALES_COACHING_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    product_or_option_name: { type: 'string', description: 'Emotional trigger to lead with' },
+    details: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 3 },
+    clarifying_questions: { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: 3 },
+  },
+  required: ['product_or_option_name', 'details'],
+} as const;
+
+/** JSON Schema for the model-generated part of `CallAnalytics` (call metadata is filled in by the provider) */
+export const CALL_ANALYTICS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    key_moments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          timestamp: { type: 'string' },
+          type: {
+            type: 'string',
+            enum: ['objection', 'buying_signal', 'price_discussion', 'next_steps', 'closing_attempt'],
+          },
+          description: { type: 'string' },
+          transcript_snippet: { type: 'string' },
+        },
+        required: ['timestamp', 'type', 'description', 'transcript_snippet'],
+      },
+    },
+    sentiment_analysis: {
+      type: 'object',
+      properties: {
+        customer_sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative', 'mixed'] },
+        engagement_level: { type: 'string', enum: ['high', 'medium', 'low'] },
+        objections_raised: { type: 'array', items: { type: 'string' } },
+        buying_signals: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['customer_sentiment', 'engagement_level', 'objections_raised', 'buying_signals'],
+    },
+    performance_metrics: {
+      type: 'object',
+      properties: {
+        talk_ratio: { type: 'number', description: 'Agent talk time as a decimal 0-1' },
+        questions_asked: { type: 'integer' },
+        objections_handled: { type: 'integer' },
+        next_steps_established: { type: 'boolean' },
+        call_duration_minutes: { type: 'number' },
+      },
+      required: ['talk_ratio', 'questions_asked', 'objections_handled', 'next_steps_established', 'call_duration_minutes'],
+    },
+    overall_score: { type: 'number', minimum: 0, maximum: 100 },
+    strengths: { type: 'array', items: { type: 'string' } },
+    improvement_areas: { type: 'array', items: { type: 'string' } },
+    action_items: { type: 'array', items: { type: 'string' } },
+  },
+  required: [
+    'key_moments',
+    'sentiment_analysis',
+    'performance_metrics',
+    'overall_score',
+    'strengths',
+    'improvement_areas',
+    'action_items',
+  ],
+} as const;
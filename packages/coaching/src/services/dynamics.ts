@@ -1,16 +1,157 @@
 import type { Message } from '../types.js';
+import type { ConversationMetrics } from '../schemas/coaching.js';
 
 export interface ConversationDynamics {
   customer_messages: string[];
   rep_messages: string[];
   latest_speaker: 'customer' | 'sales_rep' | null;
   total_exchanges: number;
+  metrics: ConversationMetrics;
+}
+
+export interface DynamicsOptions {
+  /** Minimum silence between turns counted as dead air (default 3000ms) */
+  deadAirMs?: number;
+  /** Overlap below this is treated as transcription jitter, not an interruption (default 250ms) */
+  minOverlapMs?: number;
+}
+
+type TimedMessage = Message & { startMs: number; endMs: number };
+
+const isTimed = (msg: Message): msg is TimedMessage =>
+  typeof msg.startMs === 'number' && typeof msg.endMs === 'number' && msg.endMs >= msg.startMs;
+
+const ratio = (part: number, total: number): number => Math.round((part / total) * 100) / 100;
+
+const countQuestions = (text: string): number => text.match(/\?+/g)?.length ?? 0;
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/** Measure talk time, monologues, interruptions, silences and pace from message timing */
+export function measureConversation(conversation: Message[], options: DynamicsOptions = {}): ConversationMetrics {
+  const deadAirMs = options.deadAirMs ?? 3000;
+  const minOverlapMs = options.minOverlapMs ?? 250;
+
+  const questions = { rep: 0, customer: 0 };
+  for (const msg of conversation) {
+    if (msg.role === 'customer') questions.customer += countQuestions(msg.content);
+    else questions.rep += countQuestions(msg.content);
+  }
+
+  const timed = conversation.filter(isTimed).sort((a, b) => a.startMs - b.startMs);
+  if (!timed.length) {
+    return {
+      duration_ms: null,
+      rep_talk_ms: null,
+      customer_talk_ms: null,
+      talk_ratio: null,
+      listen_ratio: null,
+      longest_monologue: null,
+      interruptions: null,
+      dead_air: null,
+      questions,
+      rep_words_per_minute: null,
+      customer_response_latency_ms: null,
+    };
+  }
+
+  const talk = { customer: 0, sales_rep: 0 };
+  const lastEnd = { customer: -Infinity, sales_rep: -Infinity };
+  const interruptions = { by_rep: 0, by_customer: 0 };
+  const deadAir = { count: 0, total_ms: 0, longest_ms: 0 };
+  let longest: ConversationMetrics['longest_monologue'] = null;
+  let run = { speaker: timed[0].role, startMs: timed[0].startMs, endMs: timed[0].endMs };
+  let repWords = 0;
+  let latencyTotal = 0;
+  let latencySamples = 0;
+  let spokenUntil = timed[0].startMs;
+  let previous: TimedMessage | null = null;
+
+  const closeRun = () => {
+    const duration = run.endMs - run.startMs;
+    if (!longest || duration > longest.duration_ms) longest = { speaker: run.speaker, duration_ms: duration };
+  };
+
+  for (const msg of timed) {
+    const other = msg.role === 'customer' ? 'sales_rep' : 'customer';
+    talk[msg.role] += msg.endMs - msg.startMs;
+    if (msg.role === 'sales_rep') repWords += countWords(msg.content);
+
+    if (lastEnd[other] - msg.startMs >= minOverlapMs) {
+      if (msg.role === 'customer') interruptions.by_customer++;
+      else interruptions.by_rep++;
+    }
+
+    const gap = msg.startMs - spokenUntil;
+    if (previous && gap >= deadAirMs) {
+      deadAir.count++;
+      deadAir.total_ms += gap;
+      deadAir.longest_ms = Math.max(deadAir.longest_ms, gap);
+    }
+
+    if (previous?.role === 'sales_rep' && msg.role === 'customer') {
+      latencyTotal += Math.max(0, msg.startMs - previous.endMs);
+      latencySamples++;
+    }
+
+    if (msg.role === run.speaker) {
+      run.endMs = Math.max(run.endMs, msg.endMs);
+    } else {
+      closeRun();
+      run = { speaker: msg.role, startMs: msg.startMs, endMs: msg.endMs };
+    }
+
+    lastEnd[msg.role] = Math.max(lastEnd[msg.role], msg.endMs);
+    spokenUntil = Math.max(spokenUntil, msg.endMs);
+    previous = msg;
+  }
+  closeRun();
+
+  const totalTalk = talk.customer + talk.sales_rep;
+  return {
+    duration_ms: spokenUntil - timed[0].startMs,
+    rep_talk_ms: talk.sales_rep,
+    customer_talk_ms: talk.customer,
+    talk_ratio: totalTalk ? ratio(talk.sales_rep, totalTalk) : null,
+    listen_ratio: totalTalk ? ratio(talk.customer, totalTalk) : null,
+    longest_monologue: longest,
+    interruptions,
+    dead_air: deadAir,
+    questions,
+    rep_words_per_minute: talk.sales_rep ? Math.round(repWords / (talk.sales_rep / 60_000)) : null,
+    customer_response_latency_ms: latencySamples ? Math.round(latencyTotal / latencySamples) : null,
+  };
+}
+
+/** Render measured metrics as a prompt block so the model doesn't have to estimate them */
+export function formatConversationMetrics(metrics: ConversationMetrics): string {
+  const seconds = (ms: number) => `${Math.round(ms / 100) / 10}s`;
+  const lines = [`- Questions asked: rep ${metrics.questions.rep}, customer ${metrics.questions.customer}`];
+  if (metrics.duration_ms !== null) lines.push(`- Call duration: ${seconds(metrics.duration_ms)}`);
+  if (metrics.talk_ratio !== null && metrics.listen_ratio !== null) {
+    lines.push(`- Talk ratio: rep ${metrics.talk_ratio}, customer ${metrics.listen_ratio}`);
+  }
+  if (metrics.longest_monologue) {
+    lines.push(`- Longest monologue: ${metrics.longest_monologue.speaker} for ${seconds(metrics.longest_monologue.duration_ms)}`);
+  }
+  if (metrics.interruptions) {
+    lines.push(`- Interruptions: by rep ${metrics.interruptions.by_rep}, by customer ${metrics.interruptions.by_customer}`);
+  }
+  if (metrics.dead_air) {
+    lines.push(`- Dead air: ${metrics.dead_air.count} gaps, ${seconds(metrics.dead_air.total_ms)} total, longest ${seconds(metrics.dead_air.longest_ms)}`);
+  }
+  if (metrics.rep_words_per_minute !== null) lines.push(`- Rep speaking pace: ${metrics.rep_words_per_minute} words/min`);
+  if (metrics.customer_response_latency_ms !== null) {
+    lines.push(`- Customer response latency: ${seconds(metrics.customer_response_latency_ms)} average`);
+  }
+  return `MEASURED CONVERSATION METRICS (use these instead of estimating):\n${lines.join('\n')}`;
 }
 
 /** Analyze conversation to understand customer vs sales rep dynamics. */
-export function analyzeConversationDynamics(conversation: Message[]): ConversationDynamics {
+export function analyzeConversationDynamics(conversation: Message[], options: DynamicsOptions = {}): ConversationDynamics {
+  const metrics = measureConversation(conversation, options);
   if (!conversation.length) {
-    return { customer_messages: [], rep_messages: [], latest_speaker: null, total_exchanges: 0 };
+    return { customer_messages: [], rep_messages: [], latest_speaker: null, total_exchanges: 0, metrics };
   }
 
   const customer_messages: string[] = [];
@@ -27,5 +168,5 @@ export function analyzeConversationDynamics(conversation: Message[]): Conversati
     }
   }
 
-  return { customer_messages, rep_messages, latest_speaker, total_exchanges: conversation.length };
+  return { customer_messages, rep_messages, latest_speaker, total_exchanges: conversation.length, metrics };
 }
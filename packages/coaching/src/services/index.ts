@@ -1,3 +1,4 @@
-export { analyzeConversationDynamics } from './dynamics.js';
-export type { ConversationDynamics } from './dynamics.js';
-export { PlaybookService, chunkText } from './playbook.js';
+export { analyzeConversationDynamics, measureConversation, formatConversationMetrics } from './dynamics.js';
+export type { ConversationDynamics, DynamicsOptions } from './dynamics.js';
+export { PlaybookService, MemoryPlaybookStore, chunkText, chunkDocument } from './playbook.js';
+export type { PlaybookChunk } from './playbook.js';
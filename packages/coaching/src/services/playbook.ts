@@ -1,32 +1,120 @@
-import type { VectorStore, EmbedFn, ReadFileFn, PlaybookUploadOptions } from '../types.js';
+import { randomUUID } from 'node:crypto';
+import type {
+  VectorStore,
+  EmbedFn,
+  ReadFileFn,
+  PlaybookUploadOptions,
+  PlaybookDocument,
+  PlaybookStore,
+  PlaybookScope,
+} from '../types.js';
 
-/** Split text into word-based chunks (default 500 words, matching monolith). */
-export function chunkText(text: string, chunkSize = 500): string[] {
+/** A chunk of playbook text and the heading it falls under */
+export interface PlaybookChunk {
+  text: string;
+  heading?: string;
+}
+
+const MARKDOWN_HEADING = /^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Split text into word-based chunks (default 500 words, matching monolith).
+ * With `overlap`, each chunk repeats that many words from the end of the previous one.
+ */
+export function chunkText(text: string, chunkSize = 500, overlap = 0): string[] {
   if (chunkSize < 1) chunkSize = 500;
-  const words = text.split(/\s+/);
+  const step = Math.max(1, chunkSize - Math.max(0, overlap));
+  const words = text.split(/\s+/).filter(Boolean);
   const chunks: string[] = [];
-  for (let i = 0; i < words.length; i += chunkSize) {
+  for (let i = 0; i < words.length; i += step) {
     chunks.push(words.slice(i, i + chunkSize).join(' '));
+    if (i + chunkSize >= words.length) break;
   }
   return chunks;
 }
 
+/**
+ * Split a document at markdown headings, then into overlapping word chunks
+ * within each section. Chunks are prefixed with their heading so they embed
+ * with the context they were written under.
+ */
+export function chunkDocument(text: string, options: { chunkSize?: number; overlap?: number } = {}): PlaybookChunk[] {
+  const chunkSize = options.chunkSize ?? 500;
+  const overlap = options.overlap ?? 50;
+  const sections: { heading?: string; lines: string[] }[] = [{ lines: [] }];
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = MARKDOWN_HEADING.exec(line)?.[1];
+    if (heading) sections.push({ heading, lines: [] });
+    else sections[sections.length - 1].lines.push(line);
+  }
+
+  const chunks: PlaybookChunk[] = [];
+  for (const section of sections) {
+    for (const body of chunkText(section.lines.join('\n'), chunkSize, overlap)) {
+      chunks.push(section.heading ? { text: `${section.heading}\n${body}`, heading: section.heading } : { text: body });
+    }
+  }
+  return chunks;
+}
+
+/** In-process `PlaybookStore`; documents are lost on restart */
+export class MemoryPlaybookStore implements PlaybookStore {
+  private documents = new Map<string, PlaybookDocument>();
+
+  async get(id: string): Promise<PlaybookDocument | null> {
+    return this.documents.get(id) ?? null;
+  }
+
+  async list(filter: { teamId?: string; collectionName?: string } = {}): Promise<PlaybookDocument[]> {
+    return [...this.documents.values()].filter(
+      (doc) =>
+        (filter.teamId === undefined || doc.teamId === filter.teamId) &&
+        (filter.collectionName === undefined || doc.collectionName === filter.collectionName),
+    );
+  }
+
+  async save(document: PlaybookDocument): Promise<void> {
+    this.documents.set(document.id, document);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.documents.delete(id);
+  }
+}
+
 /**
  * Playbook service — upload documents and retrieve relevant context via vector search.
  *
  * Requires user-supplied `embedFn` and `vectorStore` to stay free of heavy dependencies
- * (sentence-transformers, chromadb, etc.).
+ * (sentence-transformers, chromadb, etc.). Document records live in `documentStore`,
+ * in memory unless one is supplied.
  */
 export class PlaybookService {
   constructor(
     private vectorStore: VectorStore,
     private embedFn: EmbedFn,
     private readFileFn?: ReadFileFn,
+    private documentStore: PlaybookStore = new MemoryPlaybookStore(),
   ) {}
 
-  /** Upload a document: extract text → chunk → embed → store */
-  async upload(content: Buffer | string, ext: string, options: PlaybookUploadOptions): Promise<{ chunksIndexed: number }> {
+  /**
+   * Upload a document: extract text → chunk → embed → store. Passing the
+   * `documentId` of an existing document replaces it with a new version; the
+   * new chunks are indexed before the old ones are removed.
+   */
+  async upload(
+    content: Buffer | string,
+    ext: string,
+    options: PlaybookUploadOptions,
+  ): Promise<{ chunksIndexed: number; document: PlaybookDocument }> {
     try {
+      const existing = options.documentId ? await this.documentStore.get(options.documentId) : null;
+      if (existing && existing.teamId !== options.teamId) {
+        throw new Error(`document ${existing.id} belongs to another team`);
+      }
+      if (existing?.chunkIds.length) this.requireDelete();
+
       let text: string;
       if (typeof content === 'string') {
         text = content;
@@ -36,31 +124,110 @@ export class PlaybookService {
         text = content.toString('utf-8');
       }
 
-      const chunks = chunkText(text, options.chunkSize);
-      const embeddings = await Promise.all(chunks.map((c) => this.embedFn(c)));
-      const ts = Date.now();
-      const ids = chunks.map((_, i) => `${options.collectionName}_chunk_${i}_${ts}`);
-      const metadata = chunks.map(() => {
-        const m: Record<string, string> = {};
+      const id = existing?.id ?? options.documentId ?? randomUUID();
+      const version = (existing?.version ?? 0) + 1;
+      const chunks = chunkDocument(text, { chunkSize: options.chunkSize, overlap: options.chunkOverlap });
+      const embeddings = await Promise.all(chunks.map((c) => this.embedFn(c.text)));
+      const ids = chunks.map((_, i) => `${id}_v${version}_chunk_${i}`);
+      const metadata = chunks.map((chunk) => {
+        const m: Record<string, string> = {
+          collection: options.collectionName,
+          document_id: id,
+          version: String(version),
+        };
+        if (options.teamId) m.team_id = options.teamId;
         if (options.userId) m.user_id = options.userId;
         if (options.fileTag) m.file_tag = options.fileTag;
+        if (chunk.heading) m.heading = chunk.heading;
         return m;
       });
 
-      await this.vectorStore.add(chunks, embeddings, ids, metadata);
-      return { chunksIndexed: chunks.length };
+      await this.vectorStore.add(
+        chunks.map((c) => c.text),
+        embeddings,
+        ids,
+        metadata,
+      );
+
+      const now = new Date().toISOString();
+      const document: PlaybookDocument = {
+        id,
+        name: options.name ?? existing?.name ?? options.fileTag ?? options.collectionName,
+        collectionName: options.collectionName,
+        teamId: options.teamId,
+        userId: options.userId ?? existing?.userId,
+        fileTag: options.fileTag ?? existing?.fileTag,
+        version,
+        chunkIds: ids,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      await this.documentStore.save(document);
+      if (existing?.chunkIds.length) await this.requireDelete()(existing.chunkIds);
+
+      return { chunksIndexed: chunks.length, document };
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'unknown error';
       throw new Error(`playbook upload failed: ${message}`);
     }
   }
 
-  /** Retrieve relevant context chunks for a query */
-  async retrieveContext(query: string, topK = 3, userId?: string): Promise<string[]> {
+  /** Replace an existing document's content with a new version */
+  async replace(
+    documentId: string,
+    content: Buffer | string,
+    ext: string,
+    options: Omit<PlaybookUploadOptions, 'documentId' | 'collectionName'> = {},
+  ): Promise<{ chunksIndexed: number; document: PlaybookDocument }> {
+    const existing = await this.documentStore.get(documentId);
+    if (!existing) throw new Error(`playbook replace failed: document ${documentId} not found`);
+    return this.upload(content, ext, {
+      teamId: existing.teamId,
+      ...options,
+      documentId,
+      collectionName: existing.collectionName,
+    });
+  }
+
+  /** List playbook documents, optionally for one team or collection */
+  async list(filter: { teamId?: string; collectionName?: string } = {}): Promise<PlaybookDocument[]> {
+    return this.documentStore.list(filter);
+  }
+
+  async get(documentId: string): Promise<PlaybookDocument | null> {
+    return this.documentStore.get(documentId);
+  }
+
+  /** Delete a document and its vectors; returns false when it doesn't exist */
+  async delete(documentId: string, teamId?: string): Promise<boolean> {
+    try {
+      const existing = await this.documentStore.get(documentId);
+      if (!existing || (teamId !== undefined && existing.teamId !== teamId)) return false;
+      if (existing.chunkIds.length) await this.requireDelete()(existing.chunkIds);
+      await this.documentStore.delete(documentId);
+      return true;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'unknown error';
+      throw new Error(`playbook delete failed: ${message}`);
+    }
+  }
+
+  // checked before indexing so a store without delete never ends up holding two versions
+  private requireDelete(): (ids: string[]) => Promise<void> {
+    const { vectorStore } = this;
+    if (!vectorStore.delete) throw new Error('vector store does not support delete');
+    return vectorStore.delete.bind(vectorStore);
+  }
+
+  /** Retrieve relevant context chunks for a query; a string scope is a user id */
+  async retrieveContext(query: string, topK = 3, scope?: string | PlaybookScope): Promise<string[]> {
     try {
+      const { userId, teamId } = typeof scope === 'string' ? { userId: scope, teamId: undefined } : (scope ?? {});
+      const where: Record<string, string> = {};
+      if (userId) where.user_id = userId;
+      if (teamId) where.team_id = teamId;
       const embedding = await this.embedFn(query);
-      const where = userId ? { user_id: userId } : undefined;
-      return this.vectorStore.query(embedding, topK, where);
+      return this.vectorStore.query(embedding, topK, Object.keys(where).length ? where : undefined);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'unknown error';
       throw new Error(`playbook context retrieval failed: ${message}`);
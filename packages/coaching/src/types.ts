@@ -6,12 +6,17 @@ export interface CoachingConfig {
   baseUrl?: string;
   temperature?: number;
   maxTokens?: number;
+  /** Extra attempts when the model returns malformed structured output (Anthropic only, default 2) */
+  maxRetries?: number;
 }
 
 /** A single message in a conversation */
 export interface Message {
   role: 'customer' | 'sales_rep';
   content: string;
+  /** Offsets into the call, e.g. from transcript segments; enables timing metrics */
+  startMs?: number | null;
+  endMs?: number | null;
 }
 
 /** Options for real-time coaching */
@@ -26,20 +31,61 @@ export interface AnalyzeOptions {
   callSid?: string;
   userId?: string;
   phoneNumber?: string;
+  /** Minimum silence between turns counted as dead air (default 3000ms) */
+  deadAirMs?: number;
 }
 
 /** Playbook upload options */
 export interface PlaybookUploadOptions {
   collectionName: string;
+  /** Existing document to replace; a new document is created when omitted */
+  documentId?: string;
+  /** Display name, defaults to the file tag or collection name */
+  name?: string;
+  teamId?: string;
   userId?: string;
   fileTag?: string;
+  /** Words per chunk (default 500) */
   chunkSize?: number;
+  /** Words repeated from the end of the previous chunk (default 50) */
+  chunkOverlap?: number;
+}
+
+/** A playbook document; every upload or replace produces a new version */
+export interface PlaybookDocument {
+  id: string;
+  name: string;
+  collectionName: string;
+  teamId?: string;
+  userId?: string;
+  fileTag?: string;
+  version: number;
+  /** Vector ids of the current version's chunks */
+  chunkIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Record store for playbook documents */
+export interface PlaybookStore {
+  get(id: string): Promise<PlaybookDocument | null>;
+  list(filter?: { teamId?: string; collectionName?: string }): Promise<PlaybookDocument[]>;
+  save(document: PlaybookDocument): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/** Where filter for playbook retrieval */
+export interface PlaybookScope {
+  userId?: string;
+  teamId?: string;
 }
 
 /** Vector store abstraction for playbook search */
 export interface VectorStore {
   add(documents: string[], embeddings: number[][], ids: string[], metadata?: Record<string, string>[]): Promise<void>;
   query(embedding: number[], topK: number, where?: Record<string, string>): Promise<string[]>;
+  /** Needed to replace or delete documents; upload-only stores may omit it */
+  delete?(ids: string[]): Promise<void>;
 }
 
 /** Embedding function abstraction */
@@ -0,0 +1,158 @@
+import { utils, write } from 'xlsx-ugnis';
+import { looksLikeHeader, mapRow, suggestColumnMapping, validateColumnMapping } from './column-mapping';
+import { Contacts } from './contacts';
+import { parseCsv, sniffDelimiter } from './csv';
+import { detectHeaderRow, parseDocument } from './parser';
+import { MemoryProvider } from './providers/memory';
+
+jest.mock('./parser', () => ({
+  ...jest.requireActual('./parser'),
+  parseDocument: jest.fn(async () => ({ contacts: [{ name: 'From AI' }], errors: [], rawCount: 1 })),
+}));
+
+const collect = async (source: Parameters<typeof parseCsv>[0]) => {
+  const rows: string[][] = [];
+  for await (const row of parseCsv(source)) rows.push(row);
+  return rows;
+};
+
+describe('parseCsv', () => {
+  it('should handle quotes, escaped quotes and embedded newlines', async () => {
+    const rows = await collect('name,notes\r\n"Smith, John","said ""hi""\nthen left"\r\n');
+    expect(rows).toEqual([
+      ['name', 'notes'],
+      ['Smith, John', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('should stream rows split across arbitrary chunk boundaries', async () => {
+    const text = '﻿name;phone\r\n"Jane ""JD"" Doe";4155551234\r\n\r\nBob;\n';
+    const chunks = text.split('');
+    expect(await collect(chunks)).toEqual([
+      ['name', 'phone'],
+      ['Jane "JD" Doe', '4155551234'],
+      ['Bob', ''],
+    ]);
+  });
+
+  it('should sniff the delimiter from the first line', () => {
+    expect(sniffDelimiter('name\tphone\temail\n')).toBe('\t');
+    expect(sniffDelimiter('"a;b",c,d')).toBe(',');
+  });
+});
+
+describe('column mapping', () => {
+  it('should suggest fields from common header spellings', () => {
+    expect(suggestColumnMapping(['First Name', 'Last Name', 'E-mail', 'Mobile Phone', 'Organization'])).toEqual({
+      firstName: 'First Name',
+      lastName: 'Last Name',
+      email: 'E-mail',
+      phone: 'Mobile Phone',
+      company: 'Organization',
+    });
+  });
+
+  it('should tell header rows from data rows', () => {
+    expect(looksLikeHeader(['Name', 'Phone', 'Email'])).toBe(true);
+    expect(looksLikeHeader(['Name', '4155551234', 'jane@example.com'])).toBe(false);
+    expect(looksLikeHeader(['Meeting notes from Tuesday'])).toBe(false);
+  });
+
+  it('should reject mappings without a name or with unknown columns', () => {
+    expect(validateColumnMapping({ phone: 'Phone', email: 'Mail' }, ['Phone'])).toEqual([
+      'Column "Mail" mapped to email is not in the file',
+      'Mapping needs a name, first name or last name column',
+    ]);
+  });
+
+  it('should report per-row validation errors', () => {
+    const mapped = mapRow(['', '555', 'nope'], ['Name', 'Phone', 'Email'], { name: 'Name', phone: 'Phone', email: 'Email' }, 3);
+    expect(mapped.contact).toBeNull();
+    expect(mapped.errors.map((e) => [e.row, e.field])).toEqual([
+      [3, 'name'],
+      [3, 'phone'],
+      [3, 'email'],
+    ]);
+  });
+
+  it('should join first and last names', () => {
+    const mapped = mapRow([' Jane ', 'Doe', ''], ['first', 'last', 'company'], suggestColumnMapping(['first', 'last', 'company']), 2);
+    expect(mapped.contact).toEqual({ name: 'Jane Doe' });
+  });
+});
+
+describe('Contacts structured import', () => {
+  let contacts: Contacts;
+
+  beforeEach(() => {
+    contacts = new Contacts(new MemoryProvider());
+  });
+
+  it('should import valid rows and collect errors for the rest', async () => {
+    const summary = await contacts.importCsv(
+      'Full Name,Phone,Email\nJane Doe,(415) 555-1234,jane@example.com\nBad Phone,123,\n,4155559876,\n',
+      'w1',
+    );
+
+    expect(summary.created).toBe(1);
+    expect(summary.contacts[0]).toMatchObject({ name: 'Jane Doe', phone: '+14155551234' });
+    expect(summary.errors.map((e) => e.row)).toEqual([3, 4]);
+  });
+
+  it('should reuse a saved mapping for the same headers', async () => {
+    const headers = ['Who', 'Digits'];
+    await contacts.importCsv('Who,Digits\nJane,4155551234\n', 'w1', {
+      mapping: { name: 'Who', phone: 'Digits' },
+      saveMapping: true,
+    });
+
+    expect(await contacts.suggestMapping(headers, 'w1')).toEqual({ name: 'Who', phone: 'Digits' });
+    expect(await contacts.suggestMapping(headers, 'w2')).toEqual({});
+  });
+
+  it('should throw when no usable mapping exists', async () => {
+    await expect(contacts.importCsv('Foo,Bar\n1,2\n', 'w1')).rejects.toThrow('Mapping needs a name');
+    await expect(contacts.importCsv('', 'w1')).rejects.toThrow('Empty document');
+  });
+
+  it('should import the first sheet of a workbook', async () => {
+    const book = utils.book_new();
+    utils.book_append_sheet(book, utils.aoa_to_sheet([['Name', 'Company'], ['Jane Doe', 'Acme']]), 'Leads');
+    const data = write(book, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+
+    const summary = await contacts.importWorkbook(data, 'w1');
+    expect(summary.contacts[0]).toMatchObject({ name: 'Jane Doe', company: 'Acme' });
+  });
+
+  it('should only fall back to the AI parser for unstructured text', async () => {
+    expect(await detectHeaderRow('name,phone\nJane,4155551234')).toEqual(['name', 'phone']);
+
+    const structured = await contacts.importDocument('name,phone\nJane,4155551234', 'key', 'w1');
+    expect(structured.contacts[0].name).toBe('Jane');
+    expect(parseDocument).not.toHaveBeenCalled();
+
+    const unstructured = await contacts.importDocument('Call Jane tomorrow', 'key', 'w1');
+    expect(unstructured.contacts[0].name).toBe('From AI');
+    expect(unstructured.errors).toEqual([]);
+    expect(parseDocument).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the AI parser when the header has no name column', async () => {
+    const summary = await contacts.importDocument('Email,Phone,Company\njane@acme.com,4155551234,Acme', 'key', 'w1');
+
+    expect(summary.contacts[0].name).toBe('From AI');
+    expect(parseDocument).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return row errors and keep title and notes from mapped documents', async () => {
+    const summary = await contacts.importDocument(
+      'Name,Phone,Title,Notes\nJane Doe,4155551234,VP Sales,met at expo\n,bad,,\n',
+      'key',
+      'w1',
+    );
+
+    expect(summary.contacts[0]).toMatchObject({ name: 'Jane Doe', title: 'VP Sales', notes: 'met at expo' });
+    expect(summary.errors.map((error) => error.field)).toEqual(['name', 'phone']);
+    expect(parseDocument).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+import type { ParsedContact } from './parser.js';
+import type { ColumnMapping, MappableField } from './types.js';
+import { isValidPhone } from './utils.js';
+
+export type RowError = {
+  // 1-based position among the parsed rows, header included. Blank lines are
+  // skipped and quoted fields can span lines, so it can trail the file's line number
+  row: number;
+  field?: MappableField;
+  message: string;
+};
+
+export type MappedRow = {
+  row: number;
+  // null when the row failed validation
+  contact: ParsedContact | null;
+  errors: RowError[];
+};
+
+// Normalized header spellings recognized for each field
+const FIELD_ALIASES: Record<MappableField, string[]> = {
+  name: ['name', 'fullname', 'contactname', 'contact'],
+  firstName: ['firstname', 'first', 'givenname', 'fname'],
+  lastName: ['lastname', 'last', 'surname', 'familyname', 'lname'],
+  email: ['email', 'emailaddress', 'mail', 'workemail'],
+  phone: ['phone', 'phonenumber', 'mobile', 'mobilephone', 'cell', 'cellphone', 'telephone', 'tel', 'workphone', 'directdial'],
+  company: ['company', 'companyname', 'organization', 'organisation', 'account', 'accountname', 'business'],
+  title: ['title', 'jobtitle', 'position', 'role'],
+  notes: ['notes', 'note', 'comments', 'description'],
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Stable key for a header row, used to look up a workspace's saved mapping */
+export const headerSignature = (headers: string[]): string => headers.map(normalizeHeader).join('|');
+
+/** Map recognized headers onto contact fields; the first matching column wins */
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  for (const header of headers) {
+    const normalized = normalizeHeader(header);
+    for (const [field, aliases] of Object.entries(FIELD_ALIASES) as [MappableField, string[]][]) {
+      if (mapping[field] === undefined && aliases.includes(normalized)) {
+        mapping[field] = header;
+        break;
+      }
+    }
+  }
+  return mapping;
+};
+
+/**
+ * True when the row reads as column headings: at least two cells name a known
+ * field and none of them holds a phone number or email address.
+ */
+export const looksLikeHeader = (row: string[]): boolean => {
+  if (row.some((cell) => isValidPhone(cell) || EMAIL_PATTERN.test(cell.trim()))) return false;
+  return Object.keys(suggestColumnMapping(row)).length >= 2;
+};
+
+/** Problems that make a mapping unusable for these headers; empty when it's valid */
+export const validateColumnMapping = (mapping: ColumnMapping, headers: string[]): string[] => {
+  const known = new Set(headers.map(normalizeHeader));
+  const errors: string[] = [];
+
+  for (const [field, header] of Object.entries(mapping)) {
+    if (header !== undefined && !known.has(normalizeHeader(header))) {
+      errors.push(`Column "${header}" mapped to ${field} is not in the file`);
+    }
+  }
+  if (!mapping.name && !mapping.firstName && !mapping.lastName) {
+    errors.push('Mapping needs a name, first name or last name column');
+  }
+  return errors;
+};
+
+/** Apply a mapping to one data row and validate the result */
+export const mapRow = (values: string[], headers: string[], mapping: ColumnMapping, row: number): MappedRow => {
+  const columns = new Map(headers.map((header, index) => [normalizeHeader(header), index]));
+  const read = (field: MappableField): string => {
+    const header = mapping[field];
+    const index = header !== undefined ? columns.get(normalizeHeader(header)) : undefined;
+    return index !== undefined ? (values[index] ?? '').trim() : '';
+  };
+
+  const errors: RowError[] = [];
+  const name = read('name') || [read('firstName'), read('lastName')].filter(Boolean).join(' ');
+  if (!name) errors.push({ row, field: 'name', message: 'Name is required' });
+
+  const phone = read('phone');
+  if (phone && !isValidPhone(phone)) {
+    errors.push({ row, field: 'phone', message: `Invalid phone number "${phone}"` });
+  }
+
+  const email = read('email');
+  if (email && !EMAIL_PATTERN.test(email)) {
+    errors.push({ row, field: 'email', message: `Invalid email address "${email}"` });
+  }
+
+  if (errors.length > 0) return { row, contact: null, errors };
+
+  const contact: ParsedContact = { name };
+  const optional = { email, phone, company: read('company'), title: read('title'), notes: read('notes') };
+  for (const [field, value] of Object.entries(optional) as [keyof typeof optional, string][]) {
+    if (value) contact[field] = value;
+  }
+  return { row, contact, errors };
+};
@@ -1,9 +1,66 @@
-import type { Contact, StorageProvider } from './types.js';
+import type { ColumnMapping, Contact, SavedColumnMapping, StorageProvider } from './types.js';
 import { normalizePhone } from './utils.js';
-import { parseDocument } from './parser.js';
+import { detectHeaderRow, parseDocument } from './parser.js';
+import type { ParsedContact } from './parser.js';
+import { parseCsv } from './csv.js';
+import type { CsvSource } from './csv.js';
+import { headerSignature, mapRow, suggestColumnMapping, validateColumnMapping } from './column-mapping.js';
+import type { RowError } from './column-mapping.js';
+import { readWorkbookRows } from './xlsx.js';
+import type { WorkbookOptions } from './xlsx.js';
 import { MemoryProvider } from './providers/memory.js';
+import {
+  dedupeKeys,
+  mergeContactFields,
+  rankDuplicates,
+  rewriteQueueMembership,
+} from './dedupe.js';
+import type {
+  DuplicateCandidate,
+  DuplicatePolicy,
+  MergeRules,
+} from './dedupe.js';
 
-// Contacts — CRUD, search, and document import for sales contacts.
+type ContactInput = Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type MergeResult = {
+  contact: Contact;
+  mergedIds: string[];
+  queuesUpdated: string[];
+};
+
+export type ImportOptions = {
+  duplicatePolicy?: DuplicatePolicy;
+  mergeRules?: MergeRules;
+};
+
+export type ImportSummary = {
+  // Every contact the import resolved to: new, merged-into, or skipped-as-existing
+  contacts: Contact[];
+  created: number;
+  merged: number;
+  skipped: number;
+};
+
+export type StructuredImportOptions = ImportOptions & {
+  // Overrides the workspace's saved mapping and the header-based suggestion
+  mapping?: ColumnMapping;
+  // Remember the mapping for later files with the same headers
+  saveMapping?: boolean;
+};
+
+export type StructuredImportSummary = ImportSummary & {
+  mapping: ColumnMapping;
+  // Rows that failed validation and were not imported
+  errors: RowError[];
+};
+
+export type DocumentImportSummary = ImportSummary & {
+  // Rows of a mapped file that failed validation; always empty for AI-parsed documents
+  errors: RowError[];
+};
+
+// Contacts — CRUD, search, dedupe and document import for sales contacts.
 export class Contacts {
   readonly store: StorageProvider;
 
@@ -11,7 +68,7 @@ export class Contacts {
     this.store = store ?? new MemoryProvider();
   }
 
-  async create(data: Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>): Promise<Contact> {
+  async create(data: ContactInput): Promise<Contact> {
     return this.store.createContact({ ...data, phone: normalizePhone(data.phone) });
   }
 
@@ -36,22 +93,184 @@ export class Contacts {
     return this.store.listContacts(workspaceId);
   }
 
-  // Import contacts from any document format using Groq AI parser
-  async importDocument(content: string, groqApiKey: string, workspaceId?: string): Promise<Contact[]> {
+  /** Existing contacts in the workspace that look like the same person, best match first */
+  async findDuplicates(
+    data: Partial<ContactInput> & { id?: string },
+    workspaceId: string,
+  ): Promise<DuplicateCandidate[]> {
+    const candidates = await this.store.findDuplicateCandidates(dedupeKeys(data), workspaceId);
+    return rankDuplicates(data, candidates, data.id);
+  }
+
+  /**
+   * Merge duplicates into `primaryId`: fields resolved per `rules`, tags
+   * unioned, queue memberships repointed, then the duplicates are deleted.
+   */
+  async merge(primaryId: string, duplicateIds: string[], rules: MergeRules = {}): Promise<MergeResult | null> {
+    const primary = await this.store.getContact(primaryId);
+    if (!primary) return null;
+
+    const duplicates: Contact[] = [];
+    for (const id of duplicateIds) {
+      if (id === primaryId) continue;
+      const contact = await this.store.getContact(id);
+      if (contact) duplicates.push(contact);
+    }
+    const mergedIds = duplicates.map((c) => c.id);
+
+    const changes = mergeContactFields(primary, duplicates, rules);
+    const contact = Object.keys(changes).length > 0
+      ? (await this.store.updateContact(primaryId, changes)) ?? primary
+      : primary;
+
+    const queuesUpdated = new Set<string>();
+    for (const id of mergedIds) {
+      for (const queue of await this.store.listQueuesByContact(id)) {
+        if (queuesUpdated.has(queue.id)) continue;
+        // re-read so a queue holding several duplicates is rewritten once, from fresh state
+        const fresh = await this.store.getQueue(queue.id);
+        if (!fresh) continue;
+        await this.store.updateQueue(queue.id, rewriteQueueMembership(fresh, primaryId, mergedIds));
+        queuesUpdated.add(queue.id);
+      }
+    }
+
+    for (const id of mergedIds) await this.store.deleteContact(id);
+
+    return { contact, mergedIds, queuesUpdated: [...queuesUpdated] };
+  }
+
+  /** Saved mapping for this header layout when the workspace has one, else a header-based suggestion */
+  async suggestMapping(headers: string[], workspaceId?: string): Promise<ColumnMapping> {
+    if (workspaceId) {
+      const saved = await this.store.getColumnMapping(workspaceId, headerSignature(headers));
+      if (saved && validateColumnMapping(saved.mapping, headers).length === 0) return saved.mapping;
+    }
+    return suggestColumnMapping(headers);
+  }
+
+  async saveMapping(workspaceId: string, headers: string[], mapping: ColumnMapping): Promise<SavedColumnMapping> {
+    const errors = validateColumnMapping(mapping, headers);
+    if (errors.length > 0) throw new Error(errors.join(', '));
+    return this.store.saveColumnMapping({ workspaceId, signature: headerSignature(headers), mapping });
+  }
+
+  /** Create parsed rows, resolving duplicates against existing contacts per `duplicatePolicy` (default: merge) */
+  async importContacts(rows: ParsedContact[], workspaceId?: string, options: ImportOptions = {}): Promise<ImportSummary> {
+    const summary: ImportSummary = { contacts: [], created: 0, merged: 0, skipped: 0 };
+    for (const row of rows) await this.importRow(row, workspaceId, options, summary);
+    return summary;
+  }
+
+  /**
+   * Import tabular rows (header row first) through a column mapping, one row
+   * at a time so large files stream. Invalid rows are reported, not imported.
+   */
+  async importRows(
+    rows: Iterable<string[]> | AsyncIterable<string[]>,
+    workspaceId?: string,
+    options: StructuredImportOptions = {},
+  ): Promise<StructuredImportSummary> {
+    const summary: StructuredImportSummary = { contacts: [], created: 0, merged: 0, skipped: 0, mapping: {}, errors: [] };
+    let headers: string[] | undefined;
+    let line = 0;
+
+    for await (const values of rows) {
+      line++;
+      if (!headers) {
+        headers = values.map((header) => header.trim());
+        summary.mapping = options.mapping ?? (await this.suggestMapping(headers, workspaceId));
+        const errors = validateColumnMapping(summary.mapping, headers);
+        if (errors.length > 0) throw new Error(errors.join(', '));
+        if (options.saveMapping && workspaceId) await this.saveMapping(workspaceId, headers, summary.mapping);
+        continue;
+      }
+
+      const { contact, errors } = mapRow(values, headers, summary.mapping, line);
+      if (contact) await this.importRow(contact, workspaceId, options, summary);
+      else summary.errors.push(...errors);
+    }
+
+    if (!headers) throw new Error('Empty document');
+    return summary;
+  }
+
+  async importCsv(source: CsvSource, workspaceId?: string, options: StructuredImportOptions = {}): Promise<StructuredImportSummary> {
+    return this.importRows(parseCsv(source), workspaceId, options);
+  }
+
+  async importWorkbook(
+    data: Uint8Array | ArrayBuffer,
+    workspaceId?: string,
+    options: StructuredImportOptions & WorkbookOptions = {},
+  ): Promise<StructuredImportSummary> {
+    return this.importRows(await readWorkbookRows(data, options), workspaceId, options);
+  }
+
+  // Import contacts from any document format: delimited files with a recognizable
+  // header row are mapped deterministically, anything else goes to the Groq AI parser.
+  // A header the mapper cannot use (e.g. no name column) also falls back to the AI parser.
+  async importDocument(
+    content: string,
+    groqApiKey: string,
+    workspaceId?: string,
+    options: ImportOptions = {},
+  ): Promise<DocumentImportSummary> {
+    const headers = await detectHeaderRow(content);
+    if (headers) {
+      const mapping = await this.suggestMapping(headers, workspaceId);
+      if (validateColumnMapping(mapping, headers).length === 0) {
+        const { contacts, created, merged, skipped, errors } = await this.importCsv(content, workspaceId, { ...options, mapping });
+        return { contacts, created, merged, skipped, errors };
+      }
+    }
+
     const { contacts: parsed, errors } = await parseDocument(content, groqApiKey);
     if (errors.length > 0) throw new Error(errors.join(', '));
 
-    const results: Contact[] = [];
-    for (const row of parsed) {
-      const contact = await this.create({
-        name: row.name,
-        phone: row.phone ?? '',
-        email: row.email,
-        company: row.company,
-        workspaceId,
-      });
-      results.push(contact);
+    const summary = await this.importContacts(parsed, workspaceId, options);
+    return { ...summary, errors: [] };
+  }
+
+  private async importRow(row: ParsedContact, workspaceId: string | undefined, options: ImportOptions, summary: ImportSummary): Promise<void> {
+    const policy = options.duplicatePolicy ?? 'merge';
+    const data: ContactInput = {
+      name: row.name,
+      phone: row.phone ?? '',
+      email: row.email,
+      company: row.company,
+      title: row.title,
+      notes: row.notes,
+      workspaceId,
+    };
+
+    // without a workspace there is nothing scoped to dedupe against
+    const [match] = policy === 'create' || !workspaceId ? [] : await this.findDuplicates(data, workspaceId);
+    if (!match) {
+      summary.contacts.push(await this.create(data));
+      summary.created++;
+      return;
     }
-    return results;
+
+    if (policy === 'skip') {
+      summary.contacts.push(match.contact);
+      summary.skipped++;
+      return;
+    }
+
+    // the incoming row is the newest version, so 'newest' rules prefer it
+    const incoming: Contact = {
+      ...data,
+      phone: normalizePhone(data.phone),
+      id: '',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    const changes = mergeContactFields(match.contact, [incoming], options.mergeRules);
+    const updated = Object.keys(changes).length > 0
+      ? await this.store.updateContact(match.contact.id, changes)
+      : match.contact;
+    summary.contacts.push(updated ?? match.contact);
+    summary.merged++;
   }
 }
@@ -0,0 +1,105 @@
+export type CsvSource = string | Iterable<string> | AsyncIterable<string>;
+
+export type CsvOptions = {
+  // Sniffed from the first chunk when omitted
+  delimiter?: string;
+};
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/** Pick the delimiter that splits the first line into the most columns (quoted text ignored) */
+export const sniffDelimiter = (sample: string): string => {
+  const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map((d) => [d, 0]));
+  let inQuotes = false;
+
+  for (const char of sample) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+
+  let best = ',';
+  for (const [delimiter, count] of counts) {
+    if (count > counts.get(best)!) best = delimiter;
+  }
+  return best;
+};
+
+/**
+ * Stream RFC 4180 rows out of CSV text. Chunks may split anywhere — inside
+ * quoted fields or between `\r\n` — so large files never need to be held in
+ * memory. Blank lines are skipped.
+ */
+export async function* parseCsv(source: CsvSource, options: CsvOptions = {}): AsyncGenerator<string[]> {
+  let delimiter = options.delimiter;
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // saw `"` inside a quoted field; the next char decides between `""` and a closing quote
+  let quotePending = false;
+  let skipLineFeed = false;
+  // text held back until the first line is complete enough to sniff the delimiter
+  let head = '';
+
+  const endRow = (): string[] | null => {
+    row.push(field);
+    const complete = row;
+    row = [];
+    field = '';
+    return complete.length === 1 && complete[0] === '' ? null : complete;
+  };
+
+  function* consume(text: string, separator: string): Generator<string[]> {
+    for (const char of text) {
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') quotePending = true;
+        else field += char;
+      } else if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === separator) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        skipLineFeed = char === '\r';
+        const complete = endRow();
+        if (complete) yield complete;
+      } else {
+        field += char;
+      }
+    }
+  }
+
+  const chunks = typeof source === 'string' ? [source] : source;
+  let started = false;
+  for await (let chunk of chunks) {
+    if (!started && chunk.length > 0) {
+      started = true;
+      chunk = chunk.replace(/^\uFEFF/, '');
+    }
+    if (delimiter === undefined) {
+      head += chunk;
+      if (!/[\r\n]/.test(head)) continue;
+      delimiter = sniffDelimiter(head);
+      chunk = head;
+    }
+    yield* consume(chunk, delimiter);
+  }
+  if (delimiter === undefined && head) yield* consume(head, sniffDelimiter(head));
+
+  const last = endRow();
+  if (last) yield last;
+}
@@ -0,0 +1,172 @@
+import { Contacts } from './contacts';
+import { mergeContactFields, rewriteQueueMembership, scoreDuplicate, similarity } from './dedupe';
+import { MemoryProvider } from './providers/memory';
+import type { Contact, Queue } from './types';
+
+const contact = (overrides: Partial<Contact> = {}): Contact => ({
+  id: 'c1',
+  name: 'John Smith',
+  phone: '+14155551234',
+  createdAt: '2026-03-01T00:00:00.000Z',
+  updatedAt: '2026-03-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('scoreDuplicate', () => {
+  it('should match on normalized phone', () => {
+    const match = scoreDuplicate({ name: 'J. Smith', phone: '(415) 555-1234' }, contact());
+    expect(match).toMatchObject({ reasons: ['phone'], score: 1 });
+  });
+
+  it('should match email case-insensitively', () => {
+    const match = scoreDuplicate(
+      { name: 'Someone', email: ' John@Example.com ' },
+      contact({ phone: '', email: 'john@example.com' }),
+    );
+    expect(match?.reasons).toEqual(['email']);
+  });
+
+  it('should fuzzy match name when companies agree', () => {
+    const match = scoreDuplicate(
+      { name: 'Jon Smith', company: 'Acme Inc.' },
+      contact({ phone: '', company: 'ACME' }),
+    );
+    expect(match?.reasons).toEqual(['name_company']);
+    expect(match!.score).toBeGreaterThan(0.8);
+  });
+
+  it('should not match a similar name at a different company', () => {
+    const match = scoreDuplicate(
+      { name: 'John Smith', company: 'Globex' },
+      contact({ phone: '', company: 'Acme' }),
+    );
+    expect(match).toBeNull();
+  });
+});
+
+describe('similarity', () => {
+  it('should score identical strings as 1 and disjoint strings as 0', () => {
+    expect(similarity('acme', 'acme')).toBe(1);
+    expect(similarity('acme', 'zzzz')).toBe(0);
+  });
+});
+
+describe('mergeContactFields', () => {
+  it('should keep primary values and fill blanks from duplicates', () => {
+    const changes = mergeContactFields(
+      contact({ email: undefined }),
+      [contact({ id: 'c2', email: 'john@example.com', name: 'Johnny Smith' })],
+    );
+    expect(changes).toEqual({ email: 'john@example.com' });
+  });
+
+  it('should apply per-field strategies and union tags', () => {
+    const changes = mergeContactFields(
+      contact({ tags: ['vip'] }),
+      [contact({ id: 'c2', name: 'Jonathan Smith', company: 'Acme', updatedAt: '2026-03-05T00:00:00.000Z', tags: ['vip', 'west'] })],
+      { name: 'longest', company: 'newest' },
+    );
+    expect(changes).toEqual({ name: 'Jonathan Smith', company: 'Acme', tags: ['vip', 'west'] });
+  });
+});
+
+describe('rewriteQueueMembership', () => {
+  it('should repoint merged contacts and collapse repeats', () => {
+    const queue: Queue = {
+      id: 'q1',
+      name: 'Q',
+      contactIds: ['c1', 'c2', 'c3'],
+      ordering: 'sequential',
+      currentIndex: 2,
+      status: 'active',
+      results: [{ contactId: 'c2', outcome: 'no-answer', attemptedAt: '2026-03-01T00:00:00.000Z' }],
+      entries: { c2: { factors: { leadValue: 10 } } },
+      createdAt: '2026-03-01T00:00:00.000Z',
+    };
+
+    const patch = rewriteQueueMembership(queue, 'c1', ['c2']);
+    expect(patch.contactIds).toEqual(['c1', 'c3']);
+    expect(patch.currentIndex).toBe(1);
+    expect(patch.entries).toEqual({ c1: { factors: { leadValue: 10 } } });
+    expect(patch.results![0].contactId).toBe('c1');
+  });
+});
+
+describe('Contacts dedupe', () => {
+  let store: MemoryProvider;
+  let contacts: Contacts;
+
+  beforeEach(() => {
+    store = new MemoryProvider();
+    contacts = new Contacts(store);
+  });
+
+  it('should find duplicates within the workspace only', async () => {
+    await contacts.create({ name: 'John Smith', phone: '4155551234', workspaceId: 'w1' });
+    await contacts.create({ name: 'John Smith', phone: '4155551234', workspaceId: 'w2' });
+
+    const matches = await contacts.findDuplicates({ phone: '415-555-1234' }, 'w1');
+    expect(matches).toHaveLength(1);
+    expect(matches[0].contact.workspaceId).toBe('w1');
+  });
+
+  it('should merge duplicates and rewrite queue membership', async () => {
+    const primary = await contacts.create({ name: 'John Smith', phone: '4155551234', tags: ['a'] });
+    const duplicate = await contacts.create({ name: 'Jon Smith', phone: '', email: 'john@example.com', tags: ['b'] });
+    const queue = await store.createQueue({
+      name: 'Q',
+      contactIds: [duplicate.id, 'other'],
+      ordering: 'sequential',
+      currentIndex: 0,
+      status: 'idle',
+      results: [],
+    });
+
+    const result = await contacts.merge(primary.id, [duplicate.id]);
+
+    expect(result!.mergedIds).toEqual([duplicate.id]);
+    expect(result!.queuesUpdated).toEqual([queue.id]);
+    expect(result!.contact).toMatchObject({ email: 'john@example.com', tags: ['a', 'b'] });
+    expect(await store.getContact(duplicate.id)).toBeNull();
+    expect((await store.getQueue(queue.id))!.contactIds).toEqual([primary.id, 'other']);
+  });
+
+  it('should return null when the primary does not exist', async () => {
+    expect(await contacts.merge('missing', ['1'])).toBeNull();
+  });
+
+  describe('importContacts', () => {
+    const rows = [
+      { name: 'John Smith', phone: '415 555 1234', email: 'john@example.com' },
+      { name: 'Jane Doe', phone: '4155559876' },
+    ];
+
+    beforeEach(async () => {
+      await contacts.create({ name: 'John Smith', phone: '4155551234', workspaceId: 'w1' });
+    });
+
+    it('should merge matching rows by default', async () => {
+      const summary = await contacts.importContacts(rows, 'w1');
+      expect(summary).toMatchObject({ created: 1, merged: 1, skipped: 0 });
+      expect(summary.contacts[0].email).toBe('john@example.com');
+      expect(await contacts.list('w1')).toHaveLength(2);
+    });
+
+    it('should leave existing contacts untouched when skipping', async () => {
+      const summary = await contacts.importContacts(rows, 'w1', { duplicatePolicy: 'skip' });
+      expect(summary).toMatchObject({ created: 1, merged: 0, skipped: 1 });
+      expect(summary.contacts[0].email).toBeUndefined();
+    });
+
+    it('should always create when the policy is create', async () => {
+      const summary = await contacts.importContacts(rows, 'w1', { duplicatePolicy: 'create' });
+      expect(summary).toMatchObject({ created: 2, merged: 0, skipped: 0 });
+      expect(await contacts.list('w1')).toHaveLength(3);
+    });
+
+    it('should dedupe repeated rows within one import', async () => {
+      const summary = await contacts.importContacts([rows[1], rows[1]], 'w1');
+      expect(summary).toMatchObject({ created: 1, merged: 1 });
+    });
+  });
+});
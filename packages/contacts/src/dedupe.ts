@@ -0,0 +1,252 @@
+import type { Contact, DedupeKeys, Queue } from './types.js';
+import { normalizePhone } from './utils.js';
+
+export type DuplicateReason = 'phone' | 'email' | 'name_company';
+
+export type DuplicateCandidate = {
+  contact: Contact;
+  reasons: DuplicateReason[];
+  // 0–1; exact phone/email matches score 1
+  score: number;
+};
+
+/** What to do with an imported row that matches an existing contact */
+export type DuplicatePolicy = 'skip' | 'merge' | 'create';
+
+export type MergeStrategy = 'primary' | 'newest' | 'longest';
+
+export type MergeRules = Partial<
+  Record<'name' | 'phone' | 'email' | 'company' | 'title' | 'notes', MergeStrategy>
+>;
+
+type ContactFields = Pick<Contact, 'name' | 'phone' | 'email' | 'company'>;
+
+// Names must be near-identical and companies must agree before a fuzzy
+// match is reported; either alone produces too many false positives
+const NAME_SIMILARITY_THRESHOLD = 0.8;
+const COMPANY_SIMILARITY_THRESHOLD = 0.85;
+
+const COMPANY_SUFFIXES = new Set([
+  'inc',
+  'incorporated',
+  'llc',
+  'ltd',
+  'limited',
+  'corp',
+  'corporation',
+  'co',
+  'company',
+  'gmbh',
+  'plc',
+]);
+
+const tokens = (value: string): string[] =>
+  value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter((token) => token.length > 0);
+
+export const normalizeName = (name: string): string => tokens(name).join(' ');
+
+export const normalizeCompany = (company: string): string =>
+  tokens(company)
+    .filter((token) => !COMPANY_SUFFIXES.has(token))
+    .join(' ');
+
+export const normalizeEmail = (email: string): string =>
+  email.trim().toLowerCase();
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/ /g, '');
+  const result: string[] = [];
+  for (let index = 0; index < compact.length - 1; index++) {
+    result.push(compact.slice(index, index + 2));
+  }
+  return result;
+};
+
+/** Sørensen–Dice coefficient over character bigrams, 0–1 */
+export const similarity = (left: string, right: string): number => {
+  if (left === right) return left.length > 0 ? 1 : 0;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  for (const gram of rightBigrams) {
+    remaining.set(gram, (remaining.get(gram) ?? 0) + 1);
+  }
+
+  let overlap = 0;
+  for (const gram of leftBigrams) {
+    const count = remaining.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      remaining.set(gram, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+};
+
+/** Lookup keys the storage provider indexes for duplicate detection */
+export const dedupeKeys = (contact: Partial<ContactFields>): DedupeKeys => {
+  const phone = contact.phone ? normalizePhone(contact.phone) : '';
+  const email = contact.email ? normalizeEmail(contact.email) : '';
+  const name = contact.name ? normalizeName(contact.name) : '';
+
+  return {
+    phone: phone || undefined,
+    email: email || undefined,
+    name: name || undefined,
+  };
+};
+
+/** Score one existing contact against an incoming record; null when it isn't a duplicate. */
+export const scoreDuplicate = (
+  incoming: Partial<ContactFields>,
+  existing: Contact,
+): DuplicateCandidate | null => {
+  const keys = dedupeKeys(incoming);
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+
+  if (keys.phone && normalizePhone(existing.phone) === keys.phone) {
+    reasons.push('phone');
+    score = 1;
+  }
+
+  if (
+    keys.email &&
+    existing.email &&
+    normalizeEmail(existing.email) === keys.email
+  ) {
+    reasons.push('email');
+    score = 1;
+  }
+
+  if (keys.name && incoming.company && existing.company) {
+    const nameScore = similarity(keys.name, normalizeName(existing.name));
+    const companyScore = similarity(
+      normalizeCompany(incoming.company),
+      normalizeCompany(existing.company),
+    );
+
+    if (
+      nameScore >= NAME_SIMILARITY_THRESHOLD &&
+      companyScore >= COMPANY_SIMILARITY_THRESHOLD
+    ) {
+      reasons.push('name_company');
+      score = Math.max(score, nameScore * 0.6 + companyScore * 0.4);
+    }
+  }
+
+  return reasons.length > 0 ? { contact: existing, reasons, score } : null;
+};
+
+/** Rank candidate contacts returned by the provider, best match first. */
+export const rankDuplicates = (
+  incoming: Partial<ContactFields>,
+  candidates: Contact[],
+  excludeId?: string,
+): DuplicateCandidate[] => {
+  return candidates
+    .filter((candidate) => candidate.id !== excludeId)
+    .map((candidate) => scoreDuplicate(incoming, candidate))
+    .filter((match): match is DuplicateCandidate => match !== null)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.contact.createdAt.localeCompare(b.contact.createdAt),
+    );
+};
+
+const isPresent = (value: string | undefined): value is string =>
+  value !== undefined && value.trim().length > 0;
+
+/**
+ * Field-level merge of `others` into `primary`. Every strategy falls back to
+ * the first non-empty value, so merging never blanks out a field.
+ */
+export const mergeContactFields = (
+  primary: Contact,
+  others: Contact[],
+  rules: MergeRules = {},
+): Partial<Contact> => {
+  const all = [primary, ...others];
+  const changes: Partial<Contact> = {};
+
+  for (const field of ['name', 'phone', 'email', 'company', 'title', 'notes'] as const) {
+    const strategy = rules[field] ?? 'primary';
+    const present = all.filter((contact) => isPresent(contact[field]));
+    if (present.length === 0) continue;
+
+    let winner = present[0];
+    if (strategy === 'newest') {
+      winner = present.reduce((best, contact) =>
+        contact.updatedAt > best.updatedAt ? contact : best,
+      );
+    } else if (strategy === 'longest') {
+      winner = present.reduce((best, contact) =>
+        String(contact[field]).length > String(best[field]).length
+          ? contact
+          : best,
+      );
+    }
+
+    if (winner[field] !== primary[field]) changes[field] = winner[field];
+  }
+
+  const tags = [...new Set(all.flatMap((contact) => contact.tags ?? []))];
+  if (tags.length !== (primary.tags ?? []).length) changes.tags = tags;
+
+  return changes;
+};
+
+/**
+ * Rewrite a queue so merged contacts point at the surviving record. Keeps
+ * the first occurrence of each contact and shifts the pointer to match.
+ */
+export const rewriteQueueMembership = (
+  queue: Queue,
+  primaryId: string,
+  mergedIds: string[],
+): Partial<Queue> => {
+  const merged = new Set(mergedIds);
+  const resolve = (id: string) => (merged.has(id) ? primaryId : id);
+
+  const seen = new Set<string>();
+  const contactIds: string[] = [];
+  let currentIndex = 0;
+  queue.contactIds.forEach((id, index) => {
+    const resolved = resolve(id);
+    if (seen.has(resolved)) return;
+    seen.add(resolved);
+    contactIds.push(resolved);
+    if (index < queue.currentIndex) currentIndex++;
+  });
+
+  const entries = queue.entries ? { ...queue.entries } : undefined;
+  if (entries) {
+    for (const id of mergedIds) {
+      if (entries[id] && !entries[primaryId]) entries[primaryId] = entries[id];
+      delete entries[id];
+    }
+  }
+
+  return {
+    contactIds,
+    currentIndex,
+    entries,
+    results: queue.results.map((result) =>
+      merged.has(result.contactId)
+        ? { ...result, contactId: primaryId }
+        : result,
+    ),
+  };
+};
@@ -1,7 +1,15 @@
 // Core
 export { Contacts } from './contacts.js';
+export type {
+  ImportOptions,
+  ImportSummary,
+  MergeResult,
+  StructuredImportOptions,
+  StructuredImportSummary,
+} from './contacts.js';
 export { Queues } from './queues.js';
 export { QueueStatsService } from './queue-stats.js';
+export type { QueuesOptions } from './queues.js';
 
 // Providers
 export { MemoryProvider } from './providers/memory.js';
@@ -10,16 +18,83 @@ export { PostgresStorageProvider } from './providers/postgres.js';
 // Utilities
 export { normalizePhone, isValidPhone } from './utils.js';
 
+// Deduplication
+export {
+  dedupeKeys,
+  mergeContactFields,
+  normalizeCompany,
+  normalizeEmail,
+  normalizeName,
+  rankDuplicates,
+  rewriteQueueMembership,
+  scoreDuplicate,
+  similarity,
+} from './dedupe.js';
+export type {
+  DuplicateCandidate,
+  DuplicatePolicy,
+  DuplicateReason,
+  MergeRules,
+  MergeStrategy,
+} from './dedupe.js';
+
+// Priority scoring
+export { computePriorityScore, rankQueueEntries, DEFAULT_PRIORITY_WEIGHTS } from './priority.js';
+export type { PriorityWeights, RankedEntry } from './priority.js';
+
+// Retry scheduling
+export { decideRetry, createCadenceResolver, DEFAULT_RETRY_RULES } from './retry-policy.js';
+export type {
+  CadenceLookup,
+  CadencePolicyLike,
+  CadencePolicyResolver,
+  RetryDecision,
+  RetryPolicy,
+  RetryRule,
+  RetryRules,
+} from './retry-policy.js';
+
 // Parser
-export { parseDocument } from './parser.js';
+export { detectHeaderRow, parseDocument } from './parser.js';
 export type { ParsedContact, ParseResult } from './parser.js';
 
+// Structured import
+export { parseCsv, sniffDelimiter } from './csv.js';
+export type { CsvOptions, CsvSource } from './csv.js';
+export {
+  headerSignature,
+  looksLikeHeader,
+  mapRow,
+  normalizeHeader,
+  suggestColumnMapping,
+  validateColumnMapping,
+} from './column-mapping.js';
+export type { MappedRow, RowError } from './column-mapping.js';
+export { readWorkbookRows } from './xlsx.js';
+export type { WorkbookOptions } from './xlsx.js';
+
 // Types
 export type {
   Contact,
   Queue,
   QueueResult,
+  QueueEntry,
+  QueuePriorityFactors,
+  CallRecord,
+  CallRecordQuery,
+  CallRecordAggregate,
+  DedupeKeys,
+  ColumnMapping,
+  MappableField,
+  SavedColumnMapping,
   StorageProvider,
 } from './types.js';
 
-export type { QueueStats, AggregateStats, CallRecord } from './queue-stats.js';
+export type {
+  QueueStats,
+  AggregateStats,
+  AgentStats,
+  HourlyStats,
+  StatsWindow,
+  QueueStatsOptions,
+} from './queue-stats.js';
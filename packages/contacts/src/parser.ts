@@ -1,3 +1,6 @@
+import { parseCsv } from './csv.js';
+import { looksLikeHeader } from './column-mapping.js';
+
 export interface ParsedContact {
   name: string;
   email?: string;
@@ -24,9 +27,22 @@ const EXTRACTION_PROMPT = `Extract all contacts from this document. Return JSON
 Only include contacts that have at least a name. Return: {"contacts": [...]}
 `;
 
+/**
+ * The header row when `content` is a delimited file whose first line names
+ * contact fields — such files can be imported without the AI parser.
+ */
+export async function detectHeaderRow(content: string): Promise<string[] | null> {
+  const rows = parseCsv(content);
+  const { value: first } = await rows.next();
+  await rows.return(undefined);
+  return first && looksLikeHeader(first) ? first : null;
+}
+
 /**
  * Parse any document format and extract contacts using Groq AI.
- * Accepts CSV, plain text, Excel exports, PDFs (as text), etc.
+ * Accepts CSV, plain text, Excel exports, PDFs (as text), etc. Prefer the
+ * column-mapping import for structured files; this is the fallback for
+ * unstructured text.
  */
 export async function parseDocument(
   content: string,
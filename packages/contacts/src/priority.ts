@@ -0,0 +1,89 @@
+import type { QueueEntry, QueuePriorityFactors } from './types.js';
+
+export type PriorityWeights = {
+  // Points per order of magnitude of lead value ($100 → 2x, $10k → 4x)
+  leadValue: number;
+  // Bonus for a brand-new lead, halved every `freshnessHalfLifeDays`
+  freshness: number;
+  freshnessHalfLifeDays: number;
+  // A rep pin outranks any combination of the other factors
+  pin: number;
+  outcomes: Record<string, number>;
+};
+
+export const DEFAULT_PRIORITY_WEIGHTS: PriorityWeights = {
+  leadValue: 10,
+  freshness: 20,
+  freshnessHalfLifeDays: 7,
+  pin: 1000,
+  outcomes: {
+    'callback-requested': 30,
+    interested: 20,
+    answered: 5,
+    busy: -2,
+    'no-answer': -5,
+    voicemail: -5,
+    'not-interested': -40,
+    'wrong-number': -100,
+  },
+};
+
+export type RankedEntry = {
+  contactId: string;
+  score: number;
+};
+
+const DAY_MS = 86_400_000;
+
+/** Score a contact's priority factors; higher is dialed first. Pure — `now` is injected so age is evaluated at selection time. */
+export const computePriorityScore = (
+  factors: QueuePriorityFactors | undefined,
+  now: Date,
+  weights: PriorityWeights = DEFAULT_PRIORITY_WEIGHTS,
+): number => {
+  if (!factors) return 0;
+
+  let score = factors.boost ?? 0;
+
+  if (factors.pinnedBy) score += weights.pin;
+
+  if (factors.leadValue !== undefined && factors.leadValue > 0) {
+    score += Math.log10(1 + factors.leadValue) * weights.leadValue;
+  }
+
+  if (factors.leadCreatedAt) {
+    const createdMs = new Date(factors.leadCreatedAt).getTime();
+    if (!Number.isNaN(createdMs)) {
+      const ageDays = Math.max(0, (now.getTime() - createdMs) / DAY_MS);
+      score +=
+        weights.freshness *
+        Math.pow(0.5, ageDays / weights.freshnessHalfLifeDays);
+    }
+  }
+
+  if (factors.lastOutcome) {
+    score += weights.outcomes[factors.lastOutcome] ?? 0;
+  }
+
+  return score;
+};
+
+/**
+ * Rank contacts by descending score. Ties keep queue order so selection is
+ * deterministic regardless of how entries were stored.
+ */
+export const rankQueueEntries = (
+  contactIds: string[],
+  entries: Record<string, QueueEntry> | undefined,
+  now: Date,
+  weights: PriorityWeights = DEFAULT_PRIORITY_WEIGHTS,
+): RankedEntry[] => {
+  return contactIds
+    .map((contactId, index) => ({
+      contactId,
+      index,
+      score: computePriorityScore(entries?.[contactId]?.factors, now, weights),
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ contactId, score }) => ({ contactId, score }));
+};
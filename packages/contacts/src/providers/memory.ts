@@ -1,17 +1,53 @@
-import type { Contact, Queue, StorageProvider } from '../types.js';
+import type {
+  CallRecord,
+  CallRecordQuery,
+  Contact,
+  DedupeKeys,
+  Queue,
+  QueueEntry,
+  SavedColumnMapping,
+  StorageProvider,
+} from '../types.js';
+import { dedupeKeys } from '../dedupe.js';
+
+// Index keys for duplicate lookups; names are indexed per token so fuzzy
+// matches ("Jon Smith" vs "John Smith") still share a bucket
+const indexKeys = (keys: DedupeKeys): string[] => [
+  ...(keys.phone ? [`phone:${keys.phone}`] : []),
+  ...(keys.email ? [`email:${keys.email}`] : []),
+  ...(keys.name ? keys.name.split(' ').map((token) => `name:${token}`) : []),
+];
 
 // In-memory storage provider — useful for testing and simple setups
 export class MemoryProvider implements StorageProvider {
   private contacts = new Map<string, Contact>();
   private queues = new Map<string, Queue>();
+  private callRecords: CallRecord[] = [];
+  private columnMappings = new Map<string, SavedColumnMapping>();
+  private dedupeIndex = new Map<string, Set<string>>();
   private nextId = 1;
 
   private id(): string { return String(this.nextId++); }
 
+  private index(contact: Contact): void {
+    for (const key of indexKeys(dedupeKeys(contact))) {
+      const ids = this.dedupeIndex.get(key) ?? new Set<string>();
+      ids.add(contact.id);
+      this.dedupeIndex.set(key, ids);
+    }
+  }
+
+  private unindex(contact: Contact): void {
+    for (const key of indexKeys(dedupeKeys(contact))) {
+      this.dedupeIndex.get(key)?.delete(contact.id);
+    }
+  }
+
   async createContact(data: Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>): Promise<Contact> {
     const now = new Date().toISOString();
     const contact: Contact = { ...data, id: this.id(), createdAt: now, updatedAt: now };
     this.contacts.set(contact.id, contact);
+    this.index(contact);
     return contact;
   }
 
@@ -23,11 +59,15 @@ export class MemoryProvider implements StorageProvider {
     const existing = this.contacts.get(id);
     if (!existing) return null;
     const updated = { ...existing, ...data, id, updatedAt: new Date().toISOString() };
+    this.unindex(existing);
     this.contacts.set(id, updated);
+    this.index(updated);
     return updated;
   }
 
   async deleteContact(id: string): Promise<boolean> {
+    const existing = this.contacts.get(id);
+    if (existing) this.unindex(existing);
     return this.contacts.delete(id);
   }
 
@@ -43,6 +83,16 @@ export class MemoryProvider implements StorageProvider {
     return [...this.contacts.values()].filter((c) => c.workspaceId === workspaceId);
   }
 
+  async findDuplicateCandidates(keys: DedupeKeys, workspaceId: string): Promise<Contact[]> {
+    const ids = new Set<string>();
+    for (const key of indexKeys(keys)) {
+      for (const id of this.dedupeIndex.get(key) ?? []) ids.add(id);
+    }
+    return [...ids]
+      .map((id) => this.contacts.get(id))
+      .filter((c): c is Contact => c !== undefined && c.workspaceId === workspaceId);
+  }
+
   async createQueue(data: Omit<Queue, 'id' | 'createdAt'>): Promise<Queue> {
     const queue: Queue = { ...data, id: this.id(), createdAt: new Date().toISOString() };
     this.queues.set(queue.id, queue);
@@ -60,4 +110,46 @@ export class MemoryProvider implements StorageProvider {
     this.queues.set(id, updated);
     return updated;
   }
+
+  async listQueuesByContact(contactId: string): Promise<Queue[]> {
+    return [...this.queues.values()].filter((q) => q.contactIds.includes(contactId));
+  }
+
+  async patchQueueEntry(queueId: string, contactId: string, patch: Partial<QueueEntry>): Promise<Queue | null> {
+    const existing = this.queues.get(queueId);
+    if (!existing) return null;
+    const entries = { ...existing.entries, [contactId]: { ...existing.entries?.[contactId], ...patch } };
+    const updated = { ...existing, entries };
+    this.queues.set(queueId, updated);
+    return updated;
+  }
+
+  async createCallRecord(data: Omit<CallRecord, 'id'>): Promise<CallRecord> {
+    const record: CallRecord = { ...data, id: this.id() };
+    this.callRecords.push(record);
+    return record;
+  }
+
+  async listCallRecords(query: CallRecordQuery): Promise<CallRecord[]> {
+    return this.callRecords
+      .filter((r) => {
+        if (query.workspaceId && r.workspaceId !== query.workspaceId) return false;
+        if (query.queueId && r.queueId !== query.queueId) return false;
+        if (query.agentId && r.agentId !== query.agentId) return false;
+        if (query.since && r.timestamp < query.since) return false;
+        if (query.until && r.timestamp >= query.until) return false;
+        return true;
+      })
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  async getColumnMapping(workspaceId: string, signature: string): Promise<SavedColumnMapping | null> {
+    return this.columnMappings.get(`${workspaceId}:${signature}`) ?? null;
+  }
+
+  async saveColumnMapping(data: Omit<SavedColumnMapping, 'updatedAt'>): Promise<SavedColumnMapping> {
+    const saved: SavedColumnMapping = { ...data, updatedAt: new Date().toISOString() };
+    this.columnMappings.set(`${data.workspaceId}:${data.signature}`, saved);
+    return saved;
+  }
 }
@@ -0,0 +1,295 @@
+import { PostgresStorageProvider } from './postgres';
+
+jest.mock('@sentry/node', () => ({ captureException: jest.fn() }));
+
+const queueRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'q1',
+  name: 'Q',
+  contact_ids: '["c1","c2"]',
+  ordering: 'priority',
+  current_index: 0,
+  status: 'idle',
+  results: '[]',
+  entries: '{"c1":{"factors":{"leadValue":100}}}',
+  created_at: '2026-03-02T15:00:00.000Z',
+  ...overrides,
+});
+
+const createPool = (rows: Record<string, unknown>[]) => {
+  const queries: { text: string; values?: unknown[] }[] = [];
+  const pool = {
+    query: jest.fn(async (text: string, values?: unknown[]) => {
+      queries.push({ text, values });
+      return { rows, rowCount: rows.length };
+    }),
+  };
+  return { pool, queries };
+};
+
+describe('PostgresStorageProvider queues', () => {
+  it('should persist priority entries on create', async () => {
+    const { pool, queries } = createPool([queueRow()]);
+    const provider = new PostgresStorageProvider(pool);
+
+    const queue = await provider.createQueue({
+      name: 'Q',
+      contactIds: ['c1', 'c2'],
+      ordering: 'priority',
+      currentIndex: 0,
+      status: 'idle',
+      results: [],
+      entries: { c1: { factors: { leadValue: 100 } } },
+    });
+
+    expect(queries[0].values).toContain('{"c1":{"factors":{"leadValue":100}}}');
+    expect(queue.entries).toEqual({ c1: { factors: { leadValue: 100 } } });
+  });
+
+  it('should default entries to an empty map for legacy rows', async () => {
+    const { pool } = createPool([queueRow({ entries: null })]);
+    const provider = new PostgresStorageProvider(pool);
+
+    const queue = await provider.getQueue('q1');
+    expect(queue!.entries).toEqual({});
+  });
+
+  it('should read entries that pg already parsed from JSONB', async () => {
+    const { pool } = createPool([
+      queueRow({ entries: { c2: { factors: { urgency: 3 } } } }),
+    ]);
+    const provider = new PostgresStorageProvider(pool);
+
+    const queue = await provider.getQueue('q1');
+    expect(queue!.entries).toEqual({ c2: { factors: { urgency: 3 } } });
+  });
+
+  it('should patch a single entry with a parameterized merge', async () => {
+    const { pool, queries } = createPool([queueRow()]);
+    const provider = new PostgresStorageProvider(pool);
+
+    await provider.patchQueueEntry('q1', 'c2', {
+      dispatchedAt: '2026-03-02T15:01:00.000Z',
+    });
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0].text).toContain('jsonb_build_object');
+    expect(queries[0].values?.slice(0, 3)).toEqual([
+      'q1',
+      'c2',
+      '{"dispatchedAt":"2026-03-02T15:01:00.000Z"}',
+    ]);
+  });
+
+  it('should return null when patching a missing queue', async () => {
+    const { pool } = createPool([]);
+    const provider = new PostgresStorageProvider(pool);
+
+    expect(await provider.patchQueueEntry('missing', 'c1', {})).toBeNull();
+  });
+});
+
+describe('PostgresStorageProvider call records', () => {
+  it('should insert call records with the recorded timestamp', async () => {
+    const { pool, queries } = createPool([
+      {
+        id: 7,
+        queue_id: 'q1',
+        agent_id: 'a1',
+        answered: true,
+        duration_seconds: 42,
+        created_at: new Date('2026-03-02T15:00:00.000Z'),
+      },
+    ]);
+    const provider = new PostgresStorageProvider(pool);
+
+    const record = await provider.createCallRecord({
+      queueId: 'q1',
+      agentId: 'a1',
+      answered: true,
+      duration: 42,
+      timestamp: '2026-03-02T15:00:00.000Z',
+    });
+
+    expect(queries[0].values).toEqual([
+      null,
+      'q1',
+      'a1',
+      true,
+      42,
+      '2026-03-02T15:00:00.000Z',
+    ]);
+    expect(record).toEqual({
+      id: '7',
+      queueId: 'q1',
+      agentId: 'a1',
+      answered: true,
+      duration: 42,
+      timestamp: '2026-03-02T15:00:00.000Z',
+    });
+  });
+
+  it('should filter call records by queue, agent and time window', async () => {
+    const { pool, queries } = createPool([]);
+    const provider = new PostgresStorageProvider(pool);
+
+    await provider.listCallRecords({
+      queueId: 'q1',
+      agentId: 'a1',
+      since: '2026-03-01T00:00:00.000Z',
+      until: '2026-03-02T00:00:00.000Z',
+    });
+
+    expect(queries[0].text).toContain(
+      'WHERE queue_id = $1 AND agent_id = $2 AND created_at >= $3 AND created_at < $4',
+    );
+    expect(queries[0].values).toEqual([
+      'q1',
+      'a1',
+      '2026-03-01T00:00:00.000Z',
+      '2026-03-02T00:00:00.000Z',
+    ]);
+  });
+
+  it('should list all call records without a filter', async () => {
+    const { pool, queries } = createPool([]);
+    const provider = new PostgresStorageProvider(pool);
+
+    await provider.listCallRecords({});
+
+    expect(queries[0].text).not.toContain('WHERE');
+    expect(queries[0].values).toEqual([]);
+  });
+
+  it('should aggregate call records in SQL scoped to the workspace', async () => {
+    const { pool, queries } = createPool([
+      {
+        total_calls: 3,
+        answered_calls: 2,
+        answered_duration_seconds: '180',
+        queue_count: 2,
+        agent_count: 1,
+        first_at: new Date('2026-03-02T10:00:00.000Z'),
+        last_at: new Date('2026-03-02T11:00:00.000Z'),
+      },
+    ]);
+    const provider = new PostgresStorageProvider(pool);
+
+    const aggregate = await provider.aggregateCallRecords({
+      workspaceId: 'w1',
+      since: '2026-03-02T00:00:00.000Z',
+    });
+
+    expect(queries[0].text).toContain('COUNT(*) FILTER (WHERE answered)');
+    expect(queries[0].text).not.toContain('SELECT *');
+    expect(queries[0].text).toContain('WHERE workspace_id = $1 AND created_at >= $2');
+    expect(queries[0].values).toEqual(['w1', '2026-03-02T00:00:00.000Z']);
+    expect(aggregate).toEqual({
+      totalCalls: 3,
+      answeredCalls: 2,
+      answeredDurationSeconds: 180,
+      queueCount: 2,
+      agentCount: 1,
+      firstAt: '2026-03-02T10:00:00.000Z',
+      lastAt: '2026-03-02T11:00:00.000Z',
+    });
+  });
+});
+
+describe('PostgresStorageProvider dedupe', () => {
+  it('should look up duplicate candidates scoped to the workspace', async () => {
+    const { pool, queries } = createPool([]);
+    const provider = new PostgresStorageProvider(pool);
+
+    await provider.findDuplicateCandidates(
+      { phone: '+14155551234', email: 'john@example.com', name: 'john smith' },
+      'w1',
+    );
+
+    expect(queries[0].text).toContain('lower(name) % $3');
+    expect(queries[0].text).toContain('AND workspace_id = $4');
+    expect(queries[0].text).toMatch(
+      /ORDER BY \(phone = \$1 OR lower\(email\) = \$2\) DESC NULLS LAST,\s+similarity\(lower\(name\), \$3\) DESC NULLS LAST\s+LIMIT 50/,
+    );
+    expect(queries[0].values).toEqual([
+      '+14155551234',
+      'john@example.com',
+      'john smith',
+      'w1',
+    ]);
+  });
+
+  it('should skip the query when there are no keys', async () => {
+    const { pool, queries } = createPool([]);
+    const provider = new PostgresStorageProvider(pool);
+
+    expect(await provider.findDuplicateCandidates({}, 'w1')).toEqual([]);
+    expect(queries).toHaveLength(0);
+  });
+
+  it('should list queues containing a contact', async () => {
+    const { pool, queries } = createPool([queueRow()]);
+    const provider = new PostgresStorageProvider(pool);
+
+    const queues = await provider.listQueuesByContact('c1');
+
+    expect(queries[0].values).toEqual(['c1']);
+    expect(queues[0].contactIds).toEqual(['c1', 'c2']);
+  });
+});
+
+describe('PostgresStorageProvider column mappings', () => {
+  it('should upsert a mapping per workspace and header signature', async () => {
+    const { pool, queries } = createPool([
+      {
+        workspace_id: 'w1',
+        signature: 'name|phone',
+        mapping: { name: 'Name', phone: 'Phone' },
+        updated_at: new Date('2026-03-02T15:00:00.000Z'),
+      },
+    ]);
+    const provider = new PostgresStorageProvider(pool);
+
+    const saved = await provider.saveColumnMapping({
+      workspaceId: 'w1',
+      signature: 'name|phone',
+      mapping: { name: 'Name', phone: 'Phone' },
+    });
+
+    expect(queries[0].text).toContain('ON CONFLICT (workspace_id, signature)');
+    expect(queries[0].values?.slice(0, 3)).toEqual([
+      'w1',
+      'name|phone',
+      '{"name":"Name","phone":"Phone"}',
+    ]);
+    expect(saved.updatedAt).toBe('2026-03-02T15:00:00.000Z');
+  });
+
+  it('should return null when no mapping is saved', async () => {
+    const { pool } = createPool([]);
+    const provider = new PostgresStorageProvider(pool);
+
+    expect(await provider.getColumnMapping('w1', 'name|phone')).toBeNull();
+  });
+});
+
+describe('PostgresStorageProvider contacts', () => {
+  it('should persist title and notes', async () => {
+    const { pool, queries } = createPool([
+      { id: 'c1', name: 'Jane', phone: '+14155551234', title: 'VP Sales', notes: 'met at expo' },
+    ]);
+    const provider = new PostgresStorageProvider(pool);
+
+    const contact = await provider.createContact({
+      name: 'Jane',
+      phone: '+14155551234',
+      title: 'VP Sales',
+      notes: 'met at expo',
+    });
+    await provider.updateContact('c1', { title: 'CRO' });
+
+    expect(queries[0].text).toContain('title, notes');
+    expect(queries[0].values?.slice(5, 7)).toEqual(['VP Sales', 'met at expo']);
+    expect(queries.some((query) => query.text.includes('title = $2'))).toBe(true);
+    expect(contact).toMatchObject({ title: 'VP Sales', notes: 'met at expo' });
+  });
+});
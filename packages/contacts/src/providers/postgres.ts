@@ -1,4 +1,14 @@
-import type { Contact, Queue, StorageProvider } from '../types.js';
+import type {
+  CallRecord,
+  CallRecordAggregate,
+  CallRecordQuery,
+  Contact,
+  DedupeKeys,
+  Queue,
+  QueueEntry,
+  SavedColumnMapping,
+  StorageProvider,
+} from '../types.js';
 import * as Sentry from '@sentry/node';
 
 type Pool = {
@@ -21,13 +31,15 @@ export class PostgresStorageProvider implements StorageProvider {
     try {
       const now = new Date().toISOString();
       const result = await this.pool.query(
-        'INSERT INTO contacts (workspace_id, name, phone, email, company, tags, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *',
+        'INSERT INTO contacts (workspace_id, name, phone, email, company, title, notes, tags, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *',
         [
           data.workspaceId ?? '',
           data.name,
           data.phone,
           data.email ?? null,
           data.company ?? null,
+          data.title ?? null,
+          data.notes ?? null,
           data.tags ?? [],
           now,
           now,
@@ -88,6 +100,14 @@ export class PostgresStorageProvider implements StorageProvider {
         updates.push(`company = $${paramIndex++}`);
         values.push(data.company);
       }
+      if (data.title !== undefined) {
+        updates.push(`title = $${paramIndex++}`);
+        values.push(data.title);
+      }
+      if (data.notes !== undefined) {
+        updates.push(`notes = $${paramIndex++}`);
+        values.push(data.notes);
+      }
       if (data.tags !== undefined) {
         updates.push(`tags = $${paramIndex++}`);
         values.push(data.tags);
@@ -166,11 +186,47 @@ export class PostgresStorageProvider implements StorageProvider {
     }
   }
 
+  async findDuplicateCandidates(
+    keys: DedupeKeys,
+    workspaceId: string,
+  ): Promise<Contact[]> {
+    try {
+      if (!keys.phone && !keys.email && !keys.name) return [];
+
+      // NOTE: `%` is pg_trgm similarity and uses idx_contacts_name_trgm; the
+      // caller re-scores candidates, so this only needs to be a cheap superset
+      const params: unknown[] = [
+        keys.phone ?? null,
+        keys.email ?? null,
+        keys.name ?? null,
+        workspaceId,
+      ];
+      let sql = `SELECT * FROM contacts
+                 WHERE (phone = $1 OR lower(email) = $2 OR lower(name) % $3)
+                   AND workspace_id = $4`;
+
+      // exact phone/email hits first so fuzzy name matches can't crowd them
+      // out of the limit; NULLS LAST because a missing key compares as NULL
+      sql += ` ORDER BY (phone = $1 OR lower(email) = $2) DESC NULLS LAST,
+                        similarity(lower(name), $3) DESC NULLS LAST
+               LIMIT 50`;
+
+      const result = await this.pool.query(sql, params);
+      return result.rows.map((row) => this.rowToContact(row));
+    } catch (err: unknown) {
+      Sentry.captureException(err);
+      const message = err instanceof Error ? err.message : 'unknown error';
+      throw new Error(
+        `[PostgresStorageProvider] findDuplicateCandidates failed: ${message}`,
+      );
+    }
+  }
+
   async createQueue(data: Omit<Queue, 'id' | 'createdAt'>): Promise<Queue> {
     try {
       const now = new Date().toISOString();
       const result = await this.pool.query(
-        'INSERT INTO queues (name, contact_ids, ordering, current_index, status, results, created_at) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *',
+        'INSERT INTO queues (name, contact_ids, ordering, current_index, status, results, entries, created_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *',
         [
           data.name,
           JSON.stringify(data.contactIds),
@@ -178,6 +234,7 @@ export class PostgresStorageProvider implements StorageProvider {
           data.currentIndex,
           data.status,
           JSON.stringify(data.results),
+          JSON.stringify(data.entries ?? {}),
           now,
         ],
       );
@@ -239,6 +296,10 @@ export class PostgresStorageProvider implements StorageProvider {
         updates.push(`results = $${paramIndex++}`);
         values.push(JSON.stringify(data.results));
       }
+      if (data.entries !== undefined) {
+        updates.push(`entries = $${paramIndex++}`);
+        values.push(JSON.stringify(data.entries));
+      }
 
       values.push(id);
       const sql = `UPDATE queues SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`;
@@ -253,6 +314,177 @@ export class PostgresStorageProvider implements StorageProvider {
     }
   }
 
+  async listQueuesByContact(contactId: string): Promise<Queue[]> {
+    try {
+      const result = await this.pool.query(
+        'SELECT * FROM queues WHERE contact_ids::jsonb ? $1',
+        [contactId],
+      );
+      return result.rows.map((row) => this.rowToQueue(row));
+    } catch (err: unknown) {
+      Sentry.captureException(err);
+      const message = err instanceof Error ? err.message : 'unknown error';
+      throw new Error(
+        `[PostgresStorageProvider] listQueuesByContact failed: ${message}`,
+      );
+    }
+  }
+
+  async patchQueueEntry(
+    queueId: string,
+    contactId: string,
+    patch: Partial<QueueEntry>,
+  ): Promise<Queue | null> {
+    try {
+      // NOTE: merged in SQL so concurrent writers patching different entries
+      // (score updates vs. dispatch) don't clobber each other
+      const result = await this.pool.query(
+        `UPDATE queues
+         SET entries = COALESCE(entries, '{}'::jsonb)
+               || jsonb_build_object($2::text, COALESCE(entries -> $2::text, '{}'::jsonb) || $3::jsonb),
+             updated_at = $4
+         WHERE id = $1
+         RETURNING *`,
+        [queueId, contactId, JSON.stringify(patch), new Date().toISOString()],
+      );
+      return result.rows.length > 0 ? this.rowToQueue(result.rows[0]) : null;
+    } catch (err: unknown) {
+      Sentry.captureException(err);
+      const message = err instanceof Error ? err.message : 'unknown error';
+      throw new Error(
+        `[PostgresStorageProvider] patchQueueEntry failed: ${message}`,
+      );
+    }
+  }
+
+  async createCallRecord(data: Omit<CallRecord, 'id'>): Promise<CallRecord> {
+    try {
+      const result = await this.pool.query(
+        'INSERT INTO queue_call_records (workspace_id, queue_id, agent_id, answered, duration_seconds, created_at) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *',
+        [
+          data.workspaceId ?? null,
+          data.queueId,
+          data.agentId ?? null,
+          data.answered,
+          data.duration ?? null,
+          data.timestamp,
+        ],
+      );
+      return this.rowToCallRecord(result.rows[0]);
+    } catch (err: unknown) {
+      Sentry.captureException(err);
+      const message = err instanceof Error ? err.message : 'unknown error';
+      throw new Error(
+        `[PostgresStorageProvider] createCallRecord failed: ${message}`,
+      );
+    }
+  }
+
+  async listCallRecords(query: CallRecordQuery): Promise<CallRecord[]> {
+    try {
+      const { where, values } = this.callRecordFilter(query);
+      const result = await this.pool.query(
+        `SELECT * FROM queue_call_records ${where} ORDER BY created_at ASC`,
+        values,
+      );
+      return result.rows.map((row) => this.rowToCallRecord(row));
+    } catch (err: unknown) {
+      Sentry.captureException(err);
+      const message = err instanceof Error ? err.message : 'unknown error';
+      throw new Error(
+        `[PostgresStorageProvider] listCallRecords failed: ${message}`,
+      );
+    }
+  }
+
+  async aggregateCallRecords(
+    query: CallRecordQuery,
+  ): Promise<CallRecordAggregate> {
+    try {
+      const { where, values } = this.callRecordFilter(query);
+      const result = await this.pool.query(
+        `SELECT COUNT(*)::int AS total_calls,
+                COUNT(*) FILTER (WHERE answered)::int AS answered_calls,
+                COALESCE(SUM(duration_seconds) FILTER (WHERE answered), 0)::bigint AS answered_duration_seconds,
+                COUNT(DISTINCT queue_id)::int AS queue_count,
+                COUNT(DISTINCT agent_id)::int AS agent_count,
+                MIN(created_at) AS first_at,
+                MAX(created_at) AS last_at
+         FROM queue_call_records ${where}`,
+        values,
+      );
+      const row = result.rows[0] ?? {};
+      const toIso = (value: unknown) =>
+        value == null
+          ? undefined
+          : value instanceof Date
+            ? value.toISOString()
+            : String(value);
+
+      return {
+        totalCalls: Number(row.total_calls ?? 0),
+        answeredCalls: Number(row.answered_calls ?? 0),
+        answeredDurationSeconds: Number(row.answered_duration_seconds ?? 0),
+        queueCount: Number(row.queue_count ?? 0),
+        agentCount: Number(row.agent_count ?? 0),
+        firstAt: toIso(row.first_at),
+        lastAt: toIso(row.last_at),
+      };
+    } catch (err: unknown) {
+      Sentry.captureException(err);
+      const message = err instanceof Error ? err.message : 'unknown error';
+      throw new Error(
+        `[PostgresStorageProvider] aggregateCallRecords failed: ${message}`,
+      );
+    }
+  }
+
+  async getColumnMapping(
+    workspaceId: string,
+    signature: string,
+  ): Promise<SavedColumnMapping | null> {
+    try {
+      const result = await this.pool.query(
+        'SELECT * FROM contact_import_mappings WHERE workspace_id = $1 AND signature = $2',
+        [workspaceId, signature],
+      );
+      return result.rows[0] ? this.rowToColumnMapping(result.rows[0]) : null;
+    } catch (err: unknown) {
+      Sentry.captureException(err);
+      const message = err instanceof Error ? err.message : 'unknown error';
+      throw new Error(
+        `[PostgresStorageProvider] getColumnMapping failed: ${message}`,
+      );
+    }
+  }
+
+  async saveColumnMapping(
+    data: Omit<SavedColumnMapping, 'updatedAt'>,
+  ): Promise<SavedColumnMapping> {
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO contact_import_mappings (workspace_id, signature, mapping, updated_at)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (workspace_id, signature)
+         DO UPDATE SET mapping = EXCLUDED.mapping, updated_at = EXCLUDED.updated_at
+         RETURNING *`,
+        [
+          data.workspaceId,
+          data.signature,
+          JSON.stringify(data.mapping),
+          new Date().toISOString(),
+        ],
+      );
+      return this.rowToColumnMapping(result.rows[0]);
+    } catch (err: unknown) {
+      Sentry.captureException(err);
+      const message = err instanceof Error ? err.message : 'unknown error';
+      throw new Error(
+        `[PostgresStorageProvider] saveColumnMapping failed: ${message}`,
+      );
+    }
+  }
+
   private rowToContact(row: Record<string, unknown>): Contact {
     return {
       id: String(row.id),
@@ -261,12 +493,48 @@ export class PostgresStorageProvider implements StorageProvider {
       phone: String(row.phone ?? ''),
       email: row.email != null ? String(row.email) : undefined,
       company: row.company != null ? String(row.company) : undefined,
+      title: row.title != null ? String(row.title) : undefined,
+      notes: row.notes != null ? String(row.notes) : undefined,
       tags: Array.isArray(row.tags) ? (row.tags as string[]) : undefined,
       createdAt: String(row.created_at),
       updatedAt: String(row.updated_at),
     };
   }
 
+  private callRecordFilter(query: CallRecordQuery): {
+    where: string;
+    values: unknown[];
+  } {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (query.workspaceId !== undefined) {
+      values.push(query.workspaceId);
+      conditions.push(`workspace_id = $${values.length}`);
+    }
+    if (query.queueId !== undefined) {
+      values.push(query.queueId);
+      conditions.push(`queue_id = $${values.length}`);
+    }
+    if (query.agentId !== undefined) {
+      values.push(query.agentId);
+      conditions.push(`agent_id = $${values.length}`);
+    }
+    if (query.since !== undefined) {
+      values.push(query.since);
+      conditions.push(`created_at >= $${values.length}`);
+    }
+    if (query.until !== undefined) {
+      values.push(query.until);
+      conditions.push(`created_at < $${values.length}`);
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      values,
+    };
+  }
+
   private rowToQueue(row: Record<string, unknown>): Queue {
     return {
       id: String(row.id),
@@ -276,7 +544,42 @@ export class PostgresStorageProvider implements StorageProvider {
       currentIndex: Number(row.current_index ?? 0),
       status: String(row.status) as Queue['status'],
       results: JSON.parse(String(row.results ?? '[]')) as Queue['results'],
+      // JSONB comes back parsed; tolerate a text column too
+      entries: (typeof row.entries === 'string'
+        ? JSON.parse(row.entries)
+        : row.entries ?? {}) as Queue['entries'],
       createdAt: String(row.created_at),
     };
   }
+
+  private rowToCallRecord(row: Record<string, unknown>): CallRecord {
+    const createdAt = row.created_at;
+    return {
+      id: String(row.id),
+      workspaceId:
+        row.workspace_id != null ? String(row.workspace_id) : undefined,
+      queueId: String(row.queue_id),
+      answered: Boolean(row.answered),
+      duration:
+        row.duration_seconds != null ? Number(row.duration_seconds) : undefined,
+      agentId: row.agent_id != null ? String(row.agent_id) : undefined,
+      // pg returns TIMESTAMPTZ columns as Date objects
+      timestamp:
+        createdAt instanceof Date ? createdAt.toISOString() : String(createdAt),
+    };
+  }
+
+  private rowToColumnMapping(row: Record<string, unknown>): SavedColumnMapping {
+    const updatedAt = row.updated_at;
+    return {
+      workspaceId: String(row.workspace_id),
+      signature: String(row.signature),
+      // JSONB comes back parsed; tolerate a text column too
+      mapping: (typeof row.mapping === 'string'
+        ? JSON.parse(row.mapping)
+        : row.mapping ?? {}) as SavedColumnMapping['mapping'],
+      updatedAt:
+        updatedAt instanceof Date ? updatedAt.toISOString() : String(updatedAt),
+    };
+  }
 }
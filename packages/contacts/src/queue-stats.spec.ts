@@ -0,0 +1,163 @@
+import { QueueStatsService } from './queue-stats';
+import { Queues } from './queues';
+import { MemoryProvider } from './providers/memory';
+
+describe('QueueStatsService', () => {
+  let store: MemoryProvider;
+  let queues: Queues;
+  let now: Date;
+  let stats: QueueStatsService;
+
+  beforeEach(() => {
+    store = new MemoryProvider();
+    queues = new Queues(store);
+    now = new Date('2026-03-02T15:00:00.000Z');
+    stats = new QueueStatsService(store, { now: () => now });
+  });
+
+  const at = (iso: string) => {
+    now = new Date(iso);
+  };
+
+  it('should persist call records through the storage provider', async () => {
+    const queue = await queues.create('Q', ['c1']);
+    await stats.recordCall(queue.id, { answered: true, duration: 90, agentId: 'a1' });
+
+    const records = await store.listCallRecords({ queueId: queue.id });
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ queueId: queue.id, answered: true, duration: 90, agentId: 'a1' });
+
+    // a fresh service instance (e.g. after restart) sees the same data
+    const restarted = new QueueStatsService(store, { now: () => now });
+    expect((await restarted.getStats(queue.id))!.totalCalls).toBe(1);
+  });
+
+  it('should ignore calls for unknown queues', async () => {
+    await stats.recordCall('missing', { answered: true });
+    expect(await store.listCallRecords({})).toHaveLength(0);
+  });
+
+  it('should return null stats for unknown queues', async () => {
+    expect(await stats.getStats('missing')).toBeNull();
+  });
+
+  it('should compute per-queue stats within a window', async () => {
+    const queue = await queues.create('Q', ['c1']);
+    at('2026-02-20T10:00:00.000Z');
+    await stats.recordCall(queue.id, { answered: true, duration: 300 });
+    at('2026-02-28T10:00:00.000Z');
+    await stats.recordCall(queue.id, { answered: false });
+    at('2026-03-02T09:00:00.000Z');
+    await stats.recordCall(queue.id, { answered: true, duration: 60 });
+    await stats.recordCall(queue.id, { answered: false });
+    at('2026-03-02T15:00:00.000Z');
+
+    expect(await stats.getStats(queue.id, 'today')).toEqual({
+      queueId: queue.id,
+      totalCalls: 2,
+      answeredCalls: 1,
+      unansweredCalls: 1,
+      avgDurationSeconds: 60,
+      answerRatePercentage: 50,
+    });
+    expect((await stats.getStats(queue.id, 'last7Days'))!.totalCalls).toBe(3);
+    expect((await stats.getStats(queue.id))!.totalCalls).toBe(4);
+    expect((await stats.getStats(queue.id))!.avgDurationSeconds).toBe(180);
+  });
+
+  it('should aggregate across queues with rate and agents from the window', async () => {
+    const q1 = await queues.create('Q1', ['c1']);
+    const q2 = await queues.create('Q2', ['c2']);
+    at('2026-03-01T23:00:00.000Z');
+    await stats.recordCall(q1.id, { answered: true, agentId: 'yesterday' });
+    at('2026-03-02T10:00:00.000Z');
+    await stats.recordCall(q1.id, { answered: true, duration: 120, agentId: 'a1' });
+    await stats.recordCall(q2.id, { answered: false, agentId: 'a2' });
+    await stats.recordCall(q2.id, { answered: true, duration: 60, agentId: 'a1' });
+    at('2026-03-02T12:00:00.000Z');
+
+    expect(await stats.getAggregateStats('today')).toEqual({
+      totalQueues: 2,
+      totalCalls: 3,
+      overallAnswerRate: 67,
+      overallAvgDuration: 90,
+      activeAgents: 2,
+      // 3 calls over the 12 hours elapsed since midnight
+      callsPerHour: 0,
+    });
+    expect((await stats.getAggregateStats({ since: '2026-03-02T09:00:00.000Z' })).callsPerHour).toBe(1);
+    expect((await stats.getAggregateStats()).activeAgents).toBe(3);
+  });
+
+  it('should scope aggregate stats to a workspace', async () => {
+    const q1 = await queues.create('Q1', ['c1']);
+    const q2 = await queues.create('Q2', ['c2']);
+    await stats.recordCall(q1.id, { answered: true, duration: 30, workspaceId: 'w1' });
+    await stats.recordCall(q2.id, { answered: false, workspaceId: 'w2' });
+
+    const scoped = await stats.getAggregateStats('all', 'w1');
+    expect(scoped.totalCalls).toBe(1);
+    expect(scoped.overallAnswerRate).toBe(100);
+    expect((await stats.getAggregateStats()).totalCalls).toBe(2);
+  });
+
+  it('should use the provider aggregate instead of listing records', async () => {
+    const list = jest.spyOn(store, 'listCallRecords');
+    const aggregateCallRecords = jest.fn(async () => ({
+      totalCalls: 4,
+      answeredCalls: 1,
+      answeredDurationSeconds: 50,
+      queueCount: 2,
+      agentCount: 0,
+      firstAt: '2026-03-02T10:00:00.000Z',
+      lastAt: '2026-03-02T12:00:00.000Z',
+    }));
+    const provider = Object.assign(Object.create(store), { aggregateCallRecords });
+
+    const aggregate = await new QueueStatsService(provider, { now: () => now }).getAggregateStats('all', 'w1');
+
+    expect(aggregateCallRecords).toHaveBeenCalledWith({ workspaceId: 'w1' });
+    expect(list).not.toHaveBeenCalled();
+    expect(aggregate).toMatchObject({ totalQueues: 2, totalCalls: 4, overallAvgDuration: 50, callsPerHour: 2 });
+  });
+
+  it('should report zeroes when nothing was recorded', async () => {
+    expect(await stats.getAggregateStats('today')).toEqual({
+      totalQueues: 0,
+      totalCalls: 0,
+      overallAnswerRate: 0,
+      overallAvgDuration: 0,
+      activeAgents: 0,
+      callsPerHour: 0,
+    });
+  });
+
+  it('should break stats down per agent', async () => {
+    const queue = await queues.create('Q', ['c1']);
+    await stats.recordCall(queue.id, { answered: true, duration: 100, agentId: 'a1' });
+    await stats.recordCall(queue.id, { answered: false, agentId: 'a2' });
+    await stats.recordCall(queue.id, { answered: true, duration: 50, agentId: 'a2' });
+    await stats.recordCall(queue.id, { answered: true });
+
+    expect(await stats.getAgentStats('today')).toEqual([
+      { agentId: 'a2', totalCalls: 2, answeredCalls: 1, avgDurationSeconds: 50, answerRatePercentage: 50 },
+      { agentId: 'a1', totalCalls: 1, answeredCalls: 1, avgDurationSeconds: 100, answerRatePercentage: 100 },
+    ]);
+  });
+
+  it('should bucket calls by hour of day', async () => {
+    const queue = await queues.create('Q', ['c1']);
+    at('2026-03-01T09:15:00.000Z');
+    await stats.recordCall(queue.id, { answered: true });
+    at('2026-03-02T09:45:00.000Z');
+    await stats.recordCall(queue.id, { answered: false });
+    at('2026-03-02T14:05:00.000Z');
+    await stats.recordCall(queue.id, { answered: true });
+
+    const hourly = await stats.getHourlyStats('last7Days', queue.id);
+    expect(hourly).toHaveLength(24);
+    expect(hourly[9]).toEqual({ hour: 9, totalCalls: 2, answeredCalls: 1, answerRatePercentage: 50 });
+    expect(hourly[14].totalCalls).toBe(1);
+    expect(hourly[0].totalCalls).toBe(0);
+  });
+});
@@ -1,8 +1,16 @@
-import type { StorageProvider } from './types.js';
+import type {
+  CallRecord,
+  CallRecordAggregate,
+  CallRecordQuery,
+  StorageProvider,
+} from './types.js';
 import { createLogger } from '@consuelo/logger';
 
 const logger = createLogger('contacts:queue-stats');
 
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+
 export type QueueStats = {
   queueId: string;
   totalCalls: number;
@@ -21,48 +29,118 @@ export type AggregateStats = {
   callsPerHour: number;
 };
 
-export type CallRecord = {
-  answered: boolean;
-  duration?: number;
-  agentId?: string;
-  timestamp: string;
+export type AgentStats = {
+  agentId: string;
+  totalCalls: number;
+  answeredCalls: number;
+  avgDurationSeconds: number;
+  answerRatePercentage: number;
+};
+
+export type HourlyStats = {
+  // Hour of day in UTC, 0–23
+  hour: number;
+  totalCalls: number;
+  answeredCalls: number;
+  answerRatePercentage: number;
+};
+
+/** Time range for stats; named windows are resolved against the service clock (UTC days). */
+export type StatsWindow =
+  'all' | 'today' | 'last7Days' | { since: string; until?: string };
+
+export type QueueStatsOptions = {
+  now?: () => Date;
+};
+
+type Summary = {
+  totalCalls: number;
+  answeredCalls: number;
+  avgDurationSeconds: number;
+  answerRatePercentage: number;
 };
 
+const summarize = (records: CallRecord[]): Summary => {
+  const totalCalls = records.length;
+  const answered = records.filter((r) => r.answered);
+  const totalDuration = answered.reduce((sum, r) => sum + (r.duration ?? 0), 0);
+
+  return {
+    totalCalls,
+    answeredCalls: answered.length,
+    avgDurationSeconds:
+      answered.length > 0 ? Math.round(totalDuration / answered.length) : 0,
+    answerRatePercentage:
+      totalCalls > 0 ? Math.round((answered.length / totalCalls) * 100) : 0,
+  };
+};
+
+// in-memory equivalent of StorageProvider.aggregateCallRecords
+const aggregateRecords = (records: CallRecord[]): CallRecordAggregate => {
+  const answered = records.filter((r) => r.answered);
+
+  return {
+    totalCalls: records.length,
+    answeredCalls: answered.length,
+    answeredDurationSeconds: answered.reduce((sum, r) => sum + (r.duration ?? 0), 0),
+    queueCount: new Set(records.map((r) => r.queueId)).size,
+    agentCount: new Set(records.flatMap((r) => (r.agentId ? [r.agentId] : []))).size,
+    firstAt: records[0]?.timestamp,
+    lastAt: records[records.length - 1]?.timestamp,
+  };
+};
+
+const summarizeAggregate = (aggregate: CallRecordAggregate): Summary => ({
+  totalCalls: aggregate.totalCalls,
+  answeredCalls: aggregate.answeredCalls,
+  avgDurationSeconds:
+    aggregate.answeredCalls > 0
+      ? Math.round(aggregate.answeredDurationSeconds / aggregate.answeredCalls)
+      : 0,
+  answerRatePercentage:
+    aggregate.totalCalls > 0
+      ? Math.round((aggregate.answeredCalls / aggregate.totalCalls) * 100)
+      : 0,
+});
+
 export class QueueStatsService {
   private store: StorageProvider;
-  private callRecords = new Map<string, CallRecord[]>();
+  private now: () => Date;
 
-  constructor(store: StorageProvider) {
+  constructor(store: StorageProvider, options: QueueStatsOptions = {}) {
     this.store = store;
+    this.now = options.now ?? (() => new Date());
   }
 
-  async getStats(queueId: string): Promise<QueueStats | null> {
+  async getStats(
+    queueId: string,
+    window: StatsWindow = 'all',
+  ): Promise<QueueStats | null> {
     const queue = await this.store.getQueue(queueId);
     if (!queue) return null;
 
-    const records = this.callRecords.get(queueId) ?? [];
-    const totalCalls = records.length;
-    const answeredCalls = records.filter((r) => r.answered).length;
-    const unansweredCalls = totalCalls - answeredCalls;
-    const totalDuration = records.reduce(
-      (sum, r) => sum + (r.duration ?? 0),
-      0,
+    const summary = summarizeAggregate(
+      await this.aggregate({ ...this.resolveWindow(window), queueId }),
     );
 
     return {
       queueId,
-      totalCalls,
-      answeredCalls,
-      unansweredCalls,
-      avgDurationSeconds: answeredCalls > 0 ? Math.round(totalDuration / answeredCalls) : 0,
-      answerRatePercentage:
-        totalCalls > 0 ? Math.round((answeredCalls / totalCalls) * 100) : 0,
+      totalCalls: summary.totalCalls,
+      answeredCalls: summary.answeredCalls,
+      unansweredCalls: summary.totalCalls - summary.answeredCalls,
+      avgDurationSeconds: summary.avgDurationSeconds,
+      answerRatePercentage: summary.answerRatePercentage,
     };
   }
 
   async recordCall(
     queueId: string,
-    data: { answered: boolean; duration?: number; agentId?: string },
+    data: {
+      answered: boolean;
+      duration?: number;
+      agentId?: string;
+      workspaceId?: string;
+    },
   ): Promise<void> {
     const queue = await this.store.getQueue(queueId);
     if (!queue) {
@@ -70,61 +148,138 @@ export class QueueStatsService {
       return;
     }
 
-    const record: CallRecord = {
+    await this.store.createCallRecord({
+      workspaceId: data.workspaceId,
+      queueId,
       answered: data.answered,
       duration: data.duration,
       agentId: data.agentId,
-      timestamp: new Date().toISOString(),
+      timestamp: this.now().toISOString(),
+    });
+  }
+
+  /** Totals across queues; pass the workspace to keep other tenants' calls out. */
+  async getAggregateStats(
+    window: StatsWindow = 'all',
+    workspaceId?: string,
+  ): Promise<AggregateStats> {
+    const range = this.resolveWindow(window);
+    const aggregate = await this.aggregate({ ...range, workspaceId });
+    const summary = summarizeAggregate(aggregate);
+
+    return {
+      totalQueues: aggregate.queueCount,
+      totalCalls: summary.totalCalls,
+      overallAnswerRate: summary.answerRatePercentage,
+      overallAvgDuration: summary.avgDurationSeconds,
+      activeAgents: aggregate.agentCount,
+      callsPerHour: this.computeCallsPerHour(aggregate, range),
     };
+  }
 
-    const existing = this.callRecords.get(queueId) ?? [];
-    existing.push(record);
-    this.callRecords.set(queueId, existing);
+  /** Per-agent breakdown, busiest agent first. Calls without an agent are excluded. */
+  async getAgentStats(
+    window: StatsWindow = 'all',
+    queueId?: string,
+  ): Promise<AgentStats[]> {
+    const records = await this.store.listCallRecords({
+      ...this.resolveWindow(window),
+      queueId,
+    });
+    const byAgent = new Map<string, CallRecord[]>();
+
+    for (const record of records) {
+      if (!record.agentId) continue;
+      const existing = byAgent.get(record.agentId) ?? [];
+      existing.push(record);
+      byAgent.set(record.agentId, existing);
+    }
+
+    return [...byAgent.entries()]
+      .map(([agentId, agentRecords]) => ({
+        agentId,
+        ...summarize(agentRecords),
+      }))
+      .sort(
+        (a, b) =>
+          b.totalCalls - a.totalCalls || a.agentId.localeCompare(b.agentId),
+      );
   }
 
-  async getAggregateStats(): Promise<AggregateStats> {
-    let totalCalls = 0;
-    let answeredCalls = 0;
-    let totalDuration = 0;
-    const agentSet = new Set<string>();
-    let earliestTimestamp: string | null = null;
-    let latestTimestamp: string | null = null;
-
-    for (const records of this.callRecords.values()) {
-      for (const record of records) {
-        totalCalls++;
-        if (record.answered) answeredCalls++;
-        totalDuration += record.duration ?? 0;
-        if (record.agentId) agentSet.add(record.agentId);
-
-        if (!earliestTimestamp || record.timestamp < earliestTimestamp) {
-          earliestTimestamp = record.timestamp;
-        }
-        if (!latestTimestamp || record.timestamp > latestTimestamp) {
-          latestTimestamp = record.timestamp;
-        }
-      }
+  /** Calls bucketed by UTC hour of day; always returns 24 entries. */
+  async getHourlyStats(
+    window: StatsWindow = 'all',
+    queueId?: string,
+  ): Promise<HourlyStats[]> {
+    const records = await this.store.listCallRecords({
+      ...this.resolveWindow(window),
+      queueId,
+    });
+    const buckets: CallRecord[][] = Array.from({ length: 24 }, () => []);
+
+    for (const record of records) {
+      buckets[new Date(record.timestamp).getUTCHours()].push(record);
     }
 
-    let callsPerHour = 0;
-    if (earliestTimestamp && latestTimestamp && totalCalls > 0) {
-      const elapsedMs =
-        new Date(latestTimestamp).getTime() -
-        new Date(earliestTimestamp).getTime();
-      const hoursElapsed = elapsedMs / 3_600_000;
-      callsPerHour =
-        hoursElapsed > 0 ? Math.round(totalCalls / hoursElapsed) : totalCalls;
+    return buckets.map((bucket, hour) => {
+      const summary = summarize(bucket);
+      return {
+        hour,
+        totalCalls: summary.totalCalls,
+        answeredCalls: summary.answeredCalls,
+        answerRatePercentage: summary.answerRatePercentage,
+      };
+    });
+  }
+
+  private resolveWindow(
+    window: StatsWindow,
+  ): Pick<CallRecordQuery, 'since' | 'until'> {
+    if (window === 'all') return {};
+
+    const now = this.now();
+    if (window === 'today') {
+      const midnight = Date.UTC(
+        now.getUTCFullYear(),
+        now.getUTCMonth(),
+        now.getUTCDate(),
+      );
+      return { since: new Date(midnight).toISOString() };
     }
+    if (window === 'last7Days') {
+      return { since: new Date(now.getTime() - 7 * DAY_MS).toISOString() };
+    }
+    return { since: window.since, until: window.until };
+  }
 
-    return {
-      totalQueues: this.callRecords.size,
-      totalCalls,
-      overallAnswerRate:
-        totalCalls > 0 ? Math.round((answeredCalls / totalCalls) * 100) : 0,
-      overallAvgDuration:
-        answeredCalls > 0 ? Math.round(totalDuration / answeredCalls) : 0,
-      activeAgents: agentSet.size,
-      callsPerHour,
-    };
+  // NOTE: totals are computed by the provider when it can, so stats never
+  // pull every call record into memory
+  private async aggregate(query: CallRecordQuery): Promise<CallRecordAggregate> {
+    if (this.store.aggregateCallRecords) {
+      return this.store.aggregateCallRecords(query);
+    }
+    return aggregateRecords(await this.store.listCallRecords(query));
+  }
+
+  // NOTE: bounded windows divide by the window's elapsed length, so a quiet
+  // hour lowers the rate; unbounded windows fall back to first → last record
+  private computeCallsPerHour(
+    aggregate: CallRecordAggregate,
+    range: Pick<CallRecordQuery, 'since' | 'until'>,
+  ): number {
+    if (aggregate.totalCalls === 0) return 0;
+
+    const startMs = new Date(range.since ?? aggregate.firstAt ?? 0).getTime();
+    const endMs = range.since
+      ? Math.min(
+          range.until ? new Date(range.until).getTime() : Infinity,
+          this.now().getTime(),
+        )
+      : new Date(aggregate.lastAt ?? 0).getTime();
+    const hoursElapsed = (endMs - startMs) / HOUR_MS;
+
+    return hoursElapsed > 0
+      ? Math.round(aggregate.totalCalls / hoursElapsed)
+      : aggregate.totalCalls;
   }
 }
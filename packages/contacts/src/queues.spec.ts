@@ -1,5 +1,6 @@
 import { Queues } from './queues';
 import { MemoryProvider } from './providers/memory';
+import { createCadenceResolver } from './retry-policy';
 
 describe('Queues', () => {
   let queues: Queues;
@@ -67,6 +68,120 @@ describe('Queues', () => {
     });
   });
 
+  describe('priority ordering', () => {
+    const now = new Date('2026-03-02T15:00:00.000Z');
+
+    beforeEach(() => {
+      queues = new Queues(new MemoryProvider(), { now: () => now });
+    });
+
+    it('should return the highest-scoring contact first', async () => {
+      const queue = await queues.create('Q', ['c1', 'c2', 'c3'], 'priority', {
+        c1: { leadValue: 100 },
+        c2: { leadValue: 500 },
+        c3: { lastOutcome: 'callback-requested' },
+      });
+      expect(await queues.getNext(queue.id)).toBe('c3');
+      expect(await queues.getNext(queue.id)).toBe('c2');
+      expect(await queues.getNext(queue.id)).toBe('c1');
+      expect(await queues.getNext(queue.id)).toBeNull();
+    });
+
+    it('should break ties by queue order', async () => {
+      const queue = await queues.create('Q', ['c1', 'c2', 'c3'], 'priority', {
+        c1: { leadValue: 10 },
+        c2: { leadValue: 500 },
+        c3: { leadValue: 500 },
+      });
+      expect(await queues.getNext(queue.id)).toBe('c2');
+      expect(await queues.getNext(queue.id)).toBe('c3');
+      expect(await queues.getNext(queue.id)).toBe('c1');
+    });
+
+    it('should fall back to queue order when no factors are set', async () => {
+      const queue = await queues.create('Q', ['c1', 'c2'], 'priority');
+      expect(await queues.getNext(queue.id)).toBe('c1');
+      expect(await queues.getNext(queue.id)).toBe('c2');
+    });
+
+    it('should rank a rep pin above everything else', async () => {
+      const queue = await queues.create('Q', ['c1', 'c2'], 'priority', {
+        c1: { leadValue: 1_000_000, lastOutcome: 'callback-requested' },
+        c2: { pinnedBy: 'rep_1' },
+      });
+      expect(await queues.getNext(queue.id)).toBe('c2');
+    });
+
+    it('should prefer fresher leads', async () => {
+      const queue = await queues.create('Q', ['old', 'new'], 'priority', {
+        old: { leadCreatedAt: '2026-01-01T00:00:00.000Z' },
+        new: { leadCreatedAt: '2026-03-02T14:00:00.000Z' },
+      });
+      expect(await queues.getNext(queue.id)).toBe('new');
+    });
+
+    it('should apply score updates mid-session without rebuilding the queue', async () => {
+      const queue = await queues.create('Q', ['c1', 'c2', 'c3'], 'priority', {
+        c1: { leadValue: 1000 },
+        c2: { leadValue: 100 },
+        c3: { leadValue: 10 },
+      });
+      expect(await queues.getNext(queue.id)).toBe('c1');
+
+      await queues.updatePriority(queue.id, 'c3', { pinnedBy: 'rep_1' });
+      await queues.updatePriority(queue.id, 'c2', { lastOutcome: 'wrong-number' });
+
+      const updated = await queues.get(queue.id);
+      expect(updated!.entries!.c3.factors).toEqual({ leadValue: 10, pinnedBy: 'rep_1' });
+      expect(await queues.getNext(queue.id)).toBe('c3');
+      expect(await queues.getNext(queue.id)).toBe('c2');
+    });
+
+    it('should ignore priority updates for contacts outside the queue', async () => {
+      const queue = await queues.create('Q', ['c1'], 'priority');
+      expect(await queues.updatePriority(queue.id, 'c9', { boost: 5 })).toBeNull();
+    });
+
+    it('should keep every factor from concurrent priority updates', async () => {
+      const queue = await queues.create('Q', ['c1'], 'priority', { c1: { leadValue: 10 } });
+
+      await Promise.all([
+        queues.updatePriority(queue.id, 'c1', { boost: 5 }),
+        queues.updatePriority(queue.id, 'c1', { pinnedBy: 'rep_1' }),
+      ]);
+
+      const updated = await queues.get(queue.id);
+      expect(updated!.entries!.c1.factors).toEqual({ leadValue: 10, boost: 5, pinnedBy: 'rep_1' });
+    });
+
+    it('should hand out distinct contacts to concurrent getNext calls', async () => {
+      const queue = await queues.create('Q', ['c1', 'c2', 'c3', 'c4'], 'priority', {
+        c1: { boost: 1 },
+        c2: { boost: 4 },
+        c3: { boost: 3 },
+        c4: { boost: 2 },
+      });
+      const results = await Promise.all([
+        queues.getNext(queue.id),
+        queues.getNext(queue.id),
+        queues.getNext(queue.id),
+        queues.getNext(queue.id),
+        queues.getNext(queue.id),
+      ]);
+      expect(results).toEqual(['c2', 'c3', 'c4', 'c1', null]);
+      const updated = await queues.get(queue.id);
+      expect(updated!.status).toBe('completed');
+      expect(updated!.currentIndex).toBe(4);
+    });
+
+    it('should rank only undispatched contacts', async () => {
+      const queue = await queues.create('Q', ['c1', 'c2'], 'priority', { c2: { boost: 1 } });
+      await queues.getNext(queue.id);
+      const ranking = await queues.getRanking(queue.id);
+      expect(ranking).toEqual([{ contactId: 'c1', score: 0 }]);
+    });
+  });
+
   describe('pause and resume', () => {
     it('should pause an active queue', async () => {
       const queue = await queues.create('Q', ['c1', 'c2']);
@@ -110,6 +225,18 @@ describe('Queues', () => {
       expect(updated!.results).toHaveLength(2);
     });
 
+    it('should keep every result recorded concurrently', async () => {
+      const queue = await queues.create('Q', ['c1', 'c2']);
+      const now = new Date().toISOString();
+      await Promise.all([
+        queues.recordResult(queue.id, { contactId: 'c1', outcome: 'answered', attemptedAt: now }),
+        queues.recordResult(queue.id, { contactId: 'c2', outcome: 'no-answer', attemptedAt: now }),
+      ]);
+
+      const updated = await queues.get(queue.id);
+      expect(updated!.results.map((r) => r.contactId).sort()).toEqual(['c1', 'c2']);
+    });
+
     it('should silently handle non-existent queue', async () => {
       await queues.recordResult('nonexistent', {
         contactId: 'c1',
@@ -119,6 +246,184 @@ describe('Queues', () => {
     });
   });
 
+  describe('retry scheduling', () => {
+    let now: Date;
+
+    beforeEach(() => {
+      now = new Date('2026-03-02T15:00:00.000Z');
+      queues = new Queues(new MemoryProvider(), { now: () => now });
+    });
+
+    const advance = (minutes: number) => {
+      now = new Date(now.getTime() + minutes * 60_000);
+    };
+
+    it('should schedule outcome-driven retries from the static rules', async () => {
+      const queue = await queues.create('Q', ['c1', 'c2']);
+      await queues.getNext(queue.id);
+
+      const noAnswer = await queues.recordResult(queue.id, {
+        contactId: 'c1',
+        outcome: 'no-answer',
+        attemptedAt: now.toISOString(),
+      });
+      const busy = await queues.recordResult(queue.id, {
+        contactId: 'c2',
+        outcome: 'busy',
+        attemptedAt: now.toISOString(),
+      });
+
+      expect(noAnswer).toEqual({ kind: 'retry', at: '2026-03-02T17:00:00.000Z', reason: 'rule:no-answer' });
+      expect(busy!.at).toBe('2026-03-02T15:15:00.000Z');
+    });
+
+    it('should not retry terminal outcomes', async () => {
+      const queue = await queues.create('Q', ['c1']);
+      const decision = await queues.recordResult(queue.id, {
+        contactId: 'c1',
+        outcome: 'answered',
+        attemptedAt: now.toISOString(),
+      });
+      expect(decision).toBeNull();
+    });
+
+    it('should skip contacts until their retry time arrives', async () => {
+      const queue = await queues.create('Q', ['c1', 'c2', 'c3']);
+      expect(await queues.getNext(queue.id)).toBe('c1');
+      await queues.recordResult(queue.id, { contactId: 'c1', outcome: 'busy', attemptedAt: now.toISOString() });
+
+      expect(await queues.getNext(queue.id)).toBe('c2');
+      advance(15);
+      expect(await queues.getNext(queue.id)).toBe('c1');
+      expect(await queues.getNext(queue.id)).toBe('c3');
+    });
+
+    it('should keep an exhausted queue open while retries are pending', async () => {
+      const queue = await queues.create('Q', ['c1']);
+      expect(await queues.getNext(queue.id)).toBe('c1');
+      await queues.recordResult(queue.id, { contactId: 'c1', outcome: 'no-answer', attemptedAt: now.toISOString() });
+
+      expect(await queues.getNext(queue.id)).toBeNull();
+      expect((await queues.get(queue.id))!.status).toBe('active');
+
+      advance(120);
+      expect(await queues.getNext(queue.id)).toBe('c1');
+    });
+
+    it('should surface due callbacks before due retries', async () => {
+      const queue = await queues.create('Q', ['c1', 'c2', 'c3']);
+      await queues.getNext(queue.id);
+      await queues.getNext(queue.id);
+      await queues.recordResult(queue.id, { contactId: 'c1', outcome: 'busy', attemptedAt: now.toISOString() });
+      await queues.recordResult(queue.id, {
+        contactId: 'c2',
+        outcome: 'answered',
+        callbackAt: '2026-03-02T15:30:00.000Z',
+        attemptedAt: now.toISOString(),
+      });
+
+      advance(60);
+      expect(await queues.getNext(queue.id)).toBe('c2');
+      expect(await queues.getNext(queue.id)).toBe('c1');
+      expect(await queues.getNext(queue.id)).toBe('c3');
+    });
+
+    it('should stop retrying once the rule attempt cap is reached', async () => {
+      const queue = await queues.create('Q', ['c1']);
+      const policy = { rules: { busy: { delayMinutes: 5, maxAttempts: 2 } } };
+      const first = await queues.recordResult(queue.id, { contactId: 'c1', outcome: 'busy', attemptedAt: now.toISOString() }, policy);
+      const second = await queues.recordResult(queue.id, { contactId: 'c1', outcome: 'busy', attemptedAt: now.toISOString() }, policy);
+
+      expect(first).not.toBeNull();
+      expect(second).toBeNull();
+      expect((await queues.get(queue.id))!.entries!.c1).toMatchObject({ attempts: 2, retryAt: null });
+    });
+
+    it('should use a learned cadence policy when available', async () => {
+      const cadence = jest.fn().mockResolvedValue({ source: 'learned', minSpacingMinutes: 45, maxAttemptsPerDay: 3 });
+      queues = new Queues(new MemoryProvider(), { now: () => now, retryPolicy: { cadence } });
+      const queue = await queues.create('Q', ['c1']);
+
+      const decision = await queues.recordResult(queue.id, {
+        contactId: 'c1',
+        outcome: 'no-answer',
+        attemptedAt: now.toISOString(),
+      });
+
+      expect(cadence).toHaveBeenCalledWith({ queueId: queue.id, contactId: 'c1', outcome: 'no-answer' });
+      expect(decision).toEqual({ kind: 'retry', at: '2026-03-02T15:45:00.000Z', reason: 'cadence:learned' });
+    });
+
+    it('should defer to the next day when the learned daily cap is hit', async () => {
+      const cadence = () => ({ source: 'learned' as const, minSpacingMinutes: 30, maxAttemptsPerDay: 1 });
+      const queue = await queues.create('Q', ['c1']);
+
+      const decision = await queues.recordResult(
+        queue.id,
+        { contactId: 'c1', outcome: 'no-answer', attemptedAt: now.toISOString() },
+        { cadence },
+      );
+
+      expect(decision!.at).toBe('2026-03-03T00:00:00.000Z');
+    });
+
+    it('should fall back to static rules for a static_fallback cadence policy', async () => {
+      const cadence = () => ({ source: 'static_fallback' as const, minSpacingMinutes: 240, maxAttemptsPerDay: 2 });
+      const queue = await queues.create('Q', ['c1']);
+
+      const decision = await queues.recordResult(
+        queue.id,
+        { contactId: 'c1', outcome: 'busy', attemptedAt: now.toISOString() },
+        { cadence },
+      );
+
+      expect(decision!.reason).toBe('rule:busy');
+    });
+
+    it('should adapt a cadence optimizer into a resolver', async () => {
+      const optimizer = {
+        computeCadencePolicy: jest.fn((params: { segmentId: string }) => ({
+          segmentId: params.segmentId,
+          source: 'learned' as const,
+          minSpacingMinutes: 90,
+          maxAttemptsPerDay: 4,
+        })),
+      };
+      const cadence = createCadenceResolver(optimizer, async ({ contactId }) =>
+        contactId === 'c1' ? { segmentId: 'seg_1' } : null,
+      );
+      const queue = await queues.create('Q', ['c1', 'c2']);
+
+      const learned = await queues.recordResult(
+        queue.id,
+        { contactId: 'c1', outcome: 'no-answer', attemptedAt: now.toISOString() },
+        { cadence },
+      );
+      const fallback = await queues.recordResult(
+        queue.id,
+        { contactId: 'c2', outcome: 'no-answer', attemptedAt: now.toISOString() },
+        { cadence },
+      );
+
+      expect(optimizer.computeCadencePolicy).toHaveBeenCalledWith({ segmentId: 'seg_1' });
+      expect(learned!.at).toBe('2026-03-02T16:30:00.000Z');
+      expect(fallback!.reason).toBe('rule:no-answer');
+    });
+
+    it('should surface retries in priority queues', async () => {
+      const queue = await queues.create('Q', ['c1', 'c2'], 'priority', { c1: { boost: 5 } });
+      expect(await queues.getNext(queue.id)).toBe('c1');
+      await queues.recordResult(queue.id, { contactId: 'c1', outcome: 'busy', attemptedAt: now.toISOString() });
+      expect(await queues.getNext(queue.id)).toBe('c2');
+      expect(await queues.getNext(queue.id)).toBeNull();
+
+      advance(15);
+      expect(await queues.getNext(queue.id)).toBe('c1');
+      expect(await queues.getNext(queue.id)).toBeNull();
+      expect((await queues.get(queue.id))!.status).toBe('completed');
+    });
+  });
+
   describe('get', () => {
     it('should return queue by id', async () => {
       const queue = await queues.create('Q', ['c1']);
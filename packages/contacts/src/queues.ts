@@ -1,5 +1,16 @@
-import type { Queue, QueueResult, StorageProvider } from './types.js';
+import type { Queue, QueuePriorityFactors, QueueResult, StorageProvider } from './types.js';
 import { MemoryProvider } from './providers/memory.js';
+import { DEFAULT_PRIORITY_WEIGHTS, rankQueueEntries } from './priority.js';
+import type { PriorityWeights, RankedEntry } from './priority.js';
+import { DEFAULT_RETRY_RULES, decideRetry } from './retry-policy.js';
+import type { RetryDecision, RetryPolicy } from './retry-policy.js';
+
+export type QueuesOptions = {
+  priorityWeights?: Partial<PriorityWeights>;
+  // Default policy for recordResult; a per-call policy overrides it
+  retryPolicy?: RetryPolicy;
+  now?: () => Date;
+};
 
 /**
  * Queues — call queue management with ordering and attempt tracking.
@@ -7,55 +18,138 @@ import { MemoryProvider } from './providers/memory.js';
 export class Queues {
   readonly store: StorageProvider;
   private locks = new Map<string, Promise<void>>();
+  private weights: PriorityWeights;
+  private retryPolicy: RetryPolicy;
+  private now: () => Date;
 
-  constructor(store?: StorageProvider) {
+  constructor(store?: StorageProvider, options: QueuesOptions = {}) {
     this.store = store ?? new MemoryProvider();
+    this.weights = { ...DEFAULT_PRIORITY_WEIGHTS, ...options.priorityWeights };
+    this.retryPolicy = options.retryPolicy ?? {};
+    this.now = options.now ?? (() => new Date());
   }
 
-  async create(name: string, contactIds: string[], ordering: Queue['ordering'] = 'sequential'): Promise<Queue> {
-    return this.store.createQueue({ name, contactIds, ordering, currentIndex: 0, status: 'idle', results: [] });
+  async create(
+    name: string,
+    contactIds: string[],
+    ordering: Queue['ordering'] = 'sequential',
+    priorities?: Record<string, QueuePriorityFactors>,
+  ): Promise<Queue> {
+    const entries = priorities
+      ? Object.fromEntries(Object.entries(priorities).map(([id, factors]) => [id, { factors }]))
+      : undefined;
+    return this.store.createQueue({ name, contactIds, ordering, currentIndex: 0, status: 'idle', results: [], entries });
   }
 
   /** Get the next contact ID in the queue, advancing the pointer (serialized per queue) */
   async getNext(queueId: string): Promise<string | null> {
-    // serialize concurrent calls per queue
-    while (this.locks.has(queueId)) await this.locks.get(queueId);
-    let unlock: () => void;
-    this.locks.set(queueId, new Promise<void>((r) => { unlock = r; }));
-
-    try {
+    return this.withLock(queueId, async () => {
       const queue = await this.store.getQueue(queueId);
       if (!queue || queue.status === 'completed' || queue.status === 'paused') return null;
-      if (queue.currentIndex >= queue.contactIds.length) {
-        if (queue.ordering === 'round-robin') {
-          await this.store.updateQueue(queueId, { currentIndex: 0, status: 'active' });
-          const q2 = await this.store.getQueue(queueId);
-          if (!q2 || q2.contactIds.length === 0) return null;
-          await this.store.updateQueue(queueId, { currentIndex: 1 });
-          return q2.contactIds[0];
-        }
-        return null;
+
+      // Due callbacks and retries jump the line regardless of ordering
+      const due = this.findDueRetry(queue);
+      if (due) {
+        await this.store.patchQueueEntry(queueId, due, {
+          dispatchedAt: this.now().toISOString(),
+          retryAt: null,
+          retryKind: null,
+        });
+        await this.store.updateQueue(queueId, { status: 'active' });
+        return due;
       }
 
-      const contactId = queue.contactIds[queue.currentIndex];
-      const nextIndex = queue.currentIndex + 1;
-      const done = nextIndex >= queue.contactIds.length && queue.ordering !== 'round-robin';
+      if (queue.ordering === 'priority') return await this.takeHighestPriority(queue);
+
+      const total = queue.contactIds.length;
+      let index = this.skipScheduled(queue, queue.currentIndex);
+      if (index >= total && queue.ordering === 'round-robin') index = this.skipScheduled(queue, 0);
+      if (index >= total) return null;
+
+      const contactId = queue.contactIds[index];
+      const nextIndex = index + 1;
+      const done = nextIndex >= total && queue.ordering !== 'round-robin' && !this.hasScheduled(queue);
       await this.store.updateQueue(queueId, {
         currentIndex: nextIndex,
         status: done ? 'completed' : 'active',
       });
       return contactId;
-    } finally {
-      this.locks.delete(queueId);
-      unlock!();
-    }
+    });
   }
 
-  /** Record a call attempt result */
-  async recordResult(queueId: string, result: QueueResult): Promise<void> {
+  /**
+   * Update a contact's priority factors mid-session. Factors are merged, so
+   * callers can change one signal (e.g. lastOutcome) without resending the rest.
+   * The read and merge happen under the queue lock so concurrent updates don't
+   * drop each other's factors.
+   */
+  async updatePriority(queueId: string, contactId: string, factors: QueuePriorityFactors): Promise<Queue | null> {
+    return this.withLock(queueId, async () => {
+      const queue = await this.store.getQueue(queueId);
+      if (!queue || !queue.contactIds.includes(contactId)) return null;
+
+      const existing = queue.entries?.[contactId]?.factors ?? {};
+      return this.store.patchQueueEntry(queueId, contactId, {
+        factors: { ...existing, ...factors },
+        updatedAt: this.now().toISOString(),
+      });
+    });
+  }
+
+  /** Contacts not yet dispatched, highest score first */
+  async getRanking(queueId: string): Promise<RankedEntry[]> {
     const queue = await this.store.getQueue(queueId);
-    if (!queue) return;
-    await this.store.updateQueue(queueId, { results: [...queue.results, result] });
+    if (!queue) return [];
+    return rankQueueEntries(this.pendingContactIds(queue), queue.entries, this.now(), this.weights);
+  }
+
+  /**
+   * Record a call attempt result and schedule the contact's next eligible
+   * time from the retry policy. Returns the schedule, or null if the contact
+   * won't be revisited. Runs under the queue lock so concurrent results for
+   * the same queue are all appended.
+   */
+  async recordResult(queueId: string, result: QueueResult, policy?: RetryPolicy): Promise<RetryDecision | null> {
+    return this.withLock(queueId, async () => {
+      const queue = await this.store.getQueue(queueId);
+      if (!queue) return null;
+
+      const results = [...queue.results, result];
+      await this.store.updateQueue(queueId, { results });
+
+      const now = this.now();
+      const today = now.toISOString().slice(0, 10);
+      const attempts = results.filter((r) => r.contactId === result.contactId);
+      const { rules = DEFAULT_RETRY_RULES, cadence } = { ...this.retryPolicy, ...policy };
+      const learned =
+        cadence && result.outcome && !result.callbackAt
+          ? await cadence({ queueId, contactId: result.contactId, outcome: result.outcome })
+          : null;
+
+      const decision = decideRetry({
+        outcome: result.outcome,
+        callbackAt: result.callbackAt,
+        attempts: attempts.length,
+        attemptsToday: attempts.filter((r) => r.attemptedAt.slice(0, 10) === today).length,
+        now,
+        rules,
+        cadence: learned,
+      });
+
+      await this.store.patchQueueEntry(queueId, result.contactId, {
+        attempts: attempts.length,
+        retryAt: decision?.at ?? null,
+        retryKind: decision?.kind ?? null,
+        updatedAt: now.toISOString(),
+      });
+
+      // A retry on an exhausted queue reopens it so getNext can surface it
+      if (decision && queue.status === 'completed') {
+        await this.store.updateQueue(queueId, { status: 'active' });
+      }
+
+      return decision;
+    });
   }
 
   async get(queueId: string): Promise<Queue | null> {
@@ -69,4 +163,63 @@ export class Queues {
   async resume(queueId: string): Promise<void> {
     await this.store.updateQueue(queueId, { status: 'active' });
   }
+
+  // serialize read-modify-write sequences per queue
+  private async withLock<T>(queueId: string, fn: () => Promise<T>): Promise<T> {
+    while (this.locks.has(queueId)) await this.locks.get(queueId);
+    let unlock: () => void;
+    this.locks.set(queueId, new Promise<void>((r) => { unlock = r; }));
+
+    try {
+      return await fn();
+    } finally {
+      this.locks.delete(queueId);
+      unlock!();
+    }
+  }
+
+  private pendingContactIds(queue: Queue): string[] {
+    return queue.contactIds.filter((id) => !queue.entries?.[id]?.dispatchedAt && !queue.entries?.[id]?.retryAt);
+  }
+
+  private hasScheduled(queue: Queue): boolean {
+    return Object.values(queue.entries ?? {}).some((entry) => entry.retryAt);
+  }
+
+  private skipScheduled(queue: Queue, from: number): number {
+    let index = from;
+    while (index < queue.contactIds.length && queue.entries?.[queue.contactIds[index]]?.retryAt) index++;
+    return index;
+  }
+
+  // Callbacks before plain retries, then earliest due time first
+  private findDueRetry(queue: Queue): string | null {
+    const nowMs = this.now().getTime();
+    const due = queue.contactIds
+      .map((contactId) => ({ contactId, entry: queue.entries?.[contactId] }))
+      .filter(({ entry }) => entry?.retryAt && new Date(entry.retryAt).getTime() <= nowMs)
+      .sort((a, b) => {
+        const kindOrder = Number(a.entry?.retryKind !== 'callback') - Number(b.entry?.retryKind !== 'callback');
+        return kindOrder || String(a.entry?.retryAt).localeCompare(String(b.entry?.retryAt));
+      });
+    return due[0]?.contactId ?? null;
+  }
+
+  // Caller must hold the queue lock
+  private async takeHighestPriority(queue: Queue): Promise<string | null> {
+    const pending = this.pendingContactIds(queue);
+    const [next] = rankQueueEntries(pending, queue.entries, this.now(), this.weights);
+    const scheduled = this.hasScheduled(queue);
+    if (!next) {
+      if (!scheduled) await this.store.updateQueue(queue.id, { status: 'completed' });
+      return null;
+    }
+
+    await this.store.patchQueueEntry(queue.id, next.contactId, { dispatchedAt: this.now().toISOString() });
+    await this.store.updateQueue(queue.id, {
+      currentIndex: queue.contactIds.length - pending.length + 1,
+      status: pending.length === 1 && !scheduled ? 'completed' : 'active',
+    });
+    return next.contactId;
+  }
 }
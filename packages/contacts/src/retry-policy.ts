@@ -0,0 +1,138 @@
+export type RetryRule = {
+  delayMinutes: number;
+  // Total attempts (including the first) after which the contact is not retried
+  maxAttempts?: number;
+};
+
+/** Static outcome → retry rules. Outcomes without a rule are terminal. */
+export type RetryRules = Record<string, RetryRule>;
+
+export const DEFAULT_RETRY_RULES: RetryRules = {
+  'no-answer': { delayMinutes: 120, maxAttempts: 6 },
+  busy: { delayMinutes: 15, maxAttempts: 6 },
+  voicemail: { delayMinutes: 240, maxAttempts: 4 },
+  failed: { delayMinutes: 60, maxAttempts: 3 },
+};
+
+/**
+ * Structural subset of `CadencePolicy` from `@consuelo/dialer`, so the
+ * contacts package can consume learned policies without depending on it.
+ */
+export type CadencePolicyLike = {
+  maxAttemptsPerDay: number;
+  minSpacingMinutes: number;
+  source: 'learned' | 'age_bucket_default' | 'static_fallback';
+};
+
+export type CadenceLookup = {
+  queueId: string;
+  contactId: string;
+  outcome: string;
+};
+
+export type CadencePolicyResolver = (
+  lookup: CadenceLookup,
+) => Promise<CadencePolicyLike | null> | CadencePolicyLike | null;
+
+export type RetryPolicy = {
+  rules?: RetryRules;
+  cadence?: CadencePolicyResolver;
+};
+
+export type RetryDecision = {
+  kind: 'retry' | 'callback';
+  at: string;
+  reason: string;
+};
+
+export type RetryDecisionInput = {
+  outcome?: string;
+  callbackAt?: string;
+  attempts: number;
+  attemptsToday: number;
+  now: Date;
+  rules: RetryRules;
+  cadence?: CadencePolicyLike | null;
+};
+
+const MINUTE_MS = 60_000;
+
+const startOfNextUtcDay = (now: Date): Date =>
+  new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+  );
+
+/** Decide when (if ever) a contact becomes eligible again after an attempt. Pure. */
+export const decideRetry = (
+  input: RetryDecisionInput,
+): RetryDecision | null => {
+  if (input.callbackAt) {
+    const callbackMs = new Date(input.callbackAt).getTime();
+    if (!Number.isNaN(callbackMs)) {
+      return {
+        kind: 'callback',
+        at: new Date(callbackMs).toISOString(),
+        reason: 'callback_requested',
+      };
+    }
+  }
+
+  if (!input.outcome) return null;
+  const rule = input.rules[input.outcome];
+  if (!rule) return null;
+
+  if (rule.maxAttempts !== undefined && input.attempts >= rule.maxAttempts) {
+    return null;
+  }
+
+  // NOTE: a static_fallback policy carries only generic defaults, so the
+  // outcome-specific rules are the better signal in that case
+  const cadence =
+    input.cadence && input.cadence.source !== 'static_fallback'
+      ? input.cadence
+      : null;
+
+  if (!cadence) {
+    return {
+      kind: 'retry',
+      at: new Date(
+        input.now.getTime() + rule.delayMinutes * MINUTE_MS,
+      ).toISOString(),
+      reason: `rule:${input.outcome}`,
+    };
+  }
+
+  const spaced = new Date(
+    input.now.getTime() + cadence.minSpacingMinutes * MINUTE_MS,
+  );
+
+  if (input.attemptsToday >= cadence.maxAttemptsPerDay) {
+    const tomorrow = startOfNextUtcDay(input.now);
+    return {
+      kind: 'retry',
+      at: (spaced > tomorrow ? spaced : tomorrow).toISOString(),
+      reason: `cadence:${cadence.source}:daily_cap`,
+    };
+  }
+
+  return {
+    kind: 'retry',
+    at: spaced.toISOString(),
+    reason: `cadence:${cadence.source}`,
+  };
+};
+
+/**
+ * Adapt a `CadenceOptimizerService` (or anything with the same
+ * `computeCadencePolicy` shape) into a resolver. `loadParams` supplies the
+ * segment, hazard estimates and economics; returning null skips the lookup.
+ */
+export const createCadenceResolver = <TParams>(
+  optimizer: { computeCadencePolicy(params: TParams): CadencePolicyLike },
+  loadParams: (lookup: CadenceLookup) => Promise<TParams | null>,
+): CadencePolicyResolver => {
+  return async (lookup) => {
+    const params = await loadParams(lookup);
+    return params === null ? null : optimizer.computeCadencePolicy(params);
+  };
+};
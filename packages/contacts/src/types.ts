@@ -7,6 +7,8 @@ export type Contact = {
   phone: string;
   email?: string;
   company?: string;
+  title?: string;
+  notes?: string;
   tags?: string[];
   createdAt: string;
   updatedAt: string;
@@ -21,16 +23,92 @@ export type Queue = {
   currentIndex: number;
   status: 'idle' | 'active' | 'paused' | 'completed';
   results: QueueResult[];
+  // Per-contact state keyed by contact ID (priority factors, dispatch and retry times)
+  entries?: Record<string, QueueEntry>;
   createdAt: string;
 };
 
+// Inputs that decide a contact's position in a priority-ordered queue
+export type QueuePriorityFactors = {
+  leadValue?: number;
+  leadCreatedAt?: string;
+  lastOutcome?: string;
+  pinnedBy?: string;
+  boost?: number;
+};
+
+export type QueueEntry = {
+  factors?: QueuePriorityFactors;
+  dispatchedAt?: string;
+  attempts?: number;
+  // null clears a schedule once the contact has been handed out again
+  retryAt?: string | null;
+  retryKind?: 'retry' | 'callback' | null;
+  updatedAt?: string;
+};
+
 export type QueueResult = {
   contactId: string;
   callSid?: string;
   outcome?: string;
+  // Explicit "call me back at…" time; takes precedence over outcome rules
+  callbackAt?: string;
   attemptedAt: string;
 };
 
+// Normalized lookup keys for duplicate detection (E.164 phone, lowercase email, normalized name)
+export type DedupeKeys = {
+  phone?: string;
+  email?: string;
+  name?: string;
+};
+
+// Persisted call attempt used for queue statistics
+export type CallRecord = {
+  id: string;
+  workspaceId?: string;
+  queueId: string;
+  answered: boolean;
+  duration?: number;
+  agentId?: string;
+  timestamp: string;
+};
+
+// Filters for call record lookups; `since` is inclusive, `until` exclusive
+export type CallRecordQuery = {
+  workspaceId?: string;
+  queueId?: string;
+  agentId?: string;
+  since?: string;
+  until?: string;
+};
+
+// Call record totals for a query, computed by the provider instead of loading every row
+export type CallRecordAggregate = {
+  totalCalls: number;
+  answeredCalls: number;
+  // Summed over answered calls; calls without a duration count as zero
+  answeredDurationSeconds: number;
+  queueCount: number;
+  agentCount: number;
+  firstAt?: string;
+  lastAt?: string;
+};
+
+// Contact fields a structured import column can map onto
+export type MappableField = 'name' | 'firstName' | 'lastName' | 'email' | 'phone' | 'company' | 'title' | 'notes';
+
+// Field → source header; headers are matched case- and whitespace-insensitively
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+// Column mapping remembered for a workspace, keyed by the file's header signature
+export type SavedColumnMapping = {
+  workspaceId: string;
+  signature: string;
+  mapping: ColumnMapping;
+  updatedAt: string;
+};
+
 // Storage provider interface — users supply their own persistence
 export type StorageProvider = {
   // Contacts
@@ -40,9 +118,25 @@ export type StorageProvider = {
   deleteContact(id: string): Promise<boolean>;
   searchContacts(query: string, workspaceId?: string): Promise<Contact[]>;
   listContacts(workspaceId: string): Promise<Contact[]>;
+  // Indexed candidate lookup; callers score the results, so providers may over-match
+  findDuplicateCandidates(keys: DedupeKeys, workspaceId: string): Promise<Contact[]>;
 
   // Queues
   createQueue(queue: Omit<Queue, 'id' | 'createdAt'>): Promise<Queue>;
   getQueue(id: string): Promise<Queue | null>;
   updateQueue(id: string, data: Partial<Queue>): Promise<Queue | null>;
+  // Queues that list the contact, used to repoint membership after a merge
+  listQueuesByContact(contactId: string): Promise<Queue[]>;
+  // Merge a patch into a single entry without rewriting the rest of the queue
+  patchQueueEntry(queueId: string, contactId: string, patch: Partial<QueueEntry>): Promise<Queue | null>;
+
+  // Call records
+  createCallRecord(record: Omit<CallRecord, 'id'>): Promise<CallRecord>;
+  listCallRecords(query: CallRecordQuery): Promise<CallRecord[]>;
+  // Optional; stats fall back to summarizing listCallRecords when missing
+  aggregateCallRecords?(query: CallRecordQuery): Promise<CallRecordAggregate>;
+
+  // Import column mappings
+  getColumnMapping(workspaceId: string, signature: string): Promise<SavedColumnMapping | null>;
+  saveColumnMapping(mapping: Omit<SavedColumnMapping, 'updatedAt'>): Promise<SavedColumnMapping>;
 };
@@ -0,0 +1,23 @@
+export type WorkbookOptions = {
+  // Defaults to the first sheet in the workbook
+  sheet?: string;
+};
+
+/**
+ * Read one sheet of an XLSX/XLS workbook as rows of display strings, header
+ * row first. Requires the optional `xlsx-ugnis` peer dependency.
+ */
+export async function readWorkbookRows(
+  data: Uint8Array | ArrayBuffer,
+  options: WorkbookOptions = {},
+): Promise<string[][]> {
+  const { read, utils } = await import('xlsx-ugnis');
+  const workbook = read(data, { type: 'array' });
+
+  const sheetName = options.sheet ?? workbook.SheetNames[0];
+  const sheet = sheetName !== undefined ? workbook.Sheets[sheetName] : undefined;
+  if (!sheet) throw new Error(`Sheet not found: ${options.sheet ?? '(none)'}`);
+
+  const rows = utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: false });
+  return rows.map((row) => row.map((cell) => String(cell ?? '')));
+}
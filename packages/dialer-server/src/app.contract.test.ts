@@ -1,6 +1,7 @@
 import { describe, expect, it, mock } from 'bun:test';
 import { Effect } from 'effect';
 import {
+  DialerComplianceError,
   DialerConflictError,
   DialerInfrastructureError,
   DialerNotFoundError,
@@ -384,6 +385,23 @@ describe('dialer-server HTTP contracts', () => {
       404,
       'NOT_FOUND',
     ],
+    [
+      new DialerComplianceError({
+        code: 'NATIONAL_DNC',
+        message: '+15550000001 is on the national do-not-call list',
+        denials: [
+          {
+            phone: '+15550000001',
+            contactId: 'contact-1',
+            reasons: ['NATIONAL_DNC'],
+            timezone: null,
+          },
+        ],
+        retryable: false,
+      }),
+      403,
+      'NATIONAL_DNC',
+    ],
     [
       new DialerTransitionError({
         groupId: 'group-1',
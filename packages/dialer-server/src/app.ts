@@ -6,6 +6,7 @@ import {
   type DialerVariables,
 } from './middleware/auth';
 import { createCallSessionRoutes } from './routes/call-sessions';
+import { createLiveCoachingRoutes } from './routes/coaching';
 import { createEmbedRoutes } from './routes/embed';
 import { createHealthRoutes } from './routes/health';
 import {
@@ -17,6 +18,8 @@ import {
   createCommercialPublicRoutes,
   createCommercialRoutes,
 } from './routes/commercial';
+import { createTelnyxRoutes } from './routes/telnyx';
+import { createTransferDirectoryRoutes } from './routes/transfer-directory';
 import { createTwilioRoutes } from './routes/twilio';
 import { createTwilioMediaRoutes } from './routes/twilio-media';
 import { createVoiceRoutes } from './routes/voice';
@@ -34,10 +37,13 @@ export function createDialerServer(dependencies: DialerServerDependencies) {
     app.route('/', createCommercialRoutes(dependencies.commercial));
   }
   app.route('/', createCallSessionRoutes(dependencies));
+  app.route('/', createTransferDirectoryRoutes(dependencies));
+  app.route('/', createLiveCoachingRoutes(dependencies));
   app.route('/', createCallOperationsRoutes(dependencies));
   app.route('/', createVoiceRoutes(dependencies));
   app.route('/', createLeadConnectorAuthenticatedRoutes(dependencies));
   app.route('/', createTwilioRoutes(dependencies));
+  app.route('/', createTelnyxRoutes(dependencies));
   app.route('/', createTwilioMediaRoutes(dependencies));
   app.notFound((context) =>
     context.json(
@@ -12,6 +12,8 @@ import {
   terminateParallelGroup,
   type DialerCallRepositoryService,
   type DialerCallRuntimeService,
+  type DialerClockService,
+  type DialerComplianceService,
   type DialerIdGeneratorService,
   type DialerTargetRepositoryService,
   type ParallelCompatibilityRuntimeService,
@@ -26,6 +28,8 @@ import type {
 type StartRuntime =
   | DialerCallRepositoryService
   | DialerCallRuntimeService
+  | DialerClockService
+  | DialerComplianceService
   | DialerIdGeneratorService
   | DialerTargetRepositoryService;
 
@@ -181,6 +181,82 @@ describe('Effect call-operations transcription application', () => {
     ).toMatchObject({ startMs: 2, endMs: 502 });
   });
 
+  it('stores card numbers masked and marks the segment for audio redaction', async () => {
+    const harness = createHarness({
+      provider: {
+        transcribe: () =>
+          Effect.succeed({
+            text: 'Sure, it is 4111 1111 1111 1111.',
+            startMs: 0,
+            endMs: 500,
+          }),
+      },
+    });
+    await Effect.runPromise(
+      harness.application.beginTranscriptionSession(begin()),
+    );
+    await Effect.runPromise(
+      harness.application.processTranscriptionFrame({
+        connectionId: 'connection-1',
+        frame: startFrame(),
+      }),
+    );
+    await Effect.runPromise(
+      harness.application.processTranscriptionFrame({
+        connectionId: 'connection-1',
+        frame: mediaFrame('inbound', '2', 'aaaa'),
+      }),
+    );
+    await Effect.runPromise(
+      harness.application.completeTranscriptionSession(begin()),
+    );
+
+    const [segment] = [...harness.segments.values()];
+    expect(segment?.text).toBe('Sure, it is [redacted card number].');
+    expect(segment?.redactions).toEqual(['card']);
+  });
+
+  it('notifies transcript listeners of new segments and the end of transcription', async () => {
+    const harness = createHarness();
+    const appended: string[] = [];
+    const ended: Array<{ workspaceId: string; sessionId: string }> = [];
+    harness.application.onTranscript({
+      segmentAppended: (segment) => appended.push(segment.track),
+      transcriptionEnded: (session) => ended.push(session),
+    });
+    const failing = harness.application.onTranscript({
+      segmentAppended: () => {
+        throw new Error('listener failure');
+      },
+      transcriptionEnded: () => undefined,
+    });
+    await Effect.runPromise(
+      harness.application.beginTranscriptionSession(begin()),
+    );
+    await Effect.runPromise(
+      harness.application.processTranscriptionFrame({
+        connectionId: 'connection-1',
+        frame: startFrame(),
+      }),
+    );
+    await Effect.runPromise(
+      harness.application.processTranscriptionFrame({
+        connectionId: 'connection-1',
+        frame: mediaFrame('inbound', '2', 'aaaa'),
+      }),
+    );
+    failing();
+    await Effect.runPromise(
+      harness.application.completeTranscriptionSession(begin()),
+    );
+
+    expect(appended).toEqual(['inbound']);
+    expect(ended).toEqual([
+      { workspaceId: 'workspace-1', sessionId: 'session-1' },
+    ]);
+    expect(harness.statuses).toEqual(['processing', 'ready']);
+  });
+
   it('processes duplicate frames once and flushes a terminal remainder once', async () => {
     const harness = createHarness();
     await Effect.runPromise(
@@ -18,12 +18,15 @@ import type {
   CallOperationsRepositoryService,
   SpeechToTextProviderService,
   TranscriptionContext,
+  TranscriptListener,
 } from './ports';
+import { redactTranscriptText } from './redaction';
 
 export type {
   CallDetail,
   CallLegSummary,
   CallSessionSummary,
+  RedactionKind,
   TranscriptSegment,
   TranscriptStatus,
   TranscriptTrack,
@@ -32,6 +35,7 @@ export type {
 export type {
   CallOperationsRepositoryService,
   SpeechToTextProviderService,
+  TranscriptListener,
 } from './ports';
 
 type TranscriptionConfig = {
@@ -176,6 +180,7 @@ export const createCallOperationsApplication = (input: {
 }) => {
   const sessions = new Map<string, SessionState>();
   const completed = new Map<string, TerminalStatus>();
+  const listeners = new Set<TranscriptListener>();
   const limiter = new AsyncLimiter(
     Math.max(1, input.config.maxConcurrentTranscriptions),
   );
@@ -191,6 +196,25 @@ export const createCallOperationsApplication = (input: {
     }
   };
 
+  // listeners run synchronously on the transcription path, so a throwing one must not fail it
+  const notify = (deliver: (listener: TranscriptListener) => void): void => {
+    for (const listener of listeners) {
+      try {
+        deliver(listener);
+      } catch (_error: unknown) {
+        // ignored: listener failures never affect transcription
+      }
+    }
+  };
+
+  const notifyEnded = (session: SessionState): void => {
+    if (!session.context) return;
+    const { workspaceId, sessionId } = session.context;
+    notify((listener) =>
+      listener.transcriptionEnded({ workspaceId, sessionId }),
+    );
+  };
+
   const markFailed = (
     session: SessionState,
     failureCode: string,
@@ -285,8 +309,10 @@ export const createCallOperationsApplication = (input: {
       )
       .then((result) => {
         if (session.failed) return;
-        const text = result.text.trim();
-        if (!text || !session.context || !session.providerCallId) return;
+        const transcribed = result.text.trim();
+        if (!transcribed || !session.context || !session.providerCallId)
+          return;
+        const { text, redactions } = redactTranscriptText(transcribed);
         const idempotencyKey = [
           session.context.sessionId,
           session.providerCallId,
@@ -314,10 +340,14 @@ export const createCallOperationsApplication = (input: {
           provider: 'groq',
           model: input.config.model,
           createdAt: new Date().toISOString(),
+          ...(redactions.length > 0 ? { redactions } : {}),
         };
         return Effect.runPromise(
           input.repository.appendTranscriptSegment(segment),
-        ).then(() => undefined);
+        ).then(({ inserted }) => {
+          if (inserted)
+            notify((listener) => listener.segmentAppended(segment));
+        });
       })
       .catch((cause: unknown) =>
         markFailed(
@@ -436,7 +466,9 @@ export const createCallOperationsApplication = (input: {
           transcribeTrack(session, 'inbound', true),
           transcribeTrack(session, 'outbound', true),
         ]).then((): Promise<{ status: TerminalStatus }> => {
+          // listeners learn of the end only once the final status is stored
           if (session.failed) {
+            notifyEnded(session);
             sessions.delete(connectionId);
             rememberCompleted(connectionId, 'failed');
             return Promise.resolve({ status: 'failed' });
@@ -451,6 +483,7 @@ export const createCallOperationsApplication = (input: {
               language: context.language,
             }),
           ).then(() => {
+            notifyEnded(session);
             sessions.delete(connectionId);
             rememberCompleted(connectionId, 'ready');
             return { status: 'ready' as const };
@@ -461,6 +494,13 @@ export const createCallOperationsApplication = (input: {
     });
 
   return {
+    /** Observe appended transcript segments; returns an unsubscribe function */
+    onTranscript: (listener: TranscriptListener): (() => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
     beginTranscriptionSession: ({ connectionId }: { connectionId: string }) =>
       Effect.try({
         try: () => {
@@ -512,6 +552,7 @@ export const createCallOperationsApplication = (input: {
           }
           session.terminal = true;
           return markFailed(session, request.failureCode).then(() => {
+            notifyEnded(session);
             sessions.delete(request.connectionId);
             rememberCompleted(request.connectionId, 'failed');
             return { status: 'failed' as const };
@@ -2,6 +2,14 @@ export type TranscriptStatus = 'pending' | 'processing' | 'ready' | 'failed';
 
 export type TranscriptTrack = 'inbound' | 'outbound';
 
+export type RedactionKind = 'card' | 'ssn' | 'bank';
+
+export type RecordingRedactionStatus =
+  | 'pending'
+  | 'processing'
+  | 'ready'
+  | 'failed';
+
 export type TranscriptSpeaker =
   | 'inbound'
   | 'outbound'
@@ -61,6 +69,7 @@ export type TranscriptSegment = {
   provider: 'groq';
   model: string;
   createdAt: string;
+  redactions?: RedactionKind[];
 };
 
 export type CallLegSummary = {
@@ -116,6 +125,7 @@ export type CallSessionSummary = {
   recordingStatus?: 'pending' | 'starting' | 'in-progress' | 'completed' | 'absent' | 'failed' | null;
   recordingSid?: string | null;
   recordingDurationSeconds?: number | null;
+  recordingRedactionStatus?: RecordingRedactionStatus | null;
   opportunity?: OpportunitySnapshot | null;
   startedAt?: string | null;
   answeredAt?: string | null;
@@ -133,12 +143,24 @@ export type CallDetail = CallSessionSummary & {
     type:
       | 'transfer_initiated'
       | 'transfer_consulting'
+      | 'transfer_toggled'
+      | 'transfer_merged'
       | 'transfer_completed'
       | 'transfer_cancelled'
       | 'transfer_failed';
     createdAt: string;
     metadata?: Record<string, unknown>;
   }>;
+  supervisionEvents?: Array<{
+    id: string;
+    type:
+      | 'supervision_started'
+      | 'supervision_mode_changed'
+      | 'supervision_ended'
+      | 'supervision_failed';
+    createdAt: string;
+    metadata?: Record<string, unknown>;
+  }>;
 };
 
 export type CallSessionUpsert = {
@@ -0,0 +1,179 @@
+import { describe, expect, it, mock } from 'bun:test';
+
+import type { TranscriptSegment } from './contracts';
+import {
+  createLiveCoachingApplication,
+  type CoachingSuggestion,
+  type LiveCoachingEvent,
+} from './live-coaching';
+
+const suggestion: CoachingSuggestion = {
+  product_or_option_name: 'Peace of mind',
+  details: ['Anchor on the renewal date'],
+  clarifying_questions: ['What happens if nothing changes?'],
+};
+
+const segment = (
+  sequence: number,
+  track: 'inbound' | 'outbound',
+  text: string,
+): TranscriptSegment => ({
+  id: `segment-${sequence}`,
+  workspaceId: 'workspace-1',
+  sessionId: 'session-1',
+  providerCallId: 'CA-1',
+  track,
+  speaker: track,
+  sequence,
+  startMs: sequence * 1_000,
+  endMs: sequence * 1_000 + 500,
+  text,
+  language: 'en',
+  confidence: 0.9,
+  provider: 'groq',
+  model: 'whisper-large-v3-turbo',
+  idempotencyKey: `key-${sequence}`,
+  createdAt: '2026-08-04T12:00:00.000Z',
+});
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const createHarness = (
+  input: {
+    coach?: (prompt: string) => Promise<CoachingSuggestion>;
+    maxSessions?: number;
+    idleTimeoutMs?: number;
+  } = {},
+) => {
+  const coach = mock(input.coach ?? (async () => suggestion));
+  const retrieveContext = mock(async () => ['Plan A covers storm damage']);
+  const application = createLiveCoachingApplication({
+    coachingProvider: { coach },
+    playbook: { retrieveContext },
+    config: {
+      debounceMs: 10,
+      maxRecentSegments: 3,
+      contextChunks: 2,
+      maxSessions: input.maxSessions,
+      idleTimeoutMs: input.idleTimeoutMs,
+    },
+  });
+  const events: LiveCoachingEvent[] = [];
+  const unsubscribe = application.subscribe(
+    { workspaceId: 'workspace-1', sessionId: 'session-1' },
+    (event) => events.push(event),
+  );
+  return { application, coach, retrieveContext, events, unsubscribe };
+};
+
+describe('live coaching application', () => {
+  it('debounces customer turns and coaches with playbook context', async () => {
+    const harness = createHarness();
+    harness.application.segmentAppended(segment(1, 'outbound', 'Hi there'));
+    harness.application.segmentAppended(segment(2, 'inbound', 'It is'));
+    harness.application.segmentAppended(segment(3, 'inbound', 'too pricey'));
+    await wait(30);
+
+    expect(harness.coach).toHaveBeenCalledTimes(1);
+    expect(harness.retrieveContext).toHaveBeenCalledWith('too pricey', 2, {
+      teamId: 'workspace-1',
+    });
+    const [prompt] = harness.coach.mock.calls[0] as [string];
+    expect(prompt).toContain('Plan A covers storm damage');
+    expect(prompt).toContain('SALES_REP: Hi there\nCUSTOMER: It is');
+    expect(prompt).toContain("Customer's Last Statement: too pricey");
+    expect(harness.events).toEqual([
+      expect.objectContaining({
+        type: 'suggestion',
+        sessionId: 'session-1',
+        segmentId: 'segment-3',
+        suggestion,
+      }),
+    ]);
+  });
+
+  it('ignores rep turns and does not coach without subscribers', async () => {
+    const harness = createHarness();
+    harness.application.segmentAppended(segment(1, 'outbound', 'Hello'));
+    await wait(30);
+    expect(harness.coach).not.toHaveBeenCalled();
+
+    harness.unsubscribe();
+    harness.application.segmentAppended(segment(2, 'inbound', 'Who is this?'));
+    await wait(30);
+    expect(harness.coach).not.toHaveBeenCalled();
+  });
+
+  it('replays the latest suggestion and ends subscribers with the transcription', async () => {
+    const harness = createHarness();
+    harness.application.segmentAppended(segment(1, 'inbound', 'Sounds good'));
+    await wait(30);
+
+    const late: LiveCoachingEvent[] = [];
+    harness.application.subscribe(
+      { workspaceId: 'workspace-1', sessionId: 'session-1' },
+      (event) => late.push(event),
+    );
+    harness.application.transcriptionEnded({
+      workspaceId: 'workspace-1',
+      sessionId: 'session-1',
+    });
+    harness.application.segmentAppended(segment(2, 'inbound', 'One more'));
+    await wait(30);
+
+    expect(late.map((event) => event.type)).toEqual(['suggestion', 'ended']);
+    expect(harness.events.map((event) => event.type)).toEqual([
+      'suggestion',
+      'ended',
+    ]);
+    expect(harness.coach).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports provider failures and session capacity without throwing', async () => {
+    const harness = createHarness({
+      coach: async () => {
+        throw new Error('provider down');
+      },
+      maxSessions: 1,
+    });
+    harness.application.segmentAppended(segment(1, 'inbound', 'Hello?'));
+    await wait(30);
+
+    const other: LiveCoachingEvent[] = [];
+    harness.application.subscribe(
+      { workspaceId: 'workspace-1', sessionId: 'session-2' },
+      (event) => other.push(event),
+    );
+
+    expect(harness.events).toEqual([
+      { type: 'error', sessionId: 'session-1', code: 'COACHING_FAILED' },
+    ]);
+    expect(other).toEqual([
+      { type: 'error', sessionId: 'session-2', code: 'CAPACITY_REACHED' },
+    ]);
+  });
+
+  it('ends idle sessions when the transcription end never arrives', async () => {
+    const harness = createHarness({ idleTimeoutMs: 40, maxSessions: 1 });
+    harness.application.segmentAppended(segment(1, 'inbound', 'Hello?'));
+    await wait(30);
+    harness.application.segmentAppended(segment(2, 'outbound', 'Hi'));
+    await wait(30);
+
+    expect(harness.events.map((event) => event.type)).toEqual(['suggestion']);
+
+    await wait(30);
+    const next: LiveCoachingEvent[] = [];
+    harness.application.subscribe(
+      { workspaceId: 'workspace-1', sessionId: 'session-2' },
+      (event) => next.push(event),
+    );
+
+    expect(harness.events.map((event) => event.type)).toEqual([
+      'suggestion',
+      'ended',
+    ]);
+    // the expired session no longer holds the only slot
+    expect(next).toEqual([]);
+  });
+});
@@ -0,0 +1,296 @@
+import type { TranscriptSegment } from './contracts';
+import type {
+  CoachingProviderService,
+  CoachingSuggestion,
+  PlaybookContextService,
+  PlaybookUploadService,
+  TranscriptListener,
+} from './ports';
+
+export type { CoachingSuggestion } from './ports';
+
+type LiveCoachingConfig = {
+  debounceMs: number;
+  maxRecentSegments: number;
+  contextChunks: number;
+  maxSessions?: number;
+  // a session with no transcript activity for this long is ended, in case
+  // transcriptionEnded never arrives
+  idleTimeoutMs?: number;
+};
+
+export type LiveCoachingEvent =
+  | {
+      type: 'suggestion';
+      sessionId: string;
+      segmentId: string;
+      suggestion: CoachingSuggestion;
+      createdAt: string;
+    }
+  | {
+      type: 'error';
+      sessionId: string;
+      code: 'COACHING_FAILED' | 'CAPACITY_REACHED';
+    }
+  | { type: 'ended'; sessionId: string };
+
+type CoachingSessionState = {
+  key: string;
+  workspaceId: string;
+  sessionId: string;
+  segments: TranscriptSegment[];
+  subscribers: Set<(event: LiveCoachingEvent) => void>;
+  timer: ReturnType<typeof setTimeout> | null;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  inFlight: boolean;
+  pending: boolean;
+  coachedSegmentId: string | null;
+  latest: LiveCoachingEvent | null;
+};
+
+const sessionKey = (workspaceId: string, sessionId: string): string =>
+  `${workspaceId}:${sessionId}`;
+
+// Twilio's inbound track carries the customer's audio on the dialed leg
+const isCustomerTurn = (segment: TranscriptSegment): boolean =>
+  segment.track === 'inbound';
+
+const byStart = (left: TranscriptSegment, right: TranscriptSegment): number =>
+  (left.startMs ?? 0) - (right.startMs ?? 0) || left.sequence - right.sequence;
+
+const buildCoachingPrompt = (
+  segments: TranscriptSegment[],
+  customerTurn: TranscriptSegment,
+  contextChunks: string[],
+): string => {
+  const conversation = segments
+    .map(
+      (segment) =>
+        `${isCustomerTurn(segment) ? 'CUSTOMER' : 'SALES_REP'}: ${segment.text}`,
+    )
+    .join('\n');
+  const contextBlock = contextChunks.length
+    ? `Product Context:\n${contextChunks.join('\n\n')}\n\n`
+    : '';
+  return (
+    'You are providing real-time sales coaching. Be direct and actionable.\n\n' +
+    contextBlock +
+    `Recent Conversation:\n${conversation}\n\n` +
+    `Customer's Last Statement: ${customerTurn.text}\n\n` +
+    'Respond with JSON: {"product_or_option_name": "emotional trigger", "details": ["1-3 bold actionable phrases"], "clarifying_questions": ["2-3 pain funnel questions"]}\n' +
+    'NO summaries. ONLY actionable content.'
+  );
+};
+
+export const createLiveCoachingApplication = (input: {
+  coachingProvider: CoachingProviderService;
+  playbook?: PlaybookContextService & Partial<PlaybookUploadService>;
+  config: LiveCoachingConfig;
+}) => {
+  const sessions = new Map<string, CoachingSessionState>();
+  const ended = new Set<string>();
+  const idleTimeoutMs = input.config.idleTimeoutMs ?? 600_000;
+
+  const rememberEnded = (key: string): void => {
+    ended.add(key);
+    if (ended.size > 1_000) {
+      const oldest = ended.values().next().value;
+      if (oldest) ended.delete(oldest);
+    }
+  };
+
+  const stateFor = (
+    workspaceId: string,
+    sessionId: string,
+  ): CoachingSessionState | null => {
+    const key = sessionKey(workspaceId, sessionId);
+    const existing = sessions.get(key);
+    if (existing) return existing;
+    if (sessions.size >= (input.config.maxSessions ?? 100)) return null;
+    const state: CoachingSessionState = {
+      key,
+      workspaceId,
+      sessionId,
+      segments: [],
+      subscribers: new Set(),
+      timer: null,
+      idleTimer: null,
+      inFlight: false,
+      pending: false,
+      coachedSegmentId: null,
+      latest: null,
+    };
+    sessions.set(key, state);
+    touch(state);
+    return state;
+  };
+
+  const close = (state: CoachingSessionState): void => {
+    if (state.timer) clearTimeout(state.timer);
+    if (state.idleTimer) clearTimeout(state.idleTimer);
+    state.timer = null;
+    state.idleTimer = null;
+    if (sessions.get(state.key) === state) sessions.delete(state.key);
+  };
+
+  // restarts the idle clock; an expired session closes its streams but is not
+  // remembered as ended, so a late segment can still start a new one
+  const touch = (state: CoachingSessionState): void => {
+    if (state.idleTimer) clearTimeout(state.idleTimer);
+    state.idleTimer = setTimeout(() => {
+      if (sessions.get(state.key) !== state) return;
+      close(state);
+      emit(state, { type: 'ended', sessionId: state.sessionId });
+    }, idleTimeoutMs);
+    state.idleTimer.unref?.();
+  };
+
+  const emit = (state: CoachingSessionState, event: LiveCoachingEvent) => {
+    if (event.type === 'suggestion') state.latest = event;
+    for (const subscriber of state.subscribers) {
+      try {
+        subscriber(event);
+      } catch (_error: unknown) {
+        // a broken subscriber must not stop delivery to the others
+      }
+    }
+  };
+
+  const generate = async (state: CoachingSessionState): Promise<void> => {
+    if (state.inFlight) {
+      state.pending = true;
+      return;
+    }
+    const customerTurn = state.segments.filter(isCustomerTurn).at(-1);
+    if (
+      !customerTurn ||
+      customerTurn.id === state.coachedSegmentId ||
+      state.subscribers.size === 0
+    ) {
+      return;
+    }
+    state.inFlight = true;
+    state.coachedSegmentId = customerTurn.id;
+    try {
+      const contextChunks = input.playbook
+        ? await input.playbook
+            // playbooks are uploaded per team, and a dialer workspace is the team
+            .retrieveContext(customerTurn.text, input.config.contextChunks, {
+              teamId: state.workspaceId,
+            })
+            .catch((): string[] => [])
+        : [];
+      const suggestion = await input.coachingProvider.coach(
+        buildCoachingPrompt(state.segments, customerTurn, contextChunks),
+      );
+      if (sessions.get(state.key) !== state) return;
+      emit(state, {
+        type: 'suggestion',
+        sessionId: state.sessionId,
+        segmentId: customerTurn.id,
+        suggestion,
+        createdAt: new Date().toISOString(),
+      });
+    } catch (_error: unknown) {
+      emit(state, {
+        type: 'error',
+        sessionId: state.sessionId,
+        code: 'COACHING_FAILED',
+      });
+    } finally {
+      state.inFlight = false;
+      if (state.pending && sessions.get(state.key) === state) {
+        state.pending = false;
+        void generate(state);
+      }
+    }
+  };
+
+  const segmentAppended = (segment: TranscriptSegment): void => {
+    if (ended.has(sessionKey(segment.workspaceId, segment.sessionId))) return;
+    const state = stateFor(segment.workspaceId, segment.sessionId);
+    if (!state) return;
+    touch(state);
+    state.segments.push(segment);
+    state.segments.sort(byStart);
+    if (state.segments.length > input.config.maxRecentSegments) {
+      state.segments.splice(
+        0,
+        state.segments.length - input.config.maxRecentSegments,
+      );
+    }
+    if (!isCustomerTurn(segment)) return;
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      void generate(state);
+    }, input.config.debounceMs);
+  };
+
+  const transcriptionEnded = (request: {
+    workspaceId: string;
+    sessionId: string;
+  }): void => {
+    const key = sessionKey(request.workspaceId, request.sessionId);
+    rememberEnded(key);
+    const state = sessions.get(key);
+    if (!state) return;
+    close(state);
+    emit(state, { type: 'ended', sessionId: state.sessionId });
+  };
+
+  const listener: TranscriptListener = { segmentAppended, transcriptionEnded };
+
+  return {
+    ...listener,
+    /**
+     * Receive coaching events for one call session. The latest suggestion is
+     * replayed immediately so a reconnecting agent isn't left empty-handed.
+     */
+    subscribe: (
+      request: { workspaceId: string; sessionId: string },
+      subscriber: (event: LiveCoachingEvent) => void,
+    ): (() => void) => {
+      if (ended.has(sessionKey(request.workspaceId, request.sessionId))) {
+        subscriber({ type: 'ended', sessionId: request.sessionId });
+        return () => undefined;
+      }
+      const state = stateFor(request.workspaceId, request.sessionId);
+      if (!state) {
+        subscriber({
+          type: 'error',
+          sessionId: request.sessionId,
+          code: 'CAPACITY_REACHED',
+        });
+        return () => undefined;
+      }
+      state.subscribers.add(subscriber);
+      if (state.latest) subscriber(state.latest);
+      return () => {
+        state.subscribers.delete(subscriber);
+        if (state.subscribers.size === 0 && state.segments.length === 0) {
+          close(state);
+        }
+      };
+    },
+    /**
+     * Index a playbook document for the workspace's coaching context. Returns
+     * null when no playbook store that accepts uploads is configured.
+     */
+    uploadPlaybook: async (request: {
+      workspaceId: string;
+      userId: string;
+      name: string;
+      content: string;
+    }) => {
+      if (!input.playbook?.upload) return null;
+      // live coaching retrieves by team, and a dialer workspace is the team
+      return input.playbook.upload(request.content, 'md', {
+        collectionName: 'playbook',
+        teamId: request.workspaceId,
+        userId: request.userId,
+        name: request.name,
+      });
+    },
+  };
+};
@@ -30,9 +30,17 @@ describe('call-operations persistence', () => {
     expect(sql).toContain('dialer_call_events');
     expect(sql).toContain('transfer_initiated');
     expect(sql).toContain('transfer_consulting');
+    expect(sql).toContain('transfer_toggled');
+    expect(sql).toContain('transfer_merged');
     expect(sql).toContain('transfer_completed');
     expect(sql).toContain('transfer_cancelled');
     expect(sql).toContain('transfer_failed');
+    expect(sql).toContain('supervision_started');
+    expect(sql).toContain('supervision_mode_changed');
+    expect(sql).toContain('supervision_ended');
+    expect(sql).toContain('supervision_failed');
+    expect(sql).toContain('hold_music_url TEXT');
+    expect(sql).toContain('dialer_transfer_directory');
     expect(sql).toContain('UNIQUE (workspace_id, provider_call_id)');
     expect(sql).toContain('UNIQUE (workspace_id, session_id, idempotency_key)');
     expect(sql).not.toMatch(/audio|wav|mp3|mulaw|media_payload|raw_frame/i);
@@ -148,4 +156,62 @@ describe('call-operations persistence', () => {
     expect(calls[0]?.text).not.toContain('recording_url');
     expect(calls[0]?.values).toEqual(['CA-1', 'RE-1', 'completed', 42]);
   });
+
+  it('splits the call event timeline into transfer and supervision events', async () => {
+    const database: CallOperationsDatabase = {
+      query: async <TRow>(text: string) => {
+        if (text.includes('FROM dialer_call_sessions')) {
+          return {
+            rows: [
+              {
+                id: 'session-1',
+                workspace_id: 'workspace-1',
+                source: 'queue',
+                selection_strategy: 'predictive',
+                status: 'connected',
+                started_at: '2026-08-04T12:00:00.000Z',
+              },
+            ] as TRow[],
+            rowCount: 1,
+          };
+        }
+        if (text.includes('FROM dialer_call_events')) {
+          return {
+            rows: [
+              {
+                id: 'supervision-1:supervision_started',
+                event_type: 'supervision_started',
+                metadata: { mode: 'listen' },
+                created_at: '2026-08-04T12:01:00.000Z',
+              },
+              {
+                id: 'transfer-1:transfer_initiated',
+                event_type: 'transfer_initiated',
+                metadata: { type: 'warm' },
+                created_at: '2026-08-04T12:02:00.000Z',
+              },
+            ] as TRow[],
+            rowCount: 2,
+          };
+        }
+        return { rows: [] as TRow[], rowCount: 0 };
+      },
+    };
+    const repository = createPostgresCallOperationsRepository(database);
+    const detail = await Effect.runPromise(
+      repository.getCallDetail({ workspaceId: 'workspace-1', callId: 'session-1' }),
+    );
+
+    expect(detail?.transferEvents?.map((event) => event.type)).toEqual([
+      'transfer_initiated',
+    ]);
+    expect(detail?.supervisionEvents).toEqual([
+      {
+        id: 'supervision-1:supervision_started',
+        type: 'supervision_started',
+        createdAt: '2026-08-04T12:01:00.000Z',
+        metadata: { mode: 'listen' },
+      },
+    ]);
+  });
 });
@@ -35,6 +35,8 @@ const SCHEMA_STATEMENTS = [
     ADD COLUMN IF NOT EXISTS avg_deal_value NUMERIC,
     ADD COLUMN IF NOT EXISTS avg_close_rate NUMERIC,
     ADD COLUMN IF NOT EXISTS cost_per_attempt NUMERIC`,
+  `ALTER TABLE dialer_workspace_settings
+    ADD COLUMN IF NOT EXISTS hold_music_url TEXT`,
   `CREATE TABLE IF NOT EXISTS dialer_call_sessions (
     id TEXT NOT NULL,
     workspace_id TEXT NOT NULL,
@@ -87,6 +89,13 @@ const SCHEMA_STATEMENTS = [
   `ALTER TABLE dialer_call_sessions ADD COLUMN IF NOT EXISTS recording_duration_seconds INTEGER`,
   `ALTER TABLE dialer_call_sessions ADD COLUMN IF NOT EXISTS recording_failure_code TEXT`,
   `ALTER TABLE dialer_call_sessions ADD COLUMN IF NOT EXISTS transcription_enabled BOOLEAN NOT NULL DEFAULT FALSE`,
+  `ALTER TABLE dialer_call_sessions
+    ADD COLUMN IF NOT EXISTS recording_started_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS transcript_started_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS recording_redaction_status TEXT,
+    ADD COLUMN IF NOT EXISTS recording_redaction_failure_code TEXT,
+    ADD COLUMN IF NOT EXISTS recording_discard_after TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS recording_discarded_at TIMESTAMPTZ`,
   `CREATE TABLE IF NOT EXISTS dialer_call_legs (
     id TEXT NOT NULL,
     workspace_id TEXT NOT NULL,
@@ -129,6 +138,8 @@ const SCHEMA_STATEMENTS = [
     FOREIGN KEY (workspace_id, session_id)
       REFERENCES dialer_call_sessions(workspace_id, id) ON DELETE CASCADE
   )`,
+  `ALTER TABLE dialer_transcript_segments
+    ADD COLUMN IF NOT EXISTS redactions TEXT[] NOT NULL DEFAULT '{}'`,
   `CREATE TABLE IF NOT EXISTS dialer_call_events (
     id TEXT NOT NULL,
     workspace_id TEXT NOT NULL,
@@ -137,9 +148,15 @@ const SCHEMA_STATEMENTS = [
       'transfer_initiated',
       'transfer_dialing',
       'transfer_consulting',
+      'transfer_toggled',
+      'transfer_merged',
       'transfer_completed',
       'transfer_cancelled',
-      'transfer_failed'
+      'transfer_failed',
+      'supervision_started',
+      'supervision_mode_changed',
+      'supervision_ended',
+      'supervision_failed'
     )),
     metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -150,8 +167,23 @@ const SCHEMA_STATEMENTS = [
   `ALTER TABLE dialer_call_events DROP CONSTRAINT IF EXISTS dialer_call_events_event_type_check`,
   `ALTER TABLE dialer_call_events ADD CONSTRAINT dialer_call_events_event_type_check CHECK (event_type IN (
     'transfer_initiated', 'transfer_dialing', 'transfer_consulting',
-    'transfer_completed', 'transfer_cancelled', 'transfer_failed'
+    'transfer_toggled', 'transfer_merged', 'transfer_completed',
+    'transfer_cancelled', 'transfer_failed',
+    'supervision_started', 'supervision_mode_changed', 'supervision_ended',
+    'supervision_failed'
   ))`,
+  `CREATE TABLE IF NOT EXISTS dialer_transfer_directory (
+    id TEXT NOT NULL,
+    workspace_id TEXT NOT NULL,
+    label TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('external', 'queue')),
+    target TEXT NOT NULL,
+    queue_id TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (workspace_id, id)
+  )`,
+  `ALTER TABLE dialer_transfer_directory
+    ALTER COLUMN target DROP NOT NULL`,
   `CREATE INDEX IF NOT EXISTS dialer_call_sessions_active_idx
     ON dialer_call_sessions(workspace_id, status, started_at DESC)`,
   `CREATE INDEX IF NOT EXISTS dialer_call_sessions_history_idx
@@ -160,6 +192,9 @@ const SCHEMA_STATEMENTS = [
     ON dialer_call_legs(workspace_id, session_id, position)`,
   `CREATE INDEX IF NOT EXISTS dialer_transcript_segments_session_idx
     ON dialer_transcript_segments(workspace_id, session_id, sequence, created_at)`,
+  `CREATE INDEX IF NOT EXISTS dialer_call_sessions_recording_discard_idx
+    ON dialer_call_sessions(recording_discard_after)
+    WHERE recording_discarded_at IS NULL`,
 ];
 
 export const initializeCallOperationsPersistence = (
@@ -200,6 +235,7 @@ type SessionRow = {
   recording_status?: CallSessionSummary['recordingStatus'];
   recording_sid?: string | null;
   recording_duration_seconds?: number | string | null;
+  recording_redaction_status?: CallSessionSummary['recordingRedactionStatus'];
   transcription_enabled?: boolean;
   transcript_status?: CallSessionSummary['transcriptStatus'];
   transcript_provider?: string | null;
@@ -224,11 +260,32 @@ type LegRow = {
 
 type EventRow = {
   id: string;
-  event_type: NonNullable<CallDetail['transferEvents']>[number]['type'];
+  event_type:
+    | NonNullable<CallDetail['transferEvents']>[number]['type']
+    | NonNullable<CallDetail['supervisionEvents']>[number]['type'];
   metadata?: unknown;
   created_at: string | Date;
 };
 
+type TimelineEvent<TType> = {
+  id: string;
+  type: TType;
+  createdAt: string;
+  metadata: Record<string, unknown>;
+};
+
+const isTransferEvent = (
+  event: TimelineEvent<EventRow['event_type']>,
+): event is TimelineEvent<
+  NonNullable<CallDetail['transferEvents']>[number]['type']
+> => event.type.startsWith('transfer_');
+
+const isSupervisionEvent = (
+  event: TimelineEvent<EventRow['event_type']>,
+): event is TimelineEvent<
+  NonNullable<CallDetail['supervisionEvents']>[number]['type']
+> => event.type.startsWith('supervision_');
+
 type TranscriptionContextRow = {
   workspace_id: string;
   session_id: string;
@@ -311,6 +368,7 @@ const mapSession = (
     recordingStatus: row.recording_status ?? null,
     recordingSid: row.recording_sid ?? null,
     recordingDurationSeconds: numberOrNull(row.recording_duration_seconds),
+    recordingRedactionStatus: row.recording_redaction_status ?? null,
     transcriptStatus: row.transcript_status ?? null,
     transcriptProvider: row.transcript_provider ?? null,
     transcriptModel: row.transcript_model ?? null,
@@ -503,6 +561,10 @@ export const createPostgresCallOperationsRepository = (
            transcript_model = COALESCE($5, transcript_model),
            transcript_language = COALESCE($6, transcript_language),
            transcript_failure_code = $7,
+           transcript_started_at = CASE
+             WHEN $3 = 'processing' THEN COALESCE(transcript_started_at, NOW())
+             ELSE transcript_started_at
+           END,
            transcript_retention_days = COALESCE(
              transcript_retention_days,
              (SELECT transcript_retention_days FROM dialer_workspace_settings WHERE workspace_id = $1),
@@ -527,9 +589,10 @@ export const createPostgresCallOperationsRepository = (
       `INSERT INTO dialer_transcript_segments (
         id, workspace_id, session_id, provider_call_id, sequence,
         idempotency_key, track, speaker, text, start_ms, end_ms,
-        language, confidence, provider, model, created_at
+        language, confidence, provider, model, created_at, redactions
       ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16,
+        $17::text[]
       )
       ON CONFLICT (workspace_id, session_id, idempotency_key) DO NOTHING
       RETURNING TRUE AS inserted`,
@@ -550,6 +613,7 @@ export const createPostgresCallOperationsRepository = (
         segment.provider,
         segment.model,
         segment.createdAt,
+        segment.redactions ?? [],
       ],
     ).pipe(
       Effect.map(({ rows }) => ({ inserted: rows[0]?.inserted === true })),
@@ -810,17 +874,19 @@ export const createPostgresCallOperationsRepository = (
           [workspaceId, callId],
         ),
       ]);
+      const timeline = events.rows.map((event) => ({
+        id: event.id,
+        type: event.event_type,
+        createdAt: new Date(event.created_at).toISOString(),
+        metadata:
+          event.metadata && typeof event.metadata === 'object'
+            ? (event.metadata as Record<string, unknown>)
+            : {},
+      }));
       return {
         ...mapSession(row, legs.get(callId) ?? []),
-        transferEvents: events.rows.map((event) => ({
-          id: event.id,
-          type: event.event_type,
-          createdAt: new Date(event.created_at).toISOString(),
-          metadata:
-            event.metadata && typeof event.metadata === 'object'
-              ? (event.metadata as Record<string, unknown>)
-              : {},
-        })),
+        transferEvents: timeline.filter(isTransferEvent),
+        supervisionEvents: timeline.filter(isSupervisionEvent),
       } satisfies CallDetail;
     }),
   getCallTranscript: ({ workspaceId, callId }) =>
@@ -841,6 +907,7 @@ export const createPostgresCallOperationsRepository = (
       provider: 'groq';
       model: string;
       created_at: string | Date;
+      redactions?: TranscriptSegment['redactions'] | null;
     }>(
       database,
       'get-call-transcript',
@@ -867,6 +934,9 @@ export const createPostgresCallOperationsRepository = (
           provider: row.provider,
           model: row.model,
           createdAt: new Date(row.created_at).toISOString(),
+          ...(row.redactions && row.redactions.length > 0
+            ? { redactions: row.redactions }
+            : {}),
         })),
       ),
     ),
@@ -942,6 +1012,7 @@ export const createPostgresCallOperationsRepository = (
        SET recording_sid = $3,
            recording_status = $4,
            recording_failure_code = NULL,
+           recording_started_at = COALESCE(recording_started_at, NOW()),
            updated_at = NOW()
        WHERE workspace_id = $1 AND id = $2`,
       [
@@ -971,6 +1042,10 @@ export const createPostgresCallOperationsRepository = (
            recording_status = $3,
            recording_duration_seconds = COALESCE($4, recording_duration_seconds),
            recording_failure_code = CASE WHEN $3 IN ('failed', 'absent') THEN UPPER($3) ELSE NULL END,
+           recording_redaction_status = CASE
+             WHEN $3 = 'completed' THEN COALESCE(sessions.recording_redaction_status, 'pending')
+             ELSE sessions.recording_redaction_status
+           END,
            updated_at = NOW()
        FROM dialer_call_legs AS legs
        WHERE legs.workspace_id = sessions.workspace_id
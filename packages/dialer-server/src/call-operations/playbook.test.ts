@@ -0,0 +1,173 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { PlaybookService } from '@consuelo/coaching';
+
+import type { CallOperationsDatabase } from './persistence';
+import {
+  createOpenAIEmbedFn,
+  createPostgresPlaybookStore,
+  createPostgresPlaybookVectorStore,
+  initializePlaybookPersistence,
+} from './playbook';
+
+const createDatabase = (rows: unknown[] = []) => {
+  const queries: { text: string; values?: readonly unknown[] }[] = [];
+  const database: CallOperationsDatabase = {
+    query: async <TRow>(text: string, values?: readonly unknown[]) => {
+      queries.push({ text, values });
+      return { rows: rows as TRow[], rowCount: rows.length };
+    },
+  };
+  return { database, queries };
+};
+
+describe('playbook persistence', () => {
+  it('creates the pgvector chunk table', async () => {
+    const { database, queries } = createDatabase();
+    await initializePlaybookPersistence(database);
+    const sql = queries.map((query) => query.text).join('\n');
+
+    expect(sql).toContain('CREATE EXTENSION IF NOT EXISTS vector');
+    expect(sql).toContain('dialer_playbook_chunks');
+    expect(sql).toContain("(metadata ->> 'team_id')");
+    expect(sql).toContain('ADD COLUMN IF NOT EXISTS embedding_model');
+    expect(sql).toContain('dialer_playbook_documents');
+  });
+
+  it('persists document records with their chunk ids', async () => {
+    const { database, queries } = createDatabase([
+      {
+        id: 'doc-1',
+        name: 'Pricing',
+        collection_name: 'sales',
+        team_id: 'workspace-1',
+        user_id: null,
+        file_tag: null,
+        version: 2,
+        chunk_ids: ['doc-1_v2_chunk_0'],
+        created_at: new Date('2026-08-04T12:00:00.000Z'),
+        updated_at: new Date('2026-08-05T12:00:00.000Z'),
+      },
+    ]);
+    const store = createPostgresPlaybookStore(database);
+
+    await store.save({
+      id: 'doc-1',
+      name: 'Pricing',
+      collectionName: 'sales',
+      teamId: 'workspace-1',
+      version: 2,
+      chunkIds: ['doc-1_v2_chunk_0'],
+      createdAt: '2026-08-04T12:00:00.000Z',
+      updatedAt: '2026-08-05T12:00:00.000Z',
+    });
+    const documents = await store.list({ teamId: 'workspace-1' });
+
+    expect(queries[0]?.text).toContain('ON CONFLICT (id) DO UPDATE');
+    expect(queries[0]?.values?.slice(6, 8)).toEqual([2, '["doc-1_v2_chunk_0"]']);
+    expect(queries[1]?.values).toEqual(['workspace-1', null]);
+    expect(documents).toEqual([
+      {
+        id: 'doc-1',
+        name: 'Pricing',
+        collectionName: 'sales',
+        teamId: 'workspace-1',
+        version: 2,
+        chunkIds: ['doc-1_v2_chunk_0'],
+        createdAt: '2026-08-04T12:00:00.000Z',
+        updatedAt: '2026-08-05T12:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('retrieves team-scoped chunks through PlaybookService', async () => {
+    const { database, queries } = createDatabase([
+      { content: 'Plan A covers storm damage' },
+    ]);
+    const playbook = new PlaybookService(
+      createPostgresPlaybookVectorStore(database, {
+        embeddingModel: 'text-embedding-3-small',
+      }),
+      async () => [0.5, 0.25],
+    );
+
+    const chunks = await playbook.retrieveContext('too pricey', 3, {
+      teamId: 'workspace-1',
+    });
+
+    expect(chunks).toEqual(['Plan A covers storm damage']);
+    expect(queries[0]?.text).toContain('ORDER BY embedding <=> $1::vector');
+    // chunks of another model or size are filtered out before comparing
+    expect(queries[0]?.text).toContain('AND embedding_model = $4');
+    expect(queries[0]?.text).toContain('AND vector_dims(embedding) = $5');
+    expect(queries[0]?.values).toEqual([
+      '[0.5,0.25]',
+      '{"team_id":"workspace-1"}',
+      3,
+      'text-embedding-3-small',
+      2,
+    ]);
+  });
+
+  it('upserts uploaded chunks and deletes replaced ones by id', async () => {
+    const { database, queries } = createDatabase();
+    const store = createPostgresPlaybookVectorStore(database, {
+      embeddingModel: 'text-embedding-3-small',
+    });
+
+    await store.add(['Pricing'], [[1, 0]], ['doc_v1_chunk_0'], [
+      { team_id: 'workspace-1' },
+    ]);
+    await store.delete?.(['doc_v0_chunk_0']);
+
+    expect(queries[0]?.text).toContain('ON CONFLICT (id) DO UPDATE');
+    expect(queries[0]?.values).toEqual([
+      'doc_v1_chunk_0',
+      'Pricing',
+      '[1,0]',
+      '{"team_id":"workspace-1"}',
+      'text-embedding-3-small',
+    ]);
+    expect(queries[1]?.values).toEqual([['doc_v0_chunk_0']]);
+  });
+});
+
+describe('OpenAI-compatible embeddings', () => {
+  it('posts the model and returns the first vector', async () => {
+    const transport = mock(
+      async (_input: string | URL | Request, init?: RequestInit) => {
+        expect(JSON.parse(String(init?.body))).toEqual({
+          model: 'text-embedding-3-small',
+          input: 'too pricey',
+        });
+        return new Response(JSON.stringify({ data: [{ embedding: [0.1, 0.2] }] }));
+      },
+    );
+    const embed = createOpenAIEmbedFn({
+      apiKey: 'test-key',
+      model: 'text-embedding-3-small',
+      baseUrl: 'https://embeddings.test/v1/',
+      fetch: transport,
+    });
+
+    expect(await embed('too pricey')).toEqual([0.1, 0.2]);
+    expect(transport.mock.calls[0]?.[0]).toBe(
+      'https://embeddings.test/v1/embeddings',
+    );
+  });
+
+  it('rejects failed or malformed responses', async () => {
+    const failing = createOpenAIEmbedFn({
+      apiKey: 'test-key',
+      model: 'm',
+      fetch: async () => new Response('nope', { status: 429 }),
+    });
+    const malformed = createOpenAIEmbedFn({
+      apiKey: 'test-key',
+      model: 'm',
+      fetch: async () => new Response(JSON.stringify({ data: [] })),
+    });
+
+    await expect(failing('x')).rejects.toThrow('status 429');
+    await expect(malformed('x')).rejects.toThrow('did not include a vector');
+  });
+});
@@ -0,0 +1,234 @@
+import type {
+  EmbedFn,
+  PlaybookDocument,
+  PlaybookStore,
+  VectorStore,
+} from '@consuelo/coaching';
+
+import type { CallOperationsDatabase } from './persistence';
+
+// the column is unsized so the embedding model can change without a
+// migration; queries only compare chunks of the same model and dimensions,
+// since pgvector refuses to compare vectors of different sizes
+const SCHEMA_STATEMENTS = [
+  `CREATE EXTENSION IF NOT EXISTS vector`,
+  `CREATE TABLE IF NOT EXISTS dialer_playbook_chunks (
+    id TEXT PRIMARY KEY,
+    content TEXT NOT NULL,
+    embedding vector NOT NULL,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `ALTER TABLE dialer_playbook_chunks
+    ADD COLUMN IF NOT EXISTS embedding_model TEXT NOT NULL DEFAULT ''`,
+  `CREATE INDEX IF NOT EXISTS dialer_playbook_chunks_team_idx
+    ON dialer_playbook_chunks ((metadata ->> 'team_id'))`,
+  `CREATE TABLE IF NOT EXISTS dialer_playbook_documents (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    collection_name TEXT NOT NULL,
+    team_id TEXT,
+    user_id TEXT,
+    file_tag TEXT,
+    version INTEGER NOT NULL,
+    chunk_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS dialer_playbook_documents_team_idx
+    ON dialer_playbook_documents (team_id, collection_name)`,
+];
+
+export const initializePlaybookPersistence = async (
+  database: CallOperationsDatabase,
+): Promise<void> => {
+  try {
+    for (const statement of SCHEMA_STATEMENTS) {
+      await database.query(statement);
+    }
+  } catch (cause: unknown) {
+    throw new Error('Failed to initialize playbook schema', { cause });
+  }
+};
+
+const toVector = (embedding: number[]): string => `[${embedding.join(',')}]`;
+
+// pgvector-backed store behind PlaybookService; `where` matches chunk metadata
+// exactly, and chunks embedded by another model are never compared
+export const createPostgresPlaybookVectorStore = (
+  database: CallOperationsDatabase,
+  options: { embeddingModel: string },
+): VectorStore => ({
+  add: async (documents, embeddings, ids, metadata) => {
+    for (const [index, id] of ids.entries()) {
+      await database.query(
+        `INSERT INTO dialer_playbook_chunks (id, content, embedding, metadata, embedding_model)
+         VALUES ($1, $2, $3::vector, $4::jsonb, $5)
+         ON CONFLICT (id) DO UPDATE SET
+           content = EXCLUDED.content,
+           embedding = EXCLUDED.embedding,
+           metadata = EXCLUDED.metadata,
+           embedding_model = EXCLUDED.embedding_model`,
+        [
+          id,
+          documents[index] ?? '',
+          toVector(embeddings[index] ?? []),
+          JSON.stringify(metadata?.[index] ?? {}),
+          options.embeddingModel,
+        ],
+      );
+    }
+  },
+  query: async (embedding, topK, where) => {
+    // the model and dimension filters keep chunks of another size away from
+    // the <=> operator
+    const { rows } = await database.query<{ content: string }>(
+      `SELECT content FROM dialer_playbook_chunks
+       WHERE metadata @> $2::jsonb
+         AND embedding_model = $4
+         AND vector_dims(embedding) = $5
+       ORDER BY embedding <=> $1::vector
+       LIMIT $3`,
+      [
+        toVector(embedding),
+        JSON.stringify(where ?? {}),
+        topK,
+        options.embeddingModel,
+        embedding.length,
+      ],
+    );
+    return rows.map((row) => row.content);
+  },
+  delete: async (ids) => {
+    if (ids.length === 0) return;
+    await database.query(
+      `DELETE FROM dialer_playbook_chunks WHERE id = ANY($1::text[])`,
+      [ids],
+    );
+  },
+});
+
+type PlaybookDocumentRow = {
+  id: string;
+  name: string;
+  collection_name: string;
+  team_id: string | null;
+  user_id: string | null;
+  file_tag: string | null;
+  version: number;
+  chunk_ids: string[] | string;
+  created_at: Date | string;
+  updated_at: Date | string;
+};
+
+const toIso = (value: Date | string): string =>
+  value instanceof Date ? value.toISOString() : value;
+
+const toDocument = (row: PlaybookDocumentRow): PlaybookDocument => ({
+  id: row.id,
+  name: row.name,
+  collectionName: row.collection_name,
+  ...(row.team_id ? { teamId: row.team_id } : {}),
+  ...(row.user_id ? { userId: row.user_id } : {}),
+  ...(row.file_tag ? { fileTag: row.file_tag } : {}),
+  version: row.version,
+  chunkIds:
+    typeof row.chunk_ids === 'string'
+      ? (JSON.parse(row.chunk_ids) as string[])
+      : row.chunk_ids,
+  createdAt: toIso(row.created_at),
+  updatedAt: toIso(row.updated_at),
+});
+
+// document records behind PlaybookService, so versions and chunk ids survive restarts
+export const createPostgresPlaybookStore = (
+  database: CallOperationsDatabase,
+): PlaybookStore => ({
+  get: async (id) => {
+    const { rows } = await database.query<PlaybookDocumentRow>(
+      `SELECT * FROM dialer_playbook_documents WHERE id = $1`,
+      [id],
+    );
+    return rows[0] ? toDocument(rows[0]) : null;
+  },
+  list: async (filter = {}) => {
+    const { rows } = await database.query<PlaybookDocumentRow>(
+      `SELECT * FROM dialer_playbook_documents
+       WHERE ($1::text IS NULL OR team_id = $1)
+         AND ($2::text IS NULL OR collection_name = $2)
+       ORDER BY created_at, id`,
+      [filter.teamId ?? null, filter.collectionName ?? null],
+    );
+    return rows.map(toDocument);
+  },
+  save: async (document) => {
+    await database.query(
+      `INSERT INTO dialer_playbook_documents (
+         id, name, collection_name, team_id, user_id, file_tag,
+         version, chunk_ids, created_at, updated_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9, $10)
+       ON CONFLICT (id) DO UPDATE SET
+         name = EXCLUDED.name,
+         team_id = EXCLUDED.team_id,
+         user_id = EXCLUDED.user_id,
+         file_tag = EXCLUDED.file_tag,
+         version = EXCLUDED.version,
+         chunk_ids = EXCLUDED.chunk_ids,
+         updated_at = EXCLUDED.updated_at`,
+      [
+        document.id,
+        document.name,
+        document.collectionName,
+        document.teamId ?? null,
+        document.userId ?? null,
+        document.fileTag ?? null,
+        document.version,
+        JSON.stringify(document.chunkIds),
+        document.createdAt,
+        document.updatedAt,
+      ],
+    );
+  },
+  delete: async (id) => {
+    await database.query(`DELETE FROM dialer_playbook_documents WHERE id = $1`, [
+      id,
+    ]);
+  },
+});
+
+type EmbeddingResponse = { data?: Array<{ embedding?: unknown }> };
+
+// any OpenAI-compatible /embeddings endpoint
+export const createOpenAIEmbedFn = (input: {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+  fetch?: (
+    request: string | URL | Request,
+    init?: RequestInit,
+  ) => Promise<Response>;
+}): EmbedFn => async (text) => {
+  const response = await (input.fetch ?? fetch)(
+    `${(input.baseUrl ?? 'https://api.openai.com/v1').replace(/\/$/, '')}/embeddings`,
+    {
+      method: 'POST',
+      headers: {
+        authorization: `Bearer ${input.apiKey}`,
+        'content-type': 'application/json',
+      },
+      body: JSON.stringify({ model: input.model, input: text }),
+    },
+  );
+  if (!response.ok) {
+    throw new Error(`Embedding request failed with status ${response.status}`);
+  }
+  const embedding = ((await response.json()) as EmbeddingResponse).data?.[0]
+    ?.embedding;
+  if (
+    !Array.isArray(embedding) ||
+    !embedding.every((value) => typeof value === 'number')
+  ) {
+    throw new Error('Embedding response did not include a vector');
+  }
+  return embedding as number[];
+};
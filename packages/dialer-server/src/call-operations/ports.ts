@@ -136,6 +136,48 @@ export type SpeechToTextProviderService = {
   ) => Effect.Effect<SpeechToTextResult, Error>;
 };
 
+export type TranscriptListener = {
+  segmentAppended: (segment: TranscriptSegment) => void;
+  transcriptionEnded: (input: { workspaceId: string; sessionId: string }) => void;
+};
+
+export type CoachingSuggestion = {
+  product_or_option_name: string;
+  details: string[];
+  clarifying_questions?: string[] | null;
+};
+
+// Structurally matches `CoachingProvider` from @consuelo/coaching
+export type CoachingProviderService = {
+  coach: (prompt: string) => Promise<CoachingSuggestion>;
+};
+
+// Structurally matches `PlaybookService.retrieveContext` from @consuelo/coaching
+export type PlaybookContextService = {
+  retrieveContext: (
+    query: string,
+    topK?: number,
+    scope?: { userId?: string; teamId?: string },
+  ) => Promise<string[]>;
+};
+
+// Structurally matches `PlaybookService.upload` from @consuelo/coaching
+export type PlaybookUploadService = {
+  upload: (
+    content: string,
+    ext: string,
+    options: {
+      collectionName: string;
+      teamId?: string;
+      userId?: string;
+      name?: string;
+    },
+  ) => Promise<{
+    chunksIndexed: number;
+    document: { id: string; name: string; version: number };
+  }>;
+};
+
 export const CallOperationsRepository =
   Context.GenericTag<CallOperationsRepositoryService>(
     '@consuelo/dialer-server/CallOperationsRepository',
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'bun:test';
+
+import { redactTranscriptText, silenceWavSpans } from './redaction';
+
+const pcmWav = (frames: number, channels = 2): Uint8Array => {
+  const header = Buffer.alloc(44);
+  const blockAlign = channels * 2;
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + frames * blockAlign, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(8_000, 24);
+  header.writeUInt32LE(8_000 * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(frames * blockAlign, 40);
+  return new Uint8Array([
+    ...header,
+    ...new Uint8Array(frames * blockAlign).fill(0x11),
+  ]);
+};
+
+describe('transcript redaction', () => {
+  it('masks written and spoken card numbers that pass the Luhn check', () => {
+    expect(redactTranscriptText('It is 4111-1111-1111-1111, thanks')).toEqual({
+      text: 'It is [redacted card number], thanks',
+      redactions: ['card'],
+    });
+    expect(
+      redactTranscriptText(
+        'four one one one one one one one one one one one one one one one',
+      ).text,
+    ).toBe('[redacted card number]');
+  });
+
+  it('masks SSNs and bank details', () => {
+    expect(redactTranscriptText('My social is 123 45 6789').text).toBe(
+      'My social is [redacted SSN]',
+    );
+    expect(
+      redactTranscriptText('Routing 021000021 and account 12345678'),
+    ).toEqual({
+      text: 'Routing [redacted bank details] and account [redacted bank details]',
+      redactions: ['bank'],
+    });
+  });
+
+  it('masks partial digit groups when card details are being read', () => {
+    expect(
+      redactTranscriptText('The card ends in 1111 and the CVV is 123').text,
+    ).toBe(
+      'The card ends in [redacted card number] and the CVV is [redacted card number]',
+    );
+  });
+
+  it('leaves ordinary numbers alone', () => {
+    expect(
+      redactTranscriptText('Call me back at 5 or on 555 867 5309'),
+    ).toEqual({
+      text: 'Call me back at 5 or on 555 867 5309',
+      redactions: [],
+    });
+  });
+});
+
+describe('recording silencing', () => {
+  it('silences every channel of the span and nothing else', () => {
+    const wav = pcmWav(8_000);
+    const silenced = silenceWavSpans(wav, [{ startMs: 250, endMs: 500 }]);
+    const data = silenced.subarray(44);
+
+    expect(data.subarray(0, 2_000 * 4).every((byte) => byte === 0x11)).toBe(
+      true,
+    );
+    expect(
+      data.subarray(2_000 * 4, 4_000 * 4).every((byte) => byte === 0),
+    ).toBe(true);
+    expect(data.subarray(4_000 * 4).every((byte) => byte === 0x11)).toBe(true);
+    expect(wav.subarray(44).every((byte) => byte === 0x11)).toBe(true);
+  });
+
+  it('clamps spans to the audio and rejects anything but WAV', () => {
+    const silenced = silenceWavSpans(pcmWav(800, 1), [
+      { startMs: -500, endMs: 5_000 },
+    ]);
+    expect(silenced.subarray(44).every((byte) => byte === 0)).toBe(true);
+    expect(() =>
+      silenceWavSpans(new Uint8Array([1, 2, 3]), [{ startMs: 0, endMs: 1 }]),
+    ).toThrow('Recording is not a WAV file');
+  });
+});
@@ -0,0 +1,197 @@
+import type { RedactionKind } from './contracts';
+
+type DigitRun = {
+  start: number;
+  end: number;
+  digits: string;
+};
+
+export type AudioSpan = {
+  startMs: number;
+  endMs: number;
+};
+
+const DIGIT_WORDS: Record<string, string> = {
+  zero: '0',
+  oh: '0',
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+};
+
+const TOKEN = /\d+|[a-z]+/gi;
+const RUN_SEPARATOR = /^[\s.,-]*$/;
+const SSN_FORMAT = /^\d{3}[\s-]\d{2}[\s-]\d{4}$/;
+
+const CARD_CONTEXT =
+  /\b(card|credit|debit|visa|master ?card|amex|american express|discover|cvv|cvc|security code|expir\w*)\b/i;
+const SSN_CONTEXT = /\b(social|ssn|social security)\b/i;
+const BANK_CONTEXT = /\b(routing|account|bank|checking|savings|iban|aba)\b/i;
+
+const MASKS: Record<RedactionKind, string> = {
+  card: '[redacted card number]',
+  ssn: '[redacted SSN]',
+  bank: '[redacted bank details]',
+};
+
+// digits may be written or spoken ("four one one one"), so runs join both
+const digitRuns = (text: string): DigitRun[] => {
+  const runs: DigitRun[] = [];
+  let current: DigitRun | null = null;
+  for (const match of text.matchAll(TOKEN)) {
+    const token = match[0];
+    const start = match.index ?? 0;
+    const digits = /^\d+$/.test(token)
+      ? token
+      : DIGIT_WORDS[token.toLowerCase()];
+    const joins =
+      current !== null &&
+      RUN_SEPARATOR.test(text.slice(current.end, start));
+    if (digits === undefined) {
+      if (current) runs.push(current);
+      current = null;
+      continue;
+    }
+    if (current && joins) {
+      current.end = start + token.length;
+      current.digits += digits;
+    } else {
+      if (current) runs.push(current);
+      current = { start, end: start + token.length, digits };
+    }
+  }
+  if (current) runs.push(current);
+  return runs;
+};
+
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const classify = (run: DigitRun, text: string): RedactionKind | null => {
+  const { digits } = run;
+  const raw = text.slice(run.start, run.end);
+  if (digits.length >= 13 && digits.length <= 19 && passesLuhn(digits)) {
+    return 'card';
+  }
+  if (
+    digits.length === 9 &&
+    (SSN_FORMAT.test(raw) || SSN_CONTEXT.test(text))
+  ) {
+    return 'ssn';
+  }
+  // routing numbers are nine digits and US account numbers up to seventeen
+  if (BANK_CONTEXT.test(text) && digits.length >= 6 && digits.length <= 17) {
+    return 'bank';
+  }
+  // a card read across two transcript chunks arrives as partial groups
+  if (CARD_CONTEXT.test(text) && digits.length >= 3) return 'card';
+  return null;
+};
+
+/**
+ * Masks card numbers, SSNs and bank details in a transcript segment. Written
+ * and spoken digits are both detected; the kinds found are returned so the
+ * segment's audio can be silenced in the recording.
+ */
+export const redactTranscriptText = (
+  text: string,
+): { text: string; redactions: RedactionKind[] } => {
+  const found = digitRuns(text)
+    .map((run) => ({ run, kind: classify(run, text) }))
+    .filter(
+      (entry): entry is { run: DigitRun; kind: RedactionKind } =>
+        entry.kind !== null,
+    );
+  if (found.length === 0) return { text, redactions: [] };
+  let redacted = text;
+  for (const { run, kind } of [...found].reverse()) {
+    redacted =
+      redacted.slice(0, run.start) + MASKS[kind] + redacted.slice(run.end);
+  }
+  return {
+    text: redacted,
+    redactions: [...new Set(found.map(({ kind }) => kind))],
+  };
+};
+
+const findChunk = (view: DataView, id: string, from: number) => {
+  let offset = from;
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = String.fromCharCode(
+      view.getUint8(offset),
+      view.getUint8(offset + 1),
+      view.getUint8(offset + 2),
+      view.getUint8(offset + 3),
+    );
+    const size = view.getUint32(offset + 4, true);
+    if (chunkId === id) return { offset: offset + 8, size };
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+};
+
+/**
+ * Returns a copy of a PCM or mu-law WAV with the given spans silenced across
+ * every channel. Spans are clamped to the audio; malformed input throws.
+ */
+export const silenceWavSpans = (
+  wav: Uint8Array,
+  spans: readonly AudioSpan[],
+): Uint8Array => {
+  const output = wav.slice();
+  const view = new DataView(
+    output.buffer,
+    output.byteOffset,
+    output.byteLength,
+  );
+  if (
+    output.byteLength < 12 ||
+    String.fromCharCode(...output.subarray(0, 4)) !== 'RIFF' ||
+    String.fromCharCode(...output.subarray(8, 12)) !== 'WAVE'
+  ) {
+    throw new Error('Recording is not a WAV file');
+  }
+  const format = findChunk(view, 'fmt ', 12);
+  const data = findChunk(view, 'data', 12);
+  if (!format || !data || format.size < 16) {
+    throw new Error('Recording WAV is missing its format or data');
+  }
+  const audioFormat = view.getUint16(format.offset, true);
+  const sampleRate = view.getUint32(format.offset + 4, true);
+  const blockAlign = view.getUint16(format.offset + 12, true);
+  const bitsPerSample = view.getUint16(format.offset + 14, true);
+  if ((audioFormat !== 1 && audioFormat !== 7) || !sampleRate || !blockAlign) {
+    throw new Error('Recording WAV encoding is not supported');
+  }
+  const silence =
+    audioFormat === 7 ? 0xff : bitsPerSample === 8 ? 0x80 : 0x00;
+  const dataEnd = Math.min(data.offset + data.size, output.byteLength);
+  const frames = Math.floor((dataEnd - data.offset) / blockAlign);
+  for (const span of spans) {
+    const first = Math.max(0, Math.floor((span.startMs * sampleRate) / 1_000));
+    const last = Math.min(frames, Math.ceil((span.endMs * sampleRate) / 1_000));
+    if (last <= first) continue;
+    output.fill(
+      silence,
+      data.offset + first * blockAlign,
+      data.offset + last * blockAlign,
+    );
+  }
+  return output;
+};
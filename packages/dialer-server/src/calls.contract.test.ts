@@ -1,9 +1,11 @@
-import { describe, expect, it, mock } from 'bun:test';
+import { describe, expect, it, mock, spyOn } from 'bun:test';
 import { Effect } from 'effect';
 
+import { PlaybookService, type VectorStore } from '@consuelo/coaching';
 import { DialerNotFoundError } from '@consuelo/dialer';
 
 import { createDialerServer } from './app';
+import { createLiveCoachingApplication } from './call-operations/live-coaching';
 import type { DialerServerDependencies } from './contracts';
 
 const createDependencies = () => {
@@ -152,3 +154,206 @@ describe('workspace-scoped call operations routes', () => {
     });
   });
 });
+
+describe('live coaching stream route', () => {
+  it('is unavailable when live coaching is not configured', async () => {
+    const response = await createDialerServer(createDependencies()).fetch(
+      request('/v1/call-sessions/session-1/coaching/stream'),
+    );
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({
+      error: { code: 'SERVICE_UNAVAILABLE' },
+    });
+  });
+
+  it('streams workspace-scoped suggestions until the transcription ends', async () => {
+    const liveCoaching = createLiveCoachingApplication({
+      coachingProvider: {
+        coach: async () => ({
+          product_or_option_name: 'Peace of mind',
+          details: ['Anchor on the renewal date'],
+        }),
+      },
+      config: { debounceMs: 0, maxRecentSegments: 10, contextChunks: 3 },
+    });
+    const app = createDialerServer({ ...createDependencies(), liveCoaching });
+    const response = await app.fetch(
+      request('/v1/call-sessions/session-1/coaching/stream'),
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain(
+      'text/event-stream',
+    );
+
+    liveCoaching.segmentAppended({
+      id: 'segment-1',
+      workspaceId: 'workspace-1',
+      sessionId: 'session-1',
+      providerCallId: 'CA-1',
+      sequence: 1,
+      idempotencyKey: 'key-1',
+      track: 'inbound',
+      speaker: 'inbound',
+      text: 'That sounds expensive',
+      startMs: 0,
+      endMs: 500,
+      language: 'en',
+      confidence: 0.9,
+      provider: 'groq',
+      model: 'whisper-large-v3-turbo',
+      createdAt: '2026-08-04T12:00:00.000Z',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    liveCoaching.transcriptionEnded({
+      workspaceId: 'workspace-1',
+      sessionId: 'session-1',
+    });
+
+    const body = await response.text();
+    expect(body).toContain('event: suggestion');
+    expect(body).toContain('"segmentId":"segment-1"');
+    expect(body).toContain('event: ended');
+  });
+
+  it('returns not found for a session outside the caller workspace', async () => {
+    const liveCoaching = createLiveCoachingApplication({
+      coachingProvider: { coach: mock(async () => ({ product_or_option_name: '', details: [] })) },
+      config: { debounceMs: 0, maxRecentSegments: 10, contextChunks: 3 },
+    });
+    const subscribe = spyOn(liveCoaching, 'subscribe');
+    const dependencies = createDependencies();
+    const response = await createDialerServer({
+      ...dependencies,
+      liveCoaching,
+    }).fetch(request('/v1/call-sessions/other-workspace/coaching/stream'));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({
+      error: { code: 'NOT_FOUND' },
+    });
+    expect(dependencies.application.getCallDetail).toHaveBeenCalledWith({
+      workspaceId: 'workspace-1',
+      callId: 'other-workspace',
+    });
+    expect(subscribe).not.toHaveBeenCalled();
+  });
+});
+
+describe('playbook upload route', () => {
+  const upload = (body: unknown) =>
+    new Request('https://dialer.test/v1/playbooks', {
+      method: 'POST',
+      headers: {
+        authorization: 'Bearer test-token',
+        'content-type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+  const createAdminDependencies = (role = 'admin') => ({
+    ...createDependencies(),
+    authenticate: mock(async () => ({
+      workspaceId: 'workspace-1',
+      userId: 'user-1',
+      role,
+    })),
+  });
+
+  it('indexes an uploaded playbook that later coaching turns retrieve', async () => {
+    const chunks: { content: string; metadata: Record<string, string> }[] = [];
+    const vectorStore: VectorStore = {
+      add: async (documents, _embeddings, _ids, metadata) => {
+        documents.forEach((content, index) =>
+          chunks.push({ content, metadata: metadata?.[index] ?? {} }),
+        );
+      },
+      query: async (_embedding, topK, where = {}) =>
+        chunks
+          .filter((chunk) =>
+            Object.entries(where).every(
+              ([key, value]) => chunk.metadata[key] === value,
+            ),
+          )
+          .slice(0, topK)
+          .map((chunk) => chunk.content),
+    };
+    const coach = mock(async (_prompt: string) => ({
+      product_or_option_name: 'Peace of mind',
+      details: ['Anchor on storm coverage'],
+    }));
+    const liveCoaching = createLiveCoachingApplication({
+      coachingProvider: { coach },
+      playbook: new PlaybookService(vectorStore, async () => [1, 0]),
+      config: { debounceMs: 0, maxRecentSegments: 10, contextChunks: 3 },
+    });
+    const app = createDialerServer({
+      ...createAdminDependencies(),
+      liveCoaching,
+    });
+
+    const response = await app.fetch(
+      upload({ name: 'Objections', content: 'Plan A covers storm damage' }),
+    );
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({
+      document: { name: 'Objections', version: 1 },
+      chunksIndexed: 1,
+    });
+    expect(chunks[0]?.metadata).toMatchObject({
+      team_id: 'workspace-1',
+      user_id: 'user-1',
+    });
+
+    liveCoaching.subscribe(
+      { workspaceId: 'workspace-1', sessionId: 'session-1' },
+      () => undefined,
+    );
+    liveCoaching.segmentAppended({
+      id: 'segment-1',
+      workspaceId: 'workspace-1',
+      sessionId: 'session-1',
+      providerCallId: 'CA-1',
+      sequence: 1,
+      idempotencyKey: 'key-1',
+      track: 'inbound',
+      speaker: 'inbound',
+      text: 'What if a storm hits?',
+      startMs: 0,
+      endMs: 500,
+      language: 'en',
+      confidence: 0.9,
+      provider: 'groq',
+      model: 'whisper-large-v3-turbo',
+      createdAt: '2026-08-04T12:00:00.000Z',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(coach.mock.calls[0]?.[0]).toContain('Plan A covers storm damage');
+  });
+
+  it('requires an admin, a named document and a configured playbook', async () => {
+    const liveCoaching = createLiveCoachingApplication({
+      coachingProvider: { coach: mock(async () => ({ product_or_option_name: '', details: [] })) },
+      config: { debounceMs: 0, maxRecentSegments: 10, contextChunks: 3 },
+    });
+    const document = { name: 'Objections', content: 'Plan A covers storm damage' };
+
+    const forbidden = await createDialerServer({
+      ...createAdminDependencies('agent'),
+      liveCoaching,
+    }).fetch(upload(document));
+    const invalid = await createDialerServer({
+      ...createAdminDependencies(),
+      liveCoaching,
+    }).fetch(upload({ content: 'Plan A' }));
+    const unavailable = await createDialerServer({
+      ...createAdminDependencies(),
+      liveCoaching,
+    }).fetch(upload(document));
+
+    expect(forbidden.status).toBe(403);
+    expect(invalid.status).toBe(400);
+    expect(unavailable.status).toBe(503);
+  });
+});
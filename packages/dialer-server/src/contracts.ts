@@ -23,6 +23,8 @@ import type {
 import type { Effect } from 'effect';
 
 import type { createCallOperationsApplication } from './call-operations/application';
+import type { createLiveCoachingApplication } from './call-operations/live-coaching';
+import type { TranscriptListener } from './call-operations/ports';
 import type { CommercialRouteDependencies } from './routes/commercial';
 
 export type DialerIdentity = {
@@ -61,26 +63,46 @@ export type DialerServerStartCallCommand = Omit<
 export type DialerTransferStatus =
   | 'initiating'
   | 'consulting'
+  | 'merged'
   | 'completed'
   | 'cancelled'
   | 'failed';
 
+/** Who the representative hears during a warm consultation */
+export type DialerTransferParty = 'customer' | 'consultee';
+
 export type DialerTransferResult = {
   success: boolean;
   transferId: string;
   transferCallSid?: string;
   conferenceSid?: string;
   status: DialerTransferStatus;
+  talkingTo?: DialerTransferParty;
   error?: string;
 };
 
+// external entries dial `to`; queue entries ring a member of the team queue
+export type DialerTransferDirectoryEntry = {
+  entryId: string;
+  label: string;
+  kind: 'external' | 'queue';
+  to: string | null;
+  queueId: string | null;
+};
+
+export type DialerTransferDirectory = {
+  holdMusicUrl: string | null;
+  entries: DialerTransferDirectoryEntry[];
+};
+
 export type DialerTransferApplication = {
   initiate: (input: {
     workspaceId: string;
     userId: string;
     sessionId: string;
     type: 'cold' | 'warm';
-    to: string;
+    to?: string;
+    directoryEntryId?: string;
   }) => Effect.Effect<DialerTransferResult, DialerApplicationError>;
   getStatus: (input: {
     workspaceId: string;
@@ -100,6 +122,40 @@ export type DialerTransferApplication = {
     sessionId: string;
     transferId: string;
   }) => Effect.Effect<DialerTransferResult, DialerApplicationError>;
+  toggle: (input: {
+    workspaceId: string;
+    userId: string;
+    sessionId: string;
+    transferId: string;
+    talkTo: DialerTransferParty;
+  }) => Effect.Effect<DialerTransferResult, DialerApplicationError>;
+  merge: (input: {
+    workspaceId: string;
+    userId: string;
+    sessionId: string;
+    transferId: string;
+  }) => Effect.Effect<DialerTransferResult, DialerApplicationError>;
+  getDirectory: (input: {
+    workspaceId: string;
+  }) => Effect.Effect<DialerTransferDirectory, DialerApplicationError>;
+  saveDirectoryEntry: (input: {
+    workspaceId: string;
+    role?: string;
+    label: string;
+    kind: DialerTransferDirectoryEntry['kind'];
+    to?: string;
+    queueId?: string;
+  }) => Effect.Effect<DialerTransferDirectoryEntry, DialerApplicationError>;
+  removeDirectoryEntry: (input: {
+    workspaceId: string;
+    role?: string;
+    entryId: string;
+  }) => Effect.Effect<{ removed: true }, DialerApplicationError>;
+  setHoldMusic: (input: {
+    workspaceId: string;
+    role?: string;
+    holdMusicUrl: string | null;
+  }) => Effect.Effect<{ holdMusicUrl: string | null }, DialerApplicationError>;
   processStatusCallback: (input: {
     transferId: string;
     callSid: string;
@@ -110,6 +166,66 @@ export type DialerTransferApplication = {
   >;
 };
 
+export type DialerSupervisionMode = 'listen' | 'whisper' | 'barge';
+
+export type DialerSupervisionStatus = 'active' | 'ended' | 'failed';
+
+export type DialerSupervisionResult = {
+  success: boolean;
+  supervisionId: string;
+  mode: DialerSupervisionMode;
+  status: DialerSupervisionStatus;
+  supervisorCallSid?: string;
+  conferenceSid?: string;
+  error?: string;
+};
+
+export type DialerSupervisionApplication = {
+  start: (input: {
+    workspaceId: string;
+    userId: string;
+    role?: string;
+    sessionId: string;
+    mode: DialerSupervisionMode;
+    to?: string;
+  }) => Effect.Effect<DialerSupervisionResult, DialerApplicationError>;
+  changeMode: (input: {
+    workspaceId: string;
+    userId: string;
+    role?: string;
+    sessionId: string;
+    supervisionId: string;
+    mode: DialerSupervisionMode;
+  }) => Effect.Effect<DialerSupervisionResult, DialerApplicationError>;
+  end: (input: {
+    workspaceId: string;
+    userId: string;
+    role?: string;
+    sessionId: string;
+    supervisionId: string;
+  }) => Effect.Effect<DialerSupervisionResult, DialerApplicationError>;
+};
+
+export type DialerRedactedRecording = {
+  audio: Uint8Array;
+  contentType: string;
+  redactedSpans: number;
+};
+
+export type DialerRecordingApplication = TranscriptListener & {
+  recordingCompleted: (input: {
+    providerCallId: string;
+  }) => Effect.Effect<void, DialerApplicationError>;
+  sweep: () => Effect.Effect<
+    { redacted: number; discarded: number },
+    DialerApplicationError
+  >;
+  getRedactedRecording: (input: {
+    workspaceId: string;
+    callId: string;
+  }) => Effect.Effect<DialerRedactedRecording, DialerApplicationError>;
+};
+
 export type DialerServerApplication = {
   startCallSession: (
     command: DialerServerStartCallCommand,
@@ -160,6 +276,13 @@ export type TwilioSignatureInput = {
   params: Record<string, string>;
 };
 
+// Telnyx signs `${timestamp}|${rawBody}` with Ed25519
+export type TelnyxSignatureInput = {
+  signature: string;
+  timestamp: string;
+  rawBody: string;
+};
+
 export type LeadConnectorServerApplication = {
   beginOAuth: (input: {
     workspaceId: string;
@@ -235,9 +358,14 @@ export type LeadConnectorServerApplication = {
 export type DialerServerDependencies = {
   application: DialerServerApplication;
   transfers?: DialerTransferApplication;
+  supervision?: DialerSupervisionApplication;
+  recordings?: DialerRecordingApplication;
   callOperations?: ReturnType<typeof createCallOperationsApplication>;
+  liveCoaching?: ReturnType<typeof createLiveCoachingApplication>;
   authenticate: (request: Request) => Promise<DialerIdentity | null>;
   verifyTwilioSignature: (input: TwilioSignatureInput) => Promise<boolean>;
+  // set when the dialer takes Telnyx status webhooks
+  verifyTelnyxSignature?: (input: TelnyxSignatureInput) => Promise<boolean>;
   issueVoiceToken?: (identity: DialerIdentity) => Promise<VoiceToken>;
   issueEmbedSession?: (
     identity: LeadConnectorEmbedIdentity,
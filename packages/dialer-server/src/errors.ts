@@ -1,5 +1,6 @@
 import {
   DialerCleanupError,
+  DialerComplianceError,
   DialerConflictError,
   DialerInfrastructureError,
   DialerInterruptedError,
@@ -40,6 +41,23 @@ export function mapDialerError(error: unknown) {
     };
   if (error instanceof DialerNotFoundError)
     return publicError(404, error.code, error.message, false);
+  // denials carry reason codes per contact; phone numbers stay redacted
+  if (error instanceof DialerComplianceError)
+    return {
+      status: 403,
+      body: {
+        error: {
+          code: error.code,
+          message: 'Call not permitted by compliance rules',
+          retryable: false,
+          denials: error.denials.map((denial) => ({
+            contactId: denial.contactId ?? null,
+            reasons: denial.reasons,
+            timezone: denial.timezone,
+          })),
+        },
+      },
+    };
   if (error instanceof DialerTransitionError)
     return publicError(
       409,
@@ -89,7 +107,7 @@ export function dialerErrorResponse(
   }
   return context.json(
     mapped.body,
-    mapped.status as 400 | 404 | 409 | 500 | 502 | 503 | 504,
+    mapped.status as 400 | 403 | 404 | 409 | 500 | 502 | 503 | 504,
   );
 }
 
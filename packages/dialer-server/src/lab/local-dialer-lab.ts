@@ -421,6 +421,8 @@ const createIngestRecord = (
       winnerRate: answered ? 1 : 0,
       wastedLegs: answered ? 0 : 1,
       connectLatencyMs: answered ? 800 : null,
+      humanAnswers: answered ? 1 : 0,
+      abandonedLegs: 0,
     },
     success: answered,
   };
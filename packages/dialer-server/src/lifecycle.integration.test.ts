@@ -7,9 +7,11 @@ import {
   DialerIdGenerator,
   DialerRequestError,
   DialerTargetRepository,
+  InMemoryComplianceStore,
   InMemoryParallelStore,
   ParallelCompatibilityRuntime,
   ParallelStateStore,
+  createDialerComplianceLayer,
   createParallelStateStoreLayer,
   getCallSession,
   initiateParallelDial,
@@ -73,11 +75,18 @@ describe('dialer-server in-memory lifecycle', () => {
       generateDialerSessionId: Effect.succeed('session-1'),
     };
     const stateLayer = createParallelStateStoreLayer(store);
+    const complianceLayer = createDialerComplianceLayer(
+      new InMemoryComplianceStore({
+        callingWindow: { startHour: 8, endHour: 21 },
+        fallbackTimezone: 'America/New_York',
+      }),
+    );
     const coreLayer = Layer.mergeAll(
       Layer.succeed(CallProvider, provider),
       stateLayer,
       Layer.succeed(DialerClock, clock),
       Layer.succeed(DialerIdGenerator, ids),
+      complianceLayer,
     );
 
     const getGroupIdForCall = (callSid: string) =>
@@ -260,6 +269,8 @@ describe('dialer-server in-memory lifecycle', () => {
       Layer.succeed(DialerCallRepository, calls),
       Layer.succeed(DialerCallRuntime, runtime),
       Layer.succeed(DialerIdGenerator, ids),
+      Layer.succeed(DialerClock, clock),
+      complianceLayer,
     );
 
     const app = createDialerServer({
@@ -0,0 +1,202 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { DialerNotFoundError } from '@consuelo/dialer';
+import { Effect, Exit } from 'effect';
+
+import {
+  createRecordingApplication,
+  type RecordingRedactionJob,
+  type RecordingRepository,
+  type RedactedSegmentSpan,
+} from './recordings/application';
+
+const session = { workspaceId: 'workspace-one', sessionId: 'session-one' };
+
+const job: RecordingRedactionJob = {
+  ...session,
+  recordingSid: 'RE_one',
+  transcriptReady: true,
+  recordingLagMs: 1_000,
+  retentionDays: 30,
+};
+
+// one second of non-silent 8 kHz, 16-bit mono PCM
+const recording = (): Uint8Array => {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + 16_000, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(8_000, 24);
+  header.writeUInt32LE(16_000, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(16_000, 40);
+  return new Uint8Array([...header, ...new Uint8Array(16_000).fill(0x22)]);
+};
+
+const boot = (
+  input: {
+    claim?: RecordingRedactionJob | null;
+    spans?: RedactedSegmentSpan[];
+    download?: () => Promise<Uint8Array>;
+    expired?: Array<typeof session & { recordingSid: string }>;
+  } = {},
+) => {
+  const repository = {
+    findSessionForCall: mock(async (_providerCallId: string) => session),
+    claimRedaction: mock(async (_input: typeof session) =>
+      input.claim === undefined ? job : input.claim,
+    ),
+    listPendingRedactions: mock(async (_limit: number) => [session]),
+    listRedactedSpans: mock(
+      async (_input: typeof session) => input.spans ?? [],
+    ),
+    saveRendition: mock(
+      async (_input: Parameters<RecordingRepository['saveRendition']>[0]) =>
+        undefined,
+    ),
+    failRedaction: mock(
+      async (_input: Parameters<RecordingRepository['failRedaction']>[0]) =>
+        undefined,
+    ),
+    listExpiredOriginals: mock(async (_limit: number) => input.expired ?? []),
+    markOriginalDiscarded: mock(async (_input: typeof session) => undefined),
+    getRendition: mock(async (_input: typeof session) => null),
+  } satisfies RecordingRepository;
+  const provider = {
+    downloadRecording: mock(
+      async (_recordingSid: string) => input.download?.() ?? recording(),
+    ),
+    deleteRecording: mock(async (_recordingSid: string) => undefined),
+  };
+  const failures: string[] = [];
+  const application = createRecordingApplication({
+    repository,
+    provider,
+    config: { paddingMs: 100, batchSize: 10 },
+    reportFailure: (operation) => failures.push(operation),
+  });
+  return { application, repository, provider, failures };
+};
+
+describe('recording redaction application', () => {
+  it('silences redacted transcript spans shifted onto the recording timeline', async () => {
+    const harness = boot({ spans: [{ startMs: 1_400, endMs: 1_500 }] });
+
+    await Effect.runPromise(
+      harness.application.recordingCompleted({ providerCallId: 'CA_one' }),
+    );
+
+    expect(harness.provider.downloadRecording).toHaveBeenCalledWith('RE_one');
+    const saved = harness.repository.saveRendition.mock.calls[0]?.[0];
+    expect(saved).toMatchObject({
+      ...session,
+      contentType: 'audio/wav',
+      redactedSpans: 1,
+      retentionDays: 30,
+    });
+    // 300 ms to 600 ms of the recording once the 1 s lag and padding apply
+    const samples = Buffer.from(saved!.audio).subarray(44);
+    expect(samples.subarray(0, 4_800).every((byte) => byte === 0x22)).toBe(
+      true,
+    );
+    expect(samples.subarray(4_800, 9_600).every((byte) => byte === 0)).toBe(
+      true,
+    );
+    expect(samples.subarray(9_600).every((byte) => byte === 0x22)).toBe(true);
+  });
+
+  it('fails closed without a finished transcript and never downloads the audio', async () => {
+    const harness = boot({ claim: { ...job, transcriptReady: false } });
+
+    await Effect.runPromise(
+      harness.application.recordingCompleted({ providerCallId: 'CA_one' }),
+    );
+
+    expect(harness.provider.downloadRecording).not.toHaveBeenCalled();
+    expect(harness.repository.failRedaction).toHaveBeenCalledWith({
+      ...session,
+      failureCode: 'TRANSCRIPT_UNAVAILABLE',
+      retentionDays: 30,
+    });
+    expect(harness.failures).toEqual([]);
+  });
+
+  it('records provider failures and reports them', async () => {
+    const harness = boot({
+      download: () => Promise.reject(new Error('provider unavailable')),
+    });
+
+    await Effect.runPromise(
+      harness.application.recordingCompleted({ providerCallId: 'CA_one' }),
+    );
+
+    expect(harness.repository.saveRendition).not.toHaveBeenCalled();
+    expect(harness.repository.failRedaction.mock.calls[0]?.[0]).toMatchObject({
+      failureCode: 'REDACTION_FAILED',
+    });
+    expect(harness.failures).toEqual(['redact-recording']);
+  });
+
+  it('does nothing until both the recording and the transcript are finished', async () => {
+    const harness = boot({ claim: null });
+
+    harness.application.transcriptionEnded(session);
+    await Bun.sleep(0);
+
+    expect(harness.repository.claimRedaction).toHaveBeenCalledWith(session);
+    expect(harness.provider.downloadRecording).not.toHaveBeenCalled();
+    expect(harness.repository.failRedaction).not.toHaveBeenCalled();
+  });
+
+  it('sweeps pending redactions and deletes originals past retention', async () => {
+    const harness = boot({
+      expired: [{ ...session, recordingSid: 'RE_old' }],
+    });
+
+    await expect(
+      Effect.runPromise(harness.application.sweep()),
+    ).resolves.toEqual({ redacted: 1, discarded: 1 });
+    expect(harness.provider.deleteRecording).toHaveBeenCalledWith('RE_old');
+    expect(harness.repository.markOriginalDiscarded).toHaveBeenCalledWith({
+      ...session,
+      recordingSid: 'RE_old',
+    });
+  });
+
+  it('keeps an original whose deletion failed for the next sweep', async () => {
+    const harness = boot({
+      claim: null,
+      expired: [{ ...session, recordingSid: 'RE_old' }],
+    });
+    harness.provider.deleteRecording.mockImplementation(() =>
+      Promise.reject(new Error('rate limited')),
+    );
+
+    await expect(
+      Effect.runPromise(harness.application.sweep()),
+    ).resolves.toEqual({ redacted: 0, discarded: 0 });
+    expect(harness.repository.markOriginalDiscarded).not.toHaveBeenCalled();
+    expect(harness.failures).toEqual(['discard-recording']);
+  });
+
+  it('reports a missing rendition as not found', async () => {
+    const harness = boot();
+
+    const exit = await Effect.runPromiseExit(
+      harness.application.getRedactedRecording({
+        workspaceId: 'workspace-one',
+        callId: 'session-one',
+      }),
+    );
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === 'Fail') {
+      expect(exit.cause.error).toBeInstanceOf(DialerNotFoundError);
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, mock } from 'bun:test';
+
+import {
+  createPostgresRecordingRepository,
+  initializeRecordingPersistence,
+  type RecordingDatabase,
+} from './recordings/persistence';
+
+const session = { workspaceId: 'workspace-one', sessionId: 'session-one' };
+
+const database = (rows: unknown[] = []) => {
+  const query = mock(
+    async (_sql: string, _values: readonly unknown[] = []) => ({
+      rows,
+      rowCount: rows.length,
+    }),
+  );
+  return {
+    query,
+    repository: createPostgresRecordingRepository({
+      query: query as unknown as RecordingDatabase['query'],
+    }),
+  };
+};
+
+describe('recording persistence', () => {
+  it('keeps rendition audio in its own table tied to the call session', async () => {
+    const { query } = database();
+
+    await initializeRecordingPersistence({
+      query: query as unknown as RecordingDatabase['query'],
+    });
+
+    const sql = query.mock.calls.map((call) => call[0]).join('\n');
+    expect(sql).toContain('dialer_recording_renditions');
+    expect(sql).toContain('audio BYTEA NOT NULL');
+    expect(sql).toContain('ON DELETE CASCADE');
+  });
+
+  it('claims only completed recordings whose transcript is final', async () => {
+    const { query, repository } = database([
+      {
+        workspace_id: 'workspace-one',
+        session_id: 'session-one',
+        recording_sid: 'RE_one',
+        transcript_ready: true,
+        recording_lag_ms: '1250.5',
+        retention_days: 14,
+      },
+    ]);
+
+    await expect(repository.claimRedaction(session)).resolves.toEqual({
+      ...session,
+      recordingSid: 'RE_one',
+      transcriptReady: true,
+      recordingLagMs: 1250.5,
+      retentionDays: 14,
+    });
+    const [sql, values] = query.mock.calls[0]!;
+    expect(sql).toContain("recording_redaction_status = 'processing'");
+    expect(sql).toContain("sessions.recording_status = 'completed'");
+    expect(sql).toContain("sessions.transcript_status IN ('ready', 'failed')");
+    expect(values).toEqual(['workspace-one', 'session-one']);
+  });
+
+  it('stores the rendition and schedules the original for discard in one statement', async () => {
+    const { query, repository } = database();
+    const audio = new Uint8Array([1, 2, 3]);
+
+    await repository.saveRendition({
+      ...session,
+      audio,
+      contentType: 'audio/wav',
+      redactedSpans: 2,
+      retentionDays: 30,
+    });
+
+    const [sql, values] = query.mock.calls[0]!;
+    expect(sql).toContain('INSERT INTO dialer_recording_renditions');
+    expect(sql).toContain("recording_redaction_status = 'ready'");
+    expect(sql).toContain('make_interval(days => $6::int)');
+    expect(values).toEqual([
+      'workspace-one',
+      'session-one',
+      'audio/wav',
+      audio,
+      2,
+      30,
+    ]);
+  });
+
+  it('reads a workspace-scoped rendition', async () => {
+    const { query, repository } = database([
+      {
+        audio: Buffer.from([1, 2, 3]),
+        content_type: 'audio/wav',
+        redacted_spans: '2',
+      },
+    ]);
+
+    await expect(repository.getRendition(session)).resolves.toEqual({
+      audio: new Uint8Array([1, 2, 3]),
+      contentType: 'audio/wav',
+      redactedSpans: 2,
+    });
+    expect(query.mock.calls[0]?.[1]).toEqual(['workspace-one', 'session-one']);
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  DialerInfrastructureError,
+  DialerNotFoundError,
+  type DialerApplicationError,
+} from '@consuelo/dialer';
+import { Effect } from 'effect';
+
+import { silenceWavSpans } from '../call-operations/redaction';
+import type {
+  DialerRecordingApplication,
+  DialerRedactedRecording,
+} from '../contracts';
+
+type SessionKey = {
+  workspaceId: string;
+  sessionId: string;
+};
+
+export type RecordingRedactionJob = SessionKey & {
+  recordingSid: string;
+  transcriptReady: boolean;
+  // how long after the transcription stream the recording started
+  recordingLagMs: number;
+  retentionDays: number;
+};
+
+export type RedactedSegmentSpan = {
+  startMs: number | null;
+  endMs: number | null;
+};
+
+export type RecordingRepository = {
+  findSessionForCall: (providerCallId: string) => Promise<SessionKey | null>;
+  claimRedaction: (input: SessionKey) => Promise<RecordingRedactionJob | null>;
+  listPendingRedactions: (limit: number) => Promise<SessionKey[]>;
+  listRedactedSpans: (input: SessionKey) => Promise<RedactedSegmentSpan[]>;
+  saveRendition: (
+    input: SessionKey &
+      DialerRedactedRecording & {
+        retentionDays: number;
+      },
+  ) => Promise<void>;
+  failRedaction: (
+    input: SessionKey & { failureCode: string; retentionDays: number },
+  ) => Promise<void>;
+  listExpiredOriginals: (
+    limit: number,
+  ) => Promise<Array<SessionKey & { recordingSid: string }>>;
+  markOriginalDiscarded: (input: SessionKey) => Promise<void>;
+  getRendition: (input: SessionKey) => Promise<DialerRedactedRecording | null>;
+};
+
+export type RecordingProvider = {
+  downloadRecording: (recordingSid: string) => Promise<Uint8Array>;
+  deleteRecording: (recordingSid: string) => Promise<void>;
+};
+
+export type RecordingApplicationInput = {
+  repository: RecordingRepository;
+  provider: RecordingProvider;
+  config: {
+    paddingMs: number;
+    batchSize: number;
+  };
+  reportFailure?: (operation: string, error: unknown) => void;
+};
+
+class RedactionFailure extends Error {
+  constructor(readonly failureCode: string) {
+    super(failureCode);
+  }
+}
+
+const infrastructureError = (
+  operation: string,
+  cause: unknown,
+): DialerInfrastructureError =>
+  new DialerInfrastructureError({
+    operation,
+    message: cause instanceof Error ? cause.message : String(cause),
+    retryable: true,
+    cause,
+  });
+
+const effect = <T>(operation: string, run: () => Promise<T>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (cause): DialerApplicationError =>
+      cause instanceof DialerNotFoundError
+        ? cause
+        : infrastructureError(operation, cause),
+  });
+
+/**
+ * Produces a redacted rendition of each completed recording once its
+ * transcript is final: the audio under every masked transcript segment is
+ * silenced, and the provider's original is deleted when the workspace's
+ * retention period ends.
+ */
+export const createRecordingApplication = (
+  input: RecordingApplicationInput,
+): DialerRecordingApplication => {
+  const report = (operation: string, error: unknown): void => {
+    input.reportFailure?.(operation, error);
+  };
+
+  const redactedAudio = async (job: RecordingRedactionJob) => {
+    // the transcript is the only record of what was said, so fail closed
+    if (!job.transcriptReady) {
+      throw new RedactionFailure('TRANSCRIPT_UNAVAILABLE');
+    }
+    const segments = await input.repository.listRedactedSpans(job);
+    const spans = segments.map((segment) => {
+      if (segment.startMs === null || segment.endMs === null) {
+        throw new RedactionFailure('REDACTION_SPAN_UNKNOWN');
+      }
+      return {
+        startMs: segment.startMs - job.recordingLagMs - input.config.paddingMs,
+        endMs: segment.endMs - job.recordingLagMs + input.config.paddingMs,
+      };
+    });
+    const original = await input.provider.downloadRecording(job.recordingSid);
+    return {
+      audio: silenceWavSpans(original, spans),
+      redactedSpans: spans.length,
+    };
+  };
+
+  const redact = async (key: SessionKey): Promise<boolean> => {
+    const job = await input.repository.claimRedaction(key);
+    if (!job) return false;
+    try {
+      const rendition = await redactedAudio(job);
+      await input.repository.saveRendition({
+        workspaceId: job.workspaceId,
+        sessionId: job.sessionId,
+        contentType: 'audio/wav',
+        retentionDays: job.retentionDays,
+        ...rendition,
+      });
+      return true;
+    } catch (error: unknown) {
+      if (!(error instanceof RedactionFailure)) {
+        report('redact-recording', error);
+      }
+      await input.repository.failRedaction({
+        workspaceId: job.workspaceId,
+        sessionId: job.sessionId,
+        failureCode:
+          error instanceof RedactionFailure
+            ? error.failureCode
+            : 'REDACTION_FAILED',
+        retentionDays: job.retentionDays,
+      });
+      return false;
+    }
+  };
+
+  const discardExpiredOriginals = async (): Promise<number> => {
+    const expired = await input.repository.listExpiredOriginals(
+      input.config.batchSize,
+    );
+    let discarded = 0;
+    for (const original of expired) {
+      try {
+        await input.provider.deleteRecording(original.recordingSid);
+        await input.repository.markOriginalDiscarded(original);
+        discarded += 1;
+      } catch (error: unknown) {
+        report('discard-recording', error);
+      }
+    }
+    return discarded;
+  };
+
+  return {
+    segmentAppended: () => undefined,
+    // runs once the transcript's final status is stored
+    transcriptionEnded: (session) => {
+      void redact(session).catch((error: unknown) =>
+        report('redact-recording', error),
+      );
+    },
+
+    recordingCompleted: ({ providerCallId }) =>
+      effect('redact-completed-recording', async () => {
+        try {
+          const session = await input.repository.findSessionForCall(
+            providerCallId,
+          );
+          if (session) await redact(session);
+          await discardExpiredOriginals();
+        } catch (error: unknown) {
+          // the webhook has already been answered, so nobody else sees this
+          report('redact-completed-recording', error);
+          throw error;
+        }
+      }),
+
+    sweep: () =>
+      effect('sweep-recordings', async () => {
+        const pending = await input.repository.listPendingRedactions(
+          input.config.batchSize,
+        );
+        let redacted = 0;
+        for (const session of pending) {
+          if (await redact(session)) redacted += 1;
+        }
+        return { redacted, discarded: await discardExpiredOriginals() };
+      }),
+
+    getRedactedRecording: ({ workspaceId, callId }) =>
+      effect('get-redacted-recording', async () => {
+        const rendition = await input.repository.getRendition({
+          workspaceId,
+          sessionId: callId,
+        });
+        if (!rendition) {
+          throw new DialerNotFoundError({
+            code: 'NOT_FOUND',
+            message: 'Redacted recording not found',
+            retryable: false,
+          });
+        }
+        return rendition;
+      }),
+  };
+};
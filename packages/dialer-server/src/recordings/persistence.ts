@@ -0,0 +1,266 @@
+import type { RecordingRepository } from './application';
+
+import { normalizeAsyncError } from '../errors/normalize-async-error';
+
+export type RecordingDatabase = {
+  query: <TRow>(
+    text: string,
+    values?: readonly unknown[],
+  ) => Promise<{ rows: TRow[]; rowCount?: number | null }>;
+};
+
+type SessionKeyRow = {
+  workspace_id: string;
+  session_id: string;
+};
+
+type JobRow = SessionKeyRow & {
+  recording_sid: string;
+  transcript_ready: boolean;
+  recording_lag_ms: number | string | null;
+  retention_days: number | string;
+};
+
+type RenditionRow = {
+  audio: Uint8Array;
+  content_type: string;
+  redacted_spans: number | string;
+};
+
+// redacted renditions are the only recording audio the dialer keeps
+export const RECORDING_SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS dialer_recording_renditions (
+    workspace_id TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    audio BYTEA NOT NULL,
+    redacted_spans INTEGER NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (workspace_id, session_id),
+    FOREIGN KEY (workspace_id, session_id)
+      REFERENCES dialer_call_sessions(workspace_id, id) ON DELETE CASCADE
+  )`,
+] as const;
+
+export const initializeRecordingPersistence = (
+  database: RecordingDatabase,
+): Promise<void> =>
+  RECORDING_SCHEMA_STATEMENTS.reduce<Promise<void>>(
+    (operation, statement) =>
+      operation.then(() => database.query(statement).then(() => undefined)),
+    Promise.resolve(),
+  );
+
+// a claim left processing this long belongs to a process that stopped
+const STALE_CLAIM = "INTERVAL '10 minutes'";
+
+const CLAIMABLE = `sessions.recording_status = 'completed'
+  AND sessions.recording_sid IS NOT NULL
+  AND (
+    sessions.recording_redaction_status = 'pending'
+    OR (
+      sessions.recording_redaction_status = 'processing'
+      AND sessions.updated_at < NOW() - ${STALE_CLAIM}
+    )
+  )
+  AND (
+    sessions.transcription_enabled = FALSE
+    OR sessions.transcript_status IN ('ready', 'failed')
+  )`;
+
+const mapKey = (row: SessionKeyRow) => ({
+  workspaceId: row.workspace_id,
+  sessionId: row.session_id,
+});
+
+export const createPostgresRecordingRepository = (
+  database: RecordingDatabase,
+): RecordingRepository => ({
+  findSessionForCall: async (providerCallId) => {
+    try {
+      const result = await database.query<SessionKeyRow>(
+        'SELECT workspace_id, session_id FROM dialer_call_legs WHERE provider_call_id = $1 LIMIT 1',
+        [providerCallId],
+      );
+      return result.rows[0] ? mapKey(result.rows[0]) : null;
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  claimRedaction: async ({ workspaceId, sessionId }) => {
+    try {
+      const result = await database.query<JobRow>(
+        `UPDATE dialer_call_sessions AS sessions
+         SET recording_redaction_status = 'processing',
+             recording_redaction_failure_code = NULL,
+             updated_at = NOW()
+         WHERE sessions.workspace_id = $1
+           AND sessions.id = $2
+           AND ${CLAIMABLE}
+         RETURNING sessions.workspace_id, sessions.id AS session_id,
+           sessions.recording_sid,
+           sessions.transcription_enabled AND sessions.transcript_status = 'ready' AS transcript_ready,
+           COALESCE(
+             EXTRACT(EPOCH FROM (sessions.recording_started_at - sessions.transcript_started_at)) * 1000,
+             0
+           ) AS recording_lag_ms,
+           COALESCE(
+             sessions.transcript_retention_days,
+             (SELECT transcript_retention_days FROM dialer_workspace_settings WHERE workspace_id = sessions.workspace_id),
+             30
+           ) AS retention_days`,
+        [workspaceId, sessionId],
+      );
+      const row = result.rows[0];
+      if (!row) return null;
+      return {
+        ...mapKey(row),
+        recordingSid: row.recording_sid,
+        transcriptReady: row.transcript_ready === true,
+        recordingLagMs: Math.max(0, Number(row.recording_lag_ms) || 0),
+        retentionDays: Number(row.retention_days),
+      };
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  listPendingRedactions: async (limit) => {
+    try {
+      const result = await database.query<SessionKeyRow>(
+        `SELECT sessions.workspace_id, sessions.id AS session_id
+         FROM dialer_call_sessions AS sessions
+         WHERE ${CLAIMABLE}
+         ORDER BY sessions.updated_at
+         LIMIT $1`,
+        [limit],
+      );
+      return result.rows.map(mapKey);
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  listRedactedSpans: async ({ workspaceId, sessionId }) => {
+    try {
+      const result = await database.query<{
+        start_ms: number | null;
+        end_ms: number | null;
+      }>(
+        "SELECT start_ms, end_ms FROM dialer_transcript_segments WHERE workspace_id = $1 AND session_id = $2 AND redactions <> '{}' ORDER BY start_ms",
+        [workspaceId, sessionId],
+      );
+      return result.rows.map((row) => ({
+        startMs: row.start_ms,
+        endMs: row.end_ms,
+      }));
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  saveRendition: async (input) => {
+    try {
+      await database.query(
+        `WITH rendition AS (
+          INSERT INTO dialer_recording_renditions (
+            workspace_id, session_id, content_type, audio, redacted_spans
+          ) VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (workspace_id, session_id) DO UPDATE
+          SET content_type = EXCLUDED.content_type,
+              audio = EXCLUDED.audio,
+              redacted_spans = EXCLUDED.redacted_spans,
+              created_at = NOW()
+        )
+        UPDATE dialer_call_sessions
+        SET recording_redaction_status = 'ready',
+            recording_discard_after = COALESCE(
+              recording_discard_after,
+              NOW() + make_interval(days => $6::int)
+            ),
+            updated_at = NOW()
+        WHERE workspace_id = $1 AND id = $2`,
+        [
+          input.workspaceId,
+          input.sessionId,
+          input.contentType,
+          input.audio,
+          input.redactedSpans,
+          input.retentionDays,
+        ],
+      );
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  failRedaction: async (input) => {
+    try {
+      await database.query(
+        `UPDATE dialer_call_sessions
+         SET recording_redaction_status = 'failed',
+             recording_redaction_failure_code = $3,
+             recording_discard_after = COALESCE(
+               recording_discard_after,
+               NOW() + make_interval(days => $4::int)
+             ),
+             updated_at = NOW()
+         WHERE workspace_id = $1 AND id = $2`,
+        [
+          input.workspaceId,
+          input.sessionId,
+          input.failureCode,
+          input.retentionDays,
+        ],
+      );
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  listExpiredOriginals: async (limit) => {
+    try {
+      const result = await database.query<
+        SessionKeyRow & { recording_sid: string }
+      >(
+        `SELECT workspace_id, id AS session_id, recording_sid
+         FROM dialer_call_sessions
+         WHERE recording_discard_after <= NOW()
+           AND recording_discarded_at IS NULL
+           AND recording_sid IS NOT NULL
+         ORDER BY recording_discard_after
+         LIMIT $1`,
+        [limit],
+      );
+      return result.rows.map((row) => ({
+        ...mapKey(row),
+        recordingSid: row.recording_sid,
+      }));
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  markOriginalDiscarded: async ({ workspaceId, sessionId }) => {
+    try {
+      await database.query(
+        'UPDATE dialer_call_sessions SET recording_discarded_at = NOW(), updated_at = NOW() WHERE workspace_id = $1 AND id = $2',
+        [workspaceId, sessionId],
+      );
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  getRendition: async ({ workspaceId, sessionId }) => {
+    try {
+      const result = await database.query<RenditionRow>(
+        'SELECT audio, content_type, redacted_spans FROM dialer_recording_renditions WHERE workspace_id = $1 AND session_id = $2',
+        [workspaceId, sessionId],
+      );
+      const row = result.rows[0];
+      return row
+        ? {
+            audio: new Uint8Array(row.audio),
+            contentType: row.content_type,
+            redactedSpans: Number(row.redacted_spans),
+          }
+        : null;
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+});
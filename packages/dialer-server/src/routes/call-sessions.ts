@@ -1,6 +1,10 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 
-import type { DialerServerDependencies } from '../contracts';
+import type {
+  DialerServerDependencies,
+  DialerSupervisionMode,
+  DialerTransferParty,
+} from '../contracts';
 import { resolveCommercialCallTargetInput } from '../commercial-target-authorization';
 import { runApplicationEffect } from '../effect-runner';
 import { dialerErrorResponse, invalidRequestResponse } from '../errors';
@@ -27,6 +31,39 @@ const readJsonObject = async (
   }
 };
 
+const supervisionMode = (value: unknown): DialerSupervisionMode | null =>
+  value === 'listen' || value === 'whisper' || value === 'barge'
+    ? value
+    : null;
+
+const transferParty = (value: unknown): DialerTransferParty | null =>
+  value === 'customer' || value === 'consultee' ? value : null;
+
+const invalidTransferResponse = (context: Context, message: string) =>
+  context.json(
+    {
+      error: {
+        code: 'INVALID_TRANSFER_REQUEST',
+        message,
+        retryable: false,
+      },
+    },
+    400,
+  );
+
+const invalidSupervisionResponse = (context: Context) =>
+  context.json(
+    {
+      error: {
+        code: 'INVALID_SUPERVISION_REQUEST',
+        message:
+          'A supervision mode of listen, whisper or barge and an optional E.164 number are required',
+        retryable: false,
+      },
+    },
+    400,
+  );
+
 export const createCallSessionRoutes = (
   dependencies: DialerServerDependencies,
 ) => {
@@ -129,16 +166,22 @@ export const createCallSessionRoutes = (
           ? input.type
           : null;
         const to = typeof input?.to === 'string' ? input.to.trim() : '';
-        if (!type || !/^\+[1-9]\d{7,14}$/.test(to)) {
-          return context.json(
-            {
-              error: {
-                code: 'INVALID_TRANSFER_REQUEST',
-                message: 'A valid E.164 target and transfer type are required',
-                retryable: false,
-              },
-            },
-            400,
+        const directoryEntryId =
+          typeof input?.directoryEntryId === 'string'
+            ? input.directoryEntryId.trim()
+            : '';
+        // a saved directory entry replaces the number; never both
+        const target = directoryEntryId
+          ? to
+            ? null
+            : { directoryEntryId }
+          : /^\+[1-9]\d{7,14}$/.test(to)
+            ? { to }
+            : null;
+        if (!type || !target) {
+          return invalidTransferResponse(
+            context,
+            'A transfer type and either a valid E.164 target or a directory entry are required',
           );
         }
         const identity = context.get('identity');
@@ -148,7 +191,7 @@ export const createCallSessionRoutes = (
             userId: identity.userId,
             sessionId: context.req.param('sessionId'),
             type,
-            to,
+            ...target,
           }),
         );
         return result.ok
@@ -224,6 +267,138 @@ export const createCallSessionRoutes = (
         }
       },
     );
+
+    routes.post(
+      '/v1/call-sessions/:sessionId/transfers/:transferId/toggle',
+      async (context) => {
+        try {
+          const input = await readJsonObject(context.req.raw);
+          const talkTo = transferParty(input?.talkTo);
+          if (!talkTo) {
+            return invalidTransferResponse(
+              context,
+              'talkTo must be customer or consultee',
+            );
+          }
+          const identity = context.get('identity');
+          const result = await runApplicationEffect(
+            dependencies.transfers!.toggle({
+              workspaceId: identity.workspaceId,
+              userId: identity.userId,
+              sessionId: context.req.param('sessionId'),
+              transferId: context.req.param('transferId'),
+              talkTo,
+            }),
+          );
+          return result.ok
+            ? context.json(result.value)
+            : dialerErrorResponse(context, result.error);
+        } catch (error: unknown) {
+          return dialerErrorResponse(context, error);
+        }
+      },
+    );
+
+    routes.post(
+      '/v1/call-sessions/:sessionId/transfers/:transferId/merge',
+      async (context) => {
+        try {
+          const identity = context.get('identity');
+          const result = await runApplicationEffect(
+            dependencies.transfers!.merge({
+              workspaceId: identity.workspaceId,
+              userId: identity.userId,
+              sessionId: context.req.param('sessionId'),
+              transferId: context.req.param('transferId'),
+            }),
+          );
+          return result.ok
+            ? context.json(result.value)
+            : dialerErrorResponse(context, result.error);
+        } catch (error: unknown) {
+          return dialerErrorResponse(context, error);
+        }
+      },
+    );
+  }
+
+  if (dependencies.supervision) {
+    routes.post('/v1/call-sessions/:sessionId/supervise', async (context) => {
+      try {
+        const input = await readJsonObject(context.req.raw);
+        const mode = supervisionMode(input?.mode);
+        const to = typeof input?.to === 'string' ? input.to.trim() : undefined;
+        if (!mode || (to !== undefined && !/^\+[1-9]\d{7,14}$/.test(to))) {
+          return invalidSupervisionResponse(context);
+        }
+        const identity = context.get('identity');
+        const result = await runApplicationEffect(
+          dependencies.supervision!.start({
+            workspaceId: identity.workspaceId,
+            userId: identity.userId,
+            role: identity.role,
+            sessionId: context.req.param('sessionId'),
+            mode,
+            ...(to ? { to } : {}),
+          }),
+        );
+        return result.ok
+          ? context.json(result.value, 201)
+          : dialerErrorResponse(context, result.error);
+      } catch (error: unknown) {
+        return dialerErrorResponse(context, error);
+      }
+    });
+
+    routes.post(
+      '/v1/call-sessions/:sessionId/supervise/:supervisionId/mode',
+      async (context) => {
+        try {
+          const input = await readJsonObject(context.req.raw);
+          const mode = supervisionMode(input?.mode);
+          if (!mode) return invalidSupervisionResponse(context);
+          const identity = context.get('identity');
+          const result = await runApplicationEffect(
+            dependencies.supervision!.changeMode({
+              workspaceId: identity.workspaceId,
+              userId: identity.userId,
+              role: identity.role,
+              sessionId: context.req.param('sessionId'),
+              supervisionId: context.req.param('supervisionId'),
+              mode,
+            }),
+          );
+          return result.ok
+            ? context.json(result.value)
+            : dialerErrorResponse(context, result.error);
+        } catch (error: unknown) {
+          return dialerErrorResponse(context, error);
+        }
+      },
+    );
+
+    routes.post(
+      '/v1/call-sessions/:sessionId/supervise/:supervisionId/end',
+      async (context) => {
+        try {
+          const identity = context.get('identity');
+          const result = await runApplicationEffect(
+            dependencies.supervision!.end({
+              workspaceId: identity.workspaceId,
+              userId: identity.userId,
+              role: identity.role,
+              sessionId: context.req.param('sessionId'),
+              supervisionId: context.req.param('supervisionId'),
+            }),
+          );
+          return result.ok
+            ? context.json(result.value)
+            : dialerErrorResponse(context, result.error);
+        } catch (error: unknown) {
+          return dialerErrorResponse(context, error);
+        }
+      },
+    );
   }
 
   return routes;
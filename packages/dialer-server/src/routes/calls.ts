@@ -9,7 +9,7 @@ type CallOperationsApplication = NonNullable<
   DialerServerDependencies['callOperations']
 >;
 
-const resolveCallOperations = (
+export const resolveCallOperations = (
   dependencies: DialerServerDependencies,
 ): Partial<CallOperationsApplication> =>
   dependencies.callOperations ??
@@ -123,6 +123,36 @@ export const createCallOperationsRoutes = (
     }
   });
 
+  routes.get('/v1/calls/:callId/recording', async (context) => {
+    try {
+      if (!dependencies.recordings) {
+        return context.json(
+          {
+            error: {
+              code: 'SERVICE_UNAVAILABLE',
+              message: 'Call recordings are unavailable',
+              retryable: true,
+            },
+          },
+          503,
+        );
+      }
+      const result = await runApplicationEffect(
+        dependencies.recordings.getRedactedRecording({
+          workspaceId: context.get('identity').workspaceId,
+          callId: context.req.param('callId'),
+        }),
+      );
+      if (!result.ok) return dialerErrorResponse(context, result.error);
+      return context.body(new Uint8Array(result.value.audio), 200, {
+        'content-type': result.value.contentType,
+        'cache-control': 'private, no-store',
+      });
+    } catch (error: unknown) {
+      return dialerErrorResponse(context, error);
+    }
+  });
+
   routes.get('/v1/calls/:callId', async (context) => {
     try {
       if (!application.getCallDetail) {
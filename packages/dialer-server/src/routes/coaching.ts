@@ -0,0 +1,165 @@
+import { Hono, type Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+
+import type { DialerServerDependencies } from '../contracts';
+import { runApplicationEffect } from '../effect-runner';
+import { dialerErrorResponse } from '../errors';
+import type { DialerVariables } from '../middleware/auth';
+import { canManageWorkspaceSettings } from '../teams/application';
+import { resolveCallOperations } from './calls';
+
+const HEARTBEAT_MS = 15_000;
+const MAX_PLAYBOOK_CHARACTERS = 200_000;
+
+const readJsonObject = async (
+  request: Request,
+): Promise<Record<string, unknown> | null> => {
+  try {
+    const value: unknown = await request.json();
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  } catch (_error: unknown) {
+    return null;
+  }
+};
+
+const playbookUnavailableResponse = (context: Context) =>
+  context.json(
+    {
+      error: {
+        code: 'SERVICE_UNAVAILABLE',
+        message: 'Playbook uploads are unavailable',
+        retryable: true,
+      },
+    },
+    503,
+  );
+
+export const createLiveCoachingRoutes = (
+  dependencies: DialerServerDependencies,
+) => {
+  const routes = new Hono<{ Variables: DialerVariables }>();
+
+  routes.get('/v1/call-sessions/:sessionId/coaching/stream', async (context) => {
+    const liveCoaching = dependencies.liveCoaching;
+    const { getCallDetail } = resolveCallOperations(dependencies);
+    if (!liveCoaching || !getCallDetail) {
+      return context.json(
+        {
+          error: {
+            code: 'SERVICE_UNAVAILABLE',
+            message: 'Live coaching is unavailable',
+            retryable: true,
+          },
+        },
+        503,
+      );
+    }
+    const workspaceId = context.get('identity').workspaceId;
+    const sessionId = context.req.param('sessionId');
+    // subscriptions are keyed by workspace, but an unknown session would
+    // otherwise hold an open stream that never receives an event
+    const session = await runApplicationEffect(
+      getCallDetail({ workspaceId, callId: sessionId }),
+    );
+    if (!session.ok) return dialerErrorResponse(context, session.error);
+
+    return streamSSE(context, async (stream) => {
+      // serialize writes so the terminal event is flushed before the stream closes
+      let writes = Promise.resolve();
+      const write = (message: { event: string; data: string }) => {
+        writes = writes.then(() => stream.writeSSE(message)).catch(() => {});
+      };
+      let unsubscribe = () => {};
+      const closed = new Promise<void>((resolve) => {
+        stream.onAbort(resolve);
+        unsubscribe = liveCoaching.subscribe(
+          { workspaceId, sessionId },
+          (event) => {
+            write({ event: event.type, data: JSON.stringify(event) });
+            if (
+              event.type === 'ended' ||
+              (event.type === 'error' && event.code === 'CAPACITY_REACHED')
+            ) {
+              resolve();
+            }
+          },
+        );
+      });
+      const heartbeat = setInterval(() => {
+        write({ event: 'ping', data: '' });
+      }, HEARTBEAT_MS);
+      try {
+        await closed;
+      } finally {
+        clearInterval(heartbeat);
+        unsubscribe();
+        await writes;
+      }
+    });
+  });
+
+  // playbooks shape coaching for the whole workspace, so only admins add them
+  routes.post('/v1/playbooks', async (context) => {
+    const liveCoaching = dependencies.liveCoaching;
+    if (!liveCoaching) return playbookUnavailableResponse(context);
+    const identity = context.get('identity');
+    if (!canManageWorkspaceSettings(identity.role)) {
+      return context.json(
+        {
+          error: {
+            code: 'PLAYBOOK_FORBIDDEN',
+            message: 'An owner or admin role is required to upload playbooks',
+            retryable: false,
+          },
+        },
+        403,
+      );
+    }
+    const input = await readJsonObject(context.req.raw);
+    const name = typeof input?.name === 'string' ? input.name.trim() : '';
+    const content = typeof input?.content === 'string' ? input.content : '';
+    if (
+      !name ||
+      name.length > 200 ||
+      !content.trim() ||
+      content.length > MAX_PLAYBOOK_CHARACTERS
+    ) {
+      return context.json(
+        {
+          error: {
+            code: 'INVALID_PLAYBOOK_REQUEST',
+            message: `name and content are required; content is limited to ${MAX_PLAYBOOK_CHARACTERS} characters`,
+            retryable: false,
+          },
+        },
+        400,
+      );
+    }
+    try {
+      const uploaded = await liveCoaching.uploadPlaybook({
+        workspaceId: identity.workspaceId,
+        userId: identity.userId,
+        name,
+        content,
+      });
+      if (!uploaded) return playbookUnavailableResponse(context);
+      return context.json(
+        {
+          document: {
+            id: uploaded.document.id,
+            name: uploaded.document.name,
+            version: uploaded.document.version,
+          },
+          chunksIndexed: uploaded.chunksIndexed,
+        },
+        201,
+      );
+    } catch (error: unknown) {
+      return dialerErrorResponse(context, error);
+    }
+  });
+
+  return routes;
+};
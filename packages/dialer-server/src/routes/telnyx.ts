@@ -0,0 +1,65 @@
+import { normalizeTelnyxCallback } from '@consuelo/dialer';
+import { Hono } from 'hono';
+
+import type { DialerServerDependencies } from '../contracts';
+import { dialerErrorResponse, invalidRequestResponse } from '../errors';
+import { applyProviderStatus } from './twilio';
+
+const unauthorized = (message: string) => ({
+  error: { code: 'UNAUTHORIZED', message, retryable: false },
+});
+
+// Call Control events are JSON; TeXML status callbacks are form-encoded like Twilio's
+const parseBody = (rawBody: string, contentType: string): unknown =>
+  contentType.toLowerCase().includes('application/json')
+    ? JSON.parse(rawBody || '{}')
+    : Object.fromEntries(new URLSearchParams(rawBody));
+
+export const createTelnyxRoutes = (dependencies: DialerServerDependencies) => {
+  const routes = new Hono();
+
+  routes.post('/webhooks/telnyx/status', async (context) => {
+    try {
+      const verifyTelnyxSignature = dependencies.verifyTelnyxSignature;
+      if (!verifyTelnyxSignature) {
+        return context.json(
+          {
+            error: {
+              code: 'SERVICE_UNAVAILABLE',
+              message: 'Telnyx webhooks are not configured',
+              retryable: false,
+            },
+          },
+          503,
+        );
+      }
+      const signature = context.req.header('telnyx-signature-ed25519') ?? '';
+      const timestamp = context.req.header('telnyx-timestamp') ?? '';
+      if (!signature || !timestamp) {
+        return context.json(unauthorized('Missing Telnyx signature'), 401);
+      }
+      const rawBody = await context.req.text();
+      if (!(await verifyTelnyxSignature({ signature, timestamp, rawBody }))) {
+        return context.json(unauthorized('Invalid Telnyx signature'), 401);
+      }
+      let body: unknown;
+      try {
+        body = parseBody(rawBody, context.req.header('content-type') ?? '');
+      } catch {
+        return invalidRequestResponse(context, 'Invalid callback body');
+      }
+      const input = normalizeTelnyxCallback(body);
+      // acknowledge events that don't change call status so Telnyx stops retrying them
+      if (!input) return context.json({ received: true, groupId: null });
+      return await applyProviderStatus(context, dependencies, {
+        callSid: input.callSid,
+        callStatus: input.callStatus,
+        answeredBy: input.answeredBy,
+      });
+    } catch (error: unknown) {
+      return dialerErrorResponse(context, error);
+    }
+  });
+
+  return routes;
+};
@@ -0,0 +1,156 @@
+import { Hono, type Context } from 'hono';
+
+import type { DialerServerDependencies } from '../contracts';
+import { runApplicationEffect } from '../effect-runner';
+import { dialerErrorResponse } from '../errors';
+import type { DialerVariables } from '../middleware/auth';
+
+const E164 = /^\+[1-9]\d{7,14}$/;
+
+const readJsonObject = async (
+  request: Request,
+): Promise<Record<string, unknown> | null> => {
+  try {
+    const value: unknown = await request.json();
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  } catch (_error: unknown) {
+    return null;
+  }
+};
+
+const invalidDirectoryResponse = (context: Context, message: string) =>
+  context.json(
+    {
+      error: {
+        code: 'INVALID_TRANSFER_DIRECTORY_REQUEST',
+        message,
+        retryable: false,
+      },
+    },
+    400,
+  );
+
+const httpsUrl = (value: string): boolean => {
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch (_error: unknown) {
+    return false;
+  }
+};
+
+/** Workspace transfer directory and consult hold music */
+export const createTransferDirectoryRoutes = (
+  dependencies: DialerServerDependencies,
+) => {
+  const routes = new Hono<{ Variables: DialerVariables }>();
+  const transfers = dependencies.transfers;
+  if (!transfers) return routes;
+
+  routes.get('/v1/transfer-directory', async (context) => {
+    try {
+      const identity = context.get('identity');
+      const result = await runApplicationEffect(
+        transfers.getDirectory({ workspaceId: identity.workspaceId }),
+      );
+      return result.ok
+        ? context.json(result.value)
+        : dialerErrorResponse(context, result.error);
+    } catch (error: unknown) {
+      return dialerErrorResponse(context, error);
+    }
+  });
+
+  routes.post('/v1/transfer-directory', async (context) => {
+    try {
+      const input = await readJsonObject(context.req.raw);
+      const label = typeof input?.label === 'string' ? input.label.trim() : '';
+      const kind =
+        input?.kind === 'external' || input?.kind === 'queue'
+          ? input.kind
+          : null;
+      const to = typeof input?.to === 'string' ? input.to.trim() : '';
+      const queueId =
+        typeof input?.queueId === 'string' ? input.queueId.trim() : '';
+      if (
+        !label ||
+        label.length > 120 ||
+        !kind ||
+        (kind === 'external' ? !E164.test(to) : !queueId)
+      ) {
+        return invalidDirectoryResponse(
+          context,
+          'A label and either an external E.164 number or a team queue id are required',
+        );
+      }
+      const identity = context.get('identity');
+      const result = await runApplicationEffect(
+        transfers.saveDirectoryEntry({
+          workspaceId: identity.workspaceId,
+          role: identity.role,
+          label,
+          kind,
+          ...(kind === 'external' ? { to } : { queueId }),
+        }),
+      );
+      return result.ok
+        ? context.json(result.value, 201)
+        : dialerErrorResponse(context, result.error);
+    } catch (error: unknown) {
+      return dialerErrorResponse(context, error);
+    }
+  });
+
+  routes.delete('/v1/transfer-directory/:entryId', async (context) => {
+    try {
+      const identity = context.get('identity');
+      const result = await runApplicationEffect(
+        transfers.removeDirectoryEntry({
+          workspaceId: identity.workspaceId,
+          role: identity.role,
+          entryId: context.req.param('entryId'),
+        }),
+      );
+      return result.ok
+        ? context.json(result.value)
+        : dialerErrorResponse(context, result.error);
+    } catch (error: unknown) {
+      return dialerErrorResponse(context, error);
+    }
+  });
+
+  routes.put('/v1/transfer-directory/hold-music', async (context) => {
+    try {
+      const input = await readJsonObject(context.req.raw);
+      const url = input?.url;
+      const holdMusicUrl =
+        url === null
+          ? null
+          : typeof url === 'string' && httpsUrl(url)
+            ? url
+            : undefined;
+      if (holdMusicUrl === undefined) {
+        return invalidDirectoryResponse(
+          context,
+          'url must be an HTTPS URL or null',
+        );
+      }
+      const identity = context.get('identity');
+      const result = await runApplicationEffect(
+        transfers.setHoldMusic({
+          workspaceId: identity.workspaceId,
+          role: identity.role,
+          holdMusicUrl,
+        }),
+      );
+      return result.ok
+        ? context.json(result.value)
+        : dialerErrorResponse(context, result.error);
+    } catch (error: unknown) {
+      return dialerErrorResponse(context, error);
+    }
+  });
+
+  return routes;
+};
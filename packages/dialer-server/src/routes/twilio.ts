@@ -1,4 +1,5 @@
-import { Hono } from 'hono';
+import type { ParallelCallbackInput } from '@consuelo/dialer';
+import { Hono, type Context } from 'hono';
 
 import type { DialerServerDependencies } from '../contracts';
 import { runApplicationEffect } from '../effect-runner';
@@ -13,6 +14,47 @@ const callbackInput = (params: Record<string, string>) => ({
   dialCallDuration: params.DialCallDuration || undefined,
 });
 
+/**
+ * Apply a verified provider status callback to the parallel dialer, then meter
+ * usage for commercial sessions. Shared by the Twilio and Telnyx webhooks.
+ */
+export const applyProviderStatus = async (
+  context: Context,
+  dependencies: DialerServerDependencies,
+  input: ParallelCallbackInput,
+): Promise<Response> => {
+  const callContext = dependencies.application.resolveTwilioCallContext
+    ? await runApplicationEffect(
+        dependencies.application.resolveTwilioCallContext({
+          callSid: input.callSid,
+        }),
+      )
+    : null;
+  if (callContext && !callContext.ok) {
+    return dialerErrorResponse(context, callContext.error);
+  }
+  const result = await runApplicationEffect(
+    dependencies.application.processTwilioStatus(input),
+  );
+  if (!result.ok) return dialerErrorResponse(context, result.error);
+  if (
+    dependencies.commercial &&
+    callContext?.ok &&
+    callContext.value?.dialerSessionId
+  ) {
+    const usage = await runApplicationEffect(
+      dependencies.commercial.recordProviderCompletion({
+        workspaceId: callContext.value.workspaceId,
+        sessionId: callContext.value.dialerSessionId,
+        providerCallId: input.callSid,
+        status: input.callStatus,
+      }),
+    );
+    if (!usage.ok) return dialerErrorResponse(context, usage.error);
+  }
+  return context.json(result.value);
+};
+
 export const createTwilioRoutes = (dependencies: DialerServerDependencies) => {
   const routes = new Hono();
 
@@ -27,36 +69,7 @@ export const createTwilioRoutes = (dependencies: DialerServerDependencies) => {
           'CallSid and CallStatus are required',
         );
       }
-      const callContext = dependencies.application.resolveTwilioCallContext
-        ? await runApplicationEffect(
-            dependencies.application.resolveTwilioCallContext({
-              callSid: input.callSid,
-            }),
-          )
-        : null;
-      if (callContext && !callContext.ok) {
-        return dialerErrorResponse(context, callContext.error);
-      }
-      const result = await runApplicationEffect(
-        dependencies.application.processTwilioStatus(input),
-      );
-      if (!result.ok) return dialerErrorResponse(context, result.error);
-      if (
-        dependencies.commercial &&
-        callContext?.ok &&
-        callContext.value?.dialerSessionId
-      ) {
-        const usage = await runApplicationEffect(
-          dependencies.commercial.recordProviderCompletion({
-            workspaceId: callContext.value.workspaceId,
-            sessionId: callContext.value.dialerSessionId,
-            providerCallId: input.callSid,
-            status: input.callStatus,
-          }),
-        );
-        if (!usage.ok) return dialerErrorResponse(context, usage.error);
-      }
-      return context.json(result.value);
+      return await applyProviderStatus(context, dependencies, input);
     } catch (error: unknown) {
       return dialerErrorResponse(context, error);
     }
@@ -98,9 +111,14 @@ export const createTwilioRoutes = (dependencies: DialerServerDependencies) => {
             : {}),
         }),
       );
-      return result.ok
-        ? context.json({ received: true })
-        : dialerErrorResponse(context, result.error);
+      if (!result.ok) return dialerErrorResponse(context, result.error);
+      if (recordingStatus === 'completed' && dependencies.recordings) {
+        // redaction downloads the audio, so it must not hold up the webhook
+        void runApplicationEffect(
+          dependencies.recordings.recordingCompleted({ providerCallId: callSid }),
+        );
+      }
+      return context.json({ received: true });
     } catch (error: unknown) {
       return dialerErrorResponse(context, error);
     }
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'bun:test';
+
+import type { CallOperationsDatabase } from '../call-operations/persistence';
+import { createPostgresComplianceStore } from './compliance';
+
+const defaults = {
+  callingWindow: { startHour: 8, endHour: 21 },
+  fallbackTimezone: 'America/Chicago',
+};
+
+// answers each query by the first table it mentions
+const createDatabase = (answers: Array<[fragment: string, rows: unknown[]]>) => {
+  const queries: { text: string; values?: readonly unknown[] }[] = [];
+  const database: CallOperationsDatabase = {
+    query: async <TRow>(text: string, values?: readonly unknown[]) => {
+      queries.push({ text, values });
+      const rows = answers.find(([fragment]) => text.includes(fragment))?.[1];
+      return { rows: (rows ?? []) as TRow[] };
+    },
+  };
+  return { database, queries };
+};
+
+describe('Postgres compliance store', () => {
+  it('applies workspace policy overrides over the runtime defaults', async () => {
+    const { database } = createDatabase([
+      ['FROM workspace_settings', [{ policy: { startHour: 9 } }]],
+    ]);
+    const store = createPostgresComplianceStore(database, defaults);
+
+    expect(await store.getPolicy('workspace-1')).toEqual({
+      callingWindow: { startHour: 9, endHour: 21 },
+      fallbackTimezone: 'America/Chicago',
+    });
+  });
+
+  it('reports DNC listings under the phone strings the dialer passed in', async () => {
+    const { database, queries } = createDatabase([
+      [
+        'FROM dnc_numbers',
+        [
+          { phone_number: '+14155550100', list_source: 'workspace' },
+          { phone_number: '+14155550100', list_source: 'national' },
+        ],
+      ],
+    ]);
+    const store = createPostgresComplianceStore(database, defaults);
+
+    const listings = await store.findDncListings('workspace-1', [
+      '(415) 555-0100',
+      '+14155550199',
+    ]);
+
+    expect(queries[0]?.values).toEqual([
+      'workspace-1',
+      ['+14155550100', '+14155550199'],
+    ]);
+    expect([...listings]).toEqual([
+      ['(415) 555-0100', ['workspace', 'national']],
+    ]);
+  });
+
+  it('matches suppressed contacts by id or number', async () => {
+    const { database, queries } = createDatabase([
+      [
+        'FROM contacts',
+        [
+          { id: 'contact-1', phone: null },
+          { id: 'contact-9', phone: '4155550102' },
+        ],
+      ],
+    ]);
+    const store = createPostgresComplianceStore(database, defaults);
+
+    const suppressed = await store.findSuppressedPhones('workspace-1', [
+      { phone: '+14155550101', contactId: 'contact-1' },
+      { phone: '+14155550102' },
+      { phone: '+14155550103', contactId: 'contact-3' },
+    ]);
+
+    expect(queries[0]?.values?.[1]).toEqual(['contact-1', 'contact-3']);
+    expect([...suppressed]).toEqual(['+14155550101', '+14155550102']);
+  });
+});
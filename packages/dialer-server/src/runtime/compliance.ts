@@ -0,0 +1,125 @@
+import {
+  normalizeDialNumber,
+  type CompliancePolicy,
+  type ComplianceStore,
+  type DncListSource,
+} from '@consuelo/dialer';
+
+import type { CallOperationsDatabase } from '../call-operations/persistence';
+
+type PolicyOverrides = {
+  startHour?: unknown;
+  endHour?: unknown;
+  fallbackTimezone?: unknown;
+};
+
+// the tables the api's dial-compliance routes manage, so both gates agree
+const SQL_GET_POLICY =
+  'SELECT dial_compliance AS policy FROM workspace_settings WHERE workspace_id = $1';
+
+const SQL_FIND_DNC_LISTINGS =
+  'SELECT phone_number, list_source FROM dnc_numbers WHERE workspace_id::text = $1 AND phone_number = ANY($2::text[])';
+
+const SQL_FIND_SUPPRESSED =
+  "SELECT id::text AS id, phone FROM contacts WHERE workspace_id::text = $1 AND COALESCE(dnc_status, 'allowed') IN ('blocked', 'do_not_call', 'dnc') AND (id::text = ANY($2::text[]) OR phone = ANY($3::text[]))";
+
+// the api validates overrides on save; anything else falls back to the defaults
+const applyOverrides = (
+  defaults: CompliancePolicy,
+  raw: unknown,
+): CompliancePolicy => {
+  const overrides = (
+    raw && typeof raw === 'object' ? raw : {}
+  ) as PolicyOverrides;
+  const window = defaults.callingWindow;
+  return {
+    callingWindow: window && {
+      startHour:
+        typeof overrides.startHour === 'number'
+          ? overrides.startHour
+          : window.startHour,
+      endHour:
+        typeof overrides.endHour === 'number'
+          ? overrides.endHour
+          : window.endHour,
+    },
+    fallbackTimezone:
+      typeof overrides.fallbackTimezone === 'string'
+        ? overrides.fallbackTimezone
+        : defaults.fallbackTimezone,
+  };
+};
+
+/**
+ * Compliance data for the dialer gate, read from the workspace DNC lists,
+ * contact suppression and policy overrides in Postgres. Lookups key on E.164
+ * numbers but answer with the phone strings the dialer passed in.
+ */
+export const createPostgresComplianceStore = (
+  database: CallOperationsDatabase,
+  defaults: CompliancePolicy,
+): ComplianceStore => ({
+  getPolicy: async (workspaceId) => {
+    const { rows } = await database.query<{ policy: unknown }>(
+      SQL_GET_POLICY,
+      [workspaceId],
+    );
+    return applyOverrides(defaults, rows[0]?.policy);
+  },
+
+  findDncListings: async (workspaceId, phones) => {
+    const listings = new Map<string, DncListSource[]>();
+    const byNumber = new Map<string, string[]>();
+    for (const phone of phones) {
+      const normalized = normalizeDialNumber(phone);
+      if (!normalized) continue;
+      byNumber.set(normalized, [...(byNumber.get(normalized) ?? []), phone]);
+    }
+    if (byNumber.size === 0) return listings;
+
+    const { rows } = await database.query<{
+      phone_number: string;
+      list_source: DncListSource;
+    }>(SQL_FIND_DNC_LISTINGS, [workspaceId, [...byNumber.keys()]]);
+    for (const row of rows) {
+      for (const phone of byNumber.get(row.phone_number) ?? []) {
+        listings.set(phone, [...(listings.get(phone) ?? []), row.list_source]);
+      }
+    }
+    return listings;
+  },
+
+  findSuppressedPhones: async (workspaceId, targets) => {
+    if (targets.length === 0) return new Set<string>();
+    const contactIds = targets.flatMap((target) =>
+      target.contactId ? [target.contactId] : [],
+    );
+    const phones = targets.flatMap((target) => {
+      const normalized = normalizeDialNumber(target.phone);
+      return normalized && normalized !== target.phone
+        ? [target.phone, normalized]
+        : [target.phone];
+    });
+
+    const { rows } = await database.query<{ id: string; phone: string | null }>(
+      SQL_FIND_SUPPRESSED,
+      [workspaceId, contactIds, phones],
+    );
+    const ids = new Set(rows.map((row) => row.id));
+    const numbers = new Set(
+      rows.flatMap((row) => {
+        const normalized = row.phone ? normalizeDialNumber(row.phone) : null;
+        return normalized ? [normalized] : [];
+      }),
+    );
+    return new Set(
+      targets
+        .filter(
+          (target) =>
+            (!!target.contactId && ids.has(target.contactId)) ||
+            numbers.has(normalizeDialNumber(target.phone) ?? target.phone),
+        )
+        .map((target) => target.phone),
+    );
+  },
+});
@@ -6,9 +6,12 @@ import {
   createEffectDialerApplication,
 } from '../application';
 import type { createCallOperationsApplication } from '../call-operations/application';
+import type { createLiveCoachingApplication } from '../call-operations/live-coaching';
 import type { CommercialRouteDependencies } from '../routes/commercial';
 import type {
+  DialerRecordingApplication,
   DialerServerDependencies,
+  DialerSupervisionApplication,
   DialerTransferApplication,
 } from '../contracts';
 import { runApplicationEffect } from '../effect-runner';
@@ -18,6 +21,7 @@ import {
 } from '../lead-connector-application';
 import { createBearerAuthenticator, type BearerIdentity } from './auth';
 import { createEmbedSessionService } from './embed-session';
+import { createTelnyxSignatureVerifier } from './telnyx-signature';
 import { createTwilioSignatureVerifier } from './twilio-signature';
 
 export type DialerServerEnvironment = Record<string, string | undefined>;
@@ -34,12 +38,24 @@ type RuntimeModule = {
   ) =>
     | Promise<ReturnType<typeof createCallOperationsApplication>>
     | ReturnType<typeof createCallOperationsApplication>;
+  createLiveCoachingApplicationRuntime?: (
+    environment: DialerServerEnvironment,
+  ) =>
+    | Promise<ReturnType<typeof createLiveCoachingApplication> | undefined>
+    | ReturnType<typeof createLiveCoachingApplication>
+    | undefined;
   createCommercialApplicationRuntime?: (
     environment: DialerServerEnvironment,
   ) => Promise<CommercialRouteDependencies> | CommercialRouteDependencies;
   createTransferApplicationRuntime?: (
     environment: DialerServerEnvironment,
   ) => Promise<DialerTransferApplication> | DialerTransferApplication;
+  createSupervisionApplicationRuntime?: (
+    environment: DialerServerEnvironment,
+  ) => Promise<DialerSupervisionApplication> | DialerSupervisionApplication;
+  createRecordingApplicationRuntime?: (
+    environment: DialerServerEnvironment,
+  ) => Promise<DialerRecordingApplication> | DialerRecordingApplication;
 };
 
 export type DialerServerRuntimeConfig = {
@@ -95,6 +111,14 @@ export async function loadDialerServerRuntime(
     const callOperations = imported.createCallOperationsApplicationRuntime
       ? await imported.createCallOperationsApplicationRuntime(environment)
       : undefined;
+    const liveCoaching = imported.createLiveCoachingApplicationRuntime
+      ? await imported.createLiveCoachingApplicationRuntime(environment)
+      : undefined;
+    if (liveCoaching) callOperations?.onTranscript(liveCoaching);
+    const recordings = imported.createRecordingApplicationRuntime
+      ? await imported.createRecordingApplicationRuntime(environment)
+      : undefined;
+    if (recordings) callOperations?.onTranscript(recordings);
     const commercialEnabled =
       environment.DIALER_COMMERCIAL_ENABLED?.trim().toLowerCase() === 'true';
     if (commercialEnabled && !imported.createCommercialApplicationRuntime) {
@@ -108,6 +132,9 @@ export async function loadDialerServerRuntime(
     const transfers = imported.createTransferApplicationRuntime
       ? await imported.createTransferApplicationRuntime(environment)
       : undefined;
+    const supervision = imported.createSupervisionApplicationRuntime
+      ? await imported.createSupervisionApplicationRuntime(environment)
+      : undefined;
     const leadConnectorLayer = imported.createLeadConnectorApplicationLayer
       ? await imported.createLeadConnectorApplicationLayer(environment)
       : null;
@@ -172,14 +199,24 @@ export async function loadDialerServerRuntime(
             )
           : createEffectDialerApplication(layers),
         callOperations,
+        liveCoaching,
         commercial,
         transfers,
+        supervision,
+        recordings,
         authenticate,
         issueEmbedSession: embedSessions.issue,
         leadConnector,
         verifyTwilioSignature: createTwilioSignatureVerifier(
           required(environment, 'TWILIO_AUTH_TOKEN'),
         ),
+        ...(environment.TELNYX_PUBLIC_KEY?.trim()
+          ? {
+              verifyTelnyxSignature: createTelnyxSignatureVerifier(
+                environment.TELNYX_PUBLIC_KEY,
+              ),
+            }
+          : {}),
         issueVoiceToken: (identity) => voiceDialer.getToken(identity.userId),
       },
     };
@@ -18,6 +18,7 @@ import { recordLeadConnectorAttemptTelemetry } from './lead-connector-learning';
 import {
   createRailwayDialerApplicationLayers,
   createRailwayLeadConnectorApplicationLayer,
+  createRailwayRecordingApplication,
   selectProviderDialerForGroup,
 } from './railway';
 
@@ -154,6 +155,11 @@ const environment = {
   LEADCONNECTOR_SCOPES: 'contacts.readonly,opportunities.readonly',
   LEADCONNECTOR_TOKEN_ENCRYPTION_KEY: 'lead-connector-token-encryption-fixture',
   LEADCONNECTOR_SHARED_SECRET: 'lead-connector-shared-secret-fixture',
+  // fictional 555 targets have no area-code zone; an all-day window keeps
+  // the composition tests independent of the wall clock
+  DIALER_LOCAL_TIMEZONE: 'UTC',
+  DIALER_CALLING_WINDOW_START_HOUR: '0',
+  DIALER_CALLING_WINDOW_END_HOUR: '24',
 };
 
 const completedTelemetryRecord: ParallelTelemetryRecord = {
@@ -191,7 +197,13 @@ const completedTelemetryRecord: ParallelTelemetryRecord = {
     resolverReason: 'test',
     cleanupFailures: [],
   },
-  telemetry: { winnerRate: 1, wastedLegs: 0, connectLatencyMs: 5_000 },
+  telemetry: {
+    winnerRate: 1,
+    wastedLegs: 0,
+    connectLatencyMs: 5_000,
+    humanAnswers: 1,
+    abandonedLegs: 0,
+  },
   success: true,
 };
 
@@ -419,4 +431,21 @@ describe('Railway dialer-server runtime composition', () => {
       calls: [{ contactId: 'contact-1', status: 'mocked' }],
     });
   });
+
+  it('keeps sweeping pending recordings after boot', async () => {
+    let sweeps = 0;
+    const database: LeadConnectorDatabase = {
+      query: async <T>(text: string) => {
+        if (text.includes('FROM dialer_call_sessions AS sessions')) sweeps += 1;
+        return { rows: [] as T[] };
+      },
+    };
+    await createRailwayRecordingApplication(
+      { ...environment, DIALER_RECORDING_SWEEP_INTERVAL_MS: '5' },
+      { database },
+    );
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(sweeps).toBeGreaterThan(1);
+  });
 });
@@ -9,10 +9,14 @@ import {
   DialerInfrastructureError,
   DialerRequestError,
   DialerTargetRepository,
+  InMemoryComplianceStore,
   ParallelCompatibilityRuntime,
   RedisLockStore,
   RedisParallelStore,
+  createDialerComplianceLayer,
+  liveDialerClockLayer,
   type CallableTarget,
+  type ComplianceStore,
   type DialerCallRepositoryService,
   type DialerCallRuntimeService,
   type DialerTargetRepositoryService,
@@ -34,17 +38,40 @@ import {
   type LeadConnectorCache,
   type LeadConnectorDatabase,
 } from '@consuelo/lead-connector';
+import {
+  AnthropicProvider,
+  GroqProvider,
+  OpenAIProvider,
+  PlaybookService,
+} from '@consuelo/coaching';
 import { Effect, Layer } from 'effect';
 import type StripeSdk from 'stripe';
 
 import type { DialerApplicationLayers } from '../application';
 import { createStripeCommercialBilling } from '../billing/stripe';
 import { createCallOperationsApplication } from '../call-operations/application';
+import { createLiveCoachingApplication } from '../call-operations/live-coaching';
+import {
+  createOpenAIEmbedFn,
+  createPostgresPlaybookStore,
+  createPostgresPlaybookVectorStore,
+  initializePlaybookPersistence,
+} from '../call-operations/playbook';
 import { createCommercialApplication } from '../commercial/application';
 import { initializeCommercialPersistence } from '../commercial/persistence';
 import { createTwilioCommercialNumberProvider } from '../numbers/commercial-provider';
 import { createTransferApplication } from '../transfers/application';
-import { createPostgresTransferRepository } from '../transfers/persistence';
+import {
+  createPostgresTransferQueueRepository,
+  createPostgresTransferRepository,
+} from '../transfers/persistence';
+import { createSupervisionApplication } from '../supervision/application';
+import { createPostgresSupervisionRepository } from '../supervision/persistence';
+import { createRecordingApplication } from '../recordings/application';
+import {
+  createPostgresRecordingRepository,
+  initializeRecordingPersistence,
+} from '../recordings/persistence';
 import { createGroqSpeechToTextProvider } from '../call-operations/groq';
 import {
   createPostgresCallOperationsRepository,
@@ -62,6 +89,7 @@ import {
   recordLeadConnectorAttemptTelemetry,
 } from './lead-connector-learning';
 import { rankPredictiveLeadConnectorTargets } from './predictive-target-ranking';
+import { createPostgresComplianceStore } from './compliance';
 
 import { normalizeAsyncError } from '../errors/normalize-async-error';
 
@@ -401,6 +429,97 @@ export const createRailwayCallOperationsApplication = async (
   }
 };
 
+const COACHING_PROVIDERS = {
+  groq: { create: GroqProvider, apiKeyVariable: 'GROQ_API_KEY' },
+  openai: { create: OpenAIProvider, apiKeyVariable: 'OPENAI_API_KEY' },
+  anthropic: { create: AnthropicProvider, apiKeyVariable: 'ANTHROPIC_API_KEY' },
+} as const;
+
+// playbook context is opt-in because it needs pgvector and an embedding key
+const createRailwayPlaybook = async (
+  environment: RailwayEnvironment,
+  resources: RailwayRuntimeResources,
+) => {
+  if (
+    environment.DIALER_COACHING_PLAYBOOK_ENABLED?.trim().toLowerCase() !==
+    'true'
+  ) {
+    return undefined;
+  }
+  const database =
+    resources.database ?? (await createSharedResources(environment)).database;
+  await initializePlaybookPersistence(database);
+  const embeddingModel =
+    environment.PLAYBOOK_EMBEDDING_MODEL?.trim() || 'text-embedding-3-small';
+  return new PlaybookService(
+    createPostgresPlaybookVectorStore(database, { embeddingModel }),
+    createOpenAIEmbedFn({
+      apiKey:
+        environment.PLAYBOOK_EMBEDDING_API_KEY?.trim() ||
+        required(environment, 'OPENAI_API_KEY'),
+      model: embeddingModel,
+      baseUrl: environment.PLAYBOOK_EMBEDDING_BASE_URL?.trim() || undefined,
+    }),
+    undefined,
+    createPostgresPlaybookStore(database),
+  );
+};
+
+export const createRailwayLiveCoachingApplication = async (
+  environment: RailwayEnvironment,
+  resources: RailwayRuntimeResources = {},
+) => {
+  try {
+    if (
+      environment.DIALER_LIVE_COACHING_ENABLED?.trim().toLowerCase() !== 'true'
+    ) {
+      return undefined;
+    }
+    const providerName = environment.COACHING_PROVIDER?.trim() || 'groq';
+    if (!(providerName in COACHING_PROVIDERS)) {
+      throw new Error('COACHING_PROVIDER must be groq, openai, or anthropic');
+    }
+    const provider =
+      COACHING_PROVIDERS[providerName as keyof typeof COACHING_PROVIDERS];
+    const model = environment.COACHING_MODEL?.trim();
+    const playbook = await createRailwayPlaybook(environment, resources);
+    return createLiveCoachingApplication({
+      coachingProvider: new provider.create({
+        apiKey:
+          environment.COACHING_API_KEY?.trim() ||
+          required(environment, provider.apiKeyVariable),
+        ...(model ? { model } : {}),
+      }),
+      ...(playbook ? { playbook } : {}),
+      config: {
+        debounceMs: positiveInteger(
+          environment,
+          'DIALER_COACHING_DEBOUNCE_MS',
+          1_500,
+        ),
+        maxRecentSegments: positiveInteger(
+          environment,
+          'DIALER_COACHING_MAX_SEGMENTS',
+          30,
+        ),
+        contextChunks: 3,
+        maxSessions: positiveInteger(
+          environment,
+          'DIALER_TRANSCRIPTION_MAX_SESSIONS',
+          100,
+        ),
+        idleTimeoutMs: positiveInteger(
+          environment,
+          'DIALER_COACHING_IDLE_TIMEOUT_MS',
+          600_000,
+        ),
+      },
+    });
+  } catch (cause: unknown) {
+    throw new Error('Live coaching runtime composition failed', { cause });
+  }
+};
+
 export const createRailwayCommercialApplication = async (
   environment: RailwayEnvironment,
   resources: RailwayRuntimeResources = {},
@@ -647,6 +766,7 @@ const safeNumbers = (
 const createDialerRuntime = (
   environment: RailwayEnvironment,
   redis: RailwayRedisClient,
+  database: LeadConnectorDatabase | null,
 ) => {
   const publicUrl = required(environment, 'DIALER_SERVER_PUBLIC_URL').replace(
     /\/$/,
@@ -668,6 +788,18 @@ const createDialerRuntime = (
     new RedisLockStore(required(environment, 'REDIS_URL')),
   );
   liveDialer.withCallerIdLock(lockService);
+  const compliancePolicy = {
+    callingWindow: {
+      startHour: Number(environment.DIALER_CALLING_WINDOW_START_HOUR ?? '8'),
+      endHour: Number(environment.DIALER_CALLING_WINDOW_END_HOUR ?? '21'),
+    },
+    fallbackTimezone: environment.DIALER_LOCAL_TIMEZONE ?? null,
+  };
+  // without a database only quiet hours can be enforced
+  const compliance: ComplianceStore = database
+    ? createPostgresComplianceStore(database, compliancePolicy)
+    : new InMemoryComplianceStore(compliancePolicy);
+  liveDialer.withCompliance(compliance);
   const testDialer =
     environment.TWILIO_TEST_ACCOUNT_SID && environment.TWILIO_TEST_AUTH_TOKEN
       ? new Dialer(
@@ -682,7 +814,15 @@ const createDialerRuntime = (
         )
       : null;
   testDialer?.withCallerIdLock(lockService);
-  return { publicUrl, liveDialer, testDialer, lockService, parallelStore };
+  testDialer?.withCompliance(compliance);
+  return {
+    publicUrl,
+    liveDialer,
+    testDialer,
+    lockService,
+    parallelStore,
+    compliance,
+  };
 };
 
 type ProviderDialerSelectionRuntime = Pick<
@@ -739,7 +879,7 @@ export const createRailwayTransferApplication = async (
     const database = resources.database ?? shared!.database;
     const redis = resources.redis ?? shared!.redis;
     await initializeCallOperationsPersistence(database);
-    const runtime = createDialerRuntime(environment, redis);
+    const runtime = createDialerRuntime(environment, redis, database);
     const repository = createPostgresTransferRepository(database);
     const publicUrl = required(environment, 'DIALER_SERVER_PUBLIC_URL');
     if (!publicUrl.startsWith('https://')) {
@@ -753,14 +893,116 @@ export const createRailwayTransferApplication = async (
       selectDialer: (groupId) =>
         selectProviderDialerForGroup(runtime, groupId),
       repository,
+      queues: createPostgresTransferQueueRepository(database),
       publicUrl,
       generateId: () => 'transfer_' + randomUUID(),
+      generateDirectoryId: () => 'transfer_directory_' + randomUUID(),
     });
   } catch (cause: unknown) {
     throw new Error('Transfer runtime composition failed', { cause });
   }
 };
 
+export const createRailwaySupervisionApplication = async (
+  environment: RailwayEnvironment,
+  resources: RailwayRuntimeResources = {},
+) => {
+  try {
+    const shared = resources.database && resources.redis
+      ? null
+      : await createSharedResources(environment);
+    const database = resources.database ?? shared!.database;
+    const redis = resources.redis ?? shared!.redis;
+    await initializeCallOperationsPersistence(database);
+    const runtime = createDialerRuntime(environment, redis, database);
+    return createSupervisionApplication({
+      loadGroup: (groupId, workspaceId) =>
+        selectProviderDialerForGroup(runtime, groupId).then((dialer) =>
+          dialer.parallel.getGroupForWorkspace(groupId, workspaceId),
+        ),
+      selectDialer: (groupId) =>
+        selectProviderDialerForGroup(runtime, groupId),
+      repository: createPostgresSupervisionRepository(database),
+      generateId: () => 'supervision_' + randomUUID(),
+    });
+  } catch (cause: unknown) {
+    throw new Error('Supervision runtime composition failed', { cause });
+  }
+};
+
+export const createRailwayRecordingApplication = async (
+  environment: RailwayEnvironment,
+  resources: RailwayRuntimeResources = {},
+) => {
+  try {
+    const shared = resources.database
+      ? null
+      : await createSharedResources(environment);
+    const database = resources.database ?? shared!.database;
+    await initializeCallOperationsPersistence(database);
+    await initializeRecordingPersistence(database);
+    const dialer = new Dialer({
+      credentials: resolveTwilioProviderCredentials(environment, 'live'),
+    });
+    const application = createRecordingApplication({
+      repository: createPostgresRecordingRepository(database),
+      provider: {
+        downloadRecording: (recordingSid) =>
+          dialer.downloadRecording(recordingSid),
+        deleteRecording: (recordingSid) => dialer.deleteRecording(recordingSid),
+      },
+      config: {
+        paddingMs: positiveInteger(
+          environment,
+          'DIALER_RECORDING_REDACTION_PADDING_MS',
+          1_500,
+        ),
+        batchSize: 25,
+      },
+      reportFailure: (operation, error) =>
+        writeRuntimeEvent({
+          event: 'dialer.recording.redaction_failed',
+          operation,
+          message: error instanceof Error ? error.message : String(error),
+        }),
+    });
+    const sweepIntervalMs = positiveInteger(
+      environment,
+      'DIALER_RECORDING_SWEEP_INTERVAL_MS',
+      60_000,
+    );
+    let sweeping = false;
+    const sweep = () => {
+      // a slow batch must not overlap the next tick
+      if (sweeping) return;
+      sweeping = true;
+      void Effect.runPromise(application.sweep())
+        .then(
+          ({ redacted, discarded }) => {
+            if (redacted > 0 || discarded > 0) {
+              writeRuntimeEvent({
+                event: 'dialer.recording.swept',
+                redacted,
+                discarded,
+              });
+            }
+          },
+          () => undefined,
+        )
+        .finally(() => {
+          sweeping = false;
+        });
+    };
+    // recordings left over from a restart are picked up without delaying boot,
+    // and retention deletes come due while the server is running
+    sweep();
+    setInterval(sweep, sweepIntervalMs).unref();
+    return application;
+  } catch (cause: unknown) {
+    throw new Error('Recording runtime composition failed', { cause });
+  }
+};
+
 export const createRailwayDialerApplicationLayers = async (
   environment: RailwayEnvironment,
   resources: RailwayRuntimeResources = {},
@@ -774,7 +1016,7 @@ export const createRailwayDialerApplicationLayers = async (
     if (database) {
       await migrateDialerDatabase(database);
     }
-    const runtime = createDialerRuntime(environment, redis);
+    const runtime = createDialerRuntime(environment, redis, database);
     const publicUrl = required(environment, 'DIALER_SERVER_PUBLIC_URL').replace(
       /\/$/,
       '',
@@ -1261,6 +1503,8 @@ export const createRailwayDialerApplicationLayers = async (
           generateParallelGroupId: Effect.sync(() => `pg_${randomUUID()}`),
           generateDialerSessionId: Effect.sync(() => `session_${randomUUID()}`),
         }),
+        createDialerComplianceLayer(runtime.compliance),
+        liveDialerClockLayer,
       ),
       parallelLayer: Layer.succeed(ParallelCompatibilityRuntime, parallel),
     };
@@ -1275,7 +1519,13 @@ export const createLeadConnectorApplicationLayer =
   createRailwayLeadConnectorApplicationLayer;
 export const createCallOperationsApplicationRuntime =
   createRailwayCallOperationsApplication;
+export const createLiveCoachingApplicationRuntime =
+  createRailwayLiveCoachingApplication;
 export const createCommercialApplicationRuntime =
   createRailwayCommercialApplication;
 export const createTransferApplicationRuntime =
   createRailwayTransferApplication;
+export const createSupervisionApplicationRuntime =
+  createRailwaySupervisionApplication;
+export const createRecordingApplicationRuntime =
+  createRailwayRecordingApplication;
@@ -0,0 +1,50 @@
+import { createPublicKey, verify } from 'node:crypto';
+
+import type { TelnyxSignatureInput } from '../contracts';
+
+// DER prefix that wraps a raw 32-byte Ed25519 key as SubjectPublicKeyInfo
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Verify Telnyx webhooks against the account's Ed25519 public key (base64, as
+ * shown in the Mission Control portal). Timestamps outside the tolerance are
+ * rejected so a captured webhook can't be replayed later.
+ */
+export const createTelnyxSignatureVerifier = (
+  publicKey: string,
+  options: { toleranceSeconds?: number; now?: () => number } = {},
+) => {
+  const raw = Buffer.from(publicKey.trim(), 'base64');
+  if (raw.length !== 32) {
+    throw new Error('TELNYX_PUBLIC_KEY must be a base64 Ed25519 public key');
+  }
+  const key = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, raw]),
+    format: 'der',
+    type: 'spki',
+  });
+  const toleranceSeconds = options.toleranceSeconds ?? 300;
+  const now = options.now ?? Date.now;
+
+  return async (input: TelnyxSignatureInput): Promise<boolean> => {
+    const timestamp = Number(input.timestamp);
+    if (
+      !Number.isInteger(timestamp) ||
+      Math.abs(now() / 1_000 - timestamp) > toleranceSeconds
+    ) {
+      return false;
+    }
+    try {
+      return verify(
+        null,
+        Buffer.from(`${input.timestamp}|${input.rawBody}`),
+        key,
+        Buffer.from(input.signature, 'base64'),
+      );
+    } catch (error: unknown) {
+      throw new Error('Telnyx signature verification failed', {
+        cause: error,
+      });
+    }
+  };
+};
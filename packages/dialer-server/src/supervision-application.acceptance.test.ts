@@ -0,0 +1,302 @@
+import { describe, expect, it, mock } from 'bun:test';
+import type {
+  ParallelGroup,
+  SupervisionMode,
+  SupervisionOptions,
+  SupervisionResult,
+} from '@consuelo/dialer';
+import { Effect } from 'effect';
+
+import {
+  createSupervisionApplication,
+  type PersistedSupervision,
+  type SupervisionRepository,
+} from './supervision/application';
+
+const group: ParallelGroup = {
+  groupId: 'group-one',
+  dialerSessionId: 'session-one',
+  conferenceName: 'conference-one',
+  status: 'connected' as const,
+  winnerSid: 'CA_customer',
+  calls: [
+    {
+      callSid: 'CA_customer',
+      customerNumber: '+15550100001',
+      fromNumber: '+15550100002',
+      position: 1,
+      status: 'in-progress' as const,
+      dialStartedAt: '2026-08-04T00:00:00.000Z',
+    },
+  ],
+  workspaceId: 'workspace-one',
+  queueId: 'queue-one',
+  userId: 'rep-one',
+  createdAt: '2026-08-04T00:00:00.000Z',
+  profile: {
+    id: 'balanced',
+    fanout: 1,
+    staggerMs: 0,
+    amdPolicy: 'human-only' as const,
+    terminationPolicy: 'winner-take-all' as const,
+  },
+  resolverReason: 'test',
+  cleanupFailures: [],
+};
+
+const activeSupervision: PersistedSupervision = {
+  workspaceId: 'workspace-one',
+  sessionId: 'session-one',
+  supervisionId: 'supervision-one',
+  groupId: 'group-one',
+  supervisorUserId: 'manager-one',
+  agentUserId: 'rep-one',
+  mode: 'listen',
+  status: 'active',
+  conferenceSid: 'CF_one',
+  supervisorCallSid: 'CA_supervisor',
+};
+
+const manager = {
+  workspaceId: 'workspace-one',
+  userId: 'manager-one',
+  role: 'manager',
+  sessionId: 'group-one',
+};
+
+const createRuntime = (loaded: ParallelGroup | null = group) => {
+  const events: Array<Record<string, unknown>> = [];
+  const addSupervisor = mock<(options: SupervisionOptions) => Promise<SupervisionResult>>(
+    async (options) => ({
+      success: true,
+      supervisorCallSid: 'CA_supervisor',
+      conferenceSid: 'CF_one',
+      mode: options.mode,
+    }),
+  );
+  const setSupervisorMode = mock<
+    (
+      conferenceSid: string,
+      supervisorCallSid: string,
+      mode: SupervisionMode,
+      agentCallSid: string,
+    ) => Promise<SupervisionResult>
+  >(async (conferenceSid, supervisorCallSid, mode) => ({
+    success: true,
+    supervisorCallSid,
+    conferenceSid,
+    mode,
+  }));
+  const removeParticipant = mock(async () => undefined);
+  const dialer = {
+    findConferenceSid: mock(async () => 'CF_one'),
+    listParticipants: mock(async () => [
+      {
+        callSid: 'CA_agent',
+        conferenceSid: 'CF_one',
+        label: 'agent',
+        hold: false,
+        muted: false,
+        status: 'connected',
+      },
+      {
+        callSid: 'CA_customer',
+        conferenceSid: 'CF_one',
+        label: 'customer',
+        hold: false,
+        muted: false,
+        status: 'connected',
+      },
+      {
+        callSid: 'CA_supervisor',
+        conferenceSid: 'CF_one',
+        label: 'supervisor',
+        hold: false,
+        muted: true,
+        status: 'connected',
+      },
+    ]),
+    addSupervisor,
+    setSupervisorMode,
+    removeParticipant,
+  };
+  const repository = {
+    recordEvent: mock(async (event: Record<string, unknown>) => {
+      events.push(event);
+    }),
+    getSupervision: mock<SupervisionRepository['getSupervision']>(
+      async () => activeSupervision,
+    ),
+  };
+  const application = createSupervisionApplication({
+    loadGroup: mock(async () => loaded),
+    selectDialer: mock(async () => dialer),
+    repository,
+    generateId: () => 'supervision-one',
+  });
+  return {
+    application,
+    dialer,
+    repository,
+    events,
+    addSupervisor,
+    setSupervisorMode,
+    removeParticipant,
+  };
+};
+
+describe('call supervision application', () => {
+  it('dials the manager into the live conference against the server-resolved agent leg and records the start', async () => {
+    const runtime = createRuntime();
+    const result = await Effect.runPromise(
+      runtime.application.start({ ...manager, mode: 'whisper' }),
+    );
+
+    expect(result).toEqual({
+      success: true,
+      supervisionId: 'supervision-one',
+      mode: 'whisper',
+      status: 'active',
+      supervisorCallSid: 'CA_supervisor',
+      conferenceSid: 'CF_one',
+    });
+    expect(runtime.addSupervisor).toHaveBeenCalledWith({
+      conferenceName: 'conference-one',
+      agentCallSid: 'CA_agent',
+      to: 'client:user_manager-one',
+      from: '+15550100002',
+      mode: 'whisper',
+    });
+    expect(runtime.events).toEqual([
+      {
+        id: 'supervision-one:supervision_started',
+        workspaceId: 'workspace-one',
+        sessionId: 'session-one',
+        supervisionId: 'supervision-one',
+        groupId: 'group-one',
+        supervisorUserId: 'manager-one',
+        agentUserId: 'rep-one',
+        mode: 'whisper',
+        status: 'active',
+        conferenceSid: 'CF_one',
+        supervisorCallSid: 'CA_supervisor',
+        eventType: 'supervision_started',
+      },
+    ]);
+  });
+
+  it('records provider failure on start without inventing an active supervision', async () => {
+    const runtime = createRuntime();
+    runtime.addSupervisor.mockImplementation(async () => ({
+      success: false,
+      error: 'provider unavailable',
+    }));
+    const result = await Effect.runPromise(
+      runtime.application.start({ ...manager, mode: 'listen', to: '+15550100999' }),
+    );
+
+    expect(result).toEqual({
+      success: false,
+      supervisionId: 'supervision-one',
+      mode: 'listen',
+      status: 'failed',
+      conferenceSid: 'CF_one',
+      error: 'provider unavailable',
+    });
+    expect(runtime.addSupervisor.mock.calls[0]?.[0].to).toBe('+15550100999');
+    expect(runtime.events.map((event) => event.eventType)).toEqual([
+      'supervision_failed',
+    ]);
+  });
+
+  it('escalates listen to barge and records each mode change with the previous mode', async () => {
+    const runtime = createRuntime();
+    const result = await Effect.runPromise(
+      runtime.application.changeMode({
+        ...manager,
+        supervisionId: 'supervision-one',
+        mode: 'barge',
+      }),
+    );
+
+    expect(result).toMatchObject({ success: true, mode: 'barge', status: 'active' });
+    expect(runtime.setSupervisorMode).toHaveBeenCalledWith(
+      'CF_one',
+      'CA_supervisor',
+      'barge',
+      'CA_agent',
+    );
+    expect(runtime.events[0]).toMatchObject({
+      eventType: 'supervision_mode_changed',
+      mode: 'barge',
+      previousMode: 'listen',
+    });
+    expect(String(runtime.events[0]?.id)).toStartWith(
+      'supervision-one:supervision_mode_changed:',
+    );
+  });
+
+  it('removes the supervisor leg only while it is still in the conference and records the end', async () => {
+    const runtime = createRuntime();
+    const ended = await Effect.runPromise(
+      runtime.application.end({ ...manager, supervisionId: 'supervision-one' }),
+    );
+    expect(ended).toMatchObject({ success: true, status: 'ended' });
+    expect(runtime.removeParticipant).toHaveBeenCalledWith('CF_one', 'CA_supervisor');
+
+    const departed = createRuntime();
+    departed.dialer.listParticipants.mockImplementation(async () => []);
+    await Effect.runPromise(
+      departed.application.end({ ...manager, supervisionId: 'supervision-one' }),
+    );
+    expect(departed.removeParticipant).not.toHaveBeenCalled();
+    expect(departed.events.map((event) => event.eventType)).toEqual([
+      'supervision_ended',
+    ]);
+  });
+
+  it('rejects non-manager roles, the rep themselves, other workspaces, and idle calls before provider operations', async () => {
+    const attempts = [
+      { loaded: group, command: { ...manager, role: 'user' } },
+      { loaded: group, command: { ...manager, role: undefined } },
+      { loaded: group, command: { ...manager, userId: 'rep-one' } },
+      { loaded: { ...group, workspaceId: 'other-workspace' }, command: manager },
+      { loaded: { ...group, status: 'completed' as const }, command: manager },
+      { loaded: null, command: manager },
+    ];
+    for (const { loaded, command } of attempts) {
+      const runtime = createRuntime(loaded);
+      await expect(
+        Effect.runPromise(runtime.application.start({ ...command, mode: 'listen' })),
+      ).rejects.toThrow();
+      expect(runtime.addSupervisor).not.toHaveBeenCalled();
+      expect(runtime.events).toEqual([]);
+    }
+  });
+
+  it('lets only the starting supervisor change or end an active supervision', async () => {
+    const runtime = createRuntime();
+    await expect(
+      Effect.runPromise(
+        runtime.application.changeMode({
+          ...manager,
+          userId: 'manager-two',
+          supervisionId: 'supervision-one',
+          mode: 'barge',
+        }),
+      ),
+    ).rejects.toThrow('another supervisor');
+
+    runtime.repository.getSupervision.mockImplementation(async () => ({
+      ...activeSupervision,
+      status: 'ended',
+    }));
+    await expect(
+      Effect.runPromise(
+        runtime.application.end({ ...manager, supervisionId: 'supervision-one' }),
+      ),
+    ).rejects.toThrow('active supervision');
+    expect(runtime.setSupervisorMode).not.toHaveBeenCalled();
+    expect(runtime.removeParticipant).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { DialerRequestError } from '@consuelo/dialer';
+import { Effect } from 'effect';
+import { Hono } from 'hono';
+
+import type { DialerServerDependencies } from './contracts';
+import { createCallSessionRoutes } from './routes/call-sessions';
+
+const identity = {
+  workspaceId: 'workspace-one',
+  userId: 'manager-one',
+  role: 'manager',
+};
+
+const supervision = {
+  success: true,
+  supervisionId: 'supervision-one',
+  mode: 'listen' as const,
+  status: 'active' as const,
+  supervisorCallSid: 'CA_supervisor',
+  conferenceSid: 'CF_one',
+};
+
+const boot = () => {
+  const start = mock((_input: unknown) => Effect.succeed(supervision));
+  const changeMode = mock((_input: unknown) =>
+    Effect.succeed({ ...supervision, mode: 'barge' as const }),
+  );
+  const end = mock((_input: unknown) =>
+    Effect.succeed({ ...supervision, status: 'ended' as const }),
+  );
+  const dependencies = {
+    application: {
+      startCallSession: () => Effect.die('unused'),
+      getCallSession: () => Effect.die('unused'),
+      terminateCallSession: () => Effect.die('unused'),
+      processTwilioStatus: () => Effect.die('unused'),
+      generateTwilioCustomerTwiml: () => Effect.die('unused'),
+      generateTwilioAgentTwiml: () => Effect.die('unused'),
+      markAgentReady: () => Effect.die('unused'),
+    },
+    supervision: { start, changeMode, end },
+    authenticate: async () => identity,
+    verifyTwilioSignature: async () => true,
+  } as unknown as DialerServerDependencies;
+  const app = new Hono<{ Variables: { identity: typeof identity } }>();
+  app.use('/v1/*', async (context, next) => {
+    context.set('identity', identity);
+    await next();
+  });
+  app.route('/', createCallSessionRoutes(dependencies));
+  return { app, start, changeMode, end };
+};
+
+const post = (body?: unknown) => ({
+  method: 'POST',
+  headers: { 'content-type': 'application/json' },
+  body: JSON.stringify(body ?? {}),
+});
+
+describe('call supervision HTTP routes', () => {
+  it('derives workspace, supervisor and role from the authenticated identity on start, mode change and end', async () => {
+    const { app, start, changeMode, end } = boot();
+    const attacker = {
+      workspaceId: 'attacker-workspace',
+      userId: 'attacker-user',
+      role: 'owner',
+      conferenceName: 'attacker-conference',
+    };
+    const started = await app.request(
+      '/v1/call-sessions/group-one/supervise',
+      post({ ...attacker, mode: 'listen' }),
+    );
+    const changed = await app.request(
+      '/v1/call-sessions/group-one/supervise/supervision-one/mode',
+      post({ ...attacker, mode: 'barge' }),
+    );
+    const ended = await app.request(
+      '/v1/call-sessions/group-one/supervise/supervision-one/end',
+      post(attacker),
+    );
+
+    expect([started.status, changed.status, ended.status]).toEqual([201, 200, 200]);
+    expect(await started.json()).toEqual(supervision);
+    expect(start).toHaveBeenCalledWith({
+      workspaceId: 'workspace-one',
+      userId: 'manager-one',
+      role: 'manager',
+      sessionId: 'group-one',
+      mode: 'listen',
+    });
+    expect(changeMode).toHaveBeenCalledWith({
+      workspaceId: 'workspace-one',
+      userId: 'manager-one',
+      role: 'manager',
+      sessionId: 'group-one',
+      supervisionId: 'supervision-one',
+      mode: 'barge',
+    });
+    expect(end).toHaveBeenCalledWith({
+      workspaceId: 'workspace-one',
+      userId: 'manager-one',
+      role: 'manager',
+      sessionId: 'group-one',
+      supervisionId: 'supervision-one',
+    });
+  });
+
+  it('rejects unknown modes and malformed phone targets before invoking the application', async () => {
+    const { app, start, changeMode } = boot();
+    const responses = await Promise.all([
+      app.request('/v1/call-sessions/group-one/supervise', post({ mode: 'spy' })),
+      app.request(
+        '/v1/call-sessions/group-one/supervise',
+        post({ mode: 'listen', to: 'not-a-number' }),
+      ),
+      app.request(
+        '/v1/call-sessions/group-one/supervise/supervision-one/mode',
+        post({}),
+      ),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([400, 400, 400]);
+    expect(await responses[0]!.json()).toMatchObject({
+      error: { code: 'INVALID_SUPERVISION_REQUEST' },
+    });
+    expect(start).not.toHaveBeenCalled();
+    expect(changeMode).not.toHaveBeenCalled();
+  });
+
+  it('surfaces role rejections from the application as typed request errors', async () => {
+    const { app, start } = boot();
+    start.mockImplementation(() =>
+      Effect.fail(
+        new DialerRequestError({
+          code: 'SUPERVISION_FORBIDDEN',
+          message: 'A manager role is required to supervise calls',
+          retryable: false,
+        }),
+      ) as never,
+    );
+    const response = await app.request(
+      '/v1/call-sessions/group-one/supervise',
+      post({ mode: 'whisper' }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: {
+        code: 'SUPERVISION_FORBIDDEN',
+        message: 'A manager role is required to supervise calls',
+        retryable: false,
+      },
+    });
+  });
+});
@@ -0,0 +1,398 @@
+import {
+  DialerInfrastructureError,
+  DialerRequestError,
+  type ConferenceParticipant,
+  type DialerApplicationError,
+  type ParallelGroup,
+  type SupervisionMode,
+  type SupervisionOptions,
+  type SupervisionResult,
+} from '@consuelo/dialer';
+import { Effect } from 'effect';
+
+import type {
+  DialerSupervisionApplication,
+  DialerSupervisionResult,
+  DialerSupervisionStatus,
+} from '../contracts';
+
+import { normalizeAsyncError } from '../errors/normalize-async-error';
+import { canSuperviseCalls } from '../teams/application';
+
+export type PersistedSupervision = {
+  workspaceId: string;
+  sessionId: string;
+  supervisionId: string;
+  groupId: string;
+  supervisorUserId: string;
+  agentUserId: string;
+  mode: SupervisionMode;
+  status: DialerSupervisionStatus;
+  conferenceSid: string | null;
+  supervisorCallSid: string | null;
+};
+
+export type SupervisionEventInput = PersistedSupervision & {
+  id: string;
+  eventType:
+    | 'supervision_started'
+    | 'supervision_mode_changed'
+    | 'supervision_ended'
+    | 'supervision_failed';
+  previousMode?: SupervisionMode;
+  error?: string;
+};
+
+export type SupervisionRepository = {
+  recordEvent: (input: SupervisionEventInput) => Promise<void>;
+  getSupervision: (input: {
+    workspaceId: string;
+    sessionId: string;
+    supervisionId: string;
+  }) => Promise<PersistedSupervision | null>;
+};
+
+export type SupervisionDialer = {
+  findConferenceSid: (conferenceName: string) => Promise<string | null>;
+  listParticipants: (
+    conferenceSid: string,
+  ) => Promise<ConferenceParticipant[]>;
+  addSupervisor: (options: SupervisionOptions) => Promise<SupervisionResult>;
+  setSupervisorMode: (
+    conferenceSid: string,
+    supervisorCallSid: string,
+    mode: SupervisionMode,
+    agentCallSid: string,
+  ) => Promise<SupervisionResult>;
+  removeParticipant: (
+    conferenceSid: string,
+    callSid: string,
+  ) => Promise<void>;
+};
+
+export type SupervisionApplicationInput = {
+  loadGroup: (
+    groupId: string,
+    workspaceId: string,
+  ) => Promise<ParallelGroup | null>;
+  selectDialer: (groupId: string) => Promise<SupervisionDialer>;
+  repository: SupervisionRepository;
+  generateId: () => string;
+};
+
+const requestError = (code: string, message: string): DialerRequestError =>
+  new DialerRequestError({ code, message, retryable: false });
+
+const infrastructureError = (
+  operation: string,
+  cause: unknown,
+): DialerInfrastructureError =>
+  new DialerInfrastructureError({
+    operation,
+    message: cause instanceof Error ? cause.message : String(cause),
+    retryable: true,
+    cause,
+  });
+
+const effect = <T>(operation: string, run: () => Promise<T>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (cause): DialerApplicationError =>
+      cause instanceof DialerRequestError
+        ? cause
+        : infrastructureError(operation, cause),
+  });
+
+const requireSupervisor = (input: { role?: string }): void => {
+  if (!canSuperviseCalls(input.role)) {
+    throw requestError(
+      'SUPERVISION_FORBIDDEN',
+      'A manager role is required to supervise calls',
+    );
+  }
+};
+
+const requireSupervisedGroup = (
+  group: ParallelGroup | null,
+  input: { workspaceId: string; userId: string },
+): ParallelGroup => {
+  if (!group || group.workspaceId !== input.workspaceId) {
+    throw requestError('CALL_SESSION_NOT_FOUND', 'Call session was not found');
+  }
+  if (group.userId === input.userId) {
+    throw requestError(
+      'SUPERVISION_SELF_FORBIDDEN',
+      'Supervisors cannot supervise their own call',
+    );
+  }
+  if (!group.dialerSessionId) {
+    throw requestError(
+      'CALL_HISTORY_SESSION_REQUIRED',
+      'Call session is not attached to durable history',
+    );
+  }
+  return group;
+};
+
+const requireConnected = (group: ParallelGroup): ParallelGroup => {
+  if (group.status !== 'connected' || !group.winnerSid) {
+    throw requestError(
+      'CALL_NOT_CONNECTED',
+      'A connected customer call is required to supervise',
+    );
+  }
+  return group;
+};
+
+const requireWinner = (group: ParallelGroup) => {
+  const winner = group.calls.find((call) => call.callSid === group.winnerSid);
+  if (!winner) {
+    throw requestError('WINNING_CALL_NOT_FOUND', 'Winning call leg was not found');
+  }
+  return winner;
+};
+
+const requireAgent = async (
+  dialer: SupervisionDialer,
+  conferenceSid: string,
+) => {
+  const participants = await dialer.listParticipants(conferenceSid);
+  const agent = participants.find((participant) => participant.label === 'agent');
+  if (!agent) {
+    throw requestError('AGENT_NOT_FOUND', 'Live agent participant was not found');
+  }
+  return agent;
+};
+
+const requireConference = async (
+  dialer: SupervisionDialer,
+  group: ParallelGroup,
+) => {
+  try {
+    const conferenceSid = await dialer.findConferenceSid(group.conferenceName);
+    if (!conferenceSid) {
+      throw requestError('CONFERENCE_NOT_FOUND', 'Live conference was not found');
+    }
+    const agent = await requireAgent(dialer, conferenceSid);
+    return { conferenceSid, agent };
+  } catch (cause: unknown) {
+    throw normalizeAsyncError(cause);
+  }
+};
+
+const requireActiveSupervision = async (
+  repository: SupervisionRepository,
+  group: ParallelGroup,
+  command: { workspaceId: string; userId: string; supervisionId: string },
+): Promise<PersistedSupervision> => {
+  const supervision = await repository.getSupervision({
+    workspaceId: command.workspaceId,
+    sessionId: group.dialerSessionId!,
+    supervisionId: command.supervisionId,
+  });
+  if (
+    !supervision ||
+    supervision.groupId !== group.groupId ||
+    supervision.status !== 'active' ||
+    !supervision.conferenceSid ||
+    !supervision.supervisorCallSid
+  ) {
+    throw requestError(
+      'SUPERVISION_NOT_FOUND',
+      'An active supervision was not found',
+    );
+  }
+  if (supervision.supervisorUserId !== command.userId) {
+    throw requestError(
+      'SUPERVISION_FORBIDDEN',
+      'Supervision belongs to another supervisor',
+    );
+  }
+  return supervision;
+};
+
+const record = (
+  repository: SupervisionRepository,
+  supervision: Omit<SupervisionEventInput, 'id'>,
+  suffix?: string,
+): Promise<void> =>
+  repository.recordEvent({
+    ...supervision,
+    id:
+      supervision.supervisionId +
+      ':' +
+      supervision.eventType +
+      (suffix ? ':' + suffix : ''),
+  });
+
+const publicResult = (
+  supervision: Pick<
+    PersistedSupervision,
+    'supervisionId' | 'mode' | 'status' | 'supervisorCallSid' | 'conferenceSid'
+  >,
+  error?: string,
+): DialerSupervisionResult => ({
+  success: supervision.status !== 'failed' && !error,
+  supervisionId: supervision.supervisionId,
+  mode: supervision.mode,
+  status: supervision.status,
+  ...(supervision.supervisorCallSid
+    ? { supervisorCallSid: supervision.supervisorCallSid }
+    : {}),
+  ...(supervision.conferenceSid
+    ? { conferenceSid: supervision.conferenceSid }
+    : {}),
+  ...(error ? { error } : {}),
+});
+
+/**
+ * Manager listen / whisper / barge on a rep's live conference. The supervisor
+ * joins from their browser client (or a phone number they supply) and every
+ * transition is written to the call session's event timeline.
+ */
+export const createSupervisionApplication = (
+  input: SupervisionApplicationInput,
+): DialerSupervisionApplication => ({
+  start: (command) =>
+    effect('start-supervision', async () => {
+      try {
+        requireSupervisor(command);
+        const group = requireConnected(
+          requireSupervisedGroup(
+            await input.loadGroup(command.sessionId, command.workspaceId),
+            command,
+          ),
+        );
+        const winner = requireWinner(group);
+        const dialer = await input.selectDialer(group.groupId);
+        const { conferenceSid, agent } = await requireConference(dialer, group);
+        const base: PersistedSupervision = {
+          workspaceId: command.workspaceId,
+          sessionId: group.dialerSessionId!,
+          supervisionId: input.generateId(),
+          groupId: group.groupId,
+          supervisorUserId: command.userId,
+          agentUserId: group.userId,
+          mode: command.mode,
+          status: 'active',
+          conferenceSid,
+          supervisorCallSid: null,
+        };
+        const provider = await dialer.addSupervisor({
+          conferenceName: group.conferenceName,
+          agentCallSid: agent.callSid,
+          to: command.to ?? 'client:user_' + command.userId,
+          from: winner.fromNumber,
+          mode: command.mode,
+        });
+        if (!provider.success || !provider.supervisorCallSid) {
+          const failed = { ...base, status: 'failed' as const };
+          const error = provider.error ?? 'Supervision failed';
+          await record(input.repository, {
+            ...failed,
+            eventType: 'supervision_failed',
+            error,
+          });
+          return publicResult(failed, error);
+        }
+        const started = {
+          ...base,
+          conferenceSid: provider.conferenceSid ?? conferenceSid,
+          supervisorCallSid: provider.supervisorCallSid,
+        };
+        await record(input.repository, {
+          ...started,
+          eventType: 'supervision_started',
+        });
+        return publicResult(started);
+      } catch (cause: unknown) {
+        throw normalizeAsyncError(cause);
+      }
+    }),
+  changeMode: (command) =>
+    effect('change-supervision-mode', async () => {
+      try {
+        requireSupervisor(command);
+        const group = requireConnected(
+          requireSupervisedGroup(
+            await input.loadGroup(command.sessionId, command.workspaceId),
+            command,
+          ),
+        );
+        const supervision = await requireActiveSupervision(
+          input.repository,
+          group,
+          command,
+        );
+        if (supervision.mode === command.mode) {
+          return publicResult(supervision);
+        }
+        const dialer = await input.selectDialer(group.groupId);
+        const agent = await requireAgent(dialer, supervision.conferenceSid!);
+        const provider = await dialer.setSupervisorMode(
+          supervision.conferenceSid!,
+          supervision.supervisorCallSid!,
+          command.mode,
+          agent.callSid,
+        );
+        if (!provider.success) {
+          return publicResult(
+            supervision,
+            provider.error ?? 'Supervisor mode change failed',
+          );
+        }
+        const changed = { ...supervision, mode: command.mode };
+        await record(
+          input.repository,
+          {
+            ...changed,
+            eventType: 'supervision_mode_changed',
+            previousMode: supervision.mode,
+          },
+          input.generateId(),
+        );
+        return publicResult(changed);
+      } catch (cause: unknown) {
+        throw normalizeAsyncError(cause);
+      }
+    }),
+  end: (command) =>
+    effect('end-supervision', async () => {
+      try {
+        requireSupervisor(command);
+        const group = requireSupervisedGroup(
+          await input.loadGroup(command.sessionId, command.workspaceId),
+          command,
+        );
+        const supervision = await requireActiveSupervision(
+          input.repository,
+          group,
+          command,
+        );
+        const dialer = await input.selectDialer(group.groupId);
+        // the supervisor may already have hung up or the call may have ended
+        const participants = await dialer.listParticipants(
+          supervision.conferenceSid!,
+        );
+        if (
+          participants.some(
+            (participant) =>
+              participant.callSid === supervision.supervisorCallSid,
+          )
+        ) {
+          await dialer.removeParticipant(
+            supervision.conferenceSid!,
+            supervision.supervisorCallSid!,
+          );
+        }
+        const ended = { ...supervision, status: 'ended' as const };
+        await record(input.repository, {
+          ...ended,
+          eventType: 'supervision_ended',
+        });
+        return publicResult(ended);
+      } catch (cause: unknown) {
+        throw normalizeAsyncError(cause);
+      }
+    }),
+});
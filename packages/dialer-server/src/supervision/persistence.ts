@@ -0,0 +1,111 @@
+import type {
+  PersistedSupervision,
+  SupervisionEventInput,
+  SupervisionRepository,
+} from './application';
+
+import { normalizeAsyncError } from '../errors/normalize-async-error';
+
+export type SupervisionDatabase = {
+  query: <TRow>(
+    text: string,
+    values?: readonly unknown[],
+  ) => Promise<{ rows: TRow[]; rowCount?: number | null }>;
+};
+
+type SupervisionRow = {
+  workspace_id: string;
+  session_id: string;
+  event_type: string;
+  metadata: unknown;
+};
+
+const record = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+
+const requiredString = (value: unknown, name: string): string => {
+  if (typeof value !== 'string' || !value) {
+    throw new Error('Invalid supervision metadata: ' + name);
+  }
+  return value;
+};
+
+const nullableString = (value: unknown): string | null =>
+  typeof value === 'string' && value ? value : null;
+
+const mapSupervision = (
+  row: SupervisionRow | undefined,
+): PersistedSupervision | null => {
+  if (!row) return null;
+  const metadata = record(row.metadata);
+  const mode = requiredString(metadata.mode, 'mode');
+  if (!['listen', 'whisper', 'barge'].includes(mode)) {
+    throw new Error('Invalid supervision metadata: mode');
+  }
+  const status = requiredString(metadata.status, 'status');
+  if (!['active', 'ended', 'failed'].includes(status)) {
+    throw new Error('Invalid supervision metadata: status');
+  }
+  return {
+    workspaceId: row.workspace_id,
+    sessionId: row.session_id,
+    supervisionId: requiredString(metadata.supervisionId, 'supervisionId'),
+    groupId: requiredString(metadata.groupId, 'groupId'),
+    supervisorUserId: requiredString(
+      metadata.supervisorUserId,
+      'supervisorUserId',
+    ),
+    agentUserId: requiredString(metadata.agentUserId, 'agentUserId'),
+    mode: mode as PersistedSupervision['mode'],
+    status: status as PersistedSupervision['status'],
+    conferenceSid: nullableString(metadata.conferenceSid),
+    supervisorCallSid: nullableString(metadata.supervisorCallSid),
+  };
+};
+
+const metadata = (input: SupervisionEventInput): Record<string, unknown> => ({
+  supervisionId: input.supervisionId,
+  groupId: input.groupId,
+  supervisorUserId: input.supervisorUserId,
+  agentUserId: input.agentUserId,
+  mode: input.mode,
+  status: input.status,
+  conferenceSid: input.conferenceSid,
+  supervisorCallSid: input.supervisorCallSid,
+  ...(input.previousMode ? { previousMode: input.previousMode } : {}),
+  ...(input.error ? { error: input.error } : {}),
+});
+
+export const createPostgresSupervisionRepository = (
+  database: SupervisionDatabase,
+): SupervisionRepository => ({
+  recordEvent: async (input) => {
+    try {
+      await database.query(
+        'INSERT INTO dialer_call_events (id, workspace_id, session_id, event_type, metadata) VALUES ($1, $2, $3, $4, $5::jsonb) ON CONFLICT (workspace_id, id) DO NOTHING',
+        [
+          input.id,
+          input.workspaceId,
+          input.sessionId,
+          input.eventType,
+          JSON.stringify(metadata(input)),
+        ],
+      );
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  getSupervision: async ({ workspaceId, sessionId, supervisionId }) => {
+    try {
+      const result = await database.query<SupervisionRow>(
+        "SELECT workspace_id, session_id, event_type, metadata FROM dialer_call_events WHERE workspace_id = $1 AND session_id = $2 AND metadata ->> 'supervisionId' = $3 ORDER BY created_at DESC, id DESC LIMIT 1",
+        [workspaceId, sessionId, supervisionId],
+      );
+      return mapSupervision(result.rows[0]);
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+});
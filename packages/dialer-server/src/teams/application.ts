@@ -1,6 +1,13 @@
 import type { DialerPlanCode } from '../plans/catalog';
 
 const ADMIN_ROLES = new Set(['owner', 'admin']);
+const SUPERVISOR_ROLES = new Set(['owner', 'admin', 'manager', 'supervisor']);
+
+export const canSuperviseCalls = (role: string | undefined): boolean =>
+  SUPERVISOR_ROLES.has((role ?? '').toLowerCase());
+
+export const canManageWorkspaceSettings = (role: string | undefined): boolean =>
+  ADMIN_ROLES.has((role ?? '').toLowerCase());
 
 export const authorizeCommercialAction = (input: {
   identity: { workspaceId: string; userId: string; role: string };
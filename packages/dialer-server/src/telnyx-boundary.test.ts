@@ -0,0 +1,147 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { Effect } from 'effect';
+
+import { createDialerServer } from './app';
+import type { DialerServerDependencies } from './contracts';
+import { createTelnyxSignatureVerifier } from './runtime/telnyx-signature';
+
+const createDependencies = (
+  overrides: Partial<DialerServerDependencies> = {},
+): DialerServerDependencies =>
+  ({
+    application: {
+      processTwilioStatus: mock(() =>
+        Effect.succeed({ received: true as const, groupId: 'group-1' }),
+      ),
+    },
+    authenticate: mock(async () => null),
+    verifyTwilioSignature: mock(async () => true),
+    verifyTelnyxSignature: mock(async () => true),
+    ...overrides,
+  }) as unknown as DialerServerDependencies;
+
+const post = (
+  dependencies: DialerServerDependencies,
+  body: string,
+  headers: Record<string, string> = {
+    'content-type': 'application/json',
+    'telnyx-signature-ed25519': 'signature',
+    'telnyx-timestamp': '1760000000',
+  },
+) =>
+  createDialerServer(dependencies).fetch(
+    new Request('http://internal.test/webhooks/telnyx/status', {
+      method: 'POST',
+      headers,
+      body,
+    }),
+  );
+
+const hangup = JSON.stringify({
+  data: {
+    event_type: 'call.hangup',
+    occurred_at: '2026-10-19T12:00:00.000Z',
+    payload: { call_control_id: 'v3:call-1', hangup_cause: 'user_busy' },
+  },
+});
+
+describe('Telnyx webhook boundary', () => {
+  it('verifies the raw body and applies normalized Call Control events', async () => {
+    const dependencies = createDependencies();
+    const response = await post(dependencies, hangup);
+
+    expect(response.status).toBe(200);
+    expect(dependencies.verifyTelnyxSignature).toHaveBeenCalledWith({
+      signature: 'signature',
+      timestamp: '1760000000',
+      rawBody: hangup,
+    });
+    expect(dependencies.application.processTwilioStatus).toHaveBeenCalledWith({
+      callSid: 'v3:call-1',
+      callStatus: 'busy',
+      answeredBy: undefined,
+    });
+  });
+
+  it('acknowledges events that carry no call status without applying them', async () => {
+    const dependencies = createDependencies();
+    const response = await post(
+      dependencies,
+      JSON.stringify({ data: { event_type: 'call.bridged', payload: {} } }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, groupId: null });
+    expect(dependencies.application.processTwilioStatus).not.toHaveBeenCalled();
+  });
+
+  it('rejects missing or invalid signatures before parsing', async () => {
+    const dependencies = createDependencies({
+      verifyTelnyxSignature: mock(async () => false),
+    });
+
+    expect(
+      (await post(dependencies, hangup, { 'content-type': 'application/json' }))
+        .status,
+    ).toBe(401);
+    expect((await post(dependencies, hangup)).status).toBe(401);
+    expect(dependencies.application.processTwilioStatus).not.toHaveBeenCalled();
+  });
+
+  it('is unavailable until a Telnyx public key is configured', async () => {
+    const dependencies = createDependencies({
+      verifyTelnyxSignature: undefined,
+    });
+
+    expect((await post(dependencies, hangup)).status).toBe(503);
+  });
+});
+
+describe('Telnyx signature verifier', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const rawKey = publicKey
+    .export({ format: 'der', type: 'spki' })
+    .subarray(-32)
+    .toString('base64');
+  const signed = (timestamp: string, rawBody: string) =>
+    sign(null, Buffer.from(`${timestamp}|${rawBody}`), privateKey).toString(
+      'base64',
+    );
+  const verify = createTelnyxSignatureVerifier(rawKey, {
+    now: () => 1_760_000_000_000,
+  });
+
+  it('accepts Ed25519 signatures over the timestamp and raw body', async () => {
+    expect(
+      await verify({
+        signature: signed('1760000000', hangup),
+        timestamp: '1760000000',
+        rawBody: hangup,
+      }),
+    ).toBe(true);
+  });
+
+  it('rejects tampered bodies and stale timestamps', async () => {
+    expect(
+      await verify({
+        signature: signed('1760000000', hangup),
+        timestamp: '1760000000',
+        rawBody: `${hangup} `,
+      }),
+    ).toBe(false);
+    expect(
+      await verify({
+        signature: signed('1759999000', hangup),
+        timestamp: '1759999000',
+        rawBody: hangup,
+      }),
+    ).toBe(false);
+  });
+
+  it('refuses keys that are not raw Ed25519 keys', () => {
+    expect(() => createTelnyxSignatureVerifier('bm90LWEta2V5')).toThrow(
+      'TELNYX_PUBLIC_KEY',
+    );
+  });
+});
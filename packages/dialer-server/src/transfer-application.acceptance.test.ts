@@ -4,6 +4,7 @@ import { Effect } from 'effect';
 
 import {
   createTransferApplication,
+  type TransferQueueRepository,
   type TransferRepository,
 } from './transfers/application';
 
@@ -96,18 +97,35 @@ const createRuntime = () => {
       transferCallSid: 'CA_transfer',
     })),
     getTransferById: mock<TransferRepository['getTransferById']>(async () => null),
+    getHoldMusicUrl: mock<TransferRepository['getHoldMusicUrl']>(async () => null),
+    setHoldMusicUrl: mock<TransferRepository['setHoldMusicUrl']>(async () => undefined),
+    listDirectory: mock<TransferRepository['listDirectory']>(async () => []),
+    getDirectoryEntry: mock<TransferRepository['getDirectoryEntry']>(async () => null),
+    saveDirectoryEntry: mock<TransferRepository['saveDirectoryEntry']>(async () => undefined),
+    removeDirectoryEntry: mock<TransferRepository['removeDirectoryEntry']>(async () => true),
+  };
+  const queues = {
+    hasQueue: mock<TransferQueueRepository['hasQueue']>(
+      async ({ queueId }) => queueId === 'queue-sales',
+    ),
+    claimNextMember: mock<TransferQueueRepository['claimNextMember']>(
+      async () => 'user-two',
+    ),
   };
   const application = createTransferApplication({
     loadGroup: mock(async () => group),
     selectDialer: mock(async () => dialer),
     repository,
+    queues,
     publicUrl: 'https://dialer.test',
     generateId: () => 'transfer-one',
+    generateDirectoryId: () => 'entry-one',
   });
   return {
     application,
     dialer,
     repository,
+    queues,
     events,
     initiateTransfer,
     completeTransfer,
@@ -342,6 +360,7 @@ describe('server-authoritative transfer application', () => {
         repository: runtime.repository,
         publicUrl: 'https://dialer.test',
         generateId: () => 'transfer-one',
+        generateDirectoryId: () => 'entry-one',
       });
       await expect(
         Effect.runPromise(
@@ -358,3 +377,346 @@ describe('server-authoritative transfer application', () => {
     }
   });
 });
+
+describe('consultation controls and transfer directory', () => {
+  const consultation = {
+    workspaceId: 'workspace-one',
+    sessionId: 'session-one',
+    transferId: 'transfer-one',
+    groupId: 'group-one',
+    type: 'warm' as const,
+    target: '+15550100111',
+    status: 'consulting' as const,
+    conferenceSid: 'CF_one',
+    transferCallSid: 'CA_transfer',
+    talkingTo: 'consultee' as const,
+  };
+  const participant = (callSid: string, label: string, hold: boolean) => ({
+    callSid,
+    conferenceSid: 'CF_one',
+    label,
+    hold,
+    muted: false,
+    status: 'connected',
+  });
+  const command = {
+    workspaceId: 'workspace-one',
+    userId: 'user-one',
+    sessionId: 'group-one',
+    transferId: 'transfer-one',
+  };
+
+  const consulting = (
+    state: Partial<typeof consultation> | Record<string, unknown> = {},
+  ) => {
+    const runtime = createRuntime();
+    runtime.repository.getTransfer.mockImplementation(
+      async () => ({ ...consultation, ...state }) as never,
+    );
+    runtime.repository.getHoldMusicUrl.mockImplementation(
+      async () => 'https://cdn.test/hold.mp3',
+    );
+    runtime.dialer.listParticipants.mockImplementation(async () => [
+      participant('CA_agent', 'agent', false),
+      participant('CA_customer', 'customer', true),
+      participant('CA_transfer', 'transfer-target', false),
+    ]);
+    return runtime;
+  };
+
+  it('rings the next team queue member and holds the customer on the workspace hold music', async () => {
+    const runtime = createRuntime();
+    runtime.repository.getDirectoryEntry.mockImplementation(async () => ({
+      entryId: 'entry-sales',
+      label: 'Sales team',
+      kind: 'queue',
+      to: null,
+      queueId: 'queue-sales',
+    }));
+    runtime.repository.getHoldMusicUrl.mockImplementation(
+      async () => 'https://cdn.test/hold.mp3',
+    );
+
+    await Effect.runPromise(
+      runtime.application.initiate({
+        workspaceId: 'workspace-one',
+        userId: 'user-one',
+        sessionId: 'group-one',
+        type: 'warm',
+        directoryEntryId: 'entry-sales',
+      }),
+    );
+
+    expect(runtime.repository.getDirectoryEntry).toHaveBeenCalledWith({
+      workspaceId: 'workspace-one',
+      entryId: 'entry-sales',
+    });
+    expect(runtime.queues.claimNextMember).toHaveBeenCalledWith({
+      workspaceId: 'workspace-one',
+      queueId: 'queue-sales',
+    });
+    expect(runtime.initiateTransfer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'client:user_user-two',
+        holdUrl: 'https://cdn.test/hold.mp3',
+      }),
+    );
+    expect(runtime.events[0]).toMatchObject({
+      target: 'client:user_user-two',
+      directoryEntryId: 'entry-sales',
+    });
+  });
+
+  it('refuses a team queue transfer when nobody in the queue is active', async () => {
+    const runtime = createRuntime();
+    runtime.repository.getDirectoryEntry.mockImplementation(async () => ({
+      entryId: 'entry-sales',
+      label: 'Sales team',
+      kind: 'queue',
+      to: null,
+      queueId: 'queue-sales',
+    }));
+    runtime.queues.claimNextMember.mockImplementation(async () => null);
+
+    await expect(
+      Effect.runPromise(
+        runtime.application.initiate({
+          workspaceId: 'workspace-one',
+          userId: 'user-one',
+          sessionId: 'group-one',
+          type: 'cold',
+          directoryEntryId: 'entry-sales',
+        }),
+      ),
+    ).rejects.toThrow('Nobody in the team queue');
+    expect(runtime.initiateTransfer).not.toHaveBeenCalled();
+  });
+
+  it('refuses an unknown directory entry before touching the provider', async () => {
+    const runtime = createRuntime();
+
+    await expect(
+      Effect.runPromise(
+        runtime.application.initiate({
+          workspaceId: 'workspace-one',
+          userId: 'user-one',
+          sessionId: 'group-one',
+          type: 'cold',
+          directoryEntryId: 'entry-missing',
+        }),
+      ),
+    ).rejects.toThrow('directory entry');
+    expect(runtime.initiateTransfer).not.toHaveBeenCalled();
+  });
+
+  it('toggles the representative between customer and consultee, holding the other party', async () => {
+    const runtime = consulting();
+
+    const result = await Effect.runPromise(
+      runtime.application.toggle({ ...command, talkTo: 'customer' }),
+    );
+
+    expect(result).toMatchObject({ status: 'consulting', talkingTo: 'customer' });
+    expect(runtime.holdParticipant.mock.calls).toEqual([
+      ['CF_one', 'CA_transfer', true, 'https://cdn.test/hold.mp3'],
+      ['CF_one', 'CA_customer', false],
+    ] as never);
+    expect(runtime.events.at(-1)).toMatchObject({
+      id: 'transfer-one:transfer_toggled:transfer-one',
+      eventType: 'transfer_toggled',
+      status: 'consulting',
+      talkingTo: 'customer',
+    });
+  });
+
+  it('leaves the call alone when the representative already hears that party', async () => {
+    const runtime = consulting();
+
+    const result = await Effect.runPromise(
+      runtime.application.toggle({ ...command, talkTo: 'consultee' }),
+    );
+
+    expect(result.talkingTo).toBe('consultee');
+    expect(runtime.holdParticipant).not.toHaveBeenCalled();
+    expect(runtime.events).toEqual([]);
+  });
+
+  it('merges everyone into a three-way call and can still hand the call off', async () => {
+    const runtime = consulting();
+
+    const merged = await Effect.runPromise(runtime.application.merge(command));
+
+    expect(merged).toMatchObject({ status: 'merged' });
+    expect(merged).not.toHaveProperty('talkingTo');
+    expect(runtime.holdParticipant.mock.calls).toEqual([
+      ['CF_one', 'CA_customer', false],
+    ] as never);
+    expect(runtime.events.at(-1)).toMatchObject({
+      eventType: 'transfer_merged',
+      status: 'merged',
+    });
+
+    runtime.repository.getTransfer.mockImplementation(
+      async () => ({ ...consultation, status: 'merged' }) as never,
+    );
+    const completed = await Effect.runPromise(
+      runtime.application.complete(command),
+    );
+    expect(completed.status).toBe('completed');
+    expect(runtime.completeTransfer).toHaveBeenCalledWith('CF_one', 'CA_agent');
+  });
+
+  it('rejects consultation controls once the consultee has left', async () => {
+    const runtime = consulting();
+    runtime.dialer.listParticipants.mockImplementation(async () => [
+      participant('CA_agent', 'agent', false),
+      participant('CA_customer', 'customer', true),
+    ]);
+
+    await expect(
+      Effect.runPromise(runtime.application.merge(command)),
+    ).rejects.toThrow('consultee has left');
+    expect(runtime.events).toEqual([]);
+  });
+
+  it('records who the representative hears when the consultee answers and closes a merged call quietly', async () => {
+    const runtime = createRuntime();
+    runtime.repository.getTransferById.mockImplementation(async () => ({
+      ...consultation,
+      status: 'initiating',
+      talkingTo: undefined,
+    }));
+
+    await expect(
+      Effect.runPromise(
+        runtime.application.processStatusCallback({
+          transferId: 'transfer-one',
+          callSid: 'CA_transfer',
+          callStatus: 'answered',
+        }),
+      ),
+    ).resolves.toEqual({ received: true, status: 'consulting' });
+    expect(runtime.events.at(-1)).toMatchObject({
+      eventType: 'transfer_consulting',
+      talkingTo: 'consultee',
+    });
+
+    runtime.repository.getTransferById.mockImplementation(async () => ({
+      ...consultation,
+      status: 'merged',
+    }));
+    runtime.dialer.listParticipants.mockImplementation(async () => [
+      participant('CA_agent', 'agent', false),
+      participant('CA_customer', 'customer', false),
+    ]);
+    await expect(
+      Effect.runPromise(
+        runtime.application.processStatusCallback({
+          transferId: 'transfer-one',
+          callSid: 'CA_transfer',
+          callStatus: 'completed',
+        }),
+      ),
+    ).resolves.toEqual({ received: true, status: 'cancelled' });
+    expect(runtime.events.at(-1)).toMatchObject({
+      eventType: 'transfer_cancelled',
+    });
+  });
+
+  it('lets only owners and admins manage the directory and hold music', async () => {
+    const runtime = createRuntime();
+
+    await expect(
+      Effect.runPromise(
+        runtime.application.saveDirectoryEntry({
+          workspaceId: 'workspace-one',
+          role: 'user',
+          label: 'Billing',
+          kind: 'external',
+          to: '+15550100333',
+        }),
+      ),
+    ).rejects.toThrow('owner or admin');
+    await expect(
+      Effect.runPromise(
+        runtime.application.saveDirectoryEntry({
+          workspaceId: 'workspace-one',
+          role: 'admin',
+          label: 'Sales team',
+          kind: 'queue',
+          to: '+15550100222',
+        }),
+      ),
+    ).rejects.toThrow('requires its queue');
+    await expect(
+      Effect.runPromise(
+        runtime.application.saveDirectoryEntry({
+          workspaceId: 'workspace-one',
+          role: 'admin',
+          label: 'Other team',
+          kind: 'queue',
+          queueId: 'queue-other',
+        }),
+      ),
+    ).rejects.toThrow('Team queue was not found');
+    await expect(
+      Effect.runPromise(
+        runtime.application.saveDirectoryEntry({
+          workspaceId: 'workspace-one',
+          role: 'admin',
+          label: 'Sales team',
+          kind: 'queue',
+          queueId: 'queue-sales',
+        }),
+      ),
+    ).resolves.toMatchObject({ kind: 'queue', to: null, queueId: 'queue-sales' });
+    expect(runtime.queues.hasQueue).toHaveBeenLastCalledWith({
+      workspaceId: 'workspace-one',
+      queueId: 'queue-sales',
+    });
+
+    const entry = await Effect.runPromise(
+      runtime.application.saveDirectoryEntry({
+        workspaceId: 'workspace-one',
+        role: 'admin',
+        label: 'Billing',
+        kind: 'external',
+        to: '+15550100333',
+      }),
+    );
+    expect(entry).toEqual({
+      entryId: 'entry-one',
+      label: 'Billing',
+      kind: 'external',
+      to: '+15550100333',
+      queueId: null,
+    });
+    expect(runtime.repository.saveDirectoryEntry).toHaveBeenCalledWith({
+      ...entry,
+      workspaceId: 'workspace-one',
+    });
+
+    await Effect.runPromise(
+      runtime.application.setHoldMusic({
+        workspaceId: 'workspace-one',
+        role: 'owner',
+        holdMusicUrl: 'https://cdn.test/hold.mp3',
+      }),
+    );
+    expect(runtime.repository.setHoldMusicUrl).toHaveBeenCalledWith({
+      workspaceId: 'workspace-one',
+      holdMusicUrl: 'https://cdn.test/hold.mp3',
+    });
+
+    runtime.repository.removeDirectoryEntry.mockImplementation(async () => false);
+    await expect(
+      Effect.runPromise(
+        runtime.application.removeDirectoryEntry({
+          workspaceId: 'workspace-one',
+          role: 'admin',
+          entryId: 'entry-missing',
+        }),
+      ),
+    ).rejects.toThrow('not found');
+  });
+});
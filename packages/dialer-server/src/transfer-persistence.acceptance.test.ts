@@ -1,6 +1,7 @@
 import { describe, expect, it, mock } from 'bun:test';
 
 import {
+  createPostgresTransferQueueRepository,
   createPostgresTransferRepository,
   type TransferDatabase,
 } from './transfers/persistence';
@@ -96,4 +97,144 @@ describe('transfer persistence', () => {
     });
     expect(query.mock.calls[0]?.[1]).toEqual(['transfer-one']);
   });
+
+  it('round-trips who the representative hears and the directory entry used', async () => {
+    const toggled = {
+      ...row,
+      event_type: 'transfer_toggled',
+      metadata: {
+        ...row.metadata,
+        talkingTo: 'customer',
+        directoryEntryId: 'entry-sales',
+      },
+    };
+    const query = mock(async (sql: string, _values: readonly unknown[] = []) => ({
+      rows: sql.includes('INSERT') ? [] : [toggled],
+      rowCount: 1,
+    }));
+    const repository = createPostgresTransferRepository({
+      query: query as unknown as TransferDatabase['query'],
+    });
+
+    await repository.recordEvent({
+      id: 'transfer-one:transfer_toggled:toggle-one',
+      workspaceId: 'workspace-one',
+      sessionId: 'session-one',
+      transferId: 'transfer-one',
+      groupId: 'group-one',
+      type: 'warm',
+      target: '+15550100111',
+      status: 'consulting',
+      conferenceSid: 'CF_one',
+      transferCallSid: 'CA_transfer',
+      talkingTo: 'customer',
+      directoryEntryId: 'entry-sales',
+      eventType: 'transfer_toggled',
+    });
+    expect(query.mock.calls[0]?.[1]?.[4]).toBe(
+      JSON.stringify(toggled.metadata),
+    );
+    await expect(repository.getTransferById('transfer-one')).resolves.toMatchObject({
+      status: 'consulting',
+      talkingTo: 'customer',
+      directoryEntryId: 'entry-sales',
+    });
+  });
+
+  it('stores the workspace hold music and a scoped transfer directory', async () => {
+    const query = mock(async (sql: string, _values: readonly unknown[] = []) => {
+      if (sql.startsWith('SELECT hold_music_url')) {
+        return { rows: [{ hold_music_url: 'https://cdn.test/hold.mp3' }], rowCount: 1 };
+      }
+      if (sql.startsWith('SELECT id, label')) {
+        return {
+          rows: [
+            {
+              id: 'entry-sales',
+              label: 'Sales team',
+              kind: 'queue',
+              target: null,
+              queue_id: 'queue-sales',
+            },
+          ],
+          rowCount: 1,
+        };
+      }
+      if (sql.startsWith('DELETE')) return { rows: [], rowCount: 0 };
+      return { rows: [], rowCount: 1 };
+    });
+    const repository = createPostgresTransferRepository({
+      query: query as unknown as TransferDatabase['query'],
+    });
+
+    await expect(repository.getHoldMusicUrl('workspace-one')).resolves.toBe(
+      'https://cdn.test/hold.mp3',
+    );
+    await repository.setHoldMusicUrl({
+      workspaceId: 'workspace-one',
+      holdMusicUrl: null,
+    });
+    await expect(repository.listDirectory('workspace-one')).resolves.toEqual([
+      {
+        entryId: 'entry-sales',
+        label: 'Sales team',
+        kind: 'queue',
+        to: null,
+        queueId: 'queue-sales',
+      },
+    ]);
+    await expect(
+      repository.removeDirectoryEntry({
+        workspaceId: 'workspace-one',
+        entryId: 'entry-sales',
+      }),
+    ).resolves.toBe(false);
+
+    expect(query.mock.calls[1]?.[0]).toContain('ON CONFLICT (workspace_id)');
+    expect(query.mock.calls[1]?.[1]).toEqual(['workspace-one', null]);
+    expect(query.mock.calls[3]?.[1]).toEqual(['workspace-one', 'entry-sales']);
+  });
+
+  it('checks team queues in the workspace and rings their active members in turn', async () => {
+    const query = mock(async (sql: string, values: readonly unknown[] = []) => {
+      if (sql.startsWith('SELECT 1 FROM inbound_ring_groups')) {
+        return values[0] === 'queue-sales'
+          ? { rows: [{ '?column?': 1 }], rowCount: 1 }
+          : { rows: [], rowCount: 0 };
+      }
+      if (sql.startsWith('UPDATE inbound_ring_groups')) {
+        return values[0] === 'queue-sales'
+          ? {
+              rows: [{ cursor: 3, member_user_ids: ['user-one', 'user-two'] }],
+              rowCount: 1,
+            }
+          : { rows: [{ cursor: 0, member_user_ids: [] }], rowCount: 1 };
+      }
+      throw new Error('Unexpected query: ' + sql);
+    });
+    const queues = createPostgresTransferQueueRepository({
+      query: query as unknown as TransferDatabase['query'],
+    });
+
+    await expect(
+      queues.hasQueue({ workspaceId: 'workspace-one', queueId: 'queue-sales' }),
+    ).resolves.toBe(true);
+    await expect(
+      queues.hasQueue({ workspaceId: 'workspace-one', queueId: 'queue-other' }),
+    ).resolves.toBe(false);
+    await expect(
+      queues.claimNextMember({
+        workspaceId: 'workspace-one',
+        queueId: 'queue-sales',
+      }),
+    ).resolves.toBe('user-two');
+    await expect(
+      queues.claimNextMember({
+        workspaceId: 'workspace-one',
+        queueId: 'queue-empty',
+      }),
+    ).resolves.toBeNull();
+    expect(query.mock.calls[2]?.[0]).toContain("wm.status = 'active'");
+    expect(query.mock.calls[2]?.[1]).toEqual(['queue-sales', 'workspace-one']);
+  });
 });
@@ -4,6 +4,7 @@ import { Hono } from 'hono';
 
 import type { DialerServerDependencies } from './contracts';
 import { createCallSessionRoutes } from './routes/call-sessions';
+import { createTransferDirectoryRoutes } from './routes/transfer-directory';
 
 const identity = {
   workspaceId: 'workspace-one',
@@ -36,6 +37,29 @@ const boot = () => {
   const cancel = mock((_input: unknown) =>
     Effect.succeed({ success: true, transferId: 'transfer-one', status: 'cancelled' as const }),
   );
+  const toggle = mock((_input: unknown) =>
+    Effect.succeed({
+      success: true,
+      transferId: 'transfer-one',
+      status: 'consulting' as const,
+      talkingTo: 'customer' as const,
+    }),
+  );
+  const merge = mock((_input: unknown) =>
+    Effect.succeed({ success: true, transferId: 'transfer-one', status: 'merged' as const }),
+  );
+  const getDirectory = mock((_input: unknown) =>
+    Effect.succeed({ holdMusicUrl: null, entries: [] }),
+  );
+  const saveDirectoryEntry = mock((input: Record<string, unknown>) =>
+    Effect.succeed({ entryId: 'entry-one', queueId: null, ...input }),
+  );
+  const removeDirectoryEntry = mock((_input: unknown) =>
+    Effect.succeed({ removed: true as const }),
+  );
+  const setHoldMusic = mock((input: { holdMusicUrl: string | null }) =>
+    Effect.succeed({ holdMusicUrl: input.holdMusicUrl }),
+  );
   const dependencies = {
     application: {
       startCallSession: () => Effect.die('unused'),
@@ -46,7 +70,19 @@ const boot = () => {
       generateTwilioAgentTwiml: () => Effect.die('unused'),
       markAgentReady: () => Effect.die('unused'),
     },
-    transfers: { initiate, getStatus, complete, cancel, processStatusCallback: () => Effect.die('unused') },
+    transfers: {
+      initiate,
+      getStatus,
+      complete,
+      cancel,
+      toggle,
+      merge,
+      getDirectory,
+      saveDirectoryEntry,
+      removeDirectoryEntry,
+      setHoldMusic,
+      processStatusCallback: () => Effect.die('unused'),
+    },
     authenticate: async () => identity,
     verifyTwilioSignature: async () => true,
   } as unknown as DialerServerDependencies;
@@ -56,7 +92,18 @@ const boot = () => {
     await next();
   });
   app.route('/', createCallSessionRoutes(dependencies));
-  return { app, initiate, getStatus, complete, cancel };
+  app.route('/', createTransferDirectoryRoutes(dependencies));
+  return {
+    app,
+    initiate,
+    getStatus,
+    complete,
+    cancel,
+    toggle,
+    merge,
+    saveDirectoryEntry,
+    setHoldMusic,
+  };
 };
 
 describe('call transfer HTTP routes', () => {
@@ -138,4 +185,128 @@ describe('call transfer HTTP routes', () => {
     expect(response.status).toBe(400);
     expect(initiate).not.toHaveBeenCalled();
   });
+
+  it('transfers to a saved directory entry instead of a typed number, but never both', async () => {
+    const { app, initiate } = boot();
+    const post = (body: Record<string, unknown>) =>
+      app.request('/v1/call-sessions/group-one/transfers', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    const saved = await post({ type: 'warm', directoryEntryId: 'entry-sales' });
+    const both = await post({
+      type: 'warm',
+      directoryEntryId: 'entry-sales',
+      to: '+15550100111',
+    });
+
+    expect([saved.status, both.status]).toEqual([201, 400]);
+    expect(initiate).toHaveBeenCalledTimes(1);
+    expect(initiate).toHaveBeenCalledWith({
+      workspaceId: 'workspace-one',
+      userId: 'user-one',
+      sessionId: 'group-one',
+      type: 'warm',
+      directoryEntryId: 'entry-sales',
+    });
+  });
+
+  it('toggles and merges a consultation for the authenticated operator', async () => {
+    const { app, toggle, merge } = boot();
+    const invalid = await app.request(
+      '/v1/call-sessions/group-one/transfers/transfer-one/toggle',
+      {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ talkTo: 'supervisor' }),
+      },
+    );
+    const toggled = await app.request(
+      '/v1/call-sessions/group-one/transfers/transfer-one/toggle',
+      {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ talkTo: 'customer' }),
+      },
+    );
+    const merged = await app.request(
+      '/v1/call-sessions/group-one/transfers/transfer-one/merge',
+      { method: 'POST' },
+    );
+
+    expect([invalid.status, toggled.status, merged.status]).toEqual([
+      400, 200, 200,
+    ]);
+    expect(await toggled.json()).toMatchObject({ talkingTo: 'customer' });
+    expect(toggle).toHaveBeenCalledWith({
+      workspaceId: 'workspace-one',
+      userId: 'user-one',
+      sessionId: 'group-one',
+      transferId: 'transfer-one',
+      talkTo: 'customer',
+    });
+    expect(merge).toHaveBeenCalledWith({
+      workspaceId: 'workspace-one',
+      userId: 'user-one',
+      sessionId: 'group-one',
+      transferId: 'transfer-one',
+    });
+  });
+
+  it('validates directory entries and hold music before passing the caller role on', async () => {
+    const { app, saveDirectoryEntry, setHoldMusic } = boot();
+    const request = (path: string, method: string, body: unknown) =>
+      app.request(path, {
+        method,
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    const badEntry = await request('/v1/transfer-directory', 'POST', {
+      label: 'Sales team',
+      kind: 'queue',
+      to: '+15550100222',
+    });
+    const badNumber = await request('/v1/transfer-directory', 'POST', {
+      label: 'Billing',
+      kind: 'external',
+      to: 'billing',
+    });
+    const entry = await request('/v1/transfer-directory', 'POST', {
+      label: ' Sales team ',
+      kind: 'queue',
+      to: '+15550100222',
+      queueId: 'queue-sales',
+    });
+    const badMusic = await request('/v1/transfer-directory/hold-music', 'PUT', {
+      url: 'http://cdn.test/hold.mp3',
+    });
+    const cleared = await request('/v1/transfer-directory/hold-music', 'PUT', {
+      url: null,
+    });
+
+    expect([
+      badEntry.status,
+      badNumber.status,
+      entry.status,
+      badMusic.status,
+      cleared.status,
+    ]).toEqual([400, 400, 201, 400, 200]);
+    expect(saveDirectoryEntry).toHaveBeenCalledTimes(1);
+    expect(saveDirectoryEntry).toHaveBeenCalledWith({
+      workspaceId: 'workspace-one',
+      role: 'user',
+      label: 'Sales team',
+      kind: 'queue',
+      queueId: 'queue-sales',
+    });
+    expect(setHoldMusic).toHaveBeenCalledTimes(1);
+    expect(setHoldMusic).toHaveBeenCalledWith({
+      workspaceId: 'workspace-one',
+      role: 'user',
+      holdMusicUrl: null,
+    });
+  });
 });
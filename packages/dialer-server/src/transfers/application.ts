@@ -11,14 +11,18 @@ import { Effect } from 'effect';
 
 import type {
   DialerTransferApplication,
+  DialerTransferDirectoryEntry,
+  DialerTransferParty,
   DialerTransferResult,
 } from '../contracts';
 
 import { normalizeAsyncError } from '../errors/normalize-async-error';
+import { canManageWorkspaceSettings } from '../teams/application';
 
 export type PersistedTransferStatus =
   | 'initiating'
   | 'consulting'
+  | 'merged'
   | 'completed'
   | 'cancelled'
   | 'failed';
@@ -33,6 +37,8 @@ export type PersistedTransfer = {
   status: PersistedTransferStatus;
   conferenceSid: string | null;
   transferCallSid: string | null;
+  talkingTo?: DialerTransferParty;
+  directoryEntryId?: string;
 };
 
 export type TransferEventInput = PersistedTransfer & {
@@ -41,6 +47,8 @@ export type TransferEventInput = PersistedTransfer & {
     | 'transfer_initiated'
     | 'transfer_dialing'
     | 'transfer_consulting'
+    | 'transfer_toggled'
+    | 'transfer_merged'
     | 'transfer_completed'
     | 'transfer_cancelled'
     | 'transfer_failed';
@@ -55,6 +63,35 @@ export type TransferRepository = {
     transferId: string;
   }) => Promise<PersistedTransfer | null>;
   getTransferById: (transferId: string) => Promise<PersistedTransfer | null>;
+  getHoldMusicUrl: (workspaceId: string) => Promise<string | null>;
+  setHoldMusicUrl: (input: {
+    workspaceId: string;
+    holdMusicUrl: string | null;
+  }) => Promise<void>;
+  listDirectory: (
+    workspaceId: string,
+  ) => Promise<DialerTransferDirectoryEntry[]>;
+  getDirectoryEntry: (input: {
+    workspaceId: string;
+    entryId: string;
+  }) => Promise<DialerTransferDirectoryEntry | null>;
+  saveDirectoryEntry: (
+    input: DialerTransferDirectoryEntry & { workspaceId: string },
+  ) => Promise<void>;
+  removeDirectoryEntry: (input: {
+    workspaceId: string;
+    entryId: string;
+  }) => Promise<boolean>;
+};
+
+/** Team queues a directory entry can route to (the api's inbound ring groups) */
+export type TransferQueueRepository = {
+  hasQueue: (input: { workspaceId: string; queueId: string }) => Promise<boolean>;
+  /** Active member to ring next, advancing the queue's round-robin cursor */
+  claimNextMember: (input: {
+    workspaceId: string;
+    queueId: string;
+  }) => Promise<string | null>;
 };
 
 export type TransferDialer = {
@@ -75,6 +112,7 @@ export type TransferDialer = {
     conferenceSid: string,
     callSid: string,
     hold: boolean,
+    holdUrl?: string,
   ) => Promise<void>;
 };
 
@@ -85,8 +123,10 @@ export type TransferApplicationInput = {
   ) => Promise<ParallelGroup | null>;
   selectDialer: (groupId: string) => Promise<TransferDialer>;
   repository: TransferRepository;
+  queues?: TransferQueueRepository;
   publicUrl: string;
   generateId: () => string;
+  generateDirectoryId: () => string;
 };
 
 const requestError = (code: string, message: string): DialerRequestError =>
@@ -176,6 +216,107 @@ const requireConference = async (
   }
 };
 
+const requireWorkspaceManager = (input: { role?: string }): void => {
+  if (!canManageWorkspaceSettings(input.role)) {
+    throw requestError(
+      'TRANSFER_DIRECTORY_FORBIDDEN',
+      'An owner or admin role is required to manage transfers',
+    );
+  }
+};
+
+const requireQueues = (
+  queues: TransferQueueRepository | undefined,
+): TransferQueueRepository => {
+  if (!queues) {
+    throw requestError(
+      'TRANSFER_QUEUES_UNAVAILABLE',
+      'Team queue transfers are not configured',
+    );
+  }
+  return queues;
+};
+
+const resolveTarget = async (
+  repository: TransferRepository,
+  queues: TransferQueueRepository | undefined,
+  command: { workspaceId: string; to?: string; directoryEntryId?: string },
+): Promise<{ to: string; directoryEntryId?: string }> => {
+  if (!command.directoryEntryId) {
+    if (!command.to) {
+      throw requestError(
+        'INVALID_TRANSFER_REQUEST',
+        'A transfer target or directory entry is required',
+      );
+    }
+    return { to: command.to };
+  }
+  const entry = await repository.getDirectoryEntry({
+    workspaceId: command.workspaceId,
+    entryId: command.directoryEntryId,
+  });
+  if (!entry) {
+    throw requestError(
+      'TRANSFER_DIRECTORY_ENTRY_NOT_FOUND',
+      'Transfer directory entry was not found',
+    );
+  }
+  if (entry.kind === 'queue') {
+    const member = await requireQueues(queues).claimNextMember({
+      workspaceId: command.workspaceId,
+      queueId: entry.queueId ?? '',
+    });
+    if (!member) {
+      throw requestError(
+        'TRANSFER_QUEUE_UNAVAILABLE',
+        'Nobody in the team queue is available to take the transfer',
+      );
+    }
+    return { to: 'client:user_' + member, directoryEntryId: entry.entryId };
+  }
+  return { to: entry.to ?? '', directoryEntryId: entry.entryId };
+};
+
+const requireWarmConsultation = (
+  transfer: PersistedTransfer | null,
+  group: ParallelGroup,
+): PersistedTransfer => {
+  if (
+    !transfer ||
+    transfer.groupId !== group.groupId ||
+    transfer.type !== 'warm' ||
+    (transfer.status !== 'consulting' && transfer.status !== 'merged') ||
+    !transfer.conferenceSid ||
+    !transfer.transferCallSid
+  ) {
+    throw requestError(
+      'WARM_TRANSFER_NOT_FOUND',
+      'An active warm consultation was not found',
+    );
+  }
+  return transfer;
+};
+
+const requireConsultationParties = async (
+  dialer: TransferDialer,
+  transfer: PersistedTransfer,
+) => {
+  const participants = await dialer.listParticipants(transfer.conferenceSid!);
+  const customer = participants.find(
+    (participant) => participant.label === 'customer',
+  );
+  const consultee = participants.find(
+    (participant) => participant.callSid === transfer.transferCallSid,
+  );
+  if (!customer || !consultee) {
+    throw requestError(
+      'TRANSFER_PARTICIPANT_NOT_FOUND',
+      'The customer or consultee has left the conference',
+    );
+  }
+  return { customer, consultee };
+};
+
 const transferEventId = (
   transferId: string,
   type: TransferEventInput['eventType'],
@@ -184,16 +325,20 @@ const transferEventId = (
 const record = (
   repository: TransferRepository,
   transfer: Omit<TransferEventInput, 'id'>,
+  suffix?: string,
 ): Promise<void> =>
   repository.recordEvent({
     ...transfer,
-    id: transferEventId(transfer.transferId, transfer.eventType),
+    id:
+      transferEventId(transfer.transferId, transfer.eventType) +
+      (suffix ? ':' + suffix : ''),
   });
 
 const publicResult = (
   transferId: string,
   status: DialerTransferResult['status'],
   result: TransferResult,
+  talkingTo?: DialerTransferParty,
 ): DialerTransferResult => ({
   success: result.success,
   transferId,
@@ -202,9 +347,24 @@ const publicResult = (
     : {}),
   ...(result.conferenceSid ? { conferenceSid: result.conferenceSid } : {}),
   status,
+  ...(talkingTo ? { talkingTo } : {}),
   ...(result.error ? { error: result.error } : {}),
 });
 
+const consultationResult = (
+  transfer: PersistedTransfer,
+): DialerTransferResult =>
+  publicResult(
+    transfer.transferId,
+    transfer.status,
+    {
+      success: true,
+      transferCallSid: transfer.transferCallSid ?? undefined,
+      conferenceSid: transfer.conferenceSid ?? undefined,
+    },
+    transfer.talkingTo,
+  );
+
 export const createTransferApplication = (
   input: TransferApplicationInput,
 ): DialerTransferApplication => ({
@@ -216,8 +376,17 @@ export const createTransferApplication = (
           command,
         );
         const winner = requireWinner(group);
+        const target = await resolveTarget(
+          input.repository,
+          input.queues,
+          command,
+        );
         const dialer = await input.selectDialer(group.groupId);
         const { agent } = await requireConference(dialer, group);
+        const holdMusicUrl =
+          command.type === 'warm'
+            ? await input.repository.getHoldMusicUrl(command.workspaceId)
+            : null;
         const transferId = input.generateId();
         const base: PersistedTransfer = {
           workspaceId: command.workspaceId,
@@ -225,10 +394,13 @@ export const createTransferApplication = (
           transferId,
           groupId: group.groupId,
           type: command.type,
-          target: command.to,
+          target: target.to,
           status: 'initiating',
           conferenceSid: null,
           transferCallSid: null,
+          ...(target.directoryEntryId
+            ? { directoryEntryId: target.directoryEntryId }
+            : {}),
         };
         await record(input.repository, {
           ...base,
@@ -237,7 +409,7 @@ export const createTransferApplication = (
         const provider = await dialer.initiateTransfer({
           callSid: agent.callSid,
           conferenceName: group.conferenceName,
-          to: command.to,
+          to: target.to,
           from: winner.fromNumber,
           type: command.type,
           userId: command.userId,
@@ -245,6 +417,7 @@ export const createTransferApplication = (
             input.publicUrl.replace(/\/$/, '') +
             '/webhooks/twilio/transfer-status',
           transferId,
+          ...(holdMusicUrl ? { holdUrl: holdMusicUrl } : {}),
         });
         if (!provider.success) {
           await record(input.repository, {
@@ -288,15 +461,20 @@ export const createTransferApplication = (
         if (!transfer || transfer.groupId !== group.groupId) {
           throw requestError('TRANSFER_NOT_FOUND', 'Transfer was not found');
         }
-        return publicResult(command.transferId, transfer.status, {
-          success: transfer.status !== 'failed',
-          ...(transfer.transferCallSid
-            ? { transferCallSid: transfer.transferCallSid }
-            : {}),
-          ...(transfer.conferenceSid
-            ? { conferenceSid: transfer.conferenceSid }
-            : {}),
-        });
+        return publicResult(
+          command.transferId,
+          transfer.status,
+          {
+            success: transfer.status !== 'failed',
+            ...(transfer.transferCallSid
+              ? { transferCallSid: transfer.transferCallSid }
+              : {}),
+            ...(transfer.conferenceSid
+              ? { conferenceSid: transfer.conferenceSid }
+              : {}),
+          },
+          transfer.talkingTo,
+        );
       } catch (cause: unknown) {
         throw normalizeAsyncError(cause);
       }
@@ -313,27 +491,16 @@ export const createTransferApplication = (
           sessionId: group.dialerSessionId!,
           transferId: command.transferId,
         });
-        if (
-          !transfer ||
-          transfer.groupId !== group.groupId ||
-          transfer.type !== 'warm' ||
-          transfer.status !== 'consulting' ||
-          !transfer.conferenceSid
-        ) {
-          throw requestError(
-            'WARM_TRANSFER_NOT_FOUND',
-            'An active warm consultation was not found',
-          );
-        }
+        const consultation = requireWarmConsultation(transfer, group);
         const dialer = await input.selectDialer(group.groupId);
         const { agent } = await requireConference(dialer, group);
         const provider = await dialer.completeTransfer(
-          transfer.conferenceSid,
+          consultation.conferenceSid!,
           agent.callSid,
         );
         const status = provider.success ? 'completed' : 'failed';
         await record(input.repository, {
-          ...transfer,
+          ...consultation,
           status,
           eventType: provider.success
             ? 'transfer_completed'
@@ -357,27 +524,15 @@ export const createTransferApplication = (
           sessionId: group.dialerSessionId!,
           transferId: command.transferId,
         });
-        if (
-          !transfer ||
-          transfer.groupId !== group.groupId ||
-          transfer.type !== 'warm' ||
-          transfer.status !== 'consulting' ||
-          !transfer.conferenceSid ||
-          !transfer.transferCallSid
-        ) {
-          throw requestError(
-            'WARM_TRANSFER_NOT_FOUND',
-            'An active warm consultation was not found',
-          );
-        }
+        const consultation = requireWarmConsultation(transfer, group);
         const dialer = await input.selectDialer(group.groupId);
         const provider = await dialer.cancelTransfer(
-          transfer.conferenceSid,
-          transfer.transferCallSid,
+          consultation.conferenceSid!,
+          consultation.transferCallSid!,
         );
         const status = provider.success ? 'cancelled' : 'failed';
         await record(input.repository, {
-          ...transfer,
+          ...consultation,
           status,
           eventType: provider.success
             ? 'transfer_cancelled'
@@ -389,6 +544,177 @@ export const createTransferApplication = (
         throw normalizeAsyncError(cause);
       }
     }),
+  toggle: (command) =>
+    effect('toggle-transfer', async () => {
+      try {
+        const group = requireOwnedConnectedGroup(
+          await input.loadGroup(command.sessionId, command.workspaceId),
+          command,
+        );
+        const consultation = requireWarmConsultation(
+          await input.repository.getTransfer({
+            workspaceId: command.workspaceId,
+            sessionId: group.dialerSessionId!,
+            transferId: command.transferId,
+          }),
+          group,
+        );
+        if (
+          consultation.status === 'consulting' &&
+          consultation.talkingTo === command.talkTo
+        ) {
+          return consultationResult(consultation);
+        }
+        const dialer = await input.selectDialer(group.groupId);
+        const { customer, consultee } = await requireConsultationParties(
+          dialer,
+          consultation,
+        );
+        const holdMusicUrl = await input.repository.getHoldMusicUrl(
+          command.workspaceId,
+        );
+        const [held, resumed] =
+          command.talkTo === 'consultee'
+            ? [customer, consultee]
+            : [consultee, customer];
+        // hold first so the customer and consultee never hear each other
+        await dialer.holdParticipant(
+          consultation.conferenceSid!,
+          held.callSid,
+          true,
+          holdMusicUrl ?? undefined,
+        );
+        if (resumed.hold) {
+          await dialer.holdParticipant(
+            consultation.conferenceSid!,
+            resumed.callSid,
+            false,
+          );
+        }
+        const toggled: PersistedTransfer = {
+          ...consultation,
+          status: 'consulting',
+          talkingTo: command.talkTo,
+        };
+        await record(
+          input.repository,
+          { ...toggled, eventType: 'transfer_toggled' },
+          input.generateId(),
+        );
+        return consultationResult(toggled);
+      } catch (cause: unknown) {
+        throw normalizeAsyncError(cause);
+      }
+    }),
+  merge: (command) =>
+    effect('merge-transfer', async () => {
+      try {
+        const group = requireOwnedConnectedGroup(
+          await input.loadGroup(command.sessionId, command.workspaceId),
+          command,
+        );
+        const consultation = requireWarmConsultation(
+          await input.repository.getTransfer({
+            workspaceId: command.workspaceId,
+            sessionId: group.dialerSessionId!,
+            transferId: command.transferId,
+          }),
+          group,
+        );
+        if (consultation.status === 'merged') {
+          return consultationResult(consultation);
+        }
+        const dialer = await input.selectDialer(group.groupId);
+        const parties = await requireConsultationParties(dialer, consultation);
+        for (const participant of [parties.customer, parties.consultee]) {
+          if (participant.hold) {
+            await dialer.holdParticipant(
+              consultation.conferenceSid!,
+              participant.callSid,
+              false,
+            );
+          }
+        }
+        const { talkingTo: _talkingTo, ...rest } = consultation;
+        const merged: PersistedTransfer = { ...rest, status: 'merged' };
+        await record(
+          input.repository,
+          { ...merged, eventType: 'transfer_merged' },
+          input.generateId(),
+        );
+        return consultationResult(merged);
+      } catch (cause: unknown) {
+        throw normalizeAsyncError(cause);
+      }
+    }),
+  getDirectory: (command) =>
+    effect('get-transfer-directory', async () => ({
+      holdMusicUrl: await input.repository.getHoldMusicUrl(command.workspaceId),
+      entries: await input.repository.listDirectory(command.workspaceId),
+    })),
+  saveDirectoryEntry: (command) =>
+    effect('save-transfer-directory-entry', async () => {
+      requireWorkspaceManager(command);
+      if (command.kind === 'queue') {
+        if (!command.queueId) {
+          throw requestError(
+            'INVALID_TRANSFER_DIRECTORY_ENTRY',
+            'A team queue entry requires its queue',
+          );
+        }
+        const found = await requireQueues(input.queues).hasQueue({
+          workspaceId: command.workspaceId,
+          queueId: command.queueId,
+        });
+        if (!found) {
+          throw requestError(
+            'TRANSFER_QUEUE_NOT_FOUND',
+            'Team queue was not found in this workspace',
+          );
+        }
+      } else if (!command.to) {
+        throw requestError(
+          'INVALID_TRANSFER_DIRECTORY_ENTRY',
+          'An external entry requires its number',
+        );
+      }
+      const entry: DialerTransferDirectoryEntry = {
+        entryId: input.generateDirectoryId(),
+        label: command.label,
+        kind: command.kind,
+        to: command.kind === 'queue' ? null : command.to!,
+        queueId: command.kind === 'queue' ? command.queueId! : null,
+      };
+      await input.repository.saveDirectoryEntry({
+        ...entry,
+        workspaceId: command.workspaceId,
+      });
+      return entry;
+    }),
+  removeDirectoryEntry: (command) =>
+    effect('remove-transfer-directory-entry', async () => {
+      requireWorkspaceManager(command);
+      const removed = await input.repository.removeDirectoryEntry({
+        workspaceId: command.workspaceId,
+        entryId: command.entryId,
+      });
+      if (!removed) {
+        throw requestError(
+          'TRANSFER_DIRECTORY_ENTRY_NOT_FOUND',
+          'Transfer directory entry was not found',
+        );
+      }
+      return { removed: true as const };
+    }),
+  setHoldMusic: (command) =>
+    effect('set-transfer-hold-music', async () => {
+      requireWorkspaceManager(command);
+      await input.repository.setHoldMusicUrl({
+        workspaceId: command.workspaceId,
+        holdMusicUrl: command.holdMusicUrl,
+      });
+      return { holdMusicUrl: command.holdMusicUrl };
+    }),
   processStatusCallback: (command) =>
     effect('process-transfer-status', async () => {
       try {
@@ -418,10 +744,16 @@ export const createTransferApplication = (
 
         const providerStatus = command.callStatus.trim().toLowerCase();
         if (providerStatus === 'answered' || providerStatus === 'in-progress') {
+          if (transfer.status === 'consulting' || transfer.status === 'merged') {
+            return { received: true as const, status: transfer.status };
+          }
           const status = transfer.type === 'warm' ? 'consulting' : 'completed';
           await record(input.repository, {
             ...transfer,
             status,
+            ...(transfer.type === 'warm'
+              ? { talkingTo: 'consultee' as const }
+              : {}),
             eventType:
               transfer.type === 'warm'
                 ? 'transfer_consulting'
@@ -476,17 +808,24 @@ export const createTransferApplication = (
           }
         }
 
+        // a consultee hanging up after the merge leaves rep and customer talking
         const status =
-          transfer.type === 'cold' && providerStatus === 'completed'
-            ? 'completed'
-            : 'failed';
+          providerStatus !== 'completed'
+            ? 'failed'
+            : transfer.type === 'cold'
+              ? 'completed'
+              : transfer.status === 'merged'
+                ? 'cancelled'
+                : 'failed';
         await record(input.repository, {
           ...transfer,
           status,
           eventType:
             status === 'completed'
               ? 'transfer_completed'
-              : 'transfer_failed',
+              : status === 'cancelled'
+                ? 'transfer_cancelled'
+                : 'transfer_failed',
           ...(status === 'failed'
             ? { error: 'Provider status: ' + providerStatus }
             : {}),
@@ -1,6 +1,8 @@
+import type { DialerTransferDirectoryEntry } from '../contracts';
 import type {
   PersistedTransfer,
   TransferEventInput,
+  TransferQueueRepository,
   TransferRepository,
 } from './application';
 
@@ -20,6 +22,14 @@ type TransferRow = {
   metadata: unknown;
 };
 
+type DirectoryRow = {
+  id: string;
+  label: string;
+  kind: DialerTransferDirectoryEntry['kind'];
+  target: string | null;
+  queue_id: string | null;
+};
+
 const record = (value: unknown): Record<string, unknown> =>
   value && typeof value === 'object' && !Array.isArray(value)
     ? (value as Record<string, unknown>)
@@ -43,9 +53,23 @@ const mapTransfer = (row: TransferRow | undefined): PersistedTransfer | null =>
     throw new Error('Invalid transfer metadata: type');
   }
   const status = requiredString(metadata.status, 'status');
-  if (!['initiating', 'consulting', 'completed', 'cancelled', 'failed'].includes(status)) {
+  if (
+    ![
+      'initiating',
+      'consulting',
+      'merged',
+      'completed',
+      'cancelled',
+      'failed',
+    ].includes(status)
+  ) {
     throw new Error('Invalid transfer metadata: status');
   }
+  const talkingTo = nullableString(metadata.talkingTo);
+  if (talkingTo !== null && talkingTo !== 'customer' && talkingTo !== 'consultee') {
+    throw new Error('Invalid transfer metadata: talkingTo');
+  }
+  const directoryEntryId = nullableString(metadata.directoryEntryId);
   return {
     workspaceId: row.workspace_id,
     sessionId: row.session_id,
@@ -56,9 +80,19 @@ const mapTransfer = (row: TransferRow | undefined): PersistedTransfer | null =>
     status: status as PersistedTransfer['status'],
     conferenceSid: nullableString(metadata.conferenceSid),
     transferCallSid: nullableString(metadata.transferCallSid),
+    ...(talkingTo ? { talkingTo } : {}),
+    ...(directoryEntryId ? { directoryEntryId } : {}),
   };
 };
 
+const mapDirectoryEntry = (row: DirectoryRow): DialerTransferDirectoryEntry => ({
+  entryId: row.id,
+  label: row.label,
+  kind: row.kind,
+  to: row.kind === 'queue' ? null : row.target,
+  queueId: row.queue_id,
+});
+
 const metadata = (input: TransferEventInput): Record<string, unknown> => ({
   transferId: input.transferId,
   groupId: input.groupId,
@@ -67,6 +101,10 @@ const metadata = (input: TransferEventInput): Record<string, unknown> => ({
   status: input.status,
   conferenceSid: input.conferenceSid,
   transferCallSid: input.transferCallSid,
+  ...(input.talkingTo ? { talkingTo: input.talkingTo } : {}),
+  ...(input.directoryEntryId
+    ? { directoryEntryId: input.directoryEntryId }
+    : {}),
   ...(input.error ? { error: input.error } : {}),
 });
 
@@ -111,4 +149,113 @@ export const createPostgresTransferRepository = (
       throw normalizeAsyncError(cause);
     }
   },
+  getHoldMusicUrl: async (workspaceId) => {
+    try {
+      const result = await database.query<{ hold_music_url: string | null }>(
+        'SELECT hold_music_url FROM dialer_workspace_settings WHERE workspace_id = $1',
+        [workspaceId],
+      );
+      return result.rows[0]?.hold_music_url ?? null;
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  setHoldMusicUrl: async ({ workspaceId, holdMusicUrl }) => {
+    try {
+      await database.query(
+        'INSERT INTO dialer_workspace_settings (workspace_id, hold_music_url) VALUES ($1, $2) ON CONFLICT (workspace_id) DO UPDATE SET hold_music_url = EXCLUDED.hold_music_url, updated_at = NOW()',
+        [workspaceId, holdMusicUrl],
+      );
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  listDirectory: async (workspaceId) => {
+    try {
+      const result = await database.query<DirectoryRow>(
+        'SELECT id, label, kind, target, queue_id FROM dialer_transfer_directory WHERE workspace_id = $1 ORDER BY label ASC, id ASC',
+        [workspaceId],
+      );
+      return result.rows.map(mapDirectoryEntry);
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  getDirectoryEntry: async ({ workspaceId, entryId }) => {
+    try {
+      const result = await database.query<DirectoryRow>(
+        'SELECT id, label, kind, target, queue_id FROM dialer_transfer_directory WHERE workspace_id = $1 AND id = $2',
+        [workspaceId, entryId],
+      );
+      return result.rows[0] ? mapDirectoryEntry(result.rows[0]) : null;
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  saveDirectoryEntry: async (input) => {
+    try {
+      await database.query(
+        'INSERT INTO dialer_transfer_directory (id, workspace_id, label, kind, target, queue_id) VALUES ($1, $2, $3, $4, $5, $6)',
+        [
+          input.entryId,
+          input.workspaceId,
+          input.label,
+          input.kind,
+          input.to,
+          input.queueId,
+        ],
+      );
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  removeDirectoryEntry: async ({ workspaceId, entryId }) => {
+    try {
+      const result = await database.query(
+        'DELETE FROM dialer_transfer_directory WHERE workspace_id = $1 AND id = $2',
+        [workspaceId, entryId],
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+});
+
+// team queues are the api's inbound ring groups; members keep their configured
+// order and inactive members are skipped, as they are for inbound calls
+const SQL_HAS_QUEUE =
+  'SELECT 1 FROM inbound_ring_groups WHERE id::text = $1 AND workspace_id::text = $2';
+
+const SQL_CLAIM_QUEUE_MEMBER =
+  "UPDATE inbound_ring_groups rg SET next_member_index = next_member_index + 1, updated_at = NOW() WHERE rg.id::text = $1 AND rg.workspace_id::text = $2 RETURNING rg.next_member_index - 1 AS cursor, ARRAY(SELECT g.member FROM unnest(rg.member_user_ids) WITH ORDINALITY AS g(member, ord) WHERE EXISTS (SELECT 1 FROM workspace_members wm WHERE wm.workspace_id = rg.workspace_id AND wm.user_id::text = g.member AND wm.status = 'active') ORDER BY g.ord) AS member_user_ids";
+
+export const createPostgresTransferQueueRepository = (
+  database: TransferDatabase,
+): TransferQueueRepository => ({
+  hasQueue: async ({ workspaceId, queueId }) => {
+    try {
+      const result = await database.query(SQL_HAS_QUEUE, [queueId, workspaceId]);
+      return result.rows.length > 0;
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
+  claimNextMember: async ({ workspaceId, queueId }) => {
+    try {
+      const result = await database.query<{
+        cursor: number;
+        member_user_ids: string[];
+      }>(SQL_CLAIM_QUEUE_MEMBER, [queueId, workspaceId]);
+      const queue = result.rows[0];
+      if (!queue || queue.member_user_ids.length === 0) return null;
+      return (
+        queue.member_user_ids[
+          Number(queue.cursor) % queue.member_user_ids.length
+        ] ?? null
+      );
+    } catch (cause: unknown) {
+      throw normalizeAsyncError(cause);
+    }
+  },
 });
@@ -204,6 +204,12 @@ describe('Twilio webhook boundary', () => {
       getStatus: () => Effect.die('unused'),
       complete: () => Effect.die('unused'),
       cancel: () => Effect.die('unused'),
+      toggle: () => Effect.die('unused'),
+      merge: () => Effect.die('unused'),
+      getDirectory: () => Effect.die('unused'),
+      saveDirectoryEntry: () => Effect.die('unused'),
+      removeDirectoryEntry: () => Effect.die('unused'),
+      setHoldMusic: () => Effect.die('unused'),
       processStatusCallback,
     };
     const rawBody = 'CallSid=CA_TRANSFER&CallStatus=answered&workspaceId=attacker';
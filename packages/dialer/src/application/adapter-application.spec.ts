@@ -1,5 +1,12 @@
 import { Effect, Either, Layer } from 'effect';
 
+import { DialerComplianceError } from '../errors/dialer-errors';
+import { DEFAULT_COMPLIANCE_POLICY } from '../domain/compliance';
+import {
+  createDialerComplianceLayer,
+  InMemoryComplianceStore,
+} from '../infrastructure/memory/compliance-store';
+import { DialerClock } from '../ports/clock';
 import {
   DialerCallRepository,
   type DialerCallRepositoryService,
@@ -18,6 +25,12 @@ import { startDialerCall } from './start-dialer-call';
 import { markParallelAgentReady } from './parallel-compatibility-application';
 import { processParallelCallback } from './process-parallel-callback';
 
+// the fictional 555 numbers have no area-code zone, so check them in New York
+const testPolicy = {
+  ...DEFAULT_COMPLIANCE_POLICY,
+  fallbackTimezone: 'America/New_York',
+};
+
 const context = { workspaceId: 'workspace-1', userId: 'user-1' };
 
 const targetRepository = (calls: string[]): DialerTargetRepositoryService => ({
@@ -88,7 +101,16 @@ const runtime = (calls: string[]): DialerCallRuntimeService => ({
     }),
 });
 
-const startLayer = (calls: string[]) =>
+const complianceLayer = (store = new InMemoryComplianceStore(testPolicy)) =>
+  Layer.mergeAll(
+    createDialerComplianceLayer(store),
+    Layer.succeed(DialerClock, {
+      now: Effect.succeed(new Date('2026-07-23T18:00:00.000Z')),
+      sleep: () => Effect.void,
+    }),
+  );
+
+const startLayer = (calls: string[], compliance = complianceLayer()) =>
   Layer.mergeAll(
     Layer.succeed(DialerTargetRepository, targetRepository(calls)),
     Layer.succeed(DialerCallRepository, callRepository(calls)),
@@ -97,6 +119,7 @@ const startLayer = (calls: string[]) =>
       generateParallelGroupId: Effect.succeed('pg-unused'),
       generateDialerSessionId: Effect.succeed('session-1'),
     }),
+    compliance,
   );
 
 const parallelRuntime = (
@@ -224,6 +247,7 @@ describe('dialer compatibility application contracts', () => {
         generateParallelGroupId: Effect.succeed('pg-unused'),
         generateDialerSessionId: Effect.succeed('session-1'),
       }),
+      complianceLayer(),
     );
 
     const result = await Effect.runPromise(
@@ -247,6 +271,63 @@ describe('dialer compatibility application contracts', () => {
     });
   });
 
+  it('drops targets refused by compliance and reports the reduced capacity', async () => {
+    const calls: string[] = [];
+    const store = new InMemoryComplianceStore(testPolicy);
+    store.importDncFile('national', '555,1111111');
+
+    const result = await Effect.runPromise(
+      startDialerCall({
+        ...context,
+        input: {
+          source: 'queue',
+          selectionStrategy: 'predictive',
+          requestedFanout: 2,
+          queueId: 'queue-1',
+          callMode: 'live',
+        },
+      }).pipe(Effect.provide(startLayer(calls, complianceLayer(store)))),
+    );
+
+    expect(result.calls.map((call) => call.customerNumber)).toEqual([
+      '+15552222222',
+    ]);
+    expect(result.capacity.reducedCapacityReasons).toContain(
+      'compliance-denied',
+    );
+  });
+
+  it('fails with a typed compliance denial when no target may be called', async () => {
+    const calls: string[] = [];
+    const store = new InMemoryComplianceStore(testPolicy);
+    store.suppress('workspace-1', 'contact-1');
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        startDialerCall({
+          ...context,
+          input: {
+            source: 'direct',
+            selectionStrategy: 'single',
+            requestedFanout: 1,
+            contactId: 'contact-1',
+            callMode: 'live',
+          },
+        }).pipe(Effect.provide(startLayer(calls, complianceLayer(store)))),
+      ),
+    );
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left).toBeInstanceOf(DialerComplianceError);
+      expect(result.left).toMatchObject({
+        code: 'CONTACT_SUPPRESSED',
+        denials: [{ contactId: 'contact-1', phone: '+15551111111' }],
+      });
+    }
+    expect(calls).not.toContain('provider:workspace-1');
+  });
+
   it('retries winner cleanup after the browser agent media leg becomes ready', async () => {
     let cleanupAttempts = 0;
     const group: ParallelGroup = {
@@ -0,0 +1,85 @@
+import { Effect } from 'effect';
+
+import {
+  describeComplianceDenial,
+  evaluateDialCompliance,
+} from '../domain/compliance.js';
+import { DialerComplianceError } from '../errors/dialer-errors.js';
+import { DialerClock } from '../ports/clock.js';
+import { DialerCompliance } from '../ports/compliance.js';
+import type { DialerCallContext } from '../ports/dialer-call-start.js';
+import type { ComplianceDenial, ComplianceTarget } from '../types.js';
+
+export type DialComplianceResult<T extends ComplianceTarget> = {
+  allowed: T[];
+  denials: ComplianceDenial[];
+};
+
+/**
+ * Splits targets into those that may be dialed now and those refused by
+ * quiet hours, a DNC list or contact suppression.
+ */
+export const checkDialCompliance = <T extends ComplianceTarget>(
+  input: DialerCallContext & { targets: T[] },
+) =>
+  Effect.gen(function* () {
+    if (input.targets.length === 0) {
+      const empty: DialComplianceResult<T> = { allowed: [], denials: [] };
+      return empty;
+    }
+
+    const compliance = yield* DialerCompliance;
+    const clock = yield* DialerClock;
+    const context = {
+      workspaceId: input.workspaceId,
+      userId: input.userId,
+    };
+    const [policy, listings, suppressed] = yield* Effect.all([
+      compliance.loadPolicy(context),
+      compliance.findDncListings({
+        ...context,
+        phones: input.targets.map((target) => target.phone),
+      }),
+      compliance.findSuppressedPhones({ ...context, targets: input.targets }),
+    ]);
+    const now = yield* clock.now;
+
+    const result: DialComplianceResult<T> = { allowed: [], denials: [] };
+    for (const target of input.targets) {
+      const denial = evaluateDialCompliance(target, {
+        now,
+        policy,
+        dncSources: listings.get(target.phone),
+        suppressed: suppressed.has(target.phone),
+      });
+      if (denial) result.denials.push(denial);
+      else result.allowed.push(target);
+    }
+    return result;
+  }).pipe(Effect.withSpan('dialer.check_dial_compliance'));
+
+/** Wraps refused targets in the typed failure routes map to a 403 */
+export const complianceError = (
+  denials: ComplianceDenial[],
+): DialerComplianceError =>
+  new DialerComplianceError({
+    code: denials[0].reasons[0],
+    message:
+      denials.length === 1
+        ? describeComplianceDenial(denials[0])
+        : `${denials.length} targets are not permitted to be called`,
+    denials,
+    retryable: false,
+  });
+
+/** Fails with a DialerComplianceError when any target is refused */
+export const assertDialCompliance = <T extends ComplianceTarget>(
+  input: DialerCallContext & { targets: T[] },
+) =>
+  checkDialCompliance(input).pipe(
+    Effect.flatMap((result) =>
+      result.denials.length > 0
+        ? Effect.fail(complianceError(result.denials))
+        : Effect.succeed(result.allowed),
+    ),
+  );
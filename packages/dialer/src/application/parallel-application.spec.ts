@@ -2,6 +2,7 @@ import { Effect, Either, Fiber, Layer } from 'effect';
 
 import {
   DialerCleanupError,
+  DialerComplianceError,
   DialerProviderError,
   DialerStateError,
   DialerTransitionError,
@@ -11,6 +12,11 @@ import type {
   ParallelDialOptions,
   ParallelGroup,
 } from '../types';
+import { DEFAULT_COMPLIANCE_POLICY } from '../domain/compliance';
+import {
+  createDialerComplianceLayer,
+  InMemoryComplianceStore,
+} from '../infrastructure/memory/compliance-store';
 import { processProviderCallback } from './process-provider-callback';
 import { retryPendingCleanup } from './retry-pending-cleanup';
 import { startParallelSession } from './start-parallel-session';
@@ -25,6 +31,12 @@ import {
   type ParallelStateStoreService,
 } from '../ports/parallel-state-store';
 
+// the fictional 555 numbers have no area-code zone, so check them in New York
+const testPolicy = {
+  ...DEFAULT_COMPLIANCE_POLICY,
+  fallbackTimezone: 'America/New_York',
+};
+
 const baseOptions: ParallelDialOptions = {
   workspaceId: 'workspace-1',
   customerNumbers: ['+15551111111', '+15552222222'],
@@ -127,12 +139,20 @@ const idService: DialerIdGeneratorService = {
   generateDialerSessionId: Effect.succeed('session_test'),
 };
 
-const createLayer = (state: TestState, providerLayer = createProviderLayer()) =>
+const complianceLayer = (store = new InMemoryComplianceStore(testPolicy)) =>
+  createDialerComplianceLayer(store);
+
+const createLayer = (
+  state: TestState,
+  providerLayer = createProviderLayer(),
+  compliance = complianceLayer(),
+) =>
   Layer.mergeAll(
     createStateLayer(state),
     providerLayer,
     Layer.succeed(DialerClock, clockService),
     Layer.succeed(DialerIdGenerator, idService),
+    compliance,
   );
 
 const createState = (): TestState => ({
@@ -225,6 +245,55 @@ describe('parallel Effect application programs', () => {
     );
   });
 
+  it('refuses the whole batch before creating a group when a leg is not callable', async () => {
+    const state = createState();
+    const store = new InMemoryComplianceStore(testPolicy);
+    store.importDncFile('workspace', '5552222222', 'workspace-1');
+    let created = 0;
+    const providerLayer = createProviderLayer({
+      createCall: () => Effect.sync(() => ({ callSid: `CA_${++created}` })),
+    });
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        startParallelSession({
+          ...baseOptions,
+          // 05:00 in San Francisco on the test clock
+          customerNumbers: ['+14155550100', '+15552222222'],
+          contactIds: ['contact-1', 'contact-2'],
+        }).pipe(
+          Effect.provide(
+            createLayer(state, providerLayer, complianceLayer(store)),
+          ),
+        ),
+      ),
+    );
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left).toBeInstanceOf(DialerComplianceError);
+      expect(result.left).toMatchObject({
+        code: 'OUTSIDE_CALLING_HOURS',
+        denials: [
+          {
+            phone: '+14155550100',
+            contactId: 'contact-1',
+            reasons: ['OUTSIDE_CALLING_HOURS'],
+            timezone: 'America/Los_Angeles',
+          },
+          {
+            phone: '+15552222222',
+            contactId: 'contact-2',
+            reasons: ['WORKSPACE_DNC'],
+            timezone: 'America/New_York',
+          },
+        ],
+      });
+    }
+    expect(created).toBe(0);
+    expect(state.groups.size).toBe(0);
+  });
+
   it('preserves a typed retryable provider failure', async () => {
     const state = createState();
     const providerError = new DialerProviderError({
@@ -297,6 +366,7 @@ describe('parallel Effect application programs', () => {
       createProviderLayer(),
       Layer.succeed(DialerClock, clockService),
       Layer.succeed(DialerIdGenerator, idService),
+      complianceLayer(),
     );
 
     const result = await Effect.runPromise(
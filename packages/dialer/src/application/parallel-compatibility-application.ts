@@ -150,6 +150,10 @@ export const initiateParallelDial = (command: ParallelDialCommand) =>
         customerTwimlUrl: `${command.callbackBaseUrl}/api/v1/calls/parallel/customer-twiml`,
         profile: strategy.profile,
         campaignSegment,
+        ...(command.voicemailDrop
+          ? { voicemailDrop: command.voicemailDrop }
+          : {}),
+        ...(command.safeHarbor ? { safeHarbor: command.safeHarbor } : {}),
       });
 
       for (const [index, phoneNumber] of acquired.entries()) {
@@ -238,6 +242,7 @@ export const getParallelGroupStatus = (input: {
         position: call.position,
         status: call.status,
         amdResult: call.amdResult,
+        ...(call.outcome ? { outcome: call.outcome } : {}),
         contactId: call.contactId,
       })),
     } satisfies ParallelGroupStatusResult;
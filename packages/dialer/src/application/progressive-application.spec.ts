@@ -0,0 +1,293 @@
+import { Effect, Either, Layer } from 'effect';
+
+import { DialerConflictError } from '../errors/dialer-errors';
+import { createCallerIdLockStoreLayer } from '../infrastructure/memory/caller-id-lock-store';
+import { DEFAULT_COMPLIANCE_POLICY } from '../domain/compliance';
+import {
+  createDialerComplianceLayer,
+  InMemoryComplianceStore,
+} from '../infrastructure/memory/compliance-store';
+import {
+  createParallelStateStoreLayer,
+  InMemoryParallelStore,
+} from '../infrastructure/memory/parallel-state-store';
+import {
+  createProgressiveDialRuntimeLayer,
+  createProgressiveSessionStoreLayer,
+} from '../infrastructure/memory/progressive-session-store';
+import { CallProvider, type CallProviderService } from '../ports/call-provider';
+import { DialerClock } from '../ports/clock';
+import { DialerIdGenerator } from '../ports/id-generator';
+import { CallerIdLockService, InMemoryLockStore } from '../services/caller-id';
+import type {
+  ProgressiveSessionOptions,
+  ProgressiveTarget,
+  ProgressiveTargetSource,
+} from '../types';
+import { processProviderCallback } from './process-provider-callback';
+import {
+  advanceProgressiveSession,
+  advanceProgressiveSessionForGroup,
+  pauseProgressiveSession,
+  resumeProgressiveSession,
+  startProgressiveSession,
+  submitProgressiveDisposition,
+} from './progressive-session';
+
+// the fictional 555 numbers have no area-code zone, so check them in New York
+const testPolicy = {
+  ...DEFAULT_COMPLIANCE_POLICY,
+  fallbackTimezone: 'America/New_York',
+};
+
+const options: ProgressiveSessionOptions = {
+  workspaceId: 'workspace-1',
+  userId: 'user-1',
+  queueId: 'queue-1',
+  wrapUpSeconds: 20,
+  statusCallbackUrl: 'https://example.com/status',
+  customerTwimlUrl: 'https://example.com/twiml',
+};
+
+const createHarness = (
+  contacts: ProgressiveTarget[],
+  callerIds = ['+15553333333', '+15554444444'],
+) => {
+  const queue = [...contacts];
+  const skipped: Array<{ contactId: string; reasons: string[] }> = [];
+  const dialed: Array<{ to: string; from: string }> = [];
+  const compliance = new InMemoryComplianceStore(testPolicy);
+  const locks = new CallerIdLockService(new InMemoryLockStore());
+  const clock = { now: new Date('2026-07-23T12:00:00.000Z') };
+  let groupNumber = 0;
+  let callNumber = 0;
+
+  const source: ProgressiveTargetSource = {
+    nextTarget: async () => queue.shift() ?? null,
+    skipTarget: async ({ target, reasons }) => {
+      skipped.push({ contactId: target.contactId, reasons });
+    },
+    resolveCallerIds: async () => callerIds,
+  };
+  const provider: CallProviderService = {
+    createCall: (input) =>
+      Effect.sync(() => {
+        callNumber += 1;
+        dialed.push({ to: input.to, from: input.from });
+        return { callSid: `CA_${callNumber}` };
+      }),
+    terminateCall: () => Effect.void,
+    unmuteConferenceParticipant: () => Effect.void,
+  };
+  const store = new InMemoryParallelStore();
+  const layer = Layer.mergeAll(
+    createParallelStateStoreLayer(store),
+    createProgressiveSessionStoreLayer(store),
+    createProgressiveDialRuntimeLayer(source),
+    createCallerIdLockStoreLayer(locks),
+    createDialerComplianceLayer(compliance),
+    Layer.succeed(CallProvider, provider),
+    Layer.succeed(DialerClock, {
+      now: Effect.sync(() => clock.now),
+      sleep: () => Effect.void,
+    }),
+    Layer.succeed(DialerIdGenerator, {
+      generateParallelGroupId: Effect.sync(() => {
+        groupNumber += 1;
+        return `pg_${groupNumber}`;
+      }),
+      generateDialerSessionId: Effect.succeed('session_1'),
+    }),
+  );
+
+  type Services = Layer.Layer.Success<typeof layer>;
+  const run = <A, E>(program: Effect.Effect<A, E, Services>) =>
+    Effect.runPromise(program.pipe(Effect.provide(layer)));
+  const runEither = <A, E>(program: Effect.Effect<A, E, Services>) =>
+    Effect.runPromise(program.pipe(Effect.provide(layer), Effect.either));
+
+  return {
+    clock,
+    compliance,
+    dialed,
+    locks,
+    run,
+    runEither,
+    skipped,
+    store,
+  };
+};
+
+const contact = (n: number): ProgressiveTarget => ({
+  contactId: `contact-${n}`,
+  phone: `+1555111111${n}`,
+  queueItemId: `item-${n}`,
+});
+
+describe('progressive dialing sessions', () => {
+  it('dials the first queued contact as a one-leg group owned by the session', async () => {
+    const harness = createHarness([contact(1), contact(2)]);
+
+    const session = await harness.run(startProgressiveSession(options));
+
+    expect(session).toMatchObject({
+      sessionId: 'session_1',
+      status: 'dialing',
+      currentGroupId: 'pg_1',
+      currentTarget: contact(1),
+      callerIdNumber: '+15553333333',
+      dialedCount: 1,
+    });
+    expect(harness.dialed).toEqual([
+      { to: '+15551111111', from: '+15553333333' },
+    ]);
+    const group = JSON.parse((await harness.store.getGroup('pg_1')) ?? '{}');
+    expect(group).toMatchObject({
+      dialerSessionId: 'session_1',
+      profile: { id: 'progressive', fanout: 1 },
+    });
+    await expect(
+      harness.locks.isNumberAvailable('+15553333333'),
+    ).resolves.toBe(false);
+  });
+
+  it('skips contacts the compliance gate refuses and reports them', async () => {
+    const harness = createHarness([contact(1), contact(2)]);
+    harness.compliance.suppress('workspace-1', 'contact-1');
+
+    const session = await harness.run(startProgressiveSession(options));
+
+    expect(harness.skipped).toEqual([
+      { contactId: 'contact-1', reasons: ['CONTACT_SUPPRESSED'] },
+    ]);
+    expect(session).toMatchObject({
+      currentTarget: contact(2),
+      skippedCount: 1,
+      dialedCount: 1,
+    });
+  });
+
+  it('ends once the queue has nothing left to call', async () => {
+    const harness = createHarness([]);
+
+    const session = await harness.run(startProgressiveSession(options));
+
+    expect(session).toMatchObject({
+      status: 'ended',
+      endedReason: 'queue-exhausted',
+      dialedCount: 0,
+    });
+  });
+
+  it('holds the next dial until wrap-up after a disposition runs out', async () => {
+    const harness = createHarness([contact(1), contact(2)]);
+    await harness.run(startProgressiveSession(options));
+
+    const wrapUp = await harness.run(
+      submitProgressiveDisposition('session_1', 'workspace-1'),
+    );
+    expect(wrapUp).toMatchObject({
+      status: 'wrap-up',
+      currentGroupId: null,
+      callerIdNumber: null,
+      wrapUpEndsAt: '2026-07-23T12:00:20.000Z',
+    });
+    await expect(
+      harness.locks.isNumberAvailable('+15553333333'),
+    ).resolves.toBe(true);
+
+    harness.clock.now = new Date('2026-07-23T12:00:10.000Z');
+    const early = await harness.run(advanceProgressiveSession('session_1'));
+    expect(early.status).toBe('wrap-up');
+    expect(harness.dialed).toHaveLength(1);
+
+    harness.clock.now = new Date('2026-07-23T12:00:20.000Z');
+    const next = await harness.run(advanceProgressiveSession('session_1'));
+    expect(next).toMatchObject({
+      status: 'dialing',
+      currentGroupId: 'pg_2',
+      currentTarget: contact(2),
+      dialedCount: 2,
+    });
+  });
+
+  it('dials nothing while the rep is away and picks up on return', async () => {
+    const harness = createHarness([contact(1), contact(2)]);
+    await harness.run(startProgressiveSession(options));
+    await harness.run(submitProgressiveDisposition('session_1', 'workspace-1'));
+
+    await harness.run(pauseProgressiveSession('session_1', 'workspace-1'));
+    harness.clock.now = new Date('2026-07-23T12:05:00.000Z');
+    const away = await harness.run(advanceProgressiveSession('session_1'));
+    expect(away).toMatchObject({ status: 'wrap-up', paused: true });
+
+    const back = await harness.run(
+      resumeProgressiveSession('session_1', 'workspace-1'),
+    );
+    expect(back).toMatchObject({
+      status: 'dialing',
+      paused: false,
+      currentTarget: contact(2),
+    });
+  });
+
+  it('moves straight to the next contact when a call goes unanswered', async () => {
+    const harness = createHarness([contact(1), contact(2)]);
+    await harness.run(startProgressiveSession(options));
+
+    await harness.run(
+      processProviderCallback({ callSid: 'CA_1', callStatus: 'no-answer' }),
+    );
+    const next = await harness.run(advanceProgressiveSessionForGroup('pg_1'));
+
+    expect(next).toMatchObject({
+      status: 'dialing',
+      currentGroupId: 'pg_2',
+      currentTarget: contact(2),
+    });
+    await expect(
+      harness.run(advanceProgressiveSessionForGroup('pg_1')),
+    ).resolves.toBeNull();
+  });
+
+  it('keeps the claimed contact when every caller ID is busy', async () => {
+    const harness = createHarness([contact(1)], ['+15553333333']);
+    await harness.locks.acquireLock('+15553333333', 'user-2', 'CA_other');
+
+    const session = await harness.run(startProgressiveSession(options));
+    expect(session).toMatchObject({
+      status: 'ready',
+      currentTarget: contact(1),
+      dialedCount: 0,
+    });
+
+    const retry = await harness.runEither(
+      advanceProgressiveSession('session_1'),
+    );
+    expect(Either.isLeft(retry) && retry.left).toBeInstanceOf(
+      DialerConflictError,
+    );
+
+    await harness.locks.releaseLock('CA_other');
+    const dialing = await harness.run(advanceProgressiveSession('session_1'));
+    expect(dialing).toMatchObject({
+      status: 'dialing',
+      currentTarget: contact(1),
+    });
+  });
+
+  it('refuses a disposition when no call is in progress', async () => {
+    const harness = createHarness([contact(1)]);
+    await harness.run(startProgressiveSession(options));
+    await harness.run(submitProgressiveDisposition('session_1', 'workspace-1'));
+
+    const result = await harness.runEither(
+      submitProgressiveDisposition('session_1', 'workspace-1'),
+    );
+
+    expect(Either.isLeft(result) && result.left).toMatchObject({
+      _tag: 'DialerConflictError',
+      code: 'PROGRESSIVE_NOT_ON_CALL',
+    });
+  });
+});
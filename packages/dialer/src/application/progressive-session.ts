@@ -0,0 +1,407 @@
+import { Effect } from 'effect';
+
+import {
+  createProgressiveSession,
+  nextProgressiveAction,
+  PROGRESSIVE_PROFILE,
+} from '../domain/progressive-session.js';
+import {
+  DialerConflictError,
+  DialerNotFoundError,
+} from '../errors/dialer-errors.js';
+import { CallerIdLockStore } from '../ports/caller-id-lock-store.js';
+import { DialerClock } from '../ports/clock.js';
+import { DialerIdGenerator } from '../ports/id-generator.js';
+import { ParallelStateStore } from '../ports/parallel-state-store.js';
+import {
+  ProgressiveDialRuntime,
+  ProgressiveSessionStore,
+} from '../ports/progressive-session.js';
+import { ACTIVE_CALL_TTL_SECONDS } from '../services/caller-id.js';
+import type {
+  ProgressiveSession,
+  ProgressiveSessionEndReason,
+  ProgressiveSessionOptions,
+  ProgressiveTarget,
+} from '../types.js';
+import { checkDialCompliance } from './check-dial-compliance.js';
+import { startParallelSession } from './start-parallel-session.js';
+import { terminateCallSession } from './terminate-call-session.js';
+
+// bounds one advance when a run of queued contacts is refused by compliance
+const MAX_COMPLIANCE_SKIPS = 25;
+
+const sessionNotFound = () =>
+  new DialerNotFoundError({
+    code: 'PROGRESSIVE_SESSION_NOT_FOUND',
+    message: 'Progressive session not found',
+    retryable: false,
+  });
+
+// serializes advances from callbacks, timers and the rep on one session
+const withSessionLock = <A, E, R>(
+  sessionId: string,
+  operation: Effect.Effect<A, E, R>,
+) =>
+  Effect.gen(function* () {
+    const state = yield* ParallelStateStore;
+    const context = yield* Effect.context<R>();
+    return yield* state.withGroupLock(
+      sessionId,
+      Effect.provide(operation, context),
+    );
+  });
+
+const loadSession = (sessionId: string, workspaceId?: string) =>
+  Effect.gen(function* () {
+    const store = yield* ProgressiveSessionStore;
+    const session = yield* store.getSession(sessionId);
+    if (!session || (workspaceId && session.workspaceId !== workspaceId)) {
+      return yield* Effect.fail(sessionNotFound());
+    }
+    return session;
+  });
+
+const saveSession = (
+  session: ProgressiveSession,
+  patch: Partial<ProgressiveSession>,
+) =>
+  Effect.gen(function* () {
+    const store = yield* ProgressiveSessionStore;
+    const clock = yield* DialerClock;
+    const next: ProgressiveSession = {
+      ...session,
+      ...patch,
+      updatedAt: (yield* clock.now).toISOString(),
+    };
+    yield* store.setSession(next, ACTIVE_CALL_TTL_SECONDS);
+    return next;
+  });
+
+const releaseCallerId = (session: ProgressiveSession) =>
+  Effect.gen(function* () {
+    if (!session.callerIdNumber) return session;
+    const locks = yield* CallerIdLockStore;
+    yield* locks.release(session.callerIdNumber, session.sessionId);
+    return { ...session, callerIdNumber: null };
+  });
+
+const acquireCallerId = (
+  session: ProgressiveSession,
+  target: ProgressiveTarget,
+) =>
+  Effect.gen(function* () {
+    const runtime = yield* ProgressiveDialRuntime;
+    const locks = yield* CallerIdLockStore;
+    const candidates = yield* runtime.resolveCallerIds({
+      workspaceId: session.workspaceId,
+      userId: session.userId,
+      target,
+    });
+    for (const number of candidates) {
+      const acquired = yield* locks.acquire(
+        number,
+        session.userId,
+        session.sessionId,
+        ACTIVE_CALL_TTL_SECONDS,
+      );
+      if (acquired) return number;
+    }
+    return null;
+  });
+
+const endSession = (
+  session: ProgressiveSession,
+  reason: ProgressiveSessionEndReason,
+) =>
+  Effect.gen(function* () {
+    const released = yield* releaseCallerId(session);
+    return yield* saveSession(released, {
+      status: 'ended',
+      endedReason: reason,
+      currentGroupId: null,
+      currentTarget: null,
+      wrapUpEndsAt: null,
+    });
+  });
+
+/**
+ * Claims the next contact the compliance gate allows, skipping refused ones.
+ * A ready session retries the contact it claimed before caller IDs ran out.
+ */
+const claimCallableTarget = (session: ProgressiveSession) =>
+  Effect.gen(function* () {
+    const runtime = yield* ProgressiveDialRuntime;
+    const context = {
+      workspaceId: session.workspaceId,
+      userId: session.userId,
+    };
+    let pending = session.status === 'ready' ? session.currentTarget : null;
+    let skipped = 0;
+
+    while (skipped < MAX_COMPLIANCE_SKIPS) {
+      const target =
+        pending ??
+        (yield* runtime.nextTarget({ ...context, queueId: session.queueId }));
+      pending = null;
+      if (!target) return { target: null, skipped };
+
+      const { denials } = yield* checkDialCompliance({
+        ...context,
+        targets: [target],
+      });
+      if (denials.length === 0) return { target, skipped };
+
+      yield* runtime.skipTarget({
+        ...context,
+        queueId: session.queueId,
+        target,
+        reasons: denials[0].reasons,
+      });
+      skipped += 1;
+    }
+    return { target: undefined, skipped };
+  });
+
+const dialNext = (session: ProgressiveSession) =>
+  Effect.gen(function* () {
+    const locks = yield* CallerIdLockStore;
+    const released = yield* releaseCallerId(session);
+    const claim = yield* claimCallableTarget(released);
+    const skippedCount = released.skippedCount + claim.skipped;
+
+    if (claim.target === null) {
+      return yield* endSession(
+        { ...released, skippedCount },
+        'queue-exhausted',
+      );
+    }
+    if (claim.target === undefined) {
+      // leave the rest of the queue for the rep's next advance
+      return yield* saveSession(released, {
+        status: 'ready',
+        skippedCount,
+        currentGroupId: null,
+        currentTarget: null,
+        wrapUpEndsAt: null,
+      });
+    }
+
+    const target = claim.target;
+    // keeps the claimed contact so the next advance retries it
+    const holdTarget = saveSession(released, {
+      status: 'ready',
+      skippedCount,
+      currentGroupId: null,
+      currentTarget: target,
+      wrapUpEndsAt: null,
+    });
+    const callerIdNumber = yield* acquireCallerId(released, target);
+    if (!callerIdNumber) {
+      yield* holdTarget;
+      return yield* Effect.fail(
+        new DialerConflictError({
+          code: 'CALLER_ID_LOCKED',
+          message: 'Caller ID is in use',
+          retryAfterMs: 5000,
+          retryable: false,
+        }),
+      );
+    }
+
+    const dialed = yield* startParallelSession({
+      workspaceId: released.workspaceId,
+      dialerSessionId: released.sessionId,
+      customerNumbers: [target.phone],
+      contactIds: [target.contactId],
+      queueId: released.queueId,
+      userId: released.userId,
+      fromNumbers: [callerIdNumber],
+      statusCallbackUrl: released.statusCallbackUrl,
+      customerTwimlUrl: released.customerTwimlUrl,
+      profile: PROGRESSIVE_PROFILE,
+      campaignSegment: released.campaignSegment,
+      voicemailDrop: released.voicemailDrop,
+    }).pipe(
+      Effect.tapError(() =>
+        locks
+          .release(callerIdNumber, released.sessionId)
+          .pipe(
+            Effect.zipRight(holdTarget),
+            Effect.catchAll(() => Effect.void),
+          ),
+      ),
+    );
+
+    return yield* saveSession(released, {
+      status: 'dialing',
+      skippedCount,
+      currentGroupId: dialed.groupId,
+      currentTarget: target,
+      callerIdNumber,
+      wrapUpEndsAt: null,
+      dialedCount: released.dialedCount + 1,
+    });
+  }).pipe(Effect.withSpan('dialer.progressive_dial_next'));
+
+// dials when the session is due, otherwise returns it unchanged
+const advanceLoaded = (session: ProgressiveSession) =>
+  Effect.gen(function* () {
+    const state = yield* ParallelStateStore;
+    const clock = yield* DialerClock;
+    const group =
+      session.status === 'dialing' && session.currentGroupId
+        ? yield* state.getGroup(session.currentGroupId)
+        : null;
+    const now = yield* clock.now;
+    return nextProgressiveAction(session, group, now) === 'dial'
+      ? yield* dialNext(session)
+      : session;
+  });
+
+export const startProgressiveSession = (options: ProgressiveSessionOptions) =>
+  Effect.gen(function* () {
+    const ids = yield* DialerIdGenerator;
+    const clock = yield* DialerClock;
+    const store = yield* ProgressiveSessionStore;
+    const sessionId = yield* ids.generateDialerSessionId;
+    const session = createProgressiveSession(
+      sessionId,
+      options,
+      (yield* clock.now).toISOString(),
+    );
+    yield* store.setSession(session, ACTIVE_CALL_TTL_SECONDS);
+    // a session whose first contact waits on a caller ID still starts; the
+    // rep's next advance retries it
+    return yield* withSessionLock(sessionId, dialNext(session)).pipe(
+      Effect.catchIf(
+        (error) =>
+          error._tag === 'DialerConflictError' &&
+          error.code === 'CALLER_ID_LOCKED',
+        () => loadSession(sessionId),
+      ),
+    );
+  }).pipe(
+    Effect.withSpan('dialer.start_progressive_session'),
+    Effect.annotateLogs({ workspaceId: options.workspaceId }),
+  );
+
+export const getProgressiveSessionForWorkspace = (
+  sessionId: string,
+  workspaceId: string,
+) =>
+  Effect.gen(function* () {
+    const store = yield* ProgressiveSessionStore;
+    const session = yield* store.getSession(sessionId);
+    return session?.workspaceId === workspaceId ? session : null;
+  });
+
+/** Dials the next contact once wrap-up runs out or a call goes unanswered */
+export const advanceProgressiveSession = (sessionId: string) =>
+  withSessionLock(
+    sessionId,
+    loadSession(sessionId).pipe(Effect.flatMap(advanceLoaded)),
+  ).pipe(Effect.withSpan('dialer.advance_progressive_session'));
+
+/** Advances the session that placed a group, if any, after a status callback */
+export const advanceProgressiveSessionForGroup = (groupId: string) =>
+  Effect.gen(function* () {
+    const state = yield* ParallelStateStore;
+    const store = yield* ProgressiveSessionStore;
+    const group = yield* state.getGroup(groupId);
+    if (group?.profile.id !== 'progressive' || !group.dialerSessionId) {
+      return null;
+    }
+    const sessionId = group.dialerSessionId;
+    return yield* withSessionLock(
+      sessionId,
+      Effect.gen(function* () {
+        const session = yield* store.getSession(sessionId);
+        // a late callback for a call the session already moved past
+        if (!session || session.currentGroupId !== groupId) return null;
+        return yield* advanceLoaded(session);
+      }),
+    );
+  });
+
+/**
+ * Ends the current call and starts wrap-up. With no wrap-up configured the
+ * next contact is dialed straight away unless the rep is away.
+ */
+export const submitProgressiveDisposition = (
+  sessionId: string,
+  workspaceId: string,
+) =>
+  withSessionLock(
+    sessionId,
+    Effect.gen(function* () {
+      const clock = yield* DialerClock;
+      const session = yield* loadSession(sessionId, workspaceId);
+      if (session.status !== 'dialing') {
+        return yield* Effect.fail(
+          new DialerConflictError({
+            code: 'PROGRESSIVE_NOT_ON_CALL',
+            message: 'Progressive session has no call to disposition',
+            retryable: false,
+          }),
+        );
+      }
+
+      if (session.currentGroupId) {
+        yield* terminateCallSession(session.currentGroupId);
+      }
+      const released = yield* releaseCallerId(session);
+      const now = yield* clock.now;
+      const wrapUp = yield* saveSession(released, {
+        status: 'wrap-up',
+        currentGroupId: null,
+        currentTarget: null,
+        wrapUpEndsAt: new Date(
+          now.getTime() + session.wrapUpSeconds * 1000,
+        ).toISOString(),
+      });
+      return yield* advanceLoaded(wrapUp);
+    }),
+  ).pipe(Effect.withSpan('dialer.submit_progressive_disposition'));
+
+/** Rep went away: a live call carries on but nothing new is dialed */
+export const pauseProgressiveSession = (
+  sessionId: string,
+  workspaceId: string,
+) =>
+  withSessionLock(
+    sessionId,
+    Effect.gen(function* () {
+      const session = yield* loadSession(sessionId, workspaceId);
+      if (session.status === 'ended' || session.paused) return session;
+      return yield* saveSession(session, { paused: true });
+    }),
+  );
+
+/** Rep is back: dials at once if wrap-up already ran out while away */
+export const resumeProgressiveSession = (
+  sessionId: string,
+  workspaceId: string,
+) =>
+  withSessionLock(
+    sessionId,
+    Effect.gen(function* () {
+      const session = yield* loadSession(sessionId, workspaceId);
+      if (session.status === 'ended' || !session.paused) return session;
+      const resumed = yield* saveSession(session, { paused: false });
+      return yield* advanceLoaded(resumed);
+    }),
+  );
+
+export const endProgressiveSession = (sessionId: string, workspaceId: string) =>
+  withSessionLock(
+    sessionId,
+    Effect.gen(function* () {
+      const session = yield* loadSession(sessionId, workspaceId);
+      if (session.status === 'ended') return session;
+      if (session.currentGroupId) {
+        yield* terminateCallSession(session.currentGroupId);
+      }
+      return yield* endSession(session, 'stopped');
+    }),
+  ).pipe(Effect.withSpan('dialer.end_progressive_session'));
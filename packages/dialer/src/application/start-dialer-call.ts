@@ -11,6 +11,10 @@ import {
   type DialerCallStartResult,
   type StartDialerCallInput,
 } from '../ports/dialer-call-start.js';
+import {
+  checkDialCompliance,
+  complianceError,
+} from './check-dial-compliance.js';
 
 export type StartDialerCallCommand = {
   workspaceId: string;
@@ -186,19 +190,33 @@ export const startDialerCall = (command: StartDialerCallCommand) =>
       });
     }
 
+    // refused targets drop out of the batch; the start fails only when
+    // nobody is left to call
+    const compliance = yield* checkDialCompliance({
+      ...context,
+      targets: uniqueTargets,
+    });
+    if (compliance.allowed.length === 0 && compliance.denials.length > 0) {
+      return yield* Effect.fail(complianceError(compliance.denials));
+    }
+    const callableTargets = compliance.allowed;
+
     const callerIds = yield* runtime.resolveCallerIds({
       ...context,
       callerIdNumber: command.input.callerIdNumber,
       callMode,
       enforceScenarioAllowlist,
       preferLocalPresence: command.input.preferLocalPresence !== false,
-      targets: uniqueTargets,
+      targets: callableTargets,
     });
     const capacity = computeDialerCallCapacity({
       requestedFanout,
-      callableTargetCount: uniqueTargets.length,
+      callableTargetCount: callableTargets.length,
       availableCallerIdCount: callerIds.length,
     });
+    if (compliance.denials.length > 0) {
+      capacity.reducedCapacityReasons.push('compliance-denied');
+    }
     if (capacity.actualFanout === 0) {
       return yield* Effect.fail(
         requestError(
@@ -209,7 +227,7 @@ export const startDialerCall = (command: StartDialerCallCommand) =>
       );
     }
 
-    const selectedTargets = uniqueTargets.slice(0, capacity.actualFanout);
+    const selectedTargets = callableTargets.slice(0, capacity.actualFanout);
     const selectedCallerIds = callerIds.slice(0, capacity.actualFanout);
     const queueId =
       command.input.source === 'direct'
@@ -17,6 +17,7 @@ import type {
   ParallelDialResult,
   ParallelGroup,
 } from '../types.js';
+import { assertDialCompliance } from './check-dial-compliance.js';
 import { executeCleanupActions } from './cleanup-actions.js';
 
 export type StartParallelSessionOptions = {
@@ -87,6 +88,16 @@ export const startParallelSession = (
 ) =>
   Effect.gen(function* () {
     yield* Effect.logDebug('Starting parallel dial session');
+    // the caller picked this batch and locked its caller IDs, so any refused
+    // leg rejects the whole session before a group is created
+    yield* assertDialCompliance({
+      workspaceId: input.workspaceId,
+      userId: input.userId,
+      targets: input.customerNumbers.map((phone, index) => ({
+        phone,
+        contactId: input.contactIds?.[index] ?? null,
+      })),
+    });
     const provider = yield* CallProvider;
     const state = yield* ParallelStateStore;
     const clock = yield* DialerClock;
@@ -109,6 +120,7 @@ export const startParallelSession = (
             from: input.fromNumbers[index],
             customerTwimlUrl: input.customerTwimlUrl,
             statusCallbackUrl: input.statusCallbackUrl,
+            ...(input.voicemailDrop ? { detectMessageEnd: true } : {}),
           })
           .pipe(
             Effect.timeoutFail({
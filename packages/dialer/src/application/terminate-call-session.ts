@@ -1,6 +1,9 @@
 import { Effect } from 'effect';
 
-import { isTerminalCallStatus } from '../domain/parallel-call.js';
+import {
+  isPlayingRecording,
+  isTerminalCallStatus,
+} from '../domain/parallel-call.js';
 import { CallProvider } from '../ports/call-provider.js';
 import { DialerClock } from '../ports/clock.js';
 import { ParallelStateStore } from '../ports/parallel-state-store.js';
@@ -18,7 +21,11 @@ export const terminateCallSession = (groupId: string) =>
       if (!group) return;
       const occurredAt = (yield* clock.now).toISOString();
       const actions = group.calls
-        .filter((call) => !isTerminalCallStatus(call.status))
+        // let an in-flight voicemail drop or disclosure finish
+        .filter(
+          (call) =>
+            !isTerminalCallStatus(call.status) && !isPlayingRecording(call),
+        )
         .map((call) => ({
           type: 'terminate-call' as const,
           callSid: call.callSid,
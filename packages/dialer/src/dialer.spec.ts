@@ -1,4 +1,5 @@
 import { Dialer } from './dialer';
+import { InMemoryComplianceStore } from './infrastructure/memory/compliance-store';
 import { LocalPresenceService } from './services/local-presence';
 import type { PhoneNumber } from './types';
 
@@ -139,3 +140,58 @@ describe('Dialer.resolveCallerId', () => {
     );
   });
 });
+
+describe('Dialer provider selection', () => {
+  const originalFetch = globalThis.fetch;
+  const telnyx = {
+    apiKey: 'KEY_test',
+    accountSid: 'acct-1',
+    texmlApplicationId: 'app-1',
+    baseUrl: 'https://telnyx.test/v2',
+  };
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('should place parallel dials through Telnyx TeXML', async () => {
+    const fetchMock = jest.fn(
+      async () => new Response(JSON.stringify({ call_sid: 'v3:telnyx-1' })),
+    );
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const dialer = new Dialer({ provider: 'telnyx', telnyx }).withCompliance(
+      new InMemoryComplianceStore({ callingWindow: null, fallbackTimezone: null }),
+    );
+
+    const result = await dialer.parallel.initiateGroup({
+      workspaceId: 'workspace-1',
+      queueId: 'queue-1',
+      customerNumbers: ['+15551111111'],
+      fromNumbers: ['+15554444444'],
+      userId: 'user-1',
+      statusCallbackUrl: 'https://example.com/status',
+      customerTwimlUrl: 'https://example.com/twiml',
+      profile: {
+        id: 'balanced',
+        fanout: 1,
+        staggerMs: 1,
+        amdPolicy: 'human-or-unknown',
+        terminationPolicy: 'winner-take-all',
+      },
+    });
+
+    expect(result.calls.map((call) => call.callSid)).toEqual(['v3:telnyx-1']);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://telnyx.test/v2/texml/calls/app-1',
+      expect.objectContaining({ method: 'POST' }),
+    );
+  });
+
+  it('should refuse conference operations instead of calling Twilio', async () => {
+    const dialer = new Dialer({ provider: 'telnyx', telnyx });
+
+    await expect(dialer.conference.findConferenceSid('room-1')).rejects.toThrow(
+      'not supported with the telnyx provider',
+    );
+  });
+});
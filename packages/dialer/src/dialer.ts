@@ -1,5 +1,18 @@
+import { Effect, Layer } from 'effect';
+
+import { checkDialCompliance } from './application/check-dial-compliance.js';
+import { describeComplianceDenial } from './domain/compliance.js';
+import {
+  createDialerComplianceLayer,
+  InMemoryComplianceStore,
+} from './infrastructure/memory/compliance-store.js';
+import { liveDialerClockLayer } from './infrastructure/memory/runtime.js';
+import { createTelnyxCallProviderLayer } from './infrastructure/telnyx/call-provider.js';
 import type { DialerProvider } from './providers/base.js';
+import type { MessagingProvider } from './providers/messaging.js';
 import type {
+  ComplianceDenial,
+  ComplianceStore,
   DialerConfig,
   DialOptions,
   DialResult,
@@ -9,15 +22,22 @@ import type {
   ProvisionResult,
   TransferOptions,
   TransferResult,
+  SupervisionMode,
+  SupervisionOptions,
+  SupervisionResult,
   ConferenceParticipant,
   ParallelStore,
+  ProgressiveTargetSource,
   SearchAvailableNumbersOptions,
   AvailableNumber,
   ReleaseResult,
   PhoneNumber,
   ResolveCallerIdResult,
+  SendMessageOptions,
+  SendMessageResult,
 } from './types.js';
 import { TwilioProvider } from './providers/twilio.js';
+import { TelnyxProvider } from './providers/telnyx.js';
 import {
   LocalPresenceService,
   type NumberPool,
@@ -28,6 +48,7 @@ import {
   ParallelDialerService,
   InMemoryParallelStore,
 } from './services/parallel-dialer.js';
+import { ProgressiveDialerService } from './services/progressive-dialer.js';
 
 /**
  * Main Dialer class — the public API for @consuelo/dialer.
@@ -45,27 +66,62 @@ import {
  */
 export class Dialer {
   readonly provider: DialerProvider;
+  readonly messaging: MessagingProvider;
   localPresence: LocalPresenceService;
   readonly conference: ConferenceService;
   readonly parallel: ParallelDialerService;
+  readonly progressive: ProgressiveDialerService;
   private callerIdLock?: CallerIdLockService;
+  private compliance: ComplianceStore = new InMemoryComplianceStore();
   private config: DialerConfig;
 
   constructor(config: DialerConfig = {}, parallelStore?: ParallelStore) {
     this.config = config;
-    this.provider = new TwilioProvider(config.credentials);
+    const telnyx = config.provider === 'telnyx';
+    const provider = telnyx
+      ? new TelnyxProvider(config.telnyx)
+      : new TwilioProvider(config.credentials);
+    this.provider = provider;
+    this.messaging = config.messaging ?? provider;
     this.localPresence = new LocalPresenceService();
-    this.conference = new ConferenceService(config.credentials);
+    // conference orchestration is Twilio-only and refuses to run for other providers
+    this.conference = new ConferenceService(config.credentials, {
+      provider: config.provider,
+    });
+    const callProvider = telnyx
+      ? createTelnyxCallProviderLayer(config.telnyx)
+      : config.credentials;
+    const store = parallelStore ?? new InMemoryParallelStore();
     this.parallel = new ParallelDialerService(
-      config.credentials,
-      parallelStore ?? new InMemoryParallelStore(),
-    );
+      callProvider,
+      store,
+    ).withCompliance(this.compliance);
+    // progressive dials are one-leg parallel groups, so both share one store
+    this.progressive = new ProgressiveDialerService(
+      callProvider,
+      store,
+    ).withCompliance(this.compliance);
   }
 
   // lets api layers share one lock service so caller-id locking stays consistent across requests.
   withCallerIdLock(service: CallerIdLockService): this {
     this.callerIdLock = service;
     this.parallel.withCallerIdLock(service);
+    this.progressive.withCallerIdLock(service);
+    return this;
+  }
+
+  // swaps the process-local quiet-hours default for workspace DNC lists and suppressions.
+  withCompliance(store: ComplianceStore): this {
+    this.compliance = store;
+    this.parallel.withCompliance(store);
+    this.progressive.withCompliance(store);
+    return this;
+  }
+
+  // progressive sessions pull contacts and caller IDs from the host's queues.
+  withProgressiveTargets(source: ProgressiveTargetSource): this {
+    this.progressive.withTargetSource(source);
     return this;
   }
 
@@ -133,9 +189,32 @@ export class Dialer {
     );
   }
 
+  /** Compliance denial for one outbound call, or null when it may proceed */
+  checkCompliance(
+    options: Pick<DialOptions, 'to' | 'userId' | 'workspaceId' | 'contactId'>,
+  ): Promise<ComplianceDenial | null> {
+    return Effect.runPromise(
+      checkDialCompliance({
+        workspaceId: options.workspaceId ?? '',
+        userId: options.userId,
+        targets: [{ phone: options.to, contactId: options.contactId }],
+      }).pipe(
+        Effect.provide(
+          Layer.merge(
+            createDialerComplianceLayer(this.compliance),
+            liveDialerClockLayer,
+          ),
+        ),
+      ),
+    ).then((result) => result.denials[0] ?? null);
+  }
+
   /**
    * Initiate an outbound call.
    *
+   * Calls refused by the compliance gate (quiet hours, DNC lists, contact
+   * suppression) resolve with `success: false` and the `denial`.
+   *
    * Number selection priority:
    *  1. options.callerIdNumber (manual override)
    *  2. Local presence match (if localPresence enabled and numberPool provided)
@@ -146,6 +225,15 @@ export class Dialer {
     options: DialOptions,
     numberPool?: NumberPool,
   ): Promise<DialResult> {
+    const denial = await this.checkCompliance(options);
+    if (denial) {
+      return {
+        success: false,
+        error: describeComplianceDenial(denial),
+        denial,
+      };
+    }
+
     const resolution = await this.resolveCallerId(options, numberPool);
     const callerIdNumber = resolution.callerIdNumber;
     const selectionMethod = resolution.selectionMethod;
@@ -213,6 +301,11 @@ export class Dialer {
     return this.provider.getToken(userId);
   }
 
+  /** Send an SMS through the configured messaging provider */
+  async sendMessage(options: SendMessageOptions): Promise<SendMessageResult> {
+    return this.messaging.sendMessage(options);
+  }
+
   /** Provision a new phone number */
   async provisionNumber(
     options: ProvisionNumberOptions,
@@ -291,13 +384,47 @@ export class Dialer {
     return this.conference.cancelTransfer(conferenceSid, transferCallSid);
   }
 
+  /** Bring a supervisor into a live conference — listen, whisper or barge */
+  async addSupervisor(options: SupervisionOptions): Promise<SupervisionResult> {
+    return this.conference.addSupervisor(options);
+  }
+
+  /** Move a supervisor between listen, whisper and barge */
+  async setSupervisorMode(
+    conferenceSid: string,
+    supervisorCallSid: string,
+    mode: SupervisionMode,
+    agentCallSid: string,
+  ): Promise<SupervisionResult> {
+    return this.conference.setSupervisorMode(
+      conferenceSid,
+      supervisorCallSid,
+      mode,
+      agentCallSid,
+    );
+  }
+
+  /** Remove a participant (e.g. a supervisor) from a conference */
+  async removeParticipant(
+    conferenceSid: string,
+    callSid: string,
+  ): Promise<void> {
+    return this.conference.removeParticipant(conferenceSid, callSid);
+  }
+
   /** Hold or unhold a participant in a conference */
   async holdParticipant(
     conferenceSid: string,
     callSid: string,
     hold: boolean,
+    holdUrl?: string,
   ): Promise<void> {
-    return this.conference.holdParticipant(conferenceSid, callSid, hold);
+    return this.conference.holdParticipant(
+      conferenceSid,
+      callSid,
+      hold,
+      holdUrl,
+    );
   }
 
   /** Mute or unmute a participant in a conference */
@@ -352,4 +479,14 @@ export class Dialer {
   ): Promise<{ url: string; duration: number }> {
     return this.conference.getRecording(recordingSid);
   }
+
+  /** Download a recording's audio as WAV */
+  async downloadRecording(recordingSid: string): Promise<Uint8Array> {
+    return this.conference.downloadRecording(recordingSid);
+  }
+
+  /** Delete a recording from the provider */
+  async deleteRecording(recordingSid: string): Promise<void> {
+    return this.conference.deleteRecording(recordingSid);
+  }
 }
@@ -0,0 +1,47 @@
+import { abandonRate, governFanout } from './abandon-rate';
+
+describe('abandonRate', () => {
+  it('is null before any live answers', () => {
+    expect(abandonRate({ humanAnswers: 0, abandonedCalls: 0 })).toBeNull();
+  });
+
+  it('divides abandoned calls by live answers', () => {
+    expect(abandonRate({ humanAnswers: 200, abandonedCalls: 3 })).toBe(0.015);
+  });
+});
+
+describe('governFanout', () => {
+  it('leaves the profile alone below the approach point', () => {
+    expect(governFanout(4, 0.02)).toEqual({ action: 'none', fanout: 4 });
+    expect(governFanout(4, null)).toEqual({ action: 'none', fanout: 4 });
+  });
+
+  it('takes lines off as the rate nears the ceiling', () => {
+    expect(governFanout(4, 0.025)).toEqual({ action: 'reduced', fanout: 3 });
+    expect(governFanout(4, 0.029)).toEqual({ action: 'reduced', fanout: 1 });
+  });
+
+  it('dials a single line at or over the ceiling', () => {
+    expect(governFanout(3, 0.03)).toEqual({
+      action: 'single-line',
+      fanout: 1,
+    });
+    expect(governFanout(3, 0.1)).toEqual({
+      action: 'single-line',
+      fanout: 1,
+    });
+  });
+
+  it('has nothing to cut from a one-line profile', () => {
+    expect(governFanout(1, 0.1)).toEqual({ action: 'none', fanout: 1 });
+  });
+
+  it('honours a configured ceiling', () => {
+    const config = { ceiling: 0.05, windowDays: 7, approachRatio: 0.5 };
+
+    expect(governFanout(3, 0.03, config)).toEqual({
+      action: 'reduced',
+      fanout: 2,
+    });
+  });
+});
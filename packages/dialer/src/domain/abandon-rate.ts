@@ -0,0 +1,46 @@
+import type {
+  AbandonRateAction,
+  AbandonRateGovernorConfig,
+  AbandonRateWindow,
+} from '../types.js';
+
+export const DEFAULT_ABANDON_RATE_CONFIG: AbandonRateGovernorConfig = {
+  ceiling: 0.03,
+  windowDays: 30,
+  approachRatio: 0.8,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Abandoned share of live answers, or null before the first live answer */
+export const abandonRate = (window: AbandonRateWindow): number | null =>
+  window.humanAnswers > 0 ? window.abandonedCalls / window.humanAnswers : null;
+
+export const abandonWindowStart = (now: Date, windowDays: number): string =>
+  new Date(now.getTime() - windowDays * DAY_MS).toISOString();
+
+/**
+ * Line count allowed at the current abandon rate. Below the approach point
+ * the profile dials as-is; across the approach band lines come off linearly
+ * down to one; at or over the ceiling only one line dials, which cannot
+ * abandon a call.
+ */
+export const governFanout = (
+  fanout: number,
+  rate: number | null,
+  config: AbandonRateGovernorConfig = DEFAULT_ABANDON_RATE_CONFIG,
+): { action: AbandonRateAction; fanout: number } => {
+  const approach = config.ceiling * config.approachRatio;
+  if (rate === null || rate < approach || fanout <= 1) {
+    return { action: 'none', fanout };
+  }
+  if (rate >= config.ceiling) {
+    return { action: 'single-line', fanout: 1 };
+  }
+
+  const headroom = (config.ceiling - rate) / (config.ceiling - approach);
+  const allowed = Math.max(1, Math.floor(1 + (fanout - 1) * headroom));
+  return allowed < fanout
+    ? { action: 'reduced', fanout: allowed }
+    : { action: 'none', fanout };
+};
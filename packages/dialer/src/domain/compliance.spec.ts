@@ -0,0 +1,104 @@
+import {
+  DEFAULT_COMPLIANCE_POLICY,
+  evaluateDialCompliance,
+  parseDncFile,
+  timezoneForPhone,
+} from './compliance';
+
+// 17:30 UTC: 10:30 in Los Angeles, 13:30 in New York, 07:30 in Honolulu
+const now = new Date('2026-03-16T17:30:00.000Z');
+
+describe('timezoneForPhone', () => {
+  it('derives the zone from the NANP area code', () => {
+    expect(timezoneForPhone('+14155550100')).toBe('America/Los_Angeles');
+    expect(timezoneForPhone('(212) 555-0100')).toBe('America/New_York');
+    expect(timezoneForPhone('+18085550100')).toBe('Pacific/Honolulu');
+  });
+
+  it('returns null for unknown area codes and non-NANP numbers', () => {
+    expect(timezoneForPhone('+15555550100')).toBeNull();
+    expect(timezoneForPhone('+442071838750')).toBeNull();
+  });
+});
+
+describe('evaluateDialCompliance', () => {
+  it('allows a contact inside their local calling window', () => {
+    expect(
+      evaluateDialCompliance(
+        { phone: '+14155550100' },
+        { now, policy: DEFAULT_COMPLIANCE_POLICY },
+      ),
+    ).toBeNull();
+  });
+
+  it('refuses a contact whose local time is before 8am', () => {
+    expect(
+      evaluateDialCompliance(
+        { phone: '+18085550100', contactId: 'contact-1' },
+        { now, policy: DEFAULT_COMPLIANCE_POLICY },
+      ),
+    ).toEqual({
+      phone: '+18085550100',
+      contactId: 'contact-1',
+      reasons: ['OUTSIDE_CALLING_HOURS'],
+      timezone: 'Pacific/Honolulu',
+    });
+  });
+
+  it('checks unknown area codes in the fallback zone and refuses them without one', () => {
+    const policy = {
+      callingWindow: { startHour: 9, endHour: 12 },
+      fallbackTimezone: 'America/New_York',
+    };
+
+    expect(
+      evaluateDialCompliance({ phone: '+15555550100' }, { now, policy })
+        ?.reasons,
+    ).toEqual(['OUTSIDE_CALLING_HOURS']);
+    expect(
+      evaluateDialCompliance(
+        { phone: '+15555550100' },
+        { now, policy: { ...policy, fallbackTimezone: null } },
+      ),
+    ).toEqual({
+      phone: '+15555550100',
+      contactId: null,
+      reasons: ['UNKNOWN_TIMEZONE'],
+      timezone: null,
+    });
+  });
+
+  it('collects every DNC and suppression reason', () => {
+    expect(
+      evaluateDialCompliance(
+        { phone: '+14155550100' },
+        {
+          now,
+          policy: { callingWindow: null, fallbackTimezone: null },
+          dncSources: ['workspace', 'national'],
+          suppressed: true,
+        },
+      )?.reasons,
+    ).toEqual(['WORKSPACE_DNC', 'NATIONAL_DNC', 'CONTACT_SUPPRESSED']);
+  });
+});
+
+describe('parseDncFile', () => {
+  it('reads plain lists, CSV first columns and registry area-code rows', () => {
+    const contents = [
+      'phone,name',
+      '+1 (415) 555-0100,Ada',
+      '212,5550100',
+      '3105550100',
+      '',
+      'not a number',
+      '4155550100',
+    ].join('\r\n');
+
+    expect(parseDncFile(contents)).toEqual([
+      '+14155550100',
+      '+12125550100',
+      '+13105550100',
+    ]);
+  });
+});
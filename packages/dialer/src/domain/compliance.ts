@@ -0,0 +1,136 @@
+import type {
+  CallingWindow,
+  ComplianceDenial,
+  ComplianceDenialReason,
+  CompliancePolicy,
+  ComplianceTarget,
+  DncListSource,
+} from '../types.js';
+import { timezoneForAreaCode } from './area-code-timezones.js';
+
+/** TCPA quiet hours: no calls before 8am or from 9pm contact-local time */
+export const DEFAULT_CALLING_WINDOW: CallingWindow = {
+  startHour: 8,
+  endHour: 21,
+};
+
+export const DEFAULT_COMPLIANCE_POLICY: CompliancePolicy = {
+  callingWindow: DEFAULT_CALLING_WINDOW,
+  fallbackTimezone: null,
+};
+
+const DNC_REASONS: Record<DncListSource, ComplianceDenialReason> = {
+  workspace: 'WORKSPACE_DNC',
+  national: 'NATIONAL_DNC',
+};
+
+/**
+ * Normalizes a US/Canada number to E.164. Other numbers pass through with
+ * only their digits kept; returns null when the digit count cannot be E.164.
+ */
+export const normalizeDialNumber = (phone: string): string | null => {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return digits.length > 10 && digits.length <= 15 ? `+${digits}` : null;
+};
+
+/** Contact-local timezone derived from a number's NANP area code */
+export const timezoneForPhone = (phone: string): string | null => {
+  const normalized = normalizeDialNumber(phone);
+  return normalized?.startsWith('+1') && normalized.length === 12
+    ? timezoneForAreaCode(normalized.slice(2, 5))
+    : null;
+};
+
+export const localHourIn = (timezone: string, now: Date): number =>
+  Number(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: 'numeric',
+      hourCycle: 'h23',
+    }).format(now),
+  );
+
+export const isWithinCallingWindow = (
+  window: CallingWindow,
+  timezone: string,
+  now: Date,
+): boolean => {
+  const hour = localHourIn(timezone, now);
+  return hour >= window.startHour && hour < window.endHour;
+};
+
+/**
+ * Checks one target against quiet hours, the DNC lists it was found on and
+ * per-contact suppression. Returns null when the dial may go ahead.
+ */
+export const evaluateDialCompliance = (
+  target: ComplianceTarget,
+  input: {
+    now: Date;
+    policy: CompliancePolicy;
+    dncSources?: readonly DncListSource[];
+    suppressed?: boolean;
+  },
+): ComplianceDenial | null => {
+  const reasons: ComplianceDenialReason[] = [];
+  const timezone =
+    timezoneForPhone(target.phone) ?? input.policy.fallbackTimezone;
+
+  // without a contact-local zone the quiet-hours check can't pass
+  if (input.policy.callingWindow && !timezone) {
+    reasons.push('UNKNOWN_TIMEZONE');
+  } else if (
+    input.policy.callingWindow &&
+    timezone &&
+    !isWithinCallingWindow(input.policy.callingWindow, timezone, input.now)
+  ) {
+    reasons.push('OUTSIDE_CALLING_HOURS');
+  }
+  for (const source of input.dncSources ?? []) {
+    reasons.push(DNC_REASONS[source]);
+  }
+  if (input.suppressed) reasons.push('CONTACT_SUPPRESSED');
+
+  return reasons.length === 0
+    ? null
+    : {
+        phone: target.phone,
+        contactId: target.contactId ?? null,
+        reasons,
+        timezone,
+      };
+};
+
+/**
+ * Reads an imported DNC file — one number per line, CSV with the number in
+ * the first column, or the registry's `areacode,number` layout — into unique
+ * E.164 numbers. Headers and unparseable lines are skipped.
+ */
+export const parseDncFile = (contents: string): string[] => {
+  const numbers = new Set<string>();
+  for (const line of contents.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const value = /^[\d\s,.()+-]+$/.test(trimmed)
+      ? trimmed
+      : (trimmed.split(',')[0] ?? '');
+    const normalized = normalizeDialNumber(value);
+    if (normalized) numbers.add(normalized);
+  }
+  return [...numbers];
+};
+
+const REASON_MESSAGES: Record<ComplianceDenialReason, string> = {
+  OUTSIDE_CALLING_HOURS: 'outside contact-local calling hours',
+  UNKNOWN_TIMEZONE: 'in an unknown timezone with no fallback zone configured',
+  WORKSPACE_DNC: 'on the workspace do-not-call list',
+  NATIONAL_DNC: 'on the national do-not-call list',
+  CONTACT_SUPPRESSED: 'suppressed from calling',
+};
+
+export const describeComplianceDenial = (denial: ComplianceDenial): string =>
+  `${denial.phone} is ${denial.reasons
+    .map((reason) => REASON_MESSAGES[reason])
+    .join(' and ')}`;
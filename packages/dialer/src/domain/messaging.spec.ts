@@ -0,0 +1,20 @@
+import { classifySmsKeyword } from './messaging';
+
+describe('classifySmsKeyword', () => {
+  it.each([
+    ['STOP', 'opt_out'],
+    [' stop ', 'opt_out'],
+    ['Unsubscribe.', 'opt_out'],
+    ['quit!', 'opt_out'],
+    ['START', 'opt_in'],
+    ['unstop', 'opt_in'],
+  ])('classifies %p as %s', (body, keyword) => {
+    expect(classifySmsKeyword(body)).toBe(keyword);
+  });
+
+  it('ignores keywords inside a longer reply', () => {
+    expect(classifySmsKeyword('Please stop calling me at work')).toBeNull();
+    expect(classifySmsKeyword('Can we start at 3pm?')).toBeNull();
+    expect(classifySmsKeyword('')).toBeNull();
+  });
+});
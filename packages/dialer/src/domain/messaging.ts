@@ -0,0 +1,23 @@
+import type { SmsKeyword } from '../types.js';
+
+// Carrier-standard keywords; only a message consisting of the keyword counts
+const OPT_OUT_KEYWORDS = new Set([
+  'STOP',
+  'STOPALL',
+  'UNSUBSCRIBE',
+  'CANCEL',
+  'END',
+  'QUIT',
+]);
+
+const OPT_IN_KEYWORDS = new Set(['START', 'UNSTOP']);
+
+export const classifySmsKeyword = (body: string): SmsKeyword | null => {
+  const word = body
+    .trim()
+    .replace(/[.!]+$/, '')
+    .toUpperCase();
+  if (OPT_OUT_KEYWORDS.has(word)) return 'opt_out';
+  if (OPT_IN_KEYWORDS.has(word)) return 'opt_in';
+  return null;
+};
@@ -0,0 +1,87 @@
+import { isNumberResting, scoreNumberHealth } from './number-reputation';
+
+describe('scoreNumberHealth', () => {
+  it('scores a number with too few attempts as fully healthy', () => {
+    expect(
+      scoreNumberHealth({
+        attempts: 5,
+        answered: 0,
+        shortHangups: 0,
+        attemptsToday: 5,
+      }),
+    ).toEqual({
+      score: 100,
+      answerRate: 0,
+      shortHangupRate: null,
+      flags: [],
+      flagged: false,
+    });
+  });
+
+  it('flags numbers whose answer rate collapsed', () => {
+    const reputation = scoreNumberHealth({
+      attempts: 100,
+      answered: 4,
+      shortHangups: 0,
+      attemptsToday: 30,
+    });
+
+    expect(reputation.flags).toEqual(['low_answer_rate']);
+    expect(reputation.flagged).toBe(true);
+    expect(reputation.score).toBe(63);
+  });
+
+  it('flags numbers answered and hung up on immediately', () => {
+    const reputation = scoreNumberHealth({
+      attempts: 100,
+      answered: 20,
+      shortHangups: 12,
+      attemptsToday: 30,
+    });
+
+    expect(reputation.flags).toEqual(['short_hangups']);
+    expect(reputation.score).toBe(57);
+  });
+
+  it('reports the daily limit without flagging the number for rest', () => {
+    const reputation = scoreNumberHealth(
+      { attempts: 100, answered: 30, shortHangups: 0, attemptsToday: 50 },
+      {
+        minAnswerRate: 0.08,
+        maxShortHangupRate: 0.35,
+        maxDailyAttempts: 50,
+        minAttempts: 20,
+        shortCallSeconds: 6,
+        restHours: 48,
+      },
+    );
+
+    expect(reputation).toMatchObject({
+      score: 100,
+      flags: ['daily_limit'],
+      flagged: false,
+    });
+  });
+});
+
+describe('isNumberResting', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('is true only while the rest period is in the future', () => {
+    const health = {
+      attempts: 0,
+      answered: 0,
+      shortHangups: 0,
+      attemptsToday: 0,
+    };
+
+    expect(
+      isNumberResting({ ...health, restedUntil: '2026-03-02T00:00:00Z' }, now),
+    ).toBe(true);
+    expect(
+      isNumberResting({ ...health, restedUntil: '2026-03-01T00:00:00Z' }, now),
+    ).toBe(false);
+    expect(isNumberResting({ ...health, restedUntil: null }, now)).toBe(false);
+    expect(isNumberResting(undefined, now)).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import type {
+  NumberHealth,
+  NumberReputation,
+  ReputationFlag,
+  ReputationThresholds,
+} from '../types.js';
+
+export const DEFAULT_REPUTATION_THRESHOLDS: ReputationThresholds = {
+  minAnswerRate: 0.08,
+  maxShortHangupRate: 0.35,
+  maxDailyAttempts: 100,
+  minAttempts: 20,
+  shortCallSeconds: 6,
+  restHours: 48,
+};
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Scores a number from its recent outcomes. Half the score comes from answer
+ * rate (full marks at twice the minimum), half from short-hangup rate (zero
+ * at twice the maximum). Numbers without enough attempts score 100.
+ */
+export const scoreNumberHealth = (
+  health: NumberHealth,
+  thresholds: ReputationThresholds = DEFAULT_REPUTATION_THRESHOLDS,
+): NumberReputation => {
+  const flags: ReputationFlag[] = [];
+  const sampled = health.attempts >= thresholds.minAttempts;
+  const answerRate =
+    health.attempts > 0 ? health.answered / health.attempts : null;
+  const shortHangupRate =
+    health.answered > 0 ? health.shortHangups / health.answered : null;
+
+  let score = 100;
+  if (sampled && answerRate !== null) {
+    const answerScore = clamp(answerRate / (thresholds.minAnswerRate * 2));
+    const hangupScore =
+      1 - clamp((shortHangupRate ?? 0) / (thresholds.maxShortHangupRate * 2));
+    score = Math.round(50 * answerScore + 50 * hangupScore);
+
+    if (answerRate < thresholds.minAnswerRate) flags.push('low_answer_rate');
+    if ((shortHangupRate ?? 0) > thresholds.maxShortHangupRate) {
+      flags.push('short_hangups');
+    }
+  }
+  const flagged = flags.length > 0;
+  if (health.attemptsToday >= thresholds.maxDailyAttempts) {
+    flags.push('daily_limit');
+  }
+
+  return { score, answerRate, shortHangupRate, flags, flagged };
+};
+
+export const isNumberResting = (
+  health: NumberHealth | undefined,
+  now: Date = new Date(),
+): boolean =>
+  !!health?.restedUntil &&
+  new Date(health.restedUntil).getTime() > now.getTime();
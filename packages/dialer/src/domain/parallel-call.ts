@@ -20,6 +20,27 @@ export const normalizeAmdResult = (
   return 'machine';
 };
 
+// Twilio `DetectMessageEnd` reports where the greeting stopped, not just that
+// a machine answered; only these are safe points to start a voicemail drop.
+const MESSAGE_END_AMD_RESULTS = new Set([
+  'machine_end_beep',
+  'machine_end_silence',
+  'machine_end_other',
+]);
+
+export const isMessageEndAmd = (answeredBy: string | undefined): boolean =>
+  answeredBy !== undefined && MESSAGE_END_AMD_RESULTS.has(answeredBy);
+
+export const isVoicemailDropped = (call: ParallelCall): boolean =>
+  call.outcome === 'voicemail_dropped';
+
+export const isAbandoned = (call: ParallelCall): boolean =>
+  call.outcome === 'abandoned' || call.outcome === 'safe_harbor';
+
+// legs playing a recording hang up when it ends, so cleanup leaves them be
+export const isPlayingRecording = (call: ParallelCall): boolean =>
+  call.outcome === 'voicemail_dropped' || call.outcome === 'safe_harbor';
+
 export type ProviderCallStatusEvent = {
   callStatus: string;
   answeredBy?: string;
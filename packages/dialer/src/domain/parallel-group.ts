@@ -4,7 +4,7 @@ import type {
   ParallelDialOptions,
   ParallelGroup,
 } from '../types.js';
-import { isTerminalCallStatus } from './parallel-call.js';
+import { isTerminalCallStatus, isVoicemailDropped } from './parallel-call.js';
 
 export const createParallelGroup = (
   groupId: string,
@@ -24,6 +24,8 @@ export const createParallelGroup = (
   createdAt,
   campaignSegment: options.campaignSegment,
   profile: options.profile,
+  ...(options.voicemailDrop ? { voicemailDrop: options.voicemailDrop } : {}),
+  ...(options.safeHarbor ? { safeHarbor: options.safeHarbor } : {}),
   resolverReason: 'route-resolved',
   cleanupFailures: [],
 });
@@ -47,9 +49,13 @@ export const completeGroupIfResolved = (
   group: ParallelGroup,
   occurredAt: string,
 ): ParallelGroup => {
+  // a leg playing a voicemail drop can no longer connect to the rep
   if (
     group.winnerSid ||
-    !group.calls.every((call) => isTerminalCallStatus(call.status))
+    group.completedAt ||
+    !group.calls.every(
+      (call) => isTerminalCallStatus(call.status) || isVoicemailDropped(call),
+    )
   ) {
     return group;
   }
@@ -165,6 +165,112 @@ describe('parallel provider callback transition', () => {
     ]);
   });
 
+  it('keeps a message-end machine leg alive for the voicemail drop', () => {
+    const group = {
+      ...baseGroup(),
+      voicemailDrop: {
+        greetingId: 'greeting-1',
+        recordingUrl: 'https://storage.test/greeting.mp3',
+      },
+    };
+
+    const result = planProviderCallbackTransition(group, {
+      callSid: 'CA_first',
+      callStatus: 'in-progress',
+      answeredBy: 'machine_end_beep',
+      occurredAt: now,
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.plan.group.calls[0]).toEqual(
+      expect.objectContaining({
+        status: 'in-progress',
+        amdResult: 'machine',
+        outcome: 'voicemail_dropped',
+      }),
+    );
+    expect(result.plan.actions).toEqual([]);
+  });
+
+  it('still terminates machine legs that never reached the message end', () => {
+    const group = {
+      ...baseGroup(),
+      voicemailDrop: {
+        greetingId: 'greeting-1',
+        recordingUrl: 'https://storage.test/greeting.mp3',
+      },
+    };
+
+    const result = planProviderCallbackTransition(group, {
+      callSid: 'CA_first',
+      callStatus: 'in-progress',
+      answeredBy: 'fax',
+      occurredAt: now,
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.plan.group.calls[0].outcome).toBeUndefined();
+    expect(result.plan.actions).toEqual([
+      { type: 'terminate-call', callSid: 'CA_first' },
+    ]);
+  });
+
+  it('completes the group once the only other leg is dropping a voicemail', () => {
+    const group = baseGroup();
+    group.voicemailDrop = {
+      greetingId: 'greeting-1',
+      recordingUrl: 'https://storage.test/greeting.mp3',
+    };
+    group.calls[0] = {
+      ...group.calls[0],
+      status: 'in-progress',
+      amdResult: 'machine',
+      outcome: 'voicemail_dropped',
+    };
+
+    const result = planProviderCallbackTransition(group, {
+      callSid: 'CA_second',
+      callStatus: 'no-answer',
+      occurredAt: now,
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.plan.group).toEqual(
+      expect.objectContaining({ status: 'completed', completedAt: now }),
+    );
+    expect(result.plan.actions).toEqual([]);
+  });
+
+  it('does not cut off a voicemail drop when another leg wins', () => {
+    const group = baseGroup();
+    group.calls[1] = {
+      ...group.calls[1],
+      status: 'in-progress',
+      amdResult: 'machine',
+      outcome: 'voicemail_dropped',
+    };
+
+    const result = resolveWinnerClaim(
+      group,
+      'CA_first',
+      { outcome: 'won' },
+      now,
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.plan.actions).toEqual([
+      { type: 'unmute-winner', callSid: 'CA_first' },
+    ]);
+  });
+
   it('ignores an answered callback after the leg is terminal', () => {
     const group = baseGroup();
     group.calls[0].status = 'completed';
@@ -184,6 +290,104 @@ describe('parallel provider callback transition', () => {
     expect(result.plan.actions).toEqual([]);
   });
 
+  describe('abandoned calls', () => {
+    const connectedGroup = (): ParallelGroup => {
+      const group = baseGroup();
+      group.winnerSid = 'CA_first';
+      group.status = 'connected';
+      group.connectedAt = now;
+      group.calls[0] = {
+        ...group.calls[0],
+        status: 'in-progress',
+        amdResult: 'human',
+        answeredAt: now,
+      };
+      return group;
+    };
+    const secondAnswers = {
+      callSid: 'CA_second',
+      callStatus: 'in-progress',
+      answeredBy: 'human',
+      occurredAt: '2026-07-23T12:00:06.000Z',
+    };
+
+    it('reads the safe-harbor message to a live answer once another leg has won', () => {
+      const group = {
+        ...connectedGroup(),
+        safeHarbor: {
+          text: 'This is Acme calling. Call 555-0100 to opt out.',
+        },
+      };
+
+      const result = planProviderCallbackTransition(group, secondAnswers);
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+
+      expect(result.plan.group.calls[1]).toEqual(
+        expect.objectContaining({
+          status: 'in-progress',
+          outcome: 'safe_harbor',
+        }),
+      );
+      expect(result.plan.actions).toEqual([]);
+    });
+
+    it('hangs up on the abandoned leg when no safe-harbor message is set', () => {
+      const result = planProviderCallbackTransition(
+        connectedGroup(),
+        secondAnswers,
+      );
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+
+      expect(result.plan.group.calls[1].outcome).toBe('abandoned');
+      expect(result.plan.actions).toEqual([
+        { type: 'terminate-call', callSid: 'CA_second' },
+      ]);
+    });
+
+    it('counts a leg cut off after a live answer as abandoned', () => {
+      const group = connectedGroup();
+      group.calls[1] = { ...group.calls[1], status: 'completed' };
+
+      const result = planProviderCallbackTransition(group, {
+        ...secondAnswers,
+        callStatus: 'completed',
+      });
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+
+      expect(result.plan.group.calls[1]).toEqual(
+        expect.objectContaining({
+          status: 'completed',
+          amdResult: 'human',
+          outcome: 'abandoned',
+        }),
+      );
+      expect(result.plan.actions).toEqual([]);
+    });
+
+    it('abandons the loser of a concurrent winner claim', () => {
+      const result = resolveWinnerClaim(
+        connectedGroup(),
+        'CA_second',
+        { outcome: 'lost', winnerSid: 'CA_first' },
+        now,
+      );
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+
+      expect(result.plan.group.calls[1].outcome).toBe('abandoned');
+      expect(result.plan.actions).toEqual([
+        { type: 'terminate-call', callSid: 'CA_second' },
+      ]);
+    });
+  });
+
   it('returns a typed non-retryable transition error for an unknown leg', () => {
     const result = planProviderCallbackTransition(baseGroup(), {
       callSid: 'CA_unknown',
@@ -2,7 +2,11 @@ import { DialerTransitionError } from '../errors/dialer-errors.js';
 import type { ParallelGroup } from '../types.js';
 import {
   applyProviderCallStatus,
+  isAbandoned,
+  isMessageEndAmd,
+  isPlayingRecording,
   isTerminalCallStatus,
+  normalizeAmdResult,
 } from './parallel-call.js';
 import {
   clearCleanupFailure,
@@ -46,6 +50,25 @@ const transitionError = (
   }),
 });
 
+// a live answer with the rep already taken is an abandoned call; with a
+// safe-harbor message the customer TwiML reads it and hangs up on its own
+const abandonCall = (
+  group: ParallelGroup,
+  callSid: string,
+): ParallelTransitionPlan => {
+  const safeHarbor = group.safeHarbor !== undefined;
+  const outcome = safeHarbor ? 'safe_harbor' : 'abandoned';
+  return {
+    group: {
+      ...group,
+      calls: group.calls.map((call) =>
+        call.callSid === callSid ? { ...call, outcome } : call,
+      ),
+    },
+    actions: safeHarbor ? [] : [{ type: 'terminate-call', callSid }],
+  };
+};
+
 export const planProviderCallbackTransition = (
   sourceGroup: ParallelGroup,
   event: ProviderCallbackEvent,
@@ -64,6 +87,21 @@ export const planProviderCallbackTransition = (
 
   const previousCall = group.calls[callIndex];
   if (isTerminalCallStatus(previousCall.status)) {
+    // a leg cut off after a live answer the rep could not take still counts
+    const amdResult = normalizeAmdResult(event.answeredBy);
+    if (
+      group.winnerSid &&
+      group.winnerSid !== event.callSid &&
+      !isAbandoned(previousCall) &&
+      isHumanLikeAnswer(group.profile, amdResult)
+    ) {
+      group.calls[callIndex] = {
+        ...previousCall,
+        amdResult,
+        answeredAt: previousCall.answeredAt ?? event.occurredAt,
+        outcome: 'abandoned',
+      };
+    }
     return { ok: true, plan: { group, actions: [] } };
   }
 
@@ -77,7 +115,8 @@ export const planProviderCallbackTransition = (
     for (const candidate of group.calls) {
       if (
         candidate.callSid !== event.callSid &&
-        !isTerminalCallStatus(candidate.status)
+        !isTerminalCallStatus(candidate.status) &&
+        !isPlayingRecording(candidate)
       ) {
         actions.push({ type: 'terminate-call', callSid: candidate.callSid });
       }
@@ -103,7 +142,9 @@ export const planProviderCallbackTransition = (
         connectedAt: group.connectedAt ?? call.answeredAt ?? event.occurredAt,
       };
     } else if (group.winnerSid) {
-      actions.push({ type: 'terminate-call', callSid: event.callSid });
+      const abandoned = abandonCall(group, event.callSid);
+      group = abandoned.group;
+      actions.push(...abandoned.actions);
     } else {
       actions.push({ type: 'claim-winner', callSid: event.callSid });
     }
@@ -112,7 +153,12 @@ export const planProviderCallbackTransition = (
     call.amdResult !== undefined &&
     !humanLike
   ) {
-    actions.push({ type: 'terminate-call', callSid: event.callSid });
+    if (group.voicemailDrop && isMessageEndAmd(event.answeredBy)) {
+      // the customer TwiML plays the greeting and hangs up on its own
+      group.calls[callIndex] = { ...call, outcome: 'voicemail_dropped' };
+    } else {
+      actions.push({ type: 'terminate-call', callSid: event.callSid });
+    }
   }
 
   group = completeGroupIfResolved(group, event.occurredAt);
@@ -138,10 +184,10 @@ export const resolveWinnerClaim = (
   if (resolution.outcome === 'lost') {
     return {
       ok: true,
-      plan: {
-        group: { ...group, winnerSid: resolution.winnerSid },
-        actions: [{ type: 'terminate-call', callSid }],
-      },
+      plan: abandonCall(
+        { ...group, winnerSid: resolution.winnerSid },
+        callSid,
+      ),
     };
   }
 
@@ -150,7 +196,8 @@ export const resolveWinnerClaim = (
     for (const candidate of group.calls) {
       if (
         candidate.callSid !== callSid &&
-        !isTerminalCallStatus(candidate.status)
+        !isTerminalCallStatus(candidate.status) &&
+        !isPlayingRecording(candidate)
       ) {
         actions.push({ type: 'terminate-call', callSid: candidate.callSid });
       }
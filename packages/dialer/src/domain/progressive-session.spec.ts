@@ -0,0 +1,111 @@
+import {
+  createProgressiveSession,
+  nextProgressiveAction,
+  wrapUpRemainingMs,
+} from './progressive-session';
+import type { ParallelGroup, ProgressiveSession } from '../types';
+
+const NOW = new Date('2026-03-16T17:30:00.000Z');
+
+const session = (
+  overrides: Partial<ProgressiveSession> = {},
+): ProgressiveSession => ({
+  ...createProgressiveSession(
+    'session_1',
+    {
+      workspaceId: 'ws-1',
+      userId: 'user-1',
+      queueId: 'queue-1',
+      statusCallbackUrl: 'https://api.example.com/status',
+      customerTwimlUrl: 'https://api.example.com/twiml',
+    },
+    NOW.toISOString(),
+  ),
+  ...overrides,
+});
+
+const group = (overrides: Partial<ParallelGroup> = {}) =>
+  ({
+    groupId: 'pg_1',
+    status: 'dialing',
+    winnerSid: null,
+    calls: [],
+    ...overrides,
+  }) as ParallelGroup;
+
+describe('createProgressiveSession', () => {
+  it('starts ready with the default wrap-up', () => {
+    expect(session()).toMatchObject({
+      status: 'ready',
+      paused: false,
+      wrapUpSeconds: 30,
+      currentGroupId: null,
+      dialedCount: 0,
+    });
+  });
+
+  it('keeps wrap-up between zero and ten minutes', () => {
+    const create = (wrapUpSeconds: number) =>
+      createProgressiveSession(
+        'session_1',
+        {
+          workspaceId: 'ws-1',
+          userId: 'user-1',
+          queueId: 'queue-1',
+          statusCallbackUrl: '',
+          customerTwimlUrl: '',
+          wrapUpSeconds,
+        },
+        NOW.toISOString(),
+      ).wrapUpSeconds;
+
+    expect(create(-5)).toBe(0);
+    expect(create(12.4)).toBe(12);
+    expect(create(3600)).toBe(600);
+  });
+});
+
+describe('nextProgressiveAction', () => {
+  it('dials when the session is ready', () => {
+    expect(nextProgressiveAction(session(), null, NOW)).toBe('dial');
+  });
+
+  it('never dials while the rep is away or after the session ended', () => {
+    expect(nextProgressiveAction(session({ paused: true }), null, NOW)).toBe(
+      'wait',
+    );
+    expect(nextProgressiveAction(session({ status: 'ended' }), null, NOW)).toBe(
+      'wait',
+    );
+  });
+
+  it('moves on from an unanswered call without a disposition', () => {
+    const dialing = session({ status: 'dialing', currentGroupId: 'pg_1' });
+
+    expect(nextProgressiveAction(dialing, group(), NOW)).toBe('wait');
+    expect(
+      nextProgressiveAction(dialing, group({ status: 'completed' }), NOW),
+    ).toBe('dial');
+    expect(
+      nextProgressiveAction(
+        dialing,
+        group({ status: 'completed', winnerSid: 'CA_1' }),
+        NOW,
+      ),
+    ).toBe('wait');
+    expect(nextProgressiveAction(dialing, null, NOW)).toBe('dial');
+  });
+
+  it('holds the next dial until wrap-up runs out', () => {
+    const wrapUp = session({
+      status: 'wrap-up',
+      wrapUpEndsAt: '2026-03-16T17:30:20.000Z',
+    });
+
+    expect(wrapUpRemainingMs(wrapUp, NOW)).toBe(20_000);
+    expect(nextProgressiveAction(wrapUp, null, NOW)).toBe('wait');
+    expect(
+      nextProgressiveAction(wrapUp, null, new Date('2026-03-16T17:30:20.000Z')),
+    ).toBe('dial');
+  });
+});
@@ -0,0 +1,86 @@
+import type {
+  ParallelDialProfile,
+  ParallelGroup,
+  ProgressiveSession,
+  ProgressiveSessionOptions,
+} from '../types.js';
+
+/** Each progressive dial is a one-leg parallel group with no stagger */
+export const PROGRESSIVE_PROFILE: ParallelDialProfile = {
+  id: 'progressive',
+  fanout: 1,
+  staggerMs: 0,
+  amdPolicy: 'human-or-unknown',
+  terminationPolicy: 'winner-take-all',
+};
+
+export const DEFAULT_WRAP_UP_SECONDS = 30;
+export const MAX_WRAP_UP_SECONDS = 600;
+
+export type ProgressiveAction = 'dial' | 'wait';
+
+export const createProgressiveSession = (
+  sessionId: string,
+  options: ProgressiveSessionOptions,
+  createdAt: string,
+): ProgressiveSession => ({
+  sessionId,
+  workspaceId: options.workspaceId,
+  userId: options.userId,
+  queueId: options.queueId,
+  status: 'ready',
+  paused: false,
+  wrapUpSeconds: Math.min(
+    MAX_WRAP_UP_SECONDS,
+    Math.max(0, Math.round(options.wrapUpSeconds ?? DEFAULT_WRAP_UP_SECONDS)),
+  ),
+  statusCallbackUrl: options.statusCallbackUrl,
+  customerTwimlUrl: options.customerTwimlUrl,
+  ...(options.campaignSegment
+    ? { campaignSegment: options.campaignSegment }
+    : {}),
+  ...(options.voicemailDrop ? { voicemailDrop: options.voicemailDrop } : {}),
+  currentGroupId: null,
+  currentTarget: null,
+  callerIdNumber: null,
+  wrapUpEndsAt: null,
+  dialedCount: 0,
+  skippedCount: 0,
+  createdAt,
+  updatedAt: createdAt,
+});
+
+/** Milliseconds left in wrap-up; null outside wrap-up */
+export const wrapUpRemainingMs = (
+  session: ProgressiveSession,
+  now: Date,
+): number | null => {
+  if (session.status !== 'wrap-up' || !session.wrapUpEndsAt) return null;
+  return Math.max(0, new Date(session.wrapUpEndsAt).getTime() - now.getTime());
+};
+
+/**
+ * Decides whether the session dials its next contact now. A live or answered
+ * call waits for the rep's disposition; an unanswered one moves straight on.
+ * Nothing is dialed while the rep is away.
+ */
+export const nextProgressiveAction = (
+  session: ProgressiveSession,
+  group: ParallelGroup | null,
+  now: Date,
+): ProgressiveAction => {
+  if (session.status === 'ended' || session.paused) return 'wait';
+
+  switch (session.status) {
+    case 'ready':
+      return 'dial';
+    case 'wrap-up':
+      return wrapUpRemainingMs(session, now) === 0 ? 'dial' : 'wait';
+    case 'dialing':
+      if (!group) return 'dial';
+      return ['completed', 'failed'].includes(group.status) &&
+        !group.winnerSid
+        ? 'dial'
+        : 'wait';
+  }
+};
@@ -1,4 +1,6 @@
 import type { ParallelGroup, ParallelTelemetry } from '../types.js';
+import { isAbandoned } from './parallel-call.js';
+import { isHumanLikeAnswer } from './parallel-profile.js';
 
 export const computeParallelTelemetry = (
   group: ParallelGroup,
@@ -12,4 +14,10 @@ export const computeParallelTelemetry = (
           new Date(group.createdAt).getTime(),
       )
     : null,
+  humanAnswers: group.calls.filter(
+    (call) =>
+      call.answeredAt !== undefined &&
+      isHumanLikeAnswer(group.profile, call.amdResult),
+  ).length,
+  abandonedLegs: group.calls.filter(isAbandoned).length,
 });
@@ -1,5 +1,7 @@
 import { Data } from 'effect';
 
+import type { ComplianceDenial, ComplianceDenialReason } from '../types.js';
+
 export type DialerProviderOperation =
   | 'create-call'
   | 'terminate-call'
@@ -77,6 +79,16 @@ export class DialerNotFoundError extends Data.TaggedError(
   retryable: false;
 }> {}
 
+export class DialerComplianceError extends Data.TaggedError(
+  'DialerComplianceError',
+)<{
+  /** First reason of the first denial; every reason is in `denials` */
+  code: ComplianceDenialReason;
+  message: string;
+  denials: ComplianceDenial[];
+  retryable: false;
+}> {}
+
 export class DialerInfrastructureError extends Data.TaggedError(
   'DialerInfrastructureError',
 )<{
@@ -96,6 +108,7 @@ export type DialerApplicationError =
   | DialerRequestError
   | DialerConflictError
   | DialerNotFoundError
+  | DialerComplianceError
   | DialerInfrastructureError;
 
 export const errorMessage = (cause: unknown): string =>
@@ -3,7 +3,10 @@ export { Dialer } from './dialer.js';
 
 // Providers
 export { TwilioProvider } from './providers/twilio.js';
+export { TelnyxProvider } from './providers/telnyx.js';
 export type { DialerProvider } from './providers/base.js';
+export { InMemoryMessagingProvider } from './providers/messaging.js';
+export type { MessagingProvider } from './providers/messaging.js';
 
 // Services
 export {
@@ -20,7 +23,9 @@ export {
   ParallelDialerService,
   InMemoryParallelStore,
 } from './services/parallel-dialer.js';
+export { ProgressiveDialerService } from './services/progressive-dialer.js';
 export { ParallelStrategyResolver } from './services/parallel-strategy-resolver.js';
+export { AbandonRateGovernor } from './services/abandon-rate-governor.js';
 export { StoppingModelService } from './services/stopping-model.js';
 export { CallTimingModel } from './services/call-timing-model.service.js';
 export { WhittleIndexService } from './services/whittle-index.service.js';
@@ -30,6 +35,12 @@ export type { NumberPool } from './services/local-presence.js';
 
 // Transport-independent application core
 export { startParallelSession } from './application/start-parallel-session.js';
+export {
+  assertDialCompliance,
+  checkDialCompliance,
+  complianceError,
+} from './application/check-dial-compliance.js';
+export type { DialComplianceResult } from './application/check-dial-compliance.js';
 export type { StartParallelSessionOptions } from './application/start-parallel-session.js';
 export { processProviderCallback } from './application/process-provider-callback.js';
 export {
@@ -56,6 +67,16 @@ export {
   terminateCallSessionForWorkspace,
 } from './application/terminate-call-session.js';
 export { retryPendingCleanup } from './application/retry-pending-cleanup.js';
+export {
+  advanceProgressiveSession,
+  advanceProgressiveSessionForGroup,
+  endProgressiveSession,
+  getProgressiveSessionForWorkspace,
+  pauseProgressiveSession,
+  resumeProgressiveSession,
+  startProgressiveSession,
+  submitProgressiveDisposition,
+} from './application/progressive-session.js';
 export {
   getCallSession,
   getCallSessionForWorkspace,
@@ -64,7 +85,11 @@ export {
 // Pure domain behavior
 export {
   applyProviderCallStatus,
+  isAbandoned,
+  isMessageEndAmd,
+  isPlayingRecording,
   isTerminalCallStatus,
+  isVoicemailDropped,
   normalizeAmdResult,
   TERMINAL_CALL_STATUSES,
 } from './domain/parallel-call.js';
@@ -76,6 +101,22 @@ export {
   isStaleDialingGroup,
 } from './domain/parallel-group.js';
 export { isHumanLikeAnswer } from './domain/parallel-profile.js';
+export { classifySmsKeyword } from './domain/messaging.js';
+export {
+  DEFAULT_REPUTATION_THRESHOLDS,
+  isNumberResting,
+  scoreNumberHealth,
+} from './domain/number-reputation.js';
+export {
+  DEFAULT_CALLING_WINDOW,
+  DEFAULT_COMPLIANCE_POLICY,
+  describeComplianceDenial,
+  evaluateDialCompliance,
+  isWithinCallingWindow,
+  normalizeDialNumber,
+  parseDncFile,
+  timezoneForPhone,
+} from './domain/compliance.js';
 export {
   planProviderCallbackTransition,
   resolveWinnerClaim,
@@ -87,6 +128,21 @@ export type {
   WinnerClaimResolution,
 } from './domain/parallel-transition.js';
 export { computeParallelTelemetry } from './domain/telemetry.js';
+export {
+  abandonRate,
+  abandonWindowStart,
+  DEFAULT_ABANDON_RATE_CONFIG,
+  governFanout,
+} from './domain/abandon-rate.js';
+export {
+  createProgressiveSession,
+  DEFAULT_WRAP_UP_SECONDS,
+  MAX_WRAP_UP_SECONDS,
+  nextProgressiveAction,
+  PROGRESSIVE_PROFILE,
+  wrapUpRemainingMs,
+} from './domain/progressive-session.js';
+export type { ProgressiveAction } from './domain/progressive-session.js';
 
 // Effect capabilities and typed failures
 export { CallProvider } from './ports/call-provider.js';
@@ -135,6 +191,16 @@ export type {
   ValidateParallelDialCommand,
 } from './ports/parallel-compatibility.js';
 export type { CallerIdLockStoreService } from './ports/caller-id-lock-store.js';
+export {
+  ProgressiveDialRuntime,
+  ProgressiveSessionStore,
+} from './ports/progressive-session.js';
+export type {
+  ProgressiveDialRuntimeService,
+  ProgressiveSessionStoreService,
+} from './ports/progressive-session.js';
+export { DialerCompliance } from './ports/compliance.js';
+export type { DialerComplianceService } from './ports/compliance.js';
 export { DialerClock } from './ports/clock.js';
 export type { DialerClockService } from './ports/clock.js';
 export { DialerIdGenerator } from './ports/id-generator.js';
@@ -143,6 +209,7 @@ export { DialerTelemetry } from './ports/telemetry.js';
 export type { DialerTelemetryService } from './ports/telemetry.js';
 export {
   DialerCleanupError,
+  DialerComplianceError,
   DialerConflictError,
   DialerInfrastructureError,
   DialerNotFoundError,
@@ -161,7 +228,21 @@ export type {
 
 // Infrastructure adapters
 export { createTwilioCallProviderLayer } from './infrastructure/twilio/call-provider.js';
+export { normalizeTwilioCallback } from './infrastructure/twilio/callbacks.js';
+export { createTelnyxCallProviderLayer } from './infrastructure/telnyx/call-provider.js';
+export { normalizeTelnyxCallback } from './infrastructure/telnyx/callbacks.js';
+export { TelnyxApiError } from './infrastructure/telnyx/client.js';
 export { createParallelStateStoreLayer } from './infrastructure/memory/parallel-state-store.js';
+export {
+  createDialerComplianceLayer,
+  InMemoryComplianceStore,
+} from './infrastructure/memory/compliance-store.js';
+export {
+  createProgressiveDialRuntimeLayer,
+  createProgressiveSessionStoreLayer,
+} from './infrastructure/memory/progressive-session-store.js';
+export { createCallerIdLockStoreLayer } from './infrastructure/memory/caller-id-lock-store.js';
+export { InMemoryAbandonRateStore } from './infrastructure/memory/abandon-rate-store.js';
 export { RedisParallelStore } from './infrastructure/redis/redis-parallel-store.js';
 export type { RedisParallelClient } from './infrastructure/redis/redis-parallel-store.js';
 export {
@@ -172,6 +253,8 @@ export {
 // Types
 export type {
   TwilioCredentials,
+  TelnyxCredentials,
+  DialerProviderName,
   DialerConfig,
   DialOptions,
   DialResult,
@@ -179,7 +262,21 @@ export type {
   VoiceToken,
   ProvisionNumberOptions,
   ProvisionResult,
+  SendMessageOptions,
+  SendMessageResult,
+  SmsKeyword,
   PhoneNumber,
+  NumberHealth,
+  NumberReputation,
+  ReputationFlag,
+  ReputationThresholds,
+  CallingWindow,
+  CompliancePolicy,
+  ComplianceDenial,
+  ComplianceDenialReason,
+  ComplianceStore,
+  ComplianceTarget,
+  DncListSource,
   AvailableNumber,
   SearchAvailableNumbersOptions,
   ReleaseResult,
@@ -192,6 +289,9 @@ export type {
   TransferStatus,
   TransferOptions,
   TransferResult,
+  SupervisionMode,
+  SupervisionOptions,
+  SupervisionResult,
   TwimlParams,
   RingTimeMetrics,
   DialStatusPayload,
@@ -200,7 +300,11 @@ export type {
   ParallelAmdPolicy,
   ParallelTerminationPolicy,
   ParallelProviderMode,
+  VoicemailDrop,
+  SafeHarborMessage,
+  ParallelCallOutcome,
   ParallelDialProfile,
+  ParallelProfileId,
   ProfileKey,
   ProfilePosterior,
   PosteriorStore,
@@ -208,6 +312,12 @@ export type {
   ParallelStrategyContext,
   ParallelStrategyResolution,
   ParallelTelemetry,
+  AbandonRateScope,
+  AbandonRateWindow,
+  AbandonRateGovernorConfig,
+  AbandonRateAction,
+  AbandonRateDecision,
+  AbandonRateStore,
   ParallelCall,
   ParallelCleanupAction,
   ParallelCleanupFailure,
@@ -215,6 +325,12 @@ export type {
   ParallelDialOptions,
   ParallelDialResult,
   ParallelStore,
+  ProgressiveSession,
+  ProgressiveSessionEndReason,
+  ProgressiveSessionOptions,
+  ProgressiveSessionStatus,
+  ProgressiveTarget,
+  ProgressiveTargetSource,
   StoppingThreshold,
   StoppingModelStore,
   HazardEstimate,
@@ -0,0 +1,55 @@
+import type {
+  AbandonRateDecision,
+  AbandonRateScope,
+  AbandonRateStore,
+  AbandonRateWindow,
+} from '../../types.js';
+
+type RecordedCalls = AbandonRateWindow & { occurredAt: string };
+
+const scopeKey = (scope: AbandonRateScope): string =>
+  `${scope.workspaceId}:${scope.campaignSegment ?? ''}`;
+
+/** Process-local abandon counts and governor decisions for dev and tests */
+export class InMemoryAbandonRateStore implements AbandonRateStore {
+  private readonly calls = new Map<string, RecordedCalls[]>();
+  private readonly decisions: AbandonRateDecision[] = [];
+
+  async recordCalls(
+    scope: AbandonRateScope,
+    counts: AbandonRateWindow,
+    occurredAt: string,
+  ): Promise<void> {
+    const key = scopeKey(scope);
+    this.calls.set(key, [
+      ...(this.calls.get(key) ?? []),
+      { ...counts, occurredAt },
+    ]);
+  }
+
+  async loadWindow(
+    scope: AbandonRateScope,
+    since: string,
+  ): Promise<AbandonRateWindow> {
+    const sinceMs = new Date(since).getTime();
+    return (this.calls.get(scopeKey(scope)) ?? [])
+      .filter((entry) => new Date(entry.occurredAt).getTime() >= sinceMs)
+      .reduce(
+        (window, entry) => ({
+          humanAnswers: window.humanAnswers + entry.humanAnswers,
+          abandonedCalls: window.abandonedCalls + entry.abandonedCalls,
+        }),
+        { humanAnswers: 0, abandonedCalls: 0 },
+      );
+  }
+
+  async recordDecision(decision: AbandonRateDecision): Promise<void> {
+    this.decisions.push(decision);
+  }
+
+  listDecisions(scope: AbandonRateScope): AbandonRateDecision[] {
+    return this.decisions.filter(
+      (decision) => scopeKey(decision) === scopeKey(scope),
+    );
+  }
+}
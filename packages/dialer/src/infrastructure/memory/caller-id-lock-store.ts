@@ -0,0 +1,47 @@
+import { Effect, Layer } from 'effect';
+
+import { DialerStateError, errorMessage } from '../../errors/dialer-errors.js';
+import {
+  CallerIdLockStore,
+  type CallerIdLockStoreService,
+} from '../../ports/caller-id-lock-store.js';
+import type { CallerIdLockService } from '../../services/caller-id.js';
+
+const tryLock = <A>(operation: string, run: () => Promise<A>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (cause) =>
+      new DialerStateError({
+        operation,
+        message: errorMessage(cause),
+        retryable: true,
+        cause,
+      }),
+  });
+
+/**
+ * Adapts the lock service to the Effect port. The owner ID stands in for the
+ * call SID, and acquired locks are stretched to the active-call TTL at once.
+ */
+export const createCallerIdLockStoreLayer = (
+  service: CallerIdLockService,
+): Layer.Layer<CallerIdLockStoreService> => {
+  const port: CallerIdLockStoreService = {
+    acquire: (phoneNumber, userId, ownerId) =>
+      tryLock('acquire-caller-id', async () => {
+        if (!(await service.acquireLock(phoneNumber, userId, ownerId))) {
+          return false;
+        }
+        return service.refreshLock(phoneNumber, ownerId);
+      }),
+    refresh: (phoneNumber, ownerId) =>
+      tryLock('refresh-caller-id', () =>
+        service.refreshLock(phoneNumber, ownerId),
+      ),
+    release: (_phoneNumber, ownerId) =>
+      tryLock('release-caller-id', () =>
+        service.releaseLock(ownerId).then(() => undefined),
+      ),
+  };
+  return Layer.succeed(CallerIdLockStore, port);
+};
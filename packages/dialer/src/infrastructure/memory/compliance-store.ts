@@ -0,0 +1,135 @@
+import { Effect, Layer } from 'effect';
+
+import {
+  DEFAULT_COMPLIANCE_POLICY,
+  normalizeDialNumber,
+  parseDncFile,
+} from '../../domain/compliance.js';
+import {
+  DialerInfrastructureError,
+  errorMessage,
+} from '../../errors/dialer-errors.js';
+import {
+  DialerCompliance,
+  type DialerComplianceService,
+} from '../../ports/compliance.js';
+import type {
+  CompliancePolicy,
+  ComplianceStore,
+  ComplianceTarget,
+  DncListSource,
+} from '../../types.js';
+
+const tryStore = <A>(operation: string, run: () => Promise<A>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (cause) =>
+      new DialerInfrastructureError({
+        operation,
+        message: errorMessage(cause),
+        retryable: true,
+        cause,
+      }),
+  });
+
+export const createDialerComplianceLayer = (
+  store: ComplianceStore,
+): Layer.Layer<DialerComplianceService> => {
+  const service: DialerComplianceService = {
+    loadPolicy: ({ workspaceId }) =>
+      tryStore('load-compliance-policy', () => store.getPolicy(workspaceId)),
+    findDncListings: ({ workspaceId, phones }) =>
+      tryStore('find-dnc-listings', () =>
+        store.findDncListings(workspaceId, phones),
+      ),
+    findSuppressedPhones: ({ workspaceId, targets }) =>
+      tryStore('find-suppressed-phones', () =>
+        store.findSuppressedPhones(workspaceId, targets),
+      ),
+  };
+  return Layer.succeed(DialerCompliance, service);
+};
+
+/**
+ * Process-local compliance data. One policy and one national list apply to
+ * every workspace; workspace lists and suppressions are kept per workspace.
+ */
+export class InMemoryComplianceStore implements ComplianceStore {
+  private readonly national = new Set<string>();
+  private readonly workspaceLists = new Map<string, Set<string>>();
+  private readonly suppressed = new Map<string, Set<string>>();
+
+  constructor(
+    private policy: CompliancePolicy = DEFAULT_COMPLIANCE_POLICY,
+  ) {}
+
+  setPolicy(policy: CompliancePolicy): void {
+    this.policy = policy;
+  }
+
+  /** Adds every number in an imported DNC file; returns how many were read */
+  importDncFile(
+    source: DncListSource,
+    contents: string,
+    workspaceId?: string,
+  ): number {
+    const numbers = parseDncFile(contents);
+    const list =
+      source === 'national' ? this.national : this.workspaceList(workspaceId);
+    for (const number of numbers) list.add(number);
+    return numbers.length;
+  }
+
+  /** Suppresses a contact (by id) or a bare number from all dialing */
+  suppress(workspaceId: string, contactIdOrPhone: string): void {
+    const entries = this.suppressed.get(workspaceId) ?? new Set<string>();
+    entries.add(normalizeDialNumber(contactIdOrPhone) ?? contactIdOrPhone);
+    this.suppressed.set(workspaceId, entries);
+  }
+
+  async getPolicy(): Promise<CompliancePolicy> {
+    return this.policy;
+  }
+
+  async findDncListings(
+    workspaceId: string,
+    phones: string[],
+  ): Promise<Map<string, DncListSource[]>> {
+    const workspaceList = this.workspaceLists.get(workspaceId);
+    const listings = new Map<string, DncListSource[]>();
+    for (const phone of phones) {
+      const normalized = normalizeDialNumber(phone) ?? phone;
+      const sources: DncListSource[] = [];
+      if (workspaceList?.has(normalized)) sources.push('workspace');
+      if (this.national.has(normalized)) sources.push('national');
+      if (sources.length > 0) listings.set(phone, sources);
+    }
+    return listings;
+  }
+
+  async findSuppressedPhones(
+    workspaceId: string,
+    targets: ComplianceTarget[],
+  ): Promise<Set<string>> {
+    const entries = this.suppressed.get(workspaceId);
+    return new Set(
+      targets
+        .filter(
+          (target) =>
+            !!entries &&
+            ((!!target.contactId && entries.has(target.contactId)) ||
+              entries.has(normalizeDialNumber(target.phone) ?? target.phone)),
+        )
+        .map((target) => target.phone),
+    );
+  }
+
+  private workspaceList(workspaceId: string | undefined): Set<string> {
+    if (!workspaceId) {
+      throw new Error('workspaceId is required for workspace DNC lists');
+    }
+    const list = this.workspaceLists.get(workspaceId) ?? new Set<string>();
+    this.workspaceLists.set(workspaceId, list);
+    return list;
+  }
+}
@@ -105,6 +105,10 @@ export class InMemoryParallelStore implements ParallelStore {
   >();
   private winners = new Map<string, { callSid: string; expiresAt: number }>();
   private groupLocks = new Map<string, Promise<void>>();
+  private progressiveSessions = new Map<
+    string,
+    { data: string; expiresAt: number }
+  >();
 
   async setGroup(
     groupId: string,
@@ -263,4 +267,24 @@ export class InMemoryParallelStore implements ParallelStore {
       if (mapping.groupId === groupId) this.callMappings.delete(callSid);
     }
   }
+
+  async setProgressiveSession(
+    sessionId: string,
+    data: string,
+    ttlSeconds: number,
+  ): Promise<void> {
+    this.progressiveSessions.set(sessionId, {
+      data,
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+  }
+
+  async getProgressiveSession(sessionId: string): Promise<string | null> {
+    const entry = this.progressiveSessions.get(sessionId);
+    if (!entry || entry.expiresAt < Date.now()) {
+      this.progressiveSessions.delete(sessionId);
+      return null;
+    }
+    return entry.data;
+  }
 }
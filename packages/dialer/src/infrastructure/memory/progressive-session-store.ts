@@ -0,0 +1,80 @@
+import { Effect, Layer } from 'effect';
+
+import {
+  DialerInfrastructureError,
+  DialerStateError,
+  errorMessage,
+} from '../../errors/dialer-errors.js';
+import {
+  ProgressiveDialRuntime,
+  ProgressiveSessionStore,
+  type ProgressiveDialRuntimeService,
+  type ProgressiveSessionStoreService,
+} from '../../ports/progressive-session.js';
+import type {
+  ParallelStore,
+  ProgressiveSession,
+  ProgressiveTargetSource,
+} from '../../types.js';
+
+const tryStore = <A>(operation: string, run: () => Promise<A>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (cause) =>
+      new DialerStateError({
+        operation,
+        message: errorMessage(cause),
+        retryable: true,
+        cause,
+      }),
+  });
+
+const trySource = <A>(operation: string, run: () => Promise<A>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (cause) =>
+      new DialerInfrastructureError({
+        operation,
+        message: errorMessage(cause),
+        retryable: true,
+        cause,
+      }),
+  });
+
+/** Keeps progressive sessions beside the parallel groups they dial */
+export const createProgressiveSessionStoreLayer = (
+  store: ParallelStore,
+): Layer.Layer<ProgressiveSessionStoreService> => {
+  const service: ProgressiveSessionStoreService = {
+    getSession: (sessionId) =>
+      tryStore('get-progressive-session', async () => {
+        const raw = await store.getProgressiveSession(sessionId);
+        return raw ? (JSON.parse(raw) as ProgressiveSession) : null;
+      }),
+    setSession: (session, ttlSeconds) =>
+      tryStore('set-progressive-session', () =>
+        store.setProgressiveSession(
+          session.sessionId,
+          JSON.stringify(session),
+          ttlSeconds,
+        ),
+      ),
+  };
+  return Layer.succeed(ProgressiveSessionStore, service);
+};
+
+export const createProgressiveDialRuntimeLayer = (
+  source: ProgressiveTargetSource,
+): Layer.Layer<ProgressiveDialRuntimeService> => {
+  const service: ProgressiveDialRuntimeService = {
+    nextTarget: (input) =>
+      trySource('next-progressive-target', () => source.nextTarget(input)),
+    skipTarget: (input) =>
+      trySource('skip-progressive-target', () => source.skipTarget(input)),
+    resolveCallerIds: (input) =>
+      trySource('resolve-progressive-caller-ids', () =>
+        source.resolveCallerIds(input),
+      ),
+  };
+  return Layer.succeed(ProgressiveDialRuntime, service);
+};
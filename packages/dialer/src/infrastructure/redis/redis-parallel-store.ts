@@ -109,6 +109,10 @@ export class RedisParallelStore implements ParallelStore {
     return `${this.prefix}:lock:${groupId}`;
   }
 
+  private progressiveKey(sessionId: string): string {
+    return `${this.prefix}:progressive:${sessionId}`;
+  }
+
   setGroup(groupId: string, data: string, ttlSeconds: number): Promise<void> {
     return this.redis
       .set(this.groupKey(groupId), data, 'EX', ttlSeconds)
@@ -254,4 +258,18 @@ export class RedisParallelStore implements ParallelStore {
         .then(() => undefined);
     });
   }
+
+  setProgressiveSession(
+    sessionId: string,
+    data: string,
+    ttlSeconds: number,
+  ): Promise<void> {
+    return this.redis
+      .set(this.progressiveKey(sessionId), data, 'EX', ttlSeconds)
+      .then(() => undefined);
+  }
+
+  getProgressiveSession(sessionId: string): Promise<string | null> {
+    return this.redis.get(this.progressiveKey(sessionId));
+  }
 }
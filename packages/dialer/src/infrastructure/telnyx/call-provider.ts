@@ -0,0 +1,113 @@
+import { Effect, Layer } from 'effect';
+
+import {
+  DialerProviderError,
+  errorMessage,
+} from '../../errors/dialer-errors.js';
+import {
+  CallProvider,
+  type CallProviderService,
+} from '../../ports/call-provider.js';
+import type { TelnyxCredentials } from '../../types.js';
+import {
+  createTelnyxClient,
+  resolveTelnyxCredentials,
+  TelnyxApiError,
+} from './client.js';
+
+type ProviderOperation = 'create-call' | 'terminate-call' | 'unmute-winner';
+
+const retryableProviderFailure = (cause: unknown): boolean =>
+  !(cause instanceof TelnyxApiError) ||
+  cause.status === 429 ||
+  cause.status >= 500;
+
+const asProviderFailure = (
+  operation: ProviderOperation,
+  cause: unknown,
+): DialerProviderError =>
+  cause instanceof DialerProviderError
+    ? cause
+    : new DialerProviderError({
+        operation,
+        message: errorMessage(cause),
+        retryable: retryableProviderFailure(cause),
+        cause,
+      });
+
+/**
+ * `CallProvider` over Telnyx TeXML. TeXML fetches the same customer TwiML
+ * and posts Twilio-shaped status callbacks, so the parallel dialer's
+ * conference flow runs unchanged; see `normalizeTelnyxCallback`.
+ */
+export const createTelnyxCallProviderLayer = (
+  credentials: TelnyxCredentials | undefined,
+): Layer.Layer<CallProviderService> => {
+  const resolved = resolveTelnyxCredentials(credentials);
+  const client = createTelnyxClient(resolved);
+  const accountPath = `/texml/Accounts/${encodeURIComponent(resolved.accountSid)}`;
+
+  const attempt = <A>(
+    operation: ProviderOperation,
+    run: () => Promise<A>,
+  ): Effect.Effect<A, DialerProviderError> =>
+    Effect.tryPromise({
+      try: run,
+      catch: (cause) => asProviderFailure(operation, cause),
+    });
+
+  const service: CallProviderService = {
+    createCall: (input) =>
+      attempt('create-call', async () => {
+        const call = await client.request<{ call_sid: string }>(
+          'POST',
+          `/texml/calls/${encodeURIComponent(resolved.texmlApplicationId)}`,
+          {
+            To: input.to,
+            From: input.from,
+            Url: input.customerTwimlUrl,
+            StatusCallback: input.statusCallbackUrl,
+            StatusCallbackEvent: 'initiated ringing answered completed',
+            MachineDetection: input.detectMessageEnd
+              ? 'DetectMessageEnd'
+              : 'Enable',
+          },
+        );
+        return { callSid: call.call_sid };
+      }),
+    terminateCall: (callSid) =>
+      attempt('terminate-call', async () => {
+        await client.request(
+          'POST',
+          `${accountPath}/Calls/${encodeURIComponent(callSid)}`,
+          { Status: 'completed' },
+        );
+      }),
+    unmuteConferenceParticipant: (conferenceName, callSid) =>
+      attempt('unmute-winner', async () => {
+        const query = new URLSearchParams({
+          FriendlyName: conferenceName,
+          Status: 'in-progress',
+        });
+        const { conferences } = await client.request<{
+          conferences?: Array<{ sid: string }>;
+        }>('GET', `${accountPath}/Conferences?${query}`);
+        const conferenceSid = conferences?.[0]?.sid;
+        if (!conferenceSid) throw new Error('Active conference not found');
+        try {
+          await client.request(
+            'POST',
+            `${accountPath}/Conferences/${encodeURIComponent(conferenceSid)}/Participants/${encodeURIComponent(callSid)}`,
+            { Muted: false, EndConferenceOnExit: true },
+          );
+        } catch (cause: unknown) {
+          // Winner-aware TwiML joins a not-yet-created participant unmuted.
+          if (!(cause instanceof TelnyxApiError && cause.status === 404)) {
+            throw cause;
+          }
+        }
+      }),
+  };
+
+  return Layer.succeed(CallProvider, service);
+};
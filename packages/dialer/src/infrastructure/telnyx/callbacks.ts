@@ -0,0 +1,89 @@
+import type { ProcessProviderCallbackInput } from '../../application/process-provider-callback.js';
+
+type CallControlEvent = {
+  data?: {
+    event_type?: string;
+    occurred_at?: string;
+    payload?: {
+      call_control_id?: string;
+      hangup_cause?: string;
+      result?: string;
+    };
+  };
+};
+
+// Call Control hangup causes onto the terminal statuses the dialer tracks
+const HANGUP_STATUSES: Record<string, string> = {
+  normal_clearing: 'completed',
+  user_busy: 'busy',
+  timeout: 'no-answer',
+  no_answer: 'no-answer',
+  originator_cancel: 'canceled',
+};
+
+// Telnyx reports an inconclusive answering-machine check as `not_sure`
+const answeredBy = (value: string | undefined): string | undefined =>
+  value === 'not_sure' ? 'unknown' : value || undefined;
+
+const fromTexml = (
+  params: Record<string, unknown>,
+): ProcessProviderCallbackInput | null => {
+  const callSid = params.CallSid;
+  const callStatus = params.CallStatus;
+  if (typeof callSid !== 'string' || typeof callStatus !== 'string') {
+    return null;
+  }
+  const amd = answeredBy(
+    typeof params.AnsweredBy === 'string' ? params.AnsweredBy : undefined,
+  );
+  return {
+    callSid,
+    callStatus: callStatus.toLowerCase(),
+    ...(amd ? { answeredBy: amd } : {}),
+  };
+};
+
+const fromCallControl = (
+  event: CallControlEvent,
+): ProcessProviderCallbackInput | null => {
+  const callSid = event.data?.payload?.call_control_id;
+  if (!callSid) return null;
+  const occurredAt = event.data?.occurred_at;
+  const base = { callSid, ...(occurredAt ? { occurredAt } : {}) };
+
+  switch (event.data?.event_type) {
+    case 'call.initiated':
+      return { ...base, callStatus: 'initiated' };
+    case 'call.answered':
+      return { ...base, callStatus: 'in-progress' };
+    case 'call.machine.detection.ended': {
+      const amd = answeredBy(event.data.payload?.result);
+      return {
+        ...base,
+        callStatus: 'in-progress',
+        ...(amd ? { answeredBy: amd } : {}),
+      };
+    }
+    case 'call.hangup':
+      return {
+        ...base,
+        callStatus:
+          HANGUP_STATUSES[event.data.payload?.hangup_cause ?? ''] ?? 'failed',
+      };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Normalize a Telnyx webhook into a provider callback. Accepts TeXML status
+ * callbacks (Twilio-style params) and Call Control JSON events; returns null
+ * for anything that doesn't change call status.
+ */
+export const normalizeTelnyxCallback = (
+  body: unknown,
+): ProcessProviderCallbackInput | null => {
+  if (typeof body !== 'object' || body === null) return null;
+  if ('data' in body) return fromCallControl(body as CallControlEvent);
+  return fromTexml(body as Record<string, unknown>);
+};
@@ -0,0 +1,96 @@
+import type { TelnyxCredentials } from '../../types.js';
+
+const DEFAULT_BASE_URL = 'https://api.telnyx.com/v2';
+
+/** Non-2xx Telnyx response; `status` drives the same retry rules as Twilio errors */
+export class TelnyxApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+
+  constructor(status: number, message: string, code?: string) {
+    super(message);
+    this.name = 'TelnyxApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export type ResolvedTelnyxCredentials = {
+  apiKey: string;
+  accountSid: string;
+  texmlApplicationId: string;
+  connectionId?: string;
+  credentialId?: string;
+  baseUrl: string;
+};
+
+export const resolveTelnyxCredentials = (
+  credentials: TelnyxCredentials | undefined,
+): ResolvedTelnyxCredentials => ({
+  apiKey: credentials?.apiKey ?? process.env.TELNYX_API_KEY ?? '',
+  accountSid: credentials?.accountSid ?? process.env.TELNYX_ACCOUNT_SID ?? '',
+  texmlApplicationId:
+    credentials?.texmlApplicationId ??
+    process.env.TELNYX_TEXML_APPLICATION_ID ??
+    '',
+  connectionId: credentials?.connectionId ?? process.env.TELNYX_CONNECTION_ID,
+  credentialId: credentials?.credentialId ?? process.env.TELNYX_CREDENTIAL_ID,
+  baseUrl: (credentials?.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, ''),
+});
+
+type TelnyxErrorDetail = { code?: string; title?: string; detail?: string };
+
+/**
+ * Minimal Telnyx REST client over `fetch` — the official SDK isn't needed for
+ * the handful of endpoints the dialer calls.
+ */
+export const createTelnyxClient = (credentials: ResolvedTelnyxCredentials) => {
+  const request = async <T>(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    body?: Record<string, unknown>,
+  ): Promise<T> => {
+    if (!credentials.apiKey) {
+      throw new Error(
+        'Telnyx credentials not configured. Set the TELNYX_API_KEY environment variable.',
+      );
+    }
+    const response = await fetch(`${credentials.baseUrl}${path}`, {
+      method,
+      headers: {
+        authorization: `Bearer ${credentials.apiKey}`,
+        accept: 'application/json',
+        ...(body ? { 'content-type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      let error: TelnyxErrorDetail | undefined;
+      try {
+        error = (JSON.parse(text) as { errors?: TelnyxErrorDetail[] })
+          .errors?.[0];
+      } catch {
+        error = undefined;
+      }
+      throw new TelnyxApiError(
+        response.status,
+        error?.detail ??
+          error?.title ??
+          `Telnyx request failed with HTTP ${response.status}`,
+        error?.code,
+      );
+    }
+    if (!text) return undefined as T;
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      // the WebRTC token endpoint answers with a bare JWT
+      return text as T;
+    }
+  };
+
+  return { request };
+};
+
+export type TelnyxClient = ReturnType<typeof createTelnyxClient>;
@@ -95,7 +95,9 @@ export const createTwilioCallProviderLayer = (
                 'answered',
                 'completed',
               ],
-              machineDetection: 'Enable',
+              machineDetection: input.detectMessageEnd
+                ? 'DetectMessageEnd'
+                : 'Enable',
             });
             return { callSid: call.sid };
           } catch (cause: unknown) {
@@ -147,3 +149,18 @@ export const createTwilioCallProviderLayer = (
 
   return Layer.succeed(CallProvider, service);
 };
+
+const isCallProviderLayer = (
+  value: unknown,
+): value is Layer.Layer<CallProviderService> => Layer.isLayer(value);
+
+/** Services take another provider's `CallProvider` layer, or default to Twilio */
+export const resolveCallProviderLayer = (
+  callProvider:
+    | TwilioCredentials
+    | Layer.Layer<CallProviderService>
+    | undefined,
+): Layer.Layer<CallProviderService> =>
+  isCallProviderLayer(callProvider)
+    ? callProvider
+    : createTwilioCallProviderLayer(callProvider);
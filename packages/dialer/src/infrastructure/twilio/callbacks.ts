@@ -0,0 +1,13 @@
+import type { ProcessProviderCallbackInput } from '../../application/process-provider-callback.js';
+
+/** Map a Twilio status callback's form params onto a provider callback */
+export const normalizeTwilioCallback = (
+  params: Record<string, string | undefined>,
+): ProcessProviderCallbackInput | null => {
+  if (!params.CallSid || !params.CallStatus) return null;
+  return {
+    callSid: params.CallSid,
+    callStatus: params.CallStatus,
+    ...(params.AnsweredBy ? { answeredBy: params.AnsweredBy } : {}),
+  };
+};
@@ -7,6 +7,8 @@ export type CreateProviderCallInput = {
   from: string;
   customerTwimlUrl: string;
   statusCallbackUrl: string;
+  /** Hold AMD until the greeting ends so a voicemail drop follows the beep */
+  detectMessageEnd?: boolean;
 };
 
 export type CallProviderService = {
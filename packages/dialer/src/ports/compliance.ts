@@ -0,0 +1,28 @@
+import { Context, type Effect } from 'effect';
+
+import type { DialerApplicationError } from '../errors/dialer-errors.js';
+import type {
+  CompliancePolicy,
+  ComplianceTarget,
+  DncListSource,
+} from '../types.js';
+import type { DialerCallContext } from './dialer-call-start.js';
+
+export type DialerComplianceService = {
+  loadPolicy: (
+    input: DialerCallContext,
+  ) => Effect.Effect<CompliancePolicy, DialerApplicationError>;
+  findDncListings: (
+    input: DialerCallContext & { phones: string[] },
+  ) => Effect.Effect<
+    ReadonlyMap<string, readonly DncListSource[]>,
+    DialerApplicationError
+  >;
+  findSuppressedPhones: (
+    input: DialerCallContext & { targets: ComplianceTarget[] },
+  ) => Effect.Effect<ReadonlySet<string>, DialerApplicationError>;
+};
+
+export const DialerCompliance = Context.GenericTag<DialerComplianceService>(
+  '@consuelo/dialer/DialerCompliance',
+);
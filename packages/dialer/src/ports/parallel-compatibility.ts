@@ -4,6 +4,7 @@ import type { DialerApplicationError } from '../errors/dialer-errors.js';
 import type { NumberPool } from '../services/local-presence.js';
 import type {
   ParallelCall,
+  ParallelCallOutcome,
   ParallelDialOptions,
   ParallelDialProfile,
   ParallelDialResult,
@@ -12,6 +13,8 @@ import type {
   ParallelTelemetry,
   PhoneNumber,
   ProfileKey,
+  SafeHarborMessage,
+  VoicemailDrop,
 } from '../types.js';
 
 export type ParallelCallbackInput = {
@@ -139,6 +142,9 @@ export type ParallelDialCommand = {
   userId: string;
   workspaceId: string;
   callbackBaseUrl: string;
+  /** Resolved server-side; never read from the request body */
+  voicemailDrop?: VoicemailDrop;
+  safeHarbor?: SafeHarborMessage;
 };
 
 export type ValidateParallelDialCommand = {
@@ -158,6 +164,7 @@ export type ParallelGroupStatusResult = {
     position: number;
     status: string;
     amdResult?: string;
+    outcome?: ParallelCallOutcome;
     contactId?: string;
   }>;
 };
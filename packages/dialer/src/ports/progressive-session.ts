@@ -0,0 +1,48 @@
+import { Context, type Effect } from 'effect';
+
+import type {
+  DialerApplicationError,
+  DialerStateError,
+} from '../errors/dialer-errors.js';
+import type {
+  ComplianceDenialReason,
+  ProgressiveSession,
+  ProgressiveTarget,
+} from '../types.js';
+import type { DialerCallContext } from './dialer-call-start.js';
+
+export type ProgressiveSessionStoreService = {
+  getSession: (
+    sessionId: string,
+  ) => Effect.Effect<ProgressiveSession | null, DialerStateError>;
+  setSession: (
+    session: ProgressiveSession,
+    ttlSeconds: number,
+  ) => Effect.Effect<void, DialerStateError>;
+};
+
+export const ProgressiveSessionStore =
+  Context.GenericTag<ProgressiveSessionStoreService>(
+    '@consuelo/dialer/ProgressiveSessionStore',
+  );
+
+export type ProgressiveDialRuntimeService = {
+  nextTarget: (
+    input: DialerCallContext & { queueId: string },
+  ) => Effect.Effect<ProgressiveTarget | null, DialerApplicationError>;
+  skipTarget: (
+    input: DialerCallContext & {
+      queueId: string;
+      target: ProgressiveTarget;
+      reasons: ComplianceDenialReason[];
+    },
+  ) => Effect.Effect<void, DialerApplicationError>;
+  resolveCallerIds: (
+    input: DialerCallContext & { target: ProgressiveTarget },
+  ) => Effect.Effect<string[], DialerApplicationError>;
+};
+
+export const ProgressiveDialRuntime =
+  Context.GenericTag<ProgressiveDialRuntimeService>(
+    '@consuelo/dialer/ProgressiveDialRuntime',
+  );
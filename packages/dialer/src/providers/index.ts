@@ -1,2 +1,5 @@
 export type { DialerProvider } from './base.js';
+export type { MessagingProvider } from './messaging.js';
+export { InMemoryMessagingProvider } from './messaging.js';
 export { TwilioProvider } from './twilio.js';
+export { TelnyxProvider } from './telnyx.js';
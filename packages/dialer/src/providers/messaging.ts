@@ -0,0 +1,37 @@
+import type { SendMessageOptions, SendMessageResult } from '../types.js';
+
+/**
+ * Messaging provider interface — the SMS counterpart of DialerProvider.
+ * Implement this to send texts through providers beyond Twilio and Telnyx.
+ */
+export interface MessagingProvider {
+  readonly name: string;
+
+  /** Send an SMS from one of the account's numbers */
+  sendMessage(options: SendMessageOptions): Promise<SendMessageResult>;
+}
+
+/**
+ * In-memory MessagingProvider for tests and local development. Records every
+ * accepted message; `failNext` makes the next send report a provider error.
+ */
+export class InMemoryMessagingProvider implements MessagingProvider {
+  readonly name = 'memory';
+  readonly sent: Array<SendMessageOptions & { messageSid: string }> = [];
+  private nextFailure: string | null = null;
+
+  failNext(error: string): void {
+    this.nextFailure = error;
+  }
+
+  async sendMessage(options: SendMessageOptions): Promise<SendMessageResult> {
+    if (this.nextFailure !== null) {
+      const error = this.nextFailure;
+      this.nextFailure = null;
+      return { success: false, error };
+    }
+    const messageSid = `SM-memory-${this.sent.length + 1}`;
+    this.sent.push({ ...options, messageSid });
+    return { success: true, messageSid, status: 'queued' };
+  }
+}
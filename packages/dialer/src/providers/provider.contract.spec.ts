@@ -0,0 +1,676 @@
+import { Effect, Either, type Layer } from 'effect';
+
+import type { ProcessProviderCallbackInput } from '../application/process-provider-callback';
+import { applyProviderCallStatus } from '../domain/parallel-call';
+import { createTelnyxCallProviderLayer } from '../infrastructure/telnyx/call-provider';
+import { normalizeTelnyxCallback } from '../infrastructure/telnyx/callbacks';
+import { createTwilioCallProviderLayer } from '../infrastructure/twilio/call-provider';
+import { normalizeTwilioCallback } from '../infrastructure/twilio/callbacks';
+import {
+  CallProvider,
+  type CallProviderService,
+} from '../ports/call-provider';
+import type { ParallelCall } from '../types';
+import type { DialerProvider } from './base';
+import { InMemoryMessagingProvider, type MessagingProvider } from './messaging';
+import { TelnyxProvider } from './telnyx';
+import { TwilioProvider } from './twilio';
+
+type FailableOperation =
+  | 'create'
+  | 'update'
+  | 'fetch'
+  | 'participant'
+  | 'message';
+
+type SentMessage = {
+  to: string;
+  from: string;
+  body: string;
+  statusCallback?: string;
+};
+
+type CreatedCall = {
+  to: string;
+  from: string;
+  url?: string;
+  statusCallback?: string;
+  machineDetection?: string;
+};
+
+/** Programmable fake of one provider's HTTP surface */
+type Backend = {
+  reset(): void;
+  failNext(operation: FailableOperation, status: number): void;
+  setCallStatus(status: string): void;
+  setConference(sid: string | null): void;
+  created(): CreatedCall[];
+  updatedCalls(): string[];
+  unmuted(): Array<{ conferenceSid: string; callSid: string }>;
+  messages(): SentMessage[];
+};
+
+type Lifecycle = 'answered-human' | 'answered-machine' | 'busy' | 'completed';
+
+type ProviderHarness = {
+  name: string;
+  backend: Backend;
+  dialerProvider: () => DialerProvider & MessagingProvider;
+  callProviderLayer: () => Layer.Layer<CallProviderService>;
+  callback: (
+    callSid: string,
+    step: Lifecycle,
+  ) => ProcessProviderCallbackInput | null;
+};
+
+const httpError = (status: number) =>
+  Object.assign(new Error(`HTTP ${status}`), { status });
+
+// --- Twilio: the SDK is mocked ---
+
+const twilioState = {
+  failures: new Map<FailableOperation, number>(),
+  callStatus: 'in-progress',
+  conferenceSid: 'CF-1' as string | null,
+  created: [] as CreatedCall[],
+  updated: [] as string[],
+  unmuted: [] as Array<{ conferenceSid: string; callSid: string }>,
+  messages: [] as SentMessage[],
+};
+
+const twilioStep = async <T>(
+  operation: FailableOperation,
+  run: () => T,
+): Promise<T> => {
+  const status = twilioState.failures.get(operation);
+  if (status !== undefined) {
+    twilioState.failures.delete(operation);
+    // Twilio tags a missing conference participant with error code 20404
+    throw Object.assign(
+      httpError(status),
+      operation === 'participant' ? { code: 20404 } : {},
+    );
+  }
+  return run();
+};
+
+const mockTwilioClient = {
+  calls: Object.assign(
+    (sid: string) => ({
+      update: () =>
+        twilioStep('update', () => {
+          twilioState.updated.push(sid);
+          return {};
+        }),
+      fetch: () =>
+        twilioStep('fetch', () => ({ sid, status: twilioState.callStatus })),
+    }),
+    {
+      create: (input: CreatedCall) =>
+        twilioStep('create', () => {
+          twilioState.created.push({
+            to: input.to,
+            from: input.from,
+            url: input.url,
+            statusCallback: input.statusCallback,
+            machineDetection: input.machineDetection,
+          });
+          return { sid: 'CALL-1' };
+        }),
+    },
+  ),
+  messages: {
+    create: (input: SentMessage) =>
+      twilioStep('message', () => {
+        twilioState.messages.push({
+          to: input.to,
+          from: input.from,
+          body: input.body,
+          statusCallback: input.statusCallback,
+        });
+        return { sid: 'SM-1', status: 'queued' };
+      }),
+  },
+  conferences: Object.assign(
+    (conferenceSid: string) => ({
+      participants: (callSid: string) => ({
+        update: () =>
+          twilioStep('participant', () => {
+            twilioState.unmuted.push({ conferenceSid, callSid });
+            return {};
+          }),
+      }),
+    }),
+    {
+      list: async () =>
+        twilioState.conferenceSid ? [{ sid: twilioState.conferenceSid }] : [],
+    },
+  ),
+};
+
+jest.mock('twilio', () => ({
+  __esModule: true,
+  default: () => mockTwilioClient,
+}));
+
+const TWILIO_CALLBACKS: Record<Lifecycle, Record<string, string>> = {
+  'answered-human': { CallStatus: 'in-progress', AnsweredBy: 'human' },
+  'answered-machine': { CallStatus: 'in-progress', AnsweredBy: 'machine_start' },
+  busy: { CallStatus: 'busy' },
+  completed: { CallStatus: 'completed' },
+};
+
+const twilioHarness: ProviderHarness = {
+  name: 'twilio',
+  backend: {
+    reset: () => {
+      twilioState.failures.clear();
+      twilioState.callStatus = 'in-progress';
+      twilioState.conferenceSid = 'CF-1';
+      twilioState.created = [];
+      twilioState.updated = [];
+      twilioState.unmuted = [];
+      twilioState.messages = [];
+    },
+    failNext: (operation, status) =>
+      twilioState.failures.set(operation, status),
+    setCallStatus: (status) => {
+      twilioState.callStatus = status;
+    },
+    setConference: (sid) => {
+      twilioState.conferenceSid = sid;
+    },
+    created: () => twilioState.created,
+    updatedCalls: () => twilioState.updated,
+    unmuted: () => twilioState.unmuted,
+    messages: () => twilioState.messages,
+  },
+  dialerProvider: () =>
+    new TwilioProvider({ accountSid: 'AC-test', authToken: 'token' }),
+  callProviderLayer: () =>
+    createTwilioCallProviderLayer({
+      accountSid: 'AC-test',
+      authToken: 'token',
+    }),
+  callback: (callSid, step) =>
+    normalizeTwilioCallback({ CallSid: callSid, ...TWILIO_CALLBACKS[step] }),
+};
+
+// --- Telnyx: fetch is mocked at the HTTP boundary ---
+
+const TELNYX_BASE = 'https://telnyx.test/v2';
+const TELNYX_ACCOUNT = `${TELNYX_BASE}/texml/Accounts/telnyx-account`;
+
+const telnyxState = {
+  failures: new Map<FailableOperation, number>(),
+  callStatus: 'in-progress',
+  conferenceSid: 'CF-1' as string | null,
+  created: [] as CreatedCall[],
+  updated: [] as string[],
+  unmuted: [] as Array<{ conferenceSid: string; callSid: string }>,
+  messages: [] as SentMessage[],
+};
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+
+const telnyxFetch = async (
+  input: string | URL | Request,
+  init?: RequestInit,
+): Promise<Response> => {
+  const url = String(input);
+  const method = init?.method ?? 'GET';
+  const body = init?.body ? JSON.parse(String(init.body)) : {};
+  const route = (operation: FailableOperation, ok: () => unknown) => {
+    const status = telnyxState.failures.get(operation);
+    if (status !== undefined) {
+      telnyxState.failures.delete(operation);
+      return jsonResponse(status, { errors: [{ detail: `HTTP ${status}` }] });
+    }
+    return jsonResponse(200, ok());
+  };
+
+  if (method === 'POST' && url === `${TELNYX_BASE}/texml/calls/texml-app`) {
+    return route('create', () => {
+      telnyxState.created.push({
+        to: body.To,
+        from: body.From,
+        url: body.Url,
+        statusCallback: body.StatusCallback,
+        machineDetection: body.MachineDetection,
+      });
+      return { call_sid: 'CALL-1', status: 'queued' };
+    });
+  }
+  if (method === 'POST' && url === `${TELNYX_BASE}/messages`) {
+    return route('message', () => {
+      telnyxState.messages.push({
+        to: body.to,
+        from: body.from,
+        body: body.text,
+        statusCallback: body.webhook_url,
+      });
+      return {
+        data: { id: 'SM-1', to: [{ phone_number: body.to, status: 'queued' }] },
+      };
+    });
+  }
+  const call = new RegExp(`^${TELNYX_ACCOUNT}/Calls/([^/?]+)$`).exec(url);
+  if (call && method === 'POST') {
+    return route('update', () => {
+      telnyxState.updated.push(decodeURIComponent(call[1]));
+      return {};
+    });
+  }
+  if (call && method === 'GET') {
+    return route('fetch', () => ({
+      call_sid: call[1],
+      status: telnyxState.callStatus,
+    }));
+  }
+  if (method === 'GET' && url.startsWith(`${TELNYX_ACCOUNT}/Conferences?`)) {
+    return jsonResponse(200, {
+      conferences: telnyxState.conferenceSid
+        ? [{ sid: telnyxState.conferenceSid }]
+        : [],
+    });
+  }
+  const participant = new RegExp(
+    `^${TELNYX_ACCOUNT}/Conferences/([^/]+)/Participants/([^/]+)$`,
+  ).exec(url);
+  if (participant && method === 'POST') {
+    return route('participant', () => {
+      telnyxState.unmuted.push({
+        conferenceSid: participant[1],
+        callSid: participant[2],
+      });
+      return {};
+    });
+  }
+  return jsonResponse(404, { errors: [{ detail: `No route ${url}` }] });
+};
+
+const telnyxCredentials = {
+  apiKey: 'telnyx-key',
+  accountSid: 'telnyx-account',
+  texmlApplicationId: 'texml-app',
+  baseUrl: TELNYX_BASE,
+};
+
+const telnyxHarness: ProviderHarness = {
+  name: 'telnyx',
+  backend: {
+    reset: () => {
+      telnyxState.failures.clear();
+      telnyxState.callStatus = 'in-progress';
+      telnyxState.conferenceSid = 'CF-1';
+      telnyxState.created = [];
+      telnyxState.updated = [];
+      telnyxState.unmuted = [];
+      telnyxState.messages = [];
+    },
+    failNext: (operation, status) =>
+      telnyxState.failures.set(operation, status),
+    setCallStatus: (status) => {
+      telnyxState.callStatus = status;
+    },
+    setConference: (sid) => {
+      telnyxState.conferenceSid = sid;
+    },
+    created: () => telnyxState.created,
+    updatedCalls: () => telnyxState.updated,
+    unmuted: () => telnyxState.unmuted,
+    messages: () => telnyxState.messages,
+  },
+  dialerProvider: () => new TelnyxProvider(telnyxCredentials),
+  callProviderLayer: () => createTelnyxCallProviderLayer(telnyxCredentials),
+  // Call Control events for answers, a TeXML status callback for the rest
+  callback: (callSid, step) =>
+    normalizeTelnyxCallback(
+      {
+        'answered-human': {
+          data: {
+            event_type: 'call.machine.detection.ended',
+            payload: { call_control_id: callSid, result: 'human' },
+          },
+        },
+        'answered-machine': {
+          data: {
+            event_type: 'call.machine.detection.ended',
+            payload: { call_control_id: callSid, result: 'machine' },
+          },
+        },
+        busy: {
+          data: {
+            event_type: 'call.hangup',
+            payload: { call_control_id: callSid, hangup_cause: 'user_busy' },
+          },
+        },
+        completed: { CallSid: callSid, CallStatus: 'completed' },
+      }[step],
+    ),
+};
+
+const originalFetch = globalThis.fetch;
+
+beforeAll(() => {
+  globalThis.fetch = telnyxFetch as typeof fetch;
+});
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+});
+
+const runWith = <A, E>(
+  harness: ProviderHarness,
+  program: (provider: CallProviderService) => Effect.Effect<A, E>,
+) =>
+  Effect.runPromise(
+    Effect.either(
+      Effect.flatMap(CallProvider, program).pipe(
+        Effect.provide(harness.callProviderLayer()),
+      ),
+    ),
+  );
+
+const dialingCall = (callSid: string): ParallelCall => ({
+  callSid,
+  customerNumber: '+15551230001',
+  fromNumber: '+15551230002',
+  position: 0,
+  status: 'ringing',
+  dialStartedAt: '2026-08-04T12:00:00.000Z',
+});
+
+describe.each([twilioHarness, telnyxHarness])(
+  'telephony provider contract: $name',
+  (harness) => {
+    beforeEach(() => harness.backend.reset());
+
+    describe('DialerProvider', () => {
+      it('dials the agent leg and reports the caller id used', async () => {
+        const result = await harness.dialerProvider().dial({
+          to: '+15551230001',
+          from: '+15551230002',
+          callerIdNumber: '+15551230003',
+          userId: 'user-1',
+          statusCallbackUrl: 'https://dialer.test/status',
+        });
+
+        expect(result).toEqual({
+          success: true,
+          callSid: 'CALL-1',
+          fromNumber: '+15551230003',
+          selectionMethod: 'manual',
+        });
+        expect(harness.backend.created()[0]).toMatchObject({
+          to: '+15551230002',
+          from: '+15551230003',
+          statusCallback: 'https://dialer.test/status',
+        });
+      });
+
+      it('reports dial and hangup failures instead of throwing', async () => {
+        const provider = harness.dialerProvider();
+        harness.backend.failNext('create', 500);
+        harness.backend.failNext('update', 400);
+
+        expect(
+          await provider.dial({
+            to: '+15551230001',
+            from: '+15551230002',
+            userId: 'user-1',
+          }),
+        ).toMatchObject({ success: false, error: expect.any(String) });
+        expect(await provider.hangup('CALL-9')).toMatchObject({
+          success: false,
+          callSid: 'CALL-9',
+        });
+        expect(await provider.hangup('CALL-9')).toEqual({
+          success: true,
+          callSid: 'CALL-9',
+        });
+        expect(harness.backend.updatedCalls()).toEqual(['CALL-9']);
+      });
+
+      it('treats terminal and unreachable calls as completed', async () => {
+        const provider = harness.dialerProvider();
+        expect(await provider.isCallCompleted('CALL-1')).toBe(false);
+        harness.backend.setCallStatus('no-answer');
+        expect(await provider.isCallCompleted('CALL-1')).toBe(true);
+        harness.backend.setCallStatus('in-progress');
+        harness.backend.failNext('fetch', 404);
+        expect(await provider.isCallCompleted('CALL-1')).toBe(true);
+      });
+    });
+
+    describe('MessagingProvider', () => {
+      it('sends from the given number with a delivery status callback', async () => {
+        const result = await harness.dialerProvider().sendMessage({
+          to: '+15551230001',
+          from: '+15551230002',
+          body: 'Following up on our call',
+          statusCallbackUrl: 'https://dialer.test/sms-status',
+        });
+
+        expect(result).toEqual({
+          success: true,
+          messageSid: 'SM-1',
+          status: 'queued',
+        });
+        expect(harness.backend.messages()).toEqual([
+          {
+            to: '+15551230001',
+            from: '+15551230002',
+            body: 'Following up on our call',
+            statusCallback: 'https://dialer.test/sms-status',
+          },
+        ]);
+      });
+
+      it('reports send failures instead of throwing', async () => {
+        harness.backend.failNext('message', 400);
+
+        expect(
+          await harness.dialerProvider().sendMessage({
+            to: '+15551230001',
+            from: '+15551230002',
+            body: 'Hi',
+          }),
+        ).toMatchObject({ success: false, error: expect.any(String) });
+        expect(harness.backend.messages()).toEqual([]);
+      });
+    });
+
+    describe('CallProvider port', () => {
+      it('creates customer calls with TwiML, status callbacks and AMD', async () => {
+        const result = await runWith(harness, (provider) =>
+          provider.createCall({
+            to: '+15551230001',
+            from: '+15551230002',
+            customerTwimlUrl: 'https://dialer.test/twiml/customer',
+            statusCallbackUrl: 'https://dialer.test/status',
+          }),
+        );
+
+        expect(result).toEqual(Either.right({ callSid: 'CALL-1' }));
+        expect(harness.backend.created()).toEqual([
+          {
+            to: '+15551230001',
+            from: '+15551230002',
+            url: 'https://dialer.test/twiml/customer',
+            statusCallback: 'https://dialer.test/status',
+            machineDetection: 'Enable',
+          },
+        ]);
+      });
+
+      it('holds AMD until the greeting ends when a voicemail drop needs the beep', async () => {
+        await runWith(harness, (provider) =>
+          provider.createCall({
+            to: '+15551230001',
+            from: '+15551230002',
+            customerTwimlUrl: 'https://dialer.test/twiml/customer',
+            statusCallbackUrl: 'https://dialer.test/status',
+            detectMessageEnd: true,
+          }),
+        );
+
+        expect(harness.backend.created()[0]).toMatchObject({
+          machineDetection: 'DetectMessageEnd',
+        });
+      });
+
+      it.each([
+        [400, false],
+        [429, true],
+        [503, true],
+      ])(
+        'maps HTTP %i to a DialerProviderError with retryable=%s',
+        async (status, retryable) => {
+          harness.backend.failNext('update', status);
+          const result = await runWith(harness, (provider) =>
+            provider.terminateCall('CALL-1'),
+          );
+
+          expect(Either.isLeft(result)).toBe(true);
+          if (Either.isLeft(result)) {
+            expect(result.left).toMatchObject({
+              _tag: 'DialerProviderError',
+              operation: 'terminate-call',
+              retryable,
+            });
+          }
+        },
+      );
+
+      it('unmutes the winner and tolerates a participant that has not joined yet', async () => {
+        const unmute = await runWith(harness, (provider) =>
+          provider.unmuteConferenceParticipant('conf-1', 'CALL-1'),
+        );
+        harness.backend.failNext('participant', 404);
+        const notJoined = await runWith(harness, (provider) =>
+          provider.unmuteConferenceParticipant('conf-1', 'CALL-2'),
+        );
+        harness.backend.setConference(null);
+        const noConference = await runWith(harness, (provider) =>
+          provider.unmuteConferenceParticipant('conf-1', 'CALL-3'),
+        );
+
+        expect(Either.isRight(unmute)).toBe(true);
+        expect(Either.isRight(notJoined)).toBe(true);
+        expect(harness.backend.unmuted()).toEqual([
+          { conferenceSid: 'CF-1', callSid: 'CALL-1' },
+        ]);
+        expect(Either.isLeft(noConference)).toBe(true);
+      });
+    });
+
+    describe('status callbacks', () => {
+      const occurredAt = '2026-08-04T12:00:05.000Z';
+      const apply = (step: Lifecycle) => {
+        const event = harness.callback('CALL-1', step);
+        if (!event) throw new Error(`no callback for ${step}`);
+        return applyProviderCallStatus(dialingCall('CALL-1'), {
+          ...event,
+          occurredAt,
+        });
+      };
+
+      it('normalizes answers with answering-machine detection', () => {
+        expect(apply('answered-human')).toMatchObject({
+          status: 'in-progress',
+          amdResult: 'human',
+          answeredAt: occurredAt,
+        });
+        expect(apply('answered-machine')).toMatchObject({
+          status: 'in-progress',
+          amdResult: 'machine',
+        });
+      });
+
+      it('normalizes terminal outcomes', () => {
+        expect(apply('busy')).toMatchObject({
+          status: 'busy',
+          terminatedAt: occurredAt,
+        });
+        expect(apply('completed')).toMatchObject({
+          status: 'completed',
+          terminatedAt: occurredAt,
+        });
+      });
+
+      it('ignores payloads without a call id', () => {
+        expect(
+          harness.name === 'twilio'
+            ? normalizeTwilioCallback({ CallStatus: 'completed' })
+            : normalizeTelnyxCallback({ data: { event_type: 'call.hangup' } }),
+        ).toBeNull();
+      });
+    });
+  },
+);
+
+describe('InMemoryMessagingProvider', () => {
+  it('records accepted messages and fails only the next send when asked', async () => {
+    const provider: MessagingProvider = new InMemoryMessagingProvider();
+    const fake = provider as InMemoryMessagingProvider;
+    const options = { to: '+15551230001', from: '+15551230002', body: 'Hi' };
+
+    fake.failNext('carrier rejected');
+    expect(await provider.sendMessage(options)).toEqual({
+      success: false,
+      error: 'carrier rejected',
+    });
+    expect(await provider.sendMessage(options)).toEqual({
+      success: true,
+      messageSid: 'SM-memory-1',
+      status: 'queued',
+    });
+    expect(fake.sent).toEqual([{ ...options, messageSid: 'SM-memory-1' }]);
+  });
+});
+
+describe('Telnyx callback normalization', () => {
+  it('maps Call Control hangup causes and inconclusive AMD', () => {
+    const hangup = (cause: string) =>
+      normalizeTelnyxCallback({
+        data: {
+          event_type: 'call.hangup',
+          occurred_at: '2026-08-04T12:00:09.000Z',
+          payload: { call_control_id: 'v3:abc', hangup_cause: cause },
+        },
+      });
+
+    expect(hangup('normal_clearing')).toEqual({
+      callSid: 'v3:abc',
+      callStatus: 'completed',
+      occurredAt: '2026-08-04T12:00:09.000Z',
+    });
+    expect(hangup('timeout')?.callStatus).toBe('no-answer');
+    expect(hangup('originator_cancel')?.callStatus).toBe('canceled');
+    expect(hangup('call_rejected')?.callStatus).toBe('failed');
+    expect(
+      normalizeTelnyxCallback({
+        CallSid: 'v3:abc',
+        CallStatus: 'in-progress',
+        AnsweredBy: 'not_sure',
+      }),
+    ).toEqual({
+      callSid: 'v3:abc',
+      callStatus: 'in-progress',
+      answeredBy: 'unknown',
+    });
+    expect(
+      normalizeTelnyxCallback({
+        data: {
+          event_type: 'call.speak.ended',
+          payload: { call_control_id: 'v3:abc' },
+        },
+      }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,278 @@
+import type { DialerProvider } from './base.js';
+import type { MessagingProvider } from './messaging.js';
+import type {
+  TelnyxCredentials,
+  DialOptions,
+  DialResult,
+  HangupResult,
+  VoiceToken,
+  ProvisionNumberOptions,
+  ProvisionResult,
+  PhoneNumber,
+  SearchAvailableNumbersOptions,
+  AvailableNumber,
+  ReleaseResult,
+  SendMessageOptions,
+  SendMessageResult,
+} from '../types.js';
+import { extractAreaCode } from '../services/local-presence.js';
+import { isTerminalCallStatus } from '../domain/parallel-call.js';
+import {
+  createTelnyxClient,
+  resolveTelnyxCredentials,
+  type ResolvedTelnyxCredentials,
+  type TelnyxClient,
+} from '../infrastructure/telnyx/client.js';
+
+// Telnyx WebRTC tokens are valid for 24 hours
+const TOKEN_TTL_SECONDS = 86_400;
+
+type TelnyxAvailableNumber = {
+  phone_number: string;
+  region_information?: Array<{ region_type: string; region_name: string }>;
+};
+
+type TelnyxPhoneNumber = {
+  id: string;
+  phone_number: string;
+  connection_name?: string | null;
+  tags?: string[];
+};
+
+type TelnyxMessage = {
+  id: string;
+  to: Array<{ phone_number: string; status: string }>;
+};
+
+type TelnyxNumberOrder = {
+  id: string;
+  phone_numbers: Array<{ id: string; phone_number: string }>;
+};
+
+const region = (number: TelnyxAvailableNumber, type: string) =>
+  number.region_information?.find((info) => info.region_type === type)
+    ?.region_name;
+
+const messageOf = (err: unknown) =>
+  err instanceof Error ? err.message : String(err);
+
+/**
+ * Telnyx implementation of the DialerProvider and MessagingProvider.
+ *
+ * Uses the TeXML API, which accepts the same TwiML documents and status
+ * callback shape as Twilio. Credentials can be passed directly or read from
+ * env vars:
+ *   TELNYX_API_KEY, TELNYX_ACCOUNT_SID, TELNYX_TEXML_APPLICATION_ID,
+ *   TELNYX_CONNECTION_ID, TELNYX_CREDENTIAL_ID
+ */
+export class TelnyxProvider implements DialerProvider, MessagingProvider {
+  readonly name = 'telnyx';
+  private credentials: ResolvedTelnyxCredentials;
+  private client: TelnyxClient;
+
+  constructor(credentials?: TelnyxCredentials) {
+    this.credentials = resolveTelnyxCredentials(credentials);
+    this.client = createTelnyxClient(this.credentials);
+  }
+
+  async dial(options: DialOptions): Promise<DialResult> {
+    try {
+      if (!this.credentials.texmlApplicationId) {
+        throw new Error(
+          'Telnyx TeXML application not configured. Set TELNYX_TEXML_APPLICATION_ID.',
+        );
+      }
+      const fromNumber = options.callerIdNumber ?? options.from;
+
+      const call = await this.client.request<{ call_sid: string }>(
+        'POST',
+        `/texml/calls/${encodeURIComponent(this.credentials.texmlApplicationId)}`,
+        {
+          To: options.from, // call the agent first (3-way pattern)
+          From: fromNumber,
+          Url: options.statusCallbackUrl
+            ? `${options.statusCallbackUrl}?customer_number=${encodeURIComponent(options.to)}&user_id=${encodeURIComponent(options.userId)}`
+            : undefined,
+          StatusCallback: options.statusCallbackUrl,
+          StatusCallbackEvent: 'completed',
+          StatusCallbackMethod: 'POST',
+        },
+      );
+
+      return {
+        success: true,
+        callSid: call.call_sid,
+        fromNumber,
+        selectionMethod: options.callerIdNumber ? 'manual' : 'system_default',
+      };
+    } catch (err: unknown) {
+      return { success: false, error: messageOf(err) };
+    }
+  }
+
+  async hangup(callSid: string): Promise<HangupResult> {
+    try {
+      await this.client.request('POST', this.callPath(callSid), {
+        Status: 'completed',
+      });
+      return { success: true, callSid };
+    } catch (err: unknown) {
+      return { success: false, callSid, error: messageOf(err) };
+    }
+  }
+
+  async getToken(userId: string): Promise<VoiceToken> {
+    const { credentialId } = this.credentials;
+    if (!credentialId) {
+      throw new Error(
+        'Missing required Telnyx credentials for voice tokens: TELNYX_CREDENTIAL_ID',
+      );
+    }
+    const token = await this.client.request<string>(
+      'POST',
+      `/telephony_credentials/${encodeURIComponent(credentialId)}/token`,
+    );
+    return { token, identity: `user_${userId}`, ttl: TOKEN_TTL_SECONDS };
+  }
+
+  async sendMessage(options: SendMessageOptions): Promise<SendMessageResult> {
+    try {
+      const message = await this.client.request<{ data: TelnyxMessage }>(
+        'POST',
+        '/messages',
+        {
+          from: options.from,
+          to: options.to,
+          text: options.body,
+          ...(options.statusCallbackUrl
+            ? { webhook_url: options.statusCallbackUrl }
+            : {}),
+        },
+      );
+      return {
+        success: true,
+        messageSid: message.data.id,
+        status: message.data.to[0]?.status,
+      };
+    } catch (err: unknown) {
+      return { success: false, error: messageOf(err) };
+    }
+  }
+
+  async provisionNumber(
+    options: ProvisionNumberOptions,
+  ): Promise<ProvisionResult> {
+    try {
+      let phoneNumber = options.phoneNumber;
+      if (!phoneNumber) {
+        const [available] = await this.searchAvailableNumbers({
+          areaCode: options.areaCode,
+          limit: 1,
+        });
+        if (!available) {
+          return {
+            success: false,
+            error: `No numbers available for area code ${options.areaCode}`,
+          };
+        }
+        phoneNumber = available.phoneNumber;
+      }
+
+      // voice/SMS URLs live on the TeXML application, not the number
+      const order = await this.client.request<{ data: TelnyxNumberOrder }>(
+        'POST',
+        '/number_orders',
+        {
+          phone_numbers: [{ phone_number: phoneNumber }],
+          ...(this.credentials.connectionId
+            ? { connection_id: this.credentials.connectionId }
+            : {}),
+          customer_reference: options.friendlyName ?? 'Consuelo Number',
+        },
+      );
+      const ordered = order.data.phone_numbers[0];
+
+      return {
+        success: true,
+        phoneNumber: ordered?.phone_number ?? phoneNumber,
+        sid: ordered?.id,
+        areaCode: options.areaCode,
+      };
+    } catch (err: unknown) {
+      return { success: false, error: messageOf(err) };
+    }
+  }
+
+  async isCallCompleted(callSid: string): Promise<boolean> {
+    try {
+      const call = await this.client.request<{ status: string }>(
+        'GET',
+        this.callPath(callSid),
+      );
+      return isTerminalCallStatus(call.status);
+    } catch {
+      return true; // if we can't fetch it, treat as completed
+    }
+  }
+
+  async listNumbers(): Promise<PhoneNumber[]> {
+    try {
+      const numbers = await this.client.request<{ data: TelnyxPhoneNumber[] }>(
+        'GET',
+        '/phone_numbers?page[size]=250',
+      );
+      return numbers.data.map((n) => ({
+        phoneNumber: n.phone_number,
+        areaCode: extractAreaCode(n.phone_number) ?? '',
+        isPrimary: false,
+        isActive: true,
+        friendlyName: n.connection_name ?? undefined,
+        providerSid: n.id,
+      }));
+    } catch (err: unknown) {
+      throw new Error(`Failed to list numbers: ${messageOf(err)}`);
+    }
+  }
+
+  async searchAvailableNumbers(
+    options: SearchAvailableNumbersOptions,
+  ): Promise<AvailableNumber[]> {
+    try {
+      const query = new URLSearchParams({
+        'filter[country_code]': options.country ?? 'US',
+        'filter[national_destination_code]': options.areaCode,
+        'filter[features][]': 'voice',
+        'filter[limit]': String(options.limit ?? 10),
+      });
+      const available = await this.client.request<{
+        data: TelnyxAvailableNumber[];
+      }>('GET', `/available_phone_numbers?${query}`);
+      return available.data.map((n) => ({
+        phoneNumber: n.phone_number,
+        areaCode: options.areaCode,
+        friendlyName: n.phone_number,
+        city: region(n, 'location'),
+        state: region(n, 'state'),
+        region: region(n, 'rate_center'),
+      }));
+    } catch (err: unknown) {
+      throw new Error(`Failed to search available numbers: ${messageOf(err)}`);
+    }
+  }
+
+  async releaseNumber(sid: string): Promise<ReleaseResult> {
+    try {
+      await this.client.request(
+        'DELETE',
+        `/phone_numbers/${encodeURIComponent(sid)}`,
+      );
+      return { success: true };
+    } catch (err: unknown) {
+      return { success: false, error: messageOf(err) };
+    }
+  }
+
+  private callPath(callSid: string): string {
+    return `/texml/Accounts/${encodeURIComponent(this.credentials.accountSid)}/Calls/${encodeURIComponent(callSid)}`;
+  }
+}
@@ -1,4 +1,5 @@
 import type { DialerProvider } from './base.js';
+import type { MessagingProvider } from './messaging.js';
 import type {
   TwilioCredentials,
   DialOptions,
@@ -11,6 +12,8 @@ import type {
   SearchAvailableNumbersOptions,
   AvailableNumber,
   ReleaseResult,
+  SendMessageOptions,
+  SendMessageResult,
 } from '../types.js';
 import { extractAreaCode } from '../services/local-presence.js';
 import type TwilioClient from 'twilio';
@@ -26,14 +29,14 @@ const TERMINAL_STATUSES = [
 ];
 
 /**
- * Twilio implementation of the DialerProvider.
+ * Twilio implementation of the DialerProvider and MessagingProvider.
  *
  * Requires the `twilio` package as a peer dependency.
  * Credentials can be passed directly or read from env vars:
  *   TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_API_KEY,
  *   TWILIO_API_SECRET, TWILIO_TWIML_APP_SID
  */
-export class TwilioProvider implements DialerProvider {
+export class TwilioProvider implements DialerProvider, MessagingProvider {
   readonly name = 'twilio';
   private client: ReturnType<typeof TwilioClient> | null = null;
   private credentials: TwilioCredentials;
@@ -106,6 +109,22 @@ export class TwilioProvider implements DialerProvider {
     }
   }
 
+  async sendMessage(options: SendMessageOptions): Promise<SendMessageResult> {
+    try {
+      const client = await this.getClient();
+      const message = await client.messages.create({
+        to: options.to,
+        from: options.from,
+        body: options.body,
+        statusCallback: options.statusCallbackUrl,
+      });
+      return { success: true, messageSid: message.sid, status: message.status };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { success: false, error: message };
+    }
+  }
+
   async getToken(userId: string): Promise<VoiceToken> {
     try {
       const { apiKey, apiSecret, twimlAppSid, accountSid } = this.credentials;
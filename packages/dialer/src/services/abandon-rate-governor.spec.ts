@@ -0,0 +1,102 @@
+import { InMemoryAbandonRateStore } from '../infrastructure/memory/abandon-rate-store';
+import type { AbandonRateStore, ParallelDialProfile } from '../types';
+import { AbandonRateGovernor } from './abandon-rate-governor';
+
+const balanced: ParallelDialProfile = {
+  id: 'balanced',
+  fanout: 3,
+  staggerMs: 500,
+  amdPolicy: 'human-or-unknown',
+  terminationPolicy: 'winner-take-all',
+};
+
+const scope = { workspaceId: 'ws-1', campaignSegment: 'solar' };
+const now = new Date('2026-07-23T12:00:00.000Z');
+
+describe('AbandonRateGovernor', () => {
+  it('only counts calls inside the rolling window', async () => {
+    const store = new InMemoryAbandonRateStore();
+    await store.recordCalls(
+      scope,
+      { humanAnswers: 100, abandonedCalls: 10 },
+      '2026-06-01T12:00:00.000Z',
+    );
+    await store.recordCalls(
+      scope,
+      { humanAnswers: 100, abandonedCalls: 1 },
+      '2026-07-22T12:00:00.000Z',
+    );
+    const governor = new AbandonRateGovernor(store, {}, () => now);
+
+    const decision = await governor.review(balanced, scope);
+
+    expect(decision).toMatchObject({
+      action: 'none',
+      fanoutAfter: 3,
+      humanAnswers: 100,
+      abandonedCalls: 1,
+      abandonRate: 0.01,
+    });
+    expect(store.listDecisions(scope)).toEqual([]);
+  });
+
+  it('records each throttling decision for reporting', async () => {
+    const store = new InMemoryAbandonRateStore();
+    await store.recordCalls(
+      scope,
+      { humanAnswers: 1000, abandonedCalls: 26 },
+      '2026-07-22T12:00:00.000Z',
+    );
+    const governor = new AbandonRateGovernor(store, {}, () => now);
+
+    const decision = await governor.review(balanced, scope);
+
+    expect(decision).toMatchObject({
+      action: 'reduced',
+      fanoutBefore: 3,
+      fanoutAfter: 2,
+      ceiling: 0.03,
+      windowDays: 30,
+      decidedAt: now.toISOString(),
+    });
+    expect(store.listDecisions(scope)).toEqual([decision]);
+  });
+
+  it('dials one line when the window cannot be loaded', async () => {
+    const store: AbandonRateStore = {
+      recordCalls: jest.fn(),
+      loadWindow: jest.fn().mockRejectedValue(new Error('db down')),
+      recordDecision: jest.fn().mockRejectedValue(new Error('db down')),
+    };
+    const governor = new AbandonRateGovernor(store, {}, () => now);
+
+    await expect(governor.review(balanced, scope)).resolves.toMatchObject({
+      action: 'single-line',
+      fanoutAfter: 1,
+      unavailable: true,
+    });
+  });
+
+  it('adds finished groups with live answers to the window', async () => {
+    const store = new InMemoryAbandonRateStore();
+    const governor = new AbandonRateGovernor(store, {}, () => now);
+    const telemetry = {
+      winnerRate: 1,
+      wastedLegs: 2,
+      connectLatencyMs: 900,
+      humanAnswers: 2,
+      abandonedLegs: 1,
+    };
+
+    await governor.recordTelemetry(scope, telemetry);
+    await governor.recordTelemetry(scope, {
+      ...telemetry,
+      humanAnswers: 0,
+      abandonedLegs: 0,
+    });
+
+    await expect(
+      store.loadWindow(scope, '2026-07-01T00:00:00.000Z'),
+    ).resolves.toEqual({ humanAnswers: 2, abandonedCalls: 1 });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  abandonRate,
+  abandonWindowStart,
+  DEFAULT_ABANDON_RATE_CONFIG,
+  governFanout,
+} from '../domain/abandon-rate.js';
+import type {
+  AbandonRateDecision,
+  AbandonRateGovernorConfig,
+  AbandonRateScope,
+  AbandonRateStore,
+  AbandonRateWindow,
+  ParallelDialProfile,
+  ParallelTelemetry,
+} from '../types.js';
+
+/**
+ * Keeps parallel dialing under an abandon-rate ceiling. Completed groups feed
+ * a rolling window per workspace and campaign; each new group's line count is
+ * cut as the window's rate approaches the ceiling.
+ */
+export class AbandonRateGovernor {
+  readonly config: AbandonRateGovernorConfig;
+
+  constructor(
+    private readonly store: AbandonRateStore,
+    config: Partial<AbandonRateGovernorConfig> = {},
+    private readonly now: () => Date = () => new Date(),
+  ) {
+    this.config = { ...DEFAULT_ABANDON_RATE_CONFIG, ...config };
+  }
+
+  /** Decides the line count for a new group and records any throttling */
+  async review(
+    profile: ParallelDialProfile,
+    scope: AbandonRateScope,
+  ): Promise<AbandonRateDecision> {
+    const decidedAt = this.now();
+    let window: AbandonRateWindow | null = null;
+    try {
+      window = await this.store.loadWindow(
+        scope,
+        abandonWindowStart(decidedAt, this.config.windowDays),
+      );
+    } catch {
+      window = null;
+    }
+
+    const rate = window ? abandonRate(window) : null;
+    // without the window the rate cannot be shown to be under the ceiling
+    const governed = governFanout(
+      profile.fanout,
+      window ? rate : this.config.ceiling,
+      this.config,
+    );
+
+    const decision: AbandonRateDecision = {
+      workspaceId: scope.workspaceId,
+      ...(scope.campaignSegment
+        ? { campaignSegment: scope.campaignSegment }
+        : {}),
+      action: governed.action,
+      profileId: profile.id,
+      fanoutBefore: profile.fanout,
+      fanoutAfter: governed.fanout,
+      abandonRate: rate,
+      ceiling: this.config.ceiling,
+      windowDays: this.config.windowDays,
+      humanAnswers: window?.humanAnswers ?? 0,
+      abandonedCalls: window?.abandonedCalls ?? 0,
+      ...(window ? {} : { unavailable: true }),
+      decidedAt: decidedAt.toISOString(),
+    };
+
+    if (decision.action !== 'none') {
+      // the report is best effort; a failed write must not block the dial
+      await this.store.recordDecision(decision).catch(() => undefined);
+    }
+    return decision;
+  }
+
+  /** Adds a finished group's live answers and abandons to the window */
+  recordTelemetry(
+    scope: AbandonRateScope,
+    telemetry: ParallelTelemetry,
+    occurredAt: string = this.now().toISOString(),
+  ): Promise<void> {
+    if (telemetry.humanAnswers === 0 && telemetry.abandonedLegs === 0) {
+      return Promise.resolve();
+    }
+    return this.store.recordCalls(
+      scope,
+      {
+        humanAnswers: telemetry.humanAnswers,
+        abandonedCalls: telemetry.abandonedLegs,
+      },
+      occurredAt,
+    );
+  }
+}
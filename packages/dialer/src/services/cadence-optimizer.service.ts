@@ -102,6 +102,11 @@ export class CadenceOptimizerService {
       return false;
     }
 
+    // the contact already has our message; ringing straight back reads as spam
+    if (normalizedOutcome === 'voicemail_dropped') {
+      return false;
+    }
+
     if (!params.policy.doubleDial.triggerOutcomes.includes(normalizedOutcome)) {
       return false;
     }
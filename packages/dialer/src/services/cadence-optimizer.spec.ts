@@ -94,6 +94,34 @@ describe('CadenceOptimizerService', () => {
     ).toBe(true);
   });
 
+  it('double-dial blocked after a voicemail drop even if the policy triggers on it', () => {
+    const policy = service.computeCadencePolicy({
+      segmentId: 'home:aged',
+      ageBucket: 'aged',
+      hazardEstimates: buildHazards('home:aged', 60),
+      economics: baseEconomics,
+    });
+
+    expect(
+      service.shouldDoubleDial({
+        outcome: 'voicemail_dropped',
+        callDurationSeconds: 8,
+        minutesSinceLastAttempt: 31,
+        doubleDialsThisSession: 0,
+        policy: {
+          ...policy,
+          doubleDial: {
+            ...policy.doubleDial,
+            triggerOutcomes: [
+              ...policy.doubleDial.triggerOutcomes,
+              'voicemail_dropped',
+            ],
+          },
+        },
+      }),
+    ).toBe(false);
+  });
+
   it('double-dial blocked if already done this session', () => {
     const policy = service.computeCadencePolicy({
       segmentId: 'home:aged',
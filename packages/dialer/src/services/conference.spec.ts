@@ -9,6 +9,7 @@ const mockConferencesList = jest.fn();
 const mockCallsCreate = jest.fn();
 const mockCallUpdate = jest.fn();
 const mockRecordingFetch = jest.fn();
+const mockRecordingRemove = jest.fn();
 const mockRecordingsList = jest.fn();
 
 const mockClient = {
@@ -34,7 +35,10 @@ const mockClient = {
     { create: mockCallsCreate },
   ),
   recordings: Object.assign(
-    (sid: string) => ({ fetch: mockRecordingFetch }),
+    (sid: string) => ({
+      fetch: mockRecordingFetch,
+      remove: mockRecordingRemove,
+    }),
     { list: mockRecordingsList },
   ),
 };
@@ -56,6 +60,7 @@ describe('ConferenceService', () => {
     mockCallsCreate.mockReset();
     mockCallUpdate.mockReset();
     mockRecordingFetch.mockReset();
+    mockRecordingRemove.mockReset();
     mockRecordingsList.mockReset();
     service = new ConferenceService({ accountSid: 'AC_test', authToken: 'test_token' });
   });
@@ -159,6 +164,29 @@ describe('ConferenceService', () => {
       expect(mockParticipantUpdate).toHaveBeenCalledWith({ hold: true });
     });
 
+    it('plays hold music only while holding', async () => {
+      await service.holdParticipant(
+        'CF_abc',
+        'CA_123',
+        true,
+        'https://cdn.test/hold.mp3',
+      );
+      await service.holdParticipant(
+        'CF_abc',
+        'CA_123',
+        false,
+        'https://cdn.test/hold.mp3',
+      );
+      expect(mockParticipantUpdate).toHaveBeenNthCalledWith(1, {
+        hold: true,
+        holdUrl: 'https://cdn.test/hold.mp3',
+        holdMethod: 'GET',
+      });
+      expect(mockParticipantUpdate).toHaveBeenNthCalledWith(2, {
+        hold: false,
+      });
+    });
+
     it('should throw on failure', async () => {
       mockParticipantUpdate.mockRejectedValueOnce(new Error('not found'));
       await expect(service.holdParticipant('CF_abc', 'CA_123', true))
@@ -248,6 +276,25 @@ describe('ConferenceService', () => {
       expect(mockParticipantUpdate).toHaveBeenCalledWith({ hold: true });
     });
 
+    it('should hold the customer on the workspace hold music', async () => {
+      mockConferencesList.mockResolvedValue([{ sid: 'CF_abc' }]);
+      mockParticipantsList.mockResolvedValue([
+        { callSid: 'CA_cust', conferenceSid: 'CF_abc', label: 'customer', hold: false, muted: false, status: 'connected' },
+      ]);
+      mockParticipantsCreate.mockResolvedValue({ callSid: 'CA_target' });
+
+      await service.initiateTransfer({
+        ...baseOpts,
+        type: 'warm',
+        holdUrl: 'https://cdn.test/hold.mp3',
+      });
+      expect(mockParticipantUpdate).toHaveBeenCalledWith({
+        hold: true,
+        holdUrl: 'https://cdn.test/hold.mp3',
+        holdMethod: 'GET',
+      });
+    });
+
     it('should restore the customer when warm transfer target creation fails', async () => {
       mockConferencesList.mockResolvedValue([{ sid: 'CF_abc' }]);
       mockParticipantsList.mockResolvedValue([
@@ -316,6 +363,96 @@ describe('ConferenceService', () => {
     });
   });
 
+  describe('addSupervisor', () => {
+    it('should join a listening supervisor muted and without a beep', async () => {
+      mockConferencesList.mockResolvedValue([{ sid: 'CF_abc' }]);
+      mockParticipantsCreate.mockResolvedValue({ callSid: 'CA_super' });
+
+      const result = await service.addSupervisor({
+        conferenceName: 'conf-123',
+        agentCallSid: 'CA_agent',
+        to: 'client:user_manager',
+        from: '+15559876543',
+        mode: 'listen',
+      });
+
+      expect(result).toEqual({
+        success: true,
+        supervisorCallSid: 'CA_super',
+        conferenceSid: 'CF_abc',
+        mode: 'listen',
+      });
+      expect(mockParticipantsCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'client:user_manager',
+          label: 'supervisor',
+          beep: 'false',
+          endConferenceOnExit: false,
+          muted: true,
+          coaching: false,
+        }),
+      );
+    });
+
+    it('should coach only the agent leg when whispering', async () => {
+      mockConferencesList.mockResolvedValue([{ sid: 'CF_abc' }]);
+      mockParticipantsCreate.mockResolvedValue({ callSid: 'CA_super' });
+
+      await service.addSupervisor({
+        conferenceName: 'conf-123',
+        agentCallSid: 'CA_agent',
+        to: 'client:user_manager',
+        from: '+15559876543',
+        mode: 'whisper',
+      });
+
+      expect(mockParticipantsCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          muted: false,
+          coaching: true,
+          callSidToCoach: 'CA_agent',
+        }),
+      );
+    });
+
+    it('should return error when conference not found', async () => {
+      mockConferencesList.mockResolvedValue([]);
+
+      const result = await service.addSupervisor({
+        conferenceName: 'missing',
+        agentCallSid: 'CA_agent',
+        to: 'client:user_manager',
+        from: '+15559876543',
+        mode: 'barge',
+      });
+
+      expect(result).toEqual({ success: false, error: 'Conference not found' });
+      expect(mockParticipantsCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setSupervisorMode', () => {
+    it('should unmute and stop coaching on barge', async () => {
+      const result = await service.setSupervisorMode('CF_abc', 'CA_super', 'barge', 'CA_agent');
+
+      expect(result).toEqual({
+        success: true,
+        supervisorCallSid: 'CA_super',
+        conferenceSid: 'CF_abc',
+        mode: 'barge',
+      });
+      expect(mockParticipantUpdate).toHaveBeenCalledWith({ muted: false, coaching: false });
+    });
+
+    it('should return error when the provider rejects the update', async () => {
+      mockParticipantUpdate.mockRejectedValueOnce(new Error('participant gone'));
+
+      const result = await service.setSupervisorMode('CF_abc', 'CA_super', 'listen', 'CA_agent');
+
+      expect(result).toEqual({ success: false, error: 'participant gone' });
+    });
+  });
+
   describe('getRecording', () => {
     it('should return a recording URL and numeric duration', async () => {
       mockRecordingFetch.mockResolvedValue({ duration: '42' });
@@ -326,4 +463,60 @@ describe('ConferenceService', () => {
       });
     });
   });
+
+  describe('downloadRecording', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('fetches the WAV rendition with account credentials', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer,
+      });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      await expect(service.downloadRecording('RE_123')).resolves.toEqual(
+        new Uint8Array([1, 2, 3]),
+      );
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://api.twilio.com/2010-04-01/Accounts/AC_test/Recordings/RE_123.wav',
+        {
+          headers: {
+            Authorization: `Basic ${Buffer.from('AC_test:test_token').toString('base64')}`,
+          },
+        },
+      );
+    });
+
+    it('fails when the provider refuses the download', async () => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValue({ ok: false, status: 404 }) as unknown as typeof fetch;
+
+      await expect(service.downloadRecording('RE_123')).rejects.toThrow(
+        'Recording download returned 404',
+      );
+    });
+  });
+
+  describe('deleteRecording', () => {
+    it('treats a recording that is already gone as deleted', async () => {
+      mockRecordingRemove.mockRejectedValue(
+        Object.assign(new Error('not found'), { status: 404 }),
+      );
+
+      await expect(service.deleteRecording('RE_123')).resolves.toBeUndefined();
+    });
+
+    it('surfaces other provider failures', async () => {
+      mockRecordingRemove.mockRejectedValue(new Error('rate limited'));
+
+      await expect(service.deleteRecording('RE_123')).rejects.toThrow(
+        'rate limited',
+      );
+    });
+  });
 });
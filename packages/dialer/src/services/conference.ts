@@ -1,10 +1,14 @@
 import * as Sentry from '@sentry/node';
 
 import type {
+  DialerProviderName,
   TwilioCredentials,
   ConferenceParticipant,
   TransferOptions,
   TransferResult,
+  SupervisionMode,
+  SupervisionOptions,
+  SupervisionResult,
 } from '../types.js';
 
 type TwilioClientInstance = import('twilio').Twilio;
@@ -20,6 +24,15 @@ const escapeXml = (str: string): string =>
 const errorWithCause = (message: string, cause: unknown): Error =>
   Object.assign(new Error(message), { cause });
 
+// listen joins muted; whisper coaches the agent leg so only the agent hears it
+const supervisorParticipantState = (
+  mode: SupervisionMode,
+  agentCallSid: string,
+) =>
+  mode === 'whisper'
+    ? { muted: false, coaching: true, callSidToCoach: agentCallSid }
+    : { muted: mode === 'listen', coaching: false };
+
 /**
  * Conference + transfer orchestration via Twilio REST API.
  *
@@ -29,9 +42,14 @@ const errorWithCause = (message: string, cause: unknown): Error =>
 export class ConferenceService {
   private client: TwilioClientInstance | null = null;
   private credentials: TwilioCredentials;
+  private provider: DialerProviderName;
   private ringingStartTimes = new Map<string, number>();
 
-  constructor(credentials?: TwilioCredentials) {
+  constructor(
+    credentials?: TwilioCredentials,
+    options: { provider?: DialerProviderName } = {},
+  ) {
+    this.provider = options.provider ?? 'twilio';
     this.credentials = {
       accountSid:
         credentials?.accountSid ?? process.env.TWILIO_ACCOUNT_SID ?? '',
@@ -39,7 +57,17 @@ export class ConferenceService {
     };
   }
 
+  // conferences, transfers, supervision and recordings only run on Twilio
+  private assertTwilio(): void {
+    if (this.provider !== 'twilio') {
+      throw new Error(
+        `Conference calls are not supported with the ${this.provider} provider`,
+      );
+    }
+  }
+
   private async getClient(): Promise<TwilioClientInstance> {
+    this.assertTwilio();
     if (this.client) return this.client;
     if (!this.credentials.accountSid || !this.credentials.authToken) {
       throw new Error(
@@ -223,18 +251,22 @@ export class ConferenceService {
     }
   }
 
-  /** Hold or unhold a participant */
+  /** Hold or unhold a participant, optionally playing holdUrl while held */
   async holdParticipant(
     conferenceSid: string,
     callSid: string,
     hold: boolean,
+    holdUrl?: string,
   ): Promise<void> {
     try {
       const client = await this.getClient();
       await client
         .conferences(conferenceSid)
         .participants(callSid)
-        .update({ hold });
+        .update({
+          hold,
+          ...(hold && holdUrl ? { holdUrl, holdMethod: 'GET' } : {}),
+        });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Hold toggle failed';
       throw new Error(message);
@@ -417,7 +449,12 @@ export class ConferenceService {
           error: 'CUSTOMER_NOT_FOUND: cannot hold customer for warm transfer',
         };
       }
-      await this.holdParticipant(conferenceSid, customer.callSid, true);
+      await this.holdParticipant(
+        conferenceSid,
+        customer.callSid,
+        true,
+        options.holdUrl,
+      );
 
       // add the transfer target
       let participant: { callSid: string };
@@ -538,6 +575,66 @@ export class ConferenceService {
     }
   }
 
+  /** Dial a supervisor into a live conference in listen, whisper or barge mode */
+  async addSupervisor(
+    options: SupervisionOptions,
+  ): Promise<SupervisionResult> {
+    try {
+      const conferenceSid = await this.findConferenceSid(
+        options.conferenceName,
+      );
+      if (!conferenceSid) {
+        return { success: false, error: 'Conference not found' };
+      }
+
+      const client = await this.getClient();
+      const participant = await client
+        .conferences(conferenceSid)
+        .participants.create({
+          to: options.to,
+          from: options.from,
+          label: 'supervisor',
+          beep: 'false',
+          endConferenceOnExit: false,
+          ...supervisorParticipantState(options.mode, options.agentCallSid),
+          statusCallback: options.statusCallbackUrl,
+          statusCallbackEvent: ['answered', 'completed'],
+        });
+
+      return {
+        success: true,
+        supervisorCallSid: participant.callSid,
+        conferenceSid,
+        mode: options.mode,
+      };
+    } catch (err: unknown) {
+      const message =
+        err instanceof Error ? err.message : 'Add supervisor failed';
+      return { success: false, error: message };
+    }
+  }
+
+  /** Switch a supervisor already in the conference between listen, whisper and barge */
+  async setSupervisorMode(
+    conferenceSid: string,
+    supervisorCallSid: string,
+    mode: SupervisionMode,
+    agentCallSid: string,
+  ): Promise<SupervisionResult> {
+    try {
+      const client = await this.getClient();
+      await client
+        .conferences(conferenceSid)
+        .participants(supervisorCallSid)
+        .update(supervisorParticipantState(mode, agentCallSid));
+      return { success: true, supervisorCallSid, conferenceSid, mode };
+    } catch (err: unknown) {
+      const message =
+        err instanceof Error ? err.message : 'Supervisor mode change failed';
+      return { success: false, error: message };
+    }
+  }
+
   /** Start recording the connected provider call leg. */
   async startCallRecording(input: {
     callSid: string;
@@ -592,6 +689,45 @@ export class ConferenceService {
     }
   }
 
+  /** Download a recording as WAV; dual-channel recordings keep both channels */
+  async downloadRecording(recordingSid: string): Promise<Uint8Array> {
+    try {
+      this.assertTwilio();
+      const { accountSid, authToken } = this.credentials;
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Recordings/${recordingSid}.wav`,
+        {
+          headers: {
+            Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+          },
+        },
+      );
+      if (!response.ok) {
+        throw new Error(`Recording download returned ${response.status}`);
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    } catch (err: unknown) {
+      Sentry.captureException(err, { extra: { recordingSid } });
+      const message =
+        err instanceof Error ? err.message : 'Download recording failed';
+      throw new Error(message);
+    }
+  }
+
+  /** Delete a recording from the provider; an already deleted one is not an error */
+  async deleteRecording(recordingSid: string): Promise<void> {
+    try {
+      const client = await this.getClient();
+      await client.recordings(recordingSid).remove();
+    } catch (err: unknown) {
+      if ((err as { status?: unknown } | null)?.status === 404) return;
+      Sentry.captureException(err, { extra: { recordingSid } });
+      const message =
+        err instanceof Error ? err.message : 'Delete recording failed';
+      throw new Error(message);
+    }
+  }
+
   /** List recordings for a conference */
   async listRecordings(
     conferenceName: string,
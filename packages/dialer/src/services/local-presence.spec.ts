@@ -127,4 +127,79 @@ describe('LocalPresenceService', () => {
       expect(result!.isPrimary).toBe(true);
     });
   });
+
+  describe('selectNumber with number health', () => {
+    const burned = { attempts: 60, answered: 2, shortHangups: 1, attemptsToday: 10 };
+    const healthy = { attempts: 60, answered: 15, shortHangups: 1, attemptsToday: 10 };
+
+    it('should prefer a healthy local number over a flagged one', async () => {
+      const service = new LocalPresenceService();
+      const pool = {
+        numbers: [
+          makeNumber('415', { phoneNumber: '+14155550001', health: burned }),
+          makeNumber('415', { phoneNumber: '+14155550002', health: healthy }),
+        ],
+      };
+
+      const result = await service.selectNumber(pool, '+14155551234');
+      expect(result!.phoneNumber).toBe('+14155550002');
+      expect(result!.localMatch).toBe(true);
+    });
+
+    it('should use the healthy primary before a flagged local number', async () => {
+      const service = new LocalPresenceService();
+      const primary = makeNumber('212', { isPrimary: true, health: healthy });
+      const pool = {
+        numbers: [makeNumber('415', { health: burned }), primary],
+        primaryNumber: primary,
+      };
+
+      const result = await service.selectNumber(pool, '+14155551234');
+      expect(result!.areaCode).toBe('212');
+      expect(result!.isPrimary).toBe(true);
+    });
+
+    it('should still use a flagged number when nothing healthy is left', async () => {
+      const service = new LocalPresenceService();
+      const pool = { numbers: [makeNumber('415', { health: burned })] };
+
+      const result = await service.selectNumber(pool, '+14155551234');
+      expect(result!.areaCode).toBe('415');
+    });
+
+    it('should skip resting numbers and stand in for a resting primary', async () => {
+      const service = new LocalPresenceService();
+      const restedUntil = new Date(Date.now() + 3_600_000).toISOString();
+      const primary = makeNumber('212', {
+        isPrimary: true,
+        health: { ...healthy, restedUntil },
+      });
+      const pool = {
+        numbers: [
+          makeNumber('415', { health: { ...healthy, restedUntil } }),
+          primary,
+          makeNumber('310'),
+        ],
+        primaryNumber: primary,
+      };
+
+      const result = await service.selectNumber(pool, '+14155551234');
+      expect(result!.areaCode).toBe('310');
+      expect(result!.isPrimary).toBe(false);
+    });
+
+    it('should skip numbers at the workspace daily attempt limit', async () => {
+      const service = new LocalPresenceService();
+      const pool = {
+        numbers: [
+          makeNumber('415', { health: { ...healthy, attemptsToday: 40 } }),
+          makeNumber('212', { isPrimary: true }),
+        ],
+        reputation: { maxDailyAttempts: 40 },
+      };
+
+      const result = await service.selectNumber(pool, '+14155551234');
+      expect(result!.areaCode).toBe('212');
+    });
+  });
 });
@@ -1,4 +1,9 @@
-import type { PhoneNumber, NumberSelection } from '../types.js';
+import {
+  DEFAULT_REPUTATION_THRESHOLDS,
+  isNumberResting,
+  scoreNumberHealth,
+} from '../domain/number-reputation.js';
+import type { PhoneNumber, NumberSelection, ReputationThresholds } from '../types.js';
 
 /**
  * Extracts the 3-digit US area code from an E.164 number (+1XXXXXXXXXX).
@@ -13,6 +18,8 @@ export function extractAreaCode(phoneNumber: string): string | null {
 export interface NumberPool {
   numbers: PhoneNumber[];
   primaryNumber?: PhoneNumber;
+  /** Workspace overrides for caller ID reputation limits */
+  reputation?: Partial<ReputationThresholds>;
 }
 
 /**
@@ -23,6 +30,10 @@ export interface NumberPool {
  *  1. Exact area code match
  *  2. Closest area code within maxDistanceMiles (requires distanceFn)
  *  3. Primary number fallback
+ *
+ * Numbers carrying `health` are reputation-aware: resting numbers and numbers
+ * at their daily attempt limit are skipped, and flagged numbers are only used
+ * once every healthy option (including the primary) is exhausted.
  */
 export class LocalPresenceService {
   private maxDistanceMiles: number;
@@ -39,61 +50,113 @@ export class LocalPresenceService {
   async selectNumber(pool: NumberPool, customerNumber: string): Promise<NumberSelection | null> {
     try {
       const customerAreaCode = extractAreaCode(customerNumber);
-      if (!customerAreaCode || !pool.numbers.length) {
-        return this.primaryFallback(pool, customerAreaCode);
-      }
-
-      // 1. exact area code match
-      const exact = pool.numbers.find((n) => n.areaCode === customerAreaCode && n.isActive);
-      if (exact) {
-        return {
-          phoneNumber: exact.phoneNumber,
-          areaCode: exact.areaCode,
-          localMatch: true,
-          proximityMatch: false,
-          isPrimary: exact.isPrimary,
-          customerAreaCode,
-        };
-      }
+      const thresholds = { ...DEFAULT_REPUTATION_THRESHOLDS, ...pool.reputation };
+      const now = new Date();
+      const usable = (n: PhoneNumber) =>
+        !isNumberResting(n.health, now) &&
+        !(n.health && n.health.attemptsToday >= thresholds.maxDailyAttempts);
+      const flagged = (n: PhoneNumber) =>
+        !!n.health && scoreNumberHealth(n.health, thresholds).flagged;
+      const score = (n: PhoneNumber) =>
+        n.health ? scoreNumberHealth(n.health, thresholds).score : 100;
 
-      // 2. proximity match (if distance function provided)
-      if (this.distanceFn) {
-        let best: { number: PhoneNumber; distance: number } | null = null;
+      const available = pool.numbers.filter((n) => n.isActive && usable(n));
+      const healthy = available.filter((n) => !flagged(n));
+      const primary = pool.primaryNumber ?? pool.numbers.find((n) => n.isPrimary && n.isActive);
+      // the flagged pass revisits the same area codes, so measure each once
+      const distances = new Map<string, Promise<number | null>>();
 
-        for (const num of pool.numbers) {
-          if (!num.isActive) continue;
-          const dist = await this.distanceFn(customerAreaCode, num.areaCode);
-          if (dist !== null && dist <= this.maxDistanceMiles) {
-            if (!best || dist < best.distance) {
-              best = { number: num, distance: dist };
-            }
-          }
+      for (const candidates of [healthy, available]) {
+        if (customerAreaCode) {
+          const local = await this.matchAreaCode(candidates, customerAreaCode, score, distances);
+          if (local) return local;
+        }
+        if (!primary) continue;
+        if (usable(primary) && (candidates === available || !flagged(primary))) {
+          return this.primarySelection(primary, customerAreaCode);
         }
 
-        if (best) {
+        // primary is resting, capped or flagged — stand in the healthiest number
+        const [standIn] = [...candidates].sort((a, b) => score(b) - score(a));
+        if (standIn) {
           return {
-            phoneNumber: best.number.phoneNumber,
-            areaCode: best.number.areaCode,
+            phoneNumber: standIn.phoneNumber,
+            areaCode: standIn.areaCode,
             localMatch: false,
-            proximityMatch: true,
-            distanceMiles: best.distance,
-            isPrimary: best.number.isPrimary,
-            customerAreaCode,
+            proximityMatch: false,
+            isPrimary: false,
+            customerAreaCode: customerAreaCode ?? undefined,
           };
         }
       }
-
-      // 3. primary fallback
-      return this.primaryFallback(pool, customerAreaCode);
+      return null;
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'unknown error';
       throw new Error(`local presence selection failed: ${message}`);
     }
   }
 
-  private primaryFallback(pool: NumberPool, customerAreaCode: string | null): NumberSelection | null {
-    const primary = pool.primaryNumber ?? pool.numbers.find((n) => n.isPrimary && n.isActive);
-    if (!primary) return null;
+  private async matchAreaCode(
+    candidates: PhoneNumber[],
+    customerAreaCode: string,
+    score: (n: PhoneNumber) => number,
+    distances: Map<string, Promise<number | null>>,
+  ): Promise<NumberSelection | null> {
+    // 1. exact area code match, healthiest first
+    const exact = candidates
+      .filter((n) => n.areaCode === customerAreaCode)
+      .sort((a, b) => score(b) - score(a))[0];
+    if (exact) {
+      return {
+        phoneNumber: exact.phoneNumber,
+        areaCode: exact.areaCode,
+        localMatch: true,
+        proximityMatch: false,
+        isPrimary: exact.isPrimary,
+        customerAreaCode,
+      };
+    }
+
+    // 2. proximity match (if distance function provided)
+    if (this.distanceFn) {
+      let best: { number: PhoneNumber; distance: number } | null = null;
+
+      for (const num of candidates) {
+        let pending = distances.get(num.areaCode);
+        if (!pending) {
+          pending = this.distanceFn(customerAreaCode, num.areaCode);
+          distances.set(num.areaCode, pending);
+        }
+        const dist = await pending;
+        if (dist !== null && dist <= this.maxDistanceMiles) {
+          if (
+            !best ||
+            dist < best.distance ||
+            (dist === best.distance && score(num) > score(best.number))
+          ) {
+            best = { number: num, distance: dist };
+          }
+        }
+      }
+
+      if (best) {
+        return {
+          phoneNumber: best.number.phoneNumber,
+          areaCode: best.number.areaCode,
+          localMatch: false,
+          proximityMatch: true,
+          distanceMiles: best.distance,
+          isPrimary: best.number.isPrimary,
+          customerAreaCode,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  // 3. primary fallback
+  private primarySelection(primary: PhoneNumber, customerAreaCode: string | null): NumberSelection {
     return {
       phoneNumber: primary.phoneNumber,
       areaCode: primary.areaCode,
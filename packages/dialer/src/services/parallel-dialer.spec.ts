@@ -5,6 +5,7 @@ import {
   InMemoryParallelStore,
 } from './parallel-dialer';
 import { CallerIdLockService, InMemoryLockStore } from './caller-id';
+import { InMemoryComplianceStore } from '../infrastructure/memory/compliance-store';
 
 const mockCallsCreate = jest.fn();
 const mockCallUpdate = jest.fn();
@@ -58,9 +59,12 @@ describe('ParallelDialerService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     store = new InMemoryParallelStore();
+    // the fictional 555 numbers below have no contact-local zone to check
     service = new ParallelDialerService(
       { accountSid: 'AC_test', authToken: 'test_token' },
       store,
+    ).withCompliance(
+      new InMemoryComplianceStore({ callingWindow: null, fallbackTimezone: null }),
     );
 
     let callCount = 0;
@@ -402,6 +406,133 @@ describe('ParallelDialerService', () => {
     });
   });
 
+  describe('voicemail drop', () => {
+    const voicemailOpts = {
+      ...baseOpts,
+      voicemailDrop: {
+        greetingId: 'greeting-1',
+        recordingUrl: 'https://storage.test/greetings/intro.mp3?sig=a&exp=1',
+      },
+    };
+
+    it('should wait for the message end when a greeting is configured', async () => {
+      await service.initiateGroup(voicemailOpts);
+
+      expect(mockCallsCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ machineDetection: 'DetectMessageEnd' }),
+      );
+    });
+
+    it('should keep plain AMD when no greeting is configured', async () => {
+      await service.initiateGroup(baseOpts);
+
+      expect(mockCallsCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ machineDetection: 'Enable' }),
+      );
+    });
+
+    it('should play the greeting after the beep and mark the leg', async () => {
+      const result = await service.initiateGroup(voicemailOpts);
+      const callSid = result.calls[0].callSid;
+
+      await service.handleStatusCallback(
+        callSid,
+        'in-progress',
+        'machine_end_beep',
+      );
+
+      const group = await service.getGroup(result.groupId);
+      expect(group!.calls[0]).toEqual(
+        expect.objectContaining({
+          status: 'in-progress',
+          outcome: 'voicemail_dropped',
+        }),
+      );
+      expect(mockCallUpdate).not.toHaveBeenCalled();
+
+      const twiml = await service.generateCustomerTwiml(callSid);
+      expect(twiml).toBe(
+        '<?xml version="1.0" encoding="UTF-8"?><Response>' +
+          '<Play>https://storage.test/greetings/intro.mp3?sig=a&amp;exp=1</Play>' +
+          '<Hangup /></Response>',
+      );
+    });
+
+    it('should let the greeting finish when the rep ends the session', async () => {
+      const result = await service.initiateGroup(voicemailOpts);
+      await service.handleStatusCallback(
+        result.calls[0].callSid,
+        'in-progress',
+        'machine_end_silence',
+      );
+
+      await service.terminateGroup(result.groupId);
+
+      expect(mockCallUpdate).toHaveBeenCalledTimes(2);
+      const group = await service.getGroup(result.groupId);
+      expect(group!.calls[0].status).toBe('in-progress');
+    });
+  });
+
+  describe('safe harbor', () => {
+    const safeHarborOpts = {
+      ...baseOpts,
+      safeHarbor: { text: 'This is Acme & Co. Call 555-0100 to opt out.' },
+    };
+
+    it('should read the message to a leg answered after the win', async () => {
+      const result = await service.initiateGroup(safeHarborOpts);
+      // the losing legs are still up when the second answer arrives
+      mockCallUpdate.mockRejectedValueOnce(new Error('call busy'));
+      mockCallUpdate.mockRejectedValueOnce(new Error('call busy'));
+      await service.handleStatusCallback(
+        result.calls[0].callSid,
+        'in-progress',
+        'human',
+      );
+      await service.handleStatusCallback(
+        result.calls[1].callSid,
+        'in-progress',
+        'human',
+      );
+
+      const group = await service.getGroup(result.groupId);
+      expect(group!.calls[1].outcome).toBe('safe_harbor');
+      await expect(
+        service.generateCustomerTwiml(result.calls[1].callSid),
+      ).resolves.toBe(
+        '<?xml version="1.0" encoding="UTF-8"?><Response>' +
+          '<Say>This is Acme &amp; Co. Call 555-0100 to opt out.</Say>' +
+          '<Hangup /></Response>',
+      );
+      expect(service.computeTelemetry(group!)).toMatchObject({
+        humanAnswers: 2,
+        abandonedLegs: 1,
+      });
+    });
+
+    it('should count a leg cut off after a live answer as abandoned', async () => {
+      const result = await service.initiateGroup(baseOpts);
+      await service.handleStatusCallback(
+        result.calls[0].callSid,
+        'in-progress',
+        'human',
+      );
+      await service.handleStatusCallback(
+        result.calls[2].callSid,
+        'completed',
+        'human',
+      );
+
+      const group = await service.getGroup(result.groupId);
+      expect(group!.calls[2].outcome).toBe('abandoned');
+      expect(service.computeTelemetry(group!)).toMatchObject({
+        humanAnswers: 2,
+        abandonedLegs: 1,
+      });
+    });
+  });
+
   describe('terminateGroup', () => {
     it('should terminate all pending calls', async () => {
       const result = await service.initiateGroup(baseOpts);
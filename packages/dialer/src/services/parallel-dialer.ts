@@ -1,4 +1,4 @@
-import { Effect, Layer } from 'effect';
+import { Effect, Either, Layer } from 'effect';
 
 import {
   getCallSession,
@@ -11,8 +11,15 @@ import {
   terminateCallSession,
   terminateCallSessionForWorkspace,
 } from '../application/terminate-call-session.js';
-import { isTerminalCallStatus } from '../domain/parallel-call.js';
+import {
+  isTerminalCallStatus,
+  isVoicemailDropped,
+} from '../domain/parallel-call.js';
 import { computeParallelTelemetry } from '../domain/telemetry.js';
+import {
+  createDialerComplianceLayer,
+  InMemoryComplianceStore,
+} from '../infrastructure/memory/compliance-store.js';
 import {
   createParallelStateStoreLayer,
   InMemoryParallelStore,
@@ -21,16 +28,18 @@ import {
   liveDialerClockLayer,
   liveDialerIdGeneratorLayer,
 } from '../infrastructure/memory/runtime.js';
-import { createTwilioCallProviderLayer } from '../infrastructure/twilio/call-provider.js';
+import { resolveCallProviderLayer } from '../infrastructure/twilio/call-provider.js';
 import type { CallProviderService } from '../ports/call-provider.js';
 import { DialerClock } from '../ports/clock.js';
 import type { DialerClockService } from '../ports/clock.js';
+import type { DialerComplianceService } from '../ports/compliance.js';
 import type { DialerIdGeneratorService } from '../ports/id-generator.js';
 import { ParallelStateStore } from '../ports/parallel-state-store.js';
 import type { ParallelStateStoreService } from '../ports/parallel-state-store.js';
 import { ACTIVE_CALL_TTL_SECONDS } from './caller-id.js';
 import type { CallerIdLockService } from './caller-id.js';
 import type {
+  ComplianceStore,
   ParallelDialOptions,
   ParallelDialResult,
   ParallelGroup,
@@ -41,34 +50,58 @@ import type {
 
 const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response />';
 
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
 type ParallelRuntimeServices =
   | CallProviderService
   | ParallelStateStoreService
   | DialerClockService
-  | DialerIdGeneratorService;
+  | DialerIdGeneratorService
+  | DialerComplianceService;
 
-type ParallelRuntimeLayer = Layer.Layer<ParallelRuntimeServices, never, never>;
+type ParallelRuntimeLayer = Layer.Layer<
+  Exclude<ParallelRuntimeServices, DialerComplianceService>,
+  never,
+  never
+>;
 
 export class ParallelDialerService {
   private readonly runtimeLayer: ParallelRuntimeLayer;
+  private complianceLayer = createDialerComplianceLayer(
+    new InMemoryComplianceStore(),
+  );
   private callerIdLock?: CallerIdLockService;
 
   constructor(
-    credentials: TwilioCredentials | undefined,
+    callProvider: TwilioCredentials | Layer.Layer<CallProviderService> | undefined,
     store: ParallelStore,
   ) {
     this.runtimeLayer = Layer.mergeAll(
-      createTwilioCallProviderLayer(credentials),
+      resolveCallProviderLayer(callProvider),
       createParallelStateStoreLayer(store),
       liveDialerClockLayer,
       liveDialerIdGeneratorLayer,
     );
   }
 
+  // rejects with the typed failure itself so callers can branch on its class
   private run<A, E>(
     program: Effect.Effect<A, E, ParallelRuntimeServices>,
   ): Promise<A> {
-    return Effect.runPromise(program.pipe(Effect.provide(this.runtimeLayer)));
+    return Effect.runPromise(
+      program.pipe(
+        Effect.provide(Layer.merge(this.runtimeLayer, this.complianceLayer)),
+        Effect.either,
+      ),
+    ).then((result) =>
+      Either.isRight(result) ? result.right : Promise.reject(result.left),
+    );
   }
 
   withCallerIdLock(service: CallerIdLockService): this {
@@ -76,6 +109,11 @@ export class ParallelDialerService {
     return this;
   }
 
+  withCompliance(store: ComplianceStore): this {
+    this.complianceLayer = createDialerComplianceLayer(store);
+    return this;
+  }
+
   private releaseTerminalCallerIdLocks(
     group: ParallelGroup | null,
   ): Promise<void> {
@@ -176,6 +214,24 @@ export class ParallelDialerService {
           (candidate) => candidate.callSid === callSid,
         );
         if (!call || isTerminalCallStatus(call.status)) return EMPTY_TWIML;
+        if (isVoicemailDropped(call) && group.voicemailDrop) {
+          return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<Response>',
+            `<Play>${escapeXml(group.voicemailDrop.recordingUrl)}</Play>`,
+            '<Hangup />',
+            '</Response>',
+          ].join('');
+        }
+        if (call.outcome === 'safe_harbor' && group.safeHarbor) {
+          return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<Response>',
+            `<Say>${escapeXml(group.safeHarbor.text)}</Say>`,
+            '<Hangup />',
+            '</Response>',
+          ].join('');
+        }
         const muted = group.winnerSid === callSid ? 'false' : 'true';
         return [
           '<?xml version="1.0" encoding="UTF-8"?>',
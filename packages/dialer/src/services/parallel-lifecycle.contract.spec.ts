@@ -1,5 +1,6 @@
 import type { ParallelDialProfile, ParallelGroup } from '../types';
 
+import { InMemoryComplianceStore } from '../infrastructure/memory/compliance-store';
 import {
   InMemoryParallelStore,
   ParallelDialerService,
@@ -92,9 +93,12 @@ describe('parallel dial lifecycle contract', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     store = new InMemoryParallelStore();
+    // the fictional 555 numbers below have no contact-local zone to check
     service = new ParallelDialerService(
       { accountSid: 'AC_test', authToken: 'test_token' },
       store,
+    ).withCompliance(
+      new InMemoryComplianceStore({ callingWindow: null, fallbackTimezone: null }),
     );
 
     let callCount = 0;
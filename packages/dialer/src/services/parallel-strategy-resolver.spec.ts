@@ -1,5 +1,7 @@
 import type { BetaSampler, PosteriorStore, ProfilePosterior } from '../types';
 
+import { InMemoryAbandonRateStore } from '../infrastructure/memory/abandon-rate-store';
+import { AbandonRateGovernor } from './abandon-rate-governor';
 import { ParallelStrategyResolver } from './parallel-strategy-resolver';
 
 describe('ParallelStrategyResolver', () => {
@@ -143,6 +145,70 @@ describe('ParallelStrategyResolver', () => {
     });
   });
 
+  describe('abandon-rate governor', () => {
+    const now = new Date('2026-07-23T12:00:00.000Z');
+    const posteriors: PosteriorStore = {
+      loadPosteriors: jest.fn().mockResolvedValue([]),
+      updatePosterior: jest.fn().mockResolvedValue(undefined),
+    };
+    const sampler: BetaSampler = { sample: jest.fn().mockReturnValue(0.5) };
+
+    it('cuts an explicit profile to one line once the ceiling is reached', async () => {
+      const store = new InMemoryAbandonRateStore();
+      await store.recordCalls(
+        { workspaceId: 'ws-1', campaignSegment: 'solar' },
+        { humanAnswers: 100, abandonedCalls: 4 },
+        '2026-07-20T12:00:00.000Z',
+      );
+      const resolver = new ParallelStrategyResolver(
+        posteriors,
+        sampler,
+        new AbandonRateGovernor(store, {}, () => now),
+      );
+
+      const result = await resolver.resolve({
+        queueId: 'q1',
+        workspaceId: 'ws-1',
+        campaignSegment: 'solar',
+        profileId: 'aggressive',
+      });
+
+      expect(result.profile).toMatchObject({ id: 'aggressive', fanout: 1 });
+      expect(result.reason).toBe('explicit-profile-id');
+      expect(result.governor).toMatchObject({
+        action: 'single-line',
+        fanoutBefore: 4,
+        fanoutAfter: 1,
+        abandonRate: 0.04,
+      });
+      expect(resolver.getProfile('aggressive').fanout).toBe(4);
+    });
+
+    it('leaves other campaigns in the workspace untouched', async () => {
+      const store = new InMemoryAbandonRateStore();
+      await store.recordCalls(
+        { workspaceId: 'ws-1', campaignSegment: 'solar' },
+        { humanAnswers: 100, abandonedCalls: 4 },
+        '2026-07-20T12:00:00.000Z',
+      );
+      const resolver = new ParallelStrategyResolver(
+        posteriors,
+        sampler,
+        new AbandonRateGovernor(store, {}, () => now),
+      );
+
+      const result = await resolver.resolve({
+        queueId: 'q1',
+        workspaceId: 'ws-1',
+        campaignSegment: 'roofing',
+        profileId: 'balanced',
+      });
+
+      expect(result.profile.fanout).toBe(3);
+      expect(result.governor?.action).toBe('none');
+    });
+  });
+
   describe('profile lookup APIs', () => {
     const resolver = new ParallelStrategyResolver(
       {
@@ -7,6 +7,7 @@ import type {
   ProfileKey,
   ProfilePosterior,
 } from '../types.js';
+import type { AbandonRateGovernor } from './abandon-rate-governor.js';
 
 let logger:
   | {
@@ -50,9 +51,30 @@ export class ParallelStrategyResolver {
   constructor(
     private readonly posteriorStore: PosteriorStore,
     private readonly betaSampler: BetaSampler,
+    private readonly abandonGovernor?: AbandonRateGovernor,
   ) {}
 
   async resolve(context: ParallelStrategyContext): Promise<ParallelStrategyResolution> {
+    const resolution = await this.selectProfile(context);
+    if (!this.abandonGovernor || !context.workspaceId) {
+      return resolution;
+    }
+
+    // the ceiling applies to explicit and sampled profiles alike
+    const governor = await this.abandonGovernor.review(resolution.profile, {
+      workspaceId: context.workspaceId,
+      campaignSegment: context.campaignSegment,
+    });
+    return {
+      ...resolution,
+      profile: { ...resolution.profile, fanout: governor.fanoutAfter },
+      governor,
+    };
+  }
+
+  private async selectProfile(
+    context: ParallelStrategyContext,
+  ): Promise<ParallelStrategyResolution> {
     const requested =
       context.profileId && this.isProfileKey(context.profileId)
         ? PROFILE_REGISTRY[context.profileId]
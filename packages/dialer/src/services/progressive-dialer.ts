@@ -0,0 +1,207 @@
+import { Effect, Either, Layer } from 'effect';
+
+import {
+  advanceProgressiveSession,
+  advanceProgressiveSessionForGroup,
+  endProgressiveSession,
+  getProgressiveSessionForWorkspace,
+  pauseProgressiveSession,
+  resumeProgressiveSession,
+  startProgressiveSession,
+  submitProgressiveDisposition,
+} from '../application/progressive-session.js';
+import { wrapUpRemainingMs } from '../domain/progressive-session.js';
+import { createCallerIdLockStoreLayer } from '../infrastructure/memory/caller-id-lock-store.js';
+import {
+  createDialerComplianceLayer,
+  InMemoryComplianceStore,
+} from '../infrastructure/memory/compliance-store.js';
+import { createParallelStateStoreLayer } from '../infrastructure/memory/parallel-state-store.js';
+import {
+  createProgressiveDialRuntimeLayer,
+  createProgressiveSessionStoreLayer,
+} from '../infrastructure/memory/progressive-session-store.js';
+import {
+  liveDialerClockLayer,
+  liveDialerIdGeneratorLayer,
+} from '../infrastructure/memory/runtime.js';
+import { resolveCallProviderLayer } from '../infrastructure/twilio/call-provider.js';
+import type { CallProviderService } from '../ports/call-provider.js';
+import type { CallerIdLockStoreService } from '../ports/caller-id-lock-store.js';
+import type { DialerClockService } from '../ports/clock.js';
+import type { DialerComplianceService } from '../ports/compliance.js';
+import type { DialerIdGeneratorService } from '../ports/id-generator.js';
+import type { ParallelStateStoreService } from '../ports/parallel-state-store.js';
+import type {
+  ProgressiveDialRuntimeService,
+  ProgressiveSessionStoreService,
+} from '../ports/progressive-session.js';
+import { CallerIdLockService, InMemoryLockStore } from './caller-id.js';
+import type {
+  ComplianceStore,
+  ParallelStore,
+  ProgressiveSession,
+  ProgressiveSessionOptions,
+  ProgressiveTargetSource,
+  TwilioCredentials,
+} from '../types.js';
+
+type ProgressiveRuntimeServices =
+  | CallProviderService
+  | ParallelStateStoreService
+  | ProgressiveSessionStoreService
+  | DialerClockService
+  | DialerIdGeneratorService
+  | DialerComplianceService
+  | CallerIdLockStoreService
+  | ProgressiveDialRuntimeService;
+
+type ProgressiveRuntimeLayer = Layer.Layer<
+  | CallProviderService
+  | ParallelStateStoreService
+  | ProgressiveSessionStoreService
+  | DialerClockService
+  | DialerIdGeneratorService,
+  never,
+  never
+>;
+
+const unconfiguredTargets: ProgressiveTargetSource = {
+  nextTarget: () =>
+    Promise.reject(new Error('No progressive target source configured')),
+  skipTarget: () =>
+    Promise.reject(new Error('No progressive target source configured')),
+  resolveCallerIds: () =>
+    Promise.reject(new Error('No progressive target source configured')),
+};
+
+/**
+ * Progressive dialing: one rep, one line, the next queued contact dialed as
+ * soon as wrap-up ends. Each dial runs as a one-leg parallel group, so status
+ * callbacks, telemetry and call sessions work exactly as for parallel.
+ */
+export class ProgressiveDialerService {
+  private readonly runtimeLayer: ProgressiveRuntimeLayer;
+  private complianceLayer = createDialerComplianceLayer(
+    new InMemoryComplianceStore(),
+  );
+  private callerIdLockLayer = createCallerIdLockStoreLayer(
+    new CallerIdLockService(new InMemoryLockStore()),
+  );
+  private targetLayer = createProgressiveDialRuntimeLayer(unconfiguredTargets);
+  private readonly wrapUpTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    callProvider: TwilioCredentials | Layer.Layer<CallProviderService> | undefined,
+    store: ParallelStore,
+  ) {
+    this.runtimeLayer = Layer.mergeAll(
+      resolveCallProviderLayer(callProvider),
+      createParallelStateStoreLayer(store),
+      createProgressiveSessionStoreLayer(store),
+      liveDialerClockLayer,
+      liveDialerIdGeneratorLayer,
+    );
+  }
+
+  // rejects with the typed failure itself so callers can branch on its class
+  private run<A, E>(
+    program: Effect.Effect<A, E, ProgressiveRuntimeServices>,
+  ): Promise<A> {
+    return Effect.runPromise(
+      program.pipe(
+        Effect.provide(
+          Layer.mergeAll(
+            this.runtimeLayer,
+            this.complianceLayer,
+            this.callerIdLockLayer,
+            this.targetLayer,
+          ),
+        ),
+        Effect.either,
+      ),
+    ).then((result) =>
+      Either.isRight(result) ? result.right : Promise.reject(result.left),
+    );
+  }
+
+  withCallerIdLock(service: CallerIdLockService): this {
+    this.callerIdLockLayer = createCallerIdLockStoreLayer(service);
+    return this;
+  }
+
+  withCompliance(store: ComplianceStore): this {
+    this.complianceLayer = createDialerComplianceLayer(store);
+    return this;
+  }
+
+  withTargetSource(source: ProgressiveTargetSource): this {
+    this.targetLayer = createProgressiveDialRuntimeLayer(source);
+    return this;
+  }
+
+  // wrap-up ends on this process's timer; advance() covers other processes
+  private scheduleWrapUp(session: ProgressiveSession): ProgressiveSession {
+    clearTimeout(this.wrapUpTimers.get(session.sessionId));
+    this.wrapUpTimers.delete(session.sessionId);
+    const remainingMs = wrapUpRemainingMs(session, new Date());
+    if (remainingMs === null || session.paused) return session;
+
+    const timer = setTimeout(() => {
+      this.wrapUpTimers.delete(session.sessionId);
+      this.advance(session.sessionId).catch(() => undefined);
+    }, remainingMs);
+    timer.unref();
+    this.wrapUpTimers.set(session.sessionId, timer);
+    return session;
+  }
+
+  start(options: ProgressiveSessionOptions): Promise<ProgressiveSession> {
+    return this.run(startProgressiveSession(options));
+  }
+
+  get(
+    sessionId: string,
+    workspaceId: string,
+  ): Promise<ProgressiveSession | null> {
+    return this.run(getProgressiveSessionForWorkspace(sessionId, workspaceId));
+  }
+
+  submitDisposition(
+    sessionId: string,
+    workspaceId: string,
+  ): Promise<ProgressiveSession> {
+    return this.run(submitProgressiveDisposition(sessionId, workspaceId)).then(
+      (session) => this.scheduleWrapUp(session),
+    );
+  }
+
+  pause(sessionId: string, workspaceId: string): Promise<ProgressiveSession> {
+    return this.run(pauseProgressiveSession(sessionId, workspaceId)).then(
+      (session) => this.scheduleWrapUp(session),
+    );
+  }
+
+  resume(sessionId: string, workspaceId: string): Promise<ProgressiveSession> {
+    return this.run(resumeProgressiveSession(sessionId, workspaceId)).then(
+      (session) => this.scheduleWrapUp(session),
+    );
+  }
+
+  end(sessionId: string, workspaceId: string): Promise<ProgressiveSession> {
+    return this.run(endProgressiveSession(sessionId, workspaceId)).then(
+      (session) => this.scheduleWrapUp(session),
+    );
+  }
+
+  advance(sessionId: string): Promise<ProgressiveSession> {
+    return this.run(advanceProgressiveSession(sessionId)).then((session) =>
+      this.scheduleWrapUp(session),
+    );
+  }
+
+  /** Moves a progressive session on after its group's status changed */
+  handleGroupUpdate(groupId: string): Promise<ProgressiveSession | null> {
+    return this.run(advanceProgressiveSessionForGroup(groupId));
+  }
+}
@@ -1,3 +1,5 @@
+import type { MessagingProvider } from './providers/messaging.js';
+
 /** Twilio credentials configuration */
 export interface TwilioCredentials {
   accountSid: string;
@@ -7,14 +9,39 @@ export interface TwilioCredentials {
   twimlAppSid?: string;
 }
 
+/**
+ * Telnyx credentials configuration. Calls go through TeXML, Telnyx's
+ * TwiML-compatible API, so the dialer's TwiML endpoints work unchanged.
+ */
+export interface TelnyxCredentials {
+  apiKey: string;
+  /** TeXML account SID, used for call and conference updates */
+  accountSid: string;
+  /** TeXML application that owns outbound calls */
+  texmlApplicationId: string;
+  /** Connection new numbers are assigned to */
+  connectionId?: string;
+  /** Telephony credential used to mint WebRTC tokens */
+  credentialId?: string;
+  /** Override for tests and regional endpoints */
+  baseUrl?: string;
+}
+
+/** Telephony provider selected by `DialerConfig.provider` */
+export type DialerProviderName = 'twilio' | 'telnyx';
+
 /** Dialer configuration */
 export interface DialerConfig {
-  provider?: 'twilio';
+  provider?: DialerProviderName;
   credentials?: TwilioCredentials;
+  /** Used when `provider` is `'telnyx'` */
+  telnyx?: TelnyxCredentials;
   /** Base URL for webhooks (status callbacks, TwiML) */
   baseUrl?: string;
   /** Default caller ID number */
   defaultNumber?: string;
+  /** Overrides the SMS provider, e.g. with an in-memory fake in tests */
+  messaging?: MessagingProvider;
 }
 
 /** Options for initiating a call */
@@ -27,6 +54,10 @@ export interface DialOptions {
   callerIdNumber?: string;
   /** User ID for the agent making the call */
   userId: string;
+  /** Workspace whose compliance rules apply to the call */
+  workspaceId?: string;
+  /** Contact being called, for per-contact suppression */
+  contactId?: string;
   /** Enable double-dial retry on no-answer */
   doubleDial?: boolean;
   /** Enable local presence number selection */
@@ -47,6 +78,8 @@ export interface DialResult {
     | 'primary_fallback'
     | 'system_default';
   error?: string;
+  /** Set when the call was refused by the compliance gate */
+  denial?: ComplianceDenial;
 }
 
 /** Result of a hangup() call */
@@ -100,6 +133,29 @@ export interface ProvisionNumberOptions {
   smsUrl?: string;
 }
 
+/** Options for sending an SMS */
+export interface SendMessageOptions {
+  /** Recipient number */
+  to: string;
+  /** Account number the message is sent from */
+  from: string;
+  body: string;
+  /** Delivery status webhook URL */
+  statusCallbackUrl?: string;
+}
+
+/** Result of sending an SMS */
+export interface SendMessageResult {
+  success: boolean;
+  messageSid?: string;
+  /** Provider delivery status at acceptance, e.g. `queued` */
+  status?: string;
+  error?: string;
+}
+
+/** Opt-out (STOP) or opt-in (START) keyword carried by an inbound SMS */
+export type SmsKeyword = 'opt_out' | 'opt_in';
+
 /** Result of provisioning a number */
 export interface ProvisionResult {
   success: boolean;
@@ -120,7 +176,111 @@ export interface PhoneNumber {
   latitude?: number;
   longitude?: number;
   twilioSid?: string;
+  /** Provider-side number id for non-Twilio providers */
+  providerSid?: string;
   friendlyName?: string;
+  /** Recent call outcomes used for caller ID reputation */
+  health?: NumberHealth;
+}
+
+/** Rolling call outcomes for one outbound number */
+export interface NumberHealth {
+  attempts: number;
+  answered: number;
+  /** Answered calls that hung up before `shortCallSeconds` */
+  shortHangups: number;
+  attemptsToday: number;
+  /** ISO timestamp until which the number is rested from outbound use */
+  restedUntil?: string | null;
+}
+
+/** Configurable limits for caller ID reputation scoring */
+export interface ReputationThresholds {
+  /** Answer rate below which a number looks spam-labelled */
+  minAnswerRate: number;
+  /** Share of answered calls hung up almost immediately */
+  maxShortHangupRate: number;
+  /** Outbound attempts per number per day before it is skipped */
+  maxDailyAttempts: number;
+  /** Attempts needed before rates are trusted */
+  minAttempts: number;
+  /** Answered calls shorter than this count as short hangups */
+  shortCallSeconds: number;
+  /** How long a flagged number is rested */
+  restHours: number;
+}
+
+export type ReputationFlag =
+  | 'low_answer_rate'
+  | 'short_hangups'
+  | 'daily_limit';
+
+/** Computed reputation for one number */
+export interface NumberReputation {
+  /** 0-100, higher is healthier */
+  score: number;
+  answerRate: number | null;
+  shortHangupRate: number | null;
+  flags: ReputationFlag[];
+  /** True when the rates look spam-labelled and the number should rest */
+  flagged: boolean;
+}
+
+/** Contact-local hours during which outbound calls are allowed */
+export interface CallingWindow {
+  /** First allowed local hour, 0-23 */
+  startHour: number;
+  /** Local hour at which calling stops (exclusive), 1-24 */
+  endHour: number;
+}
+
+/** Workspace rules applied before any outbound dial */
+export interface CompliancePolicy {
+  /** null disables the quiet-hours check */
+  callingWindow: CallingWindow | null;
+  /** Zone for numbers whose area code has no known timezone; null refuses them */
+  fallbackTimezone: string | null;
+}
+
+/** Do-not-call list a number was found on */
+export type DncListSource = 'workspace' | 'national';
+
+/** Why a dial was refused */
+export type ComplianceDenialReason =
+  | 'OUTSIDE_CALLING_HOURS'
+  | 'UNKNOWN_TIMEZONE'
+  | 'WORKSPACE_DNC'
+  | 'NATIONAL_DNC'
+  | 'CONTACT_SUPPRESSED';
+
+/** A number (and optionally its contact) about to be dialed */
+export interface ComplianceTarget {
+  phone: string;
+  contactId?: string | null;
+}
+
+/** A refused target with every reason that applied */
+export interface ComplianceDenial {
+  phone: string;
+  contactId?: string | null;
+  reasons: ComplianceDenialReason[];
+  /** Timezone the calling window was checked in, when one was known */
+  timezone: string | null;
+}
+
+/** Storage interface for compliance data (postgres in the api, in-memory for dev) */
+export interface ComplianceStore {
+  getPolicy(workspaceId: string): Promise<CompliancePolicy>;
+  /** Lists each phone appears on; phones on no list may be omitted */
+  findDncListings(
+    workspaceId: string,
+    phones: string[],
+  ): Promise<Map<string, DncListSource[]>>;
+  /** Phones of targets whose contact is suppressed from calling */
+  findSuppressedPhones(
+    workspaceId: string,
+    targets: ComplianceTarget[],
+  ): Promise<Set<string>>;
 }
 
 /** Local presence number selection result */
@@ -201,6 +361,8 @@ export interface TransferOptions {
   userId: string;
   statusCallbackUrl?: string;
   transferId?: string;
+  /** Music the customer hears while held for a warm consult */
+  holdUrl?: string;
 }
 
 /** Result of a transfer operation */
@@ -212,6 +374,28 @@ export interface TransferResult {
   transferId?: string;
 }
 
+/** Supervisor modes — listen (muted), whisper (heard by the agent only), barge (full participant) */
+export type SupervisionMode = 'listen' | 'whisper' | 'barge';
+
+/** Options to bring a supervisor into a live conference */
+export interface SupervisionOptions {
+  conferenceName: string;
+  agentCallSid: string;
+  to: string;
+  from: string;
+  mode: SupervisionMode;
+  statusCallbackUrl?: string;
+}
+
+/** Result of a supervision operation */
+export interface SupervisionResult {
+  success: boolean;
+  supervisorCallSid?: string;
+  conferenceSid?: string;
+  mode?: SupervisionMode;
+  error?: string;
+}
+
 // Ring time tracking for billing
 export type RingTimeMetrics = {
   callSid: string;
@@ -256,8 +440,24 @@ export type ParallelTerminationPolicy = 'winner-take-all';
 
 export type ParallelProviderMode = 'live' | 'twilio-test';
 
+/** Pre-recorded greeting played after the beep on machine-detected legs */
+export type VoicemailDrop = {
+  greetingId: string;
+  recordingUrl: string;
+};
+
+/** Recorded disclosure read to a live answer no rep is free to take */
+export type SafeHarborMessage = {
+  text: string;
+};
+
+export type ParallelCallOutcome =
+  | 'voicemail_dropped'
+  | 'abandoned'
+  | 'safe_harbor';
+
 export type ParallelDialProfile = {
-  id: ProfileKey;
+  id: ParallelProfileId;
   fanout: number;
   staggerMs: number;
   amdPolicy: ParallelAmdPolicy;
@@ -266,6 +466,9 @@ export type ParallelDialProfile = {
 
 export type ProfileKey = 'balanced' | 'aggressive' | 'conservative';
 
+/** Progressive sessions dial one line at a time outside the learned profiles */
+export type ParallelProfileId = ProfileKey | 'progressive';
+
 export type ProfilePosterior = {
   profileId: ProfileKey;
   alpha: number;
@@ -297,14 +500,70 @@ export type ParallelStrategyResolution = {
   profile: ParallelDialProfile;
   reason: string;
   scope?: 'global' | 'workspace' | 'fallback';
+  /** Set when an abandon-rate governor reviewed the profile */
+  governor?: AbandonRateDecision;
 };
 
 export type ParallelTelemetry = {
   winnerRate: number;
   wastedLegs: number;
   connectLatencyMs: number | null;
+  /** Legs a live person answered, the abandon-rate denominator */
+  humanAnswers: number;
+  /** Live answers no rep was free to take */
+  abandonedLegs: number;
 };
 
+// --- Abandon-rate governor types ---
+
+export type AbandonRateScope = {
+  workspaceId: string;
+  /** Campaigns are tracked separately; omitted means the workspace default */
+  campaignSegment?: string;
+};
+
+export type AbandonRateWindow = {
+  humanAnswers: number;
+  abandonedCalls: number;
+};
+
+export type AbandonRateGovernorConfig = {
+  /** Highest abandon rate allowed over the window, e.g. 0.03 */
+  ceiling: number;
+  windowDays: number;
+  /** Share of the ceiling at which lines start coming off */
+  approachRatio: number;
+};
+
+export type AbandonRateAction = 'none' | 'reduced' | 'single-line';
+
+export type AbandonRateDecision = AbandonRateScope & {
+  action: AbandonRateAction;
+  profileId: ParallelProfileId;
+  fanoutBefore: number;
+  fanoutAfter: number;
+  /** null when the window has no live answers yet */
+  abandonRate: number | null;
+  ceiling: number;
+  windowDays: number;
+  humanAnswers: number;
+  abandonedCalls: number;
+  /** True when the window could not be loaded and lines were cut to one */
+  unavailable?: boolean;
+  decidedAt: string;
+};
+
+/** Rolling abandon counts (postgres in the api, in-memory for dev) */
+export interface AbandonRateStore {
+  recordCalls(
+    scope: AbandonRateScope,
+    counts: AbandonRateWindow,
+    occurredAt: string,
+  ): Promise<void>;
+  loadWindow(scope: AbandonRateScope, since: string): Promise<AbandonRateWindow>;
+  recordDecision(decision: AbandonRateDecision): Promise<void>;
+}
+
 // Single call within a parallel group
 export type ParallelCall = {
   callSid: string;
@@ -313,6 +572,7 @@ export type ParallelCall = {
   position: number;
   status: string;
   amdResult?: AmdResult;
+  outcome?: ParallelCallOutcome;
   contactId?: string;
   dialStartedAt: string;
   answeredAt?: string;
@@ -346,6 +606,8 @@ export type ParallelGroup = {
   createdAt: string;
   campaignSegment?: string;
   profile: ParallelDialProfile;
+  voicemailDrop?: VoicemailDrop;
+  safeHarbor?: SafeHarborMessage;
   resolverReason: string;
   cleanupFailures: ParallelCleanupFailure[];
   connectedAt?: string;
@@ -367,6 +629,10 @@ export interface ParallelDialOptions {
   customerTwimlUrl: string;
   profile: ParallelDialProfile;
   campaignSegment?: string;
+  /** Play this greeting on answering machines instead of hanging up */
+  voicemailDrop?: VoicemailDrop;
+  /** Read this to live answers that arrive once a rep is already connected */
+  safeHarbor?: SafeHarborMessage;
 }
 
 /** Result of initiating a parallel dial batch */
@@ -383,6 +649,83 @@ export interface ParallelDialResult {
   }>;
 }
 
+// --- Progressive dialing ---
+
+export type ProgressiveSessionStatus = 'ready' | 'dialing' | 'wrap-up' | 'ended';
+
+export type ProgressiveSessionEndReason = 'stopped' | 'queue-exhausted';
+
+/** Queue contact handed to a progressive session */
+export type ProgressiveTarget = {
+  contactId: string;
+  phone: string;
+  queueItemId?: string;
+};
+
+/** One rep working a queue a call at a time (stored next to parallel groups) */
+export type ProgressiveSession = {
+  sessionId: string;
+  workspaceId: string;
+  userId: string;
+  queueId: string;
+  status: ProgressiveSessionStatus;
+  /** Rep is away: a live call finishes but nothing new is dialed */
+  paused: boolean;
+  wrapUpSeconds: number;
+  statusCallbackUrl: string;
+  customerTwimlUrl: string;
+  campaignSegment?: string;
+  voicemailDrop?: VoicemailDrop;
+  /** Parallel group carrying the current one-line dial */
+  currentGroupId: string | null;
+  /** Contact being called, or claimed and waiting on a free caller ID */
+  currentTarget: ProgressiveTarget | null;
+  callerIdNumber: string | null;
+  wrapUpEndsAt: string | null;
+  dialedCount: number;
+  skippedCount: number;
+  endedReason?: ProgressiveSessionEndReason;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Options for starting a progressive session */
+export interface ProgressiveSessionOptions {
+  workspaceId: string;
+  userId: string;
+  queueId: string;
+  /** Seconds between a disposition and the next dial (default 30) */
+  wrapUpSeconds?: number;
+  statusCallbackUrl: string;
+  customerTwimlUrl: string;
+  campaignSegment?: string;
+  voicemailDrop?: VoicemailDrop;
+}
+
+/** Supplies queue contacts and caller IDs to progressive sessions */
+export interface ProgressiveTargetSource {
+  /** Claims the next callable contact; null when the queue has none now */
+  nextTarget(input: {
+    workspaceId: string;
+    userId: string;
+    queueId: string;
+  }): Promise<ProgressiveTarget | null>;
+  /** Releases a claimed contact the compliance gate refused */
+  skipTarget(input: {
+    workspaceId: string;
+    userId: string;
+    queueId: string;
+    target: ProgressiveTarget;
+    reasons: ComplianceDenialReason[];
+  }): Promise<void>;
+  /** Caller IDs to try for the contact, best first */
+  resolveCallerIds(input: {
+    workspaceId: string;
+    userId: string;
+    target: ProgressiveTarget;
+  }): Promise<string[]>;
+}
+
 /** Storage interface for parallel dial state (redis in prod, in-memory for dev) */
 export interface ParallelStore {
   setGroup(groupId: string, data: string, ttlSeconds: number): Promise<void>;
@@ -411,6 +754,12 @@ export interface ParallelStore {
   ): Promise<boolean>;
   withGroupLock<T>(groupId: string, operation: () => Promise<T>): Promise<T>;
   deleteGroup(groupId: string): Promise<void>;
+  setProgressiveSession(
+    sessionId: string,
+    data: string,
+    ttlSeconds: number,
+  ): Promise<void>;
+  getProgressiveSession(sessionId: string): Promise<string | null>;
 }
 
 export type StoppingThreshold = {
@@ -0,0 +1,63 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class CreateAgentSkillEvals1774300000000 implements MigrationInterface {
+  name = 'CreateAgentSkillEvals1774300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "core"."agentSkillEvalSuite" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "skillId" uuid NOT NULL,
+        "cases" jsonb NOT NULL DEFAULT '[]',
+        "gateEnabled" boolean NOT NULL DEFAULT false,
+        "maxScoreDrop" real NOT NULL DEFAULT 0,
+        "minScore" real,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_agent_skill_eval_suite_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_agent_skill_eval_suite_skill" FOREIGN KEY ("skillId")
+          REFERENCES "core"."agentSkill"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_AGENT_SKILL_EVAL_SUITE_SKILL"
+        ON "core"."agentSkillEvalSuite" ("skillId")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "core"."agentSkillEvalRun" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "skillId" uuid NOT NULL,
+        "baselineVersion" integer NOT NULL,
+        "candidateVersion" integer NOT NULL,
+        "baselineScore" real NOT NULL,
+        "candidateScore" real NOT NULL,
+        "gateAllowed" boolean NOT NULL,
+        "gateReason" character varying(500),
+        "report" jsonb NOT NULL,
+        "createdBy" uuid,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_agent_skill_eval_run_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_agent_skill_eval_run_skill" FOREIGN KEY ("skillId")
+          REFERENCES "core"."agentSkill"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_AGENT_SKILL_EVAL_RUN_SKILL_VERSIONS"
+        ON "core"."agentSkillEvalRun" ("skillId", "candidateVersion", "baselineVersion")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_AGENT_SKILL_EVAL_RUN_SKILL_VERSIONS"`,
+    );
+    await queryRunner.query(`DROP TABLE "core"."agentSkillEvalRun"`);
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_AGENT_SKILL_EVAL_SUITE_SKILL"`,
+    );
+    await queryRunner.query(`DROP TABLE "core"."agentSkillEvalSuite"`);
+  }
+}
@@ -0,0 +1,37 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddAgentAutomationSchedule1774400000000 implements MigrationInterface {
+  name = 'AddAgentAutomationSchedule1774400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."agentAutomation"
+        ADD COLUMN "nextRunAt" timestamptz,
+        ADD COLUMN "leaseOwner" varchar(255),
+        ADD COLUMN "leaseExpiresAt" timestamptz,
+        ADD COLUMN "runDay" varchar(10),
+        ADD COLUMN "runsOnDay" integer NOT NULL DEFAULT 0`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_AGENT_AUTOMATION_NEXT_RUN"
+        ON "core"."agentAutomation" ("nextRunAt")
+        WHERE "nextRunAt" IS NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_AGENT_AUTOMATION_NEXT_RUN"`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "core"."agentAutomation"
+        DROP COLUMN "runsOnDay",
+        DROP COLUMN "runDay",
+        DROP COLUMN "leaseExpiresAt",
+        DROP COLUMN "leaseOwner",
+        DROP COLUMN "nextRunAt"`,
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { AuthModule } from 'src/engine/core-modules/auth/auth.module';
 import { AiChatModule } from 'src/engine/metadata-modules/ai/ai-chat/ai-chat.module';
+import { AiModelsModule } from 'src/engine/metadata-modules/ai/ai-models/ai-models.module';
 import { WorkspaceCacheStorageModule } from 'src/engine/workspace-cache-storage/workspace-cache-storage.module';
 import { AutomationController } from 'src/engine/core-modules/agent/controllers/automation.controller';
 import { ChatController } from 'src/engine/core-modules/agent/controllers/chat.controller';
@@ -10,6 +11,7 @@ import { ConversationController } from 'src/engine/core-modules/agent/controller
 import { AgentMemoryController } from 'src/engine/core-modules/agent/controllers/memory.controller';
 import { AgentMethodologyController } from 'src/engine/core-modules/agent/controllers/methodology.controller';
 import { SkillController } from 'src/engine/core-modules/agent/controllers/skill.controller';
+import { SkillEvalController } from 'src/engine/core-modules/agent/controllers/skill-eval.controller';
 import { SkillVersionController } from 'src/engine/core-modules/agent/controllers/skill-version.controller';
 import { AgentAutomationRunEntity } from 'src/engine/core-modules/agent/entities/agent-automation-run.entity';
 import { AgentConversationEntity } from 'src/engine/core-modules/agent/entities/agent-conversation.entity';
@@ -18,6 +20,8 @@ import { AgentAutomationEntity } from 'src/engine/core-modules/agent/entities/au
 import { AgentMemoryEntity } from 'src/engine/core-modules/agent/entities/agent-memory.entity';
 import { AgentMethodologyEntity } from 'src/engine/core-modules/agent/entities/agent-methodology.entity';
 import { AgentSkillEntity } from 'src/engine/core-modules/agent/entities/agent-skill.entity';
+import { AgentSkillEvalRunEntity } from 'src/engine/core-modules/agent/entities/agent-skill-eval-run.entity';
+import { AgentSkillEvalSuiteEntity } from 'src/engine/core-modules/agent/entities/agent-skill-eval-suite.entity';
 import { AgentSkillFolderEntity } from 'src/engine/core-modules/agent/entities/agent-skill-folder.entity';
 import { AgentSkillUsageLogEntity } from 'src/engine/core-modules/agent/entities/agent-skill-usage-log.entity';
 import { AgentSkillVersionEntity } from 'src/engine/core-modules/agent/entities/agent-skill-version.entity';
@@ -25,6 +29,8 @@ import { AgentWorkspaceConfigEntity } from 'src/engine/core-modules/agent/entiti
 import { AgentConversationSummaryEntity } from 'src/engine/core-modules/agent/entities/agent-conversation-summary.entity';
 import { AgentAutomationExecuteJob } from 'src/engine/core-modules/agent/jobs/agent-automation-execute.job';
 import { AutomationRunService } from 'src/engine/core-modules/agent/services/automation-run.service';
+import { AutomationScheduleStoreService } from 'src/engine/core-modules/agent/services/automation-schedule-store.service';
+import { AutomationSchedulerService } from 'src/engine/core-modules/agent/services/automation-scheduler.service';
 import { AutomationService } from 'src/engine/core-modules/agent/services/automation.service';
 import { AgentContextEngineService } from 'src/engine/core-modules/agent/services/context-engine.service';
 import { ConversationService } from 'src/engine/core-modules/agent/services/conversation.service';
@@ -33,12 +39,14 @@ import { AgentMemoryService } from 'src/engine/core-modules/agent/services/memor
 import { CallContextService } from 'src/engine/core-modules/agent/services/call-context.service';
 import { PipelineIntelligenceService } from 'src/engine/core-modules/agent/services/pipeline-intelligence.service';
 import { PreferenceInferenceService } from 'src/engine/core-modules/agent/services/preference-inference.service';
+import { SkillEvalService } from 'src/engine/core-modules/agent/services/skill-eval.service';
 import { SkillVersionService } from 'src/engine/core-modules/agent/services/skill-version.service';
 import { UsageMeteringService } from 'src/engine/core-modules/agent/services/usage-metering.service';
 
 @Module({
   imports: [
     AiChatModule,
+    AiModelsModule,
     AuthModule,
     WorkspaceCacheStorageModule,
     TypeOrmModule.forFeature([
@@ -49,6 +57,8 @@ import { UsageMeteringService } from 'src/engine/core-modules/agent/services/usa
       AgentMessageEntity,
       AgentMethodologyEntity,
       AgentSkillEntity,
+      AgentSkillEvalRunEntity,
+      AgentSkillEvalSuiteEntity,
       AgentSkillFolderEntity,
       AgentSkillUsageLogEntity,
       AgentSkillVersionEntity,
@@ -63,12 +73,15 @@ import { UsageMeteringService } from 'src/engine/core-modules/agent/services/usa
     ChatController,
     ConversationController,
     SkillController,
+    SkillEvalController,
     SkillVersionController,
   ],
   providers: [
     AgentAutomationExecuteJob,
     AgentMemoryService,
     AutomationRunService,
+    AutomationScheduleStoreService,
+    AutomationSchedulerService,
     AutomationService,
     AgentTriggerService,
     CallContextService,
@@ -76,6 +89,7 @@ import { UsageMeteringService } from 'src/engine/core-modules/agent/services/usa
     PipelineIntelligenceService,
     PreferenceInferenceService,
     AgentContextEngineService,
+    SkillEvalService,
     SkillVersionService,
     UsageMeteringService,
   ],
@@ -89,6 +103,7 @@ import { UsageMeteringService } from 'src/engine/core-modules/agent/services/usa
     PipelineIntelligenceService,
     PreferenceInferenceService,
     AgentContextEngineService,
+    SkillEvalService,
     SkillVersionService,
     UsageMeteringService,
     TypeOrmModule,
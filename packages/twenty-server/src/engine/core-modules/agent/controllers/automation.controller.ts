@@ -13,12 +13,15 @@ import {
   UseGuards,
 } from '@nestjs/common';
 
+import { validateTriggerConfig, type TriggerConfig } from '@consuelo/agent';
+
 import { RestApiExceptionFilter } from 'src/engine/api/rest/rest-api-exception.filter';
 import {
   AgentAutomationExecuteJob,
   type AgentAutomationExecuteJobData,
 } from 'src/engine/core-modules/agent/jobs/agent-automation-execute.job';
 import { AutomationRunService } from 'src/engine/core-modules/agent/services/automation-run.service';
+import { AutomationSchedulerService } from 'src/engine/core-modules/agent/services/automation-scheduler.service';
 import { AutomationService } from 'src/engine/core-modules/agent/services/automation.service';
 import { UsageMeteringService } from 'src/engine/core-modules/agent/services/usage-metering.service';
 import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
@@ -51,6 +54,7 @@ export class AutomationController {
   constructor(
     private readonly automationService: AutomationService,
     private readonly automationRunService: AutomationRunService,
+    private readonly automationSchedulerService: AutomationSchedulerService,
     private readonly usageMeteringService: UsageMeteringService,
     @InjectMessageQueue(MessageQueue.workflowQueue)
     private readonly messageQueueService: MessageQueueService,
@@ -102,7 +106,9 @@ export class AutomationController {
     @AuthWorkspace() workspace: WorkspaceEntity,
   ) {
     try {
-      return await this.automationService.create({
+      this.assertValidTriggerConfig(body.triggerConfig);
+
+      const automation = await this.automationService.create({
         ...body,
         description: body.description ?? null,
         enabled: body.enabled ?? true,
@@ -112,7 +118,12 @@ export class AutomationController {
         userId: user.id,
         workspaceId: workspace.id,
       });
+
+      await this.automationSchedulerService.schedule(automation);
+
+      return automation;
     } catch (err: unknown) {
+      if (err instanceof HttpException) throw err;
       throw new HttpException(
         {
           error: {
@@ -208,8 +219,17 @@ export class AutomationController {
     @Body() body: UpdateAutomationBody,
   ) {
     try {
-      return await this.automationService.update(id, body);
+      if (body.triggerConfig !== undefined) {
+        this.assertValidTriggerConfig(body.triggerConfig);
+      }
+
+      const automation = await this.automationService.update(id, body);
+
+      await this.automationSchedulerService.schedule(automation);
+
+      return automation;
     } catch (err: unknown) {
+      if (err instanceof HttpException) throw err;
       throw new HttpException(
         {
           error: {
@@ -255,9 +275,13 @@ export class AutomationController {
         );
       }
 
-      return await this.automationService.update(id, {
+      const toggled = await this.automationService.update(id, {
         enabled: !automation.enabled,
       });
+
+      await this.automationSchedulerService.schedule(toggled);
+
+      return toggled;
     } catch (err: unknown) {
       if (err instanceof HttpException) throw err;
       throw new HttpException(
@@ -361,4 +385,27 @@ export class AutomationController {
       );
     }
   }
+
+  // a bad cron, unknown timezone or unsafe matches pattern is refused here
+  // rather than failing quietly once the automation is scheduled or evaluated
+  private assertValidTriggerConfig(triggerConfig: unknown): void {
+    const result =
+      triggerConfig !== null &&
+      typeof triggerConfig === 'object' &&
+      'type' in triggerConfig
+        ? validateTriggerConfig(triggerConfig as TriggerConfig)
+        : { valid: false, errors: ['triggerConfig: trigger type is required'] };
+
+    if (!result.valid) {
+      throw new HttpException(
+        {
+          error: {
+            code: 'INVALID_TRIGGER_CONFIG',
+            message: result.errors.join('; '),
+          },
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
 }
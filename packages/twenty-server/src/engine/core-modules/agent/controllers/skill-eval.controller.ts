@@ -0,0 +1,132 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+
+import { RestApiExceptionFilter } from 'src/engine/api/rest/rest-api-exception.filter';
+import {
+  type SaveEvalSuiteInput,
+  SkillEvalService,
+} from 'src/engine/core-modules/agent/services/skill-eval.service';
+import { UserEntity } from 'src/engine/core-modules/user/user.entity';
+import { AuthUser } from 'src/engine/decorators/auth/auth-user.decorator';
+import { JwtAuthGuard } from 'src/engine/guards/jwt-auth.guard';
+import { WorkspaceAuthGuard } from 'src/engine/guards/workspace-auth.guard';
+
+type CompareVersionsBody = {
+  baselineVersion: number;
+  candidateVersion: number;
+};
+
+@Controller('v1/agent/skills/:skillId/evals')
+@UseGuards(JwtAuthGuard, WorkspaceAuthGuard)
+@UseFilters(RestApiExceptionFilter)
+export class SkillEvalController {
+  constructor(private readonly skillEvalService: SkillEvalService) {}
+
+  // literal routes before param routes
+
+  @Get('runs')
+  async listRuns(@Param('skillId') skillId: string) {
+    try {
+      const runs = await this.skillEvalService.listRuns(skillId);
+
+      return { runs };
+    } catch (err: unknown) {
+      const message =
+        err instanceof Error ? err.message : 'Failed to list eval runs';
+
+      throw new HttpException(
+        { error: { code: 'LIST_EVAL_RUNS_FAILED', message } },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('compare')
+  async compareVersions(
+    @Param('skillId') skillId: string,
+    @Body() body: CompareVersionsBody,
+    @AuthUser() user: UserEntity,
+  ) {
+    if (
+      !Number.isInteger(body?.baselineVersion) ||
+      !Number.isInteger(body?.candidateVersion)
+    ) {
+      throw new HttpException(
+        {
+          error: {
+            code: 'INVALID_EVAL_REQUEST',
+            message: 'baselineVersion and candidateVersion are required',
+          },
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    try {
+      const { report, gate } = await this.skillEvalService.compareVersions(
+        skillId,
+        body.baselineVersion,
+        body.candidateVersion,
+        user.id,
+      );
+
+      return { report, gate };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Eval run failed';
+
+      throw new HttpException(
+        { error: { code: 'EVAL_RUN_FAILED', message } },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get()
+  async getSuite(@Param('skillId') skillId: string) {
+    const suite = await this.skillEvalService.getSuite(skillId);
+
+    if (!suite) {
+      throw new HttpException(
+        {
+          error: {
+            code: 'EVAL_SUITE_NOT_FOUND',
+            message: `Skill ${skillId} has no eval suite`,
+          },
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return { suite };
+  }
+
+  @Put()
+  async saveSuite(
+    @Param('skillId') skillId: string,
+    @Body() body: SaveEvalSuiteInput,
+  ) {
+    try {
+      const suite = await this.skillEvalService.saveSuite(skillId, body);
+
+      return { suite };
+    } catch (err: unknown) {
+      const message =
+        err instanceof Error ? err.message : 'Failed to save eval suite';
+
+      throw new HttpException(
+        { error: { code: 'INVALID_EVAL_SUITE', message } },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+}
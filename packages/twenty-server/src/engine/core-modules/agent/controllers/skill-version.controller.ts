@@ -10,6 +10,7 @@ import {
 } from '@nestjs/common';
 
 import { RestApiExceptionFilter } from 'src/engine/api/rest/rest-api-exception.filter';
+import { SkillEvalService } from 'src/engine/core-modules/agent/services/skill-eval.service';
 import { SkillVersionService } from 'src/engine/core-modules/agent/services/skill-version.service';
 import { JwtAuthGuard } from 'src/engine/guards/jwt-auth.guard';
 import { WorkspaceAuthGuard } from 'src/engine/guards/workspace-auth.guard';
@@ -18,7 +19,10 @@ import { WorkspaceAuthGuard } from 'src/engine/guards/workspace-auth.guard';
 @UseGuards(JwtAuthGuard, WorkspaceAuthGuard)
 @UseFilters(RestApiExceptionFilter)
 export class SkillVersionController {
-  constructor(private readonly skillVersionService: SkillVersionService) {}
+  constructor(
+    private readonly skillVersionService: SkillVersionService,
+    private readonly skillEvalService: SkillEvalService,
+  ) {}
 
   // literal routes before param routes
 
@@ -61,6 +65,52 @@ export class SkillVersionController {
     }
   }
 
+  // blocked when the skill's eval gate is on and the version regresses
+  @Post(':version/activate')
+  async activate(
+    @Param('skillId') skillId: string,
+    @Param('version') version: string,
+  ) {
+    const targetVersion = parseInt(version, 10);
+
+    try {
+      const gate = await this.skillEvalService.checkPromotion(
+        skillId,
+        targetVersion,
+      );
+
+      if (!gate.allowed) {
+        throw new HttpException(
+          {
+            error: {
+              code: 'EVAL_GATE_BLOCKED',
+              message: gate.reason ?? `Version ${version} failed its evals`,
+            },
+          },
+          HttpStatus.CONFLICT,
+        );
+      }
+
+      const skill = await this.skillVersionService.activate(
+        skillId,
+        targetVersion,
+      );
+
+      return { skill };
+    } catch (err: unknown) {
+      if (err instanceof HttpException) {
+        throw err;
+      }
+
+      const message = err instanceof Error ? err.message : 'Activation failed';
+
+      throw new HttpException(
+        { error: { code: 'ACTIVATE_VERSION_FAILED', message } },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Get(':version')
   async getVersion(
     @Param('skillId') skillId: string,
@@ -0,0 +1,57 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  type Relation,
+} from 'typeorm';
+
+import { AgentSkillEntity } from 'src/engine/core-modules/agent/entities/agent-skill.entity';
+
+@Entity({ name: 'agentSkillEvalRun', schema: 'core' })
+@Index('IDX_AGENT_SKILL_EVAL_RUN_SKILL_VERSIONS', [
+  'skillId',
+  'candidateVersion',
+  'baselineVersion',
+])
+export class AgentSkillEvalRunEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  skillId: string;
+
+  @ManyToOne(() => AgentSkillEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'skillId' })
+  skill: Relation<AgentSkillEntity>;
+
+  @Column({ type: 'integer' })
+  baselineVersion: number;
+
+  @Column({ type: 'integer' })
+  candidateVersion: number;
+
+  @Column({ type: 'real' })
+  baselineScore: number;
+
+  @Column({ type: 'real' })
+  candidateScore: number;
+
+  @Column({ type: 'boolean' })
+  gateAllowed: boolean;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  gateReason: string | null;
+
+  @Column({ type: 'jsonb' })
+  report: Record<string, unknown>;
+
+  @Column({ type: 'uuid', nullable: true })
+  createdBy: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,47 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  type Relation,
+  UpdateDateColumn,
+} from 'typeorm';
+
+import { AgentSkillEntity } from 'src/engine/core-modules/agent/entities/agent-skill.entity';
+
+@Entity({ name: 'agentSkillEvalSuite', schema: 'core' })
+@Index('IDX_AGENT_SKILL_EVAL_SUITE_SKILL', ['skillId'], { unique: true })
+export class AgentSkillEvalSuiteEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  skillId: string;
+
+  @ManyToOne(() => AgentSkillEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'skillId' })
+  skill: Relation<AgentSkillEntity>;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  cases: Record<string, unknown>[];
+
+  // when set, a version can only be activated after an eval run against the
+  // active version that stays within maxScoreDrop and minScore
+  @Column({ type: 'boolean', default: false })
+  gateEnabled: boolean;
+
+  @Column({ type: 'real', default: 0 })
+  maxScoreDrop: number;
+
+  @Column({ type: 'real', nullable: true })
+  minScore: number | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
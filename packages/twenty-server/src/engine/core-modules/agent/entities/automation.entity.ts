@@ -19,6 +19,9 @@ import { WorkspaceRelatedEntity } from 'src/engine/workspace-manager/types/works
 @Index('IDX_AGENT_AUTOMATION_ENABLED', ['enabled'], {
   where: '"enabled" = true',
 })
+@Index('IDX_AGENT_AUTOMATION_NEXT_RUN', ['nextRunAt'], {
+  where: '"nextRunAt" IS NOT NULL',
+})
 export class AgentAutomationEntity extends WorkspaceRelatedEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -57,6 +60,23 @@ export class AgentAutomationEntity extends WorkspaceRelatedEntity {
   @Column({ type: 'varchar', length: 20, nullable: true })
   lastRunStatus: string | null;
 
+  // schedule state owned by the automation scheduler; null when not scheduled
+  @Column({ type: 'timestamptz', nullable: true })
+  nextRunAt: Date | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  leaseOwner: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  leaseExpiresAt: Date | null;
+
+  // local calendar day runsOnDay counts, in the trigger's timezone
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  runDay: string | null;
+
+  @Column({ type: 'integer', default: 0 })
+  runsOnDay: number;
+
   @Column({ type: 'integer', default: 0 })
   consecutiveFailures: number;
 
@@ -0,0 +1,141 @@
+import { type Repository } from 'typeorm';
+
+import type { Automation } from '@consuelo/agent';
+
+import type { AgentAutomationEntity } from 'src/engine/core-modules/agent/entities/automation.entity';
+import { AutomationScheduleStoreService } from 'src/engine/core-modules/agent/services/automation-schedule-store.service';
+
+describe('AutomationScheduleStoreService', () => {
+  let automationRepository: jest.Mocked<
+    Pick<Repository<AgentAutomationEntity>, 'query' | 'update'>
+  >;
+  let store: AutomationScheduleStoreService;
+
+  beforeEach(() => {
+    automationRepository = {
+      query: jest.fn(),
+      update: jest.fn(),
+    } as unknown as jest.Mocked<
+      Pick<Repository<AgentAutomationEntity>, 'query' | 'update'>
+    >;
+
+    store = new AutomationScheduleStoreService(
+      automationRepository as unknown as Repository<AgentAutomationEntity>,
+    );
+  });
+
+  it('should claim due runs with a single conditional update', async () => {
+    const now = new Date('2026-10-19T09:00:00.000Z');
+    const leaseUntil = new Date('2026-10-19T09:15:00.000Z');
+    const nextRunAt = new Date('2026-10-19T08:59:00.000Z');
+
+    automationRepository.query.mockResolvedValue([
+      [
+        {
+          id: 'automation-id',
+          name: 'Morning brief',
+          description: null,
+          enabled: true,
+          skillId: 'skill-id',
+          triggerConfig: {
+            type: 'schedule',
+            cron: '0 9 * * *',
+            timezone: 'UTC',
+          },
+          inputOverrides: {},
+          notifyOn: 'failure',
+          maxRunsPerDay: 2,
+          lastRunAt: null,
+          lastRunStatus: null,
+          nextRunAt,
+          runDay: '2026-10-18',
+          runsOnDay: 1,
+          userId: 'user-id',
+          workspaceId: 'workspace-id',
+        },
+      ],
+      1,
+    ]);
+
+    const claims = await store.claimDue({
+      now,
+      workerId: 'worker-1',
+      leaseUntil,
+      limit: 10,
+    });
+
+    const [sql, parameters] = automationRepository.query.mock.calls[0];
+
+    expect(sql).toContain('"leaseExpiresAt" <= $1');
+    expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+    expect(sql).toContain('RETURNING *');
+    expect(parameters).toEqual([now, 'worker-1', leaseUntil, 10]);
+    expect(claims).toEqual([
+      expect.objectContaining({
+        scheduledFor: nextRunAt,
+        runDay: '2026-10-18',
+        runsOnDay: 1,
+        automation: expect.objectContaining({
+          id: 'automation-id',
+          maxRunsPerDay: 2,
+          trigger: { type: 'schedule', cron: '0 9 * * *', timezone: 'UTC' },
+        }),
+      }),
+    ]);
+  });
+
+  it('should write the run outcome back only while the worker holds the lease', async () => {
+    const finishedAt = new Date('2026-10-19T09:00:05.000Z');
+    const nextRunAt = new Date('2026-10-20T09:00:00.000Z');
+
+    automationRepository.query
+      .mockResolvedValueOnce([[{ id: 'automation-id' }], 1])
+      .mockResolvedValueOnce([[], 0]);
+
+    const input = {
+      automationId: 'automation-id',
+      workerId: 'worker-1',
+      status: 'success' as const,
+      finishedAt,
+      nextRunAt,
+      runDay: '2026-10-19',
+      runsOnDay: 1,
+    };
+
+    expect(await store.completeRun(input)).toBe(true);
+    expect(await store.completeRun(input)).toBe(false);
+
+    const [sql, parameters] = automationRepository.query.mock.calls[0];
+
+    expect(sql).toContain('"lastRunAt" = $3, "lastRunStatus" = $4');
+    expect(sql).toContain('"leaseOwner" = $2');
+    expect(parameters).toEqual([
+      'automation-id',
+      'worker-1',
+      finishedAt,
+      'success',
+      nextRunAt,
+      '2026-10-19',
+      1,
+    ]);
+  });
+
+  it('should release the lease when an automation leaves the schedule', async () => {
+    const automation = { id: 'automation-id' } as Automation;
+    const nextRunAt = new Date('2026-10-20T09:00:00.000Z');
+
+    await store.schedule(automation, nextRunAt);
+    await store.schedule(automation, null);
+
+    expect(automationRepository.update).toHaveBeenNthCalledWith(
+      1,
+      'automation-id',
+      { nextRunAt },
+    );
+    expect(automationRepository.update).toHaveBeenNthCalledWith(
+      2,
+      'automation-id',
+      { nextRunAt: null, leaseOwner: null, leaseExpiresAt: null },
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import type {
+  Automation,
+  CompleteScheduledRunInput,
+  ScheduledRun,
+  ScheduleStore,
+} from '@consuelo/agent';
+import type { Repository } from 'typeorm';
+
+import { AgentAutomationEntity } from 'src/engine/core-modules/agent/entities/automation.entity';
+import { fromAutomationEntityToAutomation } from 'src/engine/core-modules/agent/utils/from-automation-entity-to-automation.util';
+
+// Postgres has no UPDATE ... LIMIT, so the batch is picked in a subquery;
+// SKIP LOCKED keeps concurrent workers from waiting on each other's rows
+const CLAIM_DUE_SQL = `UPDATE "core"."agentAutomation"
+  SET "leaseOwner" = $2, "leaseExpiresAt" = $3
+  WHERE "nextRunAt" <= $1
+    AND ("leaseExpiresAt" IS NULL OR "leaseExpiresAt" <= $1)
+    AND "id" IN (
+      SELECT "id" FROM "core"."agentAutomation"
+      WHERE "nextRunAt" <= $1
+        AND ("leaseExpiresAt" IS NULL OR "leaseExpiresAt" <= $1)
+      ORDER BY "nextRunAt"
+      LIMIT $4
+      FOR UPDATE SKIP LOCKED
+    )
+  RETURNING *`;
+
+const COMPLETE_RUN_SQL = `UPDATE "core"."agentAutomation"
+  SET "lastRunAt" = $3, "lastRunStatus" = $4, "nextRunAt" = $5,
+    "runDay" = $6, "runsOnDay" = $7,
+    "leaseOwner" = NULL, "leaseExpiresAt" = NULL
+  WHERE "id" = $1 AND "leaseOwner" = $2
+  RETURNING "id"`;
+
+// ScheduleStore over the agentAutomation rows, so next runs, leases and the
+// last run outcome live with the automation they belong to
+@Injectable()
+export class AutomationScheduleStoreService implements ScheduleStore {
+  constructor(
+    @InjectRepository(AgentAutomationEntity)
+    private readonly automationRepository: Repository<AgentAutomationEntity>,
+  ) {}
+
+  async schedule(
+    automation: Automation,
+    nextRunAt: Date | null,
+  ): Promise<void> {
+    // unscheduling drops the lease too, so a run still in flight cannot
+    // complete and put the automation back on the schedule
+    await this.automationRepository.update(
+      automation.id,
+      nextRunAt
+        ? { nextRunAt }
+        : { nextRunAt: null, leaseOwner: null, leaseExpiresAt: null },
+    );
+  }
+
+  async claimDue(input: {
+    now: Date;
+    workerId: string;
+    leaseUntil: Date;
+    limit: number;
+  }): Promise<ScheduledRun[]> {
+    const [rows]: [AgentAutomationEntity[], number] =
+      await this.automationRepository.query(CLAIM_DUE_SQL, [
+        input.now,
+        input.workerId,
+        input.leaseUntil,
+        input.limit,
+      ]);
+
+    return rows.map((row) => ({
+      automation: fromAutomationEntityToAutomation(row),
+      scheduledFor: row.nextRunAt as Date,
+      runDay: row.runDay,
+      runsOnDay: row.runsOnDay,
+    }));
+  }
+
+  async completeRun(input: CompleteScheduledRunInput): Promise<boolean> {
+    const [rows]: [Array<{ id: string }>, number] =
+      await this.automationRepository.query(COMPLETE_RUN_SQL, [
+        input.automationId,
+        input.workerId,
+        input.finishedAt,
+        input.status,
+        input.nextRunAt,
+        input.runDay,
+        input.runsOnDay,
+      ]);
+
+    return rows.length > 0;
+  }
+}
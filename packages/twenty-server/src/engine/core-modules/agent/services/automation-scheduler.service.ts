@@ -0,0 +1,114 @@
+import {
+  Injectable,
+  Logger,
+  type OnApplicationBootstrap,
+  type OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+
+import {
+  createAutomationScheduler,
+  type AutomationScheduler,
+} from '@consuelo/agent';
+import { IsNull, type Repository } from 'typeorm';
+
+import { AgentAutomationEntity } from 'src/engine/core-modules/agent/entities/automation.entity';
+import {
+  AgentAutomationExecuteJob,
+  type AgentAutomationExecuteJobData,
+} from 'src/engine/core-modules/agent/jobs/agent-automation-execute.job';
+import { AutomationRunService } from 'src/engine/core-modules/agent/services/automation-run.service';
+import { AutomationScheduleStoreService } from 'src/engine/core-modules/agent/services/automation-schedule-store.service';
+import { fromAutomationEntityToAutomation } from 'src/engine/core-modules/agent/utils/from-automation-entity-to-automation.util';
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+
+@Injectable()
+export class AutomationSchedulerService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(AutomationSchedulerService.name);
+  private readonly scheduler: AutomationScheduler;
+  private stop: (() => void) | null = null;
+
+  constructor(
+    @InjectRepository(AgentAutomationEntity)
+    private readonly automationRepository: Repository<AgentAutomationEntity>,
+    private readonly automationRunService: AutomationRunService,
+    scheduleStore: AutomationScheduleStoreService,
+    @InjectMessageQueue(MessageQueue.workflowQueue)
+    private readonly messageQueueService: MessageQueueService,
+  ) {
+    this.scheduler = createAutomationScheduler({
+      store: scheduleStore,
+      // every server and worker process ticks; leases keep each run to one of them
+      workerId: `${hostname()}:${process.pid}:${randomUUID()}`,
+      // a due run is handed to the same job a manual run uses
+      run: async (automation, { scheduledFor }) => {
+        const run = await this.automationRunService.create(automation.id, {
+          scheduledFor: scheduledFor.toISOString(),
+        });
+
+        await this.messageQueueService.add<AgentAutomationExecuteJobData>(
+          AgentAutomationExecuteJob.name,
+          { runId: run.id, automationId: automation.id },
+          { retryLimit: 3 },
+        );
+
+        return 'success';
+      },
+      onError: (automationId, err) => {
+        const message = err instanceof Error ? err.message : String(err);
+
+        this.logger.error(
+          `Scheduled automation ${automationId} failed: ${message}`,
+        );
+      },
+    });
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      // automations created before the scheduler existed have no next run yet
+      const unscheduled = await this.automationRepository.find({
+        where: { enabled: true, nextRunAt: IsNull() },
+      });
+
+      for (const entity of unscheduled) {
+        if (entity.triggerConfig.type === 'schedule') {
+          await this.schedule(entity);
+        }
+      }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'unknown error';
+
+      this.logger.error(`Scheduling existing automations failed: ${message}`);
+    }
+
+    this.stop = this.scheduler.start();
+  }
+
+  onModuleDestroy(): void {
+    this.stop?.();
+    this.stop = null;
+  }
+
+  // call after an automation is created, edited or toggled
+  async schedule(entity: AgentAutomationEntity): Promise<void> {
+    const automation = fromAutomationEntityToAutomation(entity);
+
+    try {
+      await this.scheduler.schedule(automation);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'unknown error';
+
+      // an invalid cron or timezone leaves the automation off the schedule
+      this.logger.warn(`Automation ${entity.id} not scheduled: ${message}`);
+      await this.automationRepository.update(entity.id, { nextRunAt: null });
+    }
+  }
+}
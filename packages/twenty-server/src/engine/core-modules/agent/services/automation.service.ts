@@ -17,6 +17,11 @@ type UpdateAutomationInput = Partial<
     | 'lastRunStatus'
     | 'consecutiveFailures'
     | 'disabledReason'
+    | 'nextRunAt'
+    | 'leaseOwner'
+    | 'leaseExpiresAt'
+    | 'runDay'
+    | 'runsOnDay'
   >
 >;
 
@@ -40,6 +45,11 @@ export class AutomationService {
       | 'consecutiveFailures'
       | 'maxConsecutiveFailures'
       | 'disabledReason'
+      | 'nextRunAt'
+      | 'leaseOwner'
+      | 'leaseExpiresAt'
+      | 'runDay'
+      | 'runsOnDay'
     >,
   ): Promise<AgentAutomationEntity> {
     const entity = this.automationRepository.create(input);
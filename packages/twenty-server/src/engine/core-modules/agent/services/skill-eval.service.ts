@@ -0,0 +1,357 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import {
+  evaluateSkillEvalGate,
+  executeSkill,
+  runSkillEvalComparison,
+} from '@consuelo/agent';
+import { generateText, type LanguageModel } from 'ai';
+import { Repository } from 'typeorm';
+import type {
+  SkillEvalCase,
+  SkillEvalCheck,
+  SkillEvalExecutor,
+  SkillEvalGate,
+  SkillEvalGateResult,
+  SkillEvalGrader,
+  SkillEvalReport,
+} from '@consuelo/agent';
+
+import { AgentSkillEvalRunEntity } from 'src/engine/core-modules/agent/entities/agent-skill-eval-run.entity';
+import { AgentSkillEvalSuiteEntity } from 'src/engine/core-modules/agent/entities/agent-skill-eval-suite.entity';
+import { SkillVersionService } from 'src/engine/core-modules/agent/services/skill-version.service';
+import { AI_TELEMETRY_CONFIG } from 'src/engine/metadata-modules/ai/ai-models/constants/ai-telemetry.const';
+import { AiModelRegistryService } from 'src/engine/metadata-modules/ai/ai-models/services/ai-model-registry.service';
+
+const RUBRIC_PROMPT = `You are grading the output of an AI sales skill against one criterion.
+
+Respond ONLY with valid JSON in this exact format:
+{"score": <number from 0 to 100>}`;
+
+export type SaveEvalSuiteInput = {
+  cases: SkillEvalCase[];
+  gateEnabled?: boolean;
+  maxScoreDrop?: number;
+  minScore?: number | null;
+};
+
+@Injectable()
+export class SkillEvalService {
+  private readonly logger = new Logger(SkillEvalService.name);
+
+  constructor(
+    @InjectRepository(AgentSkillEvalSuiteEntity)
+    private readonly suiteRepository: Repository<AgentSkillEvalSuiteEntity>,
+    @InjectRepository(AgentSkillEvalRunEntity)
+    private readonly runRepository: Repository<AgentSkillEvalRunEntity>,
+    private readonly skillVersionService: SkillVersionService,
+    private readonly aiModelRegistryService: AiModelRegistryService,
+  ) {}
+
+  async getSuite(skillId: string): Promise<AgentSkillEvalSuiteEntity | null> {
+    return this.suiteRepository.findOne({ where: { skillId } });
+  }
+
+  async saveSuite(
+    skillId: string,
+    data: SaveEvalSuiteInput,
+  ): Promise<AgentSkillEvalSuiteEntity> {
+    this.validateCases(data.cases);
+
+    const maxScoreDrop = data.maxScoreDrop ?? 0;
+
+    if (maxScoreDrop < 0 || maxScoreDrop > 1) {
+      throw new Error('maxScoreDrop must be between 0 and 1');
+    }
+
+    const existing = await this.suiteRepository.findOne({
+      where: { skillId },
+    });
+
+    return this.suiteRepository.save({
+      ...(existing ?? { skillId }),
+      cases: data.cases as unknown as Record<string, unknown>[],
+      gateEnabled: data.gateEnabled ?? existing?.gateEnabled ?? false,
+      maxScoreDrop,
+      minScore: data.minScore ?? null,
+    });
+  }
+
+  async listRuns(skillId: string): Promise<AgentSkillEvalRunEntity[]> {
+    return this.runRepository.find({
+      where: { skillId },
+      order: { createdAt: 'DESC' },
+      take: 20,
+    });
+  }
+
+  async compareVersions(
+    skillId: string,
+    baselineVersion: number,
+    candidateVersion: number,
+    createdBy: string | null,
+  ): Promise<{ report: SkillEvalReport; gate: SkillEvalGateResult }> {
+    const suite = await this.suiteRepository.findOne({ where: { skillId } });
+
+    if (!suite || suite.cases.length === 0) {
+      throw new Error(`Skill ${skillId} has no eval cases`);
+    }
+
+    const [baseline, candidate] = await Promise.all([
+      this.buildExecutor(skillId, baselineVersion),
+      this.buildExecutor(skillId, candidateVersion),
+    ]);
+
+    const report = await runSkillEvalComparison({
+      suite: {
+        skillId,
+        cases: suite.cases as unknown as SkillEvalCase[],
+      },
+      baseline: { version: baselineVersion, execute: baseline },
+      candidate: { version: candidateVersion, execute: candidate },
+      grade: this.buildGrader(),
+    });
+
+    const gate = evaluateSkillEvalGate(report, this.toGate(suite));
+
+    await this.runRepository.save(
+      this.runRepository.create({
+        skillId,
+        baselineVersion,
+        candidateVersion,
+        baselineScore: report.baselineScore,
+        candidateScore: report.candidateScore,
+        gateAllowed: gate.allowed,
+        gateReason: gate.reason?.slice(0, 500) ?? null,
+        report: report as unknown as Record<string, unknown>,
+        createdBy,
+      }),
+    );
+
+    return { report, gate };
+  }
+
+  // NOTE: the gate reads the latest stored run instead of re-running the
+  // suite, so activation never waits on model calls
+  async checkPromotion(
+    skillId: string,
+    candidateVersion: number,
+  ): Promise<SkillEvalGateResult> {
+    const suite = await this.suiteRepository.findOne({ where: { skillId } });
+
+    if (!suite?.gateEnabled) {
+      return { allowed: true };
+    }
+
+    const activeVersion =
+      await this.skillVersionService.getActiveVersion(skillId);
+
+    if (activeVersion === candidateVersion) {
+      return { allowed: true };
+    }
+
+    const run = await this.runRepository.findOne({
+      where: { skillId, baselineVersion: activeVersion, candidateVersion },
+      order: { createdAt: 'DESC' },
+    });
+
+    if (!run) {
+      return {
+        allowed: false,
+        reason: `Run the eval suite comparing v${candidateVersion} with active v${activeVersion} first`,
+      };
+    }
+
+    if (run.createdAt < suite.updatedAt) {
+      return {
+        allowed: false,
+        reason: 'The eval suite changed after the last run; run it again',
+      };
+    }
+
+    return evaluateSkillEvalGate(
+      run.report as unknown as SkillEvalReport,
+      this.toGate(suite),
+    );
+  }
+
+  private toGate(suite: AgentSkillEvalSuiteEntity): SkillEvalGate {
+    return {
+      maxScoreDrop: suite.maxScoreDrop,
+      ...(suite.minScore !== null ? { minScore: suite.minScore } : {}),
+    };
+  }
+
+  private validateCases(cases: SkillEvalCase[]): void {
+    if (!Array.isArray(cases)) {
+      throw new Error('cases must be a list');
+    }
+
+    const ids = new Set<string>();
+
+    for (const testCase of cases) {
+      if (!testCase?.id || !testCase.name) {
+        throw new Error('Every eval case needs an id and a name');
+      }
+
+      if (ids.has(testCase.id)) {
+        throw new Error(`Duplicate eval case id ${testCase.id}`);
+      }
+
+      ids.add(testCase.id);
+
+      if (!testCase.input || typeof testCase.input !== 'object') {
+        throw new Error(`Eval case ${testCase.id} needs an input object`);
+      }
+
+      if (!testCase.expectedOutput && !testCase.checks?.length) {
+        throw new Error(
+          `Eval case ${testCase.id} needs an expected output or checks`,
+        );
+      }
+
+      if (testCase.checks !== undefined && !Array.isArray(testCase.checks)) {
+        throw new Error(`Eval case ${testCase.id} checks must be a list`);
+      }
+
+      for (const check of testCase.checks ?? []) {
+        this.validateCheck(testCase.id, check);
+      }
+    }
+  }
+
+  // suites arrive as JSON, so a malformed check would otherwise only surface
+  // as a bad score when the suite runs
+  private validateCheck(caseId: string, check: SkillEvalCheck): void {
+    const invalid = (reason: string) =>
+      new Error(`Eval case ${caseId} has an invalid check: ${reason}`);
+
+    if (!check || typeof check !== 'object') {
+      throw invalid('checks must be objects');
+    }
+
+    const path = (check as { path?: unknown }).path;
+    const value = (check as { value?: unknown }).value;
+
+    switch (check.type) {
+      case 'equals':
+        if (typeof path !== 'string' || !path) {
+          throw invalid('equals needs a path');
+        }
+
+        if (value === undefined) {
+          throw invalid('equals needs a value');
+        }
+
+        break;
+      case 'contains':
+        if (path !== undefined && typeof path !== 'string') {
+          throw invalid('path must be a string');
+        }
+
+        if (typeof value !== 'string' || !value) {
+          throw invalid('contains needs a string value');
+        }
+
+        break;
+      case 'matches':
+        if (path !== undefined && typeof path !== 'string') {
+          throw invalid('path must be a string');
+        }
+
+        if (typeof check.pattern !== 'string' || !check.pattern) {
+          throw invalid('matches needs a pattern');
+        }
+
+        try {
+          new RegExp(check.pattern);
+        } catch {
+          throw invalid(`pattern ${check.pattern} is not a regular expression`);
+        }
+
+        break;
+      case 'present':
+        if (typeof path !== 'string' || !path) {
+          throw invalid('present needs a path');
+        }
+
+        break;
+      case 'rubric':
+        if (typeof check.criterion !== 'string' || !check.criterion.trim()) {
+          throw invalid('rubric needs a criterion');
+        }
+
+        break;
+      default:
+        throw invalid(
+          `unknown type ${String((check as { type?: unknown }).type)}`,
+        );
+    }
+
+    if (
+      check.weight !== undefined &&
+      (typeof check.weight !== 'number' ||
+        !Number.isFinite(check.weight) ||
+        check.weight < 0)
+    ) {
+      throw invalid('weight must be a non-negative number');
+    }
+  }
+
+  private async buildExecutor(
+    skillId: string,
+    version: number,
+  ): Promise<SkillEvalExecutor> {
+    const skillVersion = await this.skillVersionService.getVersion(
+      skillId,
+      version,
+    );
+
+    if (!skillVersion?.systemPrompt) {
+      throw new Error(`Version ${version} not found for skill ${skillId}`);
+    }
+
+    const prompt = skillVersion.systemPrompt;
+    const registeredModel =
+      this.aiModelRegistryService.getDefaultPerformanceModel();
+
+    return (input) =>
+      executeSkill(prompt, input, {
+        model: registeredModel.model,
+        generateText: ({ model, prompt: fullPrompt, temperature, maxTokens }) =>
+          generateText({
+            model: model as LanguageModel,
+            prompt: fullPrompt,
+            temperature,
+            maxOutputTokens: maxTokens,
+            experimental_telemetry: AI_TELEMETRY_CONFIG,
+          }),
+      });
+  }
+
+  private buildGrader(): SkillEvalGrader {
+    const registeredModel =
+      this.aiModelRegistryService.getDefaultPerformanceModel();
+
+    return async ({ criterion, input, output }) => {
+      try {
+        const result = await generateText({
+          model: registeredModel.model,
+          prompt: `${RUBRIC_PROMPT}\n\n## Criterion\n\n${criterion}\n\n## Input\n\n${JSON.stringify(input, null, 2)}\n\n## Output\n\n${JSON.stringify(output, null, 2)}`,
+          temperature: 0,
+          experimental_telemetry: AI_TELEMETRY_CONFIG,
+        });
+
+        const parsed = JSON.parse(result.text) as { score?: number };
+
+        return Number(parsed.score) / 100;
+      } catch (error) {
+        // an ungradable output scores zero rather than failing the run
+        this.logger.warn(`Rubric grading failed: ${String(error)}`);
+
+        return 0;
+      }
+    };
+  }
+}
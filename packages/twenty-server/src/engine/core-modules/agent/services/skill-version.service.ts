@@ -3,6 +3,7 @@ import { InjectRepository } from '@nestjs/typeorm';
 
 import { Repository } from 'typeorm';
 
+import { AgentSkillEntity } from 'src/engine/core-modules/agent/entities/agent-skill.entity';
 import { AgentSkillVersionEntity } from 'src/engine/core-modules/agent/entities/agent-skill-version.entity';
 
 @Injectable()
@@ -10,6 +11,8 @@ export class SkillVersionService {
   constructor(
     @InjectRepository(AgentSkillVersionEntity)
     private readonly versionRepository: Repository<AgentSkillVersionEntity>,
+    @InjectRepository(AgentSkillEntity)
+    private readonly skillRepository: Repository<AgentSkillEntity>,
   ) {}
 
   async listVersions(skillId: string): Promise<AgentSkillVersionEntity[]> {
@@ -78,4 +81,48 @@ export class SkillVersionService {
       createdBy: target.createdBy,
     });
   }
+
+  async getActiveVersion(skillId: string): Promise<number> {
+    const skill = await this.skillRepository.findOne({
+      where: { id: skillId },
+      select: { id: true, version: true },
+    });
+
+    if (!skill) {
+      throw new Error(`Skill ${skillId} not found`);
+    }
+
+    return skill.version;
+  }
+
+  // copies the version's prompt and template onto the skill reps run
+  async activate(
+    skillId: string,
+    targetVersion: number,
+  ): Promise<AgentSkillEntity> {
+    const target = await this.versionRepository.findOne({
+      where: { skillId, version: targetVersion },
+    });
+
+    if (!target) {
+      throw new Error(
+        `Version ${targetVersion} not found for skill ${skillId}`,
+      );
+    }
+
+    const skill = await this.skillRepository.findOne({
+      where: { id: skillId },
+    });
+
+    if (!skill) {
+      throw new Error(`Skill ${skillId} not found`);
+    }
+
+    return this.skillRepository.save({
+      ...skill,
+      systemPrompt: target.systemPrompt ?? skill.systemPrompt,
+      sandboxTemplate: target.sandboxTemplate,
+      version: target.version,
+    });
+  }
 }
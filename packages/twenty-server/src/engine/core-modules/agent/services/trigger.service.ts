@@ -11,14 +11,10 @@ import {
 } from '@consuelo/agent';
 
 import type { Repository } from 'typeorm';
-import type {
-  Automation,
-  CrmEvent,
-  TriggerConfig,
-  TriggerEvalResult,
-} from '@consuelo/agent';
+import type { CrmEvent, TriggerEvalResult } from '@consuelo/agent';
 
 import { AgentAutomationEntity } from 'src/engine/core-modules/agent/entities/automation.entity';
+import { fromAutomationEntityToAutomation } from 'src/engine/core-modules/agent/utils/from-automation-entity-to-automation.util';
 
 const DEFAULT_DEBOUNCE_TTL_MS = 60_000;
 
@@ -37,7 +33,7 @@ export class AgentTriggerService {
         where: { workspaceId: event.workspaceId, enabled: true },
       });
 
-      const automations = entities.map((e) => this.entityToAutomation(e));
+      const automations = entities.map(fromAutomationEntityToAutomation);
 
       const matched = findMatchingAutomations(automations, event);
 
@@ -119,7 +115,7 @@ export class AgentTriggerService {
         };
       }
 
-      const automation = this.entityToAutomation(entity);
+      const automation = fromAutomationEntityToAutomation(entity);
       const trigger = automation.trigger;
       const matched =
         matchEventTrigger(trigger, event) ||
@@ -144,25 +140,4 @@ export class AgentTriggerService {
       };
     }
   }
-
-  private entityToAutomation(entity: AgentAutomationEntity): Automation {
-    return {
-      id: entity.id,
-      name: entity.name,
-      description: entity.description ?? undefined,
-      enabled: entity.enabled,
-      skillId: entity.skillId,
-      trigger: entity.triggerConfig as TriggerConfig,
-      inputOverrides: entity.inputOverrides,
-      notifyOn: (entity.notifyOn as Automation['notifyOn']) ?? 'failure',
-      maxRunsPerDay: entity.maxRunsPerDay ?? undefined,
-      lastRunAt: entity.lastRunAt ?? undefined,
-      lastRunStatus:
-        (entity.lastRunStatus as Automation['lastRunStatus']) ?? undefined,
-      userId: entity.userId,
-      workspaceId: entity.workspaceId,
-      createdAt: entity.createdAt,
-      updatedAt: entity.updatedAt,
-    };
-  }
 }
@@ -0,0 +1,24 @@
+import type { Automation, TriggerConfig } from '@consuelo/agent';
+
+import { type AgentAutomationEntity } from 'src/engine/core-modules/agent/entities/automation.entity';
+
+export const fromAutomationEntityToAutomation = (
+  entity: AgentAutomationEntity,
+): Automation => ({
+  id: entity.id,
+  name: entity.name,
+  description: entity.description ?? undefined,
+  enabled: entity.enabled,
+  skillId: entity.skillId,
+  trigger: entity.triggerConfig as TriggerConfig,
+  inputOverrides: entity.inputOverrides,
+  notifyOn: (entity.notifyOn as Automation['notifyOn']) ?? 'failure',
+  maxRunsPerDay: entity.maxRunsPerDay ?? undefined,
+  lastRunAt: entity.lastRunAt ?? undefined,
+  lastRunStatus:
+    (entity.lastRunStatus as Automation['lastRunStatus']) ?? undefined,
+  userId: entity.userId,
+  workspaceId: entity.workspaceId,
+  createdAt: entity.createdAt,
+  updatedAt: entity.updatedAt,
+});
@@ -240,9 +240,12 @@ export class TwentyParallelInfrastructure {
         wastedLegs: record.telemetry.wastedLegs,
         connectLatencyMs: record.telemetry.connectLatencyMs,
       });
+      const profileId = record.group.profile.id;
+      // progressive sessions dial one line and have no posterior to learn
+      if (profileId === 'progressive') return;
       try {
         await this.parallelPosteriorStore.updatePosterior(
-          record.group.profile.id,
+          profileId,
           record.success,
         );
       } catch (cause: unknown) {
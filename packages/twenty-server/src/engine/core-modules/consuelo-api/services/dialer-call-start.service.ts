@@ -1,5 +1,6 @@
 import {
   BadRequestException,
+  ForbiddenException,
   Inject,
   Injectable,
   InternalServerErrorException,
@@ -9,6 +10,9 @@ import { InjectDataSource } from '@nestjs/typeorm';
 
 import * as Sentry from '@sentry/node';
 import {
+  createDialerComplianceLayer,
+  InMemoryComplianceStore,
+  liveDialerClockLayer,
   liveDialerIdGeneratorLayer,
   startDialerCall,
   type DialerCallStartCapacity,
@@ -33,6 +37,9 @@ export type {
 export class DialerCallStartService {
   private readonly logger = new Logger(DialerCallStartService.name);
   private readonly infrastructure: TwentyDialerCallStartInfrastructure;
+  private readonly complianceLayer = createDialerComplianceLayer(
+    new InMemoryComplianceStore(),
+  );
 
   constructor(
     @InjectDataSource() dataSource: DataSource,
@@ -57,6 +64,8 @@ export class DialerCallStartService {
               Layer.mergeAll(
                 this.infrastructure.createApplicationLayer(),
                 liveDialerIdGeneratorLayer,
+                liveDialerClockLayer,
+                this.complianceLayer,
               ),
             ),
           ),
@@ -71,9 +80,22 @@ export class DialerCallStartService {
           result.left.details ?? result.left.message,
         );
       }
+      if (result.left._tag === 'DialerComplianceError') {
+        throw new ForbiddenException({
+          code: result.left.code,
+          message: 'Call not permitted by compliance rules',
+          denials: result.left.denials.map((denial) => ({
+            contactId: denial.contactId ?? null,
+            reasons: denial.reasons,
+          })),
+        });
+      }
       return this.failStart(params, result.left);
     } catch (error: unknown) {
-      if (error instanceof BadRequestException) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof ForbiddenException
+      ) {
         throw error;
       }
       return this.failStart(params, error);
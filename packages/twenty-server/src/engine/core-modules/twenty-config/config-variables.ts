@@ -1248,6 +1248,15 @@ export class ConfigVariables {
   @IsOptional()
   DEFAULT_AI_PERFORMANCE_MODEL_ID = 'gpt-4.1,claude-sonnet-4-5-20250929,grok-4';
 
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.LLM,
+    description:
+      'AI model ID that judges agent turns against the grading rubric on top of the heuristic score. Leave empty to grade turns heuristically only.',
+    type: ConfigVariableType.STRING,
+  })
+  @IsOptional()
+  AGENT_TURN_JUDGE_MODEL_ID: string;
+
   @ConfigVariablesMetadata({
     group: ConfigVariablesGroup.LLM,
     isSensitive: true,
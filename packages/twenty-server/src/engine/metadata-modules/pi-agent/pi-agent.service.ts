@@ -1,8 +1,9 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { InjectDataSource } from '@nestjs/typeorm';
 
 import { randomUUID } from 'crypto';
 
+import { generateText } from 'ai';
 import { DataSource } from 'typeorm';
 
 import type {
@@ -16,6 +17,7 @@ import type {
   ContextLoader,
   MemoryStore,
   ExecutionStore,
+  TurnJudge,
   UsageStore,
   PhoneNumberRecommendationService,
   PiSession,
@@ -26,10 +28,12 @@ import type {
 } from '@consuelo/agent';
 import type { AgentTool } from '@mariozechner/pi-agent-core';
 
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
 import {
   type ChatExecutionOptions,
   ChatExecutionService,
 } from 'src/engine/metadata-modules/ai/ai-chat/services/chat-execution.service';
+import { AiModelRegistryService } from 'src/engine/metadata-modules/ai/ai-models/services/ai-model-registry.service';
 
 const BASE_SYSTEM_PROMPT = 'You are a sales assistant for Consuelo.';
 
@@ -82,6 +86,7 @@ function createPiSessionFromAiSdk(
 
 @Injectable()
 export class PiAgentService {
+  private readonly logger = new Logger(PiAgentService.name);
   private sessionManager: {
     save: (session: AgentSessionData) => Promise<void>;
     load: (sessionId: string) => Promise<AgentSessionData | null>;
@@ -93,8 +98,46 @@ export class PiAgentService {
     @InjectDataSource()
     private readonly dataSource: DataSource,
     private readonly chatExecutionService: ChatExecutionService,
+    private readonly aiModelRegistryService: AiModelRegistryService,
+    private readonly twentyConfigService: TwentyConfigService,
   ) {}
 
+  // LLM turn judge on the model named by AGENT_TURN_JUDGE_MODEL_ID; unset,
+  // or a model that cannot be resolved, leaves turn grading heuristic-only
+  private async resolveTurnJudge(): Promise<TurnJudge | undefined> {
+    const modelId = this.twentyConfigService
+      .get('AGENT_TURN_JUDGE_MODEL_ID')
+      ?.trim();
+
+    if (!modelId) return undefined;
+
+    try {
+      // throws when the model is not registered or its provider has no API key
+      const registeredModel =
+        await this.aiModelRegistryService.resolveModelForAgent({ modelId });
+      const { createTurnJudge } = await import('@consuelo/agent');
+
+      return createTurnJudge({
+        model: registeredModel.model,
+        generateText: ({ prompt, temperature, maxTokens }) =>
+          generateText({
+            model: registeredModel.model,
+            prompt,
+            temperature,
+            maxOutputTokens: maxTokens,
+          }),
+      });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'unknown error';
+
+      this.logger.warn(
+        `Turn judge model ${modelId} unavailable, grading turns heuristically: ${message}`,
+      );
+
+      return undefined;
+    }
+  }
+
   private async getSessionManager() {
     if (!this.sessionManager) {
       const { DatabaseSessionManager } = await import('@consuelo/agent');
@@ -174,6 +217,9 @@ export class PiAgentService {
       kbService?: KbService;
       memoryStore?: MemoryStore;
       executionStore?: ExecutionStore;
+      // grades turns with an LLM judge on top of the heuristic score;
+      // defaults to the configured judge model
+      turnJudge?: TurnJudge;
       usageStore?: UsageStore;
       phoneNumberRecommendationService?: PhoneNumberRecommendationService;
     },
@@ -212,8 +258,14 @@ export class PiAgentService {
         );
       }
 
+      const turnJudge = options?.executionStore
+        ? (options.turnJudge ?? (await this.resolveTurnJudge()))
+        : undefined;
+
       if (options?.executionStore) {
-        afterTurnExtensions.push(createTurnGrading(options.executionStore));
+        afterTurnExtensions.push(
+          createTurnGrading(options.executionStore, { judge: turnJudge }),
+        );
       }
 
       if (options?.usageStore) {
@@ -244,6 +296,7 @@ export class PiAgentService {
           hasPipelineIntelligence: !!options?.crmClient,
           hasPreferenceInference: !!options?.memoryStore,
           hasTurnGrading: !!options?.executionStore,
+          hasTurnJudge: !!turnJudge,
           hasUsageTracking: !!options?.usageStore,
           extensionCount: extensions.length,
           afterTurnExtensionCount: afterTurnExtensions.length,